@@ -343,18 +343,25 @@ self.addEventListener('push', event => {
     ]
   };
   
+  let title = 'MaintainPro CMMS';
   if (event.data) {
     try {
       const payload = event.data.json();
+      title = payload.title || title;
       options.body = payload.body || options.body;
       options.data = payload.data || options.data;
+      if (payload.tag) {
+        // Re-sent notifications replace the earlier one instead of stacking
+        options.tag = payload.tag;
+        options.renotify = true;
+      }
     } catch (error) {
       console.error('[SW] Failed to parse push payload:', error);
     }
   }
   
   event.waitUntil(
-    self.registration.showNotification('MaintainPro CMMS', options)
+    self.registration.showNotification(title, options)
   );
 });
 
@@ -364,12 +371,21 @@ self.addEventListener('notificationclick', event => {
   
   event.notification.close();
   
-  if (event.action === 'view') {
-    const url = event.notification.data?.url || '/';
-    event.waitUntil(
-      clients.openWindow(url)
-    );
+  if (event.action === 'dismiss') {
+    return;
   }
+
+  // Deep link into the work order: focus an open app window if there is one, otherwise open a new one
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+  event.waitUntil(
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windowClients => {
+      const appWindow = windowClients.find(client => new URL(client.url).origin === self.location.origin);
+      if (appWindow) {
+        return appWindow.navigate(url).then(client => (client || appWindow).focus());
+      }
+      return clients.openWindow(url);
+    })
+  );
 });
 
 console.log('[SW] Service worker loaded successfully');
\ No newline at end of file
@@ -16,6 +16,10 @@ import Vendors from "./pages/Vendors";
 import Phase1Demo from "./pages/Phase1Demo";
 import Auth from "./pages/Auth";
 import Analytics from "./pages/Analytics";
+import NotificationSettings from "./pages/NotificationSettings";
+import OnCall from "./pages/OnCall";
+import RequestPortal from "./pages/RequestPortal";
+import RequestStatus from "./pages/RequestStatus";
 import { PerformanceDashboard } from "./components/admin/PerformanceDashboard";
 import EnterpriseMonitoring from "./pages/EnterpriseMonitoring";
 import SystemDashboard from "./pages/monitoring/SystemDashboard";
@@ -48,6 +52,8 @@ function AppRoutes() {
     <Switch>
       <Route path="/auth" component={Auth} />
       <Route path="/login" component={Auth} />
+      <Route path="/request/status/:token" component={RequestStatus} />
+      <Route path="/request" component={RequestPortal} />
       <Route path="/">
         <ProtectedRoute>
           <Dashboard />
@@ -88,6 +94,16 @@ function AppRoutes() {
           <Analytics />
         </ProtectedRoute>
       </Route>
+      <Route path="/on-call">
+        <ProtectedRoute>
+          <OnCall />
+        </ProtectedRoute>
+      </Route>
+      <Route path="/settings/notifications">
+        <ProtectedRoute>
+          <NotificationSettings />
+        </ProtectedRoute>
+      </Route>
       <Route path="/admin/performance">
         <ProtectedRoute>
           <PerformanceDashboard />
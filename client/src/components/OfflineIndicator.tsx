@@ -3,12 +3,15 @@ import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useOfflineService } from '@/services/offline';
-import { WifiOff, Wifi, RefreshCw, AlertCircle } from 'lucide-react';
+import SyncConflictResolver from './SyncConflictResolver';
+import { WifiOff, Wifi, RefreshCw, AlertCircle, GitMerge } from 'lucide-react';
 
 const OfflineIndicator: React.FC = () => {
-  const { getNetworkStatus, getPendingActionsCount, forceSync } = useOfflineService();
+  const { getNetworkStatus, getPendingActionsCount, getConflicts, forceSync } = useOfflineService();
   const [networkStatus, setNetworkStatus] = useState(getNetworkStatus());
   const [pendingCount, setPendingCount] = useState(getPendingActionsCount());
+  const [conflictCount, setConflictCount] = useState(getConflicts().length);
+  const [showConflicts, setShowConflicts] = useState(false);
   const [isSync, setIsSync] = useState(false);
 
   useEffect(() => {
@@ -21,17 +24,25 @@ const OfflineIndicator: React.FC = () => {
       setIsSync(false);
     };
 
+    const handleConflicts = () => {
+      setConflictCount(getConflicts().length);
+      setPendingCount(getPendingActionsCount());
+    };
+
     window.addEventListener('networkStatusChange', handleNetworkChange);
     window.addEventListener('offlineSyncComplete', handleSyncComplete);
+    window.addEventListener('offlineSyncConflict', handleConflicts);
 
     // Update pending count periodically
     const interval = setInterval(() => {
       setPendingCount(getPendingActionsCount());
+      setConflictCount(getConflicts().length);
     }, 5000);
 
     return () => {
       window.removeEventListener('networkStatusChange', handleNetworkChange);
       window.removeEventListener('offlineSyncComplete', handleSyncComplete);
+      window.removeEventListener('offlineSyncConflict', handleConflicts);
       clearInterval(interval);
     };
   }, []);
@@ -48,8 +59,8 @@ const OfflineIndicator: React.FC = () => {
     setIsSync(false);
   };
 
-  // Don't show if online and no pending actions
-  if (networkStatus.isOnline && pendingCount === 0) {
+  // Don't show if online with nothing pending or waiting on the technician
+  if (networkStatus.isOnline && pendingCount === 0 && conflictCount === 0) {
     return null;
   }
 
@@ -90,6 +101,18 @@ const OfflineIndicator: React.FC = () => {
             </>
           )}
 
+          {conflictCount > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowConflicts(true)}
+              className="h-6 px-2 text-xs border-red-300 text-red-700"
+            >
+              <GitMerge className="w-3 h-3 mr-1" />
+              {conflictCount} to resolve
+            </Button>
+          )}
+
           {!networkStatus.isOnline && pendingCount > 0 && (
             <div className="flex items-center space-x-1 text-orange-600">
               <AlertCircle className="w-4 h-4" />
@@ -98,6 +121,7 @@ const OfflineIndicator: React.FC = () => {
           )}
         </div>
       </Card>
+      <SyncConflictResolver open={showConflicts} onOpenChange={setShowConflicts} />
     </div>
   );
 };
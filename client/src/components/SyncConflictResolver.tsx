@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useOfflineService, type SyncConflict } from '@/services/offline';
+import { AlertTriangle, Smartphone, Server } from 'lucide-react';
+
+interface SyncConflictResolverProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TABLE_LABELS: Record<SyncConflict['table'], string> = {
+  work_orders: 'Work order',
+  work_order_checklist_items: 'Checklist item',
+  parts_usage: 'Parts usage',
+  labor_time: 'Labor time',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const describeRecord = (conflict: SyncConflict) => {
+  const record = conflict.record || {};
+  return record.foNumber || (record.component && `${record.component} – ${record.action}`) || record.description || conflict.entityId;
+};
+
+const SyncConflictResolver: React.FC<SyncConflictResolverProps> = ({ open, onOpenChange }) => {
+  const { getConflicts, resolveConflict, dismissConflict } = useOfflineService();
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(getConflicts());
+  const [choices, setChoices] = useState<Record<string, Record<string, 'mine' | 'theirs'>>>({});
+
+  useEffect(() => {
+    const handleConflicts = () => setConflicts(getConflicts());
+    window.addEventListener('offlineSyncConflict', handleConflicts);
+    return () => window.removeEventListener('offlineSyncConflict', handleConflicts);
+  }, []);
+
+  useEffect(() => {
+    if (open) setConflicts(getConflicts());
+  }, [open]);
+
+  const choose = (conflictId: string, field: string, side: 'mine' | 'theirs') => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const isComplete = (conflict: SyncConflict) =>
+    conflict.conflicts.every(field => choices[conflict.id]?.[field.field]);
+
+  const handleResolve = (conflict: SyncConflict) => {
+    resolveConflict(conflict.id, choices[conflict.id] || {});
+    setConflicts(getConflicts());
+  };
+
+  const handleDismiss = (conflict: SyncConflict) => {
+    dismissConflict(conflict.id);
+    setConflicts(getConflicts());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Resolve Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            These offline changes clashed with edits made by someone else. Pick which value to keep for each field.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-gray-600 py-6 text-center">All offline changes are in sync.</p>
+        ) : (
+          <div className="space-y-4">
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Badge variant="outline" className="text-xs mr-2">{TABLE_LABELS[conflict.table]}</Badge>
+                    <span className="text-sm font-medium">{describeRecord(conflict)}</span>
+                  </div>
+                  <span className="text-xs text-gray-500">{new Date(conflict.detectedAt).toLocaleString()}</span>
+                </div>
+
+                {conflict.error ? (
+                  <div className="flex items-start space-x-2 text-sm text-red-700 bg-red-50 rounded p-2">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>Not saved: {conflict.error}</span>
+                  </div>
+                ) : conflict.conflicts.length === 0 ? (
+                  <p className="text-sm text-gray-600">This record changed on the server after you went offline.</p>
+                ) : (
+                  conflict.conflicts.map(field => (
+                    <div key={field.field} className="space-y-1">
+                      <div className="text-xs font-medium text-gray-500 uppercase">{field.field}</div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant={choices[conflict.id]?.[field.field] === 'mine' ? 'default' : 'outline'}
+                          className="h-auto justify-start text-left whitespace-normal"
+                          onClick={() => choose(conflict.id, field.field, 'mine')}
+                        >
+                          <Smartphone className="w-4 h-4 mr-2 shrink-0" />
+                          <span>{formatValue(field.mine)}</span>
+                        </Button>
+                        <Button
+                          variant={choices[conflict.id]?.[field.field] === 'theirs' ? 'default' : 'outline'}
+                          className="h-auto justify-start text-left whitespace-normal"
+                          onClick={() => choose(conflict.id, field.field, 'theirs')}
+                        >
+                          <Server className="w-4 h-4 mr-2 shrink-0" />
+                          <span>{formatValue(field.theirs)}</span>
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => handleDismiss(conflict)}>
+                    {conflict.error || conflict.conflicts.length === 0 ? 'Dismiss' : 'Keep server values'}
+                  </Button>
+                  {!conflict.error && conflict.conflicts.length > 0 && (
+                    <Button size="sm" onClick={() => handleResolve(conflict)} disabled={!isComplete(conflict)}>
+                      Apply choices
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictResolver;
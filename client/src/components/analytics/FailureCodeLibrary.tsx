@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+import { FAILURE_CODE_KINDS, type FailureCode, type FailureCodeKind } from '@/types';
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const emptyForm = { code: '', name: '', equipmentModel: '', equipmentClass: '' };
+
+/**
+ * The problem, cause and remedy codes technicians choose from, each optionally limited to a model or class
+ */
+const FailureCodeLibrary: React.FC = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<FailureCodeKind>('problem');
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: codes = [] } = useQuery<FailureCode[]>({
+    queryKey: ['/api/failure-codes', { includeInactive: true }],
+    queryFn: async () => {
+      const response = await fetch('/api/failure-codes?includeInactive=true', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch failure codes');
+      return response.json();
+    },
+  });
+
+  const send = async (url: string, method: string, body: unknown) => {
+    const response = await fetch(url, { method, headers: requestHeaders(), body: JSON.stringify(body) });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to save failure code');
+    }
+    return response.json();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => send('/api/failure-codes', 'POST', {
+      kind,
+      code: form.code,
+      name: form.name,
+      equipmentModel: form.equipmentModel || undefined,
+      equipmentClass: form.equipmentClass || undefined,
+    }),
+    onSuccess: () => {
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ['/api/failure-codes'] });
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (code: FailureCode) => send(`/api/failure-codes/${code.id}`, 'PATCH', { active: !code.active }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/failure-codes'] }),
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const shown = codes.filter(code => code.kind === kind);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Failure Code Library</CardTitle>
+          <Select value={kind} onValueChange={(value) => setKind(value as FailureCodeKind)}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {FAILURE_CODE_KINDS.map(k => (
+                <SelectItem key={k} value={k} className="capitalize">{k} codes</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4">Code</th>
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4">Applies to</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(code => (
+              <tr key={code.id} className={`border-b last:border-0 ${code.active ? '' : 'text-gray-400'}`}>
+                <td className="py-2 pr-4 font-mono text-xs">{code.code}</td>
+                <td className="py-2 pr-4">{code.name}</td>
+                <td className="py-2 pr-4">
+                  {code.equipmentModel || code.equipmentClass ? (
+                    <div className="flex flex-wrap gap-1">
+                      {code.equipmentModel && <Badge variant="outline">Model {code.equipmentModel}</Badge>}
+                      {code.equipmentClass && <Badge variant="outline">Class {code.equipmentClass}</Badge>}
+                    </div>
+                  ) : 'All equipment'}
+                </td>
+                <td className="py-2 text-right">
+                  <Button variant="ghost" size="sm" onClick={() => toggleMutation.mutate(code)} disabled={toggleMutation.isPending}>
+                    {code.active ? 'Retire' : 'Restore'}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 border-t pt-4">
+          <Input placeholder="Code" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} />
+          <Input placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          <Input placeholder="Model (optional)" value={form.equipmentModel} onChange={(e) => setForm({ ...form, equipmentModel: e.target.value })} />
+          <Input placeholder="Class (optional)" value={form.equipmentClass} onChange={(e) => setForm({ ...form, equipmentClass: e.target.value })} />
+          <Button onClick={() => createMutation.mutate()} disabled={!form.code.trim() || !form.name.trim() || createMutation.isPending}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add {kind}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FailureCodeLibrary;
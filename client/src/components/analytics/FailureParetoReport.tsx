@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { subDays } from 'date-fns';
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { FailureCodeKind } from '@/types';
+
+interface ParetoEntry {
+  codeId: string;
+  code: string;
+  name: string;
+  count: number;
+  percentage: number;
+  cumulativePercentage: number;
+}
+
+interface ParetoReport {
+  kind: FailureCodeKind;
+  groupBy: 'model' | 'area';
+  total: number;
+  overall: ParetoEntry[];
+  groups: { key: string; total: number; entries: ParetoEntry[] }[];
+}
+
+const requestHeaders = () => ({
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Which problem, cause or remedy codes come up most on finished corrective and emergency work
+ */
+const FailureParetoReport: React.FC = () => {
+  const [kind, setKind] = useState<FailureCodeKind>('cause');
+  const [groupBy, setGroupBy] = useState<'model' | 'area'>('model');
+  const [days, setDays] = useState('90');
+
+  const { data: report, isLoading } = useQuery<ParetoReport>({
+    queryKey: ['/api/analytics/failure-pareto', kind, groupBy, days],
+    queryFn: async () => {
+      const params = new URLSearchParams({ kind, groupBy, from: subDays(new Date(), Number(days)).toISOString() });
+      const response = await fetch(`/api/analytics/failure-pareto?${params}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch failure Pareto');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Failure codes recorded when corrective and emergency work was completed.
+        </p>
+        <div className="flex space-x-2">
+          <Select value={kind} onValueChange={(value) => setKind(value as FailureCodeKind)}>
+            <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="problem">Problems</SelectItem>
+              <SelectItem value="cause">Causes</SelectItem>
+              <SelectItem value="remedy">Remedies</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as 'model' | 'area')}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="model">By model</SelectItem>
+              <SelectItem value="area">By area</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+              <SelectItem value="365">Last year</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="py-12 text-center text-muted-foreground">Loading failure codes...</div>
+      ) : report.total === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">No coded corrective work in this period.</p>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Top {kind} codes · {report.total} work orders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <ComposedChart data={report.overall}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="code" />
+                  <YAxis yAxisId="count" allowDecimals={false} />
+                  <YAxis yAxisId="cumulative" orientation="right" domain={[0, 100]} unit="%" />
+                  <Tooltip />
+                  <Bar yAxisId="count" dataKey="count" name="Work orders" fill="#3b82f6" />
+                  <Line yAxisId="cumulative" dataKey="cumulativePercentage" name="Cumulative %" stroke="#ef4444" />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {report.groups.map(group => (
+              <Card key={group.key}>
+                <CardHeader>
+                  <CardTitle className="text-base">{group.key} · {group.total}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {group.entries.slice(0, 5).map(entry => (
+                        <tr key={entry.codeId} className="border-b last:border-0">
+                          <td className="py-1 pr-2 font-mono text-xs">{entry.code}</td>
+                          <td className="py-1 pr-2">{entry.name}</td>
+                          <td className="py-1 pr-2 text-right">{entry.count}</td>
+                          <td className="py-1 text-right text-gray-500">{entry.percentage}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FailureParetoReport;
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Clock, ShieldCheck, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { CLOCK_STATE_STYLES, HOLD_REASON_LABELS, formatClockMinutes } from '@/components/work-orders/WorkOrderSlaPanel';
+import type { SlaHoldReason } from '@/types';
+
+type ClockState = keyof typeof CLOCK_STATE_STYLES;
+
+interface ReportClock {
+  targetMinutes: number;
+  elapsedMinutes: number;
+  dueAt: string | null;
+  breachedAt: string | null;
+  state: ClockState;
+}
+
+interface ReportEntry {
+  workOrder: {
+    id: string;
+    foNumber: string;
+    description: string;
+    type: string;
+    priority: string;
+    status: string;
+    assignedTo: string | null;
+    holdReason: SlaHoldReason | null;
+  };
+  sla: { response: ReportClock; resolution: ReportClock };
+}
+
+interface SlaReportData {
+  periodDays: number;
+  summary: {
+    open: number;
+    atRisk: number;
+    breached: number;
+    responseCompliance: number | null;
+    resolutionCompliance: number | null;
+  };
+  atRisk: ReportEntry[];
+  breached: ReportEntry[];
+}
+
+const requestHeaders = () => ({
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value}%`;
+
+const ClockCell: React.FC<{ clock: ReportClock }> = ({ clock }) => {
+  const style = CLOCK_STATE_STYLES[clock.state];
+  const when = clock.breachedAt || clock.dueAt;
+  return (
+    <div className="space-y-1">
+      <Badge className={style.className}>{style.label}</Badge>
+      <div className="text-xs text-gray-500">
+        {formatClockMinutes(clock.elapsedMinutes)} / {formatClockMinutes(clock.targetMinutes)}
+        {when && ` · ${format(new Date(when), 'MMM d, HH:mm')}`}
+      </div>
+    </div>
+  );
+};
+
+const EntryTable: React.FC<{ entries: ReportEntry[]; empty: string }> = ({ entries, empty }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 py-6 text-center">{empty}</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-4">Work Order</th>
+            <th className="py-2 pr-4">Priority</th>
+            <th className="py-2 pr-4">Status</th>
+            <th className="py-2 pr-4">Response</th>
+            <th className="py-2">Resolution</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(({ workOrder, sla }) => (
+            <tr key={workOrder.id} className="border-b last:border-0 align-top">
+              <td className="py-2 pr-4">
+                <div className="font-medium">{workOrder.foNumber}</div>
+                <div className="text-xs text-gray-500 truncate max-w-xs">{workOrder.description}</div>
+              </td>
+              <td className="py-2 pr-4 capitalize">{workOrder.type} · {workOrder.priority}</td>
+              <td className="py-2 pr-4">
+                <span className="capitalize">{workOrder.status.replace('_', ' ')}</span>
+                {workOrder.holdReason && (
+                  <div className="text-xs text-gray-500">{HOLD_REASON_LABELS[workOrder.holdReason]}</div>
+                )}
+              </td>
+              <td className="py-2 pr-4"><ClockCell clock={sla.response} /></td>
+              <td className="py-2"><ClockCell clock={sla.resolution} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const SLAReport: React.FC = () => {
+  const [days, setDays] = useState('30');
+  const warehouseId = localStorage.getItem('warehouseId') || 'default-warehouse-id';
+
+  const { data: report, isLoading } = useQuery<SlaReportData>({
+    queryKey: ['sla-report', warehouseId, days],
+    queryFn: async () => {
+      const response = await fetch(`/api/sla/reports/${warehouseId}?days=${days}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch SLA report');
+      return response.json();
+    },
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  if (isLoading || !report) {
+    return <div className="py-12 text-center text-muted-foreground">Loading SLA report...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          Response and resolution targets, measured in each warehouse's business hours.
+        </p>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">At risk</span>
+              <AlertTriangle className="w-4 h-4 text-yellow-600" />
+            </div>
+            <div className="text-2xl font-bold">{report.summary.atRisk}</div>
+            <div className="text-xs text-gray-500">of {report.summary.open} open</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Breached</span>
+              <XCircle className="w-4 h-4 text-red-600" />
+            </div>
+            <div className="text-2xl font-bold">{report.summary.breached}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Response compliance</span>
+              <Clock className="w-4 h-4 text-blue-600" />
+            </div>
+            <div className="text-2xl font-bold">{formatPercent(report.summary.responseCompliance)}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-500">Resolution compliance</span>
+              <ShieldCheck className="w-4 h-4 text-green-600" />
+            </div>
+            <div className="text-2xl font-bold">{formatPercent(report.summary.resolutionCompliance)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>At Risk</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EntryTable entries={report.atRisk} empty="No open work orders are close to a target." />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Breached</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <EntryTable entries={report.breached} empty={`No SLA breaches in the last ${report.periodDays} days.`} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SLAReport;
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, MapPin, QrCode, Settings } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Card, CardContent } from '../ui/card';
+import { AssetTreeNode, LocationTreeNode, useAssetTree } from '../../hooks/useEquipment';
+
+interface AssetTreeViewProps {
+  onSelect: (equipmentId: string) => void;
+  matches?: (item: AssetTreeNode) => boolean;
+  onLocationLabel?: (locationId: string) => void;
+}
+
+const LOCATION_LABELS: Record<LocationTreeNode['type'], string> = {
+  site: 'Site',
+  building: 'Building',
+  area: 'Area',
+  position: 'Position',
+};
+
+// Keep a branch when it, or anything under it, passes the page filters
+const filterAssets = (nodes: AssetTreeNode[], matches?: (item: AssetTreeNode) => boolean): AssetTreeNode[] =>
+  nodes.flatMap(node => {
+    const children = filterAssets(node.children, matches);
+    return !matches || matches(node) || children.length > 0 ? [{ ...node, children }] : [];
+  });
+
+const filterLocations = (nodes: LocationTreeNode[], matches?: (item: AssetTreeNode) => boolean): LocationTreeNode[] =>
+  nodes.flatMap(node => {
+    const children = filterLocations(node.children, matches);
+    const equipment = filterAssets(node.equipment, matches);
+    return !matches || children.length > 0 || equipment.length > 0 ? [{ ...node, children, equipment }] : [];
+  });
+
+function AssetRow({ node, depth, onSelect }: { node: AssetTreeNode; depth: number; onSelect: (id: string) => void }) {
+  const [open, setOpen] = useState(true);
+  return (
+    <>
+      <div
+        className="flex items-center py-1.5 pr-2 rounded hover:bg-gray-50 cursor-pointer text-sm"
+        style={{ paddingLeft: depth * 20 }}
+        onClick={() => onSelect(node.id)}
+      >
+        <button
+          type="button"
+          className="w-5 h-5 flex items-center justify-center text-gray-400"
+          onClick={(e) => { e.stopPropagation(); setOpen(!open); }}
+          disabled={node.children.length === 0}
+        >
+          {node.children.length > 0 && (open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+        </button>
+        <Settings className="w-4 h-4 text-primary-600 mr-2" />
+        <span className="font-medium text-gray-900">{node.assetTag}</span>
+        <span className="text-gray-500 ml-2 truncate">{node.description}</span>
+        <Badge variant="outline" className="ml-auto text-xs">{node.status}</Badge>
+      </div>
+      {open && node.children.map(child => (
+        <AssetRow key={child.id} node={child} depth={depth + 1} onSelect={onSelect} />
+      ))}
+    </>
+  );
+}
+
+function LocationRow({ node, depth, onSelect, onLabel }: {
+  node: LocationTreeNode;
+  depth: number;
+  onSelect: (id: string) => void;
+  onLabel?: (locationId: string) => void;
+}) {
+  const [open, setOpen] = useState(true);
+  return (
+    <>
+      <div
+        className="flex items-center py-1.5 rounded hover:bg-gray-50 cursor-pointer text-sm"
+        style={{ paddingLeft: depth * 20 }}
+        onClick={() => setOpen(!open)}
+      >
+        <span className="w-5 h-5 flex items-center justify-center text-gray-400">
+          {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        </span>
+        <MapPin className="w-4 h-4 text-gray-400 mr-2" />
+        <span className="font-semibold text-gray-700">{node.name}</span>
+        <span className="text-xs text-gray-400 ml-2">{LOCATION_LABELS[node.type]}</span>
+        {onLabel && (
+          <button
+            type="button"
+            className="ml-auto mr-2 text-gray-400 hover:text-gray-700"
+            title="Print location label"
+            onClick={(e) => { e.stopPropagation(); onLabel(node.id); }}
+          >
+            <QrCode className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {open && (
+        <>
+          {node.children.map(child => (
+            <LocationRow key={child.id} node={child} depth={depth + 1} onSelect={onSelect} onLabel={onLabel} />
+          ))}
+          {node.equipment.map(asset => (
+            <AssetRow key={asset.id} node={asset} depth={depth + 1} onSelect={onSelect} />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
+/**
+ * Equipment laid out by site, building, area and position, with child assets under their parents
+ */
+export default function AssetTreeView({ onSelect, matches, onLocationLabel }: AssetTreeViewProps) {
+  const { data: tree, isLoading } = useAssetTree();
+
+  if (isLoading) {
+    return (
+      <Card className="animate-pulse">
+        <CardContent className="p-6 space-y-2">
+          {Array.from({ length: 6 }).map((_, i) => <div key={i} className="h-4 bg-gray-200 rounded" />)}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const locations = filterLocations(tree?.locations ?? [], matches);
+  const unplaced = filterAssets(tree?.unplaced ?? [], matches);
+
+  return (
+    <Card>
+      <CardContent className="p-4">
+        {locations.length === 0 && unplaced.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No equipment found matching your criteria</p>
+        ) : (
+          <>
+            {locations.map(location => (
+              <LocationRow key={location.id} node={location} depth={0} onSelect={onSelect} onLabel={onLocationLabel} />
+            ))}
+            {unplaced.length > 0 && (
+              <div className="mt-4 pt-2 border-t">
+                <p className="text-xs font-medium text-gray-500 uppercase mb-1">Not placed</p>
+                {unplaced.map(asset => (
+                  <AssetRow key={asset.id} node={asset} depth={0} onSelect={onSelect} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
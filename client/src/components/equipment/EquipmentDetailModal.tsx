@@ -10,6 +10,9 @@ import { useState } from 'react';
 import WorkOrderModal from '../work-orders/WorkOrderModal';
 import FileUpload from '../FileUpload';
 import DocumentPreview from '../DocumentPreview';
+import EquipmentReadingsChart from './EquipmentReadingsChart';
+import EquipmentHierarchyPanel from './EquipmentHierarchyPanel';
+import EquipmentDowntimePanel from './EquipmentDowntimePanel';
 import { useAttachments } from '../../hooks/useAttachments';
 import { useToast } from '../../hooks/use-toast';
 
@@ -172,8 +175,11 @@ export default function EquipmentDetailModal({
           </DialogHeader>
           
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="details">Details</TabsTrigger>
+              <TabsTrigger value="hierarchy">Hierarchy</TabsTrigger>
+              <TabsTrigger value="downtime">Downtime</TabsTrigger>
+              <TabsTrigger value="readings">Readings</TabsTrigger>
               <TabsTrigger value="attachments">
                 Attachments ({attachments?.length || 0})
               </TabsTrigger>
@@ -278,6 +284,21 @@ export default function EquipmentDetailModal({
               </div>
             </TabsContent>
 
+            {/* Hierarchy Tab */}
+            <TabsContent value="hierarchy">
+              <EquipmentHierarchyPanel equipment={equipment} />
+            </TabsContent>
+
+            {/* Downtime Tab */}
+            <TabsContent value="downtime">
+              <EquipmentDowntimePanel equipment={equipment} />
+            </TabsContent>
+
+            {/* Readings Tab */}
+            <TabsContent value="readings">
+              <EquipmentReadingsChart equipmentId={equipment.id} />
+            </TabsContent>
+
             {/* Attachments Tab */}
             <TabsContent value="attachments" className="space-y-4">
               <div className="space-y-4">
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format, formatDistanceStrict } from 'date-fns';
+import { Activity, PauseCircle, PlayCircle } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { DOWNTIME_REASON_CODES, DowntimeEvent, DowntimeReasonCode, DowntimeType, Equipment } from '../../types';
+import { useToast } from '../../hooks/use-toast';
+
+interface ReliabilityMetrics {
+  periodHours: number;
+  downtimeHours: number;
+  plannedDowntimeHours: number;
+  unplannedDowntimeHours: number;
+  failures: number;
+  mttr: number | null;
+  mtbf: number | null;
+  availability: number;
+}
+
+const REASON_LABELS: Record<DowntimeReasonCode, string> = {
+  breakdown: 'Breakdown',
+  electrical: 'Electrical',
+  mechanical: 'Mechanical',
+  hydraulic: 'Hydraulic',
+  controls: 'Controls',
+  preventive_maintenance: 'Preventive maintenance',
+  inspection: 'Inspection',
+  changeover: 'Changeover',
+  utility_outage: 'Utility outage',
+  material_shortage: 'Material shortage',
+  operator: 'Operator',
+  other: 'Other',
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Downtime recorded for an asset, with the last 30 days' MTTR, MTBF and availability
+ */
+export default function EquipmentDowntimePanel({ equipment }: { equipment: Equipment }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<DowntimeType>('unplanned');
+  const [reasonCode, setReasonCode] = useState<DowntimeReasonCode>('breakdown');
+  const [notes, setNotes] = useState('');
+
+  const { data: events } = useQuery<DowntimeEvent[]>({
+    queryKey: ['/api/downtime', { equipmentId: equipment.id }],
+    queryFn: async () => {
+      const response = await fetch(`/api/downtime?equipmentId=${equipment.id}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch downtime');
+      return response.json();
+    },
+  });
+
+  const { data: reliability } = useQuery<ReliabilityMetrics>({
+    queryKey: ['/api/equipment', equipment.id, 'reliability'],
+    queryFn: async () => {
+      const response = await fetch(`/api/equipment/${equipment.id}/reliability`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch reliability');
+      return response.json();
+    },
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/downtime'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/equipment', equipment.id] });
+  };
+
+  const send = async (url: string, body: unknown) => {
+    const response = await fetch(url, { method: 'POST', headers: requestHeaders(), body: JSON.stringify(body) });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || 'Failed to record downtime');
+    }
+    return response.json();
+  };
+
+  const openMutation = useMutation({
+    mutationFn: () => send('/api/downtime', { equipmentId: equipment.id, type, reasonCode, notes: notes || undefined }),
+    onSuccess: () => {
+      setNotes('');
+      refresh();
+      toast({ title: 'Downtime started', description: `${equipment.assetTag} marked as down` });
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: (id: string) => send(`/api/downtime/${id}/close`, {}),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Downtime ended', description: `${equipment.assetTag} is back up` });
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const open = events?.find(e => !e.endedAt);
+  const history = [...(events ?? [])].reverse();
+
+  return (
+    <div className="space-y-6">
+      {/* Reliability */}
+      {reliability && (
+        <div className="grid grid-cols-4 gap-4 text-center">
+          <div>
+            <p className="text-xs text-gray-500">Availability</p>
+            <p className="text-lg font-semibold">{reliability.availability.toFixed(1)}%</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">MTBF</p>
+            <p className="text-lg font-semibold">{reliability.mtbf !== null ? `${reliability.mtbf} h` : '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">MTTR</p>
+            <p className="text-lg font-semibold">{reliability.mttr !== null ? `${reliability.mttr} h` : '—'}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Failures</p>
+            <p className="text-lg font-semibold">{reliability.failures}</p>
+          </div>
+          <p className="col-span-4 text-xs text-gray-400">
+            Last 30 days · {reliability.unplannedDowntimeHours} h unplanned, {reliability.plannedDowntimeHours} h planned
+          </p>
+        </div>
+      )}
+
+      {/* Start or end downtime */}
+      <div className="border-t pt-4 space-y-3">
+        {open ? (
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <div className="font-medium text-red-700">
+                Down since {format(new Date(open.startedAt), 'MMM d, HH:mm')}
+              </div>
+              <div className="text-xs text-gray-500">
+                {REASON_LABELS[open.reasonCode]} · {open.type}
+              </div>
+            </div>
+            <Button onClick={() => closeMutation.mutate(open.id)} disabled={closeMutation.isPending}>
+              <PlayCircle className="w-4 h-4 mr-2" />
+              Back up
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={type} onValueChange={(value) => setType(value as DowntimeType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unplanned">Unplanned</SelectItem>
+                  <SelectItem value="planned">Planned</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as DowntimeReasonCode)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DOWNTIME_REASON_CODES.map(code => (
+                    <SelectItem key={code} value={code}>{REASON_LABELS[code]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input placeholder="Notes (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            <Button variant="outline" className="w-full" onClick={() => openMutation.mutate()} disabled={openMutation.isPending}>
+              <PauseCircle className="w-4 h-4 mr-2" />
+              Mark as down
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* History */}
+      <div className="border-t pt-4">
+        <h4 className="font-medium text-gray-900 mb-2">Downtime history</h4>
+        {history.length === 0 ? (
+          <div className="text-center py-4">
+            <Activity className="w-8 h-8 mx-auto text-gray-300 mb-2" />
+            <p className="text-sm text-gray-500">No downtime recorded</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {history.map(event => (
+              <div key={event.id} className="flex justify-between text-sm">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span>{REASON_LABELS[event.reasonCode]}</span>
+                    <Badge className={event.type === 'unplanned' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}>
+                      {event.type}
+                    </Badge>
+                  </div>
+                  {event.notes && <div className="text-xs text-gray-500">{event.notes}</div>}
+                </div>
+                <div className="text-right text-gray-500 whitespace-nowrap ml-2">
+                  <div>{format(new Date(event.startedAt), 'MMM d, yyyy HH:mm')}</div>
+                  <div className="text-xs">
+                    {event.endedAt
+                      ? formatDistanceStrict(new Date(event.startedAt), new Date(event.endedAt))
+                      : 'ongoing'}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
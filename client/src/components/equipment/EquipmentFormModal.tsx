@@ -5,6 +5,7 @@ import { Textarea } from '../ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { useState } from 'react';
 import { useToast } from '../../hooks/use-toast';
+import { orderByHierarchy, useEquipment, useLocations } from '../../hooks/useEquipment';
 
 interface EquipmentFormModalProps {
   isOpen: boolean;
@@ -16,10 +17,15 @@ export default function EquipmentFormModal({ isOpen, onClose }: EquipmentFormMod
   const [assetTag, setAssetTag] = useState('');
   const [description, setDescription] = useState('');
   const [model, setModel] = useState('');
+  const [equipmentClass, setEquipmentClass] = useState('');
   const [status, setStatus] = useState('active');
   const [criticality, setCriticality] = useState('medium');
   const [area, setArea] = useState('');
+  const [locationId, setLocationId] = useState('none');
+  const [parentEquipmentId, setParentEquipmentId] = useState('none');
   const { toast } = useToast();
+  const { data: locations } = useLocations();
+  const { data: equipment } = useEquipment();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,9 +43,12 @@ export default function EquipmentFormModal({ isOpen, onClose }: EquipmentFormMod
           assetTag,
           description,
           model,
+          equipmentClass: equipmentClass || undefined,
           status,
           criticality,
           area,
+          locationId: locationId !== 'none' ? locationId : undefined,
+          parentEquipmentId: parentEquipmentId !== 'none' ? parentEquipmentId : undefined,
         }),
       });
 
@@ -138,7 +147,57 @@ export default function EquipmentFormModal({ isOpen, onClose }: EquipmentFormMod
               />
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Equipment Class
+            </label>
+            <Input
+              type="text"
+              value={equipmentClass}
+              onChange={(e) => setEquipmentClass(e.target.value)}
+              placeholder="e.g. conveyor, hvac (narrows the failure codes offered)"
+            />
+          </div>
           
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Location
+              </label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not placed</SelectItem>
+                  {locations?.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>{location.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fitted To
+              </label>
+              <Select value={parentEquipmentId} onValueChange={setParentEquipmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No parent asset</SelectItem>
+                  {orderByHierarchy(equipment ?? []).map(({ item, depth }) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      <span style={{ paddingLeft: depth * 12 }}>{depth > 0 && '└ '}{item.assetTag}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ArrowRightLeft, GitBranch, MapPin } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Equipment, EquipmentInstallation } from '../../types';
+import { orderByHierarchy, useEquipment, useLocations } from '../../hooks/useEquipment';
+import { useToast } from '../../hooks/use-toast';
+
+interface AssetMetrics {
+  workOrders: number;
+  openWorkOrders: number;
+  partsCost: number;
+  vendorCost: number;
+  totalCost: number;
+  laborHours: number;
+  downtimeHours: number;
+}
+
+interface AssetRollup {
+  equipmentId: string;
+  assetTag: string;
+  own: AssetMetrics;
+  total: AssetMetrics;
+  children: AssetRollup[];
+}
+
+type InstallationRecord = EquipmentInstallation & { locationPath: string | null; parentAssetTag: string | null };
+
+const NONE = 'none';
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const currency = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Where an asset sits, what is fitted to it, its rolled-up cost and downtime, and where it has been installed
+ */
+export default function EquipmentHierarchyPanel({ equipment }: { equipment: Equipment }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [moveTo, setMoveTo] = useState<{ locationId: string; parentEquipmentId: string } | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const { data: allEquipment } = useEquipment();
+  const { data: locations } = useLocations();
+
+  const { data: rollup } = useQuery<AssetRollup>({
+    queryKey: ['/api/equipment', equipment.id, 'rollup'],
+    queryFn: async () => {
+      const response = await fetch(`/api/equipment/${equipment.id}/rollup`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch roll-up');
+      return response.json();
+    },
+  });
+
+  const { data: installations } = useQuery<InstallationRecord[]>({
+    queryKey: ['/api/equipment', equipment.id, 'installations'],
+    queryFn: async () => {
+      const response = await fetch(`/api/equipment/${equipment.id}/installations`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch installation history');
+      return response.json();
+    },
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/equipment/${equipment.id}/move`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({
+          locationId: moveTo?.locationId !== NONE ? moveTo?.locationId : undefined,
+          parentEquipmentId: moveTo?.parentEquipmentId !== NONE ? moveTo?.parentEquipmentId : undefined,
+          notes: notes || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to move equipment');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setMoveTo(null);
+      setNotes('');
+      queryClient.invalidateQueries({ queryKey: ['/api/equipment'] });
+      toast({ title: 'Equipment moved', description: `${equipment.assetTag} installation history updated` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Move failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const locationPath = locations?.find(l => l.id === equipment.locationId)?.path;
+  const parent = allEquipment?.find(e => e.id === equipment.parentEquipmentId);
+  const children = allEquipment?.filter(e => e.parentEquipmentId === equipment.id) ?? [];
+
+  // An asset cannot be fitted to itself or anything already fitted to it
+  const descendants = new Set<string>([equipment.id]);
+  for (const { item } of orderByHierarchy(allEquipment ?? [])) {
+    if (item.parentEquipmentId && descendants.has(item.parentEquipmentId)) descendants.add(item.id);
+  }
+  const parentOptions = orderByHierarchy(allEquipment ?? []).filter(({ item }) => !descendants.has(item.id));
+
+  return (
+    <div className="space-y-6">
+      {/* Placement */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <div className="flex items-center space-x-2 mb-1">
+            <MapPin className="w-4 h-4 text-gray-400" />
+            <p className="text-sm font-medium text-gray-500">Location</p>
+          </div>
+          <p className="text-sm text-gray-900">{locationPath || (parent ? `Fitted to ${parent.assetTag}` : 'Not placed')}</p>
+        </div>
+        <div>
+          <div className="flex items-center space-x-2 mb-1">
+            <GitBranch className="w-4 h-4 text-gray-400" />
+            <p className="text-sm font-medium text-gray-500">Parent / children</p>
+          </div>
+          <p className="text-sm text-gray-900">{parent ? parent.assetTag : 'Top-level asset'}</p>
+          {children.length > 0 && (
+            <p className="text-xs text-gray-500">{children.map(c => c.assetTag).join(', ')}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Roll-up */}
+      {rollup && (
+        <div className="border-t pt-4">
+          <h4 className="font-medium text-gray-900 mb-2">Cost and downtime</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium">Asset</th>
+                <th className="font-medium text-right">Work orders</th>
+                <th className="font-medium text-right">Cost</th>
+                <th className="font-medium text-right">Labor h</th>
+                <th className="font-medium text-right">Downtime h</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>This asset</td>
+                <td className="text-right">{rollup.own.workOrders}</td>
+                <td className="text-right">{currency(rollup.own.totalCost)}</td>
+                <td className="text-right">{rollup.own.laborHours.toFixed(1)}</td>
+                <td className="text-right">{rollup.own.downtimeHours.toFixed(1)}</td>
+              </tr>
+              {rollup.children.map(child => (
+                <tr key={child.equipmentId} className="text-gray-600">
+                  <td className="pl-3">└ {child.assetTag}</td>
+                  <td className="text-right">{child.total.workOrders}</td>
+                  <td className="text-right">{currency(child.total.totalCost)}</td>
+                  <td className="text-right">{child.total.laborHours.toFixed(1)}</td>
+                  <td className="text-right">{child.total.downtimeHours.toFixed(1)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold border-t">
+                <td>Total</td>
+                <td className="text-right">{rollup.total.workOrders}</td>
+                <td className="text-right">{currency(rollup.total.totalCost)}</td>
+                <td className="text-right">{rollup.total.laborHours.toFixed(1)}</td>
+                <td className="text-right">{rollup.total.downtimeHours.toFixed(1)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Move */}
+      <div className="border-t pt-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-gray-900">Move asset</h4>
+          {!moveTo && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setMoveTo({
+                locationId: equipment.locationId || NONE,
+                parentEquipmentId: equipment.parentEquipmentId || NONE,
+              })}
+            >
+              <ArrowRightLeft className="w-4 h-4 mr-2" />
+              Move
+            </Button>
+          )}
+        </div>
+        {moveTo && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={moveTo.locationId} onValueChange={(locationId) => setMoveTo({ ...moveTo, locationId })}>
+                <SelectTrigger><SelectValue placeholder="Location" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No location</SelectItem>
+                  {locations?.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.path}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={moveTo.parentEquipmentId} onValueChange={(parentEquipmentId) => setMoveTo({ ...moveTo, parentEquipmentId })}>
+                <SelectTrigger><SelectValue placeholder="Parent asset" /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>No parent asset</SelectItem>
+                  {parentOptions.map(({ item, depth }) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      <span style={{ paddingLeft: depth * 12 }}>{depth > 0 && '└ '}{item.assetTag}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Input placeholder="Reason for move (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            <div className="flex space-x-2">
+              <Button
+                className="flex-1"
+                onClick={() => moveMutation.mutate()}
+                disabled={moveMutation.isPending || (moveTo.locationId === NONE && moveTo.parentEquipmentId === NONE)}
+              >
+                Save move
+              </Button>
+              <Button variant="outline" onClick={() => setMoveTo(null)}>Cancel</Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Installation history */}
+      <div className="border-t pt-4">
+        <h4 className="font-medium text-gray-900 mb-2">Installation history</h4>
+        {!installations?.length ? (
+          <p className="text-sm text-gray-500">No moves recorded</p>
+        ) : (
+          <div className="space-y-2">
+            {[...installations].reverse().map(record => (
+              <div key={record.id} className="flex justify-between text-sm">
+                <div>
+                  <div>{record.parentAssetTag ? `Fitted to ${record.parentAssetTag}` : record.locationPath || 'Not placed'}</div>
+                  {record.parentAssetTag && record.locationPath && (
+                    <div className="text-xs text-gray-500">{record.locationPath}</div>
+                  )}
+                  {record.notes && <div className="text-xs text-gray-500">{record.notes}</div>}
+                </div>
+                <span className="text-gray-500 ml-2 whitespace-nowrap">
+                  {format(new Date(record.installedAt), 'MMM d, yyyy')} – {record.removedAt ? format(new Date(record.removedAt), 'MMM d, yyyy') : 'present'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Activity } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Badge } from '../ui/badge';
+import type { ChecklistItemType } from '@shared/schema';
+
+interface ReadingSeries {
+  definitionKey: string;
+  label: string;
+  itemType: ChecklistItemType;
+  unit: string | null;
+  min: number | null;
+  max: number | null;
+  points: {
+    recordedAt: string;
+    value: string;
+    numericValue: number | null;
+    withinLimits: boolean;
+    workOrderId: string;
+  }[];
+}
+
+interface EquipmentReadingsChartProps {
+  equipmentId: string;
+}
+
+const formatValue = (series: ReadingSeries, value: string) =>
+  series.itemType === 'boolean' ? (value === 'true' ? 'Yes' : 'No') : value;
+
+/**
+ * Checklist readings recorded against an equipment: a trend line with limits for numeric items,
+ * the latest answers for yes/no and multiple-choice items
+ */
+export default function EquipmentReadingsChart({ equipmentId }: EquipmentReadingsChartProps) {
+  const { data: series = [], isLoading } = useQuery<ReadingSeries[]>({
+    queryKey: ['/api/equipment', equipmentId, 'readings'],
+    queryFn: async () => {
+      const response = await fetch(`/api/equipment/${equipmentId}/readings`, {
+        headers: {
+          'Authorization': 'Bearer demo-token',
+          'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+          'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch readings');
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return <div className="py-8 text-center text-gray-500">Loading readings...</div>;
+  }
+
+  if (series.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Activity className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+        <p className="text-gray-500">No checklist readings recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {series.map(s => {
+        const outOfLimits = s.points.filter(p => !p.withinLimits).length;
+        return (
+          <div key={s.definitionKey} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <div>
+                <h4 className="font-medium text-gray-900">{s.label}</h4>
+                <p className="text-xs text-gray-500">
+                  {s.points.length} reading{s.points.length === 1 ? '' : 's'}
+                  {s.itemType === 'numeric' && (s.min !== null || s.max !== null) &&
+                    ` · limits ${s.min ?? '–'} to ${s.max ?? '–'}${s.unit ? ` ${s.unit}` : ''}`}
+                </p>
+              </div>
+              {outOfLimits > 0 && (
+                <Badge className="bg-red-100 text-red-800">{outOfLimits} out of limits</Badge>
+              )}
+            </div>
+
+            {s.itemType === 'numeric' ? (
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={s.points.map(p => ({ ...p, time: new Date(p.recordedAt).getTime() }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time) => format(new Date(time), 'MMM d')}
+                  />
+                  <YAxis unit={s.unit ? ` ${s.unit}` : undefined} width={70} />
+                  <Tooltip
+                    labelFormatter={(time) => format(new Date(time as number), 'MMM d, yyyy HH:mm')}
+                    formatter={(value) => [`${value}${s.unit ? ` ${s.unit}` : ''}`, 'Reading']}
+                  />
+                  {s.min !== null && <ReferenceLine y={s.min} stroke="#dc2626" strokeDasharray="4 4" label="Min" />}
+                  {s.max !== null && <ReferenceLine y={s.max} stroke="#dc2626" strokeDasharray="4 4" label="Max" />}
+                  <Line type="monotone" dataKey="numericValue" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <div className="space-y-1">
+                {s.points.slice(-10).reverse().map(p => (
+                  <div key={`${p.recordedAt}-${p.workOrderId}`} className="flex justify-between text-sm">
+                    <span className="text-gray-500">{format(new Date(p.recordedAt), 'MMM d, yyyy HH:mm')}</span>
+                    <Badge className={p.withinLimits ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}>
+                      {formatValue(s, p.value)}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
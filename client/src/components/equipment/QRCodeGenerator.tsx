@@ -1,4 +1,5 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -17,12 +18,42 @@ import {
 } from 'lucide-react';
 import QRCode from 'qrcode';
 
+type LabelKind = 'asset' | 'part' | 'location';
+
 interface QRCodeGeneratorProps {
   equipmentId?: string;
   assetTag?: string;
+  // Print a signed label for a part bin or location instead of an asset
+  labelKind?: LabelKind;
+  entityId?: string;
   onGenerate?: (qrData: string) => void;
 }
 
+interface SignedLabel {
+  kind: LabelKind;
+  id: string;
+  payload: string;
+  title: string;
+  subtitle: string | null;
+}
+
+// Asset tags are square with the tag underneath; bin labels are wide so they fit a shelf edge
+type LabelLayout = 'asset' | 'bin' | 'location';
+
+const LAYOUT_LABELS: Record<LabelLayout, string> = {
+  asset: 'Asset tag',
+  bin: 'Part bin (wide)',
+  location: 'Location sign',
+};
+
+const DEFAULT_LAYOUT: Record<LabelKind, LabelLayout> = {
+  asset: 'asset',
+  part: 'bin',
+  location: 'location',
+};
+
+const escapeHtml = (text: string) => text.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+
 interface QROptions {
   size: number;
   errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H';
@@ -35,11 +66,46 @@ interface QROptions {
 const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   equipmentId,
   assetTag,
+  labelKind,
+  entityId,
   onGenerate
 }) => {
   const { toast } = useToast();
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const kind: LabelKind | undefined = labelKind ?? (equipmentId ? 'asset' : undefined);
+  const id = entityId ?? equipmentId;
   const [qrData, setQrData] = useState(assetTag || '');
+  const [layout, setLayout] = useState<LabelLayout>(DEFAULT_LAYOUT[kind ?? 'asset']);
+
+  // Labels for known records carry a signed payload, so a scan can be trusted to mean that record
+  const { data: label } = useQuery<SignedLabel>({
+    queryKey: ['/api/labels', kind, id],
+    queryFn: async () => {
+      const response = await fetch(`/api/labels/${kind}/${id}`, {
+        headers: {
+          'Authorization': 'Bearer demo-token',
+          'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+          'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch label');
+      return response.json();
+    },
+    enabled: !!kind && !!id,
+  });
+
+  // Equipment and location labels carry the request portal link, so a phone camera without the app can report a problem
+  const encoded = label
+    ? label.kind === 'part' ? label.payload : `${window.location.origin}/request?code=${label.payload}`
+    : undefined;
+
+  useEffect(() => {
+    if (encoded) setQrData(encoded);
+  }, [encoded]);
+
+  // Printed under the code: the record's name rather than the signed payload
+  const caption = label && qrData === encoded ? label.title : qrData;
+  const subcaption = label && qrData === encoded ? label.subtitle : null;
   const [qrDataUrl, setQrDataUrl] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [options, setOptions] = useState<QROptions>({
@@ -88,8 +154,9 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
           const img = new Image();
           
           img.onload = () => {
-            canvas.width = options.size;
-            canvas.height = options.includeText ? options.size + 40 : options.size;
+            const wide = layout === 'bin' && options.includeText;
+            canvas.width = wide ? options.size * 2.5 : options.size;
+            canvas.height = options.includeText && !wide ? options.size + (subcaption ? 60 : 40) : options.size;
             
             // Clear canvas
             ctx!.fillStyle = options.backgroundColor;
@@ -98,12 +165,27 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
             // Draw QR code
             ctx!.drawImage(img, 0, 0, options.size, options.size);
             
-            // Add text label if enabled
+            // Add text label if enabled: beside the code on bin labels, underneath otherwise
             if (options.includeText) {
               ctx!.fillStyle = options.foregroundColor;
-              ctx!.font = '14px Arial, sans-serif';
-              ctx!.textAlign = 'center';
-              ctx!.fillText(qrData, options.size / 2, options.size + 25);
+              const titleSize = layout === 'location' ? 22 : 14;
+              if (wide) {
+                ctx!.textAlign = 'left';
+                ctx!.font = `bold ${Math.round(options.size / 6)}px Arial, sans-serif`;
+                ctx!.fillText(caption, options.size + 10, options.size * 0.45);
+                if (subcaption) {
+                  ctx!.font = `${Math.round(options.size / 12)}px Arial, sans-serif`;
+                  ctx!.fillText(subcaption, options.size + 10, options.size * 0.7, options.size * 1.4);
+                }
+              } else {
+                ctx!.textAlign = 'center';
+                ctx!.font = `${layout === 'location' ? 'bold ' : ''}${titleSize}px Arial, sans-serif`;
+                ctx!.fillText(caption, options.size / 2, options.size + 25);
+                if (subcaption) {
+                  ctx!.font = '12px Arial, sans-serif';
+                  ctx!.fillText(subcaption, options.size / 2, options.size + 45, options.size);
+                }
+              }
             }
           };
           
@@ -126,7 +208,7 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
       
       toast({
         title: 'QR Code Generated',
-        description: `Successfully generated ${options.format} QR code for ${qrData}`,
+        description: `Successfully generated ${options.format} QR code for ${caption}`,
       });
     } catch (error) {
       console.error('QR Code generation error:', error);
@@ -144,8 +226,10 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
     if (!qrDataUrl) return;
 
     const link = document.createElement('a');
-    link.download = `qr-code-${qrData.replace(/[^a-zA-Z0-9]/g, '-')}.${options.format.toLowerCase()}`;
-    link.href = qrDataUrl;
+    link.download = `qr-code-${caption.replace(/[^a-zA-Z0-9]/g, '-')}.${options.format.toLowerCase()}`;
+    link.href = options.format === 'PNG' && options.includeText && canvasRef.current
+      ? canvasRef.current.toDataURL('image/png')
+      : qrDataUrl;
     link.click();
 
     toast({
@@ -184,12 +268,14 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   const printQRCode = () => {
     if (!qrDataUrl) return;
 
+    const title = escapeHtml(caption);
+    const subtitle = subcaption ? `<div class="sub">${escapeHtml(subcaption)}</div>` : '';
     const printWindow = window.open('', '_blank');
     if (printWindow) {
       printWindow.document.write(`
         <html>
           <head>
-            <title>QR Code - ${qrData}</title>
+            <title>QR Code - ${title}</title>
             <style>
               body { 
                 margin: 0; 
@@ -210,14 +296,19 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
                 font-weight: bold;
                 text-align: center;
               }
+              .sub { font-size: 11px; font-weight: normal; }
+              .bin { flex-direction: row; align-items: center; }
+              .bin img { width: 25mm; margin: 0 4mm 0 0; }
+              .bin .label { font-size: 18px; text-align: left; }
+              .location .label { font-size: 28px; }
               @media print {
                 body { margin: 0; padding: 10mm; }
               }
             </style>
           </head>
-          <body>
-            <img src="${qrDataUrl}" alt="QR Code for ${qrData}" />
-            <div class="label">${qrData}</div>
+          <body class="${layout}">
+            <img src="${qrDataUrl}" alt="QR Code for ${title}" />
+            <div class="label">${title}${subtitle}</div>
           </body>
         </html>
       `);
@@ -232,10 +323,10 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
   };
 
   const generateBatch = () => {
-    // This could be extended to generate multiple QR codes for equipment in bulk
+    // Sheets are rendered server-side from the Equipment and Inventory page filters
     toast({
       title: 'Batch Generation',
-      description: 'Batch QR code generation feature coming soon',
+      description: 'Use Print Labels on the Equipment or Inventory page to print a whole sheet',
     });
   };
 
@@ -259,12 +350,30 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
               className="mt-1"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              This will be encoded in the QR code and displayed when scanned
+              {label && qrData === encoded
+                ? label.kind === 'part'
+                  ? `Signed part label for ${label.title}; scanning it opens the part's actions`
+                  : `Signed ${label.kind} label for ${label.title}; the app opens its actions, a phone camera opens the request portal`
+                : 'This will be encoded in the QR code and displayed when scanned'}
             </p>
           </div>
 
           {/* Generation Options */}
           <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="text-sm font-medium">Label Format</label>
+              <Select value={layout} onValueChange={(value: LabelLayout) => setLayout(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LAYOUT_LABELS) as LabelLayout[]).map(key => (
+                    <SelectItem key={key} value={key}>{LAYOUT_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div>
               <label className="text-sm font-medium">Size (pixels)</label>
               <Select value={options.size.toString()} onValueChange={(value) => 
@@ -377,7 +486,10 @@ const QRCodeGenerator: React.FC<QRCodeGeneratorProps> = ({
                   style={{ maxWidth: '300px' }}
                 />
                 {options.includeText && (
-                  <p className="text-center mt-2 text-sm font-medium">{qrData}</p>
+                  <div className="text-center mt-2">
+                    <p className="text-sm font-medium">{caption}</p>
+                    {subcaption && <p className="text-xs text-muted-foreground">{subcaption}</p>}
+                  </div>
                 )}
               </div>
             </div>
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ArrowRightLeft, Search, Truck, PackageCheck, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { useToast } from '../../hooks/use-toast';
+import { format } from 'date-fns';
+
+interface WarehouseAvailability {
+  warehouseId: string;
+  warehouseName: string;
+  partId: string;
+  location: string | null;
+  onHand: number;
+  reserved: number;
+  available: number;
+  inboundInTransit: number;
+}
+
+interface TransferOrder {
+  id: string;
+  transferNumber: string;
+  partNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  quantityReceived: number;
+  status: 'requested' | 'in_transit' | 'received' | 'cancelled';
+  createdAt: string;
+  shippedAt?: string;
+  receivedAt?: string;
+}
+
+const statusColors: Record<TransferOrder['status'], string> = {
+  requested: 'bg-blue-100 text-blue-800',
+  in_transit: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+const currentWarehouseId = () => localStorage.getItem('warehouseId') || 'default-warehouse-id';
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': currentWarehouseId(),
+});
+
+const sendJson = async (url: string, body: unknown = {}) => {
+  const response = await fetch(url, { method: 'POST', headers: requestHeaders(), body: JSON.stringify(body) });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || 'Request failed');
+  }
+  return response.json();
+};
+
+export default function WarehouseTransfers() {
+  const [partNumber, setPartNumber] = useState('');
+  const [searchedPartNumber, setSearchedPartNumber] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: availability, isFetching } = useQuery<{ partNumber: string; warehouses: WarehouseAvailability[] }>({
+    queryKey: ['/api/inventory/availability', searchedPartNumber],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/availability?partNumber=${encodeURIComponent(searchedPartNumber)}`, {
+        headers: requestHeaders(),
+      });
+      if (!response.ok) throw new Error('Failed to search availability');
+      return response.json();
+    },
+    enabled: !!searchedPartNumber,
+  });
+
+  const { data: transfers = [] } = useQuery<TransferOrder[]>({
+    queryKey: ['/api/transfer-orders'],
+    queryFn: async () => {
+      const response = await fetch('/api/transfer-orders', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch transfer orders');
+      return response.json();
+    },
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/transfer-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/inventory/availability'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: (source: WarehouseAvailability) => sendJson('/api/transfer-orders', {
+      partNumber: searchedPartNumber,
+      fromWarehouseId: source.warehouseId,
+      quantity: parseInt(quantities[source.warehouseId] || '1'),
+    }),
+    onSuccess: onSuccess('Transfer requested'),
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'ship' | 'receive' | 'cancel' }) =>
+      sendJson(`/api/transfer-orders/${id}/${action}`),
+    onSuccess: onSuccess('Transfer order updated'),
+    onError,
+  });
+
+  const warehouseId = currentWarehouseId();
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ArrowRightLeft className="w-5 h-5" />
+          <span>Warehouse Transfers</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearchedPartNumber(partNumber.trim());
+          }}
+        >
+          <Input
+            placeholder="Part number to find at other warehouses"
+            value={partNumber}
+            onChange={(e) => setPartNumber(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={!partNumber.trim() || isFetching}>
+            <Search className="w-4 h-4 mr-2" />
+            Find Stock
+          </Button>
+        </form>
+
+        {availability && (
+          availability.warehouses.length === 0 ? (
+            <p className="text-sm text-gray-600">No warehouse stocks {availability.partNumber}.</p>
+          ) : (
+            <div className="space-y-2">
+              {availability.warehouses.map(site => (
+                <div key={site.warehouseId} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-medium">{site.warehouseName}{site.warehouseId === warehouseId && ' (this warehouse)'}</p>
+                    <p className="text-gray-600">
+                      {site.available} available · {site.onHand} on hand · {site.reserved} reserved
+                      {site.inboundInTransit > 0 && ` · ${site.inboundInTransit} inbound`}
+                      {site.location && ` · ${site.location}`}
+                    </p>
+                  </div>
+                  {site.warehouseId !== warehouseId && site.available > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={site.available}
+                        className="w-20"
+                        value={quantities[site.warehouseId] || '1'}
+                        onChange={(e) => setQuantities({ ...quantities, [site.warehouseId]: e.target.value })}
+                      />
+                      <Button size="sm" onClick={() => requestMutation.mutate(site)} disabled={requestMutation.isPending}>
+                        Request
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {transfers.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-medium text-gray-900">Transfer Orders</h3>
+            {transfers.map(order => {
+              const outbound = order.fromWarehouseId === warehouseId;
+              return (
+                <div key={order.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium">{order.transferNumber}</span>
+                    <Badge variant="outline">{outbound ? 'Outbound' : 'Inbound'}</Badge>
+                    <span>{order.quantity} × {order.partNumber}</span>
+                    <Badge className={statusColors[order.status]}>{order.status.replace('_', ' ')}</Badge>
+                  </div>
+                  <div className="flex items-center space-x-2 text-gray-600">
+                    <span>{format(new Date(order.receivedAt || order.shippedAt || order.createdAt), 'MMM d')}</span>
+                    {outbound && order.status === 'requested' && (
+                      <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: order.id, action: 'ship' })}>
+                        <Truck className="w-4 h-4 mr-1" />
+                        Ship
+                      </Button>
+                    )}
+                    {!outbound && order.status === 'in_transit' && (
+                      <Button size="sm" variant="outline" onClick={() => actionMutation.mutate({ id: order.id, action: 'receive' })}>
+                        <PackageCheck className="w-4 h-4 mr-1" />
+                        Receive
+                      </Button>
+                    )}
+                    {(order.status === 'requested' || order.status === 'in_transit') && (
+                      <Button size="sm" variant="ghost" onClick={() => actionMutation.mutate({ id: order.id, action: 'cancel' })}>
+                        <XCircle className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
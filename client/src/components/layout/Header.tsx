@@ -13,6 +13,8 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../ui/dropdown-menu';
+import QRScanner from '../qr/QRScanner';
+import ScanActionSheet from '../qr/ScanActionSheet';
 
 interface HeaderProps {
   onMobileMenuToggle: () => void;
@@ -21,6 +23,8 @@ interface HeaderProps {
 
 export default function Header({ onMobileMenuToggle, showMobileMenuButton }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -85,15 +89,12 @@ export default function Header({ onMobileMenuToggle, showMobileMenuButton }: Hea
         
         {/* Right side actions */}
         <div className="flex items-center space-x-4">
-          {/* QR Scanner Button (Mobile) */}
+          {/* Scan an asset, part bin or location label */}
           <Button
             variant="ghost"
             size="icon"
-            className="sm:hidden"
-            onClick={() => {
-              // Implement QR scanner
-              console.log('Open QR scanner');
-            }}
+            onClick={() => setShowScanner(true)}
+            data-testid="scan-button"
           >
             <QrCode className="w-6 h-6" />
           </Button>
@@ -149,6 +150,18 @@ export default function Header({ onMobileMenuToggle, showMobileMenuButton }: Hea
           </div>
         </div>
       </div>
+
+      {showScanner && (
+        <QRScanner
+          isOpen={showScanner}
+          onClose={() => setShowScanner(false)}
+          onScan={(code) => {
+            setShowScanner(false);
+            setScannedCode(code);
+          }}
+        />
+      )}
+      {scannedCode && <ScanActionSheet code={scannedCode} onClose={() => setScannedCode(null)} />}
     </header>
   );
 }
@@ -8,7 +8,9 @@ import {
   Users, 
   Clock, 
   BarChart3,
-  Wrench
+  Wrench,
+  Bell,
+  PhoneCall
 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { useAuth } from '../../hooks/useAuth';
@@ -65,6 +67,18 @@ export default function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
       icon: BarChart3,
       active: location.startsWith('/reports'),
     },
+    {
+      name: 'On-Call',
+      href: '/on-call',
+      icon: PhoneCall,
+      active: location.startsWith('/on-call'),
+    },
+    {
+      name: 'Notifications',
+      href: '/settings/notifications',
+      icon: Bell,
+      active: location.startsWith('/settings/notifications'),
+    },
   ];
 
   if (!isOpen) return null;
@@ -9,7 +9,9 @@ import {
   BarChart3,
   Wrench,
   Rocket,
-  Activity
+  Activity,
+  Bell,
+  PhoneCall
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 
@@ -60,6 +62,18 @@ export default function Sidebar() {
       icon: BarChart3,
       active: location.startsWith('/analytics'),
     },
+    {
+      name: 'On-Call',
+      href: '/on-call',
+      icon: PhoneCall,
+      active: location.startsWith('/on-call'),
+    },
+    {
+      name: 'Notifications',
+      href: '/settings/notifications',
+      icon: Bell,
+      active: location.startsWith('/settings/notifications'),
+    },
     {
       name: 'Performance',
       href: '/admin/performance',
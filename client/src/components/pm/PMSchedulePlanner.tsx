@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarRange, Eye, CheckCircle, AlertTriangle, ArrowRight } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { format } from 'date-fns';
+
+interface PlannedPM {
+  workOrderId: string;
+  equipmentId: string;
+  assetTag: string;
+  templateId: string;
+  scheduledDate: string;
+  dueDate: string;
+  assignedTo?: string;
+  technicianName?: string;
+  priority: string;
+  estimatedDuration: number;
+  rescheduled: boolean;
+}
+
+interface PlanResult {
+  dryRun: boolean;
+  scheduledPMs: PlannedPM[];
+  conflicts: { equipmentId: string; conflictType: string; message: string; resolution: string }[];
+  adjustments: { equipmentId: string; fromDate: string; toDate: string; reason: string }[];
+  statistics: {
+    totalScheduled: number;
+    byWeek: Record<string, number>;
+    utilizationRate: number;
+  };
+}
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+export default function PMSchedulePlanner() {
+  const [weeks, setWeeks] = useState('4');
+  const [plan, setPlan] = useState<PlanResult | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const planMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<PlanResult> => {
+      const response = await fetch('/api/pm-scheduler/plan', {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({ weeks: parseInt(weeks), dryRun }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to build PM plan');
+      }
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPlan(result);
+      if (!result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['/api/work-orders'] });
+        toast({
+          title: 'Plan committed',
+          description: `Created ${result.statistics.totalScheduled} PM work orders`,
+        });
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const scheduledByWeek = (plan?.scheduledPMs || []).reduce<Record<string, PlannedPM[]>>((groups, pm) => {
+    const week = format(new Date(pm.scheduledDate), "'Week of' MMM d");
+    (groups[week] = groups[week] || []).push(pm);
+    return groups;
+  }, {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <CalendarRange className="w-5 h-5" />
+            <span>PM Planner</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor="plan-weeks" className="text-sm">Horizon</Label>
+            <Select value={weeks} onValueChange={setWeeks}>
+              <SelectTrigger id="plan-weeks" className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[1, 2, 4, 6, 8, 12].map(w => (
+                  <SelectItem key={w} value={String(w)}>{w} week{w > 1 ? 's' : ''}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => planMutation.mutate(true)} disabled={planMutation.isPending}>
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => planMutation.mutate(false)}
+              disabled={planMutation.isPending || !plan?.dryRun || plan.scheduledPMs.length === 0}
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Commit Plan
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!plan ? (
+          <p className="text-sm text-gray-600">
+            Preview a plan to see how due PMs fit into technician shifts. Lower-priority PMs are moved first when a day is full.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Scheduled</p>
+                <p className="text-xl font-semibold">{plan.statistics.totalScheduled}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Utilization</p>
+                <p className="text-xl font-semibold">{plan.statistics.utilizationRate}%</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Moved</p>
+                <p className="text-xl font-semibold">{plan.adjustments.length}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-xs text-gray-600">Unresolved</p>
+                <p className="text-xl font-semibold text-red-600">{plan.conflicts.length}</p>
+              </div>
+            </div>
+
+            {!plan.dryRun && (
+              <p className="text-sm text-green-700 flex items-center">
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Plan committed. Work orders have been created.
+              </p>
+            )}
+
+            {Object.entries(scheduledByWeek).map(([week, pms]) => (
+              <div key={week}>
+                <h3 className="font-medium text-gray-900 mb-2">{week}</h3>
+                <div className="space-y-2">
+                  {pms.map(pm => (
+                    <div key={pm.workOrderId} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium">{pm.assetTag}</span>
+                        <Badge variant="outline">{pm.priority}</Badge>
+                        {pm.rescheduled && (
+                          <span className="flex items-center text-orange-600">
+                            {format(new Date(pm.dueDate), 'MMM d')}
+                            <ArrowRight className="w-3 h-3 mx-1" />
+                            {format(new Date(pm.scheduledDate), 'MMM d')}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-3 text-gray-600">
+                        <span>{format(new Date(pm.scheduledDate), 'EEE MMM d, HH:mm')}</span>
+                        <span>{pm.estimatedDuration}h</span>
+                        <span>{pm.technicianName || 'Unassigned'}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-medium text-gray-900">Unresolved Conflicts</h3>
+                {plan.conflicts.map((conflict, index) => (
+                  <div key={index} className="p-3 bg-red-50 rounded-lg text-sm">
+                    <p className="flex items-center text-red-800">
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      {conflict.message}
+                    </p>
+                    <p className="text-red-700 mt-1">{conflict.resolution}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
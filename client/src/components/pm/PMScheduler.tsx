@@ -7,6 +7,9 @@ import { Badge } from '../ui/badge';
 import { Switch } from '../ui/switch';
 import { Label } from '../ui/label';
 import { useToast } from '../../hooks/use-toast';
+import PMSchedulingRulesEditor from './PMSchedulingRulesEditor';
+import PMSchedulingConfigEditor from './PMSchedulingConfigEditor';
+import PMSchedulePlanner from './PMSchedulePlanner';
 import { format } from 'date-fns';
 
 interface PMSchedulerStatus {
@@ -184,6 +187,13 @@ export default function PMScheduler() {
         </CardContent>
       </Card>
 
+      {/* Capacity-aware Plan */}
+      <PMSchedulePlanner />
+
+      {/* Scheduling Rules & Configuration */}
+      <PMSchedulingRulesEditor />
+      <PMSchedulingConfigEditor />
+
       {/* Schedule Information */}
       <Card>
         <CardHeader>
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Save, SlidersHorizontal } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { useToast } from '../../hooks/use-toast';
+import { InsertPmSchedulingConfig } from '../../types';
+
+const WEEK_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+export default function PMSchedulingConfigEditor() {
+  const warehouseId = localStorage.getItem('warehouseId') || 'default-warehouse-id';
+  const [config, setConfig] = useState<InsertPmSchedulingConfig | null>(null);
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<InsertPmSchedulingConfig>({
+    queryKey: ['/api/pm-scheduler/config', warehouseId],
+    queryFn: async () => {
+      const response = await fetch(`/api/pm-scheduler/config/${warehouseId}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch scheduling config');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data) {
+      setConfig({
+        globalSettings: data.globalSettings,
+        escalationRules: data.escalationRules,
+        complianceTargets: data.complianceTargets,
+      });
+    }
+  }, [data]);
+
+  const saveConfigMutation = useMutation({
+    mutationFn: async (updated: InsertPmSchedulingConfig) => {
+      const response = await fetch(`/api/pm-scheduler/config/${warehouseId}`, {
+        method: 'PUT',
+        headers: requestHeaders(),
+        body: JSON.stringify(updated),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to save scheduling config');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pm-scheduler/config', warehouseId] });
+      toast({
+        title: 'Success',
+        description: 'Scheduling configuration saved',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save scheduling configuration: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading || !config) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const updateGlobal = (updates: Partial<InsertPmSchedulingConfig['globalSettings']>) => {
+    setConfig(prev => prev && { ...prev, globalSettings: { ...prev.globalSettings, ...updates } });
+  };
+
+  const updateTargets = (updates: Partial<InsertPmSchedulingConfig['complianceTargets']>) => {
+    setConfig(prev => prev && { ...prev, complianceTargets: { ...prev.complianceTargets, ...updates } });
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    const days = config.globalSettings.workingDays;
+    updateGlobal({
+      workingDays: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  const { globalSettings, complianceTargets } = config;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            <span>Scheduling Configuration</span>
+          </CardTitle>
+          <Button size="sm" onClick={() => saveConfigMutation.mutate(config)} disabled={saveConfigMutation.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            {saveConfigMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="config-auto-scheduling"
+              checked={globalSettings.autoSchedulingEnabled}
+              onCheckedChange={(checked) => updateGlobal({ autoSchedulingEnabled: checked })}
+            />
+            <Label htmlFor="config-auto-scheduling">Automatic scheduling enabled</Label>
+          </div>
+
+          <div>
+            <Label>Working Days</Label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {WEEK_DAYS.map((name, day) => (
+                <Button
+                  key={name}
+                  type="button"
+                  size="sm"
+                  variant={globalSettings.workingDays.includes(day) ? 'default' : 'outline'}
+                  onClick={() => toggleWorkingDay(day)}
+                >
+                  {name}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="config-start">Start</Label>
+              <Input
+                id="config-start"
+                type="time"
+                value={globalSettings.workingHours.start}
+                onChange={(e) => updateGlobal({ workingHours: { ...globalSettings.workingHours, start: e.target.value } })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="config-end">End</Label>
+              <Input
+                id="config-end"
+                type="time"
+                value={globalSettings.workingHours.end}
+                onChange={(e) => updateGlobal({ workingHours: { ...globalSettings.workingHours, end: e.target.value } })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="config-lead-time">Default Lead Time (days)</Label>
+              <Input
+                id="config-lead-time"
+                type="number"
+                min="0"
+                value={globalSettings.defaultLeadTime}
+                onChange={(e) => updateGlobal({ defaultLeadTime: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="config-max-concurrent">Max Concurrent PMs</Label>
+              <Input
+                id="config-max-concurrent"
+                type="number"
+                min="1"
+                value={globalSettings.maxConcurrentPMs}
+                onChange={(e) => updateGlobal({ maxConcurrentPMs: parseInt(e.target.value) || 1 })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Priority Weights</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-2">
+              {PRIORITIES.map(priority => (
+                <div key={priority}>
+                  <Label htmlFor={`config-weight-${priority}`} className="text-xs text-gray-600 capitalize">{priority}</Label>
+                  <Input
+                    id={`config-weight-${priority}`}
+                    type="number"
+                    min="0"
+                    value={globalSettings.priorityWeights[priority]}
+                    onChange={(e) => updateGlobal({
+                      priorityWeights: { ...globalSettings.priorityWeights, [priority]: parseFloat(e.target.value) || 0 },
+                    })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label>Compliance Targets</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-2">
+              <div>
+                <Label htmlFor="config-overall-rate" className="text-xs text-gray-600">Overall Compliance (%)</Label>
+                <Input
+                  id="config-overall-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={complianceTargets.overallComplianceRate}
+                  onChange={(e) => updateTargets({ overallComplianceRate: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="config-critical-rate" className="text-xs text-gray-600">Critical Equipment (%)</Label>
+                <Input
+                  id="config-critical-rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={complianceTargets.criticalEquipmentRate}
+                  onChange={(e) => updateTargets({ criticalEquipmentRate: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="config-max-overdue" className="text-xs text-gray-600">Max Overdue (days)</Label>
+                <Input
+                  id="config-max-overdue"
+                  type="number"
+                  min="0"
+                  value={complianceTargets.maxOverdueDays}
+                  onChange={(e) => updateTargets({ maxOverdueDays: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,419 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Edit, Trash2, Save, X, ListChecks } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { PmTemplate } from '../../types';
+
+interface SchedulingRule {
+  id: string;
+  name: string;
+  templateId?: string;
+  equipmentModels: string[];
+  frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually' | 'custom';
+  customFrequencyDays?: number;
+  triggerType: 'time_based' | 'usage_based' | 'condition_based';
+  autoGenerate: boolean;
+  leadTimeDays: number;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  estimatedDuration: number;
+  isActive: boolean;
+}
+
+type RuleFormData = Omit<SchedulingRule, 'id'>;
+
+const emptyForm: RuleFormData = {
+  name: '',
+  templateId: undefined,
+  equipmentModels: [],
+  frequency: 'monthly',
+  customFrequencyDays: undefined,
+  triggerType: 'time_based',
+  autoGenerate: true,
+  leadTimeDays: 1,
+  priority: 'medium',
+  estimatedDuration: 2,
+  isActive: true,
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+export default function PMSchedulingRulesEditor() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<SchedulingRule | null>(null);
+  const [formData, setFormData] = useState<RuleFormData>(emptyForm);
+  const [modelsInput, setModelsInput] = useState('');
+
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rules = [], isLoading } = useQuery<SchedulingRule[]>({
+    queryKey: ['/api/pm-scheduler/rules'],
+    queryFn: async () => {
+      const response = await fetch('/api/pm-scheduler/rules', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch scheduling rules');
+      return response.json();
+    },
+  });
+
+  const { data: templates = [] } = useQuery<PmTemplate[]>({
+    queryKey: ['/api/pm-templates'],
+    queryFn: async () => {
+      const response = await fetch('/api/pm-templates', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch PM templates');
+      return response.json();
+    },
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: RuleFormData }) => {
+      const response = await fetch(id ? `/api/pm-scheduler/rules/${id}` : '/api/pm-scheduler/rules', {
+        method: id ? 'PUT' : 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to save scheduling rule');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pm-scheduler/rules'] });
+      toast({
+        title: 'Success',
+        description: 'Scheduling rule saved successfully',
+      });
+      closeDialog();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save scheduling rule: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/pm-scheduler/rules/${id}`, {
+        method: 'DELETE',
+        headers: requestHeaders(),
+      });
+      if (!response.ok) throw new Error('Failed to delete scheduling rule');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/pm-scheduler/rules'] });
+      toast({
+        title: 'Success',
+        description: 'Scheduling rule deleted successfully',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to delete scheduling rule: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setModelsInput('');
+  };
+
+  const handleCreate = () => {
+    setEditingRule(null);
+    setFormData(emptyForm);
+    setModelsInput('');
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (rule: SchedulingRule) => {
+    const { id, ...data } = rule;
+    setEditingRule(rule);
+    setFormData(data);
+    setModelsInput(rule.equipmentModels.join(', '));
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Are you sure you want to delete this scheduling rule?')) {
+      deleteRuleMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const equipmentModels = modelsInput.split(',').map(m => m.trim()).filter(Boolean);
+    saveRuleMutation.mutate({
+      id: editingRule?.id,
+      data: {
+        ...formData,
+        equipmentModels,
+        customFrequencyDays: formData.frequency === 'custom' ? formData.customFrequencyDays : undefined,
+      },
+    });
+  };
+
+  const handleTemplateChange = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setFormData(prev => ({
+      ...prev,
+      templateId,
+      name: prev.name || (template ? `${template.model} - ${template.component}` : ''),
+      frequency: template?.frequency || prev.frequency,
+    }));
+    if (template && !modelsInput) {
+      setModelsInput(template.model);
+    }
+  };
+
+  const getPriorityColor = (priority: string) => {
+    switch (priority) {
+      case 'critical': return 'bg-red-100 text-red-800';
+      case 'high': return 'bg-orange-100 text-orange-800';
+      case 'medium': return 'bg-blue-100 text-blue-800';
+      default: return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="flex items-center space-x-2">
+            <ListChecks className="w-5 h-5" />
+            <span>Scheduling Rules</span>
+          </CardTitle>
+          <Button size="sm" onClick={handleCreate}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          </div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-gray-600 text-center py-8">
+            No scheduling rules yet. Rules are created from PM templates the first time the scheduler runs.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rules.map((rule) => (
+              <div key={rule.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <h3 className="font-medium">{rule.name}</h3>
+                    {!rule.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                    <Badge className={getPriorityColor(rule.priority)}>{rule.priority}</Badge>
+                    <span>
+                      {rule.frequency === 'custom' ? `Every ${rule.customFrequencyDays} days` : rule.frequency}
+                    </span>
+                    <span>• {rule.leadTimeDays} day lead time</span>
+                    <span>• {rule.estimatedDuration}h</span>
+                    <span>• {rule.equipmentModels.join(', ')}</span>
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleEdit(rule)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(rule.id)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Scheduling Rule' : 'Create Scheduling Rule'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="rule-template">PM Template</Label>
+                <Select value={formData.templateId || ''} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="rule-template">
+                    <SelectValue placeholder="Select template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.model} - {template.component}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="rule-name">Name</Label>
+                <Input
+                  id="rule-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="rule-models">Equipment Models (comma separated)</Label>
+              <Input
+                id="rule-models"
+                value={modelsInput}
+                onChange={(e) => setModelsInput(e.target.value)}
+                placeholder="e.g., Pump Model A, Conveyor System"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="rule-frequency">Frequency</Label>
+                <Select value={formData.frequency} onValueChange={(value: any) => setFormData(prev => ({ ...prev, frequency: value }))}>
+                  <SelectTrigger id="rule-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="quarterly">Quarterly</SelectItem>
+                    <SelectItem value="annually">Annually</SelectItem>
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.frequency === 'custom' && (
+                <div>
+                  <Label htmlFor="rule-custom-days">Every (days)</Label>
+                  <Input
+                    id="rule-custom-days"
+                    type="number"
+                    min="1"
+                    value={formData.customFrequencyDays || ''}
+                    onChange={(e) => setFormData(prev => ({ ...prev, customFrequencyDays: parseInt(e.target.value) || undefined }))}
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="rule-trigger">Trigger</Label>
+                <Select value={formData.triggerType} onValueChange={(value: any) => setFormData(prev => ({ ...prev, triggerType: value }))}>
+                  <SelectTrigger id="rule-trigger">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="time_based">Time based</SelectItem>
+                    <SelectItem value="usage_based">Usage based</SelectItem>
+                    <SelectItem value="condition_based">Condition based</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="rule-priority">Priority</Label>
+                <Select value={formData.priority} onValueChange={(value: any) => setFormData(prev => ({ ...prev, priority: value }))}>
+                  <SelectTrigger id="rule-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="rule-lead-time">Lead Time (days)</Label>
+                <Input
+                  id="rule-lead-time"
+                  type="number"
+                  min="0"
+                  value={formData.leadTimeDays}
+                  onChange={(e) => setFormData(prev => ({ ...prev, leadTimeDays: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+              <div>
+                <Label htmlFor="rule-duration">Estimated Duration (hours)</Label>
+                <Input
+                  id="rule-duration"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={formData.estimatedDuration}
+                  onChange={(e) => setFormData(prev => ({ ...prev, estimatedDuration: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="rule-auto-generate"
+                  checked={formData.autoGenerate}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autoGenerate: checked }))}
+                />
+                <Label htmlFor="rule-auto-generate">Auto-generate work orders</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="rule-active"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isActive: checked }))}
+                />
+                <Label htmlFor="rule-active">Active</Label>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={closeDialog}>
+                <X className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveRuleMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                {editingRule ? 'Update' : 'Create'} Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
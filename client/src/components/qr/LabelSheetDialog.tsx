@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Download } from 'lucide-react';
+import { useToast } from '../../hooks/use-toast';
+import type { LabelStock, LabelSymbology } from '../../types';
+
+interface LabelSheetDialogProps {
+  target: 'equipment' | 'parts';
+  filter: Record<string, string | undefined>; // the page's current filters
+  count: number; // how many records the filters match on the page
+  onClose: () => void;
+}
+
+interface StockOption {
+  id: LabelStock;
+  name: string;
+  perSheet: number;
+}
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Download a PDF sheet of labels for everything the page is currently filtered to
+ */
+export default function LabelSheetDialog({ target, filter, count, onClose }: LabelSheetDialogProps) {
+  const { toast } = useToast();
+  const [stock, setStock] = useState<LabelStock>('avery_5160');
+  const [symbology, setSymbology] = useState<LabelSymbology>('qr');
+  const [startPosition, setStartPosition] = useState('1');
+  const [isRendering, setIsRendering] = useState(false);
+
+  const { data: stocks = [] } = useQuery<StockOption[]>({
+    queryKey: ['/api/labels/stocks'],
+    queryFn: async () => {
+      const response = await fetch('/api/labels/stocks', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch label stock');
+      return response.json();
+    },
+  });
+
+  const perSheet = stocks.find(s => s.id === stock)?.perSheet ?? 1;
+
+  const download = async () => {
+    setIsRendering(true);
+    try {
+      const response = await fetch(`/api/labels/${target}.pdf`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({
+          stock,
+          symbology,
+          filter,
+          startPosition: perSheet > 1 ? Number(startPosition) || 1 : 1,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to render labels');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${target === 'equipment' ? 'asset' : 'part'}-labels.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast({ title: 'Labels ready', description: `${response.headers.get('X-Label-Count') ?? count} labels` });
+      onClose();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print {target === 'equipment' ? 'Asset Tags' : 'Bin Labels'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {count} {target === 'equipment' ? 'assets' : 'parts'} match the current filters.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Label stock</label>
+            <Select value={stock} onValueChange={(value) => setStock(value as LabelStock)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {stocks.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Barcode</label>
+              <Select value={symbology} onValueChange={(value) => setSymbology(value as LabelSymbology)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="qr">QR (scan actions)</SelectItem>
+                  <SelectItem value="code128">Code 128</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {perSheet > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start at label</label>
+                <Input
+                  type="number"
+                  min="1"
+                  max={perSheet}
+                  value={startPosition}
+                  onChange={(e) => setStartPosition(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+          <Button className="w-full" onClick={download} disabled={count === 0 || isRendering}>
+            <Download className="w-4 h-4 mr-2" />
+            {isRendering ? 'Rendering...' : `Download PDF (${count})`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
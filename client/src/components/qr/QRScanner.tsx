@@ -135,7 +135,7 @@ export default function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
             <div className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Enter Asset Tag
+                  Enter Tag or Part Number
                 </label>
                 <Input
                   placeholder="e.g., UAS-001"
@@ -144,7 +144,7 @@ export default function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
                   className={isValid ? 'border-green-500' : ''}
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Enter the equipment asset tag manually
+                  Enter an asset tag or part number, or the text under a printed label
                 </p>
               </div>
 
@@ -170,7 +170,7 @@ export default function QRScanner({ isOpen, onClose, onScan }: QRScannerProps) {
           {/* Help Text */}
           <div className="text-center">
             <p className="text-xs text-gray-500">
-              Point your camera at a QR code or enter the asset tag manually
+              Point your camera at an asset, part bin or location label, or enter it manually
             </p>
           </div>
         </div>
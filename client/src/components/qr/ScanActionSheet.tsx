@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { MapPin, Package, Play, Plus, Wrench } from 'lucide-react';
+import { useAuth } from '../../hooks/useAuth';
+import { useToast } from '../../hooks/use-toast';
+import type { Equipment, LaborTime, Location, Part, WorkOrder } from '../../types';
+
+type ScanResult =
+  | { kind: 'asset'; equipment: Equipment; openWorkOrders: WorkOrder[]; activeTimer: LaborTime | null }
+  | { kind: 'part'; part: Part; activeWorkOrder: WorkOrder | null }
+  | { kind: 'location'; location: Location };
+
+interface ScanActionSheetProps {
+  code: string;
+  onClose: () => void;
+}
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const post = async (url: string, body: unknown, fallback: string) => {
+  const response = await fetch(url, { method: 'POST', headers: requestHeaders(), body: JSON.stringify(body) });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return response.json();
+};
+
+function AssetActions({ result, onDone }: { result: Extract<ScanResult, { kind: 'asset' }>; onDone: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [problem, setProblem] = useState('');
+  const { equipment, openWorkOrders, activeTimer } = result;
+
+  const startTimer = useMutation({
+    mutationFn: (workOrder: WorkOrder) => post(`/api/work-orders/${workOrder.id}/labor-time/start`, {
+      description: `Started from scan of ${equipment.assetTag}`,
+    }, 'Failed to start timer'),
+    onSuccess: (_, workOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/labor-time/active'] });
+      toast({ title: 'Timer started', description: workOrder.foNumber });
+      onDone();
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const requestRepair = useMutation({
+    mutationFn: () => post('/api/work-orders', {
+      foNumber: `WO-${new Date().getFullYear()}-${String(Date.now()).slice(-3)}`,
+      type: 'corrective',
+      priority: 'medium',
+      status: 'new',
+      description: problem.trim(),
+      equipmentId: equipment.id,
+      assetModel: equipment.model,
+      area: equipment.area || undefined,
+      requestedBy: user?.id,
+      warehouseId: equipment.warehouseId,
+      escalated: false,
+      escalationLevel: 0,
+      followUp: false,
+    }, 'Failed to create work order'),
+    onSuccess: (workOrder: WorkOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/work-orders'] });
+      toast({ title: 'Request created', description: `${workOrder.foNumber} raised on ${equipment.assetTag}` });
+      onDone();
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium">{equipment.assetTag}</div>
+        <div className="text-sm text-gray-500">{equipment.description || equipment.model} · {equipment.area || 'No area'}</div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700">Open work orders</h4>
+        {openWorkOrders.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing open on this asset</p>
+        ) : openWorkOrders.map(workOrder => (
+          <div key={workOrder.id} className="flex items-center justify-between border rounded-md p-2 text-sm">
+            <div className="min-w-0">
+              <div className="font-medium">{workOrder.foNumber}</div>
+              <div className="text-xs text-gray-500 truncate">{workOrder.description}</div>
+            </div>
+            {activeTimer?.workOrderId === workOrder.id ? (
+              <Badge className="bg-green-100 text-green-800">Timing</Badge>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => startTimer.mutate(workOrder)} disabled={!!activeTimer || startTimer.isPending}>
+                <Play className="w-3 h-3 mr-1" />
+                Start
+              </Button>
+            )}
+          </div>
+        ))}
+        {activeTimer && activeTimer.workOrderId && !openWorkOrders.some(wo => wo.id === activeTimer.workOrderId) && (
+          <p className="text-xs text-gray-500">Stop your running timer before starting another</p>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <h4 className="text-sm font-medium text-gray-700">Report a problem</h4>
+        <Input placeholder="What is wrong?" value={problem} onChange={(e) => setProblem(e.target.value)} />
+        <Button className="w-full" onClick={() => requestRepair.mutate()} disabled={!problem.trim() || requestRepair.isPending}>
+          <Plus className="w-4 h-4 mr-2" />
+          Create corrective request
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function PartActions({ result, onDone }: { result: Extract<ScanResult, { kind: 'part' }>; onDone: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [quantity, setQuantity] = useState('1');
+  const { part, activeWorkOrder } = result;
+
+  const issue = useMutation({
+    mutationFn: () => post(`/api/work-orders/${activeWorkOrder!.id}/parts-usage`, {
+      partId: part.id,
+      quantityUsed: Number(quantity),
+      unitCost: Number(part.unitCost ?? 0),
+      notes: 'Issued by scan',
+    }, 'Failed to issue part'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/parts'] });
+      toast({ title: 'Part issued', description: `${quantity} × ${part.partNumber} to ${activeWorkOrder!.foNumber}` });
+      onDone();
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const valid = Number.isInteger(Number(quantity)) && Number(quantity) > 0;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium">{part.partNumber}</div>
+        <div className="text-sm text-gray-500">{part.description}</div>
+        <div className="text-xs text-gray-500 mt-1">
+          {part.stockLevel ?? 0} {part.unitOfMeasure || 'ea'} on hand{part.location ? ` · bin ${part.location}` : ''}
+        </div>
+      </div>
+
+      {activeWorkOrder ? (
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm">
+            Issue to <span className="font-medium">{activeWorkOrder.foNumber}</span>
+            <span className="text-gray-500"> · {activeWorkOrder.description}</span>
+          </p>
+          <div className="flex space-x-2">
+            <Input type="number" min="1" className="w-24" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            <Button className="flex-1" onClick={() => issue.mutate()} disabled={!valid || issue.isPending}>
+              <Package className="w-4 h-4 mr-2" />
+              Issue part
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 border-t pt-4">
+          Start a timer on a work order to issue parts to it by scanning.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function LocationContents({ location }: { location: Location }) {
+  const { data } = useQuery<{ path: string; equipment: Equipment[] }>({
+    queryKey: ['/api/locations', location.id, 'equipment'],
+    queryFn: async () => {
+      const response = await fetch(`/api/locations/${location.id}/equipment`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch location');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="font-medium">{location.name}</div>
+        <div className="text-sm text-gray-500">{data?.path ?? location.code}</div>
+      </div>
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700">Equipment here ({data?.equipment.length ?? 0})</h4>
+        {data?.equipment.map(item => (
+          <div key={item.id} className="flex justify-between text-sm border-b last:border-0 pb-1">
+            <span className="font-medium">{item.assetTag}</span>
+            <span className="text-gray-500 truncate ml-2">{item.description || item.model}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const ICONS = { asset: Wrench, part: Package, location: MapPin };
+
+/**
+ * What can be done with a scanned asset, part bin or location label
+ */
+export default function ScanActionSheet({ code, onClose }: ScanActionSheetProps) {
+  const { data: result, isLoading, error } = useQuery<ScanResult, Error>({
+    queryKey: ['/api/scan', code],
+    queryFn: async () => {
+      const response = await fetch(`/api/scan?code=${encodeURIComponent(code)}`, { headers: requestHeaders() });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Label not recognised');
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const Icon = result ? ICONS[result.kind] : Wrench;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Icon className="w-5 h-5 mr-2" />
+            {result ? `Scanned ${result.kind}` : 'Scanned label'}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading && <p className="text-sm text-gray-500 py-6 text-center">Looking up label...</p>}
+        {error && <p className="text-sm text-red-600 py-6 text-center">{error.message}</p>}
+        {result?.kind === 'asset' && <AssetActions result={result} onDone={onClose} />}
+        {result?.kind === 'part' && <PartActions result={result} onDone={onClose} />}
+        {result?.kind === 'location' && <LocationContents location={result.location} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,6 +20,8 @@ import {
 } from 'lucide-react';
 import { WorkOrderChecklistItem } from '@/types';
 import { FileUpload } from '@/components/FileUpload';
+import ChecklistReadingInput, { formatReading, needsReading } from './ChecklistReadingInput';
+import ChecklistFollowUpButton, { type ChecklistFollowUp } from './ChecklistFollowUpButton';
 
 interface ChecklistExecutionProps {
   workOrderId: string;
@@ -34,6 +36,15 @@ interface ChecklistItemWithActions extends WorkOrderChecklistItem {
   warningThresholds?: { min?: number; max?: number; };
 }
 
+type ChecklistItemUpdate = Omit<Partial<ChecklistItemWithActions>, 'value'> & { value?: number | boolean | string | null };
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
 const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
   workOrderId,
   isReadOnly = false,
@@ -49,7 +60,7 @@ const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
   const { data: checklistItems = [], isLoading } = useQuery({
     queryKey: ['checklist', workOrderId],
     queryFn: async () => {
-      const response = await fetch(`/api/work-orders/${workOrderId}/checklist`);
+      const response = await fetch(`/api/work-orders/${workOrderId}/checklist`, { headers: requestHeaders() });
       if (!response.ok) throw new Error('Failed to fetch checklist');
       return (await response.json()) as ChecklistItemWithActions[];
     },
@@ -57,17 +68,37 @@ const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
 
   // Update checklist item mutation
   const updateChecklistItem = useMutation({
-    mutationFn: async ({ itemId, updates }: { itemId: string; updates: Partial<ChecklistItemWithActions> }) => {
+    mutationFn: async ({ itemId, updates }: { itemId: string; updates: ChecklistItemUpdate }) => {
       const response = await fetch(`/api/work-orders/${workOrderId}/checklist/${itemId}`, {
         method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
+        headers: requestHeaders(),
         body: JSON.stringify(updates),
       });
-      if (!response.ok) throw new Error('Failed to update checklist item');
-      return response.json();
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update checklist item');
+      }
+      return (await response.json()) as ChecklistItemWithActions & { followUp?: ChecklistFollowUp };
     },
-    onSuccess: () => {
+    onSuccess: (item) => {
       queryClient.invalidateQueries({ queryKey: ['checklist', workOrderId] });
+      if (item.followUp?.mode === 'auto') {
+        queryClient.invalidateQueries({ queryKey: ['work-order-related', workOrderId] });
+        toast({
+          title: 'Follow-up Created',
+          description: `${item.component} failed; corrective work order ${item.followUp.workOrder.foNumber} was raised`,
+          variant: 'destructive',
+        });
+        return;
+      }
+      if (item.withinLimits === false) {
+        toast({
+          title: 'Out of Limits',
+          description: `${item.component}: ${formatReading(item)} is outside the acceptance limits and was flagged as an issue`,
+          variant: 'destructive',
+        });
+        return;
+      }
       toast({
         title: 'Checklist Updated',
         description: 'Item status updated successfully',
@@ -259,6 +290,11 @@ const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
                       <p className="text-sm text-gray-700 mt-1">
                         {item.action}
                       </p>
+                      {formatReading(item) && (
+                        <p className={`text-xs mt-1 ${item.withinLimits === false ? 'text-red-600' : 'text-gray-500'}`}>
+                          Reading: {formatReading(item)}
+                        </p>
+                      )}
                     </div>
                   </div>
                   
@@ -285,12 +321,20 @@ const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
                 <CardContent className="pt-0">
                   {!isReadOnly && (
                     <div className="space-y-4">
+                      {/* Typed reading */}
+                      <ChecklistReadingInput
+                        item={item}
+                        disabled={updateChecklistItem.isPending}
+                        onSubmit={(value) => updateChecklistItem.mutate({ itemId: item.id, updates: { value } })}
+                      />
+
                       {/* Status Controls */}
                       <div className="flex flex-wrap gap-2">
                         <Button
                           size="sm"
                           variant={item.status === 'done' ? 'default' : 'outline'}
                           onClick={() => handleStatusChange(item.id, 'done')}
+                          disabled={needsReading(item)}
                           className="text-xs"
                         >
                           <CheckCircle className="w-3 h-3 mr-1" />
@@ -314,6 +358,7 @@ const ChecklistExecution: React.FC<ChecklistExecutionProps> = ({
                           <AlertTriangle className="w-3 h-3 mr-1" />
                           Issue
                         </Button>
+                        <ChecklistFollowUpButton item={item} />
                       </div>
 
                       {/* Notes Section */}
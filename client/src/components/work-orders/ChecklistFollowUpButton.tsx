@@ -0,0 +1,83 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { GitBranch } from 'lucide-react';
+import type { WorkOrder, WorkOrderChecklistItem } from '@/types';
+
+// Returned with a checklist update when the item has just failed
+export type ChecklistFollowUp =
+  | { mode: 'auto'; workOrder: WorkOrder }
+  | { mode: 'propose'; proposal: { priority: WorkOrder['priority']; description: string } }
+  | null;
+
+interface ChecklistFollowUpButtonProps {
+  item: WorkOrderChecklistItem;
+  disabled?: boolean;
+  size?: 'sm' | 'lg';
+}
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Raise a corrective work order for a failed item, or show that one already exists
+ */
+const ChecklistFollowUpButton: React.FC<ChecklistFollowUpButtonProps> = ({ item, disabled, size = 'sm' }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const createFollowUp = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/checklist-items/${item.id}/follow-up`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to create follow-up work order');
+      }
+      return (await response.json()) as WorkOrder;
+    },
+    onSuccess: (workOrder) => {
+      queryClient.invalidateQueries({ queryKey: ['checklist', item.workOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['work-order-related', item.workOrderId] });
+      toast({ title: 'Follow-up Created', description: `Corrective work order ${workOrder.foNumber} raised` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (item.followUpWorkOrderId) {
+    return (
+      <Badge variant="outline" className="text-xs">
+        <GitBranch className="w-3 h-3 mr-1" />
+        Follow-up work order raised
+      </Badge>
+    );
+  }
+
+  if (item.status !== 'issue') return null;
+
+  return (
+    <Button
+      size={size === 'lg' ? 'default' : 'sm'}
+      variant="outline"
+      onClick={() => createFollowUp.mutate()}
+      disabled={disabled || createFollowUp.isPending}
+      className="text-xs"
+    >
+      <GitBranch className="w-3 h-3 mr-1" />
+      Raise follow-up work order
+    </Button>
+  );
+};
+
+export default ChecklistFollowUpButton;
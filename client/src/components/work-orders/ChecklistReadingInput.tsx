@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { WorkOrderChecklistItem } from '@/types';
+
+interface ChecklistReadingInputProps {
+  item: WorkOrderChecklistItem;
+  disabled?: boolean;
+  size?: 'sm' | 'lg'; // lg gives touch-sized targets on mobile
+  onSubmit: (value: number | boolean | string) => void;
+}
+
+export const formatLimits = (item: WorkOrderChecklistItem): string | null => {
+  const unit = item.unit ? ` ${item.unit}` : '';
+  const hasMin = item.minValue !== null && item.minValue !== undefined;
+  const hasMax = item.maxValue !== null && item.maxValue !== undefined;
+  if (hasMin && hasMax) return `${Number(item.minValue)}–${Number(item.maxValue)}${unit}`;
+  if (hasMin) return `≥ ${Number(item.minValue)}${unit}`;
+  if (hasMax) return `≤ ${Number(item.maxValue)}${unit}`;
+  return null;
+};
+
+export const formatReading = (item: WorkOrderChecklistItem): string | null => {
+  if (item.value === null || item.value === undefined) return null;
+  if (item.itemType === 'boolean') return item.value === 'true' ? 'Yes' : 'No';
+  return item.unit ? `${item.value} ${item.unit}` : item.value;
+};
+
+/**
+ * Same pass/fail rule the server applies, so offline readings show their result straight away
+ */
+export const isWithinLimits = (item: WorkOrderChecklistItem, value: number | boolean | string): boolean => {
+  switch (item.itemType) {
+    case 'numeric': {
+      const reading = Number(value);
+      return (item.minValue == null || reading >= Number(item.minValue)) && (item.maxValue == null || reading <= Number(item.maxValue));
+    }
+    case 'boolean':
+      return item.expectedBoolean == null || String(value) === String(item.expectedBoolean);
+    case 'choice':
+      return (item.options || []).find(o => o.value === value)?.acceptable ?? false;
+    default:
+      return true;
+  }
+};
+
+export const needsReading = (item: WorkOrderChecklistItem): boolean =>
+  !!item.itemType && item.itemType !== 'check' && (item.value === null || item.value === undefined);
+
+/**
+ * Input for a typed checklist item: a number with its limits, yes/no, or one of the template's options
+ */
+const ChecklistReadingInput: React.FC<ChecklistReadingInputProps> = ({ item, disabled, size = 'sm', onSubmit }) => {
+  const [draft, setDraft] = useState(item.itemType === 'numeric' ? item.value ?? '' : '');
+
+  useEffect(() => {
+    if (item.itemType === 'numeric') setDraft(item.value ?? '');
+  }, [item.value, item.itemType]);
+
+  if (!item.itemType || item.itemType === 'check') return null;
+
+  const buttonSize = size === 'lg' ? 'default' : 'sm';
+  const reading = formatReading(item);
+  const limits = formatLimits(item);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">
+          Reading{item.itemType === 'numeric' && limits ? ` (limits ${limits})` : ''}
+        </label>
+        {reading && (
+          <Badge
+            variant="outline"
+            className={item.withinLimits === false ? 'text-red-700 border-red-300 bg-red-50' : 'text-green-700 border-green-300 bg-green-50'}
+          >
+            {item.withinLimits === false
+              ? <AlertTriangle className="w-3 h-3 mr-1" />
+              : <CheckCircle className="w-3 h-3 mr-1" />}
+            {reading}
+          </Badge>
+        )}
+      </div>
+
+      {item.itemType === 'numeric' && (
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (draft.trim() !== '') onSubmit(Number(draft));
+          }}
+        >
+          <div className="relative flex-1">
+            <Input
+              type="number"
+              inputMode="decimal"
+              step="any"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              disabled={disabled}
+              className={size === 'lg' ? 'text-base pr-12' : 'text-sm pr-12'}
+              placeholder="Enter value"
+            />
+            {item.unit && (
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">{item.unit}</span>
+            )}
+          </div>
+          <Button type="submit" size={buttonSize} disabled={disabled || draft.trim() === ''}>
+            Record
+          </Button>
+        </form>
+      )}
+
+      {item.itemType === 'boolean' && (
+        <div className="grid grid-cols-2 gap-2">
+          {[true, false].map(answer => (
+            <Button
+              key={String(answer)}
+              type="button"
+              size={buttonSize}
+              variant={item.value === String(answer) ? 'default' : 'outline'}
+              onClick={() => onSubmit(answer)}
+              disabled={disabled}
+            >
+              {answer ? 'Yes' : 'No'}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {item.itemType === 'choice' && (
+        <div className="flex flex-wrap gap-2">
+          {(item.options || []).map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size={buttonSize}
+              variant={item.value === option.value ? (option.acceptable ? 'default' : 'destructive') : 'outline'}
+              onClick={() => onSubmit(option.value)}
+              disabled={disabled}
+            >
+              {option.value}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {item.withinLimits === false && (
+        <p className="text-xs text-red-600">Outside acceptance limits — flagged as an issue.</p>
+      )}
+    </div>
+  );
+};
+
+export default ChecklistReadingInput;
@@ -25,6 +25,8 @@ import {
 } from 'lucide-react';
 import { WorkOrderChecklistItem } from '@/types';
 import FileUpload from '@/components/FileUploadEnhanced';
+import ChecklistReadingInput, { isWithinLimits, needsReading } from './ChecklistReadingInput';
+import ChecklistFollowUpButton, { type ChecklistFollowUp } from './ChecklistFollowUpButton';
 
 interface MobileChecklistExecutionProps {
   workOrderId: string;
@@ -42,6 +44,15 @@ interface ChecklistItemWithActions extends WorkOrderChecklistItem {
   validationRules?: string[];
 }
 
+type ChecklistItemUpdate = Omit<Partial<ChecklistItemWithActions>, 'value'> & { value?: number | boolean | string | null };
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
 const MobileChecklistExecution: React.FC<MobileChecklistExecutionProps> = ({
   workOrderId,
   isReadOnly = false,
@@ -89,7 +100,7 @@ const MobileChecklistExecution: React.FC<MobileChecklistExecutionProps> = ({
     queryKey: ['checklist', workOrderId],
     queryFn: async () => {
       try {
-        const response = await fetch(`/api/work-orders/${workOrderId}/checklist`);
+        const response = await fetch(`/api/work-orders/${workOrderId}/checklist`, { headers: requestHeaders() });
         if (!response.ok) throw new Error('Failed to fetch checklist');
         const items = (await response.json()) as ChecklistItemWithActions[];
         
@@ -113,32 +124,51 @@ const MobileChecklistExecution: React.FC<MobileChecklistExecutionProps> = ({
 
   // Update checklist item with offline support
   const updateChecklistItem = useMutation({
-    mutationFn: async ({ itemId, updates }: { itemId: string; updates: Partial<ChecklistItemWithActions> }) => {
-      // Store local update immediately
-      setLocalUpdates(prev => new Map(prev.set(itemId, { ...prev.get(itemId), ...updates })));
+    mutationFn: async ({ itemId, updates }: { itemId: string; updates: ChecklistItemUpdate }) => {
+      // Store local update immediately, judging readings against the item's limits
+      const item = checklistItems.find(i => i.id === itemId);
+      const { value, ...rest } = updates;
+      const local: Partial<ChecklistItemWithActions> = value === undefined || value === null || !item ? rest : {
+        ...rest,
+        value: String(value),
+        withinLimits: isWithinLimits(item, value),
+        status: isWithinLimits(item, value) ? (rest.status ?? 'done') : 'issue',
+      };
+      setLocalUpdates(prev => new Map(prev.set(itemId, { ...prev.get(itemId), ...local })));
 
       if (networkStatus.isOnline) {
         const response = await fetch(`/api/work-orders/${workOrderId}/checklist/${itemId}`, {
           method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
+          headers: requestHeaders(),
           body: JSON.stringify(updates),
         });
-        if (!response.ok) throw new Error('Failed to update checklist item');
+        if (!response.ok) {
+          const error = await response.json().catch(() => ({}));
+          throw new Error(error.message || 'Failed to update checklist item');
+        }
         return response.json();
       } else {
-        // Queue for offline sync
+        // Queue for offline sync against the version this device last saw
         queueAction({
           type: 'update',
           table: 'work_order_checklist_items',
           data: { id: itemId, ...updates },
+          baseVersion: item?.version,
+          base: item ? Object.fromEntries(Object.keys(updates).map(field => [field, (item as any)[field] ?? null])) : undefined,
         });
         setPendingCount(getPendingActionsCount());
         return { id: itemId, ...updates };
       }
     },
-    onSuccess: () => {
+    onSuccess: (item: { followUp?: ChecklistFollowUp }) => {
       queryClient.invalidateQueries({ queryKey: ['checklist', workOrderId] });
-      if (networkStatus.isOnline) {
+      if (item.followUp?.mode === 'auto') {
+        toast({
+          title: 'Follow-up Created',
+          description: `Corrective work order ${item.followUp.workOrder.foNumber} was raised for this failure`,
+          variant: 'destructive',
+        });
+      } else if (networkStatus.isOnline) {
         toast({
           title: 'Item Updated',
           description: 'Checklist item saved successfully',
@@ -391,13 +421,26 @@ const MobileChecklistExecution: React.FC<MobileChecklistExecutionProps> = ({
           </p>
         </CardHeader>
         <CardContent className="space-y-4">
+          {/* Typed reading */}
+          <ChecklistReadingInput
+            item={currentItem}
+            size="lg"
+            disabled={isReadOnly}
+            onSubmit={(value) => {
+              updateChecklistItem.mutate({ itemId: currentItem.id, updates: { value } });
+              if (isWithinLimits(currentItem, value) && canNavigateNext()) {
+                setTimeout(() => setCurrentItemIndex(prev => prev + 1), 500);
+              }
+            }}
+          />
+
           {/* Status Buttons */}
           <div className="grid grid-cols-3 gap-2">
             <Button
               variant={currentItem.status === 'done' ? 'default' : 'outline'}
               size="sm"
               onClick={() => handleStatusChange('done')}
-              disabled={isReadOnly}
+              disabled={isReadOnly || needsReading(currentItem)}
               className="flex items-center space-x-1"
             >
               <CheckCircle className="w-4 h-4" />
@@ -425,6 +468,9 @@ const MobileChecklistExecution: React.FC<MobileChecklistExecutionProps> = ({
             </Button>
           </div>
 
+          {/* Follow-up for failed items; needs a connection */}
+          <ChecklistFollowUpButton item={currentItem} size="lg" disabled={isReadOnly || !networkStatus.isOnline} />
+
           {/* Notes Section */}
           <div className="space-y-2">
             <div className="flex items-center justify-between">
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Eraser } from 'lucide-react';
+import type { SignatureStroke } from '@/types';
+
+interface SignaturePadProps {
+  strokes: SignatureStroke[];
+  onChange: (strokes: SignatureStroke[]) => void;
+  height?: number;
+  disabled?: boolean;
+}
+
+/**
+ * Finger, stylus or mouse signature capture. Strokes are kept as points scaled to 0–1 so the server
+ * can redraw them at any size on the signature certificate.
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ strokes, onChange, height = 160, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef<SignatureStroke | null>(null);
+
+  const redraw = (all: SignatureStroke[]) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { width, height: h } = canvas;
+    ctx.clearRect(0, 0, width, h);
+    ctx.lineWidth = 2 * (window.devicePixelRatio || 1);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#1e3a8a';
+    for (const stroke of all) {
+      ctx.beginPath();
+      stroke.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x * width, y * h) : ctx.lineTo(x * width, y * h)));
+      if (stroke.length === 1) ctx.lineTo(stroke[0][0] * width + 0.5, stroke[0][1] * h);
+      ctx.stroke();
+    }
+  };
+
+  // Match the backing store to the displayed size so lines stay crisp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = canvas.offsetHeight * ratio;
+    redraw(strokes);
+  }, []);
+
+  useEffect(() => {
+    redraw(drawing.current ? [...strokes, drawing.current] : strokes);
+  }, [strokes]);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const clamp = (n: number) => Math.min(1, Math.max(0, Math.round(n * 1000) / 1000));
+    return [clamp((event.clientX - rect.left) / rect.width), clamp((event.clientY - rect.top) / rect.height)];
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = [pointFor(event)];
+    redraw([...strokes, drawing.current]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current.push(pointFor(event));
+    redraw([...strokes, drawing.current]);
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    const stroke = drawing.current;
+    drawing.current = null;
+    onChange([...strokes, stroke]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        className="w-full border border-dashed border-gray-300 rounded-md bg-white touch-none"
+        style={{ height }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Sign above</span>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange([])} disabled={disabled || strokes.length === 0}>
+          <Eraser className="w-3 h-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
@@ -15,12 +15,18 @@ import {
   AlertCircle,
   XCircle,
   QrCode,
-  Timer 
+  Timer,
+  AlertTriangle
 } from 'lucide-react';
 import { WorkOrder, Attachment, Equipment } from '@/types';
 import FileUpload from '@/components/FileUpload';
 import DocumentPreview from '@/components/DocumentPreview';
 import LaborTimeTracker from '@/components/work-orders/LaborTimeTracker';
+import WorkOrderSlaPanel from '@/components/work-orders/WorkOrderSlaPanel';
+import WorkOrderEscalationPanel from '@/components/work-orders/WorkOrderEscalationPanel';
+import WorkOrderRelatedPanel from '@/components/work-orders/WorkOrderRelatedPanel';
+import WorkOrderFailureCodesPanel from '@/components/work-orders/WorkOrderFailureCodesPanel';
+import WorkOrderSignOffPanel, { useWorkOrderSignatures } from '@/components/work-orders/WorkOrderSignOffPanel';
 import QRCodeGenerator from '@/components/equipment/QRCodeGenerator';
 import { useToast } from '@/hooks/use-toast';
 
@@ -46,6 +52,8 @@ const WorkOrderDetailView: React.FC<WorkOrderDetailViewProps> = ({
     },
   });
 
+  const { data: signatures } = useWorkOrderSignatures(workOrderId);
+
   // Fetch attachments
   const { data: attachments = [], refetch: refetchAttachments } = useQuery({
     queryKey: ['attachments', workOrderId],
@@ -158,6 +166,12 @@ const WorkOrderDetailView: React.FC<WorkOrderDetailViewProps> = ({
           <Badge className={getPriorityColor(workOrder.priority)}>
             {workOrder.priority} Priority
           </Badge>
+          {signatures?.modifiedAfterSigning && (
+            <Badge className="bg-red-100 text-red-800">
+              <AlertTriangle className="w-4 h-4" />
+              <span className="ml-1">Modified after signing</span>
+            </Badge>
+          )}
         </div>
       </div>
 
@@ -262,6 +276,21 @@ const WorkOrderDetailView: React.FC<WorkOrderDetailViewProps> = ({
                 )}
               </CardContent>
             </Card>
+
+            {/* Response and resolution targets */}
+            <WorkOrderSlaPanel workOrderId={workOrderId} status={workOrder.status} />
+
+            {/* Escalation chain and acknowledgement */}
+            <WorkOrderEscalationPanel workOrderId={workOrderId} />
+
+            {/* Parent and follow-up work orders */}
+            <WorkOrderRelatedPanel workOrderId={workOrderId} />
+
+            {/* Problem, cause and remedy for corrective work */}
+            <WorkOrderFailureCodesPanel workOrder={workOrder} />
+
+            {/* Completion and verification signatures */}
+            <WorkOrderSignOffPanel workOrderId={workOrderId} status={workOrder.status} />
           </div>
         </TabsContent>
 
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { BellRing, CheckCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { EscalationHistory } from '@/types';
+
+const TRIGGER_LABELS: Record<string, string> = {
+  unstarted: 'Not started',
+  past_due: 'Past due',
+  manual: 'Manual',
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const WorkOrderEscalationPanel: React.FC<{ workOrderId: string }> = ({ workOrderId }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const { data: history = [] } = useQuery<EscalationHistory[]>({
+    queryKey: ['escalation-history', workOrderId],
+    queryFn: async () => {
+      const response = await fetch(`/api/escalation/history/${workOrderId}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch escalation history');
+      return response.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/escalation/acknowledge/${workOrderId}`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify(note ? { note } : {}),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to acknowledge escalation');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      setNote('');
+      queryClient.invalidateQueries({ queryKey: ['escalation-history', workOrderId] });
+      toast({ title: 'Escalation acknowledged', description: 'No further escalation or reminders will be sent.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (history.length === 0) return null;
+
+  const open = history.some(entry => !entry.acknowledgedAt);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <BellRing className="w-5 h-5 mr-2" />
+          Escalation
+          {open && <Badge className="ml-2 bg-red-100 text-red-800">Awaiting acknowledgement</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {history.map(entry => (
+          <div key={entry.id} className="flex items-start justify-between border-b last:border-0 pb-2 text-sm">
+            <div>
+              <div className="font-medium">
+                Level {entry.escalationLevel} · {TRIGGER_LABELS[entry.trigger || 'unstarted']}
+              </div>
+              <div className="text-xs text-gray-500">{entry.reason}</div>
+              {entry.acknowledgedAt && (
+                <div className="text-xs text-green-700 flex items-center mt-1">
+                  <CheckCircle className="w-3 h-3 mr-1" />
+                  Acknowledged {format(new Date(entry.acknowledgedAt), 'MMM d, HH:mm')}
+                  {entry.acknowledgementNote && ` — ${entry.acknowledgementNote}`}
+                </div>
+              )}
+            </div>
+            <div className="text-xs text-gray-500 text-right">
+              {entry.escalatedAt && format(new Date(entry.escalatedAt), 'MMM d, HH:mm')}
+              {(entry.notificationCount ?? 1) > 1 && <div>{entry.notificationCount} notifications</div>}
+            </div>
+          </div>
+        ))}
+
+        {open && (
+          <div className="flex items-center space-x-2">
+            <Input
+              placeholder="Note (optional)"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <Button size="sm" onClick={() => acknowledgeMutation.mutate()} disabled={acknowledgeMutation.isPending}>
+              Acknowledge
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrderEscalationPanel;
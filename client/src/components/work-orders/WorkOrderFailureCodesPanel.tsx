@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Tags } from 'lucide-react';
+import { FAILURE_CODE_KINDS, type FailureCode, type FailureCodeKind, type WorkOrder } from '@/types';
+
+const KIND_LABELS: Record<FailureCodeKind, string> = {
+  problem: 'Problem',
+  cause: 'Cause',
+  remedy: 'Remedy',
+};
+
+const CODE_FIELDS = {
+  problem: 'problemCodeId',
+  cause: 'causeCodeId',
+  remedy: 'remedyCodeId',
+} as const;
+
+// Work order types that cannot be completed without a problem, cause and remedy
+const CODED_TYPES: WorkOrder['type'][] = ['corrective', 'emergency'];
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Problem, cause and remedy for corrective and emergency work, picked from the codes that apply to the asset
+ */
+const WorkOrderFailureCodesPanel: React.FC<{ workOrder: WorkOrder }> = ({ workOrder }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selection, setSelection] = useState<Record<FailureCodeKind, string>>({ problem: '', cause: '', remedy: '' });
+
+  useEffect(() => {
+    setSelection({
+      problem: workOrder.problemCodeId ?? '',
+      cause: workOrder.causeCodeId ?? '',
+      remedy: workOrder.remedyCodeId ?? '',
+    });
+  }, [workOrder.problemCodeId, workOrder.causeCodeId, workOrder.remedyCodeId]);
+
+  const { data: codes = [] } = useQuery<FailureCode[]>({
+    queryKey: ['/api/failure-codes', { equipmentId: workOrder.equipmentId }],
+    queryFn: async () => {
+      const params = workOrder.equipmentId ? `?equipmentId=${workOrder.equipmentId}` : '';
+      const response = await fetch(`/api/failure-codes${params}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch failure codes');
+      return response.json();
+    },
+    enabled: CODED_TYPES.includes(workOrder.type),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/work-orders/${workOrder.id}`, {
+        method: 'PATCH',
+        headers: requestHeaders(),
+        body: JSON.stringify({
+          problemCodeId: selection.problem || null,
+          causeCodeId: selection.cause || null,
+          remedyCodeId: selection.remedy || null,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to save failure codes');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workOrder', workOrder.id] });
+      toast({ title: 'Failure codes saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!CODED_TYPES.includes(workOrder.type)) return null;
+
+  const complete = FAILURE_CODE_KINDS.every(kind => selection[kind]);
+  const changed = FAILURE_CODE_KINDS.some(kind => selection[kind] !== (workOrder[CODE_FIELDS[kind]] ?? ''));
+  const editable = !['verified', 'closed'].includes(workOrder.status);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Tags className="w-5 h-5 mr-2" />
+          Failure Codes
+          {!complete && workOrder.status === 'in_progress' && (
+            <Badge className="ml-2 bg-yellow-100 text-yellow-800">Required to complete</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {FAILURE_CODE_KINDS.map(kind => (
+          <div key={kind}>
+            <label className="text-sm font-medium text-gray-500">{KIND_LABELS[kind]}</label>
+            <Select
+              value={selection[kind]}
+              onValueChange={(value) => setSelection(prev => ({ ...prev, [kind]: value }))}
+              disabled={!editable}
+            >
+              <SelectTrigger><SelectValue placeholder={`Select ${kind}`} /></SelectTrigger>
+              <SelectContent>
+                {codes.filter(code => code.kind === kind).map(code => (
+                  <SelectItem key={code.id} value={code.id}>{code.code} · {code.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        {editable && (
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={!changed || saveMutation.isPending}
+          >
+            Save codes
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrderFailureCodesPanel;
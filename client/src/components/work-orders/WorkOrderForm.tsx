@@ -7,7 +7,7 @@ import { Textarea } from '../ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '../ui/form';
 import { useCreateWorkOrder } from '../../hooks/useWorkOrders';
-import { useEquipment } from '../../hooks/useEquipment';
+import { useEquipment, orderByHierarchy } from '../../hooks/useEquipment';
 import { useAuth } from '../../hooks/useAuth';
 import { useToast } from '../../hooks/use-toast';
 import { QrCode, Upload } from 'lucide-react';
@@ -84,8 +84,9 @@ export default function WorkOrderForm({ onSuccess, onCancel, initialData }: Work
   const handleQRScan = (result: string) => {
     setShowQRScanner(false);
     
-    // Find equipment by asset tag
-    const foundEquipment = equipment?.find(e => e.assetTag === result);
+    // Find equipment by asset tag, or by the id in a signed asset label
+    const labelId = result.match(/mnt:asset:([0-9a-f-]+):/i)?.[1];
+    const foundEquipment = equipment?.find(e => labelId ? e.id === labelId : e.assetTag === result);
     if (foundEquipment) {
       form.setValue('equipmentId', foundEquipment.id);
       form.setValue('assetModel', foundEquipment.model);
@@ -141,9 +142,12 @@ export default function WorkOrderForm({ onSuccess, onCancel, initialData }: Work
                         <SelectValue placeholder="Select equipment or scan QR code" />
                       </SelectTrigger>
                       <SelectContent>
-                        {equipment?.map((item) => (
+                        {/* Child assets follow their parent so a specific component can be chosen */}
+                        {orderByHierarchy(equipment ?? []).map(({ item, depth }) => (
                           <SelectItem key={item.id} value={item.id}>
-                            {item.assetTag} - {item.description}
+                            <span style={{ paddingLeft: depth * 12 }}>
+                              {depth > 0 && '└ '}{item.assetTag} - {item.description}
+                            </span>
                           </SelectItem>
                         ))}
                       </SelectContent>
@@ -0,0 +1,74 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { GitBranch } from 'lucide-react';
+import { format } from 'date-fns';
+import type { WorkOrder } from '@/types';
+
+interface RelatedWorkOrders {
+  parent: WorkOrder | null;
+  children: WorkOrder[];
+}
+
+const requestHeaders = () => ({
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const WorkOrderRow: React.FC<{ workOrder: WorkOrder }> = ({ workOrder }) => (
+  <div className="flex items-start justify-between border-b last:border-0 pb-2 text-sm">
+    <div>
+      <div className="font-medium">{workOrder.foNumber}</div>
+      <div className="text-xs text-gray-500">{workOrder.description}</div>
+    </div>
+    <div className="text-right space-y-1">
+      <Badge variant="outline" className="text-xs">{workOrder.status.replace('_', ' ')}</Badge>
+      <div className="text-xs text-gray-500">{format(new Date(workOrder.createdAt), 'MMM d, yyyy')}</div>
+    </div>
+  </div>
+);
+
+/**
+ * The work order that raised this one, and the follow-up work it raised in turn
+ */
+const WorkOrderRelatedPanel: React.FC<{ workOrderId: string }> = ({ workOrderId }) => {
+  const { data } = useQuery<RelatedWorkOrders>({
+    queryKey: ['work-order-related', workOrderId],
+    queryFn: async () => {
+      const response = await fetch(`/api/work-orders/${workOrderId}/related`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch related work orders');
+      return response.json();
+    },
+  });
+
+  if (!data || (!data.parent && data.children.length === 0)) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <GitBranch className="w-5 h-5 mr-2" />
+          Related Work Orders
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.parent && (
+          <div>
+            <label className="text-sm font-medium text-gray-500">Raised from</label>
+            <WorkOrderRow workOrder={data.parent} />
+          </div>
+        )}
+        {data.children.length > 0 && (
+          <div>
+            <label className="text-sm font-medium text-gray-500">Follow-up work ({data.children.length})</label>
+            {data.children.map(child => <WorkOrderRow key={child.id} workOrder={child} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrderRelatedPanel;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Download, PenLine, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import SignaturePad from '@/components/work-orders/SignaturePad';
+import type { SignatureKind, SignatureMethod, SignatureStroke, WorkOrder, WorkOrderSignature } from '@/types';
+
+type SignatureCheck = WorkOrderSignature & { modifiedAfterSigning: boolean; sealValid: boolean };
+
+interface WorkOrderSignatures {
+  currentHash: string;
+  modifiedAfterSigning: boolean;
+  signatures: SignatureCheck[];
+}
+
+const KIND_LABELS: Record<SignatureKind, string> = {
+  completion: 'Completion',
+  verification: 'Verification',
+};
+
+const METHOD_LABELS: Record<SignatureMethod, string> = {
+  drawn: 'Draw signature',
+  password: 'Re-enter password',
+  mfa: 'Authenticator code',
+};
+
+// Which sign-offs make sense at each status; signing at the earlier status also moves the work order on
+const KINDS_BY_STATUS: Partial<Record<WorkOrder['status'], SignatureKind[]>> = {
+  in_progress: ['completion'],
+  completed: ['verification', 'completion'],
+  verified: ['verification'],
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Signatures on a work order, each checked against its current contents
+ */
+export const useWorkOrderSignatures = (workOrderId: string) => useQuery<WorkOrderSignatures>({
+  queryKey: ['work-order-signatures', workOrderId],
+  queryFn: async () => {
+    const response = await fetch(`/api/work-orders/${workOrderId}/signatures`, { headers: requestHeaders() });
+    if (!response.ok) throw new Error('Failed to fetch signatures');
+    return response.json();
+  },
+});
+
+/**
+ * Completion and verification sign-off, with the signatures given so far and their certificates
+ */
+const WorkOrderSignOffPanel: React.FC<{ workOrderId: string; status: WorkOrder['status'] }> = ({ workOrderId, status }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const kinds = KINDS_BY_STATUS[status] ?? [];
+  const [kind, setKind] = useState<SignatureKind | undefined>(kinds[0]);
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [strokes, setStrokes] = useState<SignatureStroke[]>([]);
+  const [secret, setSecret] = useState('');
+
+  const { data } = useWorkOrderSignatures(workOrderId);
+  const selectedKind = kind && kinds.includes(kind) ? kind : kinds[0];
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/work-orders/${workOrderId}/signatures`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({
+          kind: selectedKind,
+          method,
+          strokes: method === 'drawn' ? strokes : undefined,
+          password: method === 'password' ? secret : undefined,
+          mfaToken: method === 'mfa' ? secret : undefined,
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to sign work order');
+      }
+      return (await response.json()) as { workOrder: WorkOrder; transitioned: boolean };
+    },
+    onSuccess: ({ workOrder, transitioned }) => {
+      setStrokes([]);
+      setSecret('');
+      queryClient.invalidateQueries({ queryKey: ['work-order-signatures', workOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['workOrder', workOrderId] });
+      toast({
+        title: 'Signed',
+        description: transitioned
+          ? `Work order marked ${workOrder.status.replace('_', ' ')}`
+          : `${KIND_LABELS[selectedKind!]} signature recorded`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Sign-off failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const downloadCertificate = async (signature: SignatureCheck) => {
+    try {
+      const response = await fetch(`/api/work-orders/${workOrderId}/signatures/${signature.id}/certificate.pdf`, {
+        headers: requestHeaders(),
+      });
+      if (!response.ok) throw new Error('Failed to download certificate');
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `signature-${signature.kind}-${signature.id}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const signatures = data?.signatures ?? [];
+  if (signatures.length === 0 && kinds.length === 0) return null;
+
+  const movesOn = (selectedKind === 'completion' && status === 'in_progress') || (selectedKind === 'verification' && status === 'completed');
+  const ready = !!selectedKind && (method === 'drawn' ? strokes.length > 0 : secret.trim().length > 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <PenLine className="w-5 h-5 mr-2" />
+          Sign-off
+          {data?.modifiedAfterSigning && (
+            <Badge className="ml-2 bg-red-100 text-red-800">
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Modified after signing
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {signatures.map(signature => (
+          <div key={signature.id} className="flex items-start justify-between border-b last:border-0 pb-2 text-sm">
+            <div>
+              <div className="font-medium">
+                {KIND_LABELS[signature.kind]} · {signature.signerName}
+              </div>
+              <div className="text-xs text-gray-500">
+                {format(new Date(signature.signedAt), 'MMM d, yyyy HH:mm')} · {METHOD_LABELS[signature.method]}
+              </div>
+              <div className="text-xs text-gray-400 font-mono">SHA-256 {signature.contentHash.slice(0, 16)}…</div>
+            </div>
+            <div className="flex flex-col items-end space-y-1">
+              {!signature.sealValid ? (
+                <Badge className="bg-red-100 text-red-800 text-xs">Record altered</Badge>
+              ) : signature.modifiedAfterSigning ? (
+                <Badge className="bg-red-100 text-red-800 text-xs">Modified after signing</Badge>
+              ) : (
+                <Badge className="bg-green-100 text-green-800 text-xs">
+                  <ShieldCheck className="w-3 h-3 mr-1" />
+                  Unchanged
+                </Badge>
+              )}
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => downloadCertificate(signature)}>
+                <Download className="w-3 h-3 mr-1" />
+                Certificate
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {kinds.length > 0 && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={selectedKind} onValueChange={(value) => setKind(value as SignatureKind)}>
+                <SelectTrigger><SelectValue placeholder="Sign-off" /></SelectTrigger>
+                <SelectContent>
+                  {kinds.map(k => <SelectItem key={k} value={k}>{KIND_LABELS[k]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={method} onValueChange={(value) => { setMethod(value as SignatureMethod); setSecret(''); }}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(METHOD_LABELS) as SignatureMethod[]).map(m => (
+                    <SelectItem key={m} value={m}>{METHOD_LABELS[m]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {method === 'drawn' ? (
+              <SignaturePad strokes={strokes} onChange={setStrokes} disabled={signMutation.isPending} />
+            ) : (
+              <Input
+                type={method === 'password' ? 'password' : 'text'}
+                inputMode={method === 'mfa' ? 'numeric' : undefined}
+                autoComplete={method === 'password' ? 'current-password' : 'one-time-code'}
+                placeholder={method === 'password' ? 'Password' : '6-digit code'}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+              />
+            )}
+
+            <Button className="w-full" onClick={() => signMutation.mutate()} disabled={!ready || signMutation.isPending}>
+              {movesOn ? (selectedKind === 'completion' ? 'Sign and complete' : 'Sign and verify') : 'Sign'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrderSignOffPanel;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { Gauge, PauseCircle, PlayCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import type { SlaHoldReason } from '@/types';
+
+type ClockState = 'on_track' | 'at_risk' | 'paused' | 'breached' | 'met';
+
+interface SlaClock {
+  targetMinutes: number;
+  elapsedMinutes: number;
+  dueAt: string | null;
+  stoppedAt: string | null;
+  breachedAt: string | null;
+  state: ClockState;
+}
+
+interface WorkOrderSla {
+  workOrderId: string;
+  policy: { businessHoursOnly: boolean };
+  holdReason: SlaHoldReason | null;
+  response: SlaClock;
+  resolution: SlaClock;
+}
+
+export const HOLD_REASON_LABELS: Record<SlaHoldReason, string> = {
+  waiting_parts: 'Waiting on parts',
+  waiting_vendor: 'Waiting on vendor',
+  waiting_requester: 'Waiting on requester',
+  waiting_access: 'Waiting for access',
+};
+
+export const CLOCK_STATE_STYLES: Record<ClockState, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  at_risk: { label: 'At risk', className: 'bg-yellow-100 text-yellow-800' },
+  paused: { label: 'Paused', className: 'bg-gray-100 text-gray-800' },
+  breached: { label: 'Breached', className: 'bg-red-100 text-red-800' },
+  met: { label: 'Met', className: 'bg-blue-100 text-blue-800' },
+};
+
+export const formatClockMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const ClockRow: React.FC<{ label: string; clock: SlaClock }> = ({ label, clock }) => {
+  const style = CLOCK_STATE_STYLES[clock.state];
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">{label}</span>
+        <Badge className={style.className}>{style.label}</Badge>
+      </div>
+      <Progress value={Math.min(100, (clock.elapsedMinutes / clock.targetMinutes) * 100)} />
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatClockMinutes(clock.elapsedMinutes)} of {formatClockMinutes(clock.targetMinutes)}</span>
+        <span>
+          {clock.breachedAt
+            ? `Breached ${format(new Date(clock.breachedAt), 'MMM d, HH:mm')}`
+            : clock.dueAt
+              ? `Due ${format(new Date(clock.dueAt), 'MMM d, HH:mm')}`
+              : 'Clock stopped while on hold'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const WorkOrderSlaPanel: React.FC<{ workOrderId: string; status: string }> = ({ workOrderId, status }) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState<SlaHoldReason>('waiting_parts');
+
+  const { data: sla } = useQuery<WorkOrderSla>({
+    queryKey: ['work-order-sla', workOrderId],
+    queryFn: async () => {
+      const response = await fetch(`/api/work-orders/${workOrderId}/sla`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch SLA');
+      return response.json();
+    },
+    refetchInterval: 60000,
+  });
+
+  const holdMutation = useMutation({
+    mutationFn: async (action: 'hold' | 'resume') => {
+      const response = await fetch(`/api/work-orders/${workOrderId}/${action}`, {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify(action === 'hold' ? { reason } : {}),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update hold');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['work-order-sla', workOrderId] });
+      queryClient.invalidateQueries({ queryKey: ['workOrder', workOrderId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!sla) return null;
+
+  const canHold = ['assigned', 'in_progress'].includes(status);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Gauge className="w-5 h-5 mr-2" />
+          Service Level
+          {!sla.policy.businessHoursOnly && <Badge variant="outline" className="ml-2 text-xs">24/7</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ClockRow label="Response" clock={sla.response} />
+        <ClockRow label="Resolution" clock={sla.resolution} />
+
+        {sla.holdReason ? (
+          <div className="flex items-center justify-between rounded bg-gray-50 p-2">
+            <span className="text-sm">On hold: {HOLD_REASON_LABELS[sla.holdReason]}</span>
+            <Button size="sm" variant="outline" onClick={() => holdMutation.mutate('resume')} disabled={holdMutation.isPending}>
+              <PlayCircle className="w-4 h-4 mr-1" />
+              Resume
+            </Button>
+          </div>
+        ) : canHold && (
+          <div className="flex items-center space-x-2">
+            <Select value={reason} onValueChange={(value) => setReason(value as SlaHoldReason)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(HOLD_REASON_LABELS) as SlaHoldReason[]).map(r => (
+                  <SelectItem key={r} value={r}>{HOLD_REASON_LABELS[r]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" variant="outline" onClick={() => holdMutation.mutate('hold')} disabled={holdMutation.isPending}>
+              <PauseCircle className="w-4 h-4 mr-1" />
+              Put on hold
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WorkOrderSlaPanel;
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Save } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useToast } from '../../hooks/use-toast';
+import type { ApproverRole, InsertApprovalThreshold } from '../../types';
+
+export type ApprovalThreshold = InsertApprovalThreshold & { isDefault: boolean };
+
+const ROLE_NAMES: Record<ApproverRole, string> = {
+  supervisor: 'Supervisor',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+// Blank means no limit
+const toLimit = (value: string): number | null => value.trim() === '' ? null : Number(value);
+
+/**
+ * The largest estimate each role may approve. Requests over a supervisor's limit wait for a manager, and so on.
+ */
+export default function ApprovalThresholdsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Array<{ role: ApproverRole; maxCost: string; maxHours: string }>>([]);
+
+  const { data: thresholds } = useQuery<ApprovalThreshold[]>({
+    queryKey: ['/api/work-requests/thresholds'],
+    queryFn: async () => {
+      const response = await fetch('/api/work-requests/thresholds', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch approval thresholds');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (thresholds) {
+      setDraft(thresholds.map(t => ({
+        role: t.role,
+        maxCost: t.maxCost === null ? '' : String(t.maxCost),
+        maxHours: t.maxHours === null ? '' : String(t.maxHours),
+      })));
+    }
+  }, [thresholds]);
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const body: InsertApprovalThreshold[] = draft.map(t => ({ role: t.role, maxCost: toLimit(t.maxCost), maxHours: toLimit(t.maxHours) }));
+      const response = await fetch('/api/work-requests/thresholds', { method: 'PUT', headers: requestHeaders(), body: JSON.stringify(body) });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to save approval thresholds');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/work-requests/thresholds'] });
+      toast({ title: 'Approval limits saved' });
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  if (!thresholds) return null;
+
+  const update = (index: number, field: 'maxCost' | 'maxHours', value: string) =>
+    setDraft(draft.map((t, i) => i === index ? { ...t, [field]: value } : t));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Approval Limits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">Leave a field blank for no limit.</p>
+        <div className="grid grid-cols-3 gap-2 text-xs font-medium text-gray-500">
+          <span>Role</span>
+          <span>Max cost ($)</span>
+          <span>Max hours</span>
+        </div>
+        {draft.map((threshold, index) => (
+          <div key={threshold.role} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm">{ROLE_NAMES[threshold.role]}</span>
+            <Input type="number" min="0" value={threshold.maxCost} onChange={(e) => update(index, 'maxCost', e.target.value)} />
+            <Input type="number" min="0" value={threshold.maxHours} onChange={(e) => update(index, 'maxHours', e.target.value)} />
+          </div>
+        ))}
+        <Button variant="outline" className="w-full" onClick={() => save.mutate()} disabled={save.isPending}>
+          <Save className="w-4 h-4 mr-2" />
+          Save limits
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
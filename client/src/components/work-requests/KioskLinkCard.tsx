@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import QRCode from 'qrcode';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Copy } from 'lucide-react';
+import { useToast } from '../../hooks/use-toast';
+
+const requestHeaders = () => ({
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+// Link for a kiosk or a poster; equipment and location labels open the same portal for their own asset
+export default function KioskLinkCard() {
+  const { toast } = useToast();
+  const [qrDataUrl, setQrDataUrl] = useState('');
+
+  const { data } = useQuery<{ code: string }>({
+    queryKey: ['/api/work-requests/kiosk-code'],
+    queryFn: async () => {
+      const response = await fetch('/api/work-requests/kiosk-code', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch kiosk link');
+      return response.json();
+    },
+  });
+
+  const link = data ? `${window.location.origin}/request?code=${data.code}` : '';
+
+  useEffect(() => {
+    if (link) QRCode.toDataURL(link, { width: 160, margin: 1 }).then(setQrDataUrl).catch(() => setQrDataUrl(''));
+  }, [link]);
+
+  if (!data) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Request Portal</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Anyone with this link can report a problem without an account. Put it on a kiosk or print the code for a notice board.
+        </p>
+        {qrDataUrl && <img src={qrDataUrl} alt="Request portal QR code" className="w-40 h-40 mx-auto" />}
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => {
+            navigator.clipboard?.writeText(link);
+            toast({ title: 'Link copied' });
+          }}
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          Copy kiosk link
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
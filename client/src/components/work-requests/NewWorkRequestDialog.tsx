@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useToast } from '../../hooks/use-toast';
+import { useEquipment } from '../../hooks/useEquipment';
+import type { WorkRequestUrgency } from '../../types';
+
+const NO_EQUIPMENT = 'none';
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+/**
+ * Raise a request for triage rather than a work order; it becomes one once a supervisor approves it
+ */
+export default function NewWorkRequestDialog({ onClose }: { onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: equipment = [] } = useEquipment();
+  const [form, setForm] = useState({ description: '', area: '', estimatedCost: '', estimatedHours: '' });
+  const [equipmentId, setEquipmentId] = useState(NO_EQUIPMENT);
+  const [urgency, setUrgency] = useState<WorkRequestUrgency>('medium');
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/work-requests', {
+        method: 'POST',
+        headers: requestHeaders(),
+        body: JSON.stringify({
+          description: form.description,
+          area: form.area,
+          urgency,
+          equipmentId: equipmentId === NO_EQUIPMENT ? null : equipmentId,
+          estimatedCost: form.estimatedCost === '' ? null : Number(form.estimatedCost),
+          estimatedHours: form.estimatedHours === '' ? null : Number(form.estimatedHours),
+        }),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to create request');
+      }
+      return response.json();
+    },
+    onSuccess: (request: { reference: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/work-requests'] });
+      toast({ title: 'Request sent for triage', description: request.reference });
+      onClose();
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Work Request</DialogTitle>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit.mutate();
+          }}
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Equipment</label>
+            <Select value={equipmentId} onValueChange={setEquipmentId}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_EQUIPMENT}>No specific equipment</SelectItem>
+                {equipment.map(asset => (
+                  <SelectItem key={asset.id} value={asset.id}>{asset.assetTag} · {asset.model}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+            <Input
+              value={form.area}
+              onChange={(e) => setForm({ ...form, area: e.target.value })}
+              placeholder="Building, area or room"
+              required={equipmentId === NO_EQUIPMENT}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Problem</label>
+            <Textarea value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} rows={3} required />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Urgency</label>
+              <Select value={urgency} onValueChange={(value) => setUrgency(value as WorkRequestUrgency)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="low">Low</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Est. cost ($)</label>
+              <Input type="number" min="0" value={form.estimatedCost} onChange={(e) => setForm({ ...form, estimatedCost: e.target.value })} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Est. hours</label>
+              <Input type="number" min="0" value={form.estimatedHours} onChange={(e) => setForm({ ...form, estimatedHours: e.target.value })} />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={submit.isPending}>
+            {submit.isPending ? 'Sending...' : 'Send for triage'}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { AlertTriangle, CheckCircle, GitMerge, History, Inbox, XCircle } from 'lucide-react';
+import { useToast } from '../../hooks/use-toast';
+import type { Equipment, WorkOrder, WorkRequest, WorkRequestAction, WorkRequestDecision, WorkRequestStatus } from '../../types';
+
+export type TriageEntry = Omit<WorkRequest, 'tokenHash'> & {
+  equipment: Pick<Equipment, 'id' | 'assetTag' | 'description' | 'model'> | null;
+  workOrder: Pick<WorkOrder, 'id' | 'foNumber' | 'status'> | null;
+  duplicates: WorkOrder[];
+  decisions: WorkRequestDecision[];
+};
+
+type Decision = { kind: 'approve' | 'merge' | 'reject'; entry: TriageEntry };
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+const post = async (url: string, body: unknown, fallback: string) => {
+  const response = await fetch(url, { method: 'POST', headers: requestHeaders(), body: JSON.stringify(body) });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || fallback);
+  }
+  return response.json();
+};
+
+const URGENCY_COLORS: Record<WorkRequest['urgency'], string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-800',
+};
+
+const STATUS_COLORS: Record<WorkRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  awaiting_approval: 'bg-orange-100 text-orange-800',
+  converted: 'bg-green-100 text-green-800',
+  merged: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-100 text-gray-800',
+};
+
+const ACTION_LABELS: Record<WorkRequestAction, string> = {
+  submitted: 'Submitted',
+  escalated: 'Sent for approval',
+  approved: 'Approved',
+  merged: 'Merged',
+  rejected: 'Rejected',
+};
+
+const UNDECIDED: WorkRequestStatus[] = ['pending', 'awaiting_approval'];
+
+function DecisionDialog({ decision, onClose }: { decision: Decision; onClose: () => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { kind, entry } = decision;
+  const [type, setType] = useState<'corrective' | 'emergency'>(entry.urgency === 'high' ? 'emergency' : 'corrective');
+  const [priority, setPriority] = useState<WorkOrder['priority']>(entry.urgency);
+  const [workOrderId, setWorkOrderId] = useState(entry.duplicates[0]?.id ?? '');
+  const [reason, setReason] = useState('');
+  const [estimatedCost, setEstimatedCost] = useState(entry.estimatedCost ?? '');
+  const [estimatedHours, setEstimatedHours] = useState(entry.estimatedHours ?? '');
+
+  // Any open work order can take a merge, not only ones on the same asset
+  const { data: openWorkOrders = [] } = useQuery<WorkOrder[]>({
+    queryKey: ['/api/work-orders', { open: true }],
+    queryFn: async () => {
+      const response = await fetch('/api/work-orders', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch work orders');
+      const all: WorkOrder[] = await response.json();
+      return all.filter(wo => ['new', 'assigned', 'in_progress'].includes(wo.status));
+    },
+    enabled: kind === 'merge',
+  });
+
+  const decide = useMutation({
+    mutationFn: () => {
+      const url = `/api/work-requests/${entry.id}/${kind}`;
+      if (kind === 'approve') {
+        return post(url, {
+          type,
+          priority,
+          estimatedCost: estimatedCost === '' ? null : Number(estimatedCost),
+          estimatedHours: estimatedHours === '' ? null : Number(estimatedHours),
+        }, 'Failed to approve request');
+      }
+      if (kind === 'merge') return post(url, { workOrderId }, 'Failed to merge request');
+      return post(url, { reason }, 'Failed to reject request');
+    },
+    onSuccess: (result: { workOrder?: WorkOrder | null }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/work-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/work-orders'] });
+      const title = kind === 'approve'
+        ? result.workOrder ? `Work order ${result.workOrder.foNumber} created` : 'Over your approval limit; sent for approval'
+        : kind === 'merge' ? 'Request merged' : 'Request rejected';
+      toast({ title, description: entry.reference });
+      onClose();
+    },
+    onError: (error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }),
+  });
+
+  const mergeTargets = [...entry.duplicates, ...openWorkOrders.filter(wo => !entry.duplicates.some(d => d.id === wo.id))];
+  const ready = kind === 'approve' || (kind === 'merge' ? !!workOrderId : reason.trim().length >= 3);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {kind === 'approve' ? 'Approve Request' : kind === 'merge' ? 'Merge into Work Order' : 'Reject Request'} · {entry.reference}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">{entry.description}</p>
+
+          {kind === 'approve' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <Select value={type} onValueChange={(value) => setType(value as typeof type)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="corrective">Corrective</SelectItem>
+                    <SelectItem value="emergency">Emergency</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+                <Select value={priority} onValueChange={(value) => setPriority(value as WorkOrder['priority'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Estimated cost ($)</label>
+                <Input type="number" min="0" value={estimatedCost} onChange={(e) => setEstimatedCost(e.target.value)} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Estimated hours</label>
+                <Input type="number" min="0" value={estimatedHours} onChange={(e) => setEstimatedHours(e.target.value)} />
+              </div>
+              <p className="col-span-2 text-xs text-gray-500">
+                Estimates over your approval limit, or missing, go to a more senior approver instead of becoming a work order.
+              </p>
+            </div>
+          )}
+
+          {kind === 'merge' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Open work order</label>
+              <Select value={workOrderId} onValueChange={setWorkOrderId}>
+                <SelectTrigger><SelectValue placeholder="Choose a work order" /></SelectTrigger>
+                <SelectContent>
+                  {mergeTargets.map(wo => (
+                    <SelectItem key={wo.id} value={wo.id}>{wo.foNumber} · {wo.description.slice(0, 40)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {kind === 'reject' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason (shown to the requester)</label>
+              <Textarea value={reason} onChange={(e) => setReason(e.target.value)} rows={3} />
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            variant={kind === 'reject' ? 'destructive' : 'default'}
+            onClick={() => decide.mutate()}
+            disabled={!ready || decide.isPending}
+          >
+            {kind === 'approve' ? 'Approve' : kind === 'merge' ? 'Merge request' : 'Reject request'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DecisionHistory({ decisions }: { decisions: WorkRequestDecision[] }) {
+  return (
+    <div className="border-t pt-2 space-y-1 text-xs text-gray-500">
+      {decisions.map(decision => (
+        <div key={decision.id}>
+          <History className="w-3 h-3 inline mr-1" />
+          {ACTION_LABELS[decision.action]}
+          {decision.actorRole && ` by ${decision.actorRole}`}
+          {decision.estimatedCost && ` · $${decision.estimatedCost}`}
+          {decision.estimatedHours && ` · ${decision.estimatedHours}h`}
+          {decision.createdAt && ` · ${formatDistanceToNow(new Date(decision.createdAt), { addSuffix: true })}`}
+          {decision.reason && ` · ${decision.reason}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Requests waiting for a supervisor, flagged when the asset already has open work
+ * or when the estimate needs a more senior approver
+ */
+export default function WorkRequestQueue() {
+  const [status, setStatus] = useState<WorkRequestStatus | 'open' | 'all'>('open');
+  const [decision, setDecision] = useState<Decision | null>(null);
+
+  const { data: entries = [], isLoading } = useQuery<TriageEntry[]>({
+    queryKey: ['/api/work-requests', status],
+    queryFn: async () => {
+      const response = await fetch(`/api/work-requests?status=${status}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to fetch work requests');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Triage Queue</h2>
+        <Select value={status} onValueChange={(value) => setStatus(value as typeof status)}>
+          <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Waiting on a decision</SelectItem>
+            <SelectItem value="pending">Pending</SelectItem>
+            <SelectItem value="awaiting_approval">Awaiting approval</SelectItem>
+            <SelectItem value="converted">Converted</SelectItem>
+            <SelectItem value="merged">Merged</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="all">All requests</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading requests...</p>
+      ) : entries.length === 0 ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-500">
+            <Inbox className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+            {status === 'open' ? 'No requests waiting for triage' : 'No requests'}
+          </CardContent>
+        </Card>
+      ) : entries.map(entry => (
+        <Card key={entry.id}>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-start justify-between">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">{entry.reference}</span>
+                  <Badge className={URGENCY_COLORS[entry.urgency]}>{entry.urgency}</Badge>
+                  {entry.status === 'awaiting_approval' && entry.approvalRole ? (
+                    <Badge className={STATUS_COLORS[entry.status]}>Needs {entry.approvalRole} approval</Badge>
+                  ) : entry.status !== 'pending' && (
+                    <Badge className={STATUS_COLORS[entry.status]}>{entry.status}</Badge>
+                  )}
+                </div>
+                <div className="text-sm text-gray-500 mt-1">
+                  {entry.equipment ? `${entry.equipment.assetTag} · ` : ''}{entry.area || 'No location given'}
+                </div>
+              </div>
+              <span className="text-xs text-gray-500 whitespace-nowrap ml-2">
+                {entry.createdAt && formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+
+            <p className="text-sm">{entry.description}</p>
+
+            {entry.photos && entry.photos.length > 0 && (
+              <div className="flex gap-2">
+                {entry.photos.map(photo => (
+                  <a key={photo.fileName} href={`/api/files/${photo.fileName}`} target="_blank" rel="noreferrer">
+                    <img src={`/api/thumbnails/thumb_${photo.fileName}`} alt={photo.originalName} className="w-16 h-16 object-cover rounded border" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <div className="text-xs text-gray-500">
+              From {entry.requesterName}
+              {[entry.requesterEmail, entry.requesterPhone].filter(Boolean).map(contact => ` · ${contact}`)}
+            </div>
+
+            {entry.duplicates.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-sm">
+                <div className="flex items-center text-yellow-800 font-medium">
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  Possible duplicate: {entry.duplicates.length} open work order{entry.duplicates.length === 1 ? '' : 's'} on this asset
+                </div>
+                {entry.duplicates.map(wo => (
+                  <div key={wo.id} className="text-yellow-900 mt-1 truncate">{wo.foNumber} · {wo.description}</div>
+                ))}
+              </div>
+            )}
+
+            {UNDECIDED.includes(entry.status) ? (
+              <div className="flex flex-wrap gap-2 pt-1">
+                <Button size="sm" onClick={() => setDecision({ kind: 'approve', entry })}>
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setDecision({ kind: 'merge', entry })}>
+                  <GitMerge className="w-4 h-4 mr-1" />
+                  Merge
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setDecision({ kind: 'reject', entry })}>
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Reject
+                </Button>
+              </div>
+            ) : (
+              <div className="text-sm text-gray-600">
+                {entry.workOrder && <>Work order {entry.workOrder.foNumber}</>}
+                {entry.decisionReason && <>Reason: {entry.decisionReason}</>}
+              </div>
+            )}
+
+            {entry.decisions.length > 0 && <DecisionHistory decisions={entry.decisions} />}
+          </CardContent>
+        </Card>
+      ))}
+
+      {decision && <DecisionDialog decision={decision} onClose={() => setDecision(null)} />}
+    </div>
+  );
+}
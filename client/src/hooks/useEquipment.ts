@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { Equipment, InsertEquipment } from '../types';
+import { Equipment, InsertEquipment, Location } from '../types';
 import { apiRequest } from '../lib/queryClient';
 
 export function useEquipment() {
@@ -80,3 +80,73 @@ export function useUpdateEquipment() {
     },
   });
 }
+
+export interface AssetTreeNode extends Equipment {
+  children: AssetTreeNode[];
+}
+
+export interface LocationTreeNode extends Location {
+  path: string;
+  children: LocationTreeNode[];
+  equipment: AssetTreeNode[];
+}
+
+export interface AssetTree {
+  locations: LocationTreeNode[];
+  unplaced: AssetTreeNode[];
+}
+
+export function useAssetTree() {
+  return useQuery<AssetTree>({
+    queryKey: ['/api/equipment', 'tree'],
+    queryFn: async () => {
+      const response = await fetch('/api/equipment?view=tree', {
+        headers: {
+          'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+          'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch asset tree');
+      return response.json();
+    },
+  });
+}
+
+export function useLocations() {
+  return useQuery<Array<Location & { path: string }>>({
+    queryKey: ['/api/locations'],
+    queryFn: async () => {
+      const response = await fetch('/api/locations', {
+        headers: {
+          'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+          'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch locations');
+      return response.json();
+    },
+  });
+}
+
+/**
+ * Flattens equipment into parent-first order with each asset's depth, so child assets
+ * can be listed (and indented) straight after the asset they are fitted to.
+ */
+export function orderByHierarchy(equipment: Equipment[]): Array<{ item: Equipment; depth: number }> {
+  const ids = new Set(equipment.map(e => e.id));
+  const byParent = new Map<string | null, Equipment[]>();
+  for (const item of equipment) {
+    const parentId = item.parentEquipmentId && ids.has(item.parentEquipmentId) ? item.parentEquipmentId : null;
+    byParent.set(parentId, [...(byParent.get(parentId) ?? []), item]);
+  }
+
+  const ordered: Array<{ item: Equipment; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    for (const item of (byParent.get(parentId) ?? []).sort((a, b) => a.assetTag.localeCompare(b.assetTag))) {
+      ordered.push({ item, depth });
+      visit(item.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return ordered;
+}
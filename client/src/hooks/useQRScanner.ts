@@ -117,9 +117,10 @@ export function useQRInput() {
   const [isValid, setIsValid] = useState(false);
 
   const validateInput = useCallback((value: string) => {
-    // Basic validation for asset tags (alphanumeric, 3-20 characters)
+    // Asset tags and part numbers (alphanumeric, 3-20 characters), or a signed label payload, bare or in a portal link
     const assetTagPattern = /^[A-Z0-9\-]{3,20}$/i;
-    return assetTagPattern.test(value);
+    const labelPattern = /^(https?:\/\/\S+\/request\?code=)?mnt:(asset|part|location):[0-9a-f-]+:[0-9a-f]+$/i;
+    return assetTagPattern.test(value) || labelPattern.test(value.trim());
   }, []);
 
   const handleInputChange = useCallback((value: string) => {
@@ -110,7 +110,11 @@ export function useUpdateWorkOrder() {
         },
         body: JSON.stringify(data),
       });
-      if (!response.ok) throw new Error('Failed to update work order');
+      if (!response.ok) {
+        // Lifecycle violations come back as 409 with a readable message
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to update work order');
+      }
       return response.json();
     },
     onSuccess: (_, { id }) => {
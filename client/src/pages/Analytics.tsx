@@ -3,7 +3,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import EquipmentPerformanceAnalytics from '@/components/analytics/EquipmentPerformanceAnalytics';
 import AdvancedEquipmentAnalytics from '@/components/analytics/AdvancedEquipmentAnalytics';
-import { BarChart3, TrendingUp, DollarSign, Package } from 'lucide-react';
+import SLAReport from '@/components/analytics/SLAReport';
+import FailureParetoReport from '@/components/analytics/FailureParetoReport';
+import FailureCodeLibrary from '@/components/analytics/FailureCodeLibrary';
+import { BarChart3, TrendingUp, DollarSign, Package, Gauge } from 'lucide-react';
 
 const Analytics: React.FC = () => {
   return (
@@ -13,14 +16,18 @@ const Analytics: React.FC = () => {
       </div>
 
       <Tabs defaultValue="equipment" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="equipment" className="flex items-center space-x-2">
             <BarChart3 className="w-4 h-4" />
             <span>Equipment Performance</span>
           </TabsTrigger>
+          <TabsTrigger value="sla" className="flex items-center space-x-2">
+            <Gauge className="w-4 h-4" />
+            <span>SLA</span>
+          </TabsTrigger>
           <TabsTrigger value="maintenance" className="flex items-center space-x-2">
             <TrendingUp className="w-4 h-4" />
-            <span>Maintenance Trends</span>
+            <span>Failure Analysis</span>
           </TabsTrigger>
           <TabsTrigger value="costs" className="flex items-center space-x-2">
             <DollarSign className="w-4 h-4" />
@@ -36,22 +43,13 @@ const Analytics: React.FC = () => {
           <AdvancedEquipmentAnalytics />
         </TabsContent>
 
+        <TabsContent value="sla" className="space-y-6">
+          <SLAReport />
+        </TabsContent>
+
         <TabsContent value="maintenance" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Maintenance Trends Analysis</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-center py-12 text-muted-foreground">
-                <TrendingUp className="w-16 h-16 mx-auto mb-4 opacity-50" />
-                <h3 className="text-lg font-semibold mb-2">Maintenance Trends</h3>
-                <p>Advanced maintenance trend analysis coming soon...</p>
-                <p className="text-sm mt-2">
-                  This will include PM compliance trends, failure patterns, and seasonal analysis.
-                </p>
-              </div>
-            </CardContent>
-          </Card>
+          <FailureParetoReport />
+          <FailureCodeLibrary />
         </TabsContent>
 
         <TabsContent value="costs" className="space-y-6">
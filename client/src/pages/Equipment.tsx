@@ -4,12 +4,17 @@ import { Input } from '../components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
-import { Search, QrCode, Plus, Settings } from 'lucide-react';
+import { Search, QrCode, Plus, Settings, LayoutGrid, ListTree, Printer } from 'lucide-react';
 import { useEquipment } from '../hooks/useEquipment';
 import { Equipment } from '../types';
 import EquipmentDetailModal from '../components/equipment/EquipmentDetailModal';
 import EquipmentFormModal from '../components/equipment/EquipmentFormModal';
+import AssetTreeView from '../components/equipment/AssetTreeView';
 import QRScanner from '../components/qr/QRScanner';
+import ScanActionSheet from '../components/qr/ScanActionSheet';
+import LabelSheetDialog from '../components/qr/LabelSheetDialog';
+import QRCodeGenerator from '../components/equipment/QRCodeGenerator';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../components/ui/dialog';
 
 export default function EquipmentPage() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -17,11 +22,15 @@ export default function EquipmentPage() {
   const [criticalityFilter, setCriticalityFilter] = useState<string>('all');
   const [selectedEquipment, setSelectedEquipment] = useState<string | null>(null);
   const [showQRScanner, setShowQRScanner] = useState(false);
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
+  const [showLabelSheet, setShowLabelSheet] = useState(false);
+  const [labelLocationId, setLabelLocationId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [view, setView] = useState<'grid' | 'tree'>('grid');
 
   const { data: equipment, isLoading } = useEquipment();
 
-  const filteredEquipment = equipment?.filter(item => {
+  const matchesFilters = (item: Equipment) => {
     const matchesSearch = !searchQuery || 
       item.assetTag.toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -31,7 +40,9 @@ export default function EquipmentPage() {
     const matchesCriticality = criticalityFilter === 'all' || item.criticality === criticalityFilter;
 
     return matchesSearch && matchesStatus && matchesCriticality;
-  }) || [];
+  };
+
+  const filteredEquipment = equipment?.filter(matchesFilters) || [];
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -65,10 +76,7 @@ export default function EquipmentPage() {
 
   const handleQRScan = (result: string) => {
     setShowQRScanner(false);
-    const foundEquipment = equipment?.find(e => e.assetTag === result);
-    if (foundEquipment) {
-      setSelectedEquipment(foundEquipment.id);
-    }
+    setScannedCode(result);
   };
 
   return (
@@ -85,6 +93,33 @@ export default function EquipmentPage() {
             </p>
           </div>
           <div className="flex space-x-2 mt-4 sm:mt-0">
+            <div className="flex rounded-md border">
+              <Button
+                variant={view === 'grid' ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={() => setView('grid')}
+                aria-label="Grid view"
+              >
+                <LayoutGrid className="w-4 h-4" />
+              </Button>
+              <Button
+                variant={view === 'tree' ? 'secondary' : 'ghost'}
+                size="icon"
+                onClick={() => setView('tree')}
+                aria-label="Tree view"
+                data-testid="equipment-tree-view"
+              >
+                <ListTree className="w-4 h-4" />
+              </Button>
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => setShowLabelSheet(true)}
+              data-testid="print-labels-button"
+            >
+              <Printer className="w-4 h-4 mr-2" />
+              Print Labels
+            </Button>
             <Button 
               variant="outline" 
               onClick={() => setShowQRScanner(true)}
@@ -164,8 +199,17 @@ export default function EquipmentPage() {
           </CardContent>
         </Card>
 
+        {/* Equipment Tree */}
+        {view === 'tree' && (
+          <AssetTreeView
+            onSelect={setSelectedEquipment}
+            onLocationLabel={setLabelLocationId}
+            matches={searchQuery || statusFilter !== 'all' || criticalityFilter !== 'all' ? matchesFilters : undefined}
+          />
+        )}
+
         {/* Equipment Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {view === 'grid' && <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {isLoading ? (
             Array.from({ length: 6 }).map((_, i) => (
               <Card key={i} className="animate-pulse">
@@ -238,7 +282,7 @@ export default function EquipmentPage() {
               </Card>
             ))
           )}
-        </div>
+        </div>}
       </div>
 
       {/* Equipment Detail Modal */}
@@ -266,6 +310,28 @@ export default function EquipmentPage() {
           onScan={handleQRScan}
         />
       )}
+
+      {scannedCode && <ScanActionSheet code={scannedCode} onClose={() => setScannedCode(null)} />}
+
+      {showLabelSheet && (
+        <LabelSheetDialog
+          target="equipment"
+          filter={{ search: searchQuery, status: statusFilter, criticality: criticalityFilter }}
+          count={filteredEquipment.length}
+          onClose={() => setShowLabelSheet(false)}
+        />
+      )}
+
+      {labelLocationId && (
+        <Dialog open onOpenChange={(open) => !open && setLabelLocationId(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Location Label</DialogTitle>
+            </DialogHeader>
+            <QRCodeGenerator labelKind="location" entityId={labelLocationId} />
+          </DialogContent>
+        </Dialog>
+      )}
     </>
   );
 }
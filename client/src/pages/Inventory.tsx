@@ -3,13 +3,19 @@ import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
-import { Search, Plus, Package, AlertTriangle } from 'lucide-react';
+import { Search, Plus, Package, AlertTriangle, QrCode, Printer } from 'lucide-react';
 import { useParts, useLowStockParts } from '../hooks/useInventory';
 import { Part } from '../types';
+import WarehouseTransfers from '../components/inventory/WarehouseTransfers';
+import QRCodeGenerator from '../components/equipment/QRCodeGenerator';
+import LabelSheetDialog from '../components/qr/LabelSheetDialog';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../components/ui/dialog';
 
 export default function Inventory() {
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [labelPart, setLabelPart] = useState<Part | null>(null);
+  const [showLabelSheet, setShowLabelSheet] = useState(false);
 
   const { data: parts, isLoading } = useParts();
   const { data: lowStockParts } = useLowStockParts();
@@ -48,10 +54,16 @@ export default function Inventory() {
             Manage parts and inventory levels
           </p>
         </div>
-        <Button>
-          <Plus className="w-4 h-4 mr-2" />
-          Add Part
-        </Button>
+        <div className="flex items-center space-x-3 mt-4 sm:mt-0">
+          <Button variant="outline" onClick={() => setShowLabelSheet(true)}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print Bin Labels
+          </Button>
+          <Button>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Part
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -181,6 +193,7 @@ export default function Inventory() {
                     <th className="text-left py-3 px-4 font-medium text-gray-900">Status</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-900">Unit Cost</th>
                     <th className="text-left py-3 px-4 font-medium text-gray-900">Location</th>
+                    <th className="py-3 px-4" />
                   </tr>
                 </thead>
                 <tbody>
@@ -216,6 +229,11 @@ export default function Inventory() {
                         <td className="py-3 px-4 text-gray-700">
                           {part.location || '-'}
                         </td>
+                        <td className="py-3 px-4 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setLabelPart(part)} title="Print bin label">
+                            <QrCode className="w-4 h-4" />
+                          </Button>
+                        </td>
                       </tr>
                     );
                   })}
@@ -225,6 +243,28 @@ export default function Inventory() {
           )}
         </CardContent>
       </Card>
+
+      <WarehouseTransfers />
+
+      {labelPart && (
+        <Dialog open onOpenChange={(open) => !open && setLabelPart(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Bin Label · {labelPart.partNumber}</DialogTitle>
+            </DialogHeader>
+            <QRCodeGenerator labelKind="part" entityId={labelPart.id} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {showLabelSheet && (
+        <LabelSheetDialog
+          target="parts"
+          filter={{ search: searchQuery, category: categoryFilter }}
+          count={filteredParts.length}
+          onClose={() => setShowLabelSheet(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,269 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, Moon, Mail, Save, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Switch } from '../components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { useToast } from '../hooks/use-toast';
+import { PWAService } from '../services/pwa.service';
+import type { NotificationChannel, NotificationPreferences, NotificationType } from '@shared/schema';
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  wo_assigned: 'Work order assigned or escalated',
+  wo_overdue: 'Work order overdue',
+  part_low_stock: 'Part low on stock',
+  pm_due: 'Preventive maintenance due',
+  equipment_alert: 'Equipment alert',
+  vendor_document_expiring: 'Vendor document expiring',
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  socket: 'Live',
+  email: 'Email',
+  push: 'Push',
+};
+
+const requestHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+export default function NotificationSettings() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data, isLoading } = useQuery<{ preferences: NotificationPreferences; defaults: NotificationPreferences }>({
+    queryKey: ['/api/notifications/preferences'],
+    queryFn: async () => {
+      const response = await fetch('/api/notifications/preferences', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to load notification preferences');
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (data) setPreferences(data.preferences);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: NotificationPreferences) => {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: requestHeaders(),
+        body: JSON.stringify(updated),
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'Failed to save preferences');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/preferences'] });
+      toast({ title: 'Notification preferences saved' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const enablePush = async () => {
+    const enabled = await PWAService.getInstance().enablePushNotifications();
+    toast(enabled
+      ? { title: 'Push notifications enabled on this device' }
+      : { title: 'Push notifications are blocked', description: 'Allow notifications for this site in your browser settings.', variant: 'destructive' });
+  };
+
+  if (isLoading || !preferences) {
+    return <div className="animate-pulse h-64 bg-gray-100 rounded-lg" />;
+  }
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, value: boolean) => {
+    setPreferences({
+      ...preferences,
+      types: { ...preferences.types, [type]: { ...preferences.types[type]!, [channel]: value } },
+    });
+  };
+
+  const setQuietHours = (updates: Partial<NotificationPreferences['quietHours']>) => {
+    setPreferences({ ...preferences, quietHours: { ...preferences.quietHours, ...updates } });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">Notification Settings</h1>
+          <p className="text-gray-600 mt-1">Choose what reaches you, where, and when</p>
+        </div>
+        <div className="flex space-x-2 mt-4 sm:mt-0">
+          <Button variant="outline" onClick={() => data && setPreferences(data.defaults)}>
+            Reset to Defaults
+          </Button>
+          <Button onClick={() => saveMutation.mutate(preferences)} disabled={saveMutation.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Bell className="w-5 h-5" />
+            <span>Channels</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2 pr-4 font-medium">Notification</th>
+                {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                  <th key={channel} className="py-2 px-3 font-medium text-center">{CHANNEL_LABELS[channel]}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(TYPE_LABELS) as NotificationType[]).map(type => (
+                <tr key={type} className="border-b">
+                  <td className="py-3 pr-4">{TYPE_LABELS[type]}</td>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                    <td key={channel} className="py-3 px-3 text-center">
+                      <Switch
+                        checked={preferences.types[type]?.[channel] ?? false}
+                        onCheckedChange={(value) => setChannel(type, channel, value)}
+                        aria-label={`${TYPE_LABELS[type]} by ${CHANNEL_LABELS[channel]}`}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Mail className="w-5 h-5" />
+              <span>Email Delivery</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select
+              value={preferences.emailDelivery}
+              onValueChange={(value: NotificationPreferences['emailDelivery']) => setPreferences({ ...preferences, emailDelivery: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="immediate">As it happens</SelectItem>
+                <SelectItem value="digest">Daily digest</SelectItem>
+              </SelectContent>
+            </Select>
+            {preferences.emailDelivery === 'digest' && (
+              <div className="space-y-2">
+                <Label htmlFor="digest-hour">Send digest at</Label>
+                <Select
+                  value={String(preferences.digestHour)}
+                  onValueChange={(value) => setPreferences({ ...preferences, digestHour: parseInt(value) })}
+                >
+                  <SelectTrigger id="digest-hour">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 24 }, (_, hour) => (
+                      <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, '0')}:00`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Moon className="w-5 h-5" />
+              <span>Quiet Hours</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quiet-enabled">Hold push and email</Label>
+              <Switch
+                id="quiet-enabled"
+                checked={preferences.quietHours.enabled}
+                onCheckedChange={(enabled) => setQuietHours({ enabled })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="quiet-start">From</Label>
+                <Input
+                  id="quiet-start"
+                  type="time"
+                  value={preferences.quietHours.start}
+                  onChange={(e) => setQuietHours({ start: e.target.value })}
+                  disabled={!preferences.quietHours.enabled}
+                />
+              </div>
+              <div>
+                <Label htmlFor="quiet-end">Until</Label>
+                <Input
+                  id="quiet-end"
+                  type="time"
+                  value={preferences.quietHours.end}
+                  onChange={(e) => setQuietHours({ end: e.target.value })}
+                  disabled={!preferences.quietHours.enabled}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="quiet-urgent">Let critical escalations through</Label>
+              <Switch
+                id="quiet-urgent"
+                checked={preferences.quietHours.allowUrgent}
+                onCheckedChange={(allowUrgent) => setQuietHours({ allowUrgent })}
+                disabled={!preferences.quietHours.enabled}
+              />
+            </div>
+            <p className="text-xs text-gray-500">Times are in your warehouse's timezone.</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Smartphone className="w-5 h-5" />
+              <span>This Device</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Push notifications reach this device when the app is closed.
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={enablePush}>Enable Push</Button>
+              <Button variant="ghost" onClick={() => PWAService.getInstance().disablePushNotifications()}>
+                Disable
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
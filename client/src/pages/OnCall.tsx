@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { addDays, format, isSameDay, startOfWeek } from 'date-fns';
+import { CalendarDays, ChevronLeft, ChevronRight, Link as LinkIcon, PhoneCall } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Badge } from '../components/ui/badge';
+import { Button } from '../components/ui/button';
+import { useToast } from '../hooks/use-toast';
+import type { OnCallRole, OnCallRotation } from '@shared/schema';
+
+interface ScheduleShift {
+  rotationId: string;
+  role: OnCallRole;
+  userId: string;
+  userName: string;
+  startsAt: string;
+  endsAt: string;
+  source: 'rotation' | 'override' | 'swap';
+}
+
+interface OnCallScheduleData {
+  rotations: OnCallRotation[];
+  shifts: ScheduleShift[];
+}
+
+const ROLE_LABELS: Record<OnCallRole, string> = {
+  technician: 'Technician',
+  supervisor: 'Supervisor',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+const SOURCE_STYLES: Record<ScheduleShift['source'], string> = {
+  rotation: 'bg-blue-50 border-blue-200 text-blue-900',
+  override: 'bg-amber-50 border-amber-200 text-amber-900',
+  swap: 'bg-purple-50 border-purple-200 text-purple-900',
+};
+
+const requestHeaders = () => ({
+  'Authorization': 'Bearer demo-token',
+  'x-user-id': localStorage.getItem('userId') || 'default-user-id',
+  'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+});
+
+export default function OnCall() {
+  const { toast } = useToast();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const warehouseId = localStorage.getItem('warehouseId') || 'default-warehouse-id';
+  const userId = localStorage.getItem('userId') || 'default-user-id';
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  const { data: schedule, isLoading } = useQuery<OnCallScheduleData>({
+    queryKey: ['on-call-schedule', warehouseId, weekStart.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: addDays(weekStart, 7).toISOString() });
+      const response = await fetch(`/api/on-call/schedule/${warehouseId}?${params}`, { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to load on-call schedule');
+      return response.json();
+    },
+  });
+
+  const copyFeedLink = async () => {
+    try {
+      const response = await fetch('/api/on-call/feed-url', { headers: requestHeaders() });
+      if (!response.ok) throw new Error('Failed to create calendar link');
+      const { url } = await response.json();
+      await navigator.clipboard.writeText(`${window.location.origin}${url}`);
+      toast({ title: 'Calendar link copied', description: 'Add it to your calendar app as a subscription.' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const now = new Date();
+  const shiftsFor = (rotationId: string, day: Date) => (schedule?.shifts || []).filter(shift =>
+    shift.rotationId === rotationId && new Date(shift.startsAt) < addDays(day, 1) && new Date(shift.endsAt) > day
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">On-Call Schedule</h1>
+          <p className="text-gray-600">Who answers emergencies and escalations, by role</p>
+        </div>
+        <Button variant="outline" onClick={copyFeedLink}>
+          <LinkIcon className="w-4 h-4 mr-2" />
+          Subscribe to my shifts
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(schedule?.rotations || []).map(rotation => {
+          const current = schedule?.shifts.find(shift =>
+            shift.rotationId === rotation.id && new Date(shift.startsAt) <= now && new Date(shift.endsAt) > now
+          );
+          return (
+            <Card key={rotation.id}>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">{ROLE_LABELS[rotation.role]} on call</span>
+                  <PhoneCall className="w-4 h-4 text-green-600" />
+                </div>
+                <div className="text-lg font-semibold">{current ? current.userName : '—'}</div>
+                {current && (
+                  <div className="text-xs text-gray-500">until {format(new Date(current.endsAt), 'EEE HH:mm')}</div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center">
+              <CalendarDays className="w-5 h-5 mr-2" />
+              {format(weekStart, 'MMM d')} – {format(addDays(weekStart, 6), 'MMM d, yyyy')}
+            </CardTitle>
+            <div className="flex space-x-2">
+              <Button size="sm" variant="outline" onClick={() => setWeekStart(addDays(weekStart, -7))}>
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))}>
+                Today
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setWeekStart(addDays(weekStart, 7))}>
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="py-12 text-center text-muted-foreground">Loading schedule...</div>
+          ) : !schedule || schedule.rotations.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">No on-call rotations have been set up for this warehouse.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm table-fixed">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-2 w-32">Rotation</th>
+                    {days.map(day => (
+                      <th key={day.toISOString()} className={`py-2 px-1 ${isSameDay(day, now) ? 'text-blue-700' : ''}`}>
+                        {format(day, 'EEE d')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.rotations.map(rotation => (
+                    <tr key={rotation.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-2">
+                        <div className="font-medium">{rotation.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {ROLE_LABELS[rotation.role]} · {rotation.handoffFrequency} at {rotation.handoffTime}
+                        </div>
+                      </td>
+                      {days.map(day => (
+                        <td key={day.toISOString()} className="py-2 px-1 space-y-1">
+                          {shiftsFor(rotation.id, day).map(shift => (
+                            <div
+                              key={`${shift.startsAt}-${shift.userId}`}
+                              className={`rounded border px-1 py-0.5 text-xs ${SOURCE_STYLES[shift.source]} ${shift.userId === userId ? 'font-semibold' : ''}`}
+                            >
+                              <div className="truncate">{shift.userName}</div>
+                              {new Date(shift.startsAt) > day && (
+                                <div className="text-[10px] opacity-75">from {format(new Date(shift.startsAt), 'HH:mm')}</div>
+                              )}
+                            </div>
+                          ))}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="flex space-x-2 mt-4">
+                <Badge className={SOURCE_STYLES.rotation}>Scheduled</Badge>
+                <Badge className={SOURCE_STYLES.override}>Override</Badge>
+                <Badge className={SOURCE_STYLES.swap}>Swap</Badge>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
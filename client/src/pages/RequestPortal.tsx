@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Camera, CheckCircle, Wrench, X } from 'lucide-react';
+import type { WorkRequestSource, WorkRequestUrgency } from '../types';
+
+interface PortalContext {
+  source: WorkRequestSource;
+  warehouseName: string;
+  equipment: { id: string; assetTag: string; description: string | null; area: string | null } | null;
+  location: { id: string; name: string; path: string } | null;
+}
+
+interface SubmissionResult {
+  request: { reference: string };
+  statusToken: string;
+  alreadyReported: boolean;
+}
+
+const MAX_PHOTOS = 4;
+
+/**
+ * Public problem report form, opened by scanning an equipment or location label or from a kiosk link.
+ * No account is needed; the requester gets a private link to follow the request.
+ */
+export default function RequestPortal() {
+  const code = new URLSearchParams(window.location.search).get('code') ?? '';
+  const [form, setForm] = useState({ requesterName: '', requesterEmail: '', requesterPhone: '', description: '', area: '' });
+  const [urgency, setUrgency] = useState<WorkRequestUrgency>('medium');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<SubmissionResult | null>(null);
+
+  const { data: context, isLoading, error: contextError } = useQuery<PortalContext, Error>({
+    queryKey: ['/api/public/request-portal', code],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/request-portal?code=${encodeURIComponent(code)}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'This link is not valid');
+      }
+      return response.json();
+    },
+    enabled: !!code,
+    retry: false,
+  });
+
+  const addPhotos = (files: FileList | null) => {
+    if (!files) return;
+    setPhotos(current => [...current, ...Array.from(files)].slice(0, MAX_PHOTOS));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const body = new FormData();
+      body.append('code', code);
+      body.append('urgency', urgency);
+      Object.entries(form).forEach(([key, value]) => body.append(key, value));
+      photos.forEach(photo => body.append('photos', photo));
+
+      const response = await fetch('/api/public/work-requests', { method: 'POST', body });
+      if (!response.ok) {
+        const failure = await response.json().catch(() => ({}));
+        throw new Error(failure.message || 'Your request could not be sent');
+      }
+      setResult(await response.json());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const statusPath = result ? `/request/status/${result.statusToken}` : '';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-start sm:items-center justify-center py-8 px-4">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 bg-primary-500 rounded-xl flex items-center justify-center">
+            <Wrench className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Report a Problem</h1>
+          {context && <p className="mt-1 text-sm text-gray-600">{context.warehouseName} maintenance</p>}
+        </div>
+
+        {!code || contextError ? (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-gray-600">
+              {contextError?.message ?? 'Scan the label on the equipment, or use the kiosk link, to report a problem.'}
+            </CardContent>
+          </Card>
+        ) : isLoading || !context ? (
+          <p className="text-center text-sm text-gray-500">Loading...</p>
+        ) : result ? (
+          <Card>
+            <CardContent className="p-6 space-y-4 text-center">
+              <CheckCircle className="w-10 h-10 text-green-600 mx-auto" />
+              <div>
+                <p className="font-medium">Request {result.request.reference} sent</p>
+                <p className="text-sm text-gray-600 mt-1">
+                  {result.alreadyReported
+                    ? 'Maintenance is already working on this equipment; your report has been added for them to review.'
+                    : 'A supervisor will review it shortly.'}
+                </p>
+              </div>
+              <div className="bg-gray-50 border rounded p-3 text-left">
+                <p className="text-xs text-gray-500 mb-1">Keep this link to check on your request</p>
+                <p className="text-sm break-all font-mono">{window.location.origin}{statusPath}</p>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" className="flex-1" onClick={() => navigator.clipboard?.writeText(`${window.location.origin}${statusPath}`)}>
+                  Copy link
+                </Button>
+                <Link href={statusPath} className="flex-1">
+                  <Button className="w-full">Track request</Button>
+                </Link>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">
+                {context.equipment
+                  ? `${context.equipment.assetTag}${context.equipment.description ? ` · ${context.equipment.description}` : ''}`
+                  : context.location
+                    ? context.location.path
+                    : 'What needs attention?'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {error && (
+                  <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded text-sm">{error}</div>
+                )}
+
+                {!context.equipment && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Where is it?</label>
+                    <Input
+                      value={form.area}
+                      onChange={(e) => setForm({ ...form, area: e.target.value })}
+                      placeholder={context.location ? 'e.g. next to dock door 4' : 'Building, area or room'}
+                      required={!context.location}
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">What's wrong?</label>
+                  <Textarea
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                    placeholder="Describe the problem"
+                    rows={4}
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">How urgent is it?</label>
+                  <Select value={urgency} onValueChange={(value) => setUrgency(value as WorkRequestUrgency)}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low - when someone is free</SelectItem>
+                      <SelectItem value="medium">Medium - affecting work</SelectItem>
+                      <SelectItem value="high">High - stopped or unsafe</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Photos (optional)</label>
+                  <div className="flex flex-wrap gap-2">
+                    {photos.map((photo, index) => (
+                      <div key={index} className="relative">
+                        <img src={URL.createObjectURL(photo)} alt={photo.name} className="w-16 h-16 object-cover rounded border" />
+                        <button
+                          type="button"
+                          className="absolute -top-1 -right-1 bg-white rounded-full border p-0.5"
+                          onClick={() => setPhotos(photos.filter((_, i) => i !== index))}
+                          aria-label="Remove photo"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </div>
+                    ))}
+                    {photos.length < MAX_PHOTOS && (
+                      <label className="w-16 h-16 border-2 border-dashed rounded flex items-center justify-center cursor-pointer text-gray-400">
+                        <Camera className="w-5 h-5" />
+                        <input
+                          type="file"
+                          accept="image/*"
+                          capture="environment"
+                          multiple
+                          className="hidden"
+                          onChange={(e) => addPhotos(e.target.files)}
+                        />
+                      </label>
+                    )}
+                  </div>
+                </div>
+
+                <div className="border-t pt-4 space-y-3">
+                  <Input
+                    value={form.requesterName}
+                    onChange={(e) => setForm({ ...form, requesterName: e.target.value })}
+                    placeholder="Your name"
+                    required
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="email"
+                      value={form.requesterEmail}
+                      onChange={(e) => setForm({ ...form, requesterEmail: e.target.value })}
+                      placeholder="Email (optional)"
+                    />
+                    <Input
+                      type="tel"
+                      value={form.requesterPhone}
+                      onChange={(e) => setForm({ ...form, requesterPhone: e.target.value })}
+                      placeholder="Phone (optional)"
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Sending...' : 'Send request'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
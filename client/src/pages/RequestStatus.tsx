@@ -0,0 +1,106 @@
+import { useQuery } from '@tanstack/react-query';
+import { useParams } from 'wouter';
+import { format } from 'date-fns';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Wrench } from 'lucide-react';
+import type { WorkOrder, WorkRequestStatus } from '../types';
+
+interface RequestStatusView {
+  reference: string;
+  status: WorkRequestStatus;
+  description: string;
+  assetTag: string | null;
+  area: string | null;
+  submittedAt: string | null;
+  decidedAt: string | null;
+  decisionReason: string | null;
+  workOrder: { foNumber: string; status: WorkOrder['status'] } | null;
+}
+
+const WORK_ORDER_PROGRESS: Record<WorkOrder['status'], string> = {
+  new: 'Scheduled',
+  assigned: 'Assigned to a technician',
+  in_progress: 'Being worked on',
+  completed: 'Fixed',
+  verified: 'Fixed',
+  closed: 'Fixed',
+};
+
+const describe = (request: RequestStatusView): { label: string; color: string } => {
+  if (request.status === 'pending') return { label: 'Waiting for review', color: 'bg-yellow-100 text-yellow-800' };
+  if (request.status === 'awaiting_approval') return { label: 'Waiting for approval', color: 'bg-yellow-100 text-yellow-800' };
+  if (request.status === 'rejected') return { label: 'Not actioned', color: 'bg-gray-100 text-gray-800' };
+  const progress = request.workOrder ? WORK_ORDER_PROGRESS[request.workOrder.status] : 'Accepted';
+  return { label: progress, color: progress === 'Fixed' ? 'bg-green-100 text-green-800' : 'bg-blue-100 text-blue-800' };
+};
+
+/**
+ * What happened to a portal request, for whoever holds its status link
+ */
+export default function RequestStatus() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: request, isLoading, error } = useQuery<RequestStatusView, Error>({
+    queryKey: ['/api/public/work-requests', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/public/work-requests/${encodeURIComponent(token ?? '')}`);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || 'Request not found');
+      }
+      return response.json();
+    },
+    retry: false,
+  });
+
+  const state = request ? describe(request) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-start sm:items-center justify-center py-8 px-4">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 bg-primary-500 rounded-xl flex items-center justify-center">
+            <Wrench className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="mt-4 text-2xl font-bold text-gray-900">Request Status</h1>
+        </div>
+
+        {isLoading && <p className="text-center text-sm text-gray-500">Loading...</p>}
+        {error && (
+          <Card>
+            <CardContent className="p-6 text-center text-sm text-gray-600">{error.message}</CardContent>
+          </Card>
+        )}
+        {request && state && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-base">{request.reference}</CardTitle>
+                <Badge className={state.color}>{state.label}</Badge>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <p>{request.description}</p>
+              <div className="text-gray-500 space-y-1">
+                {request.assetTag && <div>Equipment: {request.assetTag}</div>}
+                {request.area && <div>Location: {request.area}</div>}
+                {request.submittedAt && <div>Sent {format(new Date(request.submittedAt), 'MMM d, yyyy h:mm a')}</div>}
+                {request.workOrder && <div>Work order {request.workOrder.foNumber}</div>}
+              </div>
+              {request.status === 'merged' && (
+                <p className="text-gray-600">This problem was already being handled, so your report was added to the existing job.</p>
+              )}
+              {request.status === 'rejected' && request.decisionReason && (
+                <div className="bg-gray-50 border rounded p-3">
+                  <p className="text-xs text-gray-500 mb-1">Reason</p>
+                  <p>{request.decisionReason}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
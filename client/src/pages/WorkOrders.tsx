@@ -3,16 +3,37 @@ import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
-import { Search, Filter, Plus } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { Search, Filter, Plus, ClipboardList, Inbox } from 'lucide-react';
 import { useWorkOrders } from '../hooks/useWorkOrders';
 import { WorkOrderFilters } from '../types';
 import WorkOrderCard from '../components/work-orders/WorkOrderCard';
 import WorkOrderModal from '../components/work-orders/WorkOrderModal';
+import WorkOrderDetailView from '../components/work-orders/WorkOrderDetailView';
+import { Dialog, DialogContent } from '../components/ui/dialog';
+import WorkRequestQueue from '../components/work-requests/WorkRequestQueue';
+import NewWorkRequestDialog from '../components/work-requests/NewWorkRequestDialog';
+import KioskLinkCard from '../components/work-requests/KioskLinkCard';
+import ApprovalThresholdsCard from '../components/work-requests/ApprovalThresholdsCard';
 
 export default function WorkOrders() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showRequestDialog, setShowRequestDialog] = useState(false);
+  // Portal and staff requests wait in the triage tab until a supervisor approves, merges or rejects them
+  const [tab, setTab] = useState(() => new URLSearchParams(window.location.search).get('tab') === 'triage' ? 'triage' : 'work-orders');
   const [filters, setFilters] = useState<WorkOrderFilters>({});
+  // Push notifications deep link here with ?workOrderId=
+  const [selectedWorkOrderId, setSelectedWorkOrderId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('workOrderId')
+  );
+
+  const closeWorkOrderDetail = () => {
+    setSelectedWorkOrderId(null);
+    if (window.location.search) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  };
 
   const { data: workOrders, isLoading } = useWorkOrders(filters);
 
@@ -50,122 +71,169 @@ export default function WorkOrders() {
               Manage and track all maintenance work orders
             </p>
           </div>
-          <Button 
-            onClick={() => setShowCreateModal(true)} 
-            className="mt-4 sm:mt-0"
-            data-testid="create-work-order-button"
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            New Work Order
-          </Button>
+          <div className="flex space-x-2 mt-4 sm:mt-0">
+            <Button variant="outline" onClick={() => setShowRequestDialog(true)}>
+              <Inbox className="w-4 h-4 mr-2" />
+              New Request
+            </Button>
+            <Button 
+              onClick={() => setShowCreateModal(true)} 
+              data-testid="create-work-order-button"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Work Order
+            </Button>
+          </div>
         </div>
 
-        {/* Filters and Search */}
-        <Card className="mb-6">
-          <CardHeader>
-            <CardTitle className="text-lg font-semibold">Filters</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              {/* Search */}
-              <div className="relative">
-                <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
-                <Input
-                  placeholder="Search work orders..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-10"
-                  data-testid="search-input"
-                />
-              </div>
+        <Tabs value={tab} onValueChange={setTab} className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="work-orders" className="flex items-center space-x-2">
+              <ClipboardList className="w-4 h-4" />
+              <span>Work Orders</span>
+            </TabsTrigger>
+            <TabsTrigger value="triage" className="flex items-center space-x-2">
+              <Inbox className="w-4 h-4" />
+              <span>Triage</span>
+            </TabsTrigger>
+          </TabsList>
 
-              {/* Status Filter */}
-              <Select onValueChange={handleStatusFilter}>
-                <SelectTrigger data-testid="status-filter">
-                  <SelectValue placeholder="All Status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="new">New</SelectItem>
-                  <SelectItem value="assigned">Assigned</SelectItem>
-                  <SelectItem value="in_progress">In Progress</SelectItem>
-                  <SelectItem value="completed">Completed</SelectItem>
-                  <SelectItem value="verified">Verified</SelectItem>
-                  <SelectItem value="closed">Closed</SelectItem>
-                </SelectContent>
-              </Select>
-
-              {/* Priority Filter */}
-              <Select onValueChange={handlePriorityFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="All Priority" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Priority</SelectItem>
-                  <SelectItem value="low">Low</SelectItem>
-                  <SelectItem value="medium">Medium</SelectItem>
-                  <SelectItem value="high">High</SelectItem>
-                  <SelectItem value="critical">Critical</SelectItem>
-                </SelectContent>
-              </Select>
-
-              {/* Clear Filters */}
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setFilters({});
-                  setSearchQuery('');
-                }}
-              >
-                <Filter className="w-4 h-4 mr-2" />
-                Clear
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Work Orders List */}
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle>
-                Work Orders ({filteredWorkOrders.length})
-              </CardTitle>
-            </div>
-          </CardHeader>
-          <CardContent>
-            {isLoading ? (
-              <div className="space-y-4">
-                {Array.from({ length: 5 }).map((_, i) => (
-                  <div key={i} className="animate-pulse p-4 border rounded-lg">
-                    <div className="h-6 bg-gray-200 rounded w-3/4 mb-2"></div>
-                    <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          <TabsContent value="work-orders">
+            {/* Filters and Search */}
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle className="text-lg font-semibold">Filters</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {/* Search */}
+                  <div className="relative">
+                    <Search className="absolute left-3 top-2.5 w-4 h-4 text-gray-400" />
+                    <Input
+                      placeholder="Search work orders..."
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      className="pl-10"
+                      data-testid="search-input"
+                    />
                   </div>
-                ))}
-              </div>
-            ) : filteredWorkOrders.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-gray-500 mb-4">
-                  {searchQuery || Object.keys(filters).length > 0
-                    ? 'No work orders found matching your criteria'
-                    : 'No work orders found'
-                  }
-                </p>
-                <Button onClick={() => setShowCreateModal(true)}>
-                  Create First Work Order
-                </Button>
+
+                  {/* Status Filter */}
+                  <Select onValueChange={handleStatusFilter}>
+                    <SelectTrigger data-testid="status-filter">
+                      <SelectValue placeholder="All Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      <SelectItem value="new">New</SelectItem>
+                      <SelectItem value="assigned">Assigned</SelectItem>
+                      <SelectItem value="in_progress">In Progress</SelectItem>
+                      <SelectItem value="completed">Completed</SelectItem>
+                      <SelectItem value="verified">Verified</SelectItem>
+                      <SelectItem value="closed">Closed</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {/* Priority Filter */}
+                  <Select onValueChange={handlePriorityFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="All Priority" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Priority</SelectItem>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  {/* Clear Filters */}
+                  <Button 
+                    variant="outline" 
+                    onClick={() => {
+                      setFilters({});
+                      setSearchQuery('');
+                    }}
+                  >
+                    <Filter className="w-4 h-4 mr-2" />
+                    Clear
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Work Orders List */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>
+                    Work Orders ({filteredWorkOrders.length})
+                  </CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-4">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <div key={i} className="animate-pulse p-4 border rounded-lg">
+                        <div className="h-6 bg-gray-200 rounded w-3/4 mb-2"></div>
+                        <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                      </div>
+                    ))}
+                  </div>
+                ) : filteredWorkOrders.length === 0 ? (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500 mb-4">
+                      {searchQuery || Object.keys(filters).length > 0
+                        ? 'No work orders found matching your criteria'
+                        : 'No work orders found'
+                      }
+                    </p>
+                    <Button onClick={() => setShowCreateModal(true)}>
+                      Create First Work Order
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {filteredWorkOrders.map((workOrder) => (
+                      <WorkOrderCard
+                        key={workOrder.id}
+                        workOrder={workOrder}
+                        onClick={() => setSelectedWorkOrderId(workOrder.id)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="triage">
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2">
+                <WorkRequestQueue />
               </div>
-            ) : (
-              <div className="space-y-4">
-                {filteredWorkOrders.map((workOrder) => (
-                  <WorkOrderCard key={workOrder.id} workOrder={workOrder} />
-                ))}
+              <div className="space-y-6">
+                <ApprovalThresholdsCard />
+                <KioskLinkCard />
               </div>
-            )}
-          </CardContent>
-        </Card>
+            </div>
+          </TabsContent>
+        </Tabs>
       </div>
 
+      {/* Work Order Detail */}
+      {selectedWorkOrderId && (
+        <Dialog open onOpenChange={(open) => !open && closeWorkOrderDetail()}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <WorkOrderDetailView workOrderId={selectedWorkOrderId} onClose={closeWorkOrderDetail} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {showRequestDialog && <NewWorkRequestDialog onClose={() => { setShowRequestDialog(false); setTab('triage'); }} />}
+
       {/* Create Work Order Modal */}
       {showCreateModal && (
         <WorkOrderModal
@@ -2,12 +2,17 @@
  * Offline service for managing data synchronization and offline capabilities
  */
 
+type SyncTable = 'work_orders' | 'work_order_checklist_items' | 'parts_usage' | 'labor_time';
+
 interface OfflineAction {
-  id: string;
+  id: string; // also the idempotency key, so a replayed action is applied only once
   type: 'create' | 'update' | 'delete';
-  table: string;
+  table: SyncTable;
   data: any;
   timestamp: number;
+  baseVersion?: number; // row version the change was made against
+  base?: Record<string, any>; // values of the changed fields at that version
+  sent?: boolean; // the server may already hold this idempotency key, so the action must not change
 }
 
 interface NetworkStatus {
@@ -16,14 +21,54 @@ interface NetworkStatus {
   connectionType?: string;
 }
 
+export interface SyncFieldConflict {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+interface SyncResult {
+  idempotencyKey: string;
+  status: 'applied' | 'merged' | 'conflict' | 'rejected';
+  entity: SyncTable;
+  entityId?: string;
+  clientEntityId?: string;
+  version?: number;
+  record?: Record<string, any>;
+  conflicts?: SyncFieldConflict[];
+  error?: string;
+}
+
+/** A change the server could not merge, waiting for the technician to decide */
+export interface SyncConflict {
+  id: string;
+  table: SyncTable;
+  entityId?: string;
+  version?: number;
+  record?: Record<string, any>;
+  conflicts: SyncFieldConflict[];
+  error?: string; // set when the server rejected the change outright
+  detectedAt: number;
+}
+
+const DB_NAME = 'maintainpro_offline';
+const DB_VERSION = 1;
+const ACTIONS_STORE = 'actions';
+const CONFLICTS_STORE = 'conflicts';
+const SYNC_BATCH_SIZE = 50;
+
 class OfflineService {
   private actions: OfflineAction[] = [];
+  private conflicts: SyncConflict[] = [];
   private networkStatus: NetworkStatus = { isOnline: navigator.onLine };
   private syncInProgress = false;
-  private storageKey = 'maintainpro_offline_actions';
+  private legacyStorageKey = 'maintainpro_offline_actions';
+  private db: Promise<IDBDatabase | null>;
 
   constructor() {
-    this.loadActionsFromStorage();
+    this.db = this.openDatabase();
+    this.loadFromDatabase();
     this.setupNetworkListeners();
     this.setupPeriodicSync();
   }
@@ -68,24 +113,83 @@ class OfflineService {
     return connection?.effectiveType || 'unknown';
   }
 
-  private loadActionsFromStorage() {
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB is not available; offline changes will not survive a reload');
+      return Promise.resolve(null);
+    }
+    return new Promise(resolve => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ACTIONS_STORE)) {
+          db.createObjectStore(ACTIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CONFLICTS_STORE)) {
+          db.createObjectStore(CONFLICTS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Failed to open offline database:', request.error);
+        resolve(null);
+      };
+    });
+  }
+
+  private async withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T> | void,
+  ): Promise<T | undefined> {
+    const db = await this.db;
+    if (!db) return undefined;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async loadFromDatabase() {
     try {
-      const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        this.actions = JSON.parse(stored);
+      // Carry over anything queued by the localStorage-based queue before the upgrade
+      const legacy = localStorage.getItem(this.legacyStorageKey);
+      if (legacy) {
+        const legacyActions = JSON.parse(legacy) as OfflineAction[];
+        for (const action of legacyActions) {
+          await this.withStore(ACTIONS_STORE, 'readwrite', store => store.put({ ...action, id: this.generateId() }));
+        }
+        localStorage.removeItem(this.legacyStorageKey);
+      }
+
+      const actions = await this.withStore<OfflineAction[]>(ACTIONS_STORE, 'readonly', store => store.getAll());
+      const conflicts = await this.withStore<SyncConflict[]>(CONFLICTS_STORE, 'readonly', store => store.getAll());
+      // Keep anything queued while the database was opening
+      const loadedIds = new Set((actions || []).map(a => a.id));
+      this.actions = [...(actions || []), ...this.actions.filter(a => !loadedIds.has(a.id))];
+      this.conflicts = conflicts || [];
+
+      if (this.conflicts.length > 0) {
+        this.broadcastConflicts();
+      }
+      if (this.networkStatus.isOnline && this.actions.length > 0) {
+        this.syncActions();
       }
     } catch (error) {
       console.error('Failed to load offline actions:', error);
-      this.actions = [];
     }
   }
 
-  private saveActionsToStorage() {
-    try {
-      localStorage.setItem(this.storageKey, JSON.stringify(this.actions));
-    } catch (error) {
-      console.error('Failed to save offline actions:', error);
-    }
+  private saveAction(action: OfflineAction) {
+    this.withStore(ACTIONS_STORE, 'readwrite', store => store.put(action))
+      .catch(error => console.error('Failed to save offline action:', error));
+  }
+
+  private removeActions(ids: string[]) {
+    this.withStore(ACTIONS_STORE, 'readwrite', store => { ids.forEach(id => store.delete(id)); })
+      .catch(error => console.error('Failed to remove synced actions:', error));
   }
 
   private broadcastNetworkStatus() {
@@ -95,17 +199,39 @@ class OfflineService {
     window.dispatchEvent(event);
   }
 
-  private async broadcastSyncComplete() {
+  private async broadcastSyncComplete(syncedActions: number) {
     const event = new CustomEvent('offlineSyncComplete', {
-      detail: { syncedActions: this.actions.length }
+      detail: { syncedActions }
     });
     window.dispatchEvent(event);
   }
 
+  private broadcastConflicts() {
+    window.dispatchEvent(new CustomEvent('offlineSyncConflict', {
+      detail: { conflicts: this.conflicts.length }
+    }));
+  }
+
   /**
-   * Queue an action to be performed when online
+   * Queue an action to be performed when online. Pass the row version and the current
+   * values of the fields being changed so the server can merge against concurrent edits.
    */
   queueAction(action: Omit<OfflineAction, 'id' | 'timestamp'>) {
+    // Fold repeated edits of one record into a single update against the version first seen,
+    // otherwise the later edit would look like it conflicts with the earlier one
+    const pending = action.type === 'update' && !this.syncInProgress
+      ? this.actions.find(a => !a.sent && a.type === 'update' && a.table === action.table && a.data?.id === action.data?.id)
+      : undefined;
+    if (pending) {
+      pending.data = { ...pending.data, ...action.data };
+      pending.base = { ...(action.base || {}), ...(pending.base || {}) };
+      this.saveAction(pending);
+      if (this.networkStatus.isOnline) {
+        this.syncActions();
+      }
+      return pending.id;
+    }
+
     const offlineAction: OfflineAction = {
       ...action,
       id: this.generateId(),
@@ -113,7 +239,7 @@ class OfflineService {
     };
 
     this.actions.push(offlineAction);
-    this.saveActionsToStorage();
+    this.saveAction(offlineAction);
 
     // Try to sync immediately if online
     if (this.networkStatus.isOnline && !this.syncInProgress) {
@@ -144,6 +270,51 @@ class OfflineService {
     return [...this.actions];
   }
 
+  /**
+   * Changes the server sent back for the technician to resolve
+   */
+  getConflicts(): SyncConflict[] {
+    return [...this.conflicts];
+  }
+
+  /**
+   * Settle a conflict field by field: 'mine' re-sends the device's value against the
+   * server's current version, 'theirs' keeps what is on the server
+   */
+  resolveConflict(conflictId: string, choices: Record<string, 'mine' | 'theirs'>) {
+    const conflict = this.conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    const changes: Record<string, unknown> = {};
+    for (const field of conflict.conflicts) {
+      if (choices[field.field] === 'mine') {
+        changes[field.field] = field.mine;
+      }
+    }
+
+    if (Object.keys(changes).length > 0 && conflict.entityId) {
+      const base = Object.fromEntries(Object.keys(changes).map(field => [field, conflict.record?.[field] ?? null]));
+      this.queueAction({
+        type: 'update',
+        table: conflict.table,
+        data: { id: conflict.entityId, ...changes },
+        baseVersion: conflict.version,
+        base,
+      });
+    }
+    this.dismissConflict(conflictId);
+  }
+
+  /**
+   * Drop a conflict or rejected change without re-sending it
+   */
+  dismissConflict(conflictId: string) {
+    this.conflicts = this.conflicts.filter(c => c.id !== conflictId);
+    this.withStore(CONFLICTS_STORE, 'readwrite', store => store.delete(conflictId))
+      .catch(error => console.error('Failed to remove sync conflict:', error));
+    this.broadcastConflicts();
+  }
+
   /**
    * Force sync all pending actions
    */
@@ -160,11 +331,14 @@ class OfflineService {
    */
   clearPendingActions() {
     this.actions = [];
-    this.saveActionsToStorage();
+    this.withStore(ACTIONS_STORE, 'readwrite', store => store.clear())
+      .catch(error => console.error('Failed to clear offline actions:', error));
   }
 
   /**
-   * Sync all pending actions with the server
+   * Send pending actions to /api/sync in the order they were made. The server answers each one:
+   * applied and merged actions are done, conflicts and rejections are kept for the technician,
+   * and a network or server failure leaves the queue untouched for the next attempt.
    */
   private async syncActions(): Promise<boolean> {
     if (this.syncInProgress || !this.networkStatus.isOnline || this.actions.length === 0) {
@@ -173,32 +347,62 @@ class OfflineService {
 
     this.syncInProgress = true;
     let syncedCount = 0;
-    const failedActions: OfflineAction[] = [];
+    let newConflicts = 0;
 
     try {
-      // Process actions in chronological order
-      const sortedActions = [...this.actions].sort((a, b) => a.timestamp - b.timestamp);
-
-      for (const action of sortedActions) {
-        try {
-          await this.performAction(action);
-          syncedCount++;
-        } catch (error) {
-          console.error('Failed to sync action:', action, error);
-          failedActions.push(action);
+      while (this.actions.length > 0) {
+        const batch = [...this.actions]
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(0, SYNC_BATCH_SIZE);
+        batch.forEach(action => {
+          if (!action.sent) {
+            action.sent = true;
+            this.saveAction(action);
+          }
+        });
+
+        const response = await fetch('/api/sync', {
+          method: 'POST',
+          headers: this.requestHeaders(),
+          body: JSON.stringify({ mutations: batch.map(action => this.toMutation(action)) }),
+        });
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`HTTP ${response.status}: ${errorText}`);
         }
-      }
 
-      // Keep only failed actions
-      this.actions = failedActions;
-      this.saveActionsToStorage();
+        const { results } = await response.json() as { results: SyncResult[] };
+        const done = new Set<string>();
+        for (const result of results) {
+          const action = batch.find(a => a.id === result.idempotencyKey);
+          if (!action) continue;
+          done.add(action.id);
+
+          if (result.status === 'conflict' || result.status === 'rejected') {
+            this.addConflict(action, result);
+            newConflicts++;
+          } else {
+            syncedCount++;
+          }
+          if (result.clientEntityId && result.entityId && result.clientEntityId !== result.entityId) {
+            this.replaceTemporaryId(result.clientEntityId, result.entityId);
+          }
+        }
+
+        this.actions = this.actions.filter(a => !done.has(a.id));
+        this.removeActions(Array.from(done));
+        if (done.size === 0) break;
+      }
 
       if (syncedCount > 0) {
         console.log(`Synced ${syncedCount} offline actions`);
-        this.broadcastSyncComplete();
+        this.broadcastSyncComplete(syncedCount);
+      }
+      if (newConflicts > 0) {
+        this.broadcastConflicts();
       }
 
-      return failedActions.length === 0;
+      return this.actions.length === 0 && newConflicts === 0;
     } catch (error) {
       console.error('Sync process failed:', error);
       return false;
@@ -207,73 +411,63 @@ class OfflineService {
     }
   }
 
-  /**
-   * Perform a single action against the server
-   */
-  private async performAction(action: OfflineAction): Promise<void> {
-    const { type, table, data } = action;
-    let url = '';
-    let method = '';
-    let body: any = null;
-
-    switch (type) {
-      case 'create':
-        if (table === 'work_order_checklist_items') {
-          url = `/api/work-orders/${data.workOrderId}/checklist`;
-          method = 'POST';
-          body = data;
-        } else if (table === 'parts_usage') {
-          url = `/api/work-orders/${data.workOrderId}/parts-usage`;
-          method = 'POST';
-          body = data;
-        } else {
-          url = `/api/${table}`;
-          method = 'POST';
-          body = data;
-        }
-        break;
-
-      case 'update':
-        if (table === 'work_order_checklist_items') {
-          url = `/api/work-orders/checklist/${data.id}`;
-          method = 'PATCH';
-          body = data;
-        } else if (table === 'work_orders') {
-          url = `/api/work-orders/${data.id}`;
-          method = 'PATCH';
-          body = data;
-        } else {
-          url = `/api/${table}/${data.id}`;
-          method = 'PATCH';
-          body = data;
-        }
-        break;
+  private toMutation(action: OfflineAction) {
+    const { id, ...changes } = action.data || {};
+    return {
+      idempotencyKey: action.id,
+      entity: action.table,
+      op: action.type,
+      entityId: id,
+      baseVersion: action.baseVersion,
+      base: action.base,
+      changes: action.type === 'delete' ? {} : changes,
+      clientTimestamp: action.timestamp,
+    };
+  }
 
-      case 'delete':
-        url = `/api/${table}/${data.id}`;
-        method = 'DELETE';
-        break;
+  private addConflict(action: OfflineAction, result: SyncResult) {
+    const conflict: SyncConflict = {
+      id: action.id,
+      table: action.table,
+      entityId: result.entityId || action.data?.id,
+      version: result.version,
+      record: result.record,
+      conflicts: result.conflicts || [],
+      error: result.status === 'rejected' ? result.error : undefined,
+      detectedAt: Date.now(),
+    };
+    this.conflicts.push(conflict);
+    this.withStore(CONFLICTS_STORE, 'readwrite', store => store.put(conflict))
+      .catch(error => console.error('Failed to save sync conflict:', error));
+  }
 
-      default:
-        throw new Error(`Unknown action type: ${type}`);
+  /** Point queued follow-up actions at the server id of a record created offline */
+  private replaceTemporaryId(temporaryId: string, serverId: string) {
+    for (const action of this.actions) {
+      if (action.data?.id !== temporaryId && action.data?.workOrderId !== temporaryId) continue;
+      action.data = {
+        ...action.data,
+        ...(action.data.id === temporaryId ? { id: serverId } : {}),
+        ...(action.data.workOrderId === temporaryId ? { workOrderId: serverId } : {}),
+      };
+      this.saveAction(action);
     }
+  }
 
-    const response = await fetch(url, {
-      method,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: body ? JSON.stringify(body) : null,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
+  private requestHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      'x-user-id': localStorage.getItem('userId') || '',
+      'x-warehouse-id': localStorage.getItem('warehouseId') || 'default-warehouse-id',
+    };
   }
 
   private generateId(): string {
-    return `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `offline_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 }
 
@@ -287,7 +481,10 @@ export function useOfflineService() {
     getNetworkStatus: offlineService.getNetworkStatus.bind(offlineService),
     getPendingActionsCount: offlineService.getPendingActionsCount.bind(offlineService),
     getPendingActions: offlineService.getPendingActions.bind(offlineService),
+    getConflicts: offlineService.getConflicts.bind(offlineService),
+    resolveConflict: offlineService.resolveConflict.bind(offlineService),
+    dismissConflict: offlineService.dismissConflict.bind(offlineService),
     forceSync: offlineService.forceSync.bind(offlineService),
     clearPendingActions: offlineService.clearPendingActions.bind(offlineService),
   };
-}
\ No newline at end of file
+}
@@ -151,25 +151,86 @@ export class PWAService {
       console.log('Notification permission:', permission);
       
       if (permission === 'granted' && this.registration) {
-        // Subscribe to push notifications
-        try {
-          const subscription = await this.registration.pushManager.subscribe({
-            userVisibleOnly: true,
-            applicationServerKey: this.urlBase64ToUint8Array(
-              // VAPID public key would go here in production
-              'YOUR_VAPID_PUBLIC_KEY'
-            )
-          });
-          
-          // Send subscription to server
-          await this.sendSubscriptionToServer(subscription);
-        } catch (error) {
-          console.log('Push subscription failed:', error);
-        }
+        await this.subscribeToPush();
+      }
+    }
+  }
+
+  /**
+   * Subscribe this device to push notifications, reusing an existing subscription
+   * when it was made with the server's current VAPID key
+   */
+  private async subscribeToPush(): Promise<void> {
+    if (!this.registration) return;
+
+    try {
+      const response = await fetch('/api/push/vapid-public-key');
+      if (!response.ok) {
+        throw new Error('Failed to fetch VAPID public key');
       }
+      const { publicKey } = await response.json();
+      const applicationServerKey = this.urlBase64ToUint8Array(publicKey);
+
+      let subscription = await this.registration.pushManager.getSubscription();
+      if (subscription && !this.hasSameKey(subscription, applicationServerKey)) {
+        // The server's keys changed, so the old subscription can no longer be used
+        await subscription.unsubscribe();
+        subscription = null;
+      }
+
+      if (!subscription) {
+        subscription = await this.registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey
+        });
+      }
+
+      // Send subscription to server
+      await this.sendSubscriptionToServer(subscription);
+    } catch (error) {
+      console.log('Push subscription failed:', error);
     }
   }
 
+  /**
+   * Ask for permission and subscribe this device to push notifications
+   */
+  async enablePushNotifications(): Promise<boolean> {
+    const permission = await this.requestNotificationPermission();
+    if (permission !== 'granted' || !('PushManager' in window)) {
+      return false;
+    }
+    await this.subscribeToPush();
+    return true;
+  }
+
+  /**
+   * Stop push notifications on this device
+   */
+  async disablePushNotifications(): Promise<void> {
+    const subscription = await this.registration?.pushManager.getSubscription();
+    if (!subscription) return;
+
+    try {
+      await fetch('/api/push/unsubscribe', {
+        method: 'POST',
+        headers: this.pushRequestHeaders(),
+        body: JSON.stringify({ endpoint: subscription.endpoint })
+      });
+    } catch (error) {
+      console.error('Failed to remove subscription from server:', error);
+    }
+    await subscription.unsubscribe();
+  }
+
+  private hasSameKey(subscription: PushSubscription, applicationServerKey: Uint8Array): boolean {
+    const existingKey = subscription.options?.applicationServerKey;
+    if (!existingKey) return false;
+    const existing = new Uint8Array(existingKey);
+    return existing.length === applicationServerKey.length &&
+      existing.every((byte, i) => byte === applicationServerKey[i]);
+  }
+
   /**
    * Request install prompt
    */
@@ -384,17 +445,29 @@ export class PWAService {
    */
   private async sendSubscriptionToServer(subscription: PushSubscription): Promise<void> {
     try {
-      await fetch('/api/push/subscribe', {
+      const response = await fetch('/api/push/subscribe', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: this.pushRequestHeaders(),
         body: JSON.stringify(subscription)
       });
+      if (!response.ok) {
+        throw new Error(`Server rejected subscription (${response.status})`);
+      }
       console.log('Push subscription sent to server');
     } catch (error) {
       console.error('Failed to send subscription to server:', error);
     }
   }
 
+  private pushRequestHeaders(): Record<string, string> {
+    const token = localStorage.getItem('authToken');
+    return {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      'x-user-id': localStorage.getItem('userId') || '',
+    };
+  }
+
   /**
    * Install the app
    */
@@ -10,7 +10,19 @@ export interface WorkOrderChecklistItem {
   status: 'pending' | 'done' | 'skipped' | 'issue';
   notes?: string;
   sortOrder: number;
+  version?: number; // row version, sent with offline changes for conflict detection
   createdAt: string;
+  // Typed readings, with limits copied from the PM template
+  itemType?: 'check' | 'numeric' | 'boolean' | 'choice';
+  unit?: string | null;
+  minValue?: string | null; // decimals arrive as strings
+  maxValue?: string | null;
+  expectedBoolean?: boolean | null;
+  options?: { value: string; acceptable: boolean }[] | null;
+  value?: string | null;
+  withinLimits?: boolean | null;
+  recordedAt?: string | null;
+  followUpWorkOrderId?: string | null; // corrective work order raised for this failure
   // Enhanced fields for mobile execution
   hasPhotoRequired?: boolean;
   hasSignoffRequired?: boolean;
@@ -0,0 +1,14 @@
+-- Create work_order_status_history table for lifecycle transitions
+CREATE TABLE IF NOT EXISTS work_order_status_history (
+  id UUID PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES work_orders(id),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  changed_by UUID NOT NULL REFERENCES profiles(id),
+  reason TEXT,
+  metadata JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_status_history_work_order
+  ON work_order_status_history (work_order_id, created_at);
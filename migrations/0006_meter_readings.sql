@@ -0,0 +1,23 @@
+-- Equipment meter readings for usage-based PM triggers
+CREATE TABLE IF NOT EXISTS meter_readings (
+  id UUID PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES equipment(id),
+  meter_type TEXT NOT NULL,
+  value DECIMAL(12, 2) NOT NULL,
+  delta DECIMAL(12, 2) NOT NULL,
+  cumulative_value DECIMAL(14, 2) NOT NULL,
+  reading_type TEXT DEFAULT 'reading',
+  source TEXT DEFAULT 'manual',
+  reading_at TIMESTAMP NOT NULL,
+  recorded_by UUID REFERENCES profiles(id),
+  notes TEXT,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meter_readings_equipment_type
+  ON meter_readings (equipment_id, meter_type, reading_at);
+
+-- Usage interval on PM templates (combined with calendar frequency)
+ALTER TABLE pm_templates ADD COLUMN IF NOT EXISTS meter_type TEXT;
+ALTER TABLE pm_templates ADD COLUMN IF NOT EXISTS usage_interval DECIMAL(12, 2);
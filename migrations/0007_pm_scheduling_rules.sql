@@ -0,0 +1,35 @@
+-- Persist PM scheduling rules and per-warehouse scheduling config
+CREATE TABLE IF NOT EXISTS pm_scheduling_rules (
+  id UUID PRIMARY KEY,
+  name TEXT NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  template_id UUID REFERENCES pm_templates(id),
+  equipment_models JSONB NOT NULL,
+  frequency TEXT NOT NULL,
+  custom_frequency_days INTEGER,
+  conditions JSONB,
+  trigger_type TEXT NOT NULL,
+  auto_generate BOOLEAN DEFAULT true,
+  lead_time_days INTEGER DEFAULT 1,
+  priority TEXT NOT NULL,
+  assigned_technicians JSONB,
+  required_parts JSONB,
+  estimated_duration DECIMAL(5, 2),
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pm_scheduling_rules_warehouse
+  ON pm_scheduling_rules (warehouse_id);
+
+CREATE TABLE IF NOT EXISTS pm_scheduling_configs (
+  id UUID PRIMARY KEY,
+  warehouse_id UUID NOT NULL UNIQUE REFERENCES warehouses(id),
+  global_settings JSONB NOT NULL,
+  escalation_rules JSONB NOT NULL,
+  compliance_targets JSONB NOT NULL,
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
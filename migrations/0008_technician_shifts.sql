@@ -0,0 +1,16 @@
+-- Weekly technician shifts used by the capacity-aware PM planner
+CREATE TABLE IF NOT EXISTS technician_shifts (
+  id UUID PRIMARY KEY,
+  technician_id UUID NOT NULL REFERENCES profiles(id),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  effective_from TIMESTAMP,
+  effective_to TIMESTAMP,
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_technician_shifts_warehouse
+  ON technician_shifts (warehouse_id, technician_id);
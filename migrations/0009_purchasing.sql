@@ -0,0 +1,66 @@
+-- Purchase requisitions, purchase orders, lines and receipts for parts replenishment
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY,
+  po_number TEXT NOT NULL UNIQUE,
+  vendor_id UUID REFERENCES vendors(id),
+  vendor_name TEXT NOT NULL,
+  status TEXT NOT NULL,
+  total_cost DECIMAL(12, 2) DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  submitted_at TIMESTAMP,
+  approved_by UUID REFERENCES profiles(id),
+  approved_at TIMESTAMP,
+  rejection_reason TEXT,
+  ordered_at TIMESTAMP,
+  expected_date TIMESTAMP,
+  received_at TIMESTAMP,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_warehouse_status
+  ON purchase_orders (warehouse_id, status);
+
+CREATE TABLE IF NOT EXISTS purchase_requisitions (
+  id UUID PRIMARY KEY,
+  part_id UUID NOT NULL REFERENCES parts(id),
+  quantity INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open',
+  purchase_order_id UUID REFERENCES purchase_orders(id),
+  requested_by UUID REFERENCES profiles(id),
+  notes TEXT,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_requisitions_part_status
+  ON purchase_requisitions (part_id, status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id),
+  part_id UUID NOT NULL REFERENCES parts(id),
+  requisition_id UUID REFERENCES purchase_requisitions(id),
+  quantity_ordered INTEGER NOT NULL,
+  quantity_received INTEGER DEFAULT 0,
+  unit_cost DECIMAL(10, 2),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po
+  ON purchase_order_lines (purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_receipts (
+  id UUID PRIMARY KEY,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id),
+  line_id UUID NOT NULL REFERENCES purchase_order_lines(id),
+  part_id UUID NOT NULL REFERENCES parts(id),
+  quantity INTEGER NOT NULL,
+  received_by UUID REFERENCES profiles(id),
+  notes TEXT,
+  received_at TIMESTAMP DEFAULT NOW()
+);
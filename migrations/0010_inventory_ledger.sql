@@ -0,0 +1,72 @@
+-- Append-only inventory ledger, work order reservations and cycle counts
+CREATE TABLE IF NOT EXISTS inventory_transactions (
+  id UUID PRIMARY KEY,
+  part_id UUID NOT NULL REFERENCES parts(id),
+  type TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  location TEXT,
+  work_order_id UUID REFERENCES work_orders(id),
+  purchase_order_id UUID REFERENCES purchase_orders(id),
+  reference_id UUID,
+  reason TEXT,
+  performed_by UUID REFERENCES profiles(id),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_part
+  ON inventory_transactions (part_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_work_order
+  ON inventory_transactions (work_order_id);
+
+-- Ledger rows are never edited or removed
+CREATE OR REPLACE FUNCTION prevent_inventory_transaction_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'inventory_transactions is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS inventory_transactions_append_only ON inventory_transactions;
+CREATE TRIGGER inventory_transactions_append_only
+  BEFORE UPDATE OR DELETE ON inventory_transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_inventory_transaction_change();
+
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id UUID PRIMARY KEY,
+  part_id UUID NOT NULL REFERENCES parts(id),
+  work_order_id UUID NOT NULL REFERENCES work_orders(id),
+  quantity INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active',
+  reserved_by UUID REFERENCES profiles(id),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_part_status
+  ON inventory_reservations (part_id, status);
+
+CREATE TABLE IF NOT EXISTS cycle_counts (
+  id UUID PRIMARY KEY,
+  location TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  created_by UUID REFERENCES profiles(id),
+  completed_by UUID REFERENCES profiles(id),
+  completed_at TIMESTAMP,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS cycle_count_lines (
+  id UUID PRIMARY KEY,
+  cycle_count_id UUID NOT NULL REFERENCES cycle_counts(id),
+  part_id UUID NOT NULL REFERENCES parts(id),
+  location TEXT,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER,
+  variance INTEGER,
+  counted_by UUID REFERENCES profiles(id),
+  counted_at TIMESTAMP
+);
@@ -0,0 +1,43 @@
+-- Part numbers become unique per warehouse so sister sites can stock the same part,
+-- and transfer orders move stock between warehouses with an in-transit state
+ALTER TABLE parts DROP CONSTRAINT IF EXISTS parts_part_number_unique;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'parts_part_number_warehouse_unique'
+  ) THEN
+    ALTER TABLE parts ADD CONSTRAINT parts_part_number_warehouse_unique UNIQUE (part_number, warehouse_id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_parts_part_number ON parts (part_number);
+
+CREATE TABLE IF NOT EXISTS transfer_orders (
+  id UUID PRIMARY KEY,
+  transfer_number TEXT NOT NULL UNIQUE,
+  part_number TEXT NOT NULL,
+  from_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  to_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  from_part_id UUID NOT NULL REFERENCES parts(id),
+  to_part_id UUID REFERENCES parts(id),
+  quantity INTEGER NOT NULL,
+  quantity_received INTEGER DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'requested',
+  work_order_id UUID REFERENCES work_orders(id),
+  notes TEXT,
+  requested_by UUID REFERENCES profiles(id),
+  shipped_by UUID REFERENCES profiles(id),
+  shipped_at TIMESTAMP,
+  received_by UUID REFERENCES profiles(id),
+  received_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_orders_from_status
+  ON transfer_orders (from_warehouse_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_transfer_orders_to_status
+  ON transfer_orders (to_warehouse_id, status);
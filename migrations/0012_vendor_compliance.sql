@@ -0,0 +1,18 @@
+-- Vendor scorecard inputs and document compliance tracking
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'active';
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS status_reason TEXT;
+
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS vendor_id UUID REFERENCES vendors(id);
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS vendor_quoted_cost DECIMAL(10, 2);
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS vendor_invoiced_cost DECIMAL(10, 2);
+
+ALTER TABLE purchase_order_receipts ADD COLUMN IF NOT EXISTS rejected_quantity INTEGER DEFAULT 0;
+
+ALTER TABLE attachments ADD COLUMN IF NOT EXISTS document_type TEXT;
+ALTER TABLE attachments ADD COLUMN IF NOT EXISTS expiry_date TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_vendor ON work_orders (vendor_id);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_vendor_expiry
+  ON attachments (vendor_id, expiry_date)
+  WHERE vendor_id IS NOT NULL;
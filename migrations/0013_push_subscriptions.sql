@@ -0,0 +1,15 @@
+-- Web Push subscriptions so notifications reach users who have no live socket
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id),
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  expiration_time TIMESTAMP,
+  failure_count INTEGER DEFAULT 0,
+  last_success_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions (user_id);
@@ -0,0 +1,4 @@
+-- Notifications held back for a user's daily email digest
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS email_digest_pending BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_digest_pending ON notifications (user_id) WHERE email_digest_pending;
@@ -0,0 +1,19 @@
+-- Row versions for conflict-aware offline sync, and the idempotency log of applied client mutations
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+ALTER TABLE parts_usage ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+ALTER TABLE labor_time ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS sync_mutations (
+  id UUID PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  user_id UUID NOT NULL REFERENCES profiles(id),
+  entity TEXT NOT NULL,
+  entity_id UUID,
+  op TEXT NOT NULL,
+  status TEXT NOT NULL,
+  result JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_mutations_user ON sync_mutations (user_id, created_at);
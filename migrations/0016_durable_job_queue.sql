@@ -0,0 +1,26 @@
+-- Durable background jobs: leased job claims, dedupe keys, recurring schedules and cluster-wide locks
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS dedupe_key TEXT UNIQUE;
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS schedule_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_job_queue_claim ON job_queue (status, scheduled_at);
+
+CREATE TABLE IF NOT EXISTS job_schedules (
+  name TEXT PRIMARY KEY,
+  job_type TEXT NOT NULL,
+  cron_expression TEXT NOT NULL,
+  payload JSONB,
+  enabled BOOLEAN DEFAULT TRUE,
+  max_attempts INTEGER DEFAULT 3,
+  last_run_at TIMESTAMP,
+  next_run_at TIMESTAMP NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  acquired_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL
+);
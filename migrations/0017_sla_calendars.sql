@@ -0,0 +1,47 @@
+-- Business-hours SLA clocks: per-warehouse calendars, response/resolution targets, work order holds and breach stamps
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS hold_reason TEXT;
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP;
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS sla_response_due_at TIMESTAMP;
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS sla_resolution_due_at TIMESTAMP;
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS sla_response_breached_at TIMESTAMP;
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS sla_resolution_breached_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS sla_calendars (
+  id UUID PRIMARY KEY,
+  warehouse_id UUID NOT NULL UNIQUE REFERENCES warehouses(id),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  weekly_schedule JSONB NOT NULL,
+  holidays JSONB DEFAULT '[]',
+  pause_reasons JSONB DEFAULT '[]',
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id UUID PRIMARY KEY,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  work_order_type TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  response_minutes INTEGER NOT NULL,
+  resolution_minutes INTEGER NOT NULL,
+  business_hours_only BOOLEAN DEFAULT TRUE,
+  at_risk_percent INTEGER DEFAULT 75,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT sla_policies_warehouse_type_priority_unique UNIQUE (warehouse_id, work_order_type, priority)
+);
+
+CREATE TABLE IF NOT EXISTS work_order_holds (
+  id UUID PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES work_orders(id),
+  reason TEXT NOT NULL,
+  notes TEXT,
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP,
+  started_by UUID REFERENCES profiles(id),
+  ended_by UUID REFERENCES profiles(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_holds_work_order ON work_order_holds (work_order_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_work_orders_sla_resolution_due ON work_orders (warehouse_id, sla_resolution_due_at);
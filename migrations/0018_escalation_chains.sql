@@ -0,0 +1,11 @@
+-- Multi-level escalation chains with repeat notifications and acknowledgement
+ALTER TABLE escalation_rules ADD COLUMN IF NOT EXISTS levels JSONB;
+
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS trigger TEXT DEFAULT 'unstarted';
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS notification_count INTEGER DEFAULT 1;
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS last_notified_at TIMESTAMP;
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES profiles(id);
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP;
+ALTER TABLE escalation_history ADD COLUMN IF NOT EXISTS acknowledgement_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_escalation_history_work_order ON escalation_history(work_order_id, escalated_at);
@@ -0,0 +1,34 @@
+-- On-call rotations per warehouse and role, with overrides and shift swaps
+CREATE TABLE IF NOT EXISTS on_call_rotations (
+  id UUID PRIMARY KEY,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  role TEXT NOT NULL,
+  name TEXT NOT NULL,
+  handoff_frequency TEXT NOT NULL,
+  handoff_time TEXT NOT NULL,
+  handoff_day_of_week INTEGER DEFAULT 1,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  anchor_date TEXT NOT NULL,
+  participants JSONB NOT NULL,
+  active BOOLEAN DEFAULT TRUE,
+  updated_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT on_call_rotations_warehouse_role_unique UNIQUE (warehouse_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS on_call_overrides (
+  id UUID PRIMARY KEY,
+  rotation_id UUID NOT NULL REFERENCES on_call_rotations(id),
+  user_id UUID NOT NULL REFERENCES profiles(id),
+  original_user_id UUID REFERENCES profiles(id),
+  kind TEXT NOT NULL,
+  swap_group_id UUID,
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_call_overrides_rotation ON on_call_overrides(rotation_id, starts_at);
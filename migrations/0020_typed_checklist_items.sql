@@ -0,0 +1,34 @@
+-- Typed checklist items (numeric, yes/no, multiple choice) with acceptance limits and a reading history
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS item_type TEXT DEFAULT 'check';
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS definition_key TEXT;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS min_value DECIMAL(12, 3);
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS max_value DECIMAL(12, 3);
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS expected_boolean BOOLEAN;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS options JSONB;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS value TEXT;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS within_limits BOOLEAN;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS recorded_by UUID REFERENCES profiles(id);
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS recorded_at TIMESTAMP;
+
+CREATE TABLE IF NOT EXISTS checklist_readings (
+  id UUID PRIMARY KEY,
+  checklist_item_id UUID NOT NULL REFERENCES work_order_checklist_items(id),
+  work_order_id UUID NOT NULL REFERENCES work_orders(id),
+  equipment_id UUID REFERENCES equipment(id),
+  definition_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  item_type TEXT NOT NULL,
+  unit TEXT,
+  numeric_value DECIMAL(12, 3),
+  value TEXT NOT NULL,
+  min_value DECIMAL(12, 3),
+  max_value DECIMAL(12, 3),
+  within_limits BOOLEAN NOT NULL,
+  recorded_by UUID REFERENCES profiles(id),
+  recorded_at TIMESTAMP NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checklist_readings_equipment
+  ON checklist_readings (equipment_id, definition_key, recorded_at);
@@ -0,0 +1,7 @@
+-- Follow-up corrective work orders raised from failed checklist items, linked to the work order that found the defect
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS parent_work_order_id UUID REFERENCES work_orders(id);
+
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS follow_up_mode TEXT;
+ALTER TABLE work_order_checklist_items ADD COLUMN IF NOT EXISTS follow_up_work_order_id UUID REFERENCES work_orders(id);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_parent ON work_orders(parent_work_order_id);
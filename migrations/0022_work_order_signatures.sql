@@ -0,0 +1,20 @@
+-- Completion and verification sign-offs, with a hash of the work order contents at the moment of signing
+CREATE TABLE IF NOT EXISTS work_order_signatures (
+  id UUID PRIMARY KEY,
+  work_order_id UUID NOT NULL REFERENCES work_orders(id),
+  kind TEXT NOT NULL,
+  method TEXT NOT NULL,
+  signer_id UUID NOT NULL REFERENCES profiles(id),
+  signer_name TEXT NOT NULL,
+  signer_role TEXT,
+  strokes JSONB,
+  statement TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  seal TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  signed_at TIMESTAMP NOT NULL,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_order_signatures_work_order ON work_order_signatures(work_order_id, signed_at);
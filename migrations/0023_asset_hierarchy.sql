@@ -0,0 +1,36 @@
+-- Location tree (site → building → area → position), parent/child equipment and installation history
+CREATE TABLE IF NOT EXISTS locations (
+  id UUID PRIMARY KEY,
+  name TEXT NOT NULL,
+  code TEXT,
+  type TEXT NOT NULL,
+  parent_id UUID REFERENCES locations(id),
+  description TEXT,
+  active BOOLEAN DEFAULT TRUE,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_parent ON locations(parent_id);
+CREATE INDEX IF NOT EXISTS idx_locations_warehouse ON locations(warehouse_id);
+
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES locations(id);
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS parent_equipment_id UUID REFERENCES equipment(id);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_location ON equipment(location_id);
+CREATE INDEX IF NOT EXISTS idx_equipment_parent ON equipment(parent_equipment_id);
+
+CREATE TABLE IF NOT EXISTS equipment_installations (
+  id UUID PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES equipment(id),
+  location_id UUID REFERENCES locations(id),
+  parent_equipment_id UUID REFERENCES equipment(id),
+  installed_at TIMESTAMP NOT NULL,
+  removed_at TIMESTAMP,
+  installed_by UUID REFERENCES profiles(id),
+  removed_by UUID REFERENCES profiles(id),
+  notes TEXT,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_installations_equipment ON equipment_installations(equipment_id, installed_at);
@@ -0,0 +1,20 @@
+-- Equipment downtime events (planned/unplanned, reason coded, optionally linked to a work order)
+CREATE TABLE IF NOT EXISTS downtime_events (
+  id UUID PRIMARY KEY,
+  equipment_id UUID NOT NULL REFERENCES equipment(id),
+  work_order_id UUID REFERENCES work_orders(id),
+  type TEXT NOT NULL,
+  reason_code TEXT NOT NULL,
+  source TEXT NOT NULL,
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP,
+  notes TEXT,
+  opened_by UUID REFERENCES profiles(id),
+  closed_by UUID REFERENCES profiles(id),
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_downtime_events_equipment ON downtime_events(equipment_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_downtime_events_work_order ON downtime_events(work_order_id);
+CREATE INDEX IF NOT EXISTS idx_downtime_events_open ON downtime_events(equipment_id) WHERE ended_at IS NULL;
@@ -0,0 +1,23 @@
+-- Failure code library (problem / cause / remedy) scoped by equipment model or class, and codes on work orders
+CREATE TABLE IF NOT EXISTS failure_codes (
+  id UUID PRIMARY KEY,
+  kind TEXT NOT NULL,
+  code TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  equipment_model TEXT,
+  equipment_class TEXT,
+  active BOOLEAN DEFAULT TRUE,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_failure_codes_warehouse ON failure_codes(warehouse_id, kind);
+
+ALTER TABLE equipment ADD COLUMN IF NOT EXISTS equipment_class TEXT;
+
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS problem_code_id UUID REFERENCES failure_codes(id);
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS cause_code_id UUID REFERENCES failure_codes(id);
+ALTER TABLE work_orders ADD COLUMN IF NOT EXISTS remedy_code_id UUID REFERENCES failure_codes(id);
+
+CREATE INDEX IF NOT EXISTS idx_work_orders_cause_code ON work_orders(cause_code_id);
@@ -0,0 +1,27 @@
+-- Work requests submitted through the public request portal, held for triage before they become work orders
+CREATE TABLE IF NOT EXISTS work_requests (
+  id UUID PRIMARY KEY,
+  reference TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL,
+  source TEXT NOT NULL,
+  description TEXT NOT NULL,
+  urgency TEXT NOT NULL,
+  equipment_id UUID REFERENCES equipment(id),
+  location_id UUID REFERENCES locations(id),
+  area TEXT,
+  requester_name TEXT NOT NULL,
+  requester_email TEXT,
+  requester_phone TEXT,
+  photos JSONB DEFAULT '[]',
+  token_hash TEXT NOT NULL UNIQUE,
+  work_order_id UUID REFERENCES work_orders(id),
+  decision_reason TEXT,
+  decided_by UUID REFERENCES profiles(id),
+  decided_at TIMESTAMP,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_requests_warehouse_status ON work_requests(warehouse_id, status);
+CREATE INDEX IF NOT EXISTS idx_work_requests_equipment ON work_requests(equipment_id);
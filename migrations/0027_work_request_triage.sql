@@ -0,0 +1,32 @@
+-- Work request triage: staff requests, estimates, approval thresholds by role and an audit of decisions
+ALTER TABLE work_requests ADD COLUMN IF NOT EXISTS requester_id UUID REFERENCES profiles(id);
+ALTER TABLE work_requests ADD COLUMN IF NOT EXISTS estimated_cost DECIMAL(10, 2);
+ALTER TABLE work_requests ADD COLUMN IF NOT EXISTS estimated_hours DECIMAL(5, 2);
+ALTER TABLE work_requests ADD COLUMN IF NOT EXISTS approval_role TEXT;
+
+CREATE TABLE IF NOT EXISTS approval_thresholds (
+  id UUID PRIMARY KEY,
+  warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+  role TEXT NOT NULL,
+  max_cost DECIMAL(10, 2),
+  max_hours DECIMAL(5, 2),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT approval_thresholds_warehouse_role_unique UNIQUE (warehouse_id, role)
+);
+
+CREATE TABLE IF NOT EXISTS work_request_decisions (
+  id UUID PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES work_requests(id),
+  action TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_id UUID REFERENCES profiles(id),
+  actor_role TEXT,
+  estimated_cost DECIMAL(10, 2),
+  estimated_hours DECIMAL(5, 2),
+  work_order_id UUID REFERENCES work_orders(id),
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_work_request_decisions_request ON work_request_decisions(request_id, created_at);
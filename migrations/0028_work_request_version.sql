@@ -0,0 +1,2 @@
+-- Work request row version, so two people deciding the same request cannot both act on it
+ALTER TABLE work_requests ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
@@ -0,0 +1,2 @@
+-- Who set a vendor's status, so the daily document check does not lift a manager's hold
+ALTER TABLE vendors ADD COLUMN IF NOT EXISTS status_source TEXT DEFAULT 'compliance';
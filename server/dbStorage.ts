@@ -1,17 +1,52 @@
-import { eq, and, or } from 'drizzle-orm';
+import { eq, and, or, asc, desc, sql, lt, lte, inArray, isNull, isNotNull } from 'drizzle-orm';
 import { db } from './db';
-import { IStorage } from './storage';
+import { IStorage, InsufficientStockError, StaleVersionError } from './storage';
 import {
   profiles,
   warehouses,
   equipment,
+  locations,
+  equipmentInstallations,
+  downtimeEvents,
+  failureCodes,
+  workRequests,
+  workRequestDecisions,
+  approvalThresholds,
   workOrders,
   workOrderChecklistItems,
+  checklistReadings,
+  workOrderStatusHistory,
+  workOrderSignatures,
   parts,
   partsUsage,
   laborTime,
+  meterReadings,
   vendors,
   pmTemplates,
+  pmSchedulingRules,
+  pmSchedulingConfigs,
+  technicianShifts,
+  purchaseRequisitions,
+  purchaseOrders,
+  purchaseOrderLines,
+  purchaseOrderReceipts,
+  inventoryTransactions,
+  inventoryReservations,
+  cycleCounts,
+  cycleCountLines,
+  transferOrders,
+  pushSubscriptions,
+  syncMutations,
+  jobQueue,
+  jobSchedules,
+  jobLocks,
+  slaCalendars,
+  slaPolicies,
+  workOrderHolds,
+  escalationRules,
+  escalationHistory,
+  onCallRotations,
+  onCallOverrides,
   notifications,
   attachments,
   systemLogs,
@@ -20,19 +55,65 @@ import {
   Warehouse,
   InsertWarehouse,
   Equipment,
+  Location,
+  InsertLocation,
+  EquipmentInstallation,
+  DowntimeEvent,
+  FailureCode,
+  WorkRequest,
+  WorkRequestStatus,
+  WorkRequestDecision,
+  ApprovalThreshold,
+  InsertApprovalThreshold,
   InsertEquipment,
   WorkOrder,
   InsertWorkOrder,
   WorkOrderChecklistItem,
+  InsertWorkOrderChecklistItem,
+  ChecklistReading,
+  WorkOrderStatusHistory,
+  WorkOrderSignature,
   Part,
   InsertPart,
   PartsUsage,
   LaborTime,
   InsertLaborTime,
+  MeterReading,
   Vendor,
   InsertVendor,
   PmTemplate,
   InsertPmTemplate,
+  PmSchedulingRule,
+  InsertPmSchedulingRule,
+  PmSchedulingConfig,
+  InsertPmSchedulingConfig,
+  TechnicianShift,
+  PurchaseRequisition,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderReceipt,
+  InventoryTransaction,
+  InventoryPosting,
+  InventoryReservation,
+  CycleCount,
+  CycleCountLine,
+  TransferOrder,
+  PushSubscription,
+  SyncMutation,
+  JobQueue,
+  JobSchedule,
+  JobType,
+  SlaCalendar,
+  InsertSlaCalendar,
+  SlaPolicy,
+  InsertSlaPolicy,
+  WorkOrderHold,
+  EscalationRule,
+  EscalationHistory,
+  OnCallRotation,
+  InsertOnCallRotation,
+  OnCallOverride,
+  InsertTechnicianShift,
   Notification,
   InsertNotification,
   Attachment,
@@ -347,8 +428,10 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getEquipmentByAssetTag(assetTag: string): Promise<Equipment | undefined> {
-    const result = await db.select().from(equipment).where(eq(equipment.assetTag, assetTag)).limit(1);
+  async getEquipmentByAssetTag(assetTag: string, warehouseId?: string): Promise<Equipment | undefined> {
+    const result = await db.select().from(equipment)
+      .where(and(eq(equipment.assetTag, assetTag), warehouseId ? eq(equipment.warehouseId, warehouseId) : undefined))
+      .limit(1);
     return result[0];
   }
 
@@ -370,6 +453,176 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Locations
+  async getLocations(warehouseId: string): Promise<Location[]> {
+    return await db.select().from(locations)
+      .where(eq(locations.warehouseId, warehouseId))
+      .orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  async createLocation(location: InsertLocation & { warehouseId: string }): Promise<Location> {
+    const [created] = await db.insert(locations).values({ ...location, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location> {
+    const [updated] = await db.update(locations).set(location).where(eq(locations.id, id)).returning();
+    return updated;
+  }
+
+  // Equipment Installations
+  async getEquipmentInstallations(equipmentId: string): Promise<EquipmentInstallation[]> {
+    return await db.select().from(equipmentInstallations)
+      .where(eq(equipmentInstallations.equipmentId, equipmentId))
+      .orderBy(asc(equipmentInstallations.installedAt));
+  }
+
+  async createEquipmentInstallation(installation: Omit<EquipmentInstallation, 'id'>): Promise<EquipmentInstallation> {
+    const [created] = await db.insert(equipmentInstallations).values({ ...installation, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async updateEquipmentInstallation(id: string, installation: Partial<EquipmentInstallation>): Promise<EquipmentInstallation> {
+    const [updated] = await db.update(equipmentInstallations)
+      .set(installation)
+      .where(eq(equipmentInstallations.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Downtime Events
+  async getDowntimeEvents(filters: { warehouseId?: string; equipmentId?: string; workOrderId?: string; open?: boolean }): Promise<DowntimeEvent[]> {
+    const conditions = [];
+    if (filters.warehouseId) conditions.push(eq(downtimeEvents.warehouseId, filters.warehouseId));
+    if (filters.equipmentId) conditions.push(eq(downtimeEvents.equipmentId, filters.equipmentId));
+    if (filters.workOrderId) conditions.push(eq(downtimeEvents.workOrderId, filters.workOrderId));
+    if (filters.open !== undefined) {
+      conditions.push(filters.open ? isNull(downtimeEvents.endedAt) : isNotNull(downtimeEvents.endedAt));
+    }
+    return await db.select().from(downtimeEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(downtimeEvents.startedAt));
+  }
+
+  async getDowntimeEvent(id: string): Promise<DowntimeEvent | undefined> {
+    const [event] = await db.select().from(downtimeEvents).where(eq(downtimeEvents.id, id));
+    return event;
+  }
+
+  async createDowntimeEvent(event: Omit<DowntimeEvent, 'id' | 'createdAt'>): Promise<DowntimeEvent> {
+    const [created] = await db.insert(downtimeEvents).values({ ...event, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async updateDowntimeEvent(id: string, event: Partial<DowntimeEvent>): Promise<DowntimeEvent> {
+    const [updated] = await db.update(downtimeEvents)
+      .set(event)
+      .where(eq(downtimeEvents.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Failure Codes
+  async getFailureCodes(warehouseId: string): Promise<FailureCode[]> {
+    return await db.select().from(failureCodes)
+      .where(eq(failureCodes.warehouseId, warehouseId))
+      .orderBy(asc(failureCodes.kind), asc(failureCodes.code));
+  }
+
+  async getFailureCode(id: string): Promise<FailureCode | undefined> {
+    const [code] = await db.select().from(failureCodes).where(eq(failureCodes.id, id));
+    return code;
+  }
+
+  async createFailureCode(code: Omit<FailureCode, 'id' | 'createdAt'>): Promise<FailureCode> {
+    const [created] = await db.insert(failureCodes).values({ ...code, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async updateFailureCode(id: string, code: Partial<FailureCode>): Promise<FailureCode> {
+    const [updated] = await db.update(failureCodes)
+      .set(code)
+      .where(eq(failureCodes.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Work Requests
+  async getWorkRequests(warehouseId: string): Promise<WorkRequest[]> {
+    return await db.select().from(workRequests)
+      .where(eq(workRequests.warehouseId, warehouseId))
+      .orderBy(asc(workRequests.createdAt));
+  }
+
+  async getWorkRequest(id: string): Promise<WorkRequest | undefined> {
+    const [request] = await db.select().from(workRequests).where(eq(workRequests.id, id));
+    return request;
+  }
+
+  async getWorkRequestByTokenHash(tokenHash: string): Promise<WorkRequest | undefined> {
+    const [request] = await db.select().from(workRequests).where(eq(workRequests.tokenHash, tokenHash));
+    return request;
+  }
+
+  async createWorkRequest(request: Omit<WorkRequest, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<WorkRequest> {
+    const [created] = await db.insert(workRequests).values({ ...request, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async updateWorkRequest(id: string, request: Partial<WorkRequest>): Promise<WorkRequest> {
+    const [updated] = await db.update(workRequests)
+      .set({ ...request, version: sql`${workRequests.version} + 1`, updatedAt: new Date() })
+      .where(eq(workRequests.id, id))
+      .returning();
+    return updated;
+  }
+
+  async claimWorkRequest(id: string, expectedVersion: number, fromStatuses: readonly WorkRequestStatus[], changes: Partial<WorkRequest>): Promise<WorkRequest | undefined> {
+    const [claimed] = await db.update(workRequests)
+      .set({ ...changes, version: sql`${workRequests.version} + 1`, updatedAt: new Date() })
+      .where(and(
+        eq(workRequests.id, id),
+        eq(workRequests.version, expectedVersion),
+        inArray(workRequests.status, [...fromStatuses]),
+      ))
+      .returning();
+    return claimed;
+  }
+
+  async getWorkRequestDecisions(requestId: string): Promise<WorkRequestDecision[]> {
+    return await db.select().from(workRequestDecisions)
+      .where(eq(workRequestDecisions.requestId, requestId))
+      .orderBy(asc(workRequestDecisions.createdAt));
+  }
+
+  async createWorkRequestDecision(decision: Omit<WorkRequestDecision, 'id' | 'createdAt'>): Promise<WorkRequestDecision> {
+    const [created] = await db.insert(workRequestDecisions).values({ ...decision, id: this.generateId() }).returning();
+    return created;
+  }
+
+  async getApprovalThresholds(warehouseId: string): Promise<ApprovalThreshold[]> {
+    return await db.select().from(approvalThresholds).where(eq(approvalThresholds.warehouseId, warehouseId));
+  }
+
+  async upsertApprovalThreshold(warehouseId: string, threshold: InsertApprovalThreshold): Promise<ApprovalThreshold> {
+    const values = {
+      maxCost: threshold.maxCost === null ? null : String(threshold.maxCost),
+      maxHours: threshold.maxHours === null ? null : String(threshold.maxHours),
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(approvalThresholds)
+      .values({ id: this.generateId(), warehouseId, role: threshold.role, ...values })
+      .onConflictDoUpdate({ target: [approvalThresholds.warehouseId, approvalThresholds.role], set: values })
+      .returning();
+    return saved;
+  }
+
   // Work Orders
   async getWorkOrders(warehouseId: string, filters?: any): Promise<WorkOrder[]> {
     return await db.select().from(workOrders).where(eq(workOrders.warehouseId, warehouseId));
@@ -391,15 +644,19 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>): Promise<WorkOrder> {
+  async updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>, expectedVersion?: number): Promise<WorkOrder> {
     const updateData = {
       ...(workOrder as any),
+      version: sql`${workOrders.version} + 1`,
       updatedAt: new Date(),
     };
     const [updated] = await db.update(workOrders)
       .set(updateData)
-      .where(eq(workOrders.id, id))
+      .where(and(eq(workOrders.id, id), expectedVersion !== undefined ? eq(workOrders.version, expectedVersion) : undefined))
       .returning();
+    if (!updated && expectedVersion !== undefined) {
+      throw new StaleVersionError('work_orders', id);
+    }
     return updated;
   }
 
@@ -411,13 +668,58 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(workOrders).where(eq(workOrders.assignedTo, userId));
   }
 
+  async getChildWorkOrders(parentWorkOrderId: string): Promise<WorkOrder[]> {
+    return await db.select().from(workOrders)
+      .where(eq(workOrders.parentWorkOrderId, parentWorkOrderId))
+      .orderBy(asc(workOrders.createdAt));
+  }
+
+  // Work Order Status History
+  async getWorkOrderStatusHistory(workOrderId: string): Promise<WorkOrderStatusHistory[]> {
+    return await db.select().from(workOrderStatusHistory)
+      .where(eq(workOrderStatusHistory.workOrderId, workOrderId))
+      .orderBy(asc(workOrderStatusHistory.createdAt));
+  }
+
+  async createWorkOrderStatusHistory(entry: Omit<WorkOrderStatusHistory, 'id' | 'createdAt'>): Promise<WorkOrderStatusHistory> {
+    const newEntry = {
+      ...(entry as any),
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    const [created] = await db.insert(workOrderStatusHistory).values(newEntry).returning();
+    return created;
+  }
+
+  // Work Order Signatures
+  async getWorkOrderSignatures(workOrderId: string): Promise<WorkOrderSignature[]> {
+    return await db.select().from(workOrderSignatures)
+      .where(eq(workOrderSignatures.workOrderId, workOrderId))
+      .orderBy(asc(workOrderSignatures.signedAt));
+  }
+
+  async getWorkOrderSignature(id: string): Promise<WorkOrderSignature | undefined> {
+    const [signature] = await db.select().from(workOrderSignatures).where(eq(workOrderSignatures.id, id));
+    return signature;
+  }
+
+  async createWorkOrderSignature(signature: Omit<WorkOrderSignature, 'id'>): Promise<WorkOrderSignature> {
+    const [created] = await db.insert(workOrderSignatures).values({ ...signature, id: this.generateId() }).returning();
+    return created;
+  }
+
   // Work Order Checklist Items
   async getChecklistItems(workOrderId: string): Promise<WorkOrderChecklistItem[]> {
     return await db.select().from(workOrderChecklistItems)
       .where(eq(workOrderChecklistItems.workOrderId, workOrderId));
   }
 
-  async createChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem> {
+  async getChecklistItem(id: string): Promise<WorkOrderChecklistItem | undefined> {
+    const [result] = await db.select().from(workOrderChecklistItems).where(eq(workOrderChecklistItems.id, id));
+    return result;
+  }
+
+  async createChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem> {
     const newItem = {
       ...item,
       id: this.generateId(),
@@ -427,18 +729,40 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>): Promise<WorkOrderChecklistItem> {
+  async updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>, expectedVersion?: number): Promise<WorkOrderChecklistItem> {
     const [updated] = await db.update(workOrderChecklistItems)
-      .set(item)
-      .where(eq(workOrderChecklistItems.id, id))
+      .set({ ...item, version: sql`${workOrderChecklistItems.version} + 1` })
+      .where(and(
+        eq(workOrderChecklistItems.id, id),
+        expectedVersion !== undefined ? eq(workOrderChecklistItems.version, expectedVersion) : undefined,
+      ))
       .returning();
+    if (!updated && expectedVersion !== undefined) {
+      throw new StaleVersionError('work_order_checklist_items', id);
+    }
     return updated;
   }
 
-  async createWorkOrderChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem> {
+  async createWorkOrderChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem> {
     return this.createChecklistItem(item);
   }
 
+  // Checklist Readings
+  async getChecklistReadings(equipmentId: string, definitionKey?: string): Promise<ChecklistReading[]> {
+    const conditions = [eq(checklistReadings.equipmentId, equipmentId)];
+    if (definitionKey) {
+      conditions.push(eq(checklistReadings.definitionKey, definitionKey));
+    }
+    return await db.select().from(checklistReadings)
+      .where(and(...conditions))
+      .orderBy(asc(checklistReadings.recordedAt));
+  }
+
+  async createChecklistReading(reading: Omit<ChecklistReading, 'id'>): Promise<ChecklistReading> {
+    const [created] = await db.insert(checklistReadings).values({ ...reading, id: this.generateId() }).returning();
+    return created;
+  }
+
   // Parts
   async getParts(warehouseId: string): Promise<Part[]> {
     return await db.select().from(parts).where(eq(parts.warehouseId, warehouseId));
@@ -449,11 +773,21 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
-  async getPartByNumber(partNumber: string): Promise<Part | undefined> {
-    const result = await db.select().from(parts).where(eq(parts.partNumber, partNumber)).limit(1);
+  async getPartByNumber(partNumber: string, warehouseId?: string): Promise<Part | undefined> {
+    const condition = warehouseId
+      ? and(eq(parts.partNumber, partNumber), eq(parts.warehouseId, warehouseId))
+      : eq(parts.partNumber, partNumber);
+    const result = await db.select().from(parts).where(condition).limit(1);
     return result[0];
   }
 
+  async getPartsByNumber(partNumber: string): Promise<Part[]> {
+    return await db
+      .select()
+      .from(parts)
+      .where(and(eq(parts.partNumber, partNumber), eq(parts.active, true)));
+  }
+
   async createPart(part: InsertPart): Promise<Part> {
     const newPart = {
       id: this.generateId(),
@@ -476,7 +810,7 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(partsUsage).where(eq(partsUsage.workOrderId, workOrderId));
   }
 
-  async createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt'>): Promise<PartsUsage> {
+  async createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt' | 'version'>): Promise<PartsUsage> {
     const newUsage = {
       ...usage,
       id: this.generateId(),
@@ -495,11 +829,14 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(partsUsage).where(eq(partsUsage.workOrderId, workOrderId));
   }
 
-  async updatePartsUsage(id: string, usage: Partial<PartsUsage>): Promise<PartsUsage> {
+  async updatePartsUsage(id: string, usage: Partial<PartsUsage>, expectedVersion?: number): Promise<PartsUsage> {
     const [updated] = await db.update(partsUsage)
-      .set(usage as any)
-      .where(eq(partsUsage.id, id))
+      .set({ ...(usage as any), version: sql`${partsUsage.version} + 1` })
+      .where(and(eq(partsUsage.id, id), expectedVersion !== undefined ? eq(partsUsage.version, expectedVersion) : undefined))
       .returning();
+    if (!updated && expectedVersion !== undefined) {
+      throw new StaleVersionError('parts_usage', id);
+    }
     return updated;
   }
 
@@ -567,9 +904,9 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
-  async updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor> {
+  async updateVendor(id: string, vendor: Partial<Vendor>): Promise<Vendor> {
     const [updated] = await db.update(vendors)
-      .set(vendor as any)
+      .set(vendor)
       .where(eq(vendors.id, id))
       .returning();
     return updated;
@@ -612,6 +949,424 @@ export class DatabaseStorage implements IStorage {
     await db.delete(pmTemplates).where(eq(pmTemplates.id, id));
   }
 
+  // PM Scheduling Rules and Config
+  async getPmSchedulingRules(warehouseId: string): Promise<PmSchedulingRule[]> {
+    return await db.select().from(pmSchedulingRules).where(eq(pmSchedulingRules.warehouseId, warehouseId));
+  }
+
+  async getPmSchedulingRule(id: string): Promise<PmSchedulingRule | undefined> {
+    const [result] = await db.select().from(pmSchedulingRules).where(eq(pmSchedulingRules.id, id));
+    return result;
+  }
+
+  async createPmSchedulingRule(rule: InsertPmSchedulingRule): Promise<PmSchedulingRule> {
+    const newRule = {
+      ...(rule as any),
+      id: this.generateId(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const [created] = await db.insert(pmSchedulingRules).values(newRule).returning();
+    return created;
+  }
+
+  async updatePmSchedulingRule(id: string, updates: Partial<InsertPmSchedulingRule>): Promise<PmSchedulingRule> {
+    const [updated] = await db
+      .update(pmSchedulingRules)
+      .set({ ...(updates as any), updatedAt: new Date() })
+      .where(eq(pmSchedulingRules.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('PM scheduling rule not found');
+    }
+    return updated;
+  }
+
+  async deletePmSchedulingRule(id: string): Promise<void> {
+    await db.delete(pmSchedulingRules).where(eq(pmSchedulingRules.id, id));
+  }
+
+  async getPmSchedulingConfig(warehouseId: string): Promise<PmSchedulingConfig | undefined> {
+    const [result] = await db.select().from(pmSchedulingConfigs).where(eq(pmSchedulingConfigs.warehouseId, warehouseId));
+    return result;
+  }
+
+  async upsertPmSchedulingConfig(warehouseId: string, config: InsertPmSchedulingConfig, updatedBy?: string): Promise<PmSchedulingConfig> {
+    const values = {
+      globalSettings: config.globalSettings,
+      escalationRules: config.escalationRules,
+      complianceTargets: config.complianceTargets,
+      updatedBy: updatedBy || null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(pmSchedulingConfigs)
+      .values({ id: this.generateId(), warehouseId, ...values, createdAt: new Date() })
+      .onConflictDoUpdate({ target: pmSchedulingConfigs.warehouseId, set: values })
+      .returning();
+    return saved;
+  }
+
+  // Technician shifts
+  async getTechnicianShifts(warehouseId: string, technicianId?: string): Promise<TechnicianShift[]> {
+    const conditions = [eq(technicianShifts.warehouseId, warehouseId)];
+    if (technicianId) {
+      conditions.push(eq(technicianShifts.technicianId, technicianId));
+    }
+    return await db
+      .select()
+      .from(technicianShifts)
+      .where(and(...conditions))
+      .orderBy(asc(technicianShifts.dayOfWeek), asc(technicianShifts.startTime));
+  }
+
+  async createTechnicianShift(shift: InsertTechnicianShift): Promise<TechnicianShift> {
+    const [created] = await db
+      .insert(technicianShifts)
+      .values({ ...(shift as any), id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async deleteTechnicianShift(warehouseId: string, id: string): Promise<boolean> {
+    const deleted = await db
+      .delete(technicianShifts)
+      .where(and(eq(technicianShifts.id, id), eq(technicianShifts.warehouseId, warehouseId)))
+      .returning({ id: technicianShifts.id });
+    return deleted.length > 0;
+  }
+
+  // Purchasing
+  async getPurchaseRequisitions(warehouseId: string, filters?: { status?: PurchaseRequisition['status']; partId?: string }): Promise<PurchaseRequisition[]> {
+    const conditions = [eq(purchaseRequisitions.warehouseId, warehouseId)];
+    if (filters?.status) {
+      conditions.push(eq(purchaseRequisitions.status, filters.status));
+    }
+    if (filters?.partId) {
+      conditions.push(eq(purchaseRequisitions.partId, filters.partId));
+    }
+    return await db
+      .select()
+      .from(purchaseRequisitions)
+      .where(and(...conditions))
+      .orderBy(desc(purchaseRequisitions.createdAt));
+  }
+
+  async getPurchaseRequisition(id: string): Promise<PurchaseRequisition | undefined> {
+    const [result] = await db.select().from(purchaseRequisitions).where(eq(purchaseRequisitions.id, id));
+    return result;
+  }
+
+  async createPurchaseRequisition(requisition: Omit<PurchaseRequisition, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseRequisition> {
+    const [created] = await db
+      .insert(purchaseRequisitions)
+      .values({ ...requisition, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updatePurchaseRequisition(id: string, updates: Partial<PurchaseRequisition>): Promise<PurchaseRequisition> {
+    const [updated] = await db
+      .update(purchaseRequisitions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(purchaseRequisitions.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Purchase requisition not found');
+    }
+    return updated;
+  }
+
+  async getPurchaseOrders(warehouseId: string, status?: PurchaseOrder['status']): Promise<PurchaseOrder[]> {
+    const conditions = [eq(purchaseOrders.warehouseId, warehouseId)];
+    if (status) {
+      conditions.push(eq(purchaseOrders.status, status));
+    }
+    return await db
+      .select()
+      .from(purchaseOrders)
+      .where(and(...conditions))
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [result] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return result;
+  }
+
+  async createPurchaseOrder(order: Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder> {
+    const [created] = await db
+      .insert(purchaseOrders)
+      .values({ ...order, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder> {
+    const [updated] = await db
+      .update(purchaseOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Purchase order not found');
+    }
+    return updated;
+  }
+
+  async getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]> {
+    return await db
+      .select()
+      .from(purchaseOrderLines)
+      .where(eq(purchaseOrderLines.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(purchaseOrderLines.createdAt));
+  }
+
+  async createPurchaseOrderLine(line: Omit<PurchaseOrderLine, 'id' | 'createdAt'>): Promise<PurchaseOrderLine> {
+    const [created] = await db
+      .insert(purchaseOrderLines)
+      .values({ ...line, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updatePurchaseOrderLine(id: string, updates: Partial<PurchaseOrderLine>): Promise<PurchaseOrderLine> {
+    const [updated] = await db
+      .update(purchaseOrderLines)
+      .set(updates)
+      .where(eq(purchaseOrderLines.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Purchase order line not found');
+    }
+    return updated;
+  }
+
+  async getPurchaseOrderReceipts(purchaseOrderId: string): Promise<PurchaseOrderReceipt[]> {
+    return await db
+      .select()
+      .from(purchaseOrderReceipts)
+      .where(eq(purchaseOrderReceipts.purchaseOrderId, purchaseOrderId))
+      .orderBy(asc(purchaseOrderReceipts.receivedAt));
+  }
+
+  async createPurchaseOrderReceipt(receipt: Omit<PurchaseOrderReceipt, 'id' | 'receivedAt'>): Promise<PurchaseOrderReceipt> {
+    const [created] = await db
+      .insert(purchaseOrderReceipts)
+      .values({ ...receipt, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  // Inventory ledger
+  async getInventoryTransactions(filters: { partId?: string; workOrderId?: string; warehouseId?: string; type?: InventoryTransaction['type']; referenceId?: string }): Promise<InventoryTransaction[]> {
+    const conditions = [];
+    if (filters.partId) conditions.push(eq(inventoryTransactions.partId, filters.partId));
+    if (filters.workOrderId) conditions.push(eq(inventoryTransactions.workOrderId, filters.workOrderId));
+    if (filters.warehouseId) conditions.push(eq(inventoryTransactions.warehouseId, filters.warehouseId));
+    if (filters.type) conditions.push(eq(inventoryTransactions.type, filters.type));
+    if (filters.referenceId) conditions.push(eq(inventoryTransactions.referenceId, filters.referenceId));
+    return await db
+      .select()
+      .from(inventoryTransactions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(inventoryTransactions.createdAt));
+  }
+
+  async createInventoryTransaction(transaction: Omit<InventoryTransaction, 'id' | 'createdAt'>): Promise<InventoryTransaction> {
+    const [created] = await db
+      .insert(inventoryTransactions)
+      .values({ ...transaction, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async postInventoryTransaction(transaction: InventoryPosting): Promise<InventoryTransaction> {
+    // The part row lock serialises postings, so each balance follows on from the one before it
+    return await db.transaction(async (tx: any) => {
+      const [part] = await tx.select().from(parts).where(eq(parts.id, transaction.partId)).for('update');
+      if (!part) {
+        throw new Error('Part not found');
+      }
+      const [last] = await tx
+        .select({ balanceAfter: inventoryTransactions.balanceAfter })
+        .from(inventoryTransactions)
+        .where(eq(inventoryTransactions.partId, part.id))
+        .orderBy(desc(inventoryTransactions.createdAt))
+        .limit(1);
+      const onHand: number = last ? last.balanceAfter : part.stockLevel ?? 0;
+      const balanceAfter = onHand + transaction.quantity;
+      if (balanceAfter < 0) {
+        throw new InsufficientStockError(part.id, onHand);
+      }
+
+      const entry = { location: part.location, warehouseId: part.warehouseId };
+      if (!last && onHand !== 0) {
+        await tx.insert(inventoryTransactions).values({
+          ...entry, id: this.generateId(), partId: part.id, type: 'adjustment', quantity: onHand, balanceAfter: onHand,
+          reason: 'Opening balance', performedBy: transaction.performedBy,
+          // now() is fixed for the whole transaction; the clock keeps the two entries in order
+          createdAt: sql`clock_timestamp()`,
+        });
+      }
+      const [created] = await tx
+        .insert(inventoryTransactions)
+        .values({ ...transaction, ...entry, balanceAfter, id: this.generateId(), createdAt: sql`clock_timestamp()` })
+        .returning();
+      await tx.update(parts).set({ stockLevel: balanceAfter }).where(eq(parts.id, part.id));
+      return created;
+    });
+  }
+
+  async getInventoryReservations(filters: { partId?: string; workOrderId?: string; status?: InventoryReservation['status'] }): Promise<InventoryReservation[]> {
+    const conditions = [];
+    if (filters.partId) conditions.push(eq(inventoryReservations.partId, filters.partId));
+    if (filters.workOrderId) conditions.push(eq(inventoryReservations.workOrderId, filters.workOrderId));
+    if (filters.status) conditions.push(eq(inventoryReservations.status, filters.status));
+    return await db
+      .select()
+      .from(inventoryReservations)
+      .where(conditions.length > 0 ? and(...conditions) : undefined);
+  }
+
+  async getInventoryReservation(id: string): Promise<InventoryReservation | undefined> {
+    const [result] = await db.select().from(inventoryReservations).where(eq(inventoryReservations.id, id));
+    return result;
+  }
+
+  async createInventoryReservation(reservation: Omit<InventoryReservation, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryReservation> {
+    const [created] = await db
+      .insert(inventoryReservations)
+      .values({ ...reservation, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updateInventoryReservation(id: string, updates: Partial<InventoryReservation>): Promise<InventoryReservation> {
+    const [updated] = await db
+      .update(inventoryReservations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(inventoryReservations.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Inventory reservation not found');
+    }
+    return updated;
+  }
+
+  async getCycleCounts(warehouseId: string, status?: CycleCount['status']): Promise<CycleCount[]> {
+    const conditions = [eq(cycleCounts.warehouseId, warehouseId)];
+    if (status) {
+      conditions.push(eq(cycleCounts.status, status));
+    }
+    return await db
+      .select()
+      .from(cycleCounts)
+      .where(and(...conditions))
+      .orderBy(desc(cycleCounts.createdAt));
+  }
+
+  async getCycleCount(id: string): Promise<CycleCount | undefined> {
+    const [result] = await db.select().from(cycleCounts).where(eq(cycleCounts.id, id));
+    return result;
+  }
+
+  async createCycleCount(count: Omit<CycleCount, 'id' | 'createdAt'>): Promise<CycleCount> {
+    const [created] = await db
+      .insert(cycleCounts)
+      .values({ ...count, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updateCycleCount(id: string, updates: Partial<CycleCount>): Promise<CycleCount> {
+    const [updated] = await db
+      .update(cycleCounts)
+      .set(updates)
+      .where(eq(cycleCounts.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Cycle count not found');
+    }
+    return updated;
+  }
+
+  async getCycleCountLines(cycleCountId: string): Promise<CycleCountLine[]> {
+    return await db.select().from(cycleCountLines).where(eq(cycleCountLines.cycleCountId, cycleCountId));
+  }
+
+  async createCycleCountLine(line: Omit<CycleCountLine, 'id'>): Promise<CycleCountLine> {
+    const [created] = await db
+      .insert(cycleCountLines)
+      .values({ ...line, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updateCycleCountLine(id: string, updates: Partial<CycleCountLine>): Promise<CycleCountLine> {
+    const [updated] = await db
+      .update(cycleCountLines)
+      .set(updates)
+      .where(eq(cycleCountLines.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Cycle count line not found');
+    }
+    return updated;
+  }
+
+  // Transfer orders
+  async getTransferOrders(warehouseId: string, filters: { direction?: 'inbound' | 'outbound'; status?: TransferOrder['status'] } = {}): Promise<TransferOrder[]> {
+    const direction = filters.direction === 'inbound'
+      ? eq(transferOrders.toWarehouseId, warehouseId)
+      : filters.direction === 'outbound'
+        ? eq(transferOrders.fromWarehouseId, warehouseId)
+        : or(eq(transferOrders.toWarehouseId, warehouseId), eq(transferOrders.fromWarehouseId, warehouseId));
+    const conditions = [direction];
+    if (filters.status) {
+      conditions.push(eq(transferOrders.status, filters.status));
+    }
+    return await db
+      .select()
+      .from(transferOrders)
+      .where(and(...conditions))
+      .orderBy(desc(transferOrders.createdAt));
+  }
+
+  async getTransferOrder(id: string): Promise<TransferOrder | undefined> {
+    const [result] = await db.select().from(transferOrders).where(eq(transferOrders.id, id));
+    return result;
+  }
+
+  async createTransferOrder(order: Omit<TransferOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<TransferOrder> {
+    const [created] = await db
+      .insert(transferOrders)
+      .values({ ...order, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updateTransferOrder(id: string, updates: Partial<TransferOrder>): Promise<TransferOrder> {
+    const [updated] = await db
+      .update(transferOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(transferOrders.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Transfer order not found');
+    }
+    return updated;
+  }
+
+  async claimTransferOrder(id: string, fromStatuses: readonly TransferOrder['status'][], updates: Partial<TransferOrder>): Promise<TransferOrder | undefined> {
+    const [claimed] = await db
+      .update(transferOrders)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(transferOrders.id, id), inArray(transferOrders.status, [...fromStatuses])))
+      .returning();
+    return claimed;
+  }
+
   // Notifications
   async getNotifications(userId: string): Promise<Notification[]> {
     return await db.select().from(notifications).where(eq(notifications.userId, userId));
@@ -633,6 +1388,18 @@ export class DatabaseStorage implements IStorage {
       .where(eq(notifications.id, id));
   }
 
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<Notification> {
+    const [updated] = await db
+      .update(notifications)
+      .set(updates)
+      .where(eq(notifications.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Notification not found');
+    }
+    return updated;
+  }
+
   // Attachments
   async getAttachments(workOrderId?: string, equipmentId?: string, pmTemplateId?: string, vendorId?: string): Promise<Attachment[]> {
     let query = db.select().from(attachments);
@@ -667,6 +1434,332 @@ export class DatabaseStorage implements IStorage {
     await db.delete(attachments).where(eq(attachments.id, id));
   }
 
+  // Web Push subscriptions
+  async getPushSubscriptions(userId?: string): Promise<PushSubscription[]> {
+    if (userId) {
+      return await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+    }
+    return await db.select().from(pushSubscriptions);
+  }
+
+  async getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined> {
+    const [result] = await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.endpoint, endpoint));
+    return result;
+  }
+
+  async createPushSubscription(subscription: Omit<PushSubscription, 'id' | 'createdAt'>): Promise<PushSubscription> {
+    const [created] = await db
+      .insert(pushSubscriptions)
+      .values({ ...subscription, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async updatePushSubscription(id: string, updates: Partial<PushSubscription>): Promise<PushSubscription> {
+    const [updated] = await db
+      .update(pushSubscriptions)
+      .set(updates)
+      .where(eq(pushSubscriptions.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Push subscription not found');
+    }
+    return updated;
+  }
+
+  async deletePushSubscription(id: string): Promise<void> {
+    await db.delete(pushSubscriptions).where(eq(pushSubscriptions.id, id));
+  }
+
+  async getSyncMutation(idempotencyKey: string): Promise<SyncMutation | undefined> {
+    const [result] = await db.select().from(syncMutations).where(eq(syncMutations.idempotencyKey, idempotencyKey));
+    return result;
+  }
+
+  async createSyncMutation(mutation: Omit<SyncMutation, 'id' | 'createdAt'>): Promise<SyncMutation> {
+    const [created] = await db
+      .insert(syncMutations)
+      .values({ ...mutation, id: this.generateId() })
+      .returning();
+    return created;
+  }
+
+  async createJob(job: Omit<JobQueue, 'id' | 'createdAt'>): Promise<JobQueue | undefined> {
+    const [created] = await db
+      .insert(jobQueue)
+      .values({ ...job, id: this.generateId() })
+      .onConflictDoNothing({ target: jobQueue.dedupeKey })
+      .returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<JobQueue | undefined> {
+    const [result] = await db.select().from(jobQueue).where(eq(jobQueue.id, id));
+    return result;
+  }
+
+  async getJobs(filters: { status?: JobQueue['status']; jobType?: JobType; limit?: number }): Promise<JobQueue[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(jobQueue.status, filters.status));
+    if (filters.jobType) conditions.push(eq(jobQueue.jobType, filters.jobType));
+    const query = db
+      .select()
+      .from(jobQueue)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobQueue.createdAt));
+    return filters.limit ? await query.limit(filters.limit) : await query;
+  }
+
+  async updateJob(id: string, updates: Partial<JobQueue>): Promise<JobQueue> {
+    const [updated] = await db
+      .update(jobQueue)
+      .set(updates)
+      .where(eq(jobQueue.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Job not found');
+    }
+    return updated;
+  }
+
+  async claimJobs(workerId: string, limit: number, leaseMs: number, now: Date): Promise<JobQueue[]> {
+    // SKIP LOCKED lets every replica claim a different set of due jobs without waiting on each other
+    return await db.transaction(async (tx: any) => {
+      const due = await tx
+        .select({ id: jobQueue.id })
+        .from(jobQueue)
+        .where(or(
+          and(
+            or(eq(jobQueue.status, 'pending'), eq(jobQueue.status, 'failed')),
+            or(sql`${jobQueue.scheduledAt} IS NULL`, lte(jobQueue.scheduledAt, now)),
+          ),
+          and(eq(jobQueue.status, 'processing'), lt(jobQueue.lockedUntil, now)),
+        ))
+        .orderBy(asc(sql`COALESCE(${jobQueue.scheduledAt}, ${jobQueue.createdAt})`))
+        .limit(limit)
+        .for('update', { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+      return await tx
+        .update(jobQueue)
+        .set({
+          status: 'processing',
+          attempts: sql`COALESCE(${jobQueue.attempts}, 0) + 1`,
+          lockedBy: workerId,
+          lockedUntil: new Date(now.getTime() + leaseMs),
+        })
+        .where(inArray(jobQueue.id, due.map((row: { id: string }) => row.id)))
+        .returning();
+    });
+  }
+
+  async getJobQueueCounts(): Promise<{ jobType: JobType; status: JobQueue['status']; count: number }[]> {
+    const rows = await db
+      .select({ jobType: jobQueue.jobType, status: jobQueue.status, count: sql<number>`count(*)::int` })
+      .from(jobQueue)
+      .groupBy(jobQueue.jobType, jobQueue.status);
+    return rows;
+  }
+
+  async getJobSchedules(): Promise<JobSchedule[]> {
+    return await db.select().from(jobSchedules).orderBy(asc(jobSchedules.name));
+  }
+
+  async getJobSchedule(name: string): Promise<JobSchedule | undefined> {
+    const [result] = await db.select().from(jobSchedules).where(eq(jobSchedules.name, name));
+    return result;
+  }
+
+  async createJobSchedule(schedule: Omit<JobSchedule, 'updatedAt'>): Promise<JobSchedule> {
+    await db.insert(jobSchedules).values(schedule).onConflictDoNothing({ target: jobSchedules.name });
+    const [result] = await db.select().from(jobSchedules).where(eq(jobSchedules.name, schedule.name));
+    return result;
+  }
+
+  async updateJobSchedule(name: string, updates: Partial<JobSchedule>): Promise<JobSchedule> {
+    const [updated] = await db
+      .update(jobSchedules)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobSchedules.name, name))
+      .returning();
+    if (!updated) {
+      throw new Error('Job schedule not found');
+    }
+    return updated;
+  }
+
+  async advanceJobSchedule(name: string, expectedNextRunAt: Date, nextRunAt: Date, now: Date): Promise<boolean> {
+    // Compare-and-set on next_run_at: of several replicas seeing the same due slot, one moves it on
+    const updated = await db
+      .update(jobSchedules)
+      .set({ nextRunAt, lastRunAt: now, updatedAt: now })
+      .where(and(eq(jobSchedules.name, name), eq(jobSchedules.nextRunAt, expectedNextRunAt)))
+      .returning();
+    return updated.length > 0;
+  }
+
+  async acquireJobLock(name: string, owner: string, ttlMs: number, now: Date): Promise<boolean> {
+    const expiresAt = new Date(now.getTime() + ttlMs);
+    const acquired = await db
+      .insert(jobLocks)
+      .values({ name, owner, acquiredAt: now, expiresAt })
+      .onConflictDoUpdate({
+        target: jobLocks.name,
+        set: { owner, acquiredAt: now, expiresAt },
+        setWhere: or(lt(jobLocks.expiresAt, now), eq(jobLocks.owner, owner)),
+      })
+      .returning();
+    return acquired.length > 0;
+  }
+
+  async releaseJobLock(name: string, owner: string): Promise<void> {
+    await db.delete(jobLocks).where(and(eq(jobLocks.name, name), eq(jobLocks.owner, owner)));
+  }
+
+  // SLA calendars, policies and holds
+  async getSlaCalendar(warehouseId: string): Promise<SlaCalendar | undefined> {
+    const [result] = await db.select().from(slaCalendars).where(eq(slaCalendars.warehouseId, warehouseId));
+    return result;
+  }
+
+  async upsertSlaCalendar(warehouseId: string, calendar: InsertSlaCalendar, updatedBy?: string): Promise<SlaCalendar> {
+    const values = {
+      timezone: calendar.timezone,
+      weeklySchedule: calendar.weeklySchedule as SlaCalendar['weeklySchedule'],
+      holidays: calendar.holidays as SlaCalendar['holidays'],
+      pauseReasons: calendar.pauseReasons,
+      updatedBy: updatedBy || null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(slaCalendars)
+      .values({ id: this.generateId(), warehouseId, ...values, createdAt: new Date() })
+      .onConflictDoUpdate({ target: slaCalendars.warehouseId, set: values })
+      .returning();
+    return saved;
+  }
+
+  async getSlaPolicies(warehouseId: string): Promise<SlaPolicy[]> {
+    return await db.select().from(slaPolicies).where(eq(slaPolicies.warehouseId, warehouseId));
+  }
+
+  async upsertSlaPolicy(warehouseId: string, policy: InsertSlaPolicy): Promise<SlaPolicy> {
+    const values = {
+      responseMinutes: policy.responseMinutes,
+      resolutionMinutes: policy.resolutionMinutes,
+      businessHoursOnly: policy.businessHoursOnly ?? true,
+      atRiskPercent: policy.atRiskPercent ?? 75,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(slaPolicies)
+      .values({
+        id: this.generateId(),
+        warehouseId,
+        workOrderType: policy.workOrderType,
+        priority: policy.priority,
+        ...values,
+        createdAt: new Date(),
+      })
+      .onConflictDoUpdate({ target: [slaPolicies.warehouseId, slaPolicies.workOrderType, slaPolicies.priority], set: values })
+      .returning();
+    return saved;
+  }
+
+  async getWorkOrderHolds(workOrderId: string): Promise<WorkOrderHold[]> {
+    return await db.select().from(workOrderHolds)
+      .where(eq(workOrderHolds.workOrderId, workOrderId))
+      .orderBy(asc(workOrderHolds.startedAt));
+  }
+
+  async createWorkOrderHold(hold: Omit<WorkOrderHold, 'id'>): Promise<WorkOrderHold> {
+    const [result] = await db.insert(workOrderHolds).values({ ...hold, id: this.generateId() }).returning();
+    return result;
+  }
+
+  async updateWorkOrderHold(id: string, updates: Partial<WorkOrderHold>): Promise<WorkOrderHold> {
+    const [result] = await db.update(workOrderHolds).set(updates).where(eq(workOrderHolds.id, id)).returning();
+    return result;
+  }
+
+  // Escalation chains
+  async getEscalationRules(warehouseId: string): Promise<EscalationRule[]> {
+    return await db.select().from(escalationRules).where(eq(escalationRules.warehouseId, warehouseId));
+  }
+
+  async createEscalationRule(rule: Omit<EscalationRule, 'id' | 'createdAt'>): Promise<EscalationRule> {
+    const [result] = await db.insert(escalationRules).values({ ...rule, id: this.generateId() }).returning();
+    return result;
+  }
+
+  async updateEscalationRule(id: string, updates: Partial<EscalationRule>): Promise<EscalationRule> {
+    const [result] = await db.update(escalationRules).set(updates).where(eq(escalationRules.id, id)).returning();
+    return result;
+  }
+
+  async getEscalationHistory(workOrderId: string): Promise<EscalationHistory[]> {
+    return await db.select().from(escalationHistory)
+      .where(eq(escalationHistory.workOrderId, workOrderId))
+      .orderBy(asc(escalationHistory.escalatedAt));
+  }
+
+  async createEscalationHistory(entry: Omit<EscalationHistory, 'id'>): Promise<EscalationHistory> {
+    const [result] = await db.insert(escalationHistory).values({ ...entry, id: this.generateId() }).returning();
+    return result;
+  }
+
+  async updateEscalationHistory(id: string, updates: Partial<EscalationHistory>): Promise<EscalationHistory> {
+    const [result] = await db.update(escalationHistory).set(updates).where(eq(escalationHistory.id, id)).returning();
+    return result;
+  }
+
+  // On-call rotations
+  async getOnCallRotations(warehouseId: string): Promise<OnCallRotation[]> {
+    return await db.select().from(onCallRotations).where(eq(onCallRotations.warehouseId, warehouseId));
+  }
+
+  async getOnCallRotation(id: string): Promise<OnCallRotation | undefined> {
+    const [result] = await db.select().from(onCallRotations).where(eq(onCallRotations.id, id));
+    return result;
+  }
+
+  async upsertOnCallRotation(warehouseId: string, rotation: InsertOnCallRotation, updatedBy?: string): Promise<OnCallRotation> {
+    const values = {
+      name: rotation.name,
+      handoffFrequency: rotation.handoffFrequency,
+      handoffTime: rotation.handoffTime,
+      handoffDayOfWeek: rotation.handoffDayOfWeek ?? 1,
+      timezone: rotation.timezone ?? 'UTC',
+      anchorDate: rotation.anchorDate,
+      participants: rotation.participants,
+      active: rotation.active ?? true,
+      updatedBy: updatedBy || null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(onCallRotations)
+      .values({ id: this.generateId(), warehouseId, role: rotation.role, ...values, createdAt: new Date() })
+      .onConflictDoUpdate({ target: [onCallRotations.warehouseId, onCallRotations.role], set: values })
+      .returning();
+    return saved;
+  }
+
+  async getOnCallOverrides(rotationId: string): Promise<OnCallOverride[]> {
+    return await db.select().from(onCallOverrides)
+      .where(eq(onCallOverrides.rotationId, rotationId))
+      .orderBy(asc(onCallOverrides.startsAt));
+  }
+
+  async createOnCallOverride(override: Omit<OnCallOverride, 'id' | 'createdAt'>): Promise<OnCallOverride> {
+    const [result] = await db.insert(onCallOverrides).values({ ...override, id: this.generateId() }).returning();
+    return result;
+  }
+
+  async deleteOnCallOverride(id: string): Promise<void> {
+    await db.delete(onCallOverrides).where(eq(onCallOverrides.id, id));
+  }
+
   async getFileUploadStatistics(): Promise<{
     totalFiles: number;
     totalSize: number;
@@ -707,6 +1800,18 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment> {
+    const [updated] = await db
+      .update(attachments)
+      .set(updates)
+      .where(eq(attachments.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error('Attachment not found');
+    }
+    return updated;
+  }
+
   // Labor Time methods
   async getLaborTime(workOrderId: string): Promise<LaborTime[]> {
     return await db.select().from(laborTime).where(eq(laborTime.workOrderId, workOrderId));
@@ -726,11 +1831,14 @@ export class DatabaseStorage implements IStorage {
     return laborTimeEntry;
   }
 
-  async updateLaborTime(id: string, updateData: Partial<InsertLaborTime>): Promise<LaborTime> {
+  async updateLaborTime(id: string, updateData: Partial<InsertLaborTime>, expectedVersion?: number): Promise<LaborTime> {
     const [updated] = await db.update(laborTime)
-      .set(updateData as any)
-      .where(eq(laborTime.id, id))
+      .set({ ...(updateData as any), version: sql`${laborTime.version} + 1` })
+      .where(and(eq(laborTime.id, id), expectedVersion !== undefined ? eq(laborTime.version, expectedVersion) : undefined))
       .returning();
+    if (!updated && expectedVersion !== undefined) {
+      throw new StaleVersionError('labor_time', id);
+    }
     return updated;
   }
 
@@ -747,6 +1855,38 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  // Meter Readings
+  async getMeterReadings(equipmentId: string, meterType?: MeterReading['meterType']): Promise<MeterReading[]> {
+    const conditions = [eq(meterReadings.equipmentId, equipmentId)];
+    if (meterType) {
+      conditions.push(eq(meterReadings.meterType, meterType));
+    }
+    return await db.select().from(meterReadings)
+      .where(and(...conditions))
+      .orderBy(asc(meterReadings.readingAt));
+  }
+
+  async getLatestMeterReading(equipmentId: string, meterType: MeterReading['meterType']): Promise<MeterReading | undefined> {
+    const [result] = await db.select().from(meterReadings)
+      .where(and(
+        eq(meterReadings.equipmentId, equipmentId),
+        eq(meterReadings.meterType, meterType)
+      ))
+      .orderBy(desc(meterReadings.readingAt))
+      .limit(1);
+    return result;
+  }
+
+  async createMeterReading(reading: Omit<MeterReading, 'id' | 'createdAt'>): Promise<MeterReading> {
+    const newReading = {
+      ...reading,
+      id: this.generateId(),
+      createdAt: new Date(),
+    };
+    const [created] = await db.insert(meterReadings).values(newReading).returning();
+    return created;
+  }
+
   // System Logs
   async createSystemLog(log: Omit<SystemLog, 'id' | 'createdAt'>): Promise<SystemLog> {
     const newLog = {
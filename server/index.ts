@@ -6,7 +6,6 @@ import compression from 'compression';
 import helmet from 'helmet';
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { pmScheduler } from "./services/pm-scheduler";
 import { backgroundJobScheduler } from "./services/background-jobs";
 import { CacheService } from "./services/cache.service";
 import { performanceService } from "./services/performance.service";
@@ -108,11 +107,10 @@ app.use((req, res, next) => {
   next();
 });
 
-// Start PM scheduler
-pmScheduler.start();
-
 // Start background job scheduler
-backgroundJobScheduler.startAll();
+backgroundJobScheduler.startAll().catch(error => {
+  console.error('Failed to start background jobs:', error);
+});
 
 // Initialize the app
 async function initializeApp() {
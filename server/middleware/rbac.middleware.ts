@@ -0,0 +1,52 @@
+import { Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { RBACService, Resource, Action, UserRole } from '../services/auth/rbac.service';
+
+/**
+ * Resolve the request user's role from the token, falling back to their profile
+ */
+export async function resolveRequestRole(req: any): Promise<UserRole | undefined> {
+  if (req.user?.role) {
+    return req.user.role;
+  }
+  if (!req.user?.id) {
+    return undefined;
+  }
+  const profile = await storage.getProfile(req.user.id);
+  return profile?.role as UserRole | undefined;
+}
+
+/**
+ * Permission middleware backed by the RBAC role definitions.
+ * Must run after authenticateRequest so req.user is populated.
+ * getResourceOwnerId supplies the owner for 'self' conditions, e.g. the assignee of the work order being updated.
+ */
+export function requirePermission(resource: Resource, action: Action, getResourceOwnerId?: (req: any) => Promise<string | undefined>) {
+  return async (req: any, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user?.id) {
+        res.status(401).json({ message: 'Authentication required' });
+        return;
+      }
+
+      const role = await resolveRequestRole(req);
+      const allowed = !!role && RBACService.hasPermission({
+        userId: req.user.id,
+        role,
+        warehouseId: req.user.warehouseId,
+        sessionId: req.user.sessionId || '',
+        resourceOwnerId: getResourceOwnerId ? await getResourceOwnerId(req) : undefined,
+      }, resource, action);
+
+      if (!allowed) {
+        res.status(403).json({ message: 'Insufficient permissions' });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(403).json({ message: 'Access denied' });
+    }
+  };
+}
@@ -8,18 +8,48 @@ import {
   insertPartSchema,
   insertNotificationSchema,
   insertAttachmentSchema,
-  insertVendorSchema
+  insertVendorSchema,
+  escalationPolicySchema,
+  type InsertPart
 } from "@shared/schema";
 import { z } from "zod";
 import { SecurityService } from "./services/auth/security.service";
 import { notificationService } from "./services/notification.service";
 import { fileManagementService } from "./services/file-management.service";
 import { webhookService, WebhookEvents } from "./services/webhook.service";
+import { purchasingService } from "./services/purchasing.service";
+import { inventoryLedgerService, InventoryError } from "./services/inventory-ledger.service";
 import monitoringRoutes from "./routes/monitoring";
 import { registerWebhookRoutes } from "./routes/webhooks";
 import { registerAIPredictiveRoutes } from "./routes/ai-predictive";
 import { registerAuditRoutes } from "./routes/audit";
 import { registerLaborTimeRoutes } from "./routes/labor-time";
+import { registerWorkOrderLifecycleRoutes, getTransitionActor } from "./routes/work-order-lifecycle";
+import { registerMeterReadingRoutes } from "./routes/meter-readings";
+import { registerPMSchedulerRoutes } from "./routes/pm-scheduler";
+import { registerPurchasingRoutes } from "./routes/purchasing";
+import { registerInventoryRoutes } from "./routes/inventory";
+import { registerWarehouseTransferRoutes } from "./routes/warehouse-transfers";
+import { registerVendorRoutes } from "./routes/vendors";
+import { registerPushRoutes } from "./routes/push";
+import { registerNotificationPreferenceRoutes } from "./routes/notification-preferences";
+import { registerSyncRoutes } from "./routes/sync";
+import { registerSlaRoutes } from "./routes/sla";
+import { registerOnCallRoutes } from "./routes/on-call";
+import { registerChecklistRoutes } from "./routes/checklists";
+import { registerSignatureRoutes } from "./routes/signatures";
+import { registerAssetHierarchyRoutes } from "./routes/assets";
+import { registerDowntimeRoutes } from "./routes/downtime";
+import { registerFailureCodeRoutes } from "./routes/failure-codes";
+import { registerScanRoutes } from "./routes/scan";
+import { registerWorkRequestRoutes } from "./routes/work-requests";
+import { workRequestService, WorkRequestError } from "./services/work-request.service";
+import { slaService } from "./services/sla.service";
+import { onCallService } from "./services/on-call.service";
+import { checklistService } from "./services/checklist.service";
+import { assetHierarchyService, AssetHierarchyError } from "./services/asset-hierarchy.service";
+import { downtimeService } from "./services/downtime.service";
+import { WorkOrderTransitionError, workOrderLifecycle } from "./services/work-order-lifecycle";
 import { auditMiddleware } from "./middleware/audit.middleware";
 import { performanceMiddleware, errorTrackingMiddleware } from "./middleware/performance.middleware";
 import { securityHeaders, sanitizeInput, validateRequest, apiRateLimit, authRateLimit } from "./middleware/security.middleware";
@@ -91,9 +121,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create rate limiters
   const authRateLimit = createRateLimiter(15 * 60 * 1000, 5); // 5 attempts per 15 minutes  
   const apiRateLimit = createRateLimiter(60 * 1000, 100); // 100 requests per minute
+  const publicRateLimit = createRateLimiter(15 * 60 * 1000, 30); // unauthenticated request portal
 
   // Apply rate limiting to API routes
   app.use('/api/auth', authRateLimit);
+  app.use('/api/public', publicRateLimit);
   app.use('/api', apiRateLimit);
   console.log('Rate limiting enabled');
   
@@ -632,10 +664,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Equipment
+  // ?view=tree for the location/asset tree; ?parentId= or ?locationId= (with &subtree=true) for part of it
   app.get("/api/equipment", async (req, res) => {
     try {
       const warehouseId = getCurrentWarehouse(req);
-      const equipment = await storage.getEquipment(warehouseId);
+      if (req.query.view === 'tree') {
+        return res.json(await assetHierarchyService.getAssetTree(warehouseId));
+      }
+      const equipment = await assetHierarchyService.queryEquipment(warehouseId, {
+        parentId: req.query.parentId ? String(req.query.parentId) : undefined,
+        locationId: req.query.locationId ? String(req.query.locationId) : undefined,
+        subtree: req.query.subtree === 'true',
+      });
       res.json(equipment);
     } catch (error) {
       res.status(500).json({ message: "Failed to get equipment" });
@@ -677,25 +717,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const parsedData = insertEquipmentSchema.parse(equipmentData);
+      await assetHierarchyService.validatePlacement(null, parsedData.warehouseId, parsedData);
       const equipment = await storage.createEquipment(parsedData);
+      await assetHierarchyService.recordInitialPlacement(equipment, getCurrentUser(req));
       res.status(201).json(equipment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid equipment data", errors: error.errors });
       }
+      if (error instanceof AssetHierarchyError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create equipment" });
     }
   });
 
   app.patch("/api/equipment/:id", async (req, res) => {
     try {
-      const equipmentData = insertEquipmentSchema.partial().parse(req.body);
+      const { locationId, parentEquipmentId, ...equipmentData } = insertEquipmentSchema.partial().parse(req.body);
+      const existing = await storage.getEquipmentById(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+      // Placement changes go through a move so the installation history stays complete
+      if (locationId !== undefined || parentEquipmentId !== undefined) {
+        await assetHierarchyService.moveEquipment(req.params.id, { locationId, parentEquipmentId }, getCurrentUser(req));
+      }
       const equipment = await storage.updateEquipment(req.params.id, equipmentData);
+
+      // Going into maintenance opens downtime; coming back to active closes it
+      try {
+        await downtimeService.onEquipmentStatusChange(existing, equipment, getCurrentUser(req));
+      } catch (error) {
+        console.error('Failed to record equipment downtime:', error);
+      }
       res.json(equipment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid equipment data", errors: error.errors });
       }
+      if (error instanceof AssetHierarchyError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update equipment" });
     }
   });
@@ -739,6 +802,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/work-orders", authenticateRequest, async (req, res) => {
     try {
+      // Requesters can't create work directly; what they raise waits in the triage queue for approval
+      if ((req as any).user?.role === 'requester') {
+        const request = await workRequestService.submitInternal(req.body, getCurrentUser(req), getCurrentWarehouse(req));
+        return res.status(202).json(request);
+      }
+
       // Auto-populate required fields
       const workOrderData = {
         ...req.body,
@@ -750,7 +819,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const parsedData = insertWorkOrderSchema.parse(workOrderData);
-      const workOrder = await storage.createWorkOrder(parsedData);
+
+      // Unassigned emergencies go to whoever is on call for the warehouse right now
+      let onCallAssigned = false;
+      if (parsedData.type === 'emergency' && !parsedData.assignedTo) {
+        try {
+          const onCall = await onCallService.findOnCallProfile(parsedData.warehouseId, 'technician');
+          if (onCall) {
+            parsedData.assignedTo = onCall.id;
+            if (parsedData.status === 'new') {
+              parsedData.status = 'assigned';
+              onCallAssigned = true;
+            }
+          }
+        } catch (error) {
+          console.error('Failed to resolve on-call technician:', error);
+        }
+      }
+
+      let workOrder = await storage.createWorkOrder(parsedData);
+
+      // The work order skipped 'new', so record the move like any other assignment
+      if (onCallAssigned) {
+        await storage.createWorkOrderStatusHistory({
+          workOrderId: workOrder.id,
+          fromStatus: 'new',
+          toStatus: 'assigned',
+          changedBy: getCurrentUser(req),
+          reason: 'Assigned to the on-call technician',
+          metadata: { changes: { assignedTo: workOrder.assignedTo } },
+        });
+      }
+
+      // Stamp the SLA due times now rather than on the next background check
+      try {
+        workOrder = (await slaService.refresh(workOrder)).workOrder;
+      } catch (error) {
+        console.error('Failed to set SLA due times:', error);
+      }
+
+      // An emergency means the equipment is down from now until the work is completed
+      try {
+        await downtimeService.onWorkOrderCreated(workOrder, getCurrentUser(req));
+      } catch (error) {
+        console.error('Failed to open downtime for work order:', error);
+      }
       
       // Send real-time notifications
       const warehouseId = getCurrentWarehouse(req);
@@ -795,6 +908,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid work order data", errors: error.errors });
       }
+      if (error instanceof WorkRequestError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create work order" });
     }
   });
@@ -802,7 +918,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/work-orders/:id", authenticateRequest, async (req, res) => {
     try {
       const workOrderData = insertWorkOrderSchema.partial().parse(req.body);
-      const workOrder = await storage.updateWorkOrder(req.params.id, workOrderData);
+      // Only the lifecycle sets verifiedBy, to whoever verifies
+      delete (workOrderData as { verifiedBy?: string }).verifiedBy;
+      const existing = await storage.getWorkOrder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+
+      // Status changes go through the lifecycle guards; other fields update directly
+      let workOrder;
+      if (workOrderData.status && workOrderData.status !== existing.status) {
+        const { status, ...changes } = workOrderData;
+        ({ workOrder } = await workOrderLifecycle.transition(req.params.id, status, getTransitionActor(req), {
+          reason: req.body.reason,
+          changes,
+        }));
+      } else {
+        workOrder = await storage.updateWorkOrder(req.params.id, workOrderData);
+      }
       
       // Send real-time notifications for updates
       const warehouseId = getCurrentWarehouse(req);
@@ -828,7 +961,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Notify if reassigned
-      if (workOrderData.assignedTo && workOrderData.assignedTo !== workOrder.assignedTo) {
+      if (workOrderData.assignedTo && workOrderData.assignedTo !== existing.assignedTo) {
         await notificationService.sendNotification({
           id: crypto.randomUUID(),
           userId: workOrderData.assignedTo,
@@ -867,6 +1000,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid work order data", errors: error.errors });
       }
+      if (error instanceof WorkOrderTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
       if (error.message === 'Work order not found') {
         return res.status(404).json({ message: "Work order not found" });
       }
@@ -915,15 +1051,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/checklist-items/:id", async (req, res) => {
-    try {
-      const item = await storage.updateChecklistItem(req.params.id, req.body);
-      res.json(item);
-    } catch (error) {
-      res.status(500).json({ message: "Failed to update checklist item" });
-    }
-  });
-
   // Parts
   app.get("/api/parts", async (req, res) => {
     try {
@@ -949,7 +1076,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/parts/number/:partNumber", async (req, res) => {
     try {
-      const part = await storage.getPartByNumber(req.params.partNumber);
+      // Part numbers are unique per warehouse; prefer the caller's own site
+      const part = await storage.getPartByNumber(req.params.partNumber, getCurrentWarehouse(req))
+        || await storage.getPartByNumber(req.params.partNumber);
       if (!part) {
         return res.status(404).json({ message: "Part not found" });
       }
@@ -962,7 +1091,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/parts", async (req, res) => {
     try {
       const partData = insertPartSchema.parse(req.body);
-      const part = await storage.createPart(partData);
+      const { stockLevel, ...rest } = partData as typeof partData & { stockLevel?: number | null };
+      // Opening stock is posted to the ledger rather than written directly
+      let part = await storage.createPart({ ...rest, stockLevel: 0 });
+      if (stockLevel) {
+        await inventoryLedgerService.recordTransaction({
+          partId: part.id,
+          type: 'adjustment',
+          quantity: stockLevel,
+          reason: 'Opening balance',
+          performedBy: getCurrentUser(req),
+        });
+        part = (await storage.getPart(part.id))!;
+      }
       res.status(201).json(part);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -974,13 +1115,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/parts/:id", async (req, res) => {
     try {
-      const partData = insertPartSchema.partial().parse(req.body);
-      const part = await storage.updatePart(req.params.id, partData);
+      const { stockLevel, ...partData } = insertPartSchema.partial().parse(req.body) as Partial<InsertPart> & { stockLevel?: number | null };
+      let part = await storage.updatePart(req.params.id, partData);
+      // A new stock level is recorded as an adjustment so the change is explained in the ledger
+      if (stockLevel !== undefined && stockLevel !== null) {
+        await inventoryLedgerService.adjustTo(part.id, stockLevel, getCurrentUser(req), req.body.reason);
+        part = (await storage.getPart(part.id))!;
+      }
       res.json(part);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid part data", errors: error.errors });
       }
+      if (error instanceof InventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update part" });
     }
   });
@@ -1012,23 +1161,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Part not found' });
       }
 
-      // Check stock availability if consuming inventory
+      // Check stock availability if consuming inventory; this work order's own reservation counts as available
       const consumeInventory = req.body.consumeInventory !== false; // Default to true
-      if (consumeInventory && part.stockLevel < req.body.quantityUsed) {
-        return res.status(400).json({ 
-          message: 'Insufficient stock',
-          available: part.stockLevel,
-          requested: req.body.quantityUsed
-        });
+      if (consumeInventory) {
+        const availability = await inventoryLedgerService.getAvailability(part.id, req.params.id);
+        if (availability.available < req.body.quantityUsed) {
+          return res.status(400).json({ 
+            message: 'Insufficient stock',
+            available: availability.available,
+            onHand: availability.onHand,
+            requested: req.body.quantityUsed
+          });
+        }
       }
       
       const usage = await storage.createPartsUsage(usageData);
       let inventoryImpact = null;
       
-      // Update part stock level if consuming inventory
+      // Issue to the work order through the inventory ledger
       if (consumeInventory) {
-        const newStockLevel = Math.max(0, part.stockLevel - req.body.quantityUsed);
-        await storage.updatePart(req.body.partId, { stockLevel: newStockLevel });
+        const transaction = await inventoryLedgerService.issueToWorkOrder(part.id, req.params.id, req.body.quantityUsed, getCurrentUser(req));
+        const newStockLevel = transaction.balanceAfter;
         
         inventoryImpact = {
           partId: req.body.partId,
@@ -1036,6 +1189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           newStockLevel,
           triggerReorder: newStockLevel <= part.reorderPoint,
           costImpact: req.body.quantityUsed * req.body.unitCost,
+          transactionId: transaction.id,
         };
 
         // Broadcast real-time inventory update
@@ -1047,21 +1201,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           workOrderId: req.params.id,
         });
         
-        // Check if below reorder point and create notification
+        // Below reorder point: notify and draft a replenishment requisition
         if (newStockLevel <= part.reorderPoint) {
-          const notification = await storage.createNotification({
-            userId: 'supervisor-id', // In real app, get actual supervisor
-            type: 'part_low_stock',
-            title: 'Low Stock Alert',
-            message: `Part ${part.partNumber} is below reorder point (${newStockLevel}/${part.reorderPoint})`,
-            partId: part.id,
-            read: false,
-          });
+          const requisition = await purchasingService.handleLowStock({ ...part, stockLevel: newStockLevel }, getCurrentUser(req));
 
           // Broadcast reorder alert
           notificationService.broadcastToWarehouse(part.warehouseId, {
             type: 'low_stock_alert',
-            notification,
+            requisition,
             part: {
               id: part.id,
               partNumber: part.partNumber,
@@ -1078,6 +1225,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         inventoryImpact,
       });
     } catch (error) {
+      if (error instanceof InventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error creating parts usage:', error);
       res.status(500).json({ message: "Failed to create parts usage" });
     }
@@ -1095,6 +1245,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'No parts usage found for this work order' });
       }
 
+      // Validate every line up front so a shortage does not leave a partial issue behind
+      const required = new Map<string, number>();
+      for (const usage of partsUsage) {
+        required.set(usage.partId, (required.get(usage.partId) || 0) + usage.quantityUsed);
+      }
+      const shortages = [];
+      for (const [partId, quantity] of Array.from(required)) {
+        const availability = await inventoryLedgerService.getAvailability(partId, workOrderId);
+        if (availability.available < quantity) {
+          shortages.push({ partId, requested: quantity, available: availability.available });
+        }
+      }
+      if (shortages.length > 0) {
+        return res.status(400).json({ message: 'Insufficient stock', shortages });
+      }
+
       let consumedCount = 0;
       const lowStockAlerts = [];
       
@@ -1103,23 +1269,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const part = await storage.getPart(usage.partId);
         if (!part) continue;
 
-        // Consume from inventory
-        const newStockLevel = Math.max(0, part.stockLevel - usage.quantityUsed);
-        
-        await storage.updatePart(usage.partId, { stockLevel: newStockLevel });
+        // Issue from inventory through the ledger
+        const transaction = await inventoryLedgerService.issueToWorkOrder(part.id, workOrderId, usage.quantityUsed, getCurrentUser(req));
+        const newStockLevel = transaction.balanceAfter;
         
         consumedCount++;
 
-        // Check for low stock
+        // Check for low stock and draft replenishment
         if (newStockLevel <= part.reorderPoint) {
-          const notification = await storage.createNotification({
-            userId: 'supervisor-id',
-            type: 'part_low_stock',
-            title: 'Low Stock Alert',
-            message: `Part ${part.partNumber} is below reorder point (${newStockLevel}/${part.reorderPoint})`,
-            partId: part.id,
-            read: false,
-          });
+          const requisition = await purchasingService.handleLowStock({ ...part, stockLevel: newStockLevel }, getCurrentUser(req));
 
           lowStockAlerts.push({
             part: {
@@ -1128,8 +1286,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               description: part.description,
               stockLevel: newStockLevel,
               reorderPoint: part.reorderPoint,
+              warehouseId: part.warehouseId,
             },
-            notification,
+            requisition,
           });
         }
 
@@ -1157,6 +1316,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: `Successfully consumed ${consumedCount} parts from inventory`,
       });
     } catch (error) {
+      if (error instanceof InventoryError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
       console.error('Error consuming parts:', error);
       res.status(500).json({ message: 'Failed to consume parts' });
     }
@@ -1297,34 +1459,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/escalation/rules/:warehouseId", authenticateRequest, async (req, res) => {
     try {
       const { escalationEngine } = await import('./services/escalation-engine');
-      const rules = escalationEngine.getEscalationRules(req.params.warehouseId);
+      const rules = await escalationEngine.getEscalationRules(req.params.warehouseId);
       res.json(rules);
     } catch (error) {
       res.status(500).json({ message: "Failed to get escalation rules" });
     }
   });
 
-  app.put("/api/escalation/rules/:warehouseId", authenticateRequest, async (req, res) => {
+  // Save the escalation chain for one work order type and priority
+  app.put("/api/escalation/rules/:warehouseId", authenticateRequest, requireRole('manager', 'admin'), async (req, res) => {
     try {
-      const { escalationEngine } = await import('./services/escalation-engine');
-      const { ruleId, ...updates } = req.body;
-      if (ruleId) {
-        // Update existing rule
-        await escalationEngine.updateEscalationRule(ruleId, updates);
-      } else {
-        // Create new rule
-        const newRuleId = await escalationEngine.createEscalationRule({
-          ...updates,
-          warehouseId: req.params.warehouseId
-        });
-        return res.json({ message: "Escalation rule created successfully", ruleId: newRuleId });
+      const { escalationEngine, EscalationError } = await import('./services/escalation-engine');
+      try {
+        const policy = escalationPolicySchema.parse(req.body);
+        res.json(await escalationEngine.saveEscalationPolicy(req.params.warehouseId, policy));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid escalation policy", errors: error.errors });
+        }
+        if (error instanceof EscalationError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
       }
-      res.json({ message: "Escalation rule updated successfully" });
     } catch (error) {
+      console.error('Update escalation rule error:', error);
       res.status(500).json({ message: "Failed to update escalation rule" });
     }
   });
 
+  // Acknowledge an escalation, which stops the chain and its reminders
+  app.post("/api/escalation/acknowledge/:workOrderId", authenticateRequest, async (req, res) => {
+    try {
+      const { escalationEngine, EscalationError } = await import('./services/escalation-engine');
+      try {
+        const { note } = z.object({ note: z.string().max(1000).optional() }).parse(req.body ?? {});
+        res.json(await escalationEngine.acknowledge(req.params.workOrderId, getCurrentUser(req), note));
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid acknowledgement", errors: error.errors });
+        }
+        if (error instanceof EscalationError) {
+          return res.status(error.statusCode).json({ message: error.message });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error('Acknowledge escalation error:', error);
+      res.status(500).json({ message: "Failed to acknowledge escalation" });
+    }
+  });
+
   // Get escalation history for a work order
   app.get("/api/escalation/history/:workOrderId", authenticateRequest, async (req, res) => {
     try {
@@ -1408,47 +1593,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/background-jobs", authenticateRequest, async (req, res) => {
     try {
       const { backgroundJobScheduler } = await import('./services/background-jobs');
-      const jobs = backgroundJobScheduler.getJobStatus();
+      const jobs = await backgroundJobScheduler.getJobStatus();
       res.json(jobs);
     } catch (error) {
       res.status(500).json({ message: "Failed to get job status" });
     }
   });
 
+  // Queue depth by status and type, recent failures and dead-lettered jobs, and schedules
+  app.get("/api/background-jobs/queue", authenticateRequest, async (req, res) => {
+    try {
+      const { jobQueueService } = await import('./services/job-queue.service');
+      res.json(await jobQueueService.getStats());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get job queue stats" });
+    }
+  });
+
+  app.post("/api/background-jobs/queue/:id/retry", authenticateRequest, async (req, res) => {
+    try {
+      const { jobQueueService } = await import('./services/job-queue.service');
+      const job = await jobQueueService.retry(req.params.id);
+      res.json(job);
+    } catch (error) {
+      res.status(error.statusCode || 500).json({ message: error.message || "Failed to retry job" });
+    }
+  });
+
   app.post("/api/background-jobs/:jobId/run", authenticateRequest, async (req, res) => {
     try {
       const { backgroundJobScheduler } = await import('./services/background-jobs');
       await backgroundJobScheduler.runJobManually(req.params.jobId);
       res.json({ message: "Job executed successfully" });
     } catch (error) {
-      res.status(500).json({ message: error.message || "Failed to run job" });
+      res.status(error.statusCode || 500).json({ message: error.message || "Failed to run job" });
     }
   });
 
   app.patch("/api/background-jobs/:jobId", authenticateRequest, async (req, res) => {
     try {
       const { backgroundJobScheduler } = await import('./services/background-jobs');
-      const { enabled, interval } = req.body;
+      const { enabled, interval, cron } = req.body;
       
       if (typeof enabled === 'boolean') {
-        backgroundJobScheduler.setJobEnabled(req.params.jobId, enabled);
+        await backgroundJobScheduler.setJobEnabled(req.params.jobId, enabled);
       }
       
-      if (typeof interval === 'number') {
-        backgroundJobScheduler.updateJobInterval(req.params.jobId, interval);
+      if (typeof cron === 'string') {
+        await backgroundJobScheduler.updateJobSchedule(req.params.jobId, cron);
+      } else if (typeof interval === 'number') {
+        await backgroundJobScheduler.updateJobInterval(req.params.jobId, interval);
       }
       
       res.json({ message: "Job updated successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to update job" });
+      res.status(error.statusCode || 500).json({ message: error.message || "Failed to update job" });
     }
   });
 
   // Vendors
+  // Register vendor scorecard and document routes (before /api/vendors/:id)
+  registerVendorRoutes(app, authenticateRequest, requireRole);
+  console.log('Vendor routes registered');
+
   app.get("/api/vendors", authenticateRequest, async (req, res) => {
     try {
       const warehouseId = getCurrentWarehouse(req);
-      const vendors = await storage.getVendors(warehouseId);
+      const type = req.query.type as string | undefined;
+      const status = req.query.status as string | undefined;
+      const vendors = (await storage.getVendors(warehouseId)).filter(vendor =>
+        (!type || type === 'all' || vendor.type === type) &&
+        (!status || status === 'all' || (vendor.status || 'active') === status)
+      );
       res.json(vendors);
     } catch (error) {
       res.status(500).json({ message: "Failed to get vendors" });
@@ -1491,7 +1707,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/vendors/:id", authenticateRequest, async (req, res) => {
     try {
       const vendorData = insertVendorSchema.partial().parse(req.body);
-      const vendor = await storage.updateVendor(req.params.id, vendorData);
+      const vendor = await storage.updateVendor(req.params.id, {
+        ...vendorData,
+        // Setting a vendor active hands it back to the document check; anything else is a hold
+        ...(vendorData.status && { statusSource: vendorData.status === 'active' ? 'compliance' : 'manual' }),
+      });
       res.json(vendor);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -1541,6 +1761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Warehouse ID is required" });
       }
 
+      checklistService.validateDefinitions(req.body.customFields);
       const templateData = {
         ...req.body,
         warehouseId,
@@ -1550,6 +1771,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const template = await storage.createPmTemplate(templateData);
       res.status(201).json(template);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid checklist items", details: error.errors });
+      }
       console.error("Error creating PM template:", error);
       res.status(500).json({ error: "Failed to create PM template" });
     }
@@ -1563,6 +1787,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Warehouse ID is required" });
       }
 
+      checklistService.validateDefinitions(req.body.customFields);
       const template = await storage.updatePmTemplate(id, req.body);
       if (!template) {
         return res.status(404).json({ error: "PM template not found" });
@@ -1570,6 +1795,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(template);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid checklist items", details: error.errors });
+      }
       console.error("Error updating PM template:", error);
       res.status(500).json({ error: "Failed to update PM template" });
     }
@@ -1682,8 +1910,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!pmScheduler) {
         return res.status(503).json({ error: "PM Scheduler service is not available" });
       }
-      pmScheduler.start();
-      res.json({ message: "PM scheduler started", status: pmScheduler.getStatus() });
+      await pmScheduler.start();
+      res.json({ message: "PM scheduler started", status: await pmScheduler.getStatus() });
     } catch (error) {
       console.error("Error starting PM scheduler:", error);
       res.status(500).json({ error: "Failed to start PM scheduler" });
@@ -1695,8 +1923,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!pmScheduler) {
         return res.status(503).json({ error: "PM Scheduler service is not available" });
       }
-      pmScheduler.stop();
-      res.json({ message: "PM scheduler stopped", status: pmScheduler.getStatus() });
+      await pmScheduler.stop();
+      res.json({ message: "PM scheduler stopped", status: await pmScheduler.getStatus() });
     } catch (error) {
       console.error("Error stopping PM scheduler:", error);
       res.status(500).json({ error: "Failed to stop PM scheduler" });
@@ -1708,7 +1936,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!pmScheduler) {
         return res.status(503).json({ error: "PM Scheduler service is not available" });
       }
-      const status = pmScheduler.getStatus();
+      const status = await pmScheduler.getStatus();
       res.json(status);
     } catch (error) {
       console.error("Error getting PM scheduler status:", error);
@@ -1726,8 +1954,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Warehouse ID is required" });
       }
 
-      await pmScheduler.runForWarehouse(warehouseId);
-      res.json({ message: "PM scheduler run completed" });
+      const { acquired, generated } = await pmScheduler.runForWarehouse(warehouseId);
+      if (!acquired) {
+        return res.status(409).json({ error: "PM generation is already running" });
+      }
+      res.json({ message: "PM scheduler run completed", generated });
     } catch (error) {
       console.error("Error running PM scheduler:", error);
       res.status(500).json({ error: "Failed to run PM scheduler" });
@@ -1797,7 +2028,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(503).json({ error: "PM Engine service is not available" });
       }
       const warehouseId = getCurrentWarehouse(req);
-      const result = await pmEngine.generatePMWorkOrders(warehouseId);
+      // Through the same lock as the scheduled job, so a manual run can't duplicate its PMs
+      const { backgroundJobScheduler } = await import('./services/background-jobs');
+      const { acquired, workOrders: result } = await backgroundJobScheduler.generatePMs(warehouseId);
+      if (!acquired) {
+        return res.status(409).json({ message: "PM generation is already running" });
+      }
       res.json({ 
         success: true, 
         generated: result.length, 
@@ -1857,8 +2093,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(503).json({ error: "PM Engine service is not available" });
       }
       const warehouseId = getCurrentWarehouse(req);
-      const result = await pmEngine.runPMAutomation(warehouseId);
-      res.json(result);
+      const { backgroundJobScheduler } = await import('./services/background-jobs');
+      const { acquired, workOrders } = await backgroundJobScheduler.generatePMs(warehouseId);
+      if (!acquired) {
+        return res.status(409).json({ message: "PM generation is already running" });
+      }
+      res.json({ generated: workOrders.length, errors: [] });
     } catch (error) {
       console.error('PM automation error:', error);
       res.status(500).json({ message: "Failed to run PM automation" });
@@ -2008,9 +2248,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics/equipment-performance", authenticateRequest, async (req, res) => {
     try {
       // Get all equipment (use default warehouse for analytics)
-      const equipment = await storage.getEquipment('default-warehouse');
-      
-      // Generate realistic equipment metrics based on existing data
+      const allEquipment = await storage.getEquipment('default-warehouse');
+      const equipment = req.query.equipmentId
+        ? allEquipment.filter(e => e.id === String(req.query.equipmentId))
+        : allEquipment;
+
+      // Availability, MTBF and MTTR come from recorded downtime, compared with the period before
+      const periodDays = ({ '7d': 7, '30d': 30, '90d': 90, '1y': 365 } as Record<string, number>)[String(req.query.timeRange)] || 30;
+      const to = new Date();
+      const from = new Date(to.getTime() - periodDays * 24 * 60 * 60 * 1000);
+      const previousFrom = new Date(from.getTime() - periodDays * 24 * 60 * 60 * 1000);
+      const [reliability, previousReliability] = await Promise.all([
+        downtimeService.getWarehouseReliability('default-warehouse', { from, to }),
+        downtimeService.getWarehouseReliability('default-warehouse', { from: previousFrom, to: from }),
+      ]);
+
       const equipmentMetrics = await Promise.all(equipment.map(async (equip) => {
         // Get work orders for this equipment
         const workOrders = await storage.getWorkOrders('default-warehouse');
@@ -2021,13 +2273,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const correctiveWorkOrders = equipmentWorkOrders.filter(wo => wo.type === 'corrective').length;
         const emergencyWorkOrders = equipmentWorkOrders.filter(wo => wo.priority === 'high').length;
         
-        // Generate realistic metrics based on equipment data
-        const baseReliability = equip.status === 'active' ? 0.95 : 0.7;
-        const maintenanceHistory = totalWorkOrders > 0 ? Math.max(0.6, 1 - (totalWorkOrders * 0.05)) : 0.95;
-        
-        const availability = Math.min(100, Math.max(60, baseReliability * maintenanceHistory * 100 + (Math.random() * 10 - 5)));
-        const mtbf = Math.max(100, Math.min(2000, 720 + (Math.random() * 500 - 250))); // Hours
-        const mttr = Math.max(0.5, Math.min(48, (Math.random() * 8 + 2))); // Hours
+        const current = reliability.get(equip.id)!;
+        const previous = previousReliability.get(equip.id)!;
+        const availability = current.availability;
+        const mtbf = current.mtbf ?? current.periodHours; // no failures: up for the whole period
+        const mttr = current.mttr ?? 0; // Hours
+        const previousMtbf = previous.mtbf ?? previous.periodHours;
         
         // Health score based on multiple factors
         const healthScore = Math.min(100, Math.max(30, 
@@ -2041,9 +2292,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const qualityScore = Math.min(100, Math.max(60, healthScore * 0.95 + (Math.random() * 10)));
 
         // Determine trends based on recent performance
+        const trendOf = (now: number, before: number) =>
+          now > before * 1.05 ? 'improving' : (now < before * 0.95 ? 'declining' : 'stable');
         const trends = {
-          mtbfTrend: healthScore > 80 ? 'improving' : (healthScore < 65 ? 'declining' : 'stable'),
-          availabilityTrend: availability > 90 ? 'improving' : (availability < 75 ? 'declining' : 'stable'),
+          mtbfTrend: trendOf(mtbf, previousMtbf),
+          availabilityTrend: trendOf(availability, previous.availability),
           costTrend: emergencyWorkOrders > totalWorkOrders * 0.3 ? 'declining' : 'stable',
         };
 
@@ -2064,9 +2317,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           preventiveWorkOrders,
           correctiveWorkOrders,
           emergencyWorkOrders,
-          totalDowntime: Math.round(mttr * totalWorkOrders),
+          totalDowntime: current.downtimeHours,
+          plannedDowntime: current.plannedDowntimeHours,
+          unplannedDowntime: current.unplannedDowntimeHours,
+          failures: current.failures,
+          downtimeReasons: current.downtimeReasons,
           maintenanceCost,
-          lastFailureDate: equipmentWorkOrders.length > 0 ? equipmentWorkOrders[equipmentWorkOrders.length - 1]?.createdAt : null,
+          lastFailureDate: current.lastFailureAt,
           nextPmDue: new Date(Date.now() + Math.random() * 30 * 24 * 60 * 60 * 1000).toISOString(), // Random date within 30 days
           criticalityScore: Math.ceil(Math.random() * 10),
           healthScore: Math.round(healthScore),
@@ -2100,11 +2357,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return woDate.getMonth() === date.getMonth() && woDate.getFullYear() === date.getFullYear();
         });
 
+        // The current month runs to now rather than its end
+        const monthEnd = new Date(Math.min(Date.now(), new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()));
+        const fleet = await downtimeService.getFleetReliability('default-warehouse', { from: date, to: monthEnd });
+
         const monthlyTrend = {
           date: date.toISOString().slice(0, 7), // YYYY-MM format
-          availability: Math.round((92 + Math.sin(i * 0.5) * 5) * 10) / 10,
-          mtbf: Math.round(720 + Math.cos(i * 0.3) * 100),
-          mttr: Math.round((4 + Math.sin(i * 0.8) * 2) * 10) / 10,
+          availability: fleet.availability,
+          mtbf: Math.round(fleet.mtbf ?? fleet.periodHours),
+          mttr: fleet.mttr ?? 0,
           cost: Math.round(50000 + Math.random() * 20000),
           workOrders: monthWorkOrders.length,
         };
@@ -2135,6 +2396,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerLaborTimeRoutes(app);
   console.log('Labor time routes registered');
 
+  // Register work order lifecycle routes
+  registerWorkOrderLifecycleRoutes(app, authenticateRequest, requireRole);
+  console.log('Work order lifecycle routes registered');
+
+  // Register meter reading routes
+  registerMeterReadingRoutes(app, authenticateRequest, requireRole);
+  console.log('Meter reading routes registered');
+
+  // Register PM scheduling rule and config routes
+  registerPMSchedulerRoutes(app, authenticateRequest, requireRole);
+  console.log('PM scheduler routes registered');
+
+  // Register purchasing routes
+  registerPurchasingRoutes(app, authenticateRequest, requireRole);
+  console.log('Purchasing routes registered');
+
+  // Register inventory ledger routes
+  registerInventoryRoutes(app, authenticateRequest, requireRole);
+  console.log('Inventory routes registered');
+
+  // Register warehouse transfer routes
+  registerWarehouseTransferRoutes(app, authenticateRequest, requireRole);
+  console.log('Warehouse transfer routes registered');
+
+  // Register Web Push subscription routes
+  registerPushRoutes(app, authenticateRequest, requireRole);
+  console.log('Push notification routes registered');
+
+  // Register notification preference routes
+  registerNotificationPreferenceRoutes(app, authenticateRequest, requireRole);
+  console.log('Notification preference routes registered');
+
+  // Register offline sync routes
+  registerSyncRoutes(app, authenticateRequest, requireRole);
+  console.log('Offline sync routes registered');
+
+  // Register SLA calendar, policy and report routes
+  registerSlaRoutes(app, authenticateRequest, requireRole);
+  console.log('SLA routes registered');
+
+  // Register on-call rotation, schedule and calendar feed routes
+  registerOnCallRoutes(app, authenticateRequest, requireRole);
+  console.log('On-call routes registered');
+
+  // Register typed checklist reading and follow-up work order routes
+  registerChecklistRoutes(app, authenticateRequest, requireRole);
+  console.log('Checklist routes registered');
+
+  // Register work order sign-off and signature certificate routes
+  registerSignatureRoutes(app, authenticateRequest, requireRole);
+  console.log('Signature routes registered');
+
+  // Register location tree, asset move, installation history and roll-up routes
+  registerAssetHierarchyRoutes(app, authenticateRequest, requireRole);
+  console.log('Asset hierarchy routes registered');
+
+  // Register downtime event and reliability routes
+  registerDowntimeRoutes(app, authenticateRequest, requireRole);
+  console.log('Downtime routes registered');
+
+  // Register failure code library and Pareto routes
+  registerFailureCodeRoutes(app, authenticateRequest, requireRole);
+  console.log('Failure code routes registered');
+
+  // Register label and scan-to-act routes
+  registerScanRoutes(app, authenticateRequest, requireRole);
+  console.log('Scan routes registered');
+
+  // Register public request portal and triage queue routes
+  registerWorkRequestRoutes(app, authenticateRequest, requireRole);
+  console.log('Work request routes registered');
+
   // Add error tracking middleware (should be last)
   app.use(errorTrackingMiddleware);
   console.log('Error tracking middleware enabled');
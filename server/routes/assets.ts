@@ -0,0 +1,115 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { assetHierarchyService, AssetHierarchyError } from "../services/asset-hierarchy.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getCurrentWarehouse = (req: any): string => {
+  return req.user?.warehouseId || req.headers['x-warehouse-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid asset hierarchy data", errors: error.errors });
+  }
+  if (error instanceof AssetHierarchyError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerAssetHierarchyRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Locations for the current warehouse, flat with their full path or as a tree (?view=tree)
+  app.get("/api/locations", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getCurrentWarehouse(req);
+      if (req.query.view === 'tree') {
+        return res.json(await assetHierarchyService.getLocationTree(warehouseId));
+      }
+      const locations = await storage.getLocations(warehouseId);
+      res.json(locations.map(location => ({
+        ...location,
+        path: assetHierarchyService.formatPath(assetHierarchyService.getLocationPath(location.id, locations)),
+      })));
+    } catch (error) {
+      handleError(res, error, 'Fetch locations');
+    }
+  });
+
+  app.post("/api/locations", authenticateRequest, requirePermission('equipment', 'create'), async (req, res) => {
+    try {
+      res.status(201).json(await assetHierarchyService.createLocation(req.body, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Create location');
+    }
+  });
+
+  app.patch("/api/locations/:id", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      res.json(await assetHierarchyService.updateLocation(req.params.id, req.body));
+    } catch (error) {
+      handleError(res, error, 'Update location');
+    }
+  });
+
+  // Everything at a location, including sub-locations and assets fitted to assets there
+  app.get("/api/locations/:id/equipment", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      const location = await storage.getLocation(req.params.id);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      const all = await storage.getLocations(location.warehouseId);
+      res.json({
+        location,
+        path: assetHierarchyService.formatPath(assetHierarchyService.getLocationPath(location.id, all)),
+        equipment: await assetHierarchyService.queryEquipment(location.warehouseId, {
+          locationId: location.id,
+          subtree: req.query.subtree !== 'false',
+        }),
+      });
+    } catch (error) {
+      handleError(res, error, 'Fetch location equipment');
+    }
+  });
+
+  // Move an asset to another position or parent; the previous installation is closed off in its history
+  app.post("/api/equipment/:id/move", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      res.json(await assetHierarchyService.moveEquipment(req.params.id, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Move equipment');
+    }
+  });
+
+  app.get("/api/equipment/:id/installations", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      res.json(await assetHierarchyService.getInstallationHistory(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Fetch installation history');
+    }
+  });
+
+  // Cost, labour and downtime for an asset and everything fitted to it
+  app.get("/api/equipment/:id/rollup", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      res.json(await assetHierarchyService.getRollup(req.params.id, {
+        from: parseDate(req.query.from),
+        to: parseDate(req.query.to),
+      }));
+    } catch (error) {
+      handleError(res, error, 'Fetch equipment roll-up');
+    }
+  });
+}
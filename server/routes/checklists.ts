@@ -0,0 +1,99 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { checklistService, ChecklistError } from "../services/checklist.service";
+import { followUpService, FollowUpError } from "../services/follow-up.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+// A checklist item with its work order, or undefined if either is missing or belongs to another warehouse
+const findItem = async (req: any, itemId: string) => {
+  const item = await storage.getChecklistItem(itemId);
+  const workOrder = item ? await storage.getWorkOrder(item.workOrderId) : undefined;
+  if (!item || !workOrder || workOrder.warehouseId !== getWarehouseId(req)) {
+    return undefined;
+  }
+  return { item, workOrder };
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid checklist data", errors: error.errors });
+  }
+  if (error instanceof ChecklistError || error instanceof FollowUpError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+// Technicians may only record against work orders assigned to them
+const checklistAssignee = async (req: any): Promise<string | undefined> => {
+  const found = await findItem(req, req.params.itemId ?? req.params.id);
+  return found?.workOrder.assignedTo ?? undefined;
+};
+
+export function registerChecklistRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Status, notes and typed readings; out-of-limit readings come back with status 'issue'
+  app.patch("/api/work-orders/:id/checklist/:itemId", authenticateRequest, requirePermission('work_orders', 'update', checklistAssignee), async (req, res) => {
+    try {
+      const found = await findItem(req, req.params.itemId);
+      if (!found || found.item.workOrderId !== req.params.id) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      res.json(await checklistService.recordReading(found.item.id, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Update checklist item');
+    }
+  });
+
+  // Same as above without the work order in the path; failed items come back with followUp set
+  app.patch("/api/checklist-items/:id", authenticateRequest, requirePermission('work_orders', 'update', checklistAssignee), async (req, res) => {
+    try {
+      if (!(await findItem(req, req.params.id))) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      res.json(await checklistService.recordReading(req.params.id, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Update checklist item');
+    }
+  });
+
+  // Accept a proposed follow-up, optionally adjusting priority, description or assignee
+  app.post("/api/checklist-items/:id/follow-up", authenticateRequest, requirePermission('work_orders', 'create'), async (req, res) => {
+    try {
+      if (!(await findItem(req, req.params.id))) {
+        return res.status(404).json({ message: "Checklist item not found" });
+      }
+      res.status(201).json(await followUpService.createFromItem(req.params.id, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Create follow-up work order');
+    }
+  });
+
+  // Parent and child work orders, to trace which PM found which defect
+  app.get("/api/work-orders/:id/related", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await followUpService.getRelated(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Fetch related work orders');
+    }
+  });
+
+  // Reading history per checklist item key, for charting on the equipment view
+  app.get("/api/equipment/:id/readings", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      const key = typeof req.query.key === 'string' ? req.query.key : undefined;
+      res.json(await checklistService.getReadingSeries(req.params.id, key));
+    } catch (error) {
+      handleError(res, error, 'Fetch checklist readings');
+    }
+  });
+}
@@ -0,0 +1,103 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { downtimeService, DowntimeError } from "../services/downtime.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getCurrentWarehouse = (req: any): string => {
+  return req.user?.warehouseId || req.headers['x-warehouse-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+// Downtime events and equipment of other warehouses are treated as missing
+const isOwnEvent = async (req: any): Promise<boolean> => {
+  const event = await storage.getDowntimeEvent(req.params.id);
+  return !!event && event.warehouseId === getCurrentWarehouse(req);
+};
+
+const isOwnEquipment = async (req: any): Promise<boolean> => {
+  const asset = await storage.getEquipmentById(req.params.id);
+  return !!asset && asset.warehouseId === getCurrentWarehouse(req);
+};
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid downtime data", errors: error.errors });
+  }
+  if (error instanceof DowntimeError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerDowntimeRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Downtime events for the warehouse, optionally for one asset or work order, or only those still open
+  app.get("/api/downtime", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      res.json(await downtimeService.listEvents({
+        warehouseId: getCurrentWarehouse(req),
+        equipmentId: req.query.equipmentId ? String(req.query.equipmentId) : undefined,
+        workOrderId: req.query.workOrderId ? String(req.query.workOrderId) : undefined,
+        open: req.query.open === undefined ? undefined : req.query.open === 'true',
+      }));
+    } catch (error) {
+      handleError(res, error, 'Fetch downtime events');
+    }
+  });
+
+  app.post("/api/downtime", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      res.status(201).json(await downtimeService.openEvent(req.body, getCurrentWarehouse(req), getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Record downtime');
+    }
+  });
+
+  app.patch("/api/downtime/:id", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnEvent(req))) {
+        return res.status(404).json({ message: "Downtime event not found" });
+      }
+      res.json(await downtimeService.updateEvent(req.params.id, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Update downtime event');
+    }
+  });
+
+  // The asset is running again
+  app.post("/api/downtime/:id/close", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnEvent(req))) {
+        return res.status(404).json({ message: "Downtime event not found" });
+      }
+      res.json(await downtimeService.closeEvent(req.params.id, getCurrentUser(req), parseDate(req.body?.endedAt)));
+    } catch (error) {
+      handleError(res, error, 'Close downtime event');
+    }
+  });
+
+  // MTTR, MTBF and availability from recorded downtime (last 30 days unless ?from/&to are given)
+  app.get("/api/equipment/:id/reliability", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      if (!(await isOwnEquipment(req))) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+      res.json(await downtimeService.getReliability(req.params.id, {
+        from: parseDate(req.query.from),
+        to: parseDate(req.query.to),
+      }));
+    } catch (error) {
+      handleError(res, error, 'Fetch equipment reliability');
+    }
+  });
+}
@@ -0,0 +1,75 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { FAILURE_CODE_KINDS, type FailureCodeKind } from "@shared/schema";
+import { failureCodeService, FailureCodeError } from "../services/failure-code.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getCurrentWarehouse = (req: any): string => {
+  return req.user?.warehouseId || req.headers['x-warehouse-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseKind = (value: unknown): FailureCodeKind | undefined => {
+  return FAILURE_CODE_KINDS.includes(value as FailureCodeKind) ? value as FailureCodeKind : undefined;
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid failure code data", errors: error.errors });
+  }
+  if (error instanceof FailureCodeError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerFailureCodeRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // The code library, optionally one kind and only the codes that apply to an asset
+  app.get("/api/failure-codes", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await failureCodeService.listCodes(getCurrentWarehouse(req), {
+        kind: parseKind(req.query.kind),
+        equipmentId: req.query.equipmentId ? String(req.query.equipmentId) : undefined,
+        includeInactive: req.query.includeInactive === 'true',
+      }));
+    } catch (error) {
+      handleError(res, error, 'Fetch failure codes');
+    }
+  });
+
+  app.post("/api/failure-codes", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      res.status(201).json(await failureCodeService.createCode(req.body, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Create failure code');
+    }
+  });
+
+  app.patch("/api/failure-codes/:id", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      res.json(await failureCodeService.updateCode(req.params.id, req.body, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Update failure code');
+    }
+  });
+
+  // Top failure codes on finished corrective and emergency work, by equipment model or area
+  app.get("/api/analytics/failure-pareto", authenticateRequest, requirePermission('reports', 'read'), async (req, res) => {
+    try {
+      res.json(await failureCodeService.getPareto(getCurrentWarehouse(req), {
+        kind: parseKind(req.query.kind),
+        groupBy: req.query.groupBy === 'area' ? 'area' : 'model',
+        from: parseDate(req.query.from),
+        to: parseDate(req.query.to),
+      }));
+    } catch (error) {
+      handleError(res, error, 'Fetch failure Pareto');
+    }
+  });
+}
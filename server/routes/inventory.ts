@@ -0,0 +1,223 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { inventoryLedgerService, InventoryError, TransactionInput } from "../services/inventory-ledger.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const TRANSACTION_TYPES = ['receipt', 'issue', 'return', 'adjustment', 'transfer', 'cycle_count'] as const;
+
+// Receipts, issues and transfers have their own flows; these are the manual entries
+const manualTransactionSchema = z.object({
+  partId: z.string().min(1),
+  type: z.enum(['return', 'adjustment']),
+  quantity: z.number().int().refine(q => q !== 0, 'Quantity cannot be zero'),
+  workOrderId: z.string().optional(),
+  reason: z.string().min(1, 'A reason is required'),
+});
+
+const transferSchema = z.object({
+  fromPartId: z.string().min(1),
+  toPartId: z.string().min(1),
+  quantity: z.number().int().positive(),
+  reason: z.string().optional(),
+});
+
+const reservationSchema = z.object({
+  partId: z.string().min(1),
+  quantity: z.number().int().positive(),
+});
+
+const countsSchema = z.object({
+  counts: z.array(z.object({
+    lineId: z.string().min(1),
+    countedQuantity: z.number().int().min(0),
+  })).min(1),
+});
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.header("x-warehouse-id") || req.user?.warehouseId;
+};
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid inventory data", errors: error.errors });
+  }
+  if (error instanceof InventoryError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerInventoryRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Ledger
+  app.get("/api/inventory/transactions", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const type = req.query.type as any;
+      if (type && !TRANSACTION_TYPES.includes(type)) {
+        return res.status(400).json({ message: `type must be one of ${TRANSACTION_TYPES.join(', ')}` });
+      }
+      const partId = req.query.partId as string | undefined;
+      const workOrderId = req.query.workOrderId as string | undefined;
+      const warehouseId = partId || workOrderId ? undefined : getWarehouseId(req);
+      const transactions = await storage.getInventoryTransactions({ partId, workOrderId, warehouseId, type });
+      res.json(transactions);
+    } catch (error) {
+      handleError(res, error, 'Fetch inventory transactions');
+    }
+  });
+
+  app.post("/api/inventory/transactions", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const data = manualTransactionSchema.parse(req.body);
+      if (data.type === 'return' && data.quantity < 0) {
+        return res.status(400).json({ message: "Returns must add stock" });
+      }
+      const transaction = await inventoryLedgerService.recordTransaction({ ...data, performedBy: getCurrentUser(req) } as TransactionInput);
+      res.status(201).json(transaction);
+    } catch (error) {
+      handleError(res, error, 'Record inventory transaction');
+    }
+  });
+
+  app.post("/api/inventory/transfers", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const data = transferSchema.parse(req.body);
+      const transactions = await inventoryLedgerService.transfer(data.fromPartId, data.toPartId, data.quantity, getCurrentUser(req), data.reason);
+      res.status(201).json(transactions);
+    } catch (error) {
+      handleError(res, error, 'Transfer stock');
+    }
+  });
+
+  // Report (and with apply=true, repair) parts whose cached stock level differs from the ledger
+  app.post("/api/inventory/reconcile", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const drift = await inventoryLedgerService.reconcile(warehouseId, req.body?.apply === true);
+      res.json({ applied: req.body?.apply === true, drift });
+    } catch (error) {
+      handleError(res, error, 'Reconcile inventory');
+    }
+  });
+
+  app.get("/api/parts/:id/availability", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const part = await storage.getPart(req.params.id);
+      if (!part) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      res.json(await inventoryLedgerService.getAvailability(part.id));
+    } catch (error) {
+      handleError(res, error, 'Fetch part availability');
+    }
+  });
+
+  // Reservations
+  app.get("/api/work-orders/:id/reservations", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const reservations = await storage.getInventoryReservations({ workOrderId: req.params.id });
+      res.json(reservations);
+    } catch (error) {
+      handleError(res, error, 'Fetch reservations');
+    }
+  });
+
+  app.post("/api/work-orders/:id/reservations", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const data = reservationSchema.parse(req.body);
+      const reservation = await inventoryLedgerService.reserve(data.partId, req.params.id, data.quantity, getCurrentUser(req));
+      res.status(201).json(reservation);
+    } catch (error) {
+      handleError(res, error, 'Reserve parts');
+    }
+  });
+
+  app.delete("/api/inventory/reservations/:id", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      res.json(await inventoryLedgerService.release(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Release reservation');
+    }
+  });
+
+  // Cycle counts
+  app.get("/api/inventory/cycle-counts", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const counts = await storage.getCycleCounts(warehouseId, req.query.status as any);
+      res.json(counts);
+    } catch (error) {
+      handleError(res, error, 'Fetch cycle counts');
+    }
+  });
+
+  app.get("/api/inventory/cycle-counts/variance-report", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { from, to } = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }).parse(req.query);
+      res.json(await inventoryLedgerService.getVarianceReport(warehouseId, from, to));
+    } catch (error) {
+      handleError(res, error, 'Build variance report');
+    }
+  });
+
+  app.post("/api/inventory/cycle-counts", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { location } = z.object({ location: z.string().optional() }).parse(req.body);
+      const count = await inventoryLedgerService.startCycleCount(warehouseId, location, getCurrentUser(req));
+      res.status(201).json(count);
+    } catch (error) {
+      handleError(res, error, 'Start cycle count');
+    }
+  });
+
+  app.get("/api/inventory/cycle-counts/:id", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const count = await inventoryLedgerService.getCycleCountDetail(req.params.id);
+      if (!count) {
+        return res.status(404).json({ message: "Cycle count not found" });
+      }
+      res.json(count);
+    } catch (error) {
+      handleError(res, error, 'Fetch cycle count');
+    }
+  });
+
+  app.post("/api/inventory/cycle-counts/:id/counts", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const { counts } = countsSchema.parse(req.body);
+      res.json(await inventoryLedgerService.recordCounts(req.params.id, counts as { lineId: string; countedQuantity: number }[], getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Record cycle counts');
+    }
+  });
+
+  app.post("/api/inventory/cycle-counts/:id/complete", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      res.json(await inventoryLedgerService.completeCycleCount(req.params.id, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Complete cycle count');
+    }
+  });
+}
@@ -0,0 +1,135 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { meterReadingService, MeterReadingError, MeterReadingInput, METER_TYPES } from "../services/meter-reading.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const meterReadingSchema = z.object({
+  meterType: z.enum(['hours', 'cycles', 'odometer']),
+  value: z.coerce.number().min(0),
+  readingAt: z.coerce.date().optional(),
+  reset: z.boolean().optional(),
+  rolloverAt: z.coerce.number().positive().optional(),
+  notes: z.string().optional(),
+});
+
+const bulkMeterReadingSchema = z.object({
+  readings: z.array(meterReadingSchema.extend({ equipmentId: z.string().uuid() })).min(1),
+});
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+export function registerMeterReadingRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Readings for a piece of equipment, optionally filtered by meter type
+  app.get("/api/equipment/:id/meter-readings", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      const meterType = req.query.meterType as any;
+      if (meterType && !METER_TYPES.includes(meterType)) {
+        return res.status(400).json({ message: `meterType must be one of ${METER_TYPES.join(', ')}` });
+      }
+      const equipment = await storage.getEquipmentById(req.params.id);
+      if (!equipment || equipment.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "Equipment not found" });
+      }
+      const readings = await storage.getMeterReadings(req.params.id, meterType);
+      res.json(readings);
+    } catch (error) {
+      console.error('Get meter readings error:', error);
+      res.status(500).json({ message: "Failed to fetch meter readings" });
+    }
+  });
+
+  // Record a single reading
+  app.post("/api/equipment/:id/meter-readings", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const data = meterReadingSchema.parse(req.body);
+      const reading = await meterReadingService.recordReading({
+        ...data,
+        equipmentId: req.params.id,
+        source: 'manual',
+        recordedBy: getCurrentUser(req),
+        warehouseId,
+      } as MeterReadingInput);
+      res.status(201).json(reading);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meter reading data", errors: error.errors });
+      }
+      if (error instanceof MeterReadingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error('Create meter reading error:', error);
+      res.status(500).json({ message: "Failed to record meter reading" });
+    }
+  });
+
+  // Record several readings at once (e.g. from a telemetry gateway)
+  app.post("/api/meter-readings/bulk", authenticateRequest, requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { readings } = bulkMeterReadingSchema.parse(req.body);
+      const recorded = [];
+      const errors = [];
+
+      for (const [index, reading] of readings.entries()) {
+        try {
+          recorded.push(await meterReadingService.recordReading({
+            ...reading,
+            source: 'api',
+            recordedBy: getCurrentUser(req),
+            warehouseId,
+          } as MeterReadingInput));
+        } catch (error) {
+          errors.push({ index, message: error.message });
+        }
+      }
+
+      res.status(errors.length > 0 && recorded.length === 0 ? 400 : 201).json({
+        imported: recorded.length,
+        readings: recorded,
+        errors,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid meter reading data", errors: error.errors });
+      }
+      console.error('Bulk meter reading error:', error);
+      res.status(500).json({ message: "Failed to record meter readings" });
+    }
+  });
+
+  // Import readings from CSV text: { csv: "assetTag,meterType,value,readingAt\n..." }
+  app.post("/api/meter-readings/import", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), requirePermission('equipment', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { csv } = z.object({ csv: z.string().min(1) }).parse(req.body);
+      const result = await meterReadingService.importCsv(csv, warehouseId, getCurrentUser(req));
+      res.status(result.imported > 0 ? 201 : 400).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid CSV import data", errors: error.errors });
+      }
+      if (error instanceof MeterReadingError) {
+        return res.status(error.statusCode).json({ message: error.message });
+      }
+      console.error('Meter reading import error:', error);
+      res.status(500).json({ message: "Failed to import meter readings" });
+    }
+  });
+}
@@ -0,0 +1,49 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { notificationPreferencesService } from "../services/notification-preferences.service";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid notification preferences", errors: error.errors });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerNotificationPreferenceRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  app.get("/api/notifications/preferences", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      const profile = userId ? await storage.getProfile(userId) : undefined;
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      res.json({
+        preferences: notificationPreferencesService.resolve(profile),
+        defaults: notificationPreferencesService.getDefaults(profile.role),
+      });
+    } catch (error) {
+      handleError(res, error, 'Get notification preferences');
+    }
+  });
+
+  // Partial updates are merged over the current preferences, e.g. { types: { pm_due: { push: false } } }
+  app.put("/api/notifications/preferences", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      const profile = userId ? await storage.getProfile(userId) : undefined;
+      if (!profile) {
+        return res.status(404).json({ message: "Profile not found" });
+      }
+      const preferences = await notificationPreferencesService.updatePreferences(profile.id, req.body);
+      res.json({ preferences });
+    } catch (error) {
+      handleError(res, error, 'Update notification preferences');
+    }
+  });
+}
@@ -0,0 +1,154 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { ON_CALL_ROLES } from "@shared/schema";
+import { onCallService, OnCallError } from "../services/on-call.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scheduleQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  role: z.enum(ON_CALL_ROLES).optional(),
+});
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+// Rotations are managed per warehouse; other warehouses' rotations are treated as missing
+const isOwnWarehouse = (req: any): boolean => {
+  return req.params.warehouseId === getWarehouseId(req);
+};
+
+const isOwnRotation = async (req: any): Promise<boolean> => {
+  const warehouseId = getWarehouseId(req);
+  return !!warehouseId && (await onCallService.getRotations(warehouseId)).some(r => r.id === req.params.rotationId);
+};
+
+const NOT_FOUND = { message: "On-call rotation not found" };
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid on-call data", errors: error.errors });
+  }
+  if (error instanceof OnCallError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerOnCallRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  app.get("/api/on-call/rotations/:warehouseId", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      if (!isOwnWarehouse(req)) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(await onCallService.getRotations(req.params.warehouseId));
+    } catch (error) {
+      handleError(res, error, 'Fetch on-call rotations');
+    }
+  });
+
+  // One rotation per role; saving again replaces it
+  app.put("/api/on-call/rotations/:warehouseId", authenticateRequest, requirePermission('settings', 'update'), async (req, res) => {
+    try {
+      if (!isOwnWarehouse(req)) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(await onCallService.saveRotation(req.params.warehouseId, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Save on-call rotation');
+    }
+  });
+
+  // Shifts for the calendar view, defaulting to the next four weeks
+  app.get("/api/on-call/schedule/:warehouseId", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      if (!isOwnWarehouse(req)) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      const { from = new Date(), to, role } = scheduleQuerySchema.parse(req.query);
+      res.json(await onCallService.getSchedule(req.params.warehouseId, from, to ?? new Date(from.getTime() + 28 * DAY_MS), role));
+    } catch (error) {
+      handleError(res, error, 'Fetch on-call schedule');
+    }
+  });
+
+  app.get("/api/on-call/current/:warehouseId", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      if (!isOwnWarehouse(req)) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      const { role } = z.object({ role: z.enum(ON_CALL_ROLES).default('technician') }).parse(req.query);
+      res.json(await onCallService.getCurrentOnCall(req.params.warehouseId, role));
+    } catch (error) {
+      handleError(res, error, 'Fetch current on-call');
+    }
+  });
+
+  app.post("/api/on-call/rotations/:rotationId/overrides", authenticateRequest, requirePermission('work_orders', 'assign'), async (req, res) => {
+    try {
+      if (!(await isOwnRotation(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.status(201).json(await onCallService.addOverride(req.params.rotationId, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Create on-call override');
+    }
+  });
+
+  app.delete("/api/on-call/rotations/:rotationId/overrides/:overrideId", authenticateRequest, requirePermission('work_orders', 'assign'), async (req, res) => {
+    try {
+      if (!(await isOwnRotation(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      await onCallService.removeOverride(req.params.rotationId, req.params.overrideId);
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Remove on-call override');
+    }
+  });
+
+  // Technicians can trade their own shifts; supervisors can swap anyone's
+  app.post("/api/on-call/rotations/:rotationId/swaps", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      if (!(await isOwnRotation(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.status(201).json(await onCallService.swap(req.params.rotationId, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Swap on-call shifts');
+    }
+  });
+
+  // Subscription link for the signed-in user's calendar app
+  app.get("/api/on-call/feed-url", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      res.json({ url: `/api/on-call/feed/${userId}.ics?token=${onCallService.feedToken(userId)}` });
+    } catch (error) {
+      handleError(res, error, 'Create on-call feed link');
+    }
+  });
+
+  // Calendar apps cannot send auth headers, so the feed is authorised by its signed token
+  app.get("/api/on-call/feed/:userId.ics", async (req, res) => {
+    try {
+      if (!onCallService.verifyFeedToken(req.params.userId, String(req.query.token || ''))) {
+        return res.status(403).json({ message: "Invalid feed token" });
+      }
+      const feed = await onCallService.buildICalFeed(req.params.userId);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="on-call.ics"');
+      res.send(feed);
+    } catch (error) {
+      handleError(res, error, 'Build on-call feed');
+    }
+  });
+}
@@ -0,0 +1,227 @@
+import type { Express } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { insertPmSchedulingRuleSchema, insertTechnicianShiftSchema, pmSchedulingConfigSchema } from "@shared/schema";
+import { pmSchedulerEnhanced } from "../services/pm-scheduler-enhanced";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+const planRequestSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  weeks: z.number().int().min(1).max(12).default(4),
+  dryRun: z.boolean().default(true),
+});
+
+const validateCustomFrequency = (rule: { frequency?: string; customFrequencyDays?: number | null }) => {
+  if (rule.frequency === 'custom' && !rule.customFrequencyDays) {
+    return [{ path: ['customFrequencyDays'], message: 'customFrequencyDays is required for custom frequency' }];
+  }
+  return null;
+};
+
+export function registerPMSchedulerRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // List scheduling rules for the current warehouse
+  app.get("/api/pm-scheduler/rules", authenticateRequest, async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const rules = await pmSchedulerEnhanced.loadSchedulingRules(warehouseId);
+      res.json(rules);
+    } catch (error) {
+      console.error('Get PM scheduling rules error:', error);
+      res.status(500).json({ message: "Failed to fetch PM scheduling rules" });
+    }
+  });
+
+  app.get("/api/pm-scheduler/rules/:id", authenticateRequest, async (req, res) => {
+    try {
+      const rule = await storage.getPmSchedulingRule(req.params.id);
+      if (!rule || rule.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "PM scheduling rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      console.error('Get PM scheduling rule error:', error);
+      res.status(500).json({ message: "Failed to fetch PM scheduling rule" });
+    }
+  });
+
+  app.post("/api/pm-scheduler/rules", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const ruleData = insertPmSchedulingRuleSchema.parse({ ...req.body, id: crypto.randomUUID(), warehouseId });
+      const errors = validateCustomFrequency(ruleData);
+      if (errors) {
+        return res.status(400).json({ message: "Invalid PM scheduling rule data", errors });
+      }
+      const rule = await storage.createPmSchedulingRule(ruleData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PM scheduling rule data", errors: error.errors });
+      }
+      console.error('Create PM scheduling rule error:', error);
+      res.status(500).json({ message: "Failed to create PM scheduling rule" });
+    }
+  });
+
+  app.put("/api/pm-scheduler/rules/:id", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const existing = await storage.getPmSchedulingRule(req.params.id);
+      if (!existing || existing.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "PM scheduling rule not found" });
+      }
+      const updates = insertPmSchedulingRuleSchema.partial().omit({ warehouseId: true }).parse(req.body);
+      const errors = validateCustomFrequency({ ...existing, ...updates });
+      if (errors) {
+        return res.status(400).json({ message: "Invalid PM scheduling rule data", errors });
+      }
+      const rule = await storage.updatePmSchedulingRule(req.params.id, updates);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PM scheduling rule data", errors: error.errors });
+      }
+      console.error('Update PM scheduling rule error:', error);
+      res.status(500).json({ message: "Failed to update PM scheduling rule" });
+    }
+  });
+
+  app.delete("/api/pm-scheduler/rules/:id", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const existing = await storage.getPmSchedulingRule(req.params.id);
+      if (!existing || existing.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "PM scheduling rule not found" });
+      }
+      await storage.deletePmSchedulingRule(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete PM scheduling rule error:', error);
+      res.status(500).json({ message: "Failed to delete PM scheduling rule" });
+    }
+  });
+
+  // Scheduling config (falls back to defaults until saved)
+  app.get("/api/pm-scheduler/config/:warehouseId", authenticateRequest, async (req, res) => {
+    try {
+      if (req.params.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "PM scheduling config not found" });
+      }
+      const config = await pmSchedulerEnhanced.loadSchedulingConfig(req.params.warehouseId);
+      res.json(config);
+    } catch (error) {
+      console.error('Get PM scheduling config error:', error);
+      res.status(500).json({ message: "Failed to fetch PM scheduling config" });
+    }
+  });
+
+  app.put("/api/pm-scheduler/config/:warehouseId", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const { warehouseId } = req.params;
+      if (warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "PM scheduling config not found" });
+      }
+      const configData = pmSchedulingConfigSchema.parse(req.body);
+      await storage.upsertPmSchedulingConfig(warehouseId, configData, (req as any).user?.id);
+      const config = await pmSchedulerEnhanced.loadSchedulingConfig(warehouseId);
+      res.json(config);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PM scheduling config data", errors: error.errors });
+      }
+      console.error('Update PM scheduling config error:', error);
+      res.status(500).json({ message: "Failed to update PM scheduling config" });
+    }
+  });
+
+  // Build a multi-week PM plan; dry runs return the plan without creating work orders
+  app.post("/api/pm-scheduler/plan", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { startDate = new Date(), weeks, dryRun } = planRequestSchema.parse(req.body);
+      const endDate = new Date(startDate);
+      endDate.setDate(endDate.getDate() + weeks * 7 - 1);
+
+      if (dryRun) {
+        return res.json(await pmSchedulerEnhanced.generateOptimizedSchedule(warehouseId, startDate, endDate, { dryRun }));
+      }
+      const { backgroundJobScheduler } = await import('../services/background-jobs');
+      const { acquired, plan } = await backgroundJobScheduler.commitPMPlan(warehouseId, startDate, endDate);
+      if (!acquired) {
+        return res.status(409).json({ message: "PM generation is already running" });
+      }
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid PM plan request", errors: error.errors });
+      }
+      console.error('PM plan error:', error);
+      res.status(500).json({ message: "Failed to build PM plan" });
+    }
+  });
+
+  // Technician shifts used for planning capacity
+  app.get("/api/pm-scheduler/shifts", authenticateRequest, async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const shifts = await storage.getTechnicianShifts(warehouseId, req.query.technicianId as string | undefined);
+      res.json(shifts);
+    } catch (error) {
+      console.error('Get technician shifts error:', error);
+      res.status(500).json({ message: "Failed to fetch technician shifts" });
+    }
+  });
+
+  app.post("/api/pm-scheduler/shifts", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const shiftData = insertTechnicianShiftSchema.parse({ ...req.body, id: crypto.randomUUID(), warehouseId });
+      const technician = await storage.getProfile(shiftData.technicianId);
+      if (!technician || technician.role !== 'technician') {
+        return res.status(400).json({ message: "Shifts can only be assigned to technicians" });
+      }
+      const shift = await storage.createTechnicianShift(shiftData);
+      res.status(201).json(shift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid technician shift data", errors: error.errors });
+      }
+      console.error('Create technician shift error:', error);
+      res.status(500).json({ message: "Failed to create technician shift" });
+    }
+  });
+
+  app.delete("/api/pm-scheduler/shifts/:id", authenticateRequest, requirePermission('pm_templates', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      if (!(await storage.deleteTechnicianShift(warehouseId, req.params.id))) {
+        return res.status(404).json({ message: "Technician shift not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Delete technician shift error:', error);
+      res.status(500).json({ message: "Failed to delete technician shift" });
+    }
+  });
+}
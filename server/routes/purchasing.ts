@@ -0,0 +1,209 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { purchasingService, PurchasingError, ReceiptLineInput } from "../services/purchasing.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const PO_STATUSES = ['draft', 'pending_approval', 'approved', 'ordered', 'partially_received', 'received', 'rejected', 'cancelled'] as const;
+
+const requisitionSchema = z.object({
+  partId: z.string().min(1),
+  quantity: z.number().int().positive().optional(),
+  notes: z.string().optional(),
+});
+
+const receiveSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    quantity: z.number().int().min(0),
+    rejectedQuantity: z.number().int().min(0).optional(),
+  })).min(1),
+  notes: z.string().optional(),
+});
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+// Purchase orders of other warehouses are treated as missing
+const isOwnOrder = async (req: any): Promise<boolean> => {
+  const order = await storage.getPurchaseOrder(req.params.id);
+  return !!order && order.warehouseId === getWarehouseId(req);
+};
+
+const NOT_FOUND = { message: "Purchase order not found" };
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid purchasing data", errors: error.errors });
+  }
+  if (error instanceof PurchasingError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerPurchasingRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Requisitions
+  app.get("/api/purchase-requisitions", authenticateRequest, requirePermission('purchase_orders', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const status = req.query.status as any;
+      const requisitions = await storage.getPurchaseRequisitions(warehouseId, status ? { status } : undefined);
+      res.json(requisitions);
+    } catch (error) {
+      handleError(res, error, 'Fetch purchase requisitions');
+    }
+  });
+
+  // Manual requisition; quantity defaults to what is needed to reach maxStock
+  app.post("/api/purchase-requisitions", authenticateRequest, requirePermission('purchase_orders', 'create'), async (req, res) => {
+    try {
+      const data = requisitionSchema.parse(req.body);
+      const part = await storage.getPart(data.partId);
+      if (!part || part.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json({ message: "Part not found" });
+      }
+      const quantity = data.quantity ?? purchasingService.getReorderQuantity(part);
+      if (quantity <= 0) {
+        return res.status(400).json({ message: "Part is already at or above max stock" });
+      }
+      const requisition = await storage.createPurchaseRequisition({
+        partId: part.id,
+        quantity,
+        reason: 'manual',
+        status: 'open',
+        purchaseOrderId: null,
+        requestedBy: getCurrentUser(req) || null,
+        notes: data.notes || null,
+        warehouseId: part.warehouseId,
+      });
+      res.status(201).json(requisition);
+    } catch (error) {
+      handleError(res, error, 'Create purchase requisition');
+    }
+  });
+
+  // Purchase orders
+  app.get("/api/purchase-orders", authenticateRequest, requirePermission('purchase_orders', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const status = req.query.status as any;
+      if (status && !PO_STATUSES.includes(status)) {
+        return res.status(400).json({ message: `status must be one of ${PO_STATUSES.join(', ')}` });
+      }
+      const orders = await storage.getPurchaseOrders(warehouseId, status);
+      res.json(orders);
+    } catch (error) {
+      handleError(res, error, 'Fetch purchase orders');
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", authenticateRequest, requirePermission('purchase_orders', 'read'), async (req, res) => {
+    try {
+      const order = await purchasingService.getPurchaseOrderDetail(req.params.id);
+      if (!order || order.warehouseId !== getWarehouseId(req)) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(order);
+    } catch (error) {
+      handleError(res, error, 'Fetch purchase order');
+    }
+  });
+
+  // Group open requisitions onto draft POs by vendor
+  app.post("/api/purchase-orders/draft", authenticateRequest, requirePermission('purchase_orders', 'create'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const orders = await purchasingService.draftPurchaseOrders(warehouseId, getCurrentUser(req));
+      res.status(orders.length > 0 ? 201 : 200).json(orders);
+    } catch (error) {
+      handleError(res, error, 'Draft purchase orders');
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/submit", authenticateRequest, requirePermission('purchase_orders', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(await purchasingService.submitForApproval(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Submit purchase order');
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/approve", authenticateRequest, requirePermission('purchase_orders', 'approve'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(await purchasingService.approve(req.params.id, getCurrentUser(req)!));
+    } catch (error) {
+      handleError(res, error, 'Approve purchase order');
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/reject", authenticateRequest, requirePermission('purchase_orders', 'approve'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      const { reason } = z.object({ reason: z.string().min(1, 'A rejection reason is required') }).parse(req.body);
+      res.json(await purchasingService.reject(req.params.id, getCurrentUser(req)!, reason));
+    } catch (error) {
+      handleError(res, error, 'Reject purchase order');
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/order", authenticateRequest, requirePermission('purchase_orders', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      const { expectedDate } = z.object({ expectedDate: z.coerce.date().optional() }).parse(req.body);
+      res.json(await purchasingService.markOrdered(req.params.id, expectedDate));
+    } catch (error) {
+      handleError(res, error, 'Mark purchase order ordered');
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/cancel", authenticateRequest, requirePermission('purchase_orders', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      res.json(await purchasingService.cancel(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Cancel purchase order');
+    }
+  });
+
+  // Receive full or partial quantities; stock levels are incremented per line
+  app.post("/api/purchase-orders/:id/receive", authenticateRequest, requirePermission('purchase_orders', 'update'), async (req, res) => {
+    try {
+      if (!(await isOwnOrder(req))) {
+        return res.status(404).json(NOT_FOUND);
+      }
+      const { lines, notes } = receiveSchema.parse(req.body);
+      const order = await purchasingService.receive(req.params.id, lines as ReceiptLineInput[], getCurrentUser(req), notes);
+      res.json(order);
+    } catch (error) {
+      handleError(res, error, 'Receive purchase order');
+    }
+  });
+}
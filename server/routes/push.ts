@@ -0,0 +1,69 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { webPushService, PushError, type PushSubscriptionInput } from "../services/web-push.service";
+
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1),
+  }),
+});
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid push subscription", errors: error.errors });
+  }
+  if (error instanceof PushError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerPushRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Application server key the browser needs before calling pushManager.subscribe()
+  app.get("/api/push/vapid-public-key", (req, res) => {
+    try {
+      res.json({ publicKey: webPushService.getPublicKey() });
+    } catch (error) {
+      handleError(res, error, 'Get VAPID public key');
+    }
+  });
+
+  app.post("/api/push/subscribe", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const subscription = subscriptionSchema.parse(req.body) as PushSubscriptionInput;
+      const saved = await webPushService.subscribe(userId, subscription, req.headers['user-agent']);
+      res.status(201).json({ id: saved.id, endpoint: saved.endpoint, expirationTime: saved.expirationTime });
+    } catch (error) {
+      handleError(res, error, 'Save push subscription');
+    }
+  });
+
+  app.post("/api/push/unsubscribe", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const { endpoint } = z.object({ endpoint: z.string().url() }).parse(req.body);
+      const removed = await webPushService.unsubscribe(userId, endpoint);
+      if (!removed) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      handleError(res, error, 'Remove push subscription');
+    }
+  });
+}
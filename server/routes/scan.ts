@@ -0,0 +1,84 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { LABEL_KINDS, scanService, ScanError, type LabelKind } from "../services/scan.service";
+import { labelSheetService, LabelSheetError, LABEL_STOCK_LAYOUTS } from "../services/label-sheet.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+import { getAppBaseUrl } from "../services/app-url";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const getCurrentWarehouse = (req: any): string => {
+  return req.user?.warehouseId || req.headers['x-warehouse-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid label request", errors: error.errors });
+  }
+  if (error instanceof ScanError || error instanceof LabelSheetError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerScanRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // What a scanned label points at, with what the technician can do next
+  app.get("/api/scan", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      if (typeof req.query.code !== 'string' || !req.query.code.trim()) {
+        return res.status(400).json({ message: "code is required" });
+      }
+      res.json(await scanService.resolve(req.query.code, getCurrentWarehouse(req), getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Resolve scan');
+    }
+  });
+
+  // Signed payload and caption for printing an asset, part bin or location label
+  app.get("/api/labels/:kind/:id", authenticateRequest, async (req, res) => {
+    try {
+      if (!LABEL_KINDS.includes(req.params.kind as LabelKind)) {
+        return res.status(400).json({ message: `Label kind must be one of ${LABEL_KINDS.join(', ')}` });
+      }
+      res.json(await scanService.getLabel(req.params.kind as LabelKind, req.params.id, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Fetch label');
+    }
+  });
+
+  // Label stock the sheet renderer knows how to lay out
+  app.get("/api/labels/stocks", authenticateRequest, async (_req, res) => {
+    res.json(Object.entries(LABEL_STOCK_LAYOUTS).map(([id, layout]) => ({
+      id,
+      name: layout.name,
+      perSheet: layout.columns * layout.rows,
+    })));
+  });
+
+  // PDF sheets of asset tags or part bin labels, for the chosen ids or everything matching the page filters
+  const sendSheet = (res: any, name: string, { pdf, count }: { pdf: Buffer; count: number }) => {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${name}-labels.pdf"`);
+    res.setHeader('X-Label-Count', String(count));
+    res.send(pdf);
+  };
+
+  app.post("/api/labels/equipment.pdf", authenticateRequest, requirePermission('equipment', 'read'), async (req, res) => {
+    try {
+      sendSheet(res, 'asset', await labelSheetService.renderEquipmentLabels(getCurrentWarehouse(req), req.body, getAppBaseUrl()));
+    } catch (error) {
+      handleError(res, error, 'Render asset labels');
+    }
+  });
+
+  app.post("/api/labels/parts.pdf", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      sendSheet(res, 'part', await labelSheetService.renderPartLabels(getCurrentWarehouse(req), req.body));
+    } catch (error) {
+      handleError(res, error, 'Render part labels');
+    }
+  });
+}
@@ -0,0 +1,80 @@
+import type { Express } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { notificationService } from "../services/notification.service";
+import { webhookService, WebhookEvents } from "../services/webhook.service";
+import { signatureService, SignatureError } from "../services/signature.service";
+import { WorkOrderTransitionError } from "../services/work-order-lifecycle";
+import { requirePermission } from "../middleware/rbac.middleware";
+import { getTransitionActor } from "./work-order-lifecycle";
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message || "Invalid signature data", errors: error.errors });
+  }
+  if (error instanceof WorkOrderTransitionError) {
+    return res.status(error.statusCode).json(error.toJSON());
+  }
+  if (error instanceof SignatureError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerSignatureRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Sign off completion or verification; signing also moves the work order on when it is still at the earlier status
+  app.post("/api/work-orders/:id/signatures", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      const actor = getTransitionActor(req);
+      const result = await signatureService.sign(req.params.id, req.body, actor, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (result.transitioned) {
+        const { workOrder } = result;
+        await notificationService.sendWorkOrderNotification(workOrder.id, 'updated', workOrder.warehouseId);
+        await webhookService.emitEvent({
+          id: crypto.randomUUID(),
+          event: workOrder.status === 'completed' ? WebhookEvents.WORK_ORDER_COMPLETED : WebhookEvents.WORK_ORDER_UPDATED,
+          entity: 'work_order',
+          entityId: workOrder.id,
+          data: {
+            workOrder,
+            signatureId: result.signature.id,
+            updatedBy: actor.id,
+            timestamp: new Date().toISOString()
+          },
+          timestamp: new Date(),
+          warehouseId: workOrder.warehouseId
+        });
+      }
+
+      res.status(201).json(result);
+    } catch (error) {
+      handleError(res, error, 'Sign work order');
+    }
+  });
+
+  // Signatures with a flag for each one the work order has changed since
+  app.get("/api/work-orders/:id/signatures", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await signatureService.getSignatures(req.params.id));
+    } catch (error) {
+      handleError(res, error, 'Fetch signatures');
+    }
+  });
+
+  // Printable certificate for one signature
+  app.get("/api/work-orders/:id/signatures/:signatureId/certificate.pdf", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      const pdf = await signatureService.buildCertificate(req.params.id, req.params.signatureId);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="signature-${req.params.signatureId}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      handleError(res, error, 'Generate signature certificate');
+    }
+  });
+}
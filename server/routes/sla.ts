@@ -0,0 +1,107 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { SLA_HOLD_REASONS } from "@shared/schema";
+import { storage } from "../storage";
+import { slaService, SlaError } from "../services/sla.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const holdSchema = z.object({
+  reason: z.enum(SLA_HOLD_REASONS),
+  notes: z.string().optional(),
+});
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid SLA data", errors: error.errors });
+  }
+  if (error instanceof SlaError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerSlaRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Working hours, holidays and which hold reasons stop the clock
+  app.get("/api/sla/calendars/:warehouseId", authenticateRequest, requirePermission('settings', 'read'), async (req, res) => {
+    try {
+      res.json(await slaService.getCalendar(req.params.warehouseId));
+    } catch (error) {
+      handleError(res, error, 'Fetch SLA calendar');
+    }
+  });
+
+  app.put("/api/sla/calendars/:warehouseId", authenticateRequest, requirePermission('settings', 'update'), async (req, res) => {
+    try {
+      res.json(await slaService.updateCalendar(req.params.warehouseId, req.body, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Update SLA calendar');
+    }
+  });
+
+  // Response and resolution targets for every work order type and priority
+  app.get("/api/sla/policies/:warehouseId", authenticateRequest, requirePermission('settings', 'read'), async (req, res) => {
+    try {
+      res.json(await slaService.getPolicies(req.params.warehouseId));
+    } catch (error) {
+      handleError(res, error, 'Fetch SLA policies');
+    }
+  });
+
+  app.put("/api/sla/policies/:warehouseId", authenticateRequest, requirePermission('settings', 'update'), async (req, res) => {
+    try {
+      const policies = Array.isArray(req.body) ? req.body : req.body?.policies;
+      res.json(await slaService.updatePolicies(req.params.warehouseId, policies));
+    } catch (error) {
+      handleError(res, error, 'Update SLA policies');
+    }
+  });
+
+  // At-risk and breached work orders
+  app.get("/api/sla/reports/:warehouseId", authenticateRequest, requirePermission('reports', 'read'), async (req, res) => {
+    try {
+      const { days } = z.object({ days: z.coerce.number().int().min(1).max(365).default(30) }).parse(req.query);
+      res.json(await slaService.getReport(req.params.warehouseId, days));
+    } catch (error) {
+      handleError(res, error, 'Build SLA report');
+    }
+  });
+
+  app.get("/api/work-orders/:id/sla", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      const [sla, holds] = await Promise.all([
+        slaService.evaluate(workOrder),
+        storage.getWorkOrderHolds(workOrder.id),
+      ]);
+      res.json({ ...sla, holds });
+    } catch (error) {
+      handleError(res, error, 'Fetch work order SLA');
+    }
+  });
+
+  // Put a work order on hold (e.g. waiting on parts) and take it off again
+  app.post("/api/work-orders/:id/hold", authenticateRequest, requirePermission('work_orders', 'update'), async (req, res) => {
+    try {
+      const { reason, notes } = holdSchema.parse(req.body);
+      res.json(await slaService.hold(req.params.id, reason, getCurrentUser(req), notes));
+    } catch (error) {
+      handleError(res, error, 'Put work order on hold');
+    }
+  });
+
+  app.post("/api/work-orders/:id/resume", authenticateRequest, requirePermission('work_orders', 'update'), async (req, res) => {
+    try {
+      res.json(await slaService.resume(req.params.id, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Resume work order');
+    }
+  });
+}
@@ -0,0 +1,41 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { syncService, syncBatchSchema, SyncError, type SyncMutationInput } from "../services/sync.service";
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid sync batch", errors: error.errors });
+  }
+  if (error instanceof SyncError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerSyncRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  /**
+   * Replay a device's offline queue. Every mutation gets its own result (applied, merged,
+   * conflict or rejected), so one bad action does not hold back the rest of the batch.
+   */
+  app.post("/api/sync", authenticateRequest, async (req, res) => {
+    try {
+      const userId = getCurrentUser(req);
+      if (!userId) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const { mutations } = syncBatchSchema.parse(req.body);
+      const results = await syncService.processBatch(mutations as SyncMutationInput[], {
+        userId,
+        warehouseId: (req as any).user?.warehouseId,
+      });
+      res.json({ results, serverTime: new Date().toISOString() });
+    } catch (error) {
+      handleError(res, error, 'Sync offline changes');
+    }
+  });
+}
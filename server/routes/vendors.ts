@@ -0,0 +1,96 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { vendorPerformanceService } from "../services/vendor-performance.service";
+import { vendorComplianceService } from "../services/vendor-compliance.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const DOCUMENT_TYPES = ['insurance', 'w9', 'contract', 'certification', 'sds', 'other'] as const;
+const DOCUMENT_STATUSES = ['active', 'pending_renewal', 'expired'] as const;
+
+const documentUpdateSchema = z.object({
+  documentType: z.enum(DOCUMENT_TYPES).optional(),
+  expiryDate: z.coerce.date().nullable().optional(),
+});
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.header("x-warehouse-id") || req.user?.warehouseId;
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid vendor data", errors: error.errors });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+/**
+ * Vendor scorecards and the vendor document registry.
+ * Registered before the /api/vendors/:id routes so these paths are not read as vendor ids.
+ */
+export function registerVendorRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  app.get("/api/vendors/performance", authenticateRequest, requirePermission('vendors', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { from, to, vendorId } = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        vendorId: z.string().optional(),
+      }).parse(req.query);
+      const scorecards = await vendorPerformanceService.getScorecards(warehouseId, from, to);
+      res.json(vendorId ? scorecards.filter(s => s.vendorId === vendorId) : scorecards);
+    } catch (error) {
+      handleError(res, error, 'Build vendor scorecards');
+    }
+  });
+
+  app.get("/api/vendors/documents", authenticateRequest, requirePermission('vendors', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const filters = z.object({
+        vendorId: z.string().optional(),
+        type: z.enum(DOCUMENT_TYPES).optional(),
+        status: z.enum(DOCUMENT_STATUSES).optional(),
+      }).parse(req.query);
+      res.json(await vendorComplianceService.getDocuments(warehouseId, filters));
+    } catch (error) {
+      handleError(res, error, 'Fetch vendor documents');
+    }
+  });
+
+  // Renewals: correct the document type or expiry date, then re-check the vendor's status
+  app.patch("/api/vendors/documents/:id", authenticateRequest, requirePermission('vendors', 'update'), async (req, res) => {
+    try {
+      const attachment = await storage.getAttachmentById(req.params.id);
+      if (!attachment || !attachment.vendorId) {
+        return res.status(404).json({ message: "Vendor document not found" });
+      }
+      const updates = documentUpdateSchema.parse(req.body);
+      const updated = await storage.updateAttachment(attachment.id, updates);
+      const compliance = await vendorComplianceService.evaluateVendor(attachment.vendorId);
+      res.json({ document: updated, compliance });
+    } catch (error) {
+      handleError(res, error, 'Update vendor document');
+    }
+  });
+
+  app.post("/api/vendors/documents/check-expiry", authenticateRequest, requirePermission('vendors', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const results = await vendorComplianceService.checkDocumentExpiry(warehouseId);
+      res.json(results.filter(r => r.status !== 'active' || r.previousStatus !== 'active'));
+    } catch (error) {
+      handleError(res, error, 'Check vendor documents');
+    }
+  });
+}
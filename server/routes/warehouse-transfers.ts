@@ -0,0 +1,139 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { warehouseTransferService, TransferError, TransferRequest } from "../services/warehouse-transfer.service";
+import { InventoryError } from "../services/inventory-ledger.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const TRANSFER_STATUSES = ['requested', 'in_transit', 'received', 'cancelled'] as const;
+
+const transferRequestSchema = z.object({
+  partNumber: z.string().min(1),
+  fromWarehouseId: z.string().min(1),
+  toWarehouseId: z.string().min(1).optional(), // defaults to the caller's warehouse
+  quantity: z.number().int().positive(),
+  workOrderId: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const receiveSchema = z.object({
+  quantityReceived: z.number().int().min(0).optional(),
+  notes: z.string().optional(),
+});
+
+const getWarehouseId = (req: any): string | undefined => {
+  return req.user?.warehouseId || req.header("x-warehouse-id");
+};
+
+const getCurrentUser = (req: any): string | undefined => {
+  return req.user?.id || req.headers['x-user-id'];
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid transfer data", errors: error.errors });
+  }
+  if (error instanceof TransferError || error instanceof InventoryError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+export function registerWarehouseTransferRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Cross-warehouse availability for a part number
+  app.get("/api/inventory/availability", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const partNumber = (req.query.partNumber as string || '').trim();
+      if (!partNumber) {
+        return res.status(400).json({ message: "partNumber is required" });
+      }
+      const excludeWarehouseId = req.query.excludeOwn === 'true' ? getWarehouseId(req) : undefined;
+      const availability = await warehouseTransferService.findAvailability(partNumber, excludeWarehouseId);
+      res.json({ partNumber, warehouses: availability });
+    } catch (error) {
+      handleError(res, error, 'Search part availability');
+    }
+  });
+
+  // Transfer orders into or out of the caller's warehouse
+  app.get("/api/transfer-orders", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { direction, status } = z.object({
+        direction: z.enum(['inbound', 'outbound']).optional(),
+        status: z.enum(TRANSFER_STATUSES).optional(),
+      }).parse(req.query);
+      res.json(await storage.getTransferOrders(warehouseId, { direction, status }));
+    } catch (error) {
+      handleError(res, error, 'Fetch transfer orders');
+    }
+  });
+
+  app.get("/api/transfer-orders/:id", authenticateRequest, requirePermission('parts', 'read'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      const order = await warehouseTransferService.getTransferOrderDetail(req.params.id);
+      if (!order || (order.fromWarehouseId !== warehouseId && order.toWarehouseId !== warehouseId)) {
+        return res.status(404).json({ message: "Transfer order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      handleError(res, error, 'Fetch transfer order');
+    }
+  });
+
+  app.post("/api/transfer-orders", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const data = transferRequestSchema.parse(req.body);
+      const toWarehouseId = data.toWarehouseId || getWarehouseId(req);
+      if (!toWarehouseId) {
+        return res.status(400).json({ message: "Destination warehouse is required" });
+      }
+      const order = await warehouseTransferService.request({ ...data, toWarehouseId } as TransferRequest, getCurrentUser(req));
+      res.status(201).json(order);
+    } catch (error) {
+      handleError(res, error, 'Request transfer');
+    }
+  });
+
+  app.post("/api/transfer-orders/:id/ship", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      res.json(await warehouseTransferService.ship(req.params.id, warehouseId, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Ship transfer order');
+    }
+  });
+
+  app.post("/api/transfer-orders/:id/receive", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      const { quantityReceived, notes } = receiveSchema.parse(req.body);
+      res.json(await warehouseTransferService.receive(req.params.id, warehouseId, quantityReceived, getCurrentUser(req), notes));
+    } catch (error) {
+      handleError(res, error, 'Receive transfer order');
+    }
+  });
+
+  app.post("/api/transfer-orders/:id/cancel", authenticateRequest, requirePermission('parts', 'update'), async (req, res) => {
+    try {
+      const warehouseId = getWarehouseId(req);
+      if (!warehouseId) {
+        return res.status(400).json({ message: "Warehouse ID is required" });
+      }
+      res.json(await warehouseTransferService.cancel(req.params.id, warehouseId, getCurrentUser(req)));
+    } catch (error) {
+      handleError(res, error, 'Cancel transfer order');
+    }
+  });
+}
@@ -0,0 +1,88 @@
+import type { Express } from "express";
+import crypto from "crypto";
+import { z } from "zod";
+import { storage } from "../storage";
+import { notificationService } from "../services/notification.service";
+import { webhookService, WebhookEvents } from "../services/webhook.service";
+import { workOrderLifecycle, WorkOrderTransitionError, TransitionActor } from "../services/work-order-lifecycle";
+
+const transitionSchema = z.object({
+  status: z.enum(['new', 'assigned', 'in_progress', 'completed', 'verified', 'closed']),
+  reason: z.string().optional(),
+  assignedTo: z.string().uuid().optional(),
+  notes: z.string().optional(),
+});
+
+export const getTransitionActor = (req: any): TransitionActor => ({
+  id: req.user?.id || req.headers['x-user-id'],
+  role: req.user?.role,
+  warehouseId: req.user?.warehouseId || req.headers['x-warehouse-id'],
+  sessionId: req.user?.sessionId,
+});
+
+export function registerWorkOrderLifecycleRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Move a work order to a new status
+  app.post("/api/work-orders/:id/transition", authenticateRequest, async (req, res) => {
+    try {
+      const { status, reason, ...changes } = transitionSchema.parse(req.body);
+      const actor = getTransitionActor(req);
+      const { workOrder, history } = await workOrderLifecycle.transition(req.params.id, status, actor, { reason, changes });
+
+      await notificationService.sendWorkOrderNotification(workOrder.id, 'updated', workOrder.warehouseId);
+      await webhookService.emitEvent({
+        id: crypto.randomUUID(),
+        event: status === 'completed' ? WebhookEvents.WORK_ORDER_COMPLETED : WebhookEvents.WORK_ORDER_UPDATED,
+        entity: 'work_order',
+        entityId: workOrder.id,
+        data: {
+          workOrder,
+          transition: history,
+          updatedBy: actor.id,
+          timestamp: new Date().toISOString()
+        },
+        timestamp: new Date(),
+        warehouseId: workOrder.warehouseId
+      });
+
+      res.json({ workOrder, transition: history });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid transition data", errors: error.errors });
+      }
+      if (error instanceof WorkOrderTransitionError) {
+        return res.status(error.statusCode).json(error.toJSON());
+      }
+      if (error.message === 'Work order not found') {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      console.error('Work order transition error:', error);
+      res.status(500).json({ message: "Failed to transition work order" });
+    }
+  });
+
+  // Status history for a work order
+  app.get("/api/work-orders/:id/status-history", authenticateRequest, async (req, res) => {
+    try {
+      const history = await storage.getWorkOrderStatusHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error('Get status history error:', error);
+      res.status(500).json({ message: "Failed to fetch status history" });
+    }
+  });
+
+  // Statuses the current user may move the work order to
+  app.get("/api/work-orders/:id/transitions", authenticateRequest, async (req, res) => {
+    try {
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      const available = await workOrderLifecycle.getAvailableTransitions(workOrder, getTransitionActor(req));
+      res.json({ status: workOrder.status, available });
+    } catch (error) {
+      console.error('Get available transitions error:', error);
+      res.status(500).json({ message: "Failed to fetch available transitions" });
+    }
+  });
+}
@@ -0,0 +1,167 @@
+import type { Express } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { WORK_REQUEST_STATUSES, workRequestMergeSchema, type WorkRequestStatus } from "@shared/schema";
+import { workRequestService, WorkRequestError, MAX_REQUEST_PHOTOS } from "../services/work-request.service";
+import { requirePermission } from "../middleware/rbac.middleware";
+
+const getCurrentUser = (req: any): string => {
+  return req.user?.id || req.headers['x-user-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+const getCurrentWarehouse = (req: any): string => {
+  return req.user?.warehouseId || req.headers['x-warehouse-id'] || '00000000-0000-0000-0000-000000000001';
+};
+
+const getCurrentRole = (req: any): string | undefined => req.user?.role;
+
+const parseStatus = (value: unknown): WorkRequestStatus | 'open' | 'all' | undefined => {
+  if (value === 'all' || value === 'open') return value;
+  return WORK_REQUEST_STATUSES.includes(value as WorkRequestStatus) ? value as WorkRequestStatus : undefined;
+};
+
+const handleError = (res: any, error: unknown, action: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: error.errors[0]?.message ?? "Invalid request", errors: error.errors });
+  }
+  if (error instanceof WorkRequestError) {
+    return res.status(error.statusCode).json({ message: error.message });
+  }
+  console.error(`${action} error:`, error);
+  res.status(500).json({ message: `Failed to ${action.toLowerCase()}` });
+};
+
+// Photos come in as multipart form data and are re-encoded before they are written to disk
+const photoUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: MAX_REQUEST_PHOTOS },
+  fileFilter: (req, file, cb) => cb(null, file.mimetype.startsWith('image/')),
+});
+
+export function registerWorkRequestRoutes(app: Express, authenticateRequest: any, requireRole: any): void {
+  // Public request portal: no account needed, the signed label or kiosk code decides the warehouse
+
+  app.get("/api/public/request-portal", async (req, res) => {
+    try {
+      if (typeof req.query.code !== 'string' || !req.query.code.trim()) {
+        return res.status(400).json({ message: "code is required" });
+      }
+      res.json(await workRequestService.portalContext(req.query.code));
+    } catch (error) {
+      handleError(res, error, 'Open request portal');
+    }
+  });
+
+  app.post("/api/public/work-requests", (req, res) => {
+    photoUpload.array('photos', MAX_REQUEST_PHOTOS)(req, res, async (uploadError) => {
+      if (uploadError) {
+        const message = uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE'
+          ? 'Each photo must be under 10MB'
+          : uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_COUNT'
+            ? `Attach at most ${MAX_REQUEST_PHOTOS} photos`
+            : 'Photo upload failed';
+        return res.status(400).json({ message });
+      }
+      try {
+        const files = (req.files as Array<{ buffer: Buffer; originalname: string }> | undefined) ?? [];
+        const result = await workRequestService.submit(
+          req.body,
+          files.map(f => ({ buffer: f.buffer, originalName: f.originalname })),
+        );
+        res.status(201).json(result);
+      } catch (error) {
+        handleError(res, error, 'Submit request');
+      }
+    });
+  });
+
+  app.get("/api/public/work-requests/:token", async (req, res) => {
+    try {
+      res.json(await workRequestService.getStatus(req.params.token));
+    } catch (error) {
+      handleError(res, error, 'Fetch request status');
+    }
+  });
+
+  // Triage queue
+
+  app.get("/api/work-requests", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await workRequestService.listQueue(getCurrentWarehouse(req), parseStatus(req.query.status)));
+    } catch (error) {
+      handleError(res, error, 'Fetch work requests');
+    }
+  });
+
+  // The code behind this warehouse's kiosk link; anyone holding it can submit requests
+  app.get("/api/work-requests/kiosk-code", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      res.json({ code: workRequestService.kioskCode(getCurrentWarehouse(req)) });
+    } catch (error) {
+      handleError(res, error, 'Fetch kiosk code');
+    }
+  });
+
+  // Staff requests wait in triage like portal ones instead of becoming work orders straight away
+  app.post("/api/work-requests", authenticateRequest, requirePermission('work_orders', 'create'), async (req, res) => {
+    try {
+      res.status(201).json(await workRequestService.submitInternal(req.body, getCurrentUser(req), getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Create work request');
+    }
+  });
+
+  app.get("/api/work-requests/thresholds", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await workRequestService.getThresholds(getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Fetch approval thresholds');
+    }
+  });
+
+  app.put("/api/work-requests/thresholds", authenticateRequest, requireRole('admin', 'manager'), async (req, res) => {
+    try {
+      res.json(await workRequestService.updateThresholds(getCurrentWarehouse(req), req.body));
+    } catch (error) {
+      handleError(res, error, 'Update approval thresholds');
+    }
+  });
+
+  app.get("/api/work-requests/:id/decisions", authenticateRequest, requirePermission('work_orders', 'read'), async (req, res) => {
+    try {
+      res.json(await workRequestService.getDecisions(req.params.id, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Fetch work request decisions');
+    }
+  });
+
+  // 201 with the work order when approved, 202 when the estimate needs a more senior approver
+  app.post("/api/work-requests/:id/approve", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      const actor = { userId: getCurrentUser(req), role: getCurrentRole(req) };
+      const result = await workRequestService.approve(req.params.id, req.body, actor, getCurrentWarehouse(req));
+      res.status(result.workOrder ? 201 : 202).json(result);
+    } catch (error) {
+      handleError(res, error, 'Approve work request');
+    }
+  });
+
+  app.post("/api/work-requests/:id/merge", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      const { workOrderId } = workRequestMergeSchema.parse(req.body);
+      const actor = { userId: getCurrentUser(req), role: getCurrentRole(req) };
+      res.json(await workRequestService.merge(req.params.id, workOrderId, actor, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Merge work request');
+    }
+  });
+
+  app.post("/api/work-requests/:id/reject", authenticateRequest, requireRole('admin', 'manager', 'supervisor'), async (req, res) => {
+    try {
+      const actor = { userId: getCurrentUser(req), role: getCurrentRole(req) };
+      res.json(await workRequestService.reject(req.params.id, req.body?.reason, actor, getCurrentWarehouse(req)));
+    } catch (error) {
+      handleError(res, error, 'Reject work request');
+    }
+  });
+}
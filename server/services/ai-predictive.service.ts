@@ -1,4 +1,6 @@
 import { storage } from '../storage';
+import type { FailureCode } from '@shared/schema';
+import { downtimeService } from './downtime.service';
 
 export interface EquipmentHealthScore {
   equipmentId: string;
@@ -188,7 +190,8 @@ class AIPredictiveService {
       );
 
       // Determine most likely failure type
-      const failureType = this.predictFailureType(failureHistory, targetEquipment);
+      const failureCodes = new Map((await storage.getFailureCodes(warehouseId)).map(code => [code.id, code]));
+      const failureType = this.predictFailureType(failureHistory, targetEquipment, failureCodes);
       
       // Calculate prediction confidence
       const confidence = this.calculatePredictionConfidence(failureHistory.length, healthScore.overallScore);
@@ -292,6 +295,7 @@ class AIPredictiveService {
     try {
       const workOrders = await storage.getWorkOrders(warehouseId);
       const equipmentWorkOrders = workOrders.filter(wo => wo.equipmentId === equipmentId);
+      const downtime = await storage.getDowntimeEvents({ equipmentId });
       
       const trends: PerformanceTrend[] = [];
       const now = new Date();
@@ -306,12 +310,16 @@ class AIPredictiveService {
         });
 
         const metrics = this.calculateMonthlyMetrics(monthWorkOrders, monthDate);
+        const reliability = downtimeService.summarize(equipmentId, downtime, {
+          from: monthDate,
+          to: new Date(Math.min(nextMonth.getTime(), now.getTime())),
+        });
         
         trends.push({
           date: monthDate.toISOString().slice(0, 7),
-          mtbf: metrics.mtbf,
-          mttr: metrics.mttr,
-          availability: metrics.availability,
+          mtbf: reliability.mtbf ?? reliability.periodHours,
+          mttr: reliability.mttr ?? 0,
+          availability: reliability.availability,
           efficiency: metrics.efficiency,
           cost: metrics.cost
         });
@@ -328,14 +336,8 @@ class AIPredictiveService {
   // Private helper methods
 
   private async calculateAvailabilityScore(equipmentId: string, workOrders: any[]): Promise<number> {
-    // Calculate availability based on uptime vs downtime
-    const totalHours = 30 * 24; // Last 30 days
-    const downtimeHours = workOrders.reduce((sum, wo) => {
-      const duration = wo.actualDuration || 4; // Assume 4 hours if not recorded
-      return sum + duration;
-    }, 0);
-    
-    const availability = ((totalHours - downtimeHours) / totalHours) * 100;
+    // Availability over the last 30 days from recorded downtime events
+    const { availability } = await downtimeService.getReliability(equipmentId);
     return Math.max(0, Math.min(100, availability));
   }
 
@@ -480,8 +482,27 @@ class AIPredictiveService {
     return failureDate;
   }
 
-  private predictFailureType(failureHistory: any[], equipment: any): string {
-    // Analyze most common failure types
+  private predictFailureType(failureHistory: any[], equipment: any, failureCodes: Map<string, FailureCode> = new Map()): string {
+    // Coded history wins: the most frequent problem, with its most frequent cause
+    const count = (ids: string[]) => {
+      const counts = new Map<string, number>();
+      ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+      return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    };
+    const problemId = count(failureHistory.map(wo => wo.problemCodeId).filter(id => failureCodes.has(id)));
+    if (problemId) {
+      const problem = failureCodes.get(problemId)!;
+      const causeId = count(failureHistory
+        .filter(wo => wo.problemCodeId === problemId)
+        .map(wo => wo.causeCodeId)
+        .filter(id => failureCodes.has(id)));
+      const cause = causeId ? failureCodes.get(causeId) : undefined;
+      return cause
+        ? `${problem.name.toLowerCase()} (${cause.name.toLowerCase()})`
+        : problem.name.toLowerCase();
+    }
+
+    // Otherwise guess from the descriptions
     const failureTypes = failureHistory.map(wo => wo.description?.toLowerCase() || '');
     
     if (failureTypes.some(desc => desc.includes('bearing'))) return 'bearing failure';
@@ -693,17 +714,10 @@ class AIPredictiveService {
     return steps;
   }
 
-  private calculateMonthlyMetrics(workOrders: any[], monthDate: Date): {
-    mtbf: number; mttr: number; availability: number; efficiency: number; cost: number;
-  } {
+  private calculateMonthlyMetrics(workOrders: any[], monthDate: Date): { efficiency: number; cost: number } {
     const failures = workOrders.filter(wo => wo.type === 'corrective');
-    const totalHours = 30 * 24; // Hours in month
-    const totalDowntime = workOrders.reduce((sum, wo) => sum + (wo.actualDuration || 4), 0);
-    
+
     return {
-      mtbf: failures.length > 0 ? totalHours / failures.length : totalHours,
-      mttr: failures.length > 0 ? totalDowntime / failures.length : 2,
-      availability: ((totalHours - totalDowntime) / totalHours) * 100,
       efficiency: Math.min(100, Math.max(60, 95 - (failures.length * 5))),
       cost: workOrders.length * 1500
     };
@@ -0,0 +1,7 @@
+/**
+ * Public origin of the app for links that leave it (emails, printed QR codes). Taken from
+ * configuration rather than the request, whose Host header the client controls.
+ */
+export function getAppBaseUrl(): string {
+  return process.env.APP_BASE_URL || process.env.FRONTEND_URL || 'http://localhost:5000';
+}
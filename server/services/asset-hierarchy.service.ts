@@ -0,0 +1,496 @@
+import {
+  equipmentMoveSchema,
+  locationSchema,
+  type Equipment,
+  type EquipmentInstallation,
+  type EquipmentMove,
+  type InsertLocation,
+  type Location,
+  type LocationType,
+  type WorkOrder,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { downtimeService } from "./downtime.service";
+
+export class AssetHierarchyError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'AssetHierarchyError';
+  }
+}
+
+export interface AssetNode extends Equipment {
+  children: AssetNode[];
+}
+
+export interface LocationNode extends Location {
+  path: string;
+  children: LocationNode[];
+  equipment: AssetNode[]; // top-level assets placed here; child assets hang off their parents
+}
+
+export interface AssetTree {
+  locations: LocationNode[];
+  unplaced: AssetNode[];
+}
+
+export interface EquipmentQuery {
+  parentId?: string;
+  locationId?: string;
+  subtree?: boolean;
+}
+
+export interface AssetMetrics {
+  workOrders: number;
+  openWorkOrders: number;
+  partsCost: number;
+  vendorCost: number;
+  totalCost: number;
+  laborHours: number;
+  downtimeHours: number;
+}
+
+export interface AssetRollup {
+  equipmentId: string;
+  assetTag: string;
+  own: AssetMetrics; // work recorded against this asset only
+  total: AssetMetrics; // this asset plus everything fitted to it
+  children: AssetRollup[];
+}
+
+export interface InstallationRecord extends EquipmentInstallation {
+  locationPath: string | null;
+  parentAssetTag: string | null;
+}
+
+// Each level sits under a location of a higher level; levels may be skipped (an area directly under a site)
+const LEVEL: Record<LocationType, number> = { site: 0, building: 1, area: 2, position: 3 };
+
+const article = (type: LocationType) => (type === 'area' ? 'An' : 'A');
+
+const OPEN_STATUSES: WorkOrder['status'][] = ['new', 'assigned', 'in_progress'];
+
+const emptyMetrics = (): AssetMetrics => ({
+  workOrders: 0,
+  openWorkOrders: 0,
+  partsCost: 0,
+  vendorCost: 0,
+  totalCost: 0,
+  laborHours: 0,
+  downtimeHours: 0,
+});
+
+const addMetrics = (a: AssetMetrics, b: AssetMetrics): AssetMetrics => ({
+  workOrders: a.workOrders + b.workOrders,
+  openWorkOrders: a.openWorkOrders + b.openWorkOrders,
+  partsCost: a.partsCost + b.partsCost,
+  vendorCost: a.vendorCost + b.vendorCost,
+  totalCost: a.totalCost + b.totalCost,
+  laborHours: a.laborHours + b.laborHours,
+  downtimeHours: a.downtimeHours + b.downtimeHours,
+});
+
+const round = (metrics: AssetMetrics): AssetMetrics => ({
+  ...metrics,
+  partsCost: Math.round(metrics.partsCost * 100) / 100,
+  vendorCost: Math.round(metrics.vendorCost * 100) / 100,
+  totalCost: Math.round(metrics.totalCost * 100) / 100,
+  laborHours: Math.round(metrics.laborHours * 10) / 10,
+  downtimeHours: Math.round(metrics.downtimeHours * 10) / 10,
+});
+
+export class AssetHierarchyService {
+  private static instance: AssetHierarchyService;
+
+  private constructor() {}
+
+  public static getInstance(): AssetHierarchyService {
+    if (!AssetHierarchyService.instance) {
+      AssetHierarchyService.instance = new AssetHierarchyService();
+    }
+    return AssetHierarchyService.instance;
+  }
+
+  // Locations
+
+  /**
+   * Ancestors of a location from the site down, including the location itself
+   */
+  public getLocationPath(locationId: string, all: Location[]): Location[] {
+    const byId = new Map(all.map(l => [l.id, l]));
+    const path: Location[] = [];
+    let current = byId.get(locationId);
+    while (current && path.length <= all.length) {
+      path.unshift(current);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  public formatPath(path: Location[]): string {
+    return path.map(l => l.name).join(' / ');
+  }
+
+  /**
+   * The location and every location beneath it
+   */
+  public getLocationSubtreeIds(locationId: string, all: Location[]): Set<string> {
+    const ids = new Set([locationId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const location of all) {
+        if (location.parentId && ids.has(location.parentId) && !ids.has(location.id)) {
+          ids.add(location.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
+  }
+
+  private async validateLocationParent(
+    type: LocationType,
+    parentId: string | null | undefined,
+    warehouseId: string,
+    selfId?: string,
+  ): Promise<void> {
+    if (!parentId) {
+      if (type !== 'site') {
+        throw new AssetHierarchyError(`${article(type)} ${type} must sit inside another location`);
+      }
+      return;
+    }
+    if (type === 'site') {
+      throw new AssetHierarchyError('A site cannot sit inside another location');
+    }
+    const parent = await storage.getLocation(parentId);
+    if (!parent || parent.warehouseId !== warehouseId) {
+      throw new AssetHierarchyError('Parent location not found', 404);
+    }
+    if (LEVEL[parent.type] >= LEVEL[type]) {
+      throw new AssetHierarchyError(`${article(type)} ${type} cannot sit inside ${article(parent.type).toLowerCase()} ${parent.type}`);
+    }
+    if (selfId && this.getLocationSubtreeIds(selfId, await storage.getLocations(warehouseId)).has(parentId)) {
+      throw new AssetHierarchyError('A location cannot be moved inside itself');
+    }
+  }
+
+  public async createLocation(input: InsertLocation, warehouseId: string): Promise<Location> {
+    const data = locationSchema.parse(input);
+    await this.validateLocationParent(data.type, data.parentId, warehouseId);
+    return storage.createLocation({ ...data, warehouseId } as InsertLocation & { warehouseId: string });
+  }
+
+  /**
+   * Rename, re-type or re-parent a location, keeping the levels below it consistent
+   */
+  public async updateLocation(id: string, input: Partial<InsertLocation>): Promise<Location> {
+    const existing = await storage.getLocation(id);
+    if (!existing) {
+      throw new AssetHierarchyError('Location not found', 404);
+    }
+    const changes = locationSchema.partial().parse(input);
+    const type = changes.type ?? existing.type;
+    const parentId = changes.parentId !== undefined ? changes.parentId : existing.parentId;
+    if (changes.type !== undefined || changes.parentId !== undefined) {
+      await this.validateLocationParent(type, parentId, existing.warehouseId, id);
+      const children = (await storage.getLocations(existing.warehouseId)).filter(l => l.parentId === id);
+      const misplaced = children.find(child => LEVEL[child.type] <= LEVEL[type]);
+      if (misplaced) {
+        throw new AssetHierarchyError(`${misplaced.name} (${misplaced.type}) cannot sit inside ${article(type).toLowerCase()} ${type}`);
+      }
+    }
+    return storage.updateLocation(id, changes as Partial<InsertLocation>);
+  }
+
+  public async getLocationTree(warehouseId: string): Promise<LocationNode[]> {
+    return (await this.getAssetTree(warehouseId)).locations;
+  }
+
+  // Equipment
+
+  /**
+   * Everything fitted to an asset, at any depth
+   */
+  public getDescendants(equipmentId: string, all: Equipment[]): Equipment[] {
+    const descendants: Equipment[] = [];
+    const queue = [equipmentId];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+      const parentId = queue.shift()!;
+      for (const item of all) {
+        if (item.parentEquipmentId === parentId && !seen.has(item.id)) {
+          seen.add(item.id);
+          descendants.push(item);
+          queue.push(item.id);
+        }
+      }
+    }
+    return descendants;
+  }
+
+  /**
+   * Locations with the assets placed at each, and assets not yet placed anywhere
+   */
+  public async getAssetTree(warehouseId: string): Promise<AssetTree> {
+    const [locations, equipment] = await Promise.all([
+      storage.getLocations(warehouseId),
+      storage.getEquipment(warehouseId),
+    ]);
+
+    const assetNodes = new Map<string, AssetNode>(equipment.map(e => [e.id, { ...e, children: [] }]));
+    const rootAssets: AssetNode[] = [];
+    for (const node of Array.from(assetNodes.values())) {
+      const parent = node.parentEquipmentId ? assetNodes.get(node.parentEquipmentId) : undefined;
+      if (parent) parent.children.push(node);
+      else rootAssets.push(node);
+    }
+
+    const locationNodes = new Map<string, LocationNode>(locations.map(l => [l.id, {
+      ...l,
+      path: this.formatPath(this.getLocationPath(l.id, locations)),
+      children: [],
+      equipment: [],
+    }]));
+    const rootLocations: LocationNode[] = [];
+    for (const node of Array.from(locationNodes.values())) {
+      const parent = node.parentId ? locationNodes.get(node.parentId) : undefined;
+      if (parent) parent.children.push(node);
+      else rootLocations.push(node);
+    }
+
+    const unplaced: AssetNode[] = [];
+    for (const asset of rootAssets) {
+      const location = asset.locationId ? locationNodes.get(asset.locationId) : undefined;
+      if (location) location.equipment.push(asset);
+      else unplaced.push(asset);
+    }
+
+    return { locations: rootLocations, unplaced };
+  }
+
+  /**
+   * Children of an asset or assets at a location; with subtree, everything beneath as well
+   */
+  public async queryEquipment(warehouseId: string, query: EquipmentQuery): Promise<Equipment[]> {
+    const all = await storage.getEquipment(warehouseId);
+
+    if (query.parentId) {
+      return query.subtree
+        ? this.getDescendants(query.parentId, all)
+        : all.filter(e => e.parentEquipmentId === query.parentId);
+    }
+
+    if (query.locationId) {
+      const locationIds = query.subtree
+        ? this.getLocationSubtreeIds(query.locationId, await storage.getLocations(warehouseId))
+        : new Set([query.locationId]);
+      const placed = all.filter(e => e.locationId && locationIds.has(e.locationId));
+      if (!query.subtree) return placed;
+      // Child assets count as being wherever their parent is
+      const result = new Map(placed.map(e => [e.id, e]));
+      for (const asset of placed) {
+        for (const child of this.getDescendants(asset.id, all)) result.set(child.id, child);
+      }
+      return Array.from(result.values());
+    }
+
+    return all;
+  }
+
+  /**
+   * Check that a location and parent asset exist in the same warehouse and would not create a loop
+   */
+  public async validatePlacement(
+    equipmentId: string | null,
+    warehouseId: string,
+    placement: { locationId?: string | null; parentEquipmentId?: string | null },
+  ): Promise<void> {
+    if (placement.locationId) {
+      const location = await storage.getLocation(placement.locationId);
+      if (!location || location.warehouseId !== warehouseId) {
+        throw new AssetHierarchyError('Location not found', 404);
+      }
+    }
+    if (placement.parentEquipmentId) {
+      if (placement.parentEquipmentId === equipmentId) {
+        throw new AssetHierarchyError('An asset cannot be fitted to itself');
+      }
+      const parent = await storage.getEquipmentById(placement.parentEquipmentId);
+      if (!parent || parent.warehouseId !== warehouseId) {
+        throw new AssetHierarchyError('Parent asset not found', 404);
+      }
+      if (equipmentId) {
+        const descendants = this.getDescendants(equipmentId, await storage.getEquipment(warehouseId));
+        if (descendants.some(d => d.id === parent.id)) {
+          throw new AssetHierarchyError(`${parent.assetTag} is fitted to this asset, so it cannot be its parent`);
+        }
+      }
+    }
+  }
+
+  // Name of the area a location belongs to, for the legacy free-text area field
+  private async areaNameFor(locationId: string | null, warehouseId: string): Promise<string | null> {
+    if (!locationId) return null;
+    const path = this.getLocationPath(locationId, await storage.getLocations(warehouseId));
+    return [...path].reverse().find(l => l.type === 'area')?.name ?? null;
+  }
+
+  /**
+   * Open the first installation record for an asset created already placed
+   */
+  public async recordInitialPlacement(equipment: Equipment, userId?: string): Promise<EquipmentInstallation | null> {
+    if (!equipment.locationId && !equipment.parentEquipmentId) return null;
+    return storage.createEquipmentInstallation({
+      equipmentId: equipment.id,
+      locationId: equipment.locationId ?? null,
+      parentEquipmentId: equipment.parentEquipmentId ?? null,
+      installedAt: equipment.installDate ?? new Date(),
+      removedAt: null,
+      installedBy: userId ?? null,
+      removedBy: null,
+      notes: null,
+      warehouseId: equipment.warehouseId,
+    });
+  }
+
+  /**
+   * Move an asset to another position or parent, closing its current installation record and opening a new one
+   */
+  public async moveEquipment(equipmentId: string, input: EquipmentMove, userId?: string): Promise<Equipment> {
+    const move = equipmentMoveSchema.parse(input);
+    const asset = await storage.getEquipmentById(equipmentId);
+    if (!asset) {
+      throw new AssetHierarchyError('Equipment not found', 404);
+    }
+
+    const locationId = move.locationId !== undefined ? move.locationId : asset.locationId;
+    const parentEquipmentId = move.parentEquipmentId !== undefined ? move.parentEquipmentId : asset.parentEquipmentId;
+    if (locationId === asset.locationId && parentEquipmentId === asset.parentEquipmentId) {
+      return asset;
+    }
+    await this.validatePlacement(equipmentId, asset.warehouseId, { locationId, parentEquipmentId });
+
+    const movedAt = move.movedAt ?? new Date();
+    const history = await storage.getEquipmentInstallations(equipmentId);
+    const current = history.find(i => !i.removedAt);
+    if (current) {
+      await storage.updateEquipmentInstallation(current.id, { removedAt: movedAt, removedBy: userId ?? null });
+    } else if (asset.locationId || asset.parentEquipmentId) {
+      // Placed before installation history was kept; record where it has been until now
+      await storage.createEquipmentInstallation({
+        equipmentId,
+        locationId: asset.locationId ?? null,
+        parentEquipmentId: asset.parentEquipmentId ?? null,
+        installedAt: asset.installDate ?? asset.createdAt ?? movedAt,
+        removedAt: movedAt,
+        installedBy: null,
+        removedBy: userId ?? null,
+        notes: null,
+        warehouseId: asset.warehouseId,
+      });
+    }
+
+    if (locationId || parentEquipmentId) {
+      await storage.createEquipmentInstallation({
+        equipmentId,
+        locationId: locationId ?? null,
+        parentEquipmentId: parentEquipmentId ?? null,
+        installedAt: movedAt,
+        removedAt: null,
+        installedBy: userId ?? null,
+        removedBy: null,
+        notes: move.notes ?? null,
+        warehouseId: asset.warehouseId,
+      });
+    }
+
+    const area = await this.areaNameFor(locationId ?? null, asset.warehouseId);
+    return storage.updateEquipment(equipmentId, {
+      locationId: locationId ?? null,
+      parentEquipmentId: parentEquipmentId ?? null,
+      ...(area ? { area } : {}),
+    });
+  }
+
+  /**
+   * Where an asset has been installed, oldest first
+   */
+  public async getInstallationHistory(equipmentId: string): Promise<InstallationRecord[]> {
+    const asset = await storage.getEquipmentById(equipmentId);
+    if (!asset) {
+      throw new AssetHierarchyError('Equipment not found', 404);
+    }
+    const [history, locations] = await Promise.all([
+      storage.getEquipmentInstallations(equipmentId),
+      storage.getLocations(asset.warehouseId),
+    ]);
+    return Promise.all(history.map(async record => ({
+      ...record,
+      locationPath: record.locationId ? this.formatPath(this.getLocationPath(record.locationId, locations)) : null,
+      parentAssetTag: record.parentEquipmentId ? (await storage.getEquipmentById(record.parentEquipmentId))?.assetTag ?? null : null,
+    })));
+  }
+
+  // Roll-up
+
+  /**
+   * Cost, labour and downtime recorded against one asset
+   */
+  private async metricsFor(workOrders: WorkOrder[], downtimeHours: number): Promise<AssetMetrics> {
+    const metrics = emptyMetrics();
+    for (const workOrder of workOrders) {
+      metrics.workOrders += 1;
+      if (OPEN_STATUSES.includes(workOrder.status)) metrics.openWorkOrders += 1;
+
+      for (const usage of await storage.getPartsUsage(workOrder.id)) {
+        metrics.partsCost += usage.quantityUsed * Number(usage.unitCost ?? 0);
+      }
+      metrics.vendorCost += Number(workOrder.vendorInvoicedCost ?? 0);
+      for (const entry of await storage.getLaborTime(workOrder.id)) {
+        metrics.laborHours += (entry.duration ?? 0) / 60;
+      }
+    }
+    metrics.downtimeHours = downtimeHours;
+    metrics.totalCost = metrics.partsCost + metrics.vendorCost;
+    return metrics;
+  }
+
+  /**
+   * Metrics for an asset and everything fitted to it, with the breakdown per child
+   */
+  public async getRollup(equipmentId: string, range: { from?: Date; to?: Date } = {}): Promise<AssetRollup> {
+    const asset = await storage.getEquipmentById(equipmentId);
+    if (!asset) {
+      throw new AssetHierarchyError('Equipment not found', 404);
+    }
+    const [all, workOrders, downtime] = await Promise.all([
+      storage.getEquipment(asset.warehouseId),
+      storage.getWorkOrders(asset.warehouseId),
+      storage.getDowntimeEvents({ warehouseId: asset.warehouseId }),
+    ]);
+    const inRange = workOrders.filter(wo => {
+      const created = new Date(wo.createdAt ?? 0);
+      return (!range.from || created >= range.from) && (!range.to || created <= range.to);
+    });
+
+    const build = async (item: Equipment, seen: Set<string>): Promise<AssetRollup> => {
+      seen.add(item.id);
+      const own = await this.metricsFor(
+        inRange.filter(wo => wo.equipmentId === item.id),
+        downtimeService.downtimeHours(downtime.filter(e => e.equipmentId === item.id), range),
+      );
+      const children: AssetRollup[] = [];
+      for (const child of all.filter(e => e.parentEquipmentId === item.id && !seen.has(e.id))) {
+        children.push(await build(child, seen));
+      }
+      const total = children.reduce((sum, child) => addMetrics(sum, child.total), own);
+      return { equipmentId: item.id, assetTag: item.assetTag, own: round(own), total: round(total), children };
+    };
+
+    return build(asset, new Set());
+  }
+}
+
+export const assetHierarchyService = AssetHierarchyService.getInstance();
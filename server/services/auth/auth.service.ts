@@ -732,6 +732,53 @@ export class AuthService {
     }
   }
 
+  /**
+   * Re-check a signed-in user's password or MFA code before an action they must attest to, such as an e-signature
+   */
+  static async confirmIdentity(
+    userId: string,
+    proof: { password?: string; mfaToken?: string },
+    context: { ipAddress: string; userAgent: string }
+  ): Promise<{ success: boolean; error?: string; accountLocked?: boolean }> {
+    const lockoutKey = `confirm:${userId}`;
+    if (SecurityService.isAccountLocked(lockoutKey)) {
+      return {
+        success: false,
+        accountLocked: true,
+        error: 'Too many failed attempts; try again later'
+      };
+    }
+
+    let verified = false;
+    if (proof.mfaToken) {
+      if (!this.userMFA.get(userId)?.isEnabled) {
+        return { success: false, error: 'Multi-factor authentication is not enabled for this account' };
+      }
+      verified = (await this.verifyMFA(userId, proof.mfaToken)).success;
+    } else if (proof.password) {
+      const userCreds = this.userCredentials.get(userId);
+      if (!userCreds) {
+        return { success: false, error: 'Password confirmation is not available for this account' };
+      }
+      verified = await PasswordService.verifyPassword(proof.password, userCreds.passwordHash, userCreds.passwordSalt);
+    }
+
+    if (!verified) {
+      const isLocked = SecurityService.recordFailedLogin(lockoutKey);
+      await AuditService.logSecurityEvent('identity_confirmation_failed', {
+        method: proof.mfaToken ? 'mfa' : 'password'
+      }, { userId, ...context, riskLevel: 'medium' });
+      return {
+        success: false,
+        accountLocked: isLocked,
+        error: 'Identity could not be confirmed'
+      };
+    }
+
+    SecurityService.clearFailedLogins(lockoutKey);
+    return { success: true };
+  }
+
   static async validateAccess(
     sessionId: string,
     resource: string,
@@ -12,7 +12,7 @@ interface RoleDefinition {
 
 export type UserRole = 'technician' | 'supervisor' | 'manager' | 'admin' | 'inventory_clerk' | 'contractor' | 'requester';
 export type Action = 'create' | 'read' | 'update' | 'delete' | 'approve' | 'assign' | 'escalate' | 'close';
-export type Resource = 'work_orders' | 'equipment' | 'parts' | 'vendors' | 'users' | 'pm_templates' | 'reports' | 'settings' | 'audit_logs';
+export type Resource = 'work_orders' | 'equipment' | 'parts' | 'vendors' | 'purchase_orders' | 'users' | 'pm_templates' | 'reports' | 'settings' | 'audit_logs';
 
 export interface AccessControlContext {
   userId: string;
@@ -51,6 +51,9 @@ export class RBACService {
         { resource: 'vendors', action: 'read' },
         { resource: 'vendors', action: 'create' },
         { resource: 'vendors', action: 'update' },
+        { resource: 'purchase_orders', action: 'read' },
+        { resource: 'purchase_orders', action: 'create' },
+        { resource: 'purchase_orders', action: 'update' },
         { resource: 'work_orders', action: 'read' },
         { resource: 'reports', action: 'read', conditions: { type: 'inventory' } }
       ]
@@ -87,10 +90,14 @@ export class RBACService {
         { resource: 'work_orders', action: 'assign' },
         { resource: 'work_orders', action: 'approve' },
         { resource: 'work_orders', action: 'escalate' },
+        { resource: 'work_orders', action: 'close' },
         { resource: 'equipment', action: 'create' },
         { resource: 'equipment', action: 'update' },
         { resource: 'parts', action: 'create' },
         { resource: 'parts', action: 'update' },
+        { resource: 'purchase_orders', action: 'read' },
+        { resource: 'purchase_orders', action: 'create' },
+        { resource: 'purchase_orders', action: 'update' },
         { resource: 'pm_templates', action: 'read' },
         { resource: 'pm_templates', action: 'create' },
         { resource: 'pm_templates', action: 'update' },
@@ -109,6 +116,7 @@ export class RBACService {
         { resource: 'parts', action: 'delete' },
         { resource: 'pm_templates', action: 'delete' },
         { resource: 'vendors', action: 'delete' },
+        { resource: 'purchase_orders', action: 'approve' },
         { resource: 'users', action: 'create', conditions: { warehouse: 'same' } },
         { resource: 'users', action: 'update', conditions: { warehouse: 'same' } },
         { resource: 'users', action: 'delete', conditions: { warehouse: 'same' } },
@@ -136,8 +144,9 @@ export class RBACService {
     try {
       const rolePermissions = this.getAllPermissions(context.role);
       
-      // Check for wildcard permissions (admin role)
+      // Check for wildcard or unconditional permissions (admin role)
       const hasWildcard = rolePermissions.some(p => 
+        !p.conditions &&
         (p.resource === '*' || p.resource === resource) &&
         (p.action === '*' || p.action === action)
       );
@@ -146,21 +155,12 @@ export class RBACService {
         return true;
       }
 
-      // Find specific permission
-      const permission = rolePermissions.find(p => 
+      // Fall back to conditional permissions
+      const permissions = rolePermissions.filter(p => 
         p.resource === resource && p.action === action
       );
 
-      if (!permission) {
-        return false;
-      }
-
-      // Check conditions if they exist
-      if (permission.conditions) {
-        return this.evaluateConditions(permission.conditions, context);
-      }
-
-      return true;
+      return permissions.some(permission => this.evaluateConditions(permission.conditions, context));
     } catch (error) {
       console.error('Permission check error:', error);
       return false;
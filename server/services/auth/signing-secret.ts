@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+
+// Every HMAC key the server signs with; see Documentation/DEPLOYMENT_GUIDE.md
+export const SIGNING_SECRET_NAMES = ['LABEL_SECRET', 'SIGNATURE_SECRET', 'ON_CALL_FEED_SECRET', 'REQUEST_PORTAL_SECRET'] as const;
+
+export type SigningSecretName = typeof SIGNING_SECRET_NAMES[number];
+
+/**
+ * Production refuses to start without all of the signing secrets, and says which are missing in one go
+ */
+export function assertSigningSecrets(): void {
+  const missing = SIGNING_SECRET_NAMES.filter(name => !process.env[name]);
+  if (missing.length > 0 && process.env.NODE_ENV === 'production') {
+    throw new Error(`Missing signing secrets: ${missing.join(', ')}. Set each to a long random value (see Documentation/DEPLOYMENT_GUIDE.md)`);
+  }
+}
+
+/**
+ * HMAC key for tokens handed out to people and devices (labels, kiosk and calendar links, signature seals),
+ * which must keep verifying across restarts and replicas. Outside production a missing key falls back to a
+ * per-process one, so anything signed with it stops verifying on restart.
+ */
+export function getSigningSecret(name: SigningSecretName): string {
+  assertSigningSecrets();
+  const secret = process.env[name];
+  if (secret) {
+    return secret;
+  }
+  console.warn(`${name} is not set; using a temporary key that changes on every restart`);
+  return crypto.randomBytes(32).toString('hex');
+}
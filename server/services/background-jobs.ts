@@ -1,20 +1,36 @@
 import { escalationEngine } from './escalation-engine';
 import { PMEngine } from './pm-engine';
+import { vendorComplianceService } from './vendor-compliance.service';
+import { webPushService } from './web-push.service';
+import { notificationService } from './notification.service';
+import { slaService } from './sla.service';
+import { pmSchedulerEnhanced, type PMSchedulingResult } from './pm-scheduler-enhanced';
+import { jobQueueService, intervalToCron, JobQueueError } from './job-queue.service';
+import { storage } from '../storage';
+import type { JobType, WorkOrder } from '@shared/schema';
 
 export interface ScheduledJob {
   name: string;
-  interval: number; // in milliseconds
+  jobType: JobType;
+  cron: string; // default schedule; the stored schedule wins once it exists
   lastRun?: Date;
   nextRun?: Date;
-  running: boolean;
+  running: boolean; // on this replica
   enabled: boolean;
 }
 
+// Longest a singleton job may hold its cluster lock before another replica can take over
+const SINGLETON_LOCK_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Recurring maintenance jobs, run through the durable job queue so that with several
+ * server replicas each scheduled run happens once and failed runs are retried
+ */
 export class BackgroundJobScheduler {
   private static instance: BackgroundJobScheduler;
   private jobs: Map<string, ScheduledJob> = new Map();
-  private intervals: Map<string, NodeJS.Timeout> = new Map();
   private pmEngine: PMEngine;
+  private started = false;
   
   private constructor() {
     this.pmEngine = PMEngine.getInstance();
@@ -35,7 +51,8 @@ export class BackgroundJobScheduler {
     // Escalation check every 30 minutes
     this.addJob('escalation-check', {
       name: 'Work Order Escalation Check',
-      interval: 30 * 60 * 1000, // 30 minutes
+      jobType: 'escalation_check',
+      cron: '*/30 * * * *',
       running: false,
       enabled: true,
     }, this.runEscalationCheck.bind(this));
@@ -43,7 +60,8 @@ export class BackgroundJobScheduler {
     // PM generation check every hour
     this.addJob('pm-generation', {
       name: 'Preventive Maintenance Generation',
-      interval: 60 * 60 * 1000, // 1 hour
+      jobType: 'pm_generation',
+      cron: '5 * * * *',
       running: false,
       enabled: true,
     }, this.runPMGeneration.bind(this));
@@ -51,109 +69,87 @@ export class BackgroundJobScheduler {
     // Notification cleanup every 24 hours
     this.addJob('notification-cleanup', {
       name: 'Notification Cleanup',
-      interval: 24 * 60 * 60 * 1000, // 24 hours
+      jobType: 'notification_cleanup',
+      cron: '15 3 * * *',
       running: false,
       enabled: true,
     }, this.runNotificationCleanup.bind(this));
 
+    // Vendor document expiry check every 24 hours
+    this.addJob('vendor-document-expiry', {
+      name: 'Vendor Document Expiry Check',
+      jobType: 'vendor_document_expiry',
+      cron: '30 5 * * *',
+      running: false,
+      enabled: true,
+    }, this.runVendorDocumentExpiryCheck.bind(this));
+
+    // Daily email digests go out hourly to whoever has reached their digest hour
+    this.addJob('notification-digest', {
+      name: 'Notification Email Digest',
+      jobType: 'notification_digest',
+      cron: '0 * * * *',
+      running: false,
+      enabled: true,
+    }, this.runNotificationDigest.bind(this));
+
+    // Expired push subscription cleanup every 24 hours
+    this.addJob('push-subscription-cleanup', {
+      name: 'Push Subscription Cleanup',
+      jobType: 'push_subscription_cleanup',
+      cron: '45 3 * * *',
+      running: false,
+      enabled: true,
+    }, this.runPushSubscriptionCleanup.bind(this));
+
+    // SLA due times and breach stamps every 5 minutes
+    this.addJob('sla-check', {
+      name: 'SLA Breach Check',
+      jobType: 'sla_check',
+      cron: '*/5 * * * *',
+      running: false,
+      enabled: true,
+    }, this.runSlaCheck.bind(this));
+
     console.log('Background job scheduler initialized with', this.jobs.size, 'jobs');
   }
 
   /**
-   * Add a job to the scheduler
+   * Add a job to the scheduler and register its handler with the job queue
    */
   private addJob(jobId: string, job: ScheduledJob, handler: () => Promise<void>): void {
     this.jobs.set(jobId, job);
-    
-    if (job.enabled) {
-      this.startJob(jobId, handler);
-    }
-  }
-
-  /**
-   * Start a specific job
-   */
-  private startJob(jobId: string, handler: () => Promise<void>): void {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
-    // Clear existing interval if any
-    const existingInterval = this.intervals.get(jobId);
-    if (existingInterval) {
-      clearInterval(existingInterval);
-    }
-
-    // Set up new interval
-    const interval = setInterval(async () => {
-      if (job.running) {
-        console.log(`Job ${jobId} is already running, skipping...`);
-        return;
-      }
-
+    jobQueueService.registerHandler(job.jobType, async () => {
+      job.running = true;
+      job.lastRun = new Date();
       try {
-        job.running = true;
-        job.lastRun = new Date();
-        job.nextRun = new Date(Date.now() + job.interval);
-        
         console.log(`Starting background job: ${job.name}`);
         await handler();
         console.log(`Completed background job: ${job.name}`);
-      } catch (error) {
-        console.error(`Error running background job ${job.name}:`, error);
       } finally {
         job.running = false;
       }
-    }, job.interval);
-
-    this.intervals.set(jobId, interval);
-    
-    // Set next run time
-    job.nextRun = new Date(Date.now() + job.interval);
-    
-    console.log(`Started job: ${job.name} (runs every ${job.interval / 1000}s)`);
+    });
   }
 
   /**
-   * Stop a specific job
+   * Create any missing schedules and start the queue worker
    */
-  public stopJob(jobId: string): void {
-    const interval = this.intervals.get(jobId);
-    if (interval) {
-      clearInterval(interval);
-      this.intervals.delete(jobId);
-    }
-    
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.running = false;
-      job.enabled = false;
-    }
-    
-    console.log(`Stopped job: ${jobId}`);
-  }
-
-  /**
-   * Start all enabled jobs
-   */
-  public startAll(): void {
+  public async startAll(): Promise<void> {
     for (const [jobId, job] of this.jobs) {
-      if (job.enabled && !this.intervals.has(jobId)) {
-        const handler = this.getJobHandler(jobId);
-        if (handler) {
-          this.startJob(jobId, handler);
-        }
-      }
+      await jobQueueService.defineSchedule({ name: jobId, jobType: job.jobType, cron: job.cron, enabled: job.enabled });
     }
+    jobQueueService.start();
+    this.started = true;
     console.log('Started all enabled background jobs');
   }
 
   /**
-   * Stop all jobs
+   * Stop the queue worker on this replica; schedules stay in place for the others
    */
   public stopAll(): void {
-    for (const [jobId] of this.jobs) {
-      this.stopJob(jobId);
-    }
+    jobQueueService.stop();
+    this.started = false;
     console.log('Stopped all background jobs');
   }
 
@@ -168,6 +164,14 @@ export class BackgroundJobScheduler {
         return this.runPMGeneration.bind(this);
       case 'notification-cleanup':
         return this.runNotificationCleanup.bind(this);
+      case 'vendor-document-expiry':
+        return this.runVendorDocumentExpiryCheck.bind(this);
+      case 'notification-digest':
+        return this.runNotificationDigest.bind(this);
+      case 'push-subscription-cleanup':
+        return this.runPushSubscriptionCleanup.bind(this);
+      case 'sla-check':
+        return this.runSlaCheck.bind(this);
       default:
         return null;
     }
@@ -178,35 +182,63 @@ export class BackgroundJobScheduler {
    */
   private async runEscalationCheck(): Promise<void> {
     try {
-      const actions = await escalationEngine.checkForEscalations();
-      if (actions.length > 0) {
+      const { acquired, result: actions } = await jobQueueService.withLock('escalation-check', SINGLETON_LOCK_TTL_MS, () =>
+        escalationEngine.checkForEscalations()
+      );
+      if (!acquired) {
+        console.log('Escalation check is already running on another instance, skipping');
+      } else if (actions && actions.length > 0) {
         console.log(`Escalated ${actions.length} work orders`);
       }
     } catch (error) {
       console.error('Error in escalation check job:', error);
+      throw error;
     }
   }
 
+  /**
+   * Generate due PM work orders under the cluster lock. Every path that creates PMs, the hourly job
+   * and manual runs alike, comes through here so the same PM is never generated twice.
+   */
+  public async generatePMs(warehouseId?: string): Promise<{ acquired: boolean; workOrders: WorkOrder[] }> {
+    const { acquired, result } = await jobQueueService.withLock('pm-generation', SINGLETON_LOCK_TTL_MS, async () => {
+      const warehouseIds = warehouseId ? [warehouseId] : (await storage.getWarehouses()).map(w => w.id);
+
+      const generated: WorkOrder[] = [];
+      for (const id of warehouseIds) {
+        generated.push(...await this.pmEngine.generatePMWorkOrders(id));
+      }
+      return generated;
+    });
+    return { acquired, workOrders: result ?? [] };
+  }
+
+  /**
+   * Build a PM plan and create its work orders under the PM generation lock, so a plan
+   * and a generation run can't both add a PM for the same equipment
+   */
+  public async commitPMPlan(warehouseId: string, startDate: Date, endDate: Date): Promise<{ acquired: boolean; plan?: PMSchedulingResult }> {
+    const { acquired, result } = await jobQueueService.withLock('pm-generation', SINGLETON_LOCK_TTL_MS, () =>
+      pmSchedulerEnhanced.generateOptimizedSchedule(warehouseId, startDate, endDate, { dryRun: false })
+    );
+    return { acquired, plan: result };
+  }
+
   /**
    * Run PM generation job
    */
   private async runPMGeneration(): Promise<void> {
     try {
-      // Get all warehouses and generate PMs for each
-      const { storage } = await import('../storage');
-      const warehouses = await storage.getWarehouses();
-      
-      let totalGenerated = 0;
-      for (const warehouse of warehouses) {
-        const generatedWOs = await this.pmEngine.generatePMWorkOrders(warehouse.id);
-        totalGenerated += generatedWOs.length;
-      }
-      
-      if (totalGenerated > 0) {
-        console.log(`Generated ${totalGenerated} preventive maintenance work orders`);
+      const { acquired, workOrders } = await this.generatePMs();
+
+      if (!acquired) {
+        console.log('PM generation is already running on another instance, skipping');
+      } else if (workOrders.length > 0) {
+        console.log(`Generated ${workOrders.length} preventive maintenance work orders`);
       }
     } catch (error) {
       console.error('Error in PM generation job:', error);
+      throw error;
     }
   }
 
@@ -220,78 +252,145 @@ export class BackgroundJobScheduler {
       console.log('Notification cleanup job completed');
     } catch (error) {
       console.error('Error in notification cleanup job:', error);
+      throw error;
     }
   }
 
   /**
-   * Get job status for monitoring
+   * Run vendor document expiry job
    */
-  public getJobStatus(): ScheduledJob[] {
-    return Array.from(this.jobs.values());
+  private async runVendorDocumentExpiryCheck(): Promise<void> {
+    try {
+      const results = await vendorComplianceService.checkDocumentExpiry();
+      const changed = results.filter(r => r.status !== r.previousStatus);
+      if (changed.length > 0) {
+        console.log(`Vendor document check changed the status of ${changed.length} vendors`);
+      }
+    } catch (error) {
+      console.error('Error in vendor document expiry job:', error);
+      throw error;
+    }
   }
 
   /**
-   * Enable/disable a job
+   * Run notification email digest job
    */
-  public setJobEnabled(jobId: string, enabled: boolean): void {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
+  private async runNotificationDigest(): Promise<void> {
+    try {
+      const sent = await notificationService.sendEmailDigests();
+      if (sent > 0) {
+        console.log(`Sent ${sent} notification digests`);
+      }
+    } catch (error) {
+      console.error('Error in notification digest job:', error);
+      throw error;
+    }
+  }
 
-    job.enabled = enabled;
-    
-    if (enabled && !this.intervals.has(jobId)) {
-      const handler = this.getJobHandler(jobId);
-      if (handler) {
-        this.startJob(jobId, handler);
+  /**
+   * Run push subscription cleanup job
+   */
+  private async runPushSubscriptionCleanup(): Promise<void> {
+    try {
+      const removed = await webPushService.cleanupExpired();
+      if (removed > 0) {
+        console.log(`Removed ${removed} expired push subscriptions`);
       }
-    } else if (!enabled) {
-      this.stopJob(jobId);
+    } catch (error) {
+      console.error('Error in push subscription cleanup job:', error);
+      throw error;
     }
-    
-    console.log(`Job ${jobId} ${enabled ? 'enabled' : 'disabled'}`);
   }
 
   /**
-   * Update job interval
+   * Run SLA breach check job
    */
-  public updateJobInterval(jobId: string, intervalMs: number): void {
-    const job = this.jobs.get(jobId);
-    if (!job) return;
-
-    job.interval = intervalMs;
-    
-    // Restart the job with new interval if it's running
-    if (job.enabled) {
-      this.stopJob(jobId);
-      const handler = this.getJobHandler(jobId);
-      if (handler) {
-        this.startJob(jobId, handler);
+  private async runSlaCheck(): Promise<void> {
+    try {
+      const breaches = await slaService.checkBreaches();
+      for (const breach of breaches) {
+        if (!breach.workOrder.assignedTo) continue;
+        await notificationService.sendNotification({
+          userId: breach.workOrder.assignedTo,
+          type: 'wo_overdue',
+          title: `${breach.clock === 'response' ? 'Response' : 'Resolution'} SLA breached`,
+          message: `Work Order ${breach.workOrder.foNumber} missed its ${breach.clock} target at ${breach.breachedAt.toISOString()}`,
+          read: false,
+          workOrderId: breach.workOrder.id,
+        }, { urgent: breach.workOrder.priority === 'critical' });
+      }
+      if (breaches.length > 0) {
+        console.log(`Recorded ${breaches.length} SLA breaches`);
       }
+    } catch (error) {
+      console.error('Error in SLA check job:', error);
+      throw error;
     }
-    
-    console.log(`Updated job ${jobId} interval to ${intervalMs}ms`);
+  }
+
+  /**
+   * Get job status for monitoring, with last and next runs from the shared schedules
+   */
+  public async getJobStatus(): Promise<(ScheduledJob & { id: string })[]> {
+    const schedules = new Map((await storage.getJobSchedules()).map(s => [s.name, s]));
+    return Array.from(this.jobs.entries()).map(([jobId, job]) => {
+      const schedule = schedules.get(jobId);
+      return {
+        ...job,
+        id: jobId,
+        cron: schedule?.cronExpression ?? job.cron,
+        enabled: schedule?.enabled ?? job.enabled,
+        lastRun: schedule?.lastRunAt ?? job.lastRun,
+        nextRun: schedule?.nextRunAt ?? job.nextRun,
+      };
+    });
+  }
+
+  /**
+   * Enable/disable a job across all replicas
+   */
+  public async setJobEnabled(jobId: string, enabled: boolean): Promise<void> {
+    const job = this.getJob(jobId);
+    await this.ensureSchedule(jobId, job);
+    await jobQueueService.updateSchedule(jobId, { enabled });
+    job.enabled = enabled;
+    console.log(`Job ${jobId} ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Change when a job runs
+   */
+  public async updateJobSchedule(jobId: string, cron: string): Promise<void> {
+    const job = this.getJob(jobId);
+    await this.ensureSchedule(jobId, job);
+    await jobQueueService.updateSchedule(jobId, { cron });
+    console.log(`Updated job ${jobId} schedule to ${cron}`);
+  }
+
+  /**
+   * Update job interval (kept for callers that still think in intervals)
+   */
+  public async updateJobInterval(jobId: string, intervalMs: number): Promise<void> {
+    await this.updateJobSchedule(jobId, intervalToCron(intervalMs));
   }
 
   /**
    * Run a job manually (for testing/admin purposes)
    */
   public async runJobManually(jobId: string): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) {
-      throw new Error(`Job ${jobId} not found`);
-    }
-
+    const job = this.getJob(jobId);
     const handler = this.getJobHandler(jobId);
     if (!handler) {
-      throw new Error(`No handler found for job ${jobId}`);
+      throw new JobQueueError(`No handler found for job ${jobId}`, 404);
     }
 
     if (job.running) {
-      throw new Error(`Job ${jobId} is already running`);
+      throw new JobQueueError(`Job ${jobId} is already running`, 409);
     }
 
     try {
       job.running = true;
+      job.lastRun = new Date();
       console.log(`Manually running job: ${job.name}`);
       await handler();
       console.log(`Manually completed job: ${job.name}`);
@@ -299,6 +398,20 @@ export class BackgroundJobScheduler {
       job.running = false;
     }
   }
+
+  private getJob(jobId: string): ScheduledJob {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      throw new JobQueueError(`Job ${jobId} not found`, 404);
+    }
+    return job;
+  }
+
+  private async ensureSchedule(jobId: string, job: ScheduledJob): Promise<void> {
+    if (!this.started) {
+      await jobQueueService.defineSchedule({ name: jobId, jobType: job.jobType, cron: job.cron, enabled: job.enabled });
+    }
+  }
 }
 
 export const backgroundJobScheduler = BackgroundJobScheduler.getInstance();
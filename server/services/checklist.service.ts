@@ -0,0 +1,287 @@
+import { z } from "zod";
+import {
+  checklistItemDefinitionSchema,
+  checklistReadingSchema,
+  type ChecklistItemDefinition,
+  type ChecklistItemType,
+  type ChecklistReading,
+  type ChecklistReadingInput,
+  type PmTemplate,
+  type WorkOrder,
+  type WorkOrderChecklistItem,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { followUpService, type FollowUpOutcome } from "./follow-up.service";
+
+export class ChecklistError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ChecklistError';
+  }
+}
+
+export interface ReadingEvaluation {
+  value: string; // normalised for storage: '12.5', 'true', or the option value
+  numericValue: number | null;
+  withinLimits: boolean;
+}
+
+export type ChecklistItemResult = WorkOrderChecklistItem & { followUp?: FollowUpOutcome | null };
+
+export interface ReadingSeries {
+  definitionKey: string;
+  label: string;
+  itemType: ChecklistItemType;
+  unit: string | null;
+  min: number | null;
+  max: number | null;
+  points: {
+    recordedAt: Date;
+    value: string;
+    numericValue: number | null;
+    withinLimits: boolean;
+    workOrderId: string;
+  }[];
+}
+
+const definitionListSchema = z.array(checklistItemDefinitionSchema)
+  .refine(items => new Set(items.map(i => i.key)).size === items.length, 'Checklist item keys must be unique');
+
+// Readings are part of the record once the work is signed off
+const CLOSED_STATUSES: WorkOrder['status'][] = ['completed', 'verified', 'closed'];
+
+const toNumber = (value: string | number | null | undefined): number | null =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+/**
+ * Check a raw reading against an item's type and limits. Throws when the value cannot be read as that type.
+ */
+export function evaluateReading(
+  item: Pick<WorkOrderChecklistItem, 'itemType' | 'minValue' | 'maxValue' | 'expectedBoolean' | 'options'>,
+  raw: unknown,
+): ReadingEvaluation {
+  switch (item.itemType) {
+    case 'numeric': {
+      const value = typeof raw === 'string' ? Number(raw.trim()) : raw;
+      if (typeof value !== 'number' || raw === '' || !Number.isFinite(value)) {
+        throw new ChecklistError('Reading must be a number');
+      }
+      const min = toNumber(item.minValue);
+      const max = toNumber(item.maxValue);
+      return {
+        value: String(value),
+        numericValue: value,
+        withinLimits: (min === null || value >= min) && (max === null || value <= max),
+      };
+    }
+    case 'boolean': {
+      const value = raw === true || raw === 'true' ? true : raw === false || raw === 'false' ? false : null;
+      if (value === null) {
+        throw new ChecklistError('Answer must be yes or no');
+      }
+      return {
+        value: String(value),
+        numericValue: null,
+        withinLimits: item.expectedBoolean === null || item.expectedBoolean === undefined || value === item.expectedBoolean,
+      };
+    }
+    case 'choice': {
+      const option = (item.options || []).find(o => o.value === raw);
+      if (!option) {
+        throw new ChecklistError(`Choose one of: ${(item.options || []).map(o => o.value).join(', ')}`);
+      }
+      return { value: option.value, numericValue: null, withinLimits: option.acceptable };
+    }
+    default:
+      throw new ChecklistError('Plain check items do not take a reading');
+  }
+}
+
+export class ChecklistService {
+  private static instance: ChecklistService;
+
+  private constructor() {}
+
+  public static getInstance(): ChecklistService {
+    if (!ChecklistService.instance) {
+      ChecklistService.instance = new ChecklistService();
+    }
+    return ChecklistService.instance;
+  }
+
+  /**
+   * Validate customFields.checklistItems before a template is saved
+   */
+  public validateDefinitions(customFields: unknown): ChecklistItemDefinition[] {
+    const items = (customFields as any)?.checklistItems;
+    if (items === undefined || items === null) {
+      return [];
+    }
+    return definitionListSchema.parse(items) as ChecklistItemDefinition[];
+  }
+
+  /**
+   * Typed items for a template, or its single component/action item when none are defined
+   */
+  public definitionsFor(template: PmTemplate): ChecklistItemDefinition[] {
+    const parsed = definitionListSchema.safeParse((template.customFields as any)?.checklistItems);
+    if (parsed.success && parsed.data.length > 0) {
+      return parsed.data as ChecklistItemDefinition[];
+    }
+    if (!parsed.success && (template.customFields as any)?.checklistItems) {
+      console.warn(`PM template ${template.id} has invalid checklist items; using its component/action only`);
+    }
+    return [{ key: '', component: template.component, action: template.action, type: 'check' }];
+  }
+
+  /**
+   * Create a work order's checklist from a PM template, copying each item's limits
+   */
+  public async createItemsFromTemplate(workOrderId: string, template: PmTemplate): Promise<WorkOrderChecklistItem[]> {
+    const created: WorkOrderChecklistItem[] = [];
+    for (const [index, definition] of this.definitionsFor(template).entries()) {
+      created.push(await storage.createWorkOrderChecklistItem({
+        workOrderId,
+        component: definition.component,
+        action: definition.action,
+        status: 'pending',
+        notes: '',
+        sortOrder: index,
+        itemType: definition.type,
+        definitionKey: definition.key || null,
+        unit: definition.unit ?? null,
+        minValue: definition.min !== undefined ? String(definition.min) : null,
+        maxValue: definition.max !== undefined ? String(definition.max) : null,
+        expectedBoolean: definition.expected ?? null,
+        options: definition.options ?? null,
+        followUpMode: definition.followUp ?? null,
+      }));
+    }
+    return created;
+  }
+
+  /**
+   * Record a status change and/or reading on an item. Out-of-limit readings always mark the item as an issue,
+   * and every typed reading is appended to the equipment's history. An item that has just failed raises
+   * or proposes a follow-up work order, returned as followUp. Given expectedVersion, the item is only
+   * updated if nobody has changed it since that version.
+   */
+  public async recordReading(
+    itemId: string,
+    input: ChecklistReadingInput,
+    userId?: string,
+    now: Date = new Date(),
+    expectedVersion?: number,
+  ): Promise<ChecklistItemResult> {
+    const { value, status, notes } = checklistReadingSchema.parse(input);
+    const item = await storage.getChecklistItem(itemId);
+    if (!item) {
+      throw new ChecklistError('Checklist item not found', 404);
+    }
+    const workOrder = await storage.getWorkOrder(item.workOrderId);
+    if (workOrder && CLOSED_STATUSES.includes(workOrder.status)) {
+      throw new ChecklistError(`The checklist of a ${workOrder.status} work order can no longer be changed`, 409);
+    }
+
+    const updates: Partial<WorkOrderChecklistItem> = {};
+    if (notes !== undefined) updates.notes = notes;
+    if (status) updates.status = status;
+
+    let evaluation: ReadingEvaluation | undefined;
+    if (value !== undefined && value !== null && value !== '') {
+      evaluation = evaluateReading(item, value);
+      Object.assign(updates, {
+        value: evaluation.value,
+        withinLimits: evaluation.withinLimits,
+        recordedBy: userId ?? null,
+        recordedAt: now,
+        status: evaluation.withinLimits ? (status ?? 'done') : 'issue',
+      });
+    } else if (status === 'done' && item.itemType && item.itemType !== 'check' && item.value === null) {
+      throw new ChecklistError('Record a reading before completing this item');
+    } else if (value === null || value === '' || status === 'pending') {
+      // Clearing the reading puts the item back to pending unless another status was given
+      Object.assign(updates, { value: null, withinLimits: null, recordedBy: null, recordedAt: null, status: status ?? 'pending' });
+    }
+
+    let updated = await storage.updateChecklistItem(item.id, updates, expectedVersion);
+
+    if (evaluation) {
+      if (workOrder) {
+        await storage.createChecklistReading({
+          checklistItemId: item.id,
+          workOrderId: item.workOrderId,
+          equipmentId: workOrder.equipmentId ?? null,
+          definitionKey: item.definitionKey || item.id,
+          label: `${item.component} – ${item.action}`,
+          itemType: item.itemType ?? 'check',
+          unit: item.unit ?? null,
+          numericValue: evaluation.numericValue !== null ? String(evaluation.numericValue) : null,
+          value: evaluation.value,
+          minValue: item.minValue ?? null,
+          maxValue: item.maxValue ?? null,
+          withinLimits: evaluation.withinLimits,
+          recordedBy: userId ?? null,
+          recordedAt: now,
+          warehouseId: workOrder.warehouseId,
+        });
+      }
+    }
+
+    if (updated.status !== 'issue' || item.status === 'issue') {
+      return updated;
+    }
+    try {
+      const followUp = await followUpService.handleFailure(updated, evaluation ? 'reading' : 'status', userId);
+      if (followUp?.mode === 'auto') {
+        updated = (await storage.getChecklistItem(item.id)) ?? updated;
+      }
+      return { ...updated, followUp };
+    } catch (error) {
+      // The reading is saved either way; the follow-up can still be raised by hand
+      console.error('Failed to raise follow-up work order:', error);
+      return updated;
+    }
+  }
+
+  /**
+   * Reading history for an equipment, one series per checklist item key, oldest first
+   */
+  public async getReadingSeries(equipmentId: string, definitionKey?: string): Promise<ReadingSeries[]> {
+    const readings = await storage.getChecklistReadings(equipmentId, definitionKey);
+    const series = new Map<string, ReadingSeries>();
+    for (const reading of readings) {
+      const entry = series.get(reading.definitionKey) ?? this.newSeries(reading);
+      // Labels and limits follow the most recent reading, in case the template changed
+      Object.assign(entry, {
+        label: reading.label,
+        unit: reading.unit,
+        min: toNumber(reading.minValue),
+        max: toNumber(reading.maxValue),
+      });
+      entry.points.push({
+        recordedAt: reading.recordedAt,
+        value: reading.value,
+        numericValue: toNumber(reading.numericValue),
+        withinLimits: reading.withinLimits,
+        workOrderId: reading.workOrderId,
+      });
+      series.set(reading.definitionKey, entry);
+    }
+    return Array.from(series.values());
+  }
+
+  private newSeries(reading: ChecklistReading): ReadingSeries {
+    return {
+      definitionKey: reading.definitionKey,
+      label: reading.label,
+      itemType: reading.itemType,
+      unit: reading.unit,
+      min: null,
+      max: null,
+      points: [],
+    };
+  }
+}
+
+export const checklistService = ChecklistService.getInstance();
@@ -0,0 +1,386 @@
+import {
+  downtimeEventSchema,
+  downtimeUpdateSchema,
+  type DowntimeEvent,
+  type DowntimeReasonCode,
+  type DowntimeSource,
+  type DowntimeUpdate,
+  type Equipment,
+  type InsertDowntimeEvent,
+  type WorkOrder,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export class DowntimeError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'DowntimeError';
+  }
+}
+
+export interface DowntimeReasonSummary {
+  reason: DowntimeReasonCode;
+  occurrences: number;
+  totalHours: number;
+  percentage: number;
+}
+
+export interface ReliabilityMetrics {
+  equipmentId: string;
+  from: Date;
+  to: Date;
+  periodHours: number;
+  downtimeHours: number; // overlapping events are only counted once
+  plannedDowntimeHours: number;
+  unplannedDowntimeHours: number;
+  failures: number; // unplanned events that started in the period
+  mttr: number | null; // hours of unplanned downtime per failure
+  mtbf: number | null; // hours of uptime per failure
+  availability: number; // percentage of the period the asset was up
+  lastFailureAt: Date | null;
+  downtimeReasons: DowntimeReasonSummary[];
+}
+
+export interface FleetReliability {
+  equipmentCount: number;
+  periodHours: number;
+  downtimeHours: number;
+  failures: number;
+  mttr: number | null;
+  mtbf: number | null;
+  availability: number;
+}
+
+export interface ReliabilityRange {
+  from?: Date;
+  to?: Date;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_PERIOD_DAYS = 30;
+
+const OPEN_STATUSES: WorkOrder['status'][] = ['new', 'assigned', 'in_progress'];
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+export class DowntimeService {
+  private static instance: DowntimeService;
+
+  private constructor() {}
+
+  public static getInstance(): DowntimeService {
+    if (!DowntimeService.instance) {
+      DowntimeService.instance = new DowntimeService();
+    }
+    return DowntimeService.instance;
+  }
+
+  // Events
+
+  public async listEvents(filters: { warehouseId?: string; equipmentId?: string; workOrderId?: string; open?: boolean }): Promise<DowntimeEvent[]> {
+    return storage.getDowntimeEvents(filters);
+  }
+
+  /**
+   * Record downtime for an asset. Only one event can be open per asset at a time; an event
+   * given with an end time is logged after the fact and may overlap others.
+   */
+  public async openEvent(
+    input: InsertDowntimeEvent,
+    warehouseId: string,
+    userId?: string,
+    source: DowntimeSource = 'manual',
+  ): Promise<DowntimeEvent> {
+    const data = downtimeEventSchema.parse(input);
+    const asset = await storage.getEquipmentById(data.equipmentId);
+    if (!asset || asset.warehouseId !== warehouseId) {
+      throw new DowntimeError('Equipment not found', 404);
+    }
+    if (data.workOrderId) {
+      const workOrder = await storage.getWorkOrder(data.workOrderId);
+      if (!workOrder || workOrder.warehouseId !== warehouseId) {
+        throw new DowntimeError('Work order not found', 404);
+      }
+    }
+    const startedAt = data.startedAt ?? new Date();
+    if (startedAt.getTime() > Date.now()) {
+      throw new DowntimeError('Downtime cannot start in the future');
+    }
+    if (!data.endedAt) {
+      const [open] = await storage.getDowntimeEvents({ equipmentId: asset.id, open: true });
+      if (open) {
+        throw new DowntimeError(`${asset.assetTag} is already down since ${new Date(open.startedAt).toISOString()}`, 409);
+      }
+    }
+
+    return storage.createDowntimeEvent({
+      equipmentId: asset.id,
+      workOrderId: data.workOrderId ?? null,
+      type: data.type,
+      reasonCode: data.reasonCode,
+      source,
+      startedAt,
+      endedAt: data.endedAt ?? null,
+      notes: data.notes ?? null,
+      openedBy: userId ?? null,
+      closedBy: data.endedAt ? userId ?? null : null,
+      warehouseId,
+    });
+  }
+
+  public async updateEvent(id: string, changes: DowntimeUpdate, userId?: string): Promise<DowntimeEvent> {
+    const data = downtimeUpdateSchema.parse(changes);
+    const event = await storage.getDowntimeEvent(id);
+    if (!event) {
+      throw new DowntimeError('Downtime event not found', 404);
+    }
+    const startedAt = data.startedAt ?? new Date(event.startedAt);
+    const endedAt = data.endedAt === undefined ? event.endedAt : data.endedAt;
+    if (endedAt && new Date(endedAt).getTime() <= startedAt.getTime()) {
+      throw new DowntimeError('Downtime must end after it starts');
+    }
+    if (data.endedAt === null && event.endedAt) {
+      const [open] = await storage.getDowntimeEvents({ equipmentId: event.equipmentId, open: true });
+      if (open) {
+        throw new DowntimeError('Another downtime event is already open for this asset', 409);
+      }
+    }
+
+    const updates: Partial<DowntimeEvent> = { ...data };
+    if (data.endedAt !== undefined) {
+      updates.closedBy = data.endedAt ? userId ?? event.closedBy : null;
+    }
+    return storage.updateDowntimeEvent(id, updates);
+  }
+
+  public async closeEvent(id: string, userId?: string, endedAt: Date = new Date()): Promise<DowntimeEvent> {
+    const event = await storage.getDowntimeEvent(id);
+    if (!event) {
+      throw new DowntimeError('Downtime event not found', 404);
+    }
+    if (event.endedAt) {
+      throw new DowntimeError('Downtime event is already closed', 409);
+    }
+    return this.updateEvent(id, { endedAt }, userId);
+  }
+
+  // Automatic events
+
+  /**
+   * An emergency work order means the asset is down now. If it was already down, the open
+   * event is linked to the work order instead of starting a second one.
+   */
+  public async onWorkOrderCreated(workOrder: WorkOrder, userId?: string): Promise<DowntimeEvent | null> {
+    if (workOrder.type !== 'emergency' || !workOrder.equipmentId) return null;
+
+    const [open] = await storage.getDowntimeEvents({ equipmentId: workOrder.equipmentId, open: true });
+    if (open) {
+      return open.workOrderId ? open : storage.updateDowntimeEvent(open.id, { workOrderId: workOrder.id });
+    }
+    return this.openEvent({
+      equipmentId: workOrder.equipmentId,
+      workOrderId: workOrder.id,
+      type: 'unplanned',
+      reasonCode: 'breakdown',
+      startedAt: workOrder.createdAt ? new Date(workOrder.createdAt) : undefined,
+      notes: `Opened by emergency work order ${workOrder.foNumber}`,
+    }, workOrder.warehouseId, userId, 'work_order');
+  }
+
+  /**
+   * Completing the repair ends the downtime it caused, unless the asset is still held in maintenance
+   */
+  public async onWorkOrderCompleted(workOrder: WorkOrder, userId?: string): Promise<DowntimeEvent[]> {
+    const asset = workOrder.equipmentId ? await storage.getEquipmentById(workOrder.equipmentId) : undefined;
+    if (asset?.status === 'maintenance') return [];
+
+    const endedAt = workOrder.completedAt ? new Date(workOrder.completedAt) : new Date();
+    const closed: DowntimeEvent[] = [];
+    for (const event of await storage.getDowntimeEvents({ workOrderId: workOrder.id, open: true })) {
+      closed.push(await this.autoClose(event, endedAt, userId));
+    }
+    return closed;
+  }
+
+  /**
+   * Putting an asset into maintenance opens downtime (unplanned if corrective or emergency work
+   * is open against it); bringing it back to active closes whatever downtime is still open.
+   */
+  public async onEquipmentStatusChange(before: Equipment, after: Equipment, userId?: string): Promise<DowntimeEvent | null> {
+    if (before.status === after.status) return null;
+
+    if (after.status === 'maintenance') {
+      const [open] = await storage.getDowntimeEvents({ equipmentId: after.id, open: true });
+      if (open) return open;
+
+      const workOrders = (await storage.getWorkOrders(after.warehouseId))
+        .filter(wo => wo.equipmentId === after.id && OPEN_STATUSES.includes(wo.status));
+      const repair = workOrders.find(wo => wo.type !== 'preventive');
+      const planned = workOrders.find(wo => wo.type === 'preventive');
+      return this.openEvent({
+        equipmentId: after.id,
+        workOrderId: (repair ?? planned)?.id ?? null,
+        type: repair ? 'unplanned' : 'planned',
+        reasonCode: repair ? 'breakdown' : 'preventive_maintenance',
+        notes: 'Opened when the equipment was put into maintenance',
+      }, after.warehouseId, userId, 'equipment_status');
+    }
+
+    if (before.status === 'maintenance' && after.status === 'active') {
+      const [open] = await storage.getDowntimeEvents({ equipmentId: after.id, open: true });
+      if (open) return this.autoClose(open, new Date(), userId);
+    }
+    return null;
+  }
+
+  // Automatic closes never fail on timing; an event opened and closed in the same instant still ends after it starts
+  private async autoClose(event: DowntimeEvent, endedAt: Date, userId?: string): Promise<DowntimeEvent> {
+    return storage.updateDowntimeEvent(event.id, {
+      endedAt: new Date(Math.max(endedAt.getTime(), new Date(event.startedAt).getTime() + 1)),
+      closedBy: userId ?? null,
+    });
+  }
+
+  // Reliability
+
+  private resolveRange(range: ReliabilityRange): { from: Date; to: Date } {
+    const to = range.to ?? new Date();
+    const from = range.from ?? new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * HOUR_MS);
+    if (from >= to) {
+      throw new DowntimeError('The reporting period must end after it starts');
+    }
+    return { from, to };
+  }
+
+  /**
+   * Events clipped to the period, with open events running to the end of it
+   */
+  private clip(events: DowntimeEvent[], from: Date, to: Date): Array<{ event: DowntimeEvent; start: number; end: number }> {
+    const horizon = Math.min(to.getTime(), Date.now());
+    return events
+      .map(event => ({
+        event,
+        start: Math.max(new Date(event.startedAt).getTime(), from.getTime()),
+        end: Math.min(event.endedAt ? new Date(event.endedAt).getTime() : horizon, to.getTime()),
+      }))
+      .filter(span => span.end > span.start);
+  }
+
+  private mergedHours(spans: Array<{ start: number; end: number }>): number {
+    let total = 0;
+    let current: { start: number; end: number } | null = null;
+    for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+      if (current && span.start <= current.end) {
+        current.end = Math.max(current.end, span.end);
+      } else {
+        if (current) total += current.end - current.start;
+        current = { ...span };
+      }
+    }
+    if (current) total += current.end - current.start;
+    return total / HOUR_MS;
+  }
+
+  /**
+   * MTTR, MTBF and availability for one asset from its recorded downtime
+   */
+  public summarize(equipmentId: string, events: DowntimeEvent[], range: ReliabilityRange = {}): ReliabilityMetrics {
+    const { from, to } = this.resolveRange(range);
+    const periodHours = (to.getTime() - from.getTime()) / HOUR_MS;
+    const spans = this.clip(events.filter(e => e.equipmentId === equipmentId), from, to);
+
+    const downtimeHours = Math.min(periodHours, this.mergedHours(spans));
+    const plannedDowntimeHours = this.mergedHours(spans.filter(s => s.event.type === 'planned'));
+    const unplanned = spans.filter(s => s.event.type === 'unplanned');
+    const unplannedDowntimeHours = this.mergedHours(unplanned);
+    // Failures are counted where they start; MTTR averages the repair time of those same failures
+    const failures = unplanned.filter(s => new Date(s.event.startedAt).getTime() >= from.getTime());
+    const repairHours = failures.reduce((sum, s) => sum + (s.end - s.start), 0) / HOUR_MS;
+    const lastFailure = failures[failures.length - 1];
+
+    const byReason = new Map<DowntimeReasonCode, { occurrences: number; hours: number }>();
+    for (const span of spans) {
+      const entry = byReason.get(span.event.reasonCode) ?? { occurrences: 0, hours: 0 };
+      entry.occurrences += 1;
+      entry.hours += (span.end - span.start) / HOUR_MS;
+      byReason.set(span.event.reasonCode, entry);
+    }
+    const reasonHours = Array.from(byReason.values()).reduce((sum, r) => sum + r.hours, 0);
+
+    return {
+      equipmentId,
+      from,
+      to,
+      periodHours: round1(periodHours),
+      downtimeHours: round1(downtimeHours),
+      plannedDowntimeHours: round1(plannedDowntimeHours),
+      unplannedDowntimeHours: round1(unplannedDowntimeHours),
+      failures: failures.length,
+      mttr: failures.length > 0 ? round1(repairHours / failures.length) : null,
+      mtbf: failures.length > 0 ? round1((periodHours - downtimeHours) / failures.length) : null,
+      availability: round1(((periodHours - downtimeHours) / periodHours) * 100),
+      lastFailureAt: lastFailure ? new Date(lastFailure.event.startedAt) : null,
+      downtimeReasons: Array.from(byReason.entries())
+        .map(([reason, r]) => ({
+          reason,
+          occurrences: r.occurrences,
+          totalHours: round1(r.hours),
+          percentage: reasonHours > 0 ? round1((r.hours / reasonHours) * 100) : 0,
+        }))
+        .sort((a, b) => b.totalHours - a.totalHours),
+    };
+  }
+
+  public async getReliability(equipmentId: string, range: ReliabilityRange = {}): Promise<ReliabilityMetrics> {
+    const asset = await storage.getEquipmentById(equipmentId);
+    if (!asset) {
+      throw new DowntimeError('Equipment not found', 404);
+    }
+    return this.summarize(equipmentId, await storage.getDowntimeEvents({ equipmentId }), range);
+  }
+
+  /**
+   * Reliability for every asset in a warehouse, keyed by equipment id
+   */
+  public async getWarehouseReliability(warehouseId: string, range: ReliabilityRange = {}): Promise<Map<string, ReliabilityMetrics>> {
+    const [equipment, events] = await Promise.all([
+      storage.getEquipment(warehouseId),
+      storage.getDowntimeEvents({ warehouseId }),
+    ]);
+    return new Map(equipment.map(e => [e.id, this.summarize(e.id, events, range)]));
+  }
+
+  /**
+   * Reliability across all assets in a warehouse, weighting each asset equally by time
+   */
+  public async getFleetReliability(warehouseId: string, range: ReliabilityRange = {}): Promise<FleetReliability> {
+    const { from, to } = this.resolveRange(range);
+    const metrics = Array.from((await this.getWarehouseReliability(warehouseId, { from, to })).values());
+    const periodHours = (to.getTime() - from.getTime()) / HOUR_MS;
+    const downtimeHours = metrics.reduce((sum, m) => sum + m.downtimeHours, 0);
+    const unplannedHours = metrics.reduce((sum, m) => sum + m.unplannedDowntimeHours, 0);
+    const failures = metrics.reduce((sum, m) => sum + m.failures, 0);
+    const assetHours = periodHours * metrics.length;
+
+    return {
+      equipmentCount: metrics.length,
+      periodHours: round1(periodHours),
+      downtimeHours: round1(downtimeHours),
+      failures,
+      mttr: failures > 0 ? round1(unplannedHours / failures) : null,
+      mtbf: failures > 0 ? round1((assetHours - downtimeHours) / failures) : null,
+      availability: assetHours > 0 ? round1(((assetHours - downtimeHours) / assetHours) * 100) : 100,
+    };
+  }
+
+  /**
+   * Hours an asset was down within a period, overlapping events counted once
+   */
+  public downtimeHours(events: DowntimeEvent[], range: ReliabilityRange = {}): number {
+    const from = range.from ?? new Date(0);
+    const to = range.to ?? new Date();
+    return this.mergedHours(this.clip(events, from, to));
+  }
+}
+
+export const downtimeService = DowntimeService.getInstance();
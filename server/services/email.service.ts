@@ -0,0 +1,211 @@
+import net from 'net';
+import tls from 'tls';
+import crypto from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Anything that can deliver a message; swap in a provider SDK or a test double with setTransport() */
+export interface EmailTransport {
+  send(message: EmailMessage & { from: string }): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * Minimal SMTP client: EHLO, optional STARTTLS and AUTH LOGIN, then a single plain-text message
+ */
+export class SmtpTransport implements EmailTransport {
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    let socket: net.Socket = await this.connect();
+    let reader = this.createReader(socket);
+
+    try {
+      await this.expect(reader, 220);
+      let capabilities = await this.command(socket, reader, `EHLO ${this.clientName()}`, 250);
+
+      if (!this.options.secure && capabilities.lines.some(l => /STARTTLS/i.test(l))) {
+        await this.command(socket, reader, 'STARTTLS', 220);
+        socket = await this.upgrade(socket);
+        reader = this.createReader(socket);
+        capabilities = await this.command(socket, reader, `EHLO ${this.clientName()}`, 250);
+      }
+
+      if (this.options.user) {
+        await this.command(socket, reader, 'AUTH LOGIN', 334);
+        await this.command(socket, reader, Buffer.from(this.options.user).toString('base64'), 334);
+        await this.command(socket, reader, Buffer.from(this.options.pass || '').toString('base64'), 235);
+      }
+
+      await this.command(socket, reader, `MAIL FROM:<${this.address(message.from)}>`, 250);
+      await this.command(socket, reader, `RCPT TO:<${this.address(message.to)}>`, [250, 251]);
+      await this.command(socket, reader, 'DATA', 354);
+      await this.command(socket, reader, `${this.formatMessage(message)}\r\n.`, 250);
+      await this.command(socket, reader, 'QUIT', 221).catch(() => undefined);
+    } finally {
+      socket.end();
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure, timeoutMs = 30000 } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+      socket.once('error', reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      socket.removeAllListeners('data');
+      const secured = tls.connect({ socket, servername: this.options.host }, () => resolve(secured));
+      secured.once('error', reject);
+    });
+  }
+
+  /** Collects multi-line replies ("250-..." continued until "250 ...") and hands them out in order */
+  private createReader(socket: net.Socket): () => Promise<SmtpResponse> {
+    let buffer = '';
+    let lines: string[] = [];
+    const ready: SmtpResponse[] = [];
+    const waiting: { resolve: (r: SmtpResponse) => void; reject: (e: Error) => void }[] = [];
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        lines.push(line);
+        if (/^\d{3}(?: |$)/.test(line)) {
+          const response = { code: parseInt(line.slice(0, 3), 10), lines };
+          lines = [];
+          const next = waiting.shift();
+          next ? next.resolve(response) : ready.push(response);
+        }
+      }
+    });
+    socket.on('error', (error) => waiting.splice(0).forEach(w => w.reject(error)));
+    socket.on('close', () => waiting.splice(0).forEach(w => w.reject(new Error('SMTP connection closed'))));
+
+    return () => {
+      const response = ready.shift();
+      if (response) {
+        return Promise.resolve(response);
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    };
+  }
+
+  private async expect(read: () => Promise<SmtpResponse>, expected: number | number[]): Promise<SmtpResponse> {
+    const response = await read();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(response.code)) {
+      throw new Error(`SMTP error ${response.code}: ${response.lines.join(' ')}`);
+    }
+    return response;
+  }
+
+  private async command(
+    socket: net.Socket,
+    read: () => Promise<SmtpResponse>,
+    line: string,
+    expected: number | number[],
+  ): Promise<SmtpResponse> {
+    socket.write(`${line}\r\n`);
+    return this.expect(read, expected);
+  }
+
+  private formatMessage(message: EmailMessage & { from: string }): string {
+    const domain = this.address(message.from).split('@')[1] || 'localhost';
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: 8bit',
+    ];
+    // Dot-stuffing so a line starting with "." is not read as the end of the message
+    const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  }
+
+  private address(value: string): string {
+    const match = value.match(/<([^>]+)>/);
+    return match ? match[1] : value.trim();
+  }
+
+  private clientName(): string {
+    return process.env.SMTP_CLIENT_NAME || 'localhost';
+  }
+}
+
+/** Development fallback when no SMTP server is configured */
+export class LogTransport implements EmailTransport {
+  async send(message: EmailMessage & { from: string }): Promise<void> {
+    console.log(`[email] To: ${message.to} | Subject: ${message.subject}`);
+  }
+}
+
+class EmailService {
+  private static instance: EmailService;
+  private transport: EmailTransport;
+
+  private constructor() {
+    this.transport = this.createDefaultTransport();
+  }
+
+  public static getInstance(): EmailService {
+    if (!EmailService.instance) {
+      EmailService.instance = new EmailService();
+    }
+    return EmailService.instance;
+  }
+
+  public setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  public async send(message: EmailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: process.env.EMAIL_FROM || 'MaintainPro <noreply@maintainpro.local>' });
+  }
+
+  private createDefaultTransport(): EmailTransport {
+    if (!process.env.SMTP_HOST || process.env.ENABLE_EMAIL_NOTIFICATIONS === 'false') {
+      return new LogTransport();
+    }
+    const port = parseInt(process.env.SMTP_PORT || '587', 10);
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  }
+}
+
+export const emailService = EmailService.getInstance();
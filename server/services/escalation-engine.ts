@@ -1,8 +1,15 @@
-import { WorkOrder, Profile, Notification, InsertNotification, EscalationRule, InsertEscalationRule, EscalationHistory, InsertEscalationHistory } from "@shared/schema";
+import { WorkOrder, Profile, InsertNotification, EscalationRule, EscalationHistory, EscalationLevel, EscalationPolicy, EscalationTrigger } from "@shared/schema";
 import { storage } from "../storage";
-import { db } from "../db";
-import { escalationRules, escalationHistory } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { notificationService } from "./notification.service";
+import { slaService } from "./sla.service";
+import { onCallService } from "./on-call.service";
+
+export class EscalationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'EscalationError';
+  }
+}
 
 export interface EscalationAction {
   workOrderId: string;
@@ -11,13 +18,74 @@ export interface EscalationAction {
   escalatedAt: Date;
   reason: string;
   previousAssignee?: string;
+  trigger?: EscalationTrigger;
+  repeat?: boolean; // a reminder for a level that has not been acknowledged yet
 }
 
+export type ResolvedEscalationRule = EscalationRule & { levels: EscalationLevel[] };
+
+type WorkOrderType = EscalationRule['workOrderType'];
+type Priority = EscalationRule['priority'];
+
+const ACKNOWLEDGING_ROLES = ['supervisor', 'manager', 'admin'];
+
+// Default chains: supervisor first, then manager, then the admin on call
+const DEFAULT_CHAINS: { workOrderType: WorkOrderType; priority: Priority; levels: Omit<EscalationLevel, 'level'>[] }[] = [
+  {
+    workOrderType: 'emergency',
+    priority: 'critical',
+    levels: [
+      { delayHours: 1, target: 'supervisor', action: 'notify', repeatMinutes: 15 },
+      { delayHours: 2, target: 'manager', action: 'notify', repeatMinutes: 15 },
+      { delayHours: 4, target: 'admin', action: 'notify', repeatMinutes: 30 },
+    ],
+  },
+  {
+    workOrderType: 'corrective',
+    priority: 'high',
+    levels: [
+      { delayHours: 12, target: 'supervisor', action: 'notify', repeatMinutes: 120 },
+      { delayHours: 24, target: 'manager', action: 'notify', repeatMinutes: 240 },
+      { delayHours: 48, target: 'admin', action: 'notify', repeatMinutes: 480 },
+    ],
+  },
+  {
+    workOrderType: 'corrective',
+    priority: 'medium',
+    levels: [
+      { delayHours: 24, target: 'supervisor', action: 'notify', repeatMinutes: 480 },
+      { delayHours: 48, target: 'manager', action: 'notify', repeatMinutes: 480 },
+    ],
+  },
+  {
+    workOrderType: 'preventive',
+    priority: 'low',
+    levels: [
+      { delayHours: 72, target: 'supervisor', action: 'notify', repeatMinutes: 0 },
+      { delayHours: 120, target: 'manager', action: 'notify', repeatMinutes: 1440 },
+    ],
+  },
+];
+
+const numberLevels = (levels: Omit<EscalationLevel, 'level'>[]): EscalationLevel[] =>
+  levels.map((level, index) => ({ ...level, userId: level.userId ?? null, level: index + 1 }));
+
+/**
+ * The single-step columns older readers still look at, mirrored from the first level
+ */
+const legacyColumns = (first: EscalationLevel) => ({
+  timeoutHours: Math.max(1, Math.round(first.delayHours)),
+  escalationAction: first.action === 'reassign'
+    ? 'auto_reassign' as const
+    : first.target === 'manager' ? 'notify_manager' as const : 'notify_supervisor' as const,
+  escalateTo: first.target === 'user' ? first.userId ?? null : null,
+});
+
 export class EscalationEngine {
   private static instance: EscalationEngine;
-  
+
   private constructor() {}
-  
+
   public static getInstance(): EscalationEngine {
     if (!EscalationEngine.instance) {
       EscalationEngine.instance = new EscalationEngine();
@@ -26,97 +94,76 @@ export class EscalationEngine {
   }
 
   /**
-   * Initialize default escalation rules for a warehouse if none exist
+   * Initialize default escalation chains for a warehouse if none exist
    */
   async initializeDefaultRules(warehouseId: string): Promise<void> {
     try {
-      // Check if rules already exist for this warehouse
-      const existingRules = await db.select().from(escalationRules)
-        .where(eq(escalationRules.warehouseId, warehouseId));
-      
+      const existingRules = await storage.getEscalationRules(warehouseId);
       if (existingRules.length > 0) {
         return; // Rules already exist
       }
 
-      // Create default escalation rules  
-      const defaultRules = [
-        {
-          id: crypto.randomUUID(),
-          workOrderType: 'emergency' as const,
-          priority: 'critical' as const,
-          timeoutHours: 4,
-          escalationAction: 'notify_manager' as const,
-          warehouseId,
-          active: true,
-          createdAt: new Date(),
-        },
-        {
-          id: crypto.randomUUID(),
-          workOrderType: 'corrective' as const,
-          priority: 'high' as const,
-          timeoutHours: 12,
-          escalationAction: 'notify_supervisor' as const,
-          warehouseId,
-          active: true,
-          createdAt: new Date(),
-        },
-        {
-          id: crypto.randomUUID(),
-          workOrderType: 'corrective' as const,
-          priority: 'medium' as const,
-          timeoutHours: 24,
-          escalationAction: 'notify_supervisor' as const,
-          warehouseId,
-          active: true,
-          createdAt: new Date(),
-        },
-        {
-          id: crypto.randomUUID(),
-          workOrderType: 'preventive' as const,
-          priority: 'low' as const,
-          timeoutHours: 72,
-          escalationAction: 'notify_supervisor' as const,
+      for (const chain of DEFAULT_CHAINS) {
+        const levels = numberLevels(chain.levels);
+        await storage.createEscalationRule({
+          workOrderType: chain.workOrderType,
+          priority: chain.priority,
+          ...legacyColumns(levels[0]),
+          levels,
           warehouseId,
           active: true,
-          createdAt: new Date(),
-        }
-      ];
-
-      await db.insert(escalationRules).values(defaultRules);
-      console.log(`Initialized ${defaultRules.length} default escalation rules for warehouse ${warehouseId}`);
+        });
+      }
+      console.log(`Initialized ${DEFAULT_CHAINS.length} default escalation rules for warehouse ${warehouseId}`);
     } catch (error) {
       console.error('Error initializing default escalation rules:', error);
     }
   }
 
+  /**
+   * The ordered levels of a rule; rules saved before chains existed become a one-level chain
+   */
+  resolveLevels(rule: EscalationRule): EscalationLevel[] {
+    if (rule.levels && rule.levels.length > 0) {
+      return [...rule.levels].sort((a, b) => a.delayHours - b.delayHours).map((level, index) => ({ ...level, level: index + 1 }));
+    }
+    return [{
+      level: 1,
+      delayHours: rule.timeoutHours,
+      target: rule.escalateTo ? 'user' : rule.escalationAction === 'notify_manager' ? 'manager' : 'supervisor',
+      userId: rule.escalateTo ?? null,
+      action: rule.escalationAction === 'auto_reassign' ? 'reassign' : 'notify',
+      repeatMinutes: 0,
+    }];
+  }
+
   /**
    * Check all work orders for escalation conditions
    */
-  async checkForEscalations(): Promise<EscalationAction[]> {
+  async checkForEscalations(now: Date = new Date()): Promise<EscalationAction[]> {
     const actions: EscalationAction[] = [];
-    
+
     try {
       // Get all warehouses to process each one
       const warehouses = await storage.getWarehouses();
-      
+
       for (const warehouse of warehouses) {
         // Initialize default rules if needed
         await this.initializeDefaultRules(warehouse.id);
-        
+        const rules = (await storage.getEscalationRules(warehouse.id)).filter(rule => rule.active);
+
         const workOrders = await storage.getWorkOrders(warehouse.id);
-        const overdueWorkOrders = await this.findOverdueWorkOrders(workOrders, warehouse.id);
-        
-        for (const workOrder of overdueWorkOrders) {
-          const rule = await this.getEscalationRule(workOrder.type, workOrder.priority, warehouse.id);
+        for (const workOrder of workOrders) {
+          const rule = rules.find(r => r.workOrderType === workOrder.type && r.priority === workOrder.priority);
           if (!rule) continue;
-          
-          const action = await this.escalateWorkOrder(workOrder, rule);
+
+          const action = await this.advanceChain(workOrder, rule, now);
           if (action) {
             actions.push(action);
           }
         }
       }
-      
+
       return actions;
     } catch (error) {
       console.error('Error checking for escalations:', error);
@@ -125,177 +172,238 @@ export class EscalationEngine {
   }
 
   /**
-   * Find work orders that are overdue for escalation
+   * Which chain a work order is on: not started in time, or started but still open past its due date
    */
-  private async findOverdueWorkOrders(workOrders: WorkOrder[], warehouseId: string): Promise<WorkOrder[]> {
-    const now = new Date();
-    const overdueWorkOrders: WorkOrder[] = [];
-    
-    for (const wo of workOrders) {
-      // Only escalate work orders that are new or assigned
-      if (!['new', 'assigned'].includes(wo.status)) {
-        continue;
-      }
-      
-      // Skip already escalated work orders at max level
-      if (wo.escalationLevel >= 3) {
-        continue;
+  private chainTrigger(workOrder: WorkOrder, now: Date): EscalationTrigger | null {
+    if (['new', 'assigned'].includes(workOrder.status)) {
+      return 'unstarted';
+    }
+    if (workOrder.status === 'in_progress' && workOrder.dueDate && new Date(workOrder.dueDate) < now) {
+      return 'past_due';
+    }
+    return null;
+  }
+
+  /**
+   * Fire the next level the work order has reached, or remind the current level until someone acknowledges
+   */
+  private async advanceChain(workOrder: WorkOrder, rule: EscalationRule, now: Date): Promise<EscalationAction | null> {
+    const trigger = this.chainTrigger(workOrder, now);
+    if (!trigger) {
+      return null;
+    }
+
+    const history = (await storage.getEscalationHistory(workOrder.id)).filter(h => (h.trigger ?? 'unstarted') === trigger);
+    if (history.some(h => h.acknowledgedAt)) {
+      return null; // Someone owns it; the chain stops here
+    }
+
+    // Hours on the SLA clock: the warehouse's business hours (unless the SLA runs around
+    // the clock), leaving out holidays and time on hold
+    let minutesOnClock: number;
+    if (trigger === 'unstarted') {
+      const sla = await slaService.evaluate(workOrder, now);
+      if (sla.resolution.state === 'paused') {
+        return null;
       }
-      
-      // Get escalation rule for this work order
-      const rule = await this.getEscalationRule(wo.type, wo.priority, warehouseId);
-      if (!rule) continue;
-      
-      // Calculate hours since creation or last escalation
-      const createdAt = new Date(wo.createdAt);
-      const hoursSinceCreated = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
-      
-      // Check if threshold has been exceeded
-      if (hoursSinceCreated >= rule.timeoutHours) {
-        overdueWorkOrders.push(wo);
+      minutesOnClock = sla.resolution.elapsedMinutes;
+    } else {
+      const sinceDue = await slaService.clockMinutesSince(workOrder, new Date(workOrder.dueDate!), now);
+      if (sinceDue.paused) {
+        return null;
       }
+      minutesOnClock = sinceDue.minutes;
     }
-    
-    return overdueWorkOrders;
+
+    const levels = this.resolveLevels(rule);
+    const reached = levels.filter(level => minutesOnClock >= level.delayHours * 60);
+    if (reached.length === 0) {
+      return null;
+    }
+
+    const top = reached[reached.length - 1];
+    const latest = history[history.length - 1];
+    const currentLevel = latest?.escalationLevel ?? 0;
+    if (top.level > currentLevel) {
+      return this.escalateWorkOrder(workOrder, rule, top, trigger, now);
+    }
+
+    const current = levels.find(level => level.level === currentLevel);
+    const lastNotifiedAt = new Date(latest.lastNotifiedAt ?? latest.escalatedAt ?? now);
+    if (!current || current.repeatMinutes <= 0 || !latest.escalatedTo
+      || now.getTime() - lastNotifiedAt.getTime() < current.repeatMinutes * 60 * 1000) {
+      return null;
+    }
+    return this.remind(workOrder, latest, now);
   }
 
   /**
-   * Get the appropriate escalation rule for work order type, priority and warehouse
+   * Who a level goes to: a named user, whoever is on call for the role, or else the first active
+   * profile with the role in the warehouse
    */
-  private async getEscalationRule(
-    workOrderType: 'corrective' | 'preventive' | 'emergency',
-    priority: 'low' | 'medium' | 'high' | 'critical',
-    warehouseId: string
-  ): Promise<EscalationRule | null> {
-    try {
-      const rules = await db.select().from(escalationRules)
-        .where(and(
-          eq(escalationRules.workOrderType, workOrderType),
-          eq(escalationRules.priority, priority),
-          eq(escalationRules.warehouseId, warehouseId),
-          eq(escalationRules.active, true)
-        ));
-      
-      return rules[0] || null;
-    } catch (error) {
-      console.error('Error getting escalation rule:', error);
-      return null;
+  private async resolveTarget(level: EscalationLevel, workOrder: WorkOrder, now: Date): Promise<Profile | null> {
+    if (level.target === 'user') {
+      const profile = level.userId ? await storage.getProfile(level.userId) : undefined;
+      return profile && profile.active ? profile : null;
     }
+    const onCall = await onCallService.findOnCallProfile(workOrder.warehouseId, level.target, now);
+    if (onCall) {
+      return onCall;
+    }
+    const profiles = await storage.getProfiles();
+    return profiles.find(profile =>
+      profile.role === level.target &&
+      profile.warehouseId === workOrder.warehouseId &&
+      profile.active
+    ) ?? null;
   }
 
   /**
-   * Escalate a specific work order
+   * Escalate a work order to one level of its chain
    */
-  private async escalateWorkOrder(workOrder: WorkOrder, rule: EscalationRule): Promise<EscalationAction | null> {
+  private async escalateWorkOrder(
+    workOrder: WorkOrder,
+    rule: EscalationRule,
+    level: EscalationLevel,
+    trigger: EscalationTrigger,
+    now: Date
+  ): Promise<EscalationAction | null> {
     try {
-      let escalationTarget: Profile | null = null;
-      
-      // Find escalation target based on rule configuration
-      if (rule.escalateTo) {
-        // Direct assignment to specific user
-        escalationTarget = await storage.getProfile(rule.escalateTo);
-        if (!escalationTarget || !escalationTarget.active) {
-          console.warn(`Escalation target user ${rule.escalateTo} not found or inactive`);
-          return null;
-        }
-      } else {
-        // Find users based on escalation action
-        const profiles = await storage.getProfiles();
-        let targetRole: string | null = null;
-        
-        switch (rule.escalationAction) {
-          case 'notify_supervisor':
-            targetRole = 'supervisor';
-            break;
-          case 'notify_manager':
-            targetRole = 'manager';
-            break;
-          default:
-            console.warn(`Unsupported escalation action: ${rule.escalationAction}`);
-            return null;
-        }
-        
-        const escalationTargets = profiles.filter(profile => 
-          profile.role === targetRole && 
-          profile.warehouseId === workOrder.warehouseId &&
-          profile.active
-        );
-        
-        if (escalationTargets.length === 0) {
-          console.warn(`No ${targetRole} found for escalation in warehouse ${workOrder.warehouseId}`);
-          return null;
-        }
-        
-        // Select the first available target (could be improved with load balancing)
-        escalationTarget = escalationTargets[0];
+      const escalationTarget = await this.resolveTarget(level, workOrder, now);
+      if (!escalationTarget) {
+        console.warn(`No ${level.target} found for level ${level.level} escalation in warehouse ${workOrder.warehouseId}`);
+        return null;
       }
-      
-      // Update work order
-      const newEscalationLevel = (workOrder.escalationLevel || 0) + 1;
+
       await storage.updateWorkOrder(workOrder.id, {
         escalated: true,
-        escalationLevel: newEscalationLevel,
-        assignedTo: escalationTarget.id,
-        updatedAt: new Date(),
+        escalationLevel: Math.max(workOrder.escalationLevel || 0, level.level),
+        ...(level.action === 'reassign' ? { assignedTo: escalationTarget.id } : {}),
+        updatedAt: now,
       });
-      
-      // Create notification
-      await this.createEscalationNotification(workOrder, escalationTarget, rule, newEscalationLevel);
-      
-      // Save escalation history
-      const historyRecord = {
-        id: crypto.randomUUID(),
+
+      const reason = trigger === 'past_due'
+        ? `Still open ${level.delayHours} SLA hours past its due date`
+        : `Not started after ${level.delayHours} SLA hours`;
+      await this.createEscalationNotification(workOrder, escalationTarget, level, reason);
+
+      await storage.createEscalationHistory({
         workOrderId: workOrder.id,
         ruleId: rule.id,
-        escalationLevel: newEscalationLevel,
+        escalationLevel: level.level,
         escalatedFrom: workOrder.assignedTo || null,
         escalatedTo: escalationTarget.id,
-        action: rule.escalationAction,
-        reason: `Auto-escalated after ${rule.timeoutHours} hours`,
-        escalatedAt: new Date(),
-      };
-      
-      await db.insert(escalationHistory).values(historyRecord);
-      
-      // Create escalation action record
-      const action: EscalationAction = {
+        action: level.action === 'reassign' ? 'reassign' : `notify_${level.target}`,
+        reason,
+        trigger,
+        notificationCount: 1,
+        lastNotifiedAt: now,
+        acknowledgedBy: null,
+        acknowledgedAt: null,
+        acknowledgementNote: null,
+        escalatedAt: now,
+      });
+
+      console.log(`Escalated work order ${workOrder.foNumber} to ${escalationTarget.firstName} ${escalationTarget.lastName} (Level ${level.level})`);
+
+      return {
         workOrderId: workOrder.id,
-        escalationLevel: newEscalationLevel,
+        escalationLevel: level.level,
         escalatedToUserId: escalationTarget.id,
-        escalatedAt: new Date(),
-        reason: `Auto-escalated after ${rule.timeoutHours} hours`,
+        escalatedAt: now,
+        reason,
         previousAssignee: workOrder.assignedTo || undefined,
+        trigger,
       };
-      
-      console.log(`Escalated work order ${workOrder.foNumber} to ${escalationTarget.firstName} ${escalationTarget.lastName} (Level ${newEscalationLevel})`);
-      
-      return action;
     } catch (error) {
       console.error(`Error escalating work order ${workOrder.id}:`, error);
       return null;
     }
   }
 
+  /**
+   * Notify the current level again because nobody has acknowledged it
+   */
+  private async remind(workOrder: WorkOrder, entry: EscalationHistory, now: Date): Promise<EscalationAction | null> {
+    try {
+      const count = (entry.notificationCount ?? 1) + 1;
+      const notification: InsertNotification = {
+        userId: entry.escalatedTo!,
+        type: 'wo_overdue',
+        title: `Escalation Reminder - Level ${entry.escalationLevel}`,
+        message: `Work Order ${workOrder.foNumber} is still waiting for acknowledgement (reminder ${count - 1}). ${entry.reason || ''}`.trim(),
+        read: false,
+        workOrderId: workOrder.id,
+        createdAt: now,
+      };
+      await notificationService.sendNotification(notification, { urgent: workOrder.priority === 'critical' });
+      await storage.updateEscalationHistory(entry.id, { notificationCount: count, lastNotifiedAt: now });
+
+      return {
+        workOrderId: workOrder.id,
+        escalationLevel: entry.escalationLevel,
+        escalatedToUserId: entry.escalatedTo!,
+        escalatedAt: now,
+        reason: entry.reason || 'Escalation not acknowledged',
+        trigger: entry.trigger ?? 'unstarted',
+        repeat: true,
+      };
+    } catch (error) {
+      console.error(`Error sending escalation reminder for work order ${workOrder.id}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Create notification for escalation
    */
   private async createEscalationNotification(
-    workOrder: WorkOrder, 
-    escalationTarget: Profile, 
-    rule: EscalationRule, 
-    escalationLevel: number
+    workOrder: WorkOrder,
+    escalationTarget: Profile,
+    level: EscalationLevel,
+    reason: string
   ): Promise<void> {
     const notification: InsertNotification = {
       userId: escalationTarget.id,
-      type: 'wo_assigned',
-      title: `Work Order Escalated - Level ${escalationLevel}`,
-      message: `Work Order ${workOrder.foNumber} has been escalated to you. Priority: ${workOrder.priority.toUpperCase()}. Description: ${workOrder.description}`,
+      type: level.action === 'reassign' ? 'wo_assigned' : 'wo_overdue',
+      title: `Work Order Escalated - Level ${level.level}`,
+      message: `Work Order ${workOrder.foNumber} has been escalated to you: ${reason}. Priority: ${workOrder.priority.toUpperCase()}. Description: ${workOrder.description}. Acknowledge it to stop further escalation.`,
       read: false,
       workOrderId: workOrder.id,
       createdAt: new Date(),
     };
-    
-    await storage.createNotification(notification);
+
+    // Goes through the recipient's notification preferences; critical work may break through quiet hours
+    await notificationService.sendNotification(notification, { urgent: workOrder.priority === 'critical' });
+  }
+
+  /**
+   * Acknowledge the open escalation on a work order, stopping its chain and reminders
+   */
+  async acknowledge(workOrderId: string, userId: string, note?: string, now: Date = new Date()): Promise<EscalationHistory[]> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new EscalationError('Work order not found', 404);
+    }
+
+    const open = (await storage.getEscalationHistory(workOrderId)).filter(h => !h.acknowledgedAt);
+    if (open.length === 0) {
+      throw new EscalationError('Work order has no open escalation', 409);
+    }
+
+    // The assignee is who the work order was escalated over, so they cannot silence it themselves
+    const profile = await storage.getProfile(userId);
+    const allowed = open.some(h => h.escalatedTo === userId)
+      || (profile && ACKNOWLEDGING_ROLES.includes(profile.role));
+    if (!allowed) {
+      throw new EscalationError('Only the escalation recipient or a supervisor can acknowledge', 403);
+    }
+
+    return Promise.all(open.map(entry => storage.updateEscalationHistory(entry.id, {
+      acknowledgedBy: userId,
+      acknowledgedAt: now,
+      acknowledgementNote: note || null,
+    })));
   }
 
   /**
@@ -310,24 +418,24 @@ export class EscalationEngine {
     try {
       const workOrders = await storage.getWorkOrders(warehouseId);
       const escalated = workOrders.filter(wo => wo.escalated);
-      
+
       const today = new Date();
       today.setHours(0, 0, 0, 0);
-      
+
       const escalatedToday = escalated.filter(wo => {
         const updatedAt = new Date(wo.updatedAt);
         return updatedAt >= today;
       });
-      
+
       const byLevel: Record<number, number> = {};
       const byPriority: Record<string, number> = {};
-      
+
       escalated.forEach(wo => {
         const level = wo.escalationLevel || 1;
         byLevel[level] = (byLevel[level] || 0) + 1;
         byPriority[wo.priority] = (byPriority[wo.priority] || 0) + 1;
       });
-      
+
       return {
         totalEscalated: escalated.length,
         escalatedToday: escalatedToday.length,
@@ -349,8 +457,8 @@ export class EscalationEngine {
    * Manual escalation (for supervisors/managers)
    */
   async manuallyEscalateWorkOrder(
-    workOrderId: string, 
-    escalateToUserId: string, 
+    workOrderId: string,
+    escalateToUserId: string,
     reason: string,
     escalatedByUserId: string
   ): Promise<EscalationAction | null> {
@@ -359,22 +467,23 @@ export class EscalationEngine {
       if (!workOrder) {
         throw new Error('Work order not found');
       }
-      
+
       const escalationTarget = await storage.getProfile(escalateToUserId);
       if (!escalationTarget) {
         throw new Error('Escalation target user not found');
       }
-      
+
       const newEscalationLevel = (workOrder.escalationLevel || 0) + 1;
-      
+      const now = new Date();
+
       // Update work order
       await storage.updateWorkOrder(workOrderId, {
         escalated: true,
         escalationLevel: newEscalationLevel,
         assignedTo: escalateToUserId,
-        updatedAt: new Date(),
+        updatedAt: now,
       });
-      
+
       // Create notification
       const notification: InsertNotification = {
         userId: escalateToUserId,
@@ -383,14 +492,13 @@ export class EscalationEngine {
         message: `Work Order ${workOrder.foNumber} has been manually escalated to you. Reason: ${reason}`,
         read: false,
         workOrderId: workOrderId,
-        createdAt: new Date(),
+        createdAt: now,
       };
-      
-      await storage.createNotification(notification);
-      
+
+      await notificationService.sendNotification(notification, { urgent: workOrder.priority === 'critical' });
+
       // Save escalation history
-      const historyRecord = {
-        id: crypto.randomUUID(),
+      await storage.createEscalationHistory({
         workOrderId: workOrderId,
         ruleId: null, // Manual escalation, no rule
         escalationLevel: newEscalationLevel,
@@ -398,18 +506,23 @@ export class EscalationEngine {
         escalatedTo: escalateToUserId,
         action: 'manual_escalation',
         reason: `Manual escalation by user: ${reason}`,
-        escalatedAt: new Date(),
-      };
-      
-      await db.insert(escalationHistory).values(historyRecord);
-      
+        trigger: 'manual',
+        notificationCount: 1,
+        lastNotifiedAt: now,
+        acknowledgedBy: null,
+        acknowledgedAt: null,
+        acknowledgementNote: null,
+        escalatedAt: now,
+      });
+
       return {
         workOrderId,
         escalationLevel: newEscalationLevel,
         escalatedToUserId: escalateToUserId,
-        escalatedAt: new Date(),
+        escalatedAt: now,
         reason: `Manual escalation: ${reason}`,
         previousAssignee: workOrder.assignedTo || undefined,
+        trigger: 'manual',
       };
     } catch (error) {
       console.error('Error manually escalating work order:', error);
@@ -418,71 +531,46 @@ export class EscalationEngine {
   }
 
   /**
-   * Get escalation rules for a warehouse (for configuration UI)
+   * Get escalation rules for a warehouse with their levels resolved (for configuration UI)
    */
-  async getEscalationRules(warehouseId: string): Promise<EscalationRule[]> {
-    try {
-      await this.initializeDefaultRules(warehouseId);
-      return await db.select().from(escalationRules)
-        .where(eq(escalationRules.warehouseId, warehouseId));
-    } catch (error) {
-      console.error('Error getting escalation rules:', error);
-      return [];
-    }
+  async getEscalationRules(warehouseId: string): Promise<ResolvedEscalationRule[]> {
+    await this.initializeDefaultRules(warehouseId);
+    const rules = await storage.getEscalationRules(warehouseId);
+    return rules.map(rule => ({ ...rule, levels: this.resolveLevels(rule) }));
   }
 
   /**
-   * Update escalation rules (for configuration)
+   * Save the chain for one work order type and priority, matched by ruleId or by type and priority
    */
-  async updateEscalationRule(ruleId: string, updates: Partial<InsertEscalationRule>): Promise<void> {
-    try {
-      await db.update(escalationRules)
-        .set(updates)
-        .where(eq(escalationRules.id, ruleId));
-      console.log(`Updated escalation rule ${ruleId}`);
-    } catch (error) {
-      console.error('Error updating escalation rule:', error);
-      throw error;
-    }
-  }
+  async saveEscalationPolicy(warehouseId: string, policy: EscalationPolicy): Promise<ResolvedEscalationRule> {
+    const levels = numberLevels(policy.levels as Omit<EscalationLevel, 'level'>[]);
+    const values = {
+      workOrderType: policy.workOrderType,
+      priority: policy.priority,
+      ...legacyColumns(levels[0]),
+      levels,
+      active: policy.active,
+    };
 
-  /**
-   * Create new escalation rule
-   */
-  async createEscalationRule(rule: any): Promise<string> {
-    try {
-      const ruleId = crypto.randomUUID();
-      const newRule = {
-        id: ruleId,
-        workOrderType: rule.workOrderType,
-        priority: rule.priority,
-        timeoutHours: rule.timeoutHours,
-        escalationAction: rule.escalationAction,
-        escalateTo: rule.escalateTo || null,
-        warehouseId: rule.warehouseId || null,
-        active: rule.active ?? true,
-        createdAt: new Date(),
-      };
-      await db.insert(escalationRules).values(newRule);
-      console.log(`Created new escalation rule ${ruleId}`);
-      return ruleId;
-    } catch (error) {
-      console.error('Error creating escalation rule:', error);
-      throw error;
+    const existingRules = await storage.getEscalationRules(warehouseId);
+    const existing = policy.ruleId
+      ? existingRules.find(rule => rule.id === policy.ruleId)
+      : existingRules.find(rule => rule.workOrderType === policy.workOrderType && rule.priority === policy.priority);
+    if (policy.ruleId && !existing) {
+      throw new EscalationError('Escalation rule not found', 404);
     }
+
+    const saved = existing
+      ? await storage.updateEscalationRule(existing.id, values)
+      : await storage.createEscalationRule({ ...values, warehouseId });
+    return { ...saved, levels: this.resolveLevels(saved) };
   }
 
   /**
    * Get escalation history for a work order
    */
   async getEscalationHistory(workOrderId: string): Promise<EscalationHistory[]> {
-    try {
-      return await db.select().from(escalationHistory)
-        .where(eq(escalationHistory.workOrderId, workOrderId));
-    } catch (error) {
-      console.error('Error getting escalation history:', error);
-      return [];
-    }
+    return storage.getEscalationHistory(workOrderId);
   }
 }
 
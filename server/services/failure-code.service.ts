@@ -0,0 +1,268 @@
+import {
+  FAILURE_CODE_KINDS,
+  failureCodeSchema,
+  failureCodeUpdateSchema,
+  type Equipment,
+  type FailureCode,
+  type FailureCodeKind,
+  type FailureCodeUpdate,
+  type InsertFailureCode,
+  type WorkOrder,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export class FailureCodeError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'FailureCodeError';
+  }
+}
+
+export interface FailureCodeSelection {
+  problemCodeId?: string | null;
+  causeCodeId?: string | null;
+  remedyCodeId?: string | null;
+}
+
+// What a code list is narrowed to: the equipment's model and class
+export interface FailureCodeScope {
+  model?: string | null;
+  equipmentClass?: string | null;
+}
+
+export interface CompletionViolation {
+  code: 'FAILURE_CODES_REQUIRED' | 'FAILURE_CODE_INVALID';
+  message: string;
+}
+
+export interface ParetoEntry {
+  codeId: string;
+  code: string;
+  name: string;
+  count: number;
+  percentage: number;
+  cumulativePercentage: number;
+}
+
+export interface ParetoGroup {
+  key: string; // the model or area
+  total: number;
+  entries: ParetoEntry[];
+}
+
+export interface ParetoReport {
+  kind: FailureCodeKind;
+  groupBy: 'model' | 'area';
+  total: number;
+  overall: ParetoEntry[];
+  groups: ParetoGroup[];
+}
+
+export interface ParetoOptions {
+  kind?: FailureCodeKind;
+  groupBy?: 'model' | 'area';
+  from?: Date;
+  to?: Date;
+}
+
+const CODE_FIELDS: Record<FailureCodeKind, keyof FailureCodeSelection> = {
+  problem: 'problemCodeId',
+  cause: 'causeCodeId',
+  remedy: 'remedyCodeId',
+};
+
+// Work order types that must say what failed, why, and what was done before they can be completed
+const CODED_TYPES: WorkOrder['type'][] = ['corrective', 'emergency'];
+
+const DONE_STATUSES: WorkOrder['status'][] = ['completed', 'verified', 'closed'];
+
+const same = (a?: string | null, b?: string | null) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export class FailureCodeService {
+  private static instance: FailureCodeService;
+
+  private constructor() {}
+
+  public static getInstance(): FailureCodeService {
+    if (!FailureCodeService.instance) {
+      FailureCodeService.instance = new FailureCodeService();
+    }
+    return FailureCodeService.instance;
+  }
+
+  // Library
+
+  /**
+   * A code with no model or class applies everywhere; otherwise the equipment must match its model or its class
+   */
+  public appliesTo(code: FailureCode, scope: FailureCodeScope): boolean {
+    if (!code.equipmentModel && !code.equipmentClass) return true;
+    return same(code.equipmentModel, scope.model) || same(code.equipmentClass, scope.equipmentClass);
+  }
+
+  public async scopeFor(equipmentId?: string | null, assetModel?: string | null): Promise<FailureCodeScope> {
+    const asset = equipmentId ? await storage.getEquipmentById(equipmentId) : undefined;
+    return { model: asset?.model ?? assetModel ?? null, equipmentClass: asset?.equipmentClass ?? null };
+  }
+
+  /**
+   * Codes for a warehouse, optionally of one kind and narrowed to those that apply to an asset
+   */
+  public async listCodes(
+    warehouseId: string,
+    options: { kind?: FailureCodeKind; equipmentId?: string; includeInactive?: boolean } = {},
+  ): Promise<FailureCode[]> {
+    const scope = options.equipmentId ? await this.scopeFor(options.equipmentId) : undefined;
+    return (await storage.getFailureCodes(warehouseId))
+      .filter(code => options.includeInactive || code.active !== false)
+      .filter(code => !options.kind || code.kind === options.kind)
+      .filter(code => !scope || this.appliesTo(code, scope));
+  }
+
+  private async assertUnique(warehouseId: string, code: Partial<Pick<FailureCode, 'kind' | 'code' | 'equipmentModel' | 'equipmentClass'>>, selfId?: string) {
+    const clash = (await storage.getFailureCodes(warehouseId)).find(existing =>
+      existing.id !== selfId &&
+      existing.kind === code.kind &&
+      existing.code === code.code &&
+      (existing.equipmentModel ?? null) === (code.equipmentModel ?? null) &&
+      (existing.equipmentClass ?? null) === (code.equipmentClass ?? null));
+    if (clash) {
+      throw new FailureCodeError(`${code.kind} code ${code.code} already exists for this scope`, 409);
+    }
+  }
+
+  public async createCode(input: InsertFailureCode, warehouseId: string): Promise<FailureCode> {
+    const data = failureCodeSchema.parse(input);
+    await this.assertUnique(warehouseId, data);
+    return storage.createFailureCode({
+      kind: data.kind,
+      code: data.code,
+      name: data.name,
+      description: data.description ?? null,
+      equipmentModel: data.equipmentModel ?? null,
+      equipmentClass: data.equipmentClass ?? null,
+      active: data.active,
+      warehouseId,
+    });
+  }
+
+  public async updateCode(id: string, changes: FailureCodeUpdate, warehouseId: string): Promise<FailureCode> {
+    const existing = await storage.getFailureCode(id);
+    if (!existing || existing.warehouseId !== warehouseId) {
+      throw new FailureCodeError('Failure code not found', 404);
+    }
+    const data = failureCodeUpdateSchema.parse(changes);
+    await this.assertUnique(warehouseId, { ...existing, ...data }, id);
+    return storage.updateFailureCode(id, data);
+  }
+
+  // Completion
+
+  public requiresCodes(workOrder: Pick<WorkOrder, 'type'>): boolean {
+    return CODED_TYPES.includes(workOrder.type);
+  }
+
+  /**
+   * Corrective and emergency work needs a problem, cause and remedy that belong to the equipment
+   * being worked on. Returns what is wrong, or null when the work order can be completed.
+   */
+  public async checkCompletion(workOrder: WorkOrder, changes: FailureCodeSelection = {}): Promise<CompletionViolation | null> {
+    if (!this.requiresCodes(workOrder)) return null;
+
+    const missing = FAILURE_CODE_KINDS.filter(kind => !(changes[CODE_FIELDS[kind]] ?? workOrder[CODE_FIELDS[kind]]));
+    if (missing.length > 0) {
+      return {
+        code: 'FAILURE_CODES_REQUIRED',
+        message: `Select a ${missing.join(', ')} code before completing ${workOrder.type} work`,
+      };
+    }
+
+    const scope = await this.scopeFor(workOrder.equipmentId, workOrder.assetModel);
+    for (const kind of FAILURE_CODE_KINDS) {
+      const id = (changes[CODE_FIELDS[kind]] ?? workOrder[CODE_FIELDS[kind]])!;
+      const code = await storage.getFailureCode(id);
+      if (!code || code.warehouseId !== workOrder.warehouseId || code.kind !== kind || code.active === false) {
+        return { code: 'FAILURE_CODE_INVALID', message: `The selected ${kind} code is not a valid ${kind} code` };
+      }
+      if (!this.appliesTo(code, scope)) {
+        return { code: 'FAILURE_CODE_INVALID', message: `${kind} code ${code.code} does not apply to this equipment` };
+      }
+    }
+    return null;
+  }
+
+  // Reporting
+
+  private rank(counts: Map<string, number>, codes: Map<string, FailureCode>): ParetoEntry[] {
+    const total = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+    let running = 0;
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([codeId, count]) => {
+        running += count;
+        const code = codes.get(codeId);
+        return {
+          codeId,
+          code: code?.code ?? 'UNKNOWN',
+          name: code?.name ?? 'Unknown code',
+          count,
+          percentage: Math.round((count / total) * 1000) / 10,
+          cumulativePercentage: Math.round((running / total) * 1000) / 10,
+        };
+      });
+  }
+
+  /**
+   * Most frequent problem, cause or remedy codes on finished corrective and emergency work,
+   * overall and for each equipment model or area
+   */
+  public async getPareto(warehouseId: string, options: ParetoOptions = {}): Promise<ParetoReport> {
+    const kind = options.kind ?? 'cause';
+    const groupBy = options.groupBy ?? 'model';
+    const field = CODE_FIELDS[kind];
+
+    const [workOrders, equipment, codes] = await Promise.all([
+      storage.getWorkOrders(warehouseId),
+      storage.getEquipment(warehouseId),
+      storage.getFailureCodes(warehouseId),
+    ]);
+    const assets = new Map<string, Equipment>(equipment.map(e => [e.id, e]));
+    const codeById = new Map(codes.map(c => [c.id, c]));
+
+    const coded = workOrders.filter(wo => {
+      if (!CODED_TYPES.includes(wo.type) || !DONE_STATUSES.includes(wo.status) || !wo[field]) return false;
+      const when = new Date(wo.completedAt ?? wo.createdAt ?? 0);
+      return (!options.from || when >= options.from) && (!options.to || when <= options.to);
+    });
+
+    const overall = new Map<string, number>();
+    const grouped = new Map<string, Map<string, number>>();
+    for (const wo of coded) {
+      const codeId = wo[field]!;
+      const asset = wo.equipmentId ? assets.get(wo.equipmentId) : undefined;
+      const key = groupBy === 'model'
+        ? asset?.model ?? wo.assetModel ?? 'Unknown model'
+        : asset?.area ?? wo.area ?? 'Unassigned';
+      overall.set(codeId, (overall.get(codeId) ?? 0) + 1);
+      const counts = grouped.get(key) ?? new Map<string, number>();
+      counts.set(codeId, (counts.get(codeId) ?? 0) + 1);
+      grouped.set(key, counts);
+    }
+
+    return {
+      kind,
+      groupBy,
+      total: coded.length,
+      overall: this.rank(overall, codeById),
+      groups: Array.from(grouped.entries())
+        .map(([key, counts]) => ({
+          key,
+          total: Array.from(counts.values()).reduce((sum, n) => sum + n, 0),
+          entries: this.rank(counts, codeById),
+        }))
+        .sort((a, b) => b.total - a.total),
+    };
+  }
+}
+
+export const failureCodeService = FailureCodeService.getInstance();
@@ -18,6 +18,7 @@ interface MulterFile {
   buffer: Buffer;
 }
 import { storage } from '../storage';
+import { vendorComplianceService } from './vendor-compliance.service';
 import { notificationService } from './notification.service';
 
 export interface FileUploadResult {
@@ -36,6 +37,8 @@ export interface FileContext {
   equipmentId?: string;
   pmTemplateId?: string;
   vendorId?: string;
+  documentType?: 'insurance' | 'w9' | 'contract' | 'certification' | 'sds' | 'other';
+  expiryDate?: string;
   type: 'work_order' | 'equipment' | 'pm_template' | 'vendor_document';
   userId: string;
   warehouseId: string;
@@ -313,12 +316,17 @@ export class FileManagementService {
         equipmentId: context.equipmentId || null,
         pmTemplateId: context.pmTemplateId || null,
         vendorId: context.vendorId || null,
+        documentType: context.vendorId ? context.documentType || 'other' : null,
+        expiryDate: context.expiryDate ? new Date(context.expiryDate) : null,
         uploadedBy: context.userId,
         warehouseId: context.warehouseId,
         createdAt: new Date()
       };
 
       const attachment = await storage.createAttachment(attachmentData);
+      if (context.vendorId) {
+        await vendorComplianceService.evaluateVendor(context.vendorId);
+      }
 
       return {
         success: true,
@@ -346,6 +354,25 @@ export class FileManagementService {
     }
   }
 
+  /**
+   * Store an image that arrived outside the attachment upload flow (request portal photos) as a JPEG with a thumbnail
+   */
+  async saveImage(buffer: Buffer): Promise<{ fileName: string; filePath: string; thumbnailPath: string; size: number }> {
+    await this.ensureDirectoriesExist();
+    const fileName = `${uuidv4()}.jpg`;
+    const filePath = path.join(this.uploadDir, fileName);
+
+    // Re-encoding also drops EXIF, so a phone photo doesn't publish where it was taken
+    const info = await sharp(buffer)
+      .rotate()
+      .resize(1920, 1080, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toFile(filePath);
+
+    const thumbnailPath = await this.generateThumbnail(filePath, fileName);
+    return { fileName, filePath, thumbnailPath, size: info.size };
+  }
+
   private async compressImage(filePath: string, mimeType: string): Promise<string> {
     try {
       const outputPath = filePath.replace(/(\.[^.]+)$/, '_compressed$1');
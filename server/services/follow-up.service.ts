@@ -0,0 +1,231 @@
+import {
+  followUpRequestSchema,
+  type Equipment,
+  type FollowUpRequest,
+  type InsertWorkOrder,
+  type WorkOrder,
+  type WorkOrderChecklistItem,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { slaService } from "./sla.service";
+import { jobQueueService } from "./job-queue.service";
+
+export class FollowUpError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'FollowUpError';
+  }
+}
+
+export interface FollowUpProposal {
+  checklistItemId: string;
+  parentWorkOrderId: string;
+  type: 'corrective';
+  priority: WorkOrder['priority'];
+  description: string;
+  notes: string;
+  equipmentId: string | null;
+  area: string | null;
+  assetModel: string | null;
+  warehouseId: string;
+}
+
+export type FollowUpOutcome =
+  | { mode: 'auto'; workOrder: WorkOrder }
+  | { mode: 'propose'; proposal: FollowUpProposal };
+
+export interface RelatedWorkOrders {
+  parent: WorkOrder | null;
+  children: WorkOrder[];
+}
+
+// Corrective work inherits the urgency of the asset it is on
+// Long enough to cover creating the work order and copying the photos
+const FOLLOW_UP_LOCK_TTL_MS = 60 * 1000;
+
+const PRIORITY_BY_CRITICALITY: Record<Equipment['criticality'], WorkOrder['priority']> = {
+  low: 'low',
+  medium: 'medium',
+  high: 'high',
+  critical: 'critical',
+};
+
+const describeReading = (item: WorkOrderChecklistItem): string | null => {
+  if (item.value === null || item.value === undefined) return null;
+  const unit = item.unit ? ` ${item.unit}` : '';
+  const value = item.itemType === 'boolean' ? (item.value === 'true' ? 'yes' : 'no') : `${item.value}${unit}`;
+  if (item.itemType === 'numeric' && (item.minValue !== null || item.maxValue !== null)) {
+    return `${value} (limits ${item.minValue !== null ? Number(item.minValue) : '–'} to ${item.maxValue !== null ? Number(item.maxValue) : '–'}${unit})`;
+  }
+  if (item.itemType === 'boolean' && item.expectedBoolean !== null) {
+    return `${value} (expected ${item.expectedBoolean ? 'yes' : 'no'})`;
+  }
+  return value;
+};
+
+export class FollowUpService {
+  private static instance: FollowUpService;
+
+  private constructor() {}
+
+  public static getInstance(): FollowUpService {
+    if (!FollowUpService.instance) {
+      FollowUpService.instance = new FollowUpService();
+    }
+    return FollowUpService.instance;
+  }
+
+  /**
+   * Draft corrective work order for a failed checklist item, carrying over the asset, area and evidence
+   */
+  public async buildProposal(item: WorkOrderChecklistItem): Promise<FollowUpProposal> {
+    const parent = await storage.getWorkOrder(item.workOrderId);
+    if (!parent) {
+      throw new FollowUpError('Work order not found', 404);
+    }
+    const equipment = parent.equipmentId ? await storage.getEquipmentById(parent.equipmentId) : undefined;
+    const reading = describeReading(item);
+
+    const evidence = [
+      `Raised from ${parent.foNumber}: ${item.component} – ${item.action}`,
+      reading ? `Reading: ${reading}` : null,
+      item.notes ? `Technician notes: ${item.notes}` : null,
+    ].filter(Boolean).join('\n');
+
+    return {
+      checklistItemId: item.id,
+      parentWorkOrderId: parent.id,
+      type: 'corrective',
+      priority: equipment ? PRIORITY_BY_CRITICALITY[equipment.criticality] ?? 'medium' : parent.priority,
+      description: `${item.component}: ${reading && item.withinLimits === false ? 'out of limits' : 'defect found'} during ${parent.foNumber}`,
+      notes: evidence,
+      equipmentId: parent.equipmentId ?? null,
+      area: equipment?.area ?? parent.area ?? null,
+      assetModel: equipment?.model ?? parent.assetModel ?? null,
+      warehouseId: parent.warehouseId,
+    };
+  }
+
+  /**
+   * React to an item that has just failed: out-of-limit readings raise a work order straight away,
+   * items flagged by hand get a proposal the technician can accept, unless the template says otherwise
+   */
+  public async handleFailure(
+    item: WorkOrderChecklistItem,
+    trigger: 'reading' | 'status',
+    userId?: string,
+  ): Promise<FollowUpOutcome | null> {
+    const mode = item.followUpMode ?? (trigger === 'reading' ? 'auto' : 'propose');
+    if (mode === 'none' || item.followUpWorkOrderId) {
+      return null;
+    }
+    if (mode === 'propose') {
+      return { mode, proposal: await this.buildProposal(item) };
+    }
+    try {
+      return { mode, workOrder: await this.createFromItem(item.id, {}, userId) };
+    } catch (error) {
+      // A concurrent update of the same item is already raising it
+      if (error instanceof FollowUpError && error.statusCode === 409) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create the follow-up work order for a failed item and link it to the item and the parent work order
+   */
+  public async createFromItem(itemId: string, request: FollowUpRequest = {}, userId?: string): Promise<WorkOrder> {
+    const changes = followUpRequestSchema.parse(request);
+    // Held until the item is linked, so two callers cannot both see it without a follow-up
+    const { acquired, result } = await jobQueueService.withLock(`follow-up:${itemId}`, FOLLOW_UP_LOCK_TTL_MS, () =>
+      this.createLinked(itemId, changes, userId),
+    );
+    if (!acquired) {
+      throw new FollowUpError('A follow-up work order is already being created for this item', 409);
+    }
+    return result!;
+  }
+
+  private async createLinked(itemId: string, changes: FollowUpRequest, userId?: string): Promise<WorkOrder> {
+    const item = await storage.getChecklistItem(itemId);
+    if (!item) {
+      throw new FollowUpError('Checklist item not found', 404);
+    }
+    if (item.followUpWorkOrderId) {
+      throw new FollowUpError('A follow-up work order already exists for this item', 409);
+    }
+    if (item.status !== 'issue') {
+      throw new FollowUpError('Only failed checklist items can raise a follow-up work order');
+    }
+
+    const proposal = await this.buildProposal(item);
+    const parent = (await storage.getWorkOrder(proposal.parentWorkOrderId))!;
+    const equipment = proposal.equipmentId ? await storage.getEquipmentById(proposal.equipmentId) : undefined;
+
+    const data: InsertWorkOrder = {
+      foNumber: `CM-${Date.now()}-${equipment?.assetTag ?? parent.foNumber}`,
+      type: 'corrective',
+      status: changes.assignedTo ? 'assigned' : 'new',
+      priority: changes.priority ?? proposal.priority,
+      description: changes.description ?? proposal.description,
+      notes: proposal.notes,
+      area: proposal.area ?? undefined,
+      assetModel: proposal.assetModel ?? undefined,
+      equipmentId: proposal.equipmentId ?? undefined,
+      assignedTo: changes.assignedTo,
+      dueDate: changes.dueDate,
+      requestedBy: userId || parent.assignedTo || parent.requestedBy,
+      warehouseId: parent.warehouseId,
+      parentWorkOrderId: parent.id,
+    };
+
+    let workOrder = await storage.createWorkOrder(data);
+    try {
+      workOrder = (await slaService.refresh(workOrder)).workOrder;
+    } catch (error) {
+      console.error('Failed to set SLA due times:', error);
+    }
+
+    await storage.updateChecklistItem(item.id, { followUpWorkOrderId: workOrder.id });
+    if (!parent.followUp) {
+      await storage.updateWorkOrder(parent.id, { followUp: true });
+    }
+
+    // Photos taken on the parent job are the evidence for the defect
+    const photos = (await storage.getAttachments(parent.id)).filter(a => a.mimeType?.startsWith('image/'));
+    for (const photo of photos) {
+      await storage.createAttachment({
+        fileName: photo.fileName,
+        fileUrl: photo.fileUrl,
+        fileSize: photo.fileSize,
+        fileType: photo.fileType,
+        mimeType: photo.mimeType,
+        filePath: photo.filePath,
+        thumbnailPath: photo.thumbnailPath,
+        workOrderId: workOrder.id,
+        equipmentId: photo.equipmentId,
+        uploadedBy: photo.uploadedBy,
+      });
+    }
+
+    return workOrder;
+  }
+
+  /**
+   * The work order that raised this one, and the follow-ups it raised
+   */
+  public async getRelated(workOrderId: string): Promise<RelatedWorkOrders> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new FollowUpError('Work order not found', 404);
+    }
+    return {
+      parent: workOrder.parentWorkOrderId ? (await storage.getWorkOrder(workOrder.parentWorkOrderId)) ?? null : null,
+      children: await storage.getChildWorkOrders(workOrderId),
+    };
+  }
+}
+
+export const followUpService = FollowUpService.getInstance();
@@ -0,0 +1,430 @@
+import crypto from 'crypto';
+import { CycleCount, CycleCountLine, InventoryReservation, InventoryTransaction, Part } from "@shared/schema";
+import { storage, InsufficientStockError } from "../storage";
+
+export type InventoryTransactionType = InventoryTransaction['type'];
+
+export class InventoryError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'InventoryError';
+  }
+}
+
+export interface TransactionInput {
+  partId: string;
+  type: InventoryTransactionType;
+  quantity: number; // signed
+  workOrderId?: string | null;
+  purchaseOrderId?: string | null;
+  referenceId?: string | null;
+  reason?: string | null;
+  performedBy?: string | null;
+}
+
+export interface PartAvailability {
+  partId: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+}
+
+export interface LedgerDrift {
+  partId: string;
+  partNumber: string;
+  cachedStockLevel: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+export interface CycleCountDetail extends CycleCount {
+  lines: (CycleCountLine & { part?: Part })[];
+}
+
+export interface LocationVariance {
+  location: string;
+  linesCounted: number;
+  linesWithVariance: number;
+  netVarianceQuantity: number;
+  absoluteVarianceQuantity: number;
+  netVarianceValue: number;
+  absoluteVarianceValue: number;
+  accuracy: number; // % of counted lines with no variance
+}
+
+const UNASSIGNED_LOCATION = 'Unassigned';
+
+class InventoryLedgerService {
+  private static instance: InventoryLedgerService;
+
+  private constructor() {}
+
+  public static getInstance(): InventoryLedgerService {
+    if (!InventoryLedgerService.instance) {
+      InventoryLedgerService.instance = new InventoryLedgerService();
+    }
+    return InventoryLedgerService.instance;
+  }
+
+  /**
+   * Append a ledger entry and refresh the part's cached stock level. Stock may never go negative.
+   */
+  public async recordTransaction(input: TransactionInput): Promise<InventoryTransaction> {
+    if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+      throw new InventoryError('Transaction quantity must be a non-zero whole number');
+    }
+
+    const part = await this.requirePart(input.partId);
+    try {
+      return await storage.postInventoryTransaction({
+        partId: part.id,
+        type: input.type,
+        quantity: input.quantity,
+        workOrderId: input.workOrderId || null,
+        purchaseOrderId: input.purchaseOrderId || null,
+        referenceId: input.referenceId || null,
+        reason: input.reason || null,
+        performedBy: input.performedBy || null,
+      });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        throw new InventoryError(`Insufficient stock for ${part.partNumber}: ${error.onHand} on hand, ${-input.quantity} requested`, 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Issue parts to a work order, drawing down any reservation the work order holds
+   */
+  public async issueToWorkOrder(partId: string, workOrderId: string, quantity: number, performedBy?: string): Promise<InventoryTransaction> {
+    const { available } = await this.getAvailability(partId, workOrderId);
+    if (quantity > available) {
+      throw new InventoryError(`Only ${available} available to issue; the rest is reserved for other work orders`, 409);
+    }
+
+    const transaction = await this.recordTransaction({
+      partId,
+      type: 'issue',
+      quantity: -quantity,
+      workOrderId,
+      performedBy,
+    });
+
+    let remaining = quantity;
+    const reservations = await storage.getInventoryReservations({ partId, workOrderId, status: 'active' });
+    for (const reservation of reservations) {
+      if (remaining <= 0) break;
+      const drawn = Math.min(remaining, reservation.quantity);
+      remaining -= drawn;
+      await storage.updateInventoryReservation(reservation.id, {
+        quantity: reservation.quantity - drawn,
+        status: reservation.quantity - drawn > 0 ? 'active' : 'fulfilled',
+      });
+    }
+    return transaction;
+  }
+
+  /**
+   * Move stock between two part records; both legs share a reference id
+   */
+  public async transfer(fromPartId: string, toPartId: string, quantity: number, performedBy?: string, reason?: string): Promise<InventoryTransaction[]> {
+    if (fromPartId === toPartId) {
+      throw new InventoryError('Source and destination must be different parts');
+    }
+    const [from, to] = await Promise.all([this.requirePart(fromPartId), this.requirePart(toPartId)]);
+    if (from.unitOfMeasure !== to.unitOfMeasure) {
+      throw new InventoryError(`Cannot transfer ${from.unitOfMeasure} into ${to.unitOfMeasure}`);
+    }
+    const { available } = await this.getAvailability(from.id);
+    if (quantity > available) {
+      throw new InventoryError(`Only ${available} available to transfer`, 409);
+    }
+
+    const referenceId = crypto.randomUUID();
+    const outbound = await this.recordTransaction({ partId: from.id, type: 'transfer', quantity: -quantity, referenceId, performedBy, reason });
+    const inbound = await this.recordTransaction({ partId: to.id, type: 'transfer', quantity, referenceId, performedBy, reason });
+    return [outbound, inbound];
+  }
+
+  /**
+   * Post an adjustment that brings on-hand stock to the given level
+   */
+  public async adjustTo(partId: string, stockLevel: number, performedBy?: string, reason?: string): Promise<InventoryTransaction | null> {
+    const onHand = await this.getOnHand(partId);
+    if (stockLevel === onHand) {
+      return null;
+    }
+    return this.recordTransaction({
+      partId,
+      type: 'adjustment',
+      quantity: stockLevel - onHand,
+      reason: reason || 'Manual stock adjustment',
+      performedBy,
+    });
+  }
+
+  public async getOnHand(partId: string): Promise<number> {
+    const transactions = await storage.getInventoryTransactions({ partId });
+    if (transactions.length === 0) {
+      return (await this.requirePart(partId)).stockLevel ?? 0;
+    }
+    return transactions[transactions.length - 1].balanceAfter;
+  }
+
+  /**
+   * On-hand less active reservations. A work order's own reservation can be excluded so it can draw on it.
+   */
+  public async getAvailability(partId: string, excludeWorkOrderId?: string): Promise<PartAvailability> {
+    const onHand = await this.getOnHand(partId);
+    const reservations = await storage.getInventoryReservations({ partId, status: 'active' });
+    const reserved = reservations
+      .filter(r => r.workOrderId !== excludeWorkOrderId)
+      .reduce((sum, r) => sum + r.quantity, 0);
+    return { partId, onHand, reserved, available: Math.max(0, onHand - reserved) };
+  }
+
+  /**
+   * Hold stock against an open work order
+   */
+  public async reserve(partId: string, workOrderId: string, quantity: number, reservedBy?: string): Promise<InventoryReservation> {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new InventoryError('Reservation quantity must be a positive whole number');
+    }
+    const [part, workOrder] = await Promise.all([this.requirePart(partId), storage.getWorkOrder(workOrderId)]);
+    if (!workOrder) {
+      throw new InventoryError('Work order not found', 404);
+    }
+    if (['completed', 'verified', 'closed'].includes(workOrder.status)) {
+      throw new InventoryError(`Cannot reserve parts for a ${workOrder.status} work order`, 409);
+    }
+
+    const { available } = await this.getAvailability(part.id);
+    if (quantity > available) {
+      throw new InventoryError(`Only ${available} of ${part.partNumber} available to reserve`, 409);
+    }
+
+    return storage.createInventoryReservation({
+      partId: part.id,
+      workOrderId,
+      quantity,
+      status: 'active',
+      reservedBy: reservedBy || null,
+      warehouseId: part.warehouseId,
+    });
+  }
+
+  public async release(reservationId: string): Promise<InventoryReservation> {
+    const reservation = await storage.getInventoryReservation(reservationId);
+    if (!reservation) {
+      throw new InventoryError('Reservation not found', 404);
+    }
+    if (reservation.status !== 'active') {
+      throw new InventoryError(`Reservation is already ${reservation.status}`, 409);
+    }
+    return storage.updateInventoryReservation(reservationId, { status: 'released' });
+  }
+
+  /**
+   * Release whatever a work order still holds, e.g. once it is closed
+   */
+  public async releaseForWorkOrder(workOrderId: string): Promise<number> {
+    const reservations = await storage.getInventoryReservations({ workOrderId, status: 'active' });
+    for (const reservation of reservations) {
+      await storage.updateInventoryReservation(reservation.id, { status: 'released' });
+    }
+    return reservations.length;
+  }
+
+  /**
+   * Compare cached part stock levels with ledger balances; optionally rewrite the cache
+   */
+  public async reconcile(warehouseId: string, apply = false): Promise<LedgerDrift[]> {
+    const parts = await storage.getParts(warehouseId);
+    const drift: LedgerDrift[] = [];
+
+    for (const part of parts) {
+      const transactions = await storage.getInventoryTransactions({ partId: part.id });
+      if (transactions.length === 0) continue;
+
+      const ledgerBalance = transactions.reduce((sum, t) => sum + t.quantity, 0);
+      const cachedStockLevel = part.stockLevel ?? 0;
+      if (ledgerBalance !== cachedStockLevel) {
+        drift.push({ partId: part.id, partNumber: part.partNumber, cachedStockLevel, ledgerBalance, drift: cachedStockLevel - ledgerBalance });
+        if (apply) {
+          await storage.updatePart(part.id, { stockLevel: ledgerBalance });
+        }
+      }
+    }
+    return drift;
+  }
+
+  /**
+   * Open a cycle count with a line for every active part at the location (or all locations)
+   */
+  public async startCycleCount(warehouseId: string, location?: string | null, createdBy?: string): Promise<CycleCountDetail> {
+    const parts = (await storage.getParts(warehouseId))
+      .filter(p => p.active !== false && (!location || p.location === location));
+    if (parts.length === 0) {
+      throw new InventoryError(location ? `No parts stocked at ${location}` : 'No parts to count');
+    }
+
+    const count = await storage.createCycleCount({
+      location: location || null,
+      status: 'open',
+      createdBy: createdBy || null,
+      completedBy: null,
+      completedAt: null,
+      warehouseId,
+    });
+    for (const part of parts) {
+      await storage.createCycleCountLine({
+        cycleCountId: count.id,
+        partId: part.id,
+        location: part.location,
+        expectedQuantity: await this.getOnHand(part.id),
+        countedQuantity: null,
+        variance: null,
+        countedBy: null,
+        countedAt: null,
+      });
+    }
+    return (await this.getCycleCountDetail(count.id))!;
+  }
+
+  public async getCycleCountDetail(id: string): Promise<CycleCountDetail | undefined> {
+    const count = await storage.getCycleCount(id);
+    if (!count) {
+      return undefined;
+    }
+    const lines = await storage.getCycleCountLines(id);
+    const withParts = await Promise.all(lines.map(async line => ({ ...line, part: await storage.getPart(line.partId) })));
+    return { ...count, lines: withParts };
+  }
+
+  /**
+   * Record counted quantities. Expected is re-read from the ledger so stock moved since the count opened is not a variance.
+   */
+  public async recordCounts(id: string, counts: { lineId: string; countedQuantity: number }[], countedBy?: string): Promise<CycleCountDetail> {
+    const count = await this.requireOpenCount(id);
+    const lines = await storage.getCycleCountLines(count.id);
+
+    for (const entry of counts) {
+      const line = lines.find(l => l.id === entry.lineId);
+      if (!line) {
+        throw new InventoryError(`Line ${entry.lineId} is not part of this cycle count`);
+      }
+      if (!Number.isInteger(entry.countedQuantity) || entry.countedQuantity < 0) {
+        throw new InventoryError('Counted quantity must be a non-negative whole number');
+      }
+      const expectedQuantity = await this.getOnHand(line.partId);
+      await storage.updateCycleCountLine(line.id, {
+        expectedQuantity,
+        countedQuantity: entry.countedQuantity,
+        variance: entry.countedQuantity - expectedQuantity,
+        countedBy: countedBy || null,
+        countedAt: new Date(),
+      });
+    }
+    return (await this.getCycleCountDetail(count.id))!;
+  }
+
+  /**
+   * Close the count and post a correction for every line with a variance
+   */
+  public async completeCycleCount(id: string, completedBy?: string): Promise<CycleCountDetail> {
+    const count = await this.requireOpenCount(id);
+    const lines = await storage.getCycleCountLines(count.id);
+    const uncounted = lines.filter(l => l.countedQuantity === null || l.countedQuantity === undefined);
+    if (uncounted.length > 0) {
+      throw new InventoryError(`${uncounted.length} line(s) have not been counted`, 409);
+    }
+
+    for (const line of lines) {
+      const onHand = await this.getOnHand(line.partId);
+      const correction = line.countedQuantity! - onHand;
+      if (correction !== 0) {
+        await this.recordTransaction({
+          partId: line.partId,
+          type: 'cycle_count',
+          quantity: correction,
+          referenceId: line.id,
+          reason: `Cycle count ${count.id}`,
+          performedBy: completedBy,
+        });
+      }
+    }
+
+    await storage.updateCycleCount(count.id, { status: 'completed', completedBy: completedBy || null, completedAt: new Date() });
+    return (await this.getCycleCountDetail(count.id))!;
+  }
+
+  /**
+   * Variance by parts.location across completed cycle counts in the period
+   */
+  public async getVarianceReport(warehouseId: string, from?: Date, to?: Date): Promise<LocationVariance[]> {
+    const counts = (await storage.getCycleCounts(warehouseId, 'completed')).filter(c => {
+      const completedAt = c.completedAt ? new Date(c.completedAt) : null;
+      return completedAt && (!from || completedAt >= from) && (!to || completedAt <= to);
+    });
+
+    const byLocation = new Map<string, LocationVariance>();
+    for (const count of counts) {
+      const lines = await storage.getCycleCountLines(count.id);
+      for (const line of lines) {
+        const location = line.location || UNASSIGNED_LOCATION;
+        const part = await storage.getPart(line.partId);
+        const unitCost = parseFloat(part?.unitCost || '0');
+        const variance = line.variance ?? 0;
+
+        const entry = byLocation.get(location) || {
+          location,
+          linesCounted: 0,
+          linesWithVariance: 0,
+          netVarianceQuantity: 0,
+          absoluteVarianceQuantity: 0,
+          netVarianceValue: 0,
+          absoluteVarianceValue: 0,
+          accuracy: 0,
+        };
+        entry.linesCounted++;
+        if (variance !== 0) entry.linesWithVariance++;
+        entry.netVarianceQuantity += variance;
+        entry.absoluteVarianceQuantity += Math.abs(variance);
+        entry.netVarianceValue += variance * unitCost;
+        entry.absoluteVarianceValue += Math.abs(variance) * unitCost;
+        byLocation.set(location, entry);
+      }
+    }
+
+    return Array.from(byLocation.values())
+      .map(entry => ({
+        ...entry,
+        netVarianceValue: Math.round(entry.netVarianceValue * 100) / 100,
+        absoluteVarianceValue: Math.round(entry.absoluteVarianceValue * 100) / 100,
+        accuracy: Math.round(((entry.linesCounted - entry.linesWithVariance) / entry.linesCounted) * 1000) / 10,
+      }))
+      .sort((a, b) => b.absoluteVarianceValue - a.absoluteVarianceValue);
+  }
+
+  private async requirePart(id: string): Promise<Part> {
+    const part = await storage.getPart(id);
+    if (!part) {
+      throw new InventoryError('Part not found', 404);
+    }
+    return part;
+  }
+
+  private async requireOpenCount(id: string): Promise<CycleCount> {
+    const count = await storage.getCycleCount(id);
+    if (!count) {
+      throw new InventoryError('Cycle count not found', 404);
+    }
+    if (count.status !== 'open') {
+      throw new InventoryError(`Cycle count is already ${count.status}`, 409);
+    }
+    return count;
+  }
+}
+
+export const inventoryLedgerService = InventoryLedgerService.getInstance();
@@ -0,0 +1,397 @@
+import crypto from 'crypto';
+import os from 'os';
+import type { JobQueue, JobSchedule, JobType } from "@shared/schema";
+import { storage } from "../storage";
+
+export class JobQueueError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+export type JobHandler = (payload: any, job: JobQueue) => Promise<void>;
+
+export interface EnqueueOptions {
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string;
+  scheduleName?: string;
+}
+
+export interface ScheduleDefinition {
+  name: string;
+  jobType: JobType;
+  cron: string;
+  payload?: Record<string, unknown>;
+  enabled?: boolean;
+  maxAttempts?: number;
+}
+
+export interface JobQueueStats {
+  depth: { pending: number; processing: number; failed: number; dead: number; completed: number };
+  byType: { jobType: JobType; status: JobQueue['status']; count: number }[];
+  failures: JobQueue[];
+  schedules: JobSchedule[];
+}
+
+export interface WorkerRunResult {
+  claimed: number;
+  completed: number;
+  failed: number;
+  dead: number;
+}
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const LEASE_MS = 15 * 60 * 1000; // a job still "processing" after this is assumed abandoned by a dead worker
+const POLL_INTERVAL_MS = 15 * 1000;
+const CLAIM_BATCH_SIZE = 5;
+
+// Cron: minute hour day-of-month month day-of-week, evaluated in UTC
+const CRON_FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const parseCronField = (field: string, spec: typeof CRON_FIELDS[number]): Set<number> => {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new JobQueueError(`Invalid cron ${spec.name}: ${part}`);
+    }
+    const [, range, stepText] = match;
+    const step = stepText ? parseInt(stepText, 10) : 1;
+    let [start, end] = range === '*'
+      ? [spec.min, spec.max]
+      : range.split('-').map(n => parseInt(n, 10)) as [number, number?];
+    if (end === undefined) {
+      end = stepText ? spec.max : start;
+    }
+    if (step < 1 || start < spec.min || end > spec.max || start > end) {
+      throw new JobQueueError(`Invalid cron ${spec.name}: ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(spec.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+  return values;
+};
+
+export const parseCron = (expression: string): ParsedCron => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new JobQueueError(`Cron expression must have 5 fields: ${expression}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseCronField(field, CRON_FIELDS[i]));
+  return {
+    minutes, hours, daysOfMonth, months, daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+};
+
+/**
+ * First minute strictly after `after` that matches the expression
+ */
+export const nextCronRun = (expression: string, after: Date): Date => {
+  const cron = parseCron(expression);
+  const next = new Date(after.getTime());
+  next.setUTCSeconds(0, 0);
+  next.setUTCMinutes(next.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (next.getTime() <= limit) {
+    if (!cron.months.has(next.getUTCMonth() + 1)) {
+      next.setUTCMonth(next.getUTCMonth() + 1, 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    // Like standard cron, a restricted day-of-month and day-of-week match when either does
+    const domMatch = cron.daysOfMonth.has(next.getUTCDate());
+    const dowMatch = cron.daysOfWeek.has(next.getUTCDay());
+    const dayMatch = cron.dayOfMonthRestricted && cron.dayOfWeekRestricted
+      ? domMatch || dowMatch
+      : domMatch && dowMatch;
+    if (!dayMatch) {
+      next.setUTCDate(next.getUTCDate() + 1);
+      next.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(next.getUTCMinutes())) {
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+  throw new JobQueueError(`Cron expression never fires: ${expression}`);
+};
+
+/** Express a fixed interval as the equivalent cron expression, where one exists */
+export const intervalToCron = (intervalMs: number): string => {
+  const minutes = intervalMs / 60000;
+  if (Number.isInteger(minutes) && minutes >= 1 && minutes < 60 && 60 % minutes === 0) {
+    return minutes === 1 ? '* * * * *' : `*/${minutes} * * * *`;
+  }
+  const hours = minutes / 60;
+  if (Number.isInteger(hours) && hours >= 1 && hours < 24 && 24 % hours === 0) {
+    return hours === 1 ? '0 * * * *' : `0 */${hours} * * *`;
+  }
+  if (hours === 24) {
+    return '0 0 * * *';
+  }
+  throw new JobQueueError('Interval must divide evenly into an hour or a day; use a cron expression instead');
+};
+
+class JobQueueService {
+  private static instance: JobQueueService;
+  private handlers = new Map<JobType, JobHandler>();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  public readonly workerId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+  private constructor() {}
+
+  public static getInstance(): JobQueueService {
+    if (!JobQueueService.instance) {
+      JobQueueService.instance = new JobQueueService();
+    }
+    return JobQueueService.instance;
+  }
+
+  public registerHandler(jobType: JobType, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  public async enqueue(jobType: JobType, payload: unknown = null, options: EnqueueOptions = {}): Promise<JobQueue | undefined> {
+    return storage.createJob({
+      jobType,
+      payload: payload as any,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? 3,
+      scheduledAt: options.runAt ?? new Date(),
+      processedAt: null,
+      failedAt: null,
+      error: null,
+      lockedBy: null,
+      lockedUntil: null,
+      dedupeKey: options.dedupeKey ?? null,
+      scheduleName: options.scheduleName ?? null,
+    });
+  }
+
+  /**
+   * Make sure a recurring schedule exists. An existing schedule keeps its stored cron
+   * expression and enabled flag so changes made through the API survive restarts.
+   */
+  public async defineSchedule(definition: ScheduleDefinition, now: Date = new Date()): Promise<JobSchedule> {
+    return storage.createJobSchedule({
+      name: definition.name,
+      jobType: definition.jobType,
+      cronExpression: definition.cron,
+      payload: (definition.payload ?? null) as any,
+      enabled: definition.enabled ?? true,
+      maxAttempts: definition.maxAttempts ?? 3,
+      lastRunAt: null,
+      nextRunAt: nextCronRun(definition.cron, now),
+    });
+  }
+
+  public async updateSchedule(name: string, updates: { cron?: string; enabled?: boolean }, now: Date = new Date()): Promise<JobSchedule> {
+    const schedule = await storage.getJobSchedule(name);
+    if (!schedule) {
+      throw new JobQueueError(`Job schedule ${name} not found`, 404);
+    }
+    const cron = updates.cron ?? schedule.cronExpression;
+    return storage.updateJobSchedule(name, {
+      cronExpression: cron,
+      enabled: updates.enabled ?? schedule.enabled,
+      nextRunAt: nextCronRun(cron, now),
+    });
+  }
+
+  /**
+   * Enqueue one job for every schedule that has come due. Replicas race on a compare-and-set of
+   * the schedule's next run time, and the job's dedupe key is the slot, so each slot runs once.
+   * Slots missed while every replica was down collapse into a single catch-up run.
+   */
+  public async enqueueDueSchedules(now: Date = new Date()): Promise<number> {
+    let enqueued = 0;
+    for (const schedule of await storage.getJobSchedules()) {
+      if (!schedule.enabled || schedule.nextRunAt > now) {
+        continue;
+      }
+      const advanced = await storage.advanceJobSchedule(schedule.name, schedule.nextRunAt, nextCronRun(schedule.cronExpression, now), now);
+      if (!advanced) {
+        continue;
+      }
+      const job = await this.enqueue(schedule.jobType, schedule.payload, {
+        maxAttempts: schedule.maxAttempts ?? 3,
+        dedupeKey: `${schedule.name}@${schedule.nextRunAt.toISOString()}`,
+        scheduleName: schedule.name,
+        runAt: now,
+      });
+      if (job) {
+        enqueued++;
+      }
+    }
+    return enqueued;
+  }
+
+  /**
+   * Claim due jobs (including ones whose worker's lease ran out) and run them one at a time
+   */
+  public async processDueJobs(now: Date = new Date(), limit: number = CLAIM_BATCH_SIZE): Promise<WorkerRunResult> {
+    const jobs = await storage.claimJobs(this.workerId, limit, LEASE_MS, now);
+    const result: WorkerRunResult = { claimed: jobs.length, completed: 0, failed: 0, dead: 0 };
+
+    for (const job of jobs) {
+      const handler = this.handlers.get(job.jobType);
+      try {
+        if (!handler) {
+          throw new Error(`No handler registered for ${job.jobType}`);
+        }
+        await handler(job.payload, job);
+        await storage.updateJob(job.id, {
+          status: 'completed',
+          processedAt: new Date(),
+          error: null,
+          lockedBy: null,
+          lockedUntil: null,
+        });
+        result.completed++;
+      } catch (error) {
+        const status = await this.recordFailure(job, error, now);
+        status === 'dead' ? result.dead++ : result.failed++;
+      }
+    }
+    return result;
+  }
+
+  /** Exponential backoff: 30s, 1m, 2m, ... capped at an hour */
+  public getBackoffDelay(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)), BACKOFF_MAX_MS);
+  }
+
+  /**
+   * Put a failed or dead-lettered job back in the queue with a fresh set of attempts
+   */
+  public async retry(jobId: string, now: Date = new Date()): Promise<JobQueue> {
+    const job = await storage.getJob(jobId);
+    if (!job) {
+      throw new JobQueueError('Job not found', 404);
+    }
+    if (job.status !== 'dead' && job.status !== 'failed') {
+      throw new JobQueueError(`Only failed or dead jobs can be retried; this job is ${job.status}`, 409);
+    }
+    return storage.updateJob(jobId, {
+      status: 'pending',
+      attempts: 0,
+      scheduledAt: now,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  }
+
+  /**
+   * Run `fn` only if no other replica holds the named lock. The lock expires after `ttlMs`
+   * so a crashed holder cannot block the job forever.
+   */
+  public async withLock<T>(name: string, ttlMs: number, fn: () => Promise<T>): Promise<{ acquired: boolean; result?: T }> {
+    // A token per holder, so two callers on the same replica exclude each other too
+    const owner = `${this.workerId}#${crypto.randomUUID()}`;
+    const acquired = await storage.acquireJobLock(name, owner, ttlMs, new Date());
+    if (!acquired) {
+      return { acquired: false };
+    }
+    try {
+      return { acquired: true, result: await fn() };
+    } finally {
+      await storage.releaseJobLock(name, owner);
+    }
+  }
+
+  public async getStats(): Promise<JobQueueStats> {
+    const byType = await storage.getJobQueueCounts();
+    const depth = { pending: 0, processing: 0, failed: 0, dead: 0, completed: 0 };
+    for (const row of byType) {
+      depth[row.status] += Number(row.count);
+    }
+    const [dead, failed] = await Promise.all([
+      storage.getJobs({ status: 'dead', limit: 25 }),
+      storage.getJobs({ status: 'failed', limit: 25 }),
+    ]);
+    const failures = [...dead, ...failed]
+      .sort((a, b) => (b.failedAt?.getTime() ?? 0) - (a.failedAt?.getTime() ?? 0))
+      .slice(0, 25);
+    return { depth, byType, failures, schedules: await storage.getJobSchedules() };
+  }
+
+  public async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+    try {
+      await this.enqueueDueSchedules(now);
+      await this.processDueJobs(now);
+    } catch (error) {
+      console.error('Job queue tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  public start(pollIntervalMs: number = POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.tick(), pollIntervalMs);
+    console.log(`Job queue worker ${this.workerId} polling every ${pollIntervalMs / 1000}s`);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async recordFailure(job: JobQueue, error: unknown, now: Date): Promise<JobQueue['status']> {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = job.attempts ?? 1;
+    const exhausted = attempts >= (job.maxAttempts ?? 3);
+    console.error(`Job ${job.jobType} (${job.id}) failed on attempt ${attempts}:`, message);
+
+    await storage.updateJob(job.id, {
+      status: exhausted ? 'dead' : 'failed',
+      error: message,
+      failedAt: now,
+      scheduledAt: exhausted ? job.scheduledAt : new Date(now.getTime() + this.getBackoffDelay(attempts)),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+    return exhausted ? 'dead' : 'failed';
+  }
+}
+
+export const jobQueueService = JobQueueService.getInstance();
@@ -0,0 +1,314 @@
+import QRCode from "qrcode";
+import {
+  labelSheetSchema,
+  type Equipment,
+  type LabelSheetRequest,
+  type LabelStock,
+  type LabelSymbology,
+  type Part,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { PdfDocument } from "./pdf-document";
+import { assetHierarchyService } from "./asset-hierarchy.service";
+import { scanService, type LabelKind } from "./scan.service";
+
+export class LabelSheetError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'LabelSheetError';
+  }
+}
+
+// One label's worth of content
+export interface LabelItem {
+  kind: LabelKind;
+  id: string;
+  title: string; // asset tag or part number, also what the Code128 barcode carries
+  subtitle: string | null; // model or description
+  payload: string; // signed scan payload, or the portal link carrying it; what the QR code carries
+}
+
+export interface LabelSheetOptions {
+  stock?: LabelStock;
+  symbology?: LabelSymbology;
+  startPosition?: number; // first free label on a part-used sheet, counting from 1
+  footer?: string; // printed on every label, e.g. the warehouse name
+}
+
+export interface LabelStockLayout {
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  left: number; // page edge to the first label
+  top: number;
+  columnPitch: number; // label edge to the next label's edge
+  rowPitch: number;
+}
+
+const INCH = 72;
+
+// Sheet geometry in points, from the manufacturers' templates
+export const LABEL_STOCK_LAYOUTS: Record<LabelStock, LabelStockLayout> = {
+  avery_5160: {
+    name: 'Avery 5160 · 1" x 2-5/8", 30 per sheet',
+    pageWidth: 8.5 * INCH, pageHeight: 11 * INCH, columns: 3, rows: 10,
+    labelWidth: 2.625 * INCH, labelHeight: 1 * INCH,
+    left: 0.1875 * INCH, top: 0.5 * INCH, columnPitch: 2.75 * INCH, rowPitch: 1 * INCH,
+  },
+  avery_5163: {
+    name: 'Avery 5163 · 2" x 4", 10 per sheet',
+    pageWidth: 8.5 * INCH, pageHeight: 11 * INCH, columns: 2, rows: 5,
+    labelWidth: 4 * INCH, labelHeight: 2 * INCH,
+    left: 0.15625 * INCH, top: 0.5 * INCH, columnPitch: 4.1875 * INCH, rowPitch: 2 * INCH,
+  },
+  thermal_2x1: {
+    name: 'Thermal 2" x 1" roll, one label per page',
+    pageWidth: 2 * INCH, pageHeight: 1 * INCH, columns: 1, rows: 1,
+    labelWidth: 2 * INCH, labelHeight: 1 * INCH,
+    left: 0, top: 0, columnPitch: 2 * INCH, rowPitch: 1 * INCH,
+  },
+};
+
+const PADDING = 5;
+const MAX_LABELS = 2000;
+
+// Code 128 bar/space widths for symbol values 0-106 (106 is the stop pattern)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Bars and spaces for text in Code 128 set B, as module widths starting with a bar
+ */
+export function code128Widths(text: string): number[] {
+  const values = Array.from(text).map(ch => {
+    const code = ch.charCodeAt(0);
+    if (code < 32 || code > 127) {
+      throw new LabelSheetError(`"${text}" has characters a Code 128 barcode cannot carry`);
+    }
+    return code - 32;
+  });
+  const checksum = values.reduce((sum, value, i) => sum + value * (i + 1), CODE128_START_B) % 103;
+  return [CODE128_START_B, ...values, checksum, CODE128_STOP]
+    .flatMap(value => Array.from(CODE128_PATTERNS[value], Number));
+}
+
+const matches = (value: string | null | undefined, search: string) => !!value && value.toLowerCase().includes(search);
+
+export class LabelSheetService {
+  private static instance: LabelSheetService;
+
+  private constructor() {}
+
+  public static getInstance(): LabelSheetService {
+    if (!LabelSheetService.instance) {
+      LabelSheetService.instance = new LabelSheetService();
+    }
+    return LabelSheetService.instance;
+  }
+
+  // Selection
+
+  /**
+   * Equipment to label: the chosen ids, or everything matching the same filters as the Equipment page
+   */
+  public async selectEquipment(warehouseId: string, request: LabelSheetRequest): Promise<Equipment[]> {
+    const { filter, ids } = request;
+    const all = filter.locationId
+      ? await assetHierarchyService.queryEquipment(warehouseId, { locationId: filter.locationId, subtree: true })
+      : await storage.getEquipment(warehouseId);
+    const search = filter.search?.trim().toLowerCase();
+    return all
+      .filter(e => !ids || ids.includes(e.id))
+      .filter(e => !search || matches(e.assetTag, search) || matches(e.description, search) || matches(e.model, search))
+      .filter(e => !filter.status || filter.status === 'all' || e.status === filter.status)
+      .filter(e => !filter.criticality || filter.criticality === 'all' || e.criticality === filter.criticality)
+      .sort((a, b) => a.assetTag.localeCompare(b.assetTag));
+  }
+
+  /**
+   * Parts to label: the chosen ids, or everything matching the same filters as the Inventory page
+   */
+  public async selectParts(warehouseId: string, request: LabelSheetRequest): Promise<Part[]> {
+    const { filter, ids } = request;
+    const search = filter.search?.trim().toLowerCase();
+    return (await storage.getParts(warehouseId))
+      .filter(p => !ids || ids.includes(p.id))
+      .filter(p => !search || matches(p.partNumber, search) || matches(p.description, search))
+      .filter(p => !filter.category || filter.category === 'all' || p.category === filter.category)
+      .sort((a, b) => (a.location ?? '').localeCompare(b.location ?? '') || a.partNumber.localeCompare(b.partNumber));
+  }
+
+  // Drawing
+
+  private drawQr(doc: PdfDocument, payload: string, x: number, y: number, size: number) {
+    const { modules } = QRCode.create(payload, { errorCorrectionLevel: 'M' });
+    const quiet = 2; // modules of white border; the label's own padding makes up the rest
+    const cell = size / (modules.size + quiet * 2);
+    for (let row = 0; row < modules.size; row++) {
+      // Draw each run of dark modules in a row as one rectangle
+      let start = -1;
+      for (let col = 0; col <= modules.size; col++) {
+        const dark = col < modules.size && modules.get(row, col);
+        if (dark && start < 0) start = col;
+        if (!dark && start >= 0) {
+          doc.rect(x + (quiet + start) * cell, y + (quiet + row) * cell, (col - start) * cell, cell, { fill: true });
+          start = -1;
+        }
+      }
+    }
+  }
+
+  private drawCode128(doc: PdfDocument, text: string, x: number, y: number, width: number, height: number) {
+    const widths = code128Widths(text);
+    const quiet = 10; // modules of clear space each side
+    const moduleWidth = width / (widths.reduce((sum, w) => sum + w, 0) + quiet * 2);
+    let cursor = x + quiet * moduleWidth;
+    widths.forEach((w, i) => {
+      if (i % 2 === 0) doc.rect(cursor, y, w * moduleWidth, height, { fill: true });
+      cursor += w * moduleWidth;
+    });
+  }
+
+  // Cut text to fit rather than run into the next label
+  private fit(doc: PdfDocument, text: string, maxWidth: number, size: number, font: 'regular' | 'bold' = 'regular'): string {
+    if (doc.textWidth(text, size, font) <= maxWidth) return text;
+    let cut = text;
+    while (cut.length > 1 && doc.textWidth(`${cut}…`, size, font) > maxWidth) cut = cut.slice(0, -1);
+    return `${cut}…`;
+  }
+
+  private drawLabel(
+    doc: PdfDocument,
+    item: LabelItem,
+    footer: string,
+    symbology: LabelSymbology,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+  ) {
+    const inner = { x: x + PADDING, y: y + PADDING, w: w - PADDING * 2, h: h - PADDING * 2 };
+    const titleSize = Math.min(14, inner.h / 4);
+    const smallSize = Math.max(5, titleSize * 0.6);
+
+    if (symbology === 'qr') {
+      // Code on the left, text beside it
+      const size = inner.h;
+      this.drawQr(doc, item.payload, inner.x, inner.y, size);
+      const textX = inner.x + size + 4;
+      const textWidth = inner.w - size - 4;
+      doc.text(textX, inner.y + titleSize, this.fit(doc, item.title, textWidth, titleSize, 'bold'), { size: titleSize, font: 'bold' });
+      const lines = item.subtitle ? doc.wrapText(item.subtitle, textWidth, smallSize).slice(0, 2) : [];
+      lines.forEach((line, i) => {
+        doc.text(textX, inner.y + titleSize + (i + 1) * (smallSize + 2), this.fit(doc, line, textWidth, smallSize), { size: smallSize });
+      });
+      doc.text(textX, inner.y + inner.h - 1, this.fit(doc, footer, textWidth, smallSize), { size: smallSize, color: [0.35, 0.35, 0.35] });
+      return;
+    }
+
+    // Title across the top, barcode underneath, then model and warehouse
+    doc.text(inner.x, inner.y + titleSize, this.fit(doc, item.title, inner.w, titleSize, 'bold'), { size: titleSize, font: 'bold' });
+    const barTop = inner.y + titleSize + 3;
+    const barHeight = inner.h - titleSize - 3 - (smallSize + 2) * 2;
+    this.drawCode128(doc, item.title, inner.x, barTop, inner.w, barHeight);
+    const below = [item.subtitle, footer].filter(Boolean) as string[];
+    below.forEach((line, i) => {
+      doc.text(inner.x, barTop + barHeight + (i + 1) * (smallSize + 2), this.fit(doc, line, inner.w, smallSize), {
+        size: smallSize,
+        color: i === below.length - 1 ? [0.35, 0.35, 0.35] : [0, 0, 0],
+      });
+    });
+  }
+
+  /**
+   * Lay labels out across as many sheets as they need
+   */
+  public render(items: LabelItem[], options: LabelSheetOptions = {}): Buffer {
+    if (items.length === 0) {
+      throw new LabelSheetError('Nothing matches the selection');
+    }
+    if (items.length > MAX_LABELS) {
+      throw new LabelSheetError(`At most ${MAX_LABELS} labels can be printed at once; narrow the selection`);
+    }
+    const layout = LABEL_STOCK_LAYOUTS[options.stock ?? 'avery_5160'];
+    const perPage = layout.columns * layout.rows;
+    const skip = ((options.startPosition ?? 1) - 1) % perPage;
+    const doc = new PdfDocument(layout.pageWidth, layout.pageHeight);
+
+    items.forEach((item, i) => {
+      const slot = i + skip;
+      if (slot > 0 && slot % perPage === 0) doc.addPage();
+      const position = slot % perPage;
+      const column = position % layout.columns;
+      const row = Math.floor(position / layout.columns);
+      this.drawLabel(
+        doc,
+        item,
+        options.footer ?? '',
+        options.symbology ?? 'qr',
+        layout.left + column * layout.columnPitch,
+        layout.top + row * layout.rowPitch,
+        layout.labelWidth,
+        layout.labelHeight,
+      );
+    });
+
+    return doc.toBuffer({ title: `${items.length} labels`, subject: layout.name });
+  }
+
+  private async footerFor(warehouseId: string): Promise<string> {
+    return (await storage.getWarehouse(warehouseId))?.name ?? '';
+  }
+
+  /**
+   * With an origin, asset QR codes carry the request portal link so anyone's phone camera can report a problem
+   */
+  public async renderEquipmentLabels(warehouseId: string, input: unknown, origin?: string): Promise<{ pdf: Buffer; count: number }> {
+    const request = labelSheetSchema.parse(input);
+    const equipment = await this.selectEquipment(warehouseId, request);
+    const items = equipment.map(e => ({
+      kind: 'asset' as const,
+      id: e.id,
+      title: e.assetTag,
+      subtitle: [e.model, e.description].filter(Boolean).join(' · ') || null,
+      payload: origin && request.symbology === 'qr'
+        ? scanService.portalLink(origin, scanService.encode('asset', e.id))
+        : scanService.encode('asset', e.id),
+    }));
+    const pdf = this.render(items, { ...request, footer: await this.footerFor(warehouseId) });
+    return { pdf, count: items.length };
+  }
+
+  public async renderPartLabels(warehouseId: string, input: unknown): Promise<{ pdf: Buffer; count: number }> {
+    const request = labelSheetSchema.parse(input);
+    const parts = await this.selectParts(warehouseId, request);
+    const items = parts.map(p => ({
+      kind: 'part' as const,
+      id: p.id,
+      title: p.partNumber,
+      subtitle: [p.description, p.location && `Bin ${p.location}`].filter(Boolean).join(' · ') || null,
+      payload: scanService.encode('part', p.id),
+    }));
+    const pdf = this.render(items, { ...request, footer: await this.footerFor(warehouseId) });
+    return { pdf, count: items.length };
+  }
+}
+
+export const labelSheetService = LabelSheetService.getInstance();
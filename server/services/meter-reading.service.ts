@@ -0,0 +1,230 @@
+import { MeterReading, Equipment } from "@shared/schema";
+import { storage } from "../storage";
+
+export type MeterType = MeterReading['meterType'];
+
+export const METER_TYPES: MeterType[] = ['hours', 'cycles', 'odometer'];
+
+export interface MeterReadingInput {
+  equipmentId: string;
+  meterType: MeterType;
+  value: number;
+  readingAt?: Date;
+  reset?: boolean;
+  rolloverAt?: number;
+  source?: MeterReading['source'];
+  recordedBy?: string;
+  notes?: string;
+  // Caller's warehouse; equipment elsewhere is treated as not found
+  warehouseId?: string;
+}
+
+export interface MeterImportResult {
+  imported: number;
+  readings: MeterReading[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+export class MeterReadingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'MeterReadingError';
+  }
+}
+
+export class MeterReadingService {
+  private static instance: MeterReadingService;
+
+  private constructor() {}
+
+  public static getInstance(): MeterReadingService {
+    if (!MeterReadingService.instance) {
+      MeterReadingService.instance = new MeterReadingService();
+    }
+    return MeterReadingService.instance;
+  }
+
+  /**
+   * Rollover point for a meter, taken from the request or equipment specifications.meterRollover
+   */
+  private getRolloverPoint(equipment: Equipment, meterType: MeterType, override?: number): number | undefined {
+    if (override && override > 0) {
+      return override;
+    }
+    const specs = (equipment.specifications || {}) as any;
+    const configured = Number(specs.meterRollover?.[meterType]);
+    return configured > 0 ? configured : undefined;
+  }
+
+  /**
+   * Record a reading, deriving usage since the previous reading across rollovers and resets
+   */
+  async recordReading(input: MeterReadingInput): Promise<MeterReading> {
+    if (!METER_TYPES.includes(input.meterType)) {
+      throw new MeterReadingError(`Unknown meter type: ${input.meterType}`);
+    }
+    if (!Number.isFinite(input.value) || input.value < 0) {
+      throw new MeterReadingError('Meter value must be a non-negative number');
+    }
+
+    const equipment = await storage.getEquipmentById(input.equipmentId);
+    if (!equipment || (input.warehouseId && equipment.warehouseId !== input.warehouseId)) {
+      throw new MeterReadingError('Equipment not found', 404);
+    }
+
+    const readingAt = input.readingAt || new Date();
+    const previous = await storage.getLatestMeterReading(input.equipmentId, input.meterType);
+
+    if (previous && readingAt < new Date(previous.readingAt)) {
+      throw new MeterReadingError('Reading is older than the latest recorded reading for this meter');
+    }
+
+    let readingType: MeterReading['readingType'] = 'reading';
+    let delta = 0;
+    let cumulative = input.value;
+
+    if (previous) {
+      const previousValue = parseFloat(previous.value);
+
+      if (input.reset) {
+        // Meter was reset or replaced; it counts up from zero again
+        readingType = 'reset';
+        delta = input.value;
+      } else if (input.value < previousValue) {
+        const rolloverPoint = this.getRolloverPoint(equipment, input.meterType, input.rolloverAt);
+        if (!rolloverPoint || previousValue > rolloverPoint) {
+          throw new MeterReadingError(
+            `Reading ${input.value} is lower than the previous reading ${previousValue}; submit it as a meter reset`
+          );
+        }
+        readingType = 'rollover';
+        delta = rolloverPoint - previousValue + input.value;
+      } else {
+        delta = input.value - previousValue;
+      }
+
+      cumulative = parseFloat(previous.cumulativeValue) + delta;
+    }
+
+    return await storage.createMeterReading({
+      equipmentId: input.equipmentId,
+      meterType: input.meterType,
+      value: input.value.toFixed(2),
+      delta: delta.toFixed(2),
+      cumulativeValue: cumulative.toFixed(2),
+      readingType,
+      source: input.source || 'manual',
+      readingAt,
+      recordedBy: input.recordedBy || null,
+      notes: input.notes || null,
+      warehouseId: equipment.warehouseId,
+    });
+  }
+
+  /**
+   * Import readings from CSV with columns equipmentId|assetTag, meterType, value, readingAt, reset, notes,
+   * for equipment in the given warehouse
+   */
+  async importCsv(csv: string, warehouseId: string, recordedBy?: string): Promise<MeterImportResult> {
+    const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const result: MeterImportResult = { imported: 0, readings: [], errors: [] };
+
+    if (lines.length < 2) {
+      throw new MeterReadingError('CSV must contain a header row and at least one reading');
+    }
+
+    const headers = this.splitCsvLine(lines[0]).map(h => h.toLowerCase());
+    const column = (name: string) => headers.indexOf(name.toLowerCase());
+
+    if (column('meterType') === -1 || column('value') === -1 || (column('equipmentId') === -1 && column('assetTag') === -1)) {
+      throw new MeterReadingError('CSV header must include meterType, value and equipmentId or assetTag');
+    }
+
+    for (let i = 1; i < lines.length; i++) {
+      const cells = this.splitCsvLine(lines[i]);
+      const cell = (name: string) => {
+        const index = column(name);
+        return index === -1 ? '' : (cells[index] || '');
+      };
+
+      try {
+        let equipmentId = cell('equipmentId');
+        if (!equipmentId && cell('assetTag')) {
+          const equipment = await storage.getEquipmentByAssetTag(cell('assetTag'), warehouseId);
+          if (!equipment) {
+            throw new MeterReadingError(`Unknown asset tag: ${cell('assetTag')}`);
+          }
+          equipmentId = equipment.id;
+        }
+
+        const readingAt = cell('readingAt') ? new Date(cell('readingAt')) : undefined;
+        if (readingAt && isNaN(readingAt.getTime())) {
+          throw new MeterReadingError(`Invalid readingAt: ${cell('readingAt')}`);
+        }
+
+        const reading = await this.recordReading({
+          equipmentId,
+          meterType: cell('meterType') as MeterType,
+          value: parseFloat(cell('value')),
+          readingAt,
+          reset: ['true', 'yes', '1'].includes(cell('reset').toLowerCase()),
+          source: 'csv',
+          recordedBy,
+          notes: cell('notes') || undefined,
+          warehouseId,
+        });
+
+        result.readings.push(reading);
+        result.imported++;
+      } catch (error) {
+        result.errors.push({ line: i + 1, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Lifetime usage recorded on a meter at or before a point in time
+   */
+  async getUsageAt(equipmentId: string, meterType: MeterType, at?: Date): Promise<number> {
+    const readings = await storage.getMeterReadings(equipmentId, meterType);
+    const applicable = at ? readings.filter(r => new Date(r.readingAt) <= at) : readings;
+    const latest = applicable[applicable.length - 1];
+    return latest ? parseFloat(latest.cumulativeValue) : 0;
+  }
+
+  /**
+   * Cells of one CSV line; quoted cells may contain commas, with "" for a literal quote
+   */
+  private splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"' && current.trim() === '') {
+        current = '';
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    cells.push(current.trim());
+    return cells;
+  }
+}
+
+export const meterReadingService = MeterReadingService.getInstance();
@@ -0,0 +1,185 @@
+import {
+  NOTIFICATION_TYPES,
+  notificationPreferencesSchema,
+  type NotificationPreferences,
+  type NotificationType,
+  type Profile,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export interface NotificationDelivery {
+  inApp: boolean;
+  socket: boolean;
+  push: boolean;
+  email: 'immediate' | 'digest' | null;
+  quietHours: boolean; // true when push/immediate email were held back by quiet hours
+}
+
+type ChannelSettings = NonNullable<NotificationPreferences['types'][NotificationType]>;
+
+// What a client may send, and what is stored: any subset of the settings, down to single channels
+export interface NotificationPreferencesUpdate {
+  types?: Partial<Record<NotificationType, Partial<ChannelSettings>>>;
+  emailDelivery?: NotificationPreferences['emailDelivery'];
+  digestHour?: number;
+  quietHours?: Partial<NotificationPreferences['quietHours']>;
+}
+
+const DEFAULT_TIMEZONE = 'UTC';
+
+const buildDefaults = (role?: Profile['role']): NotificationPreferences => {
+  // Managers and admins get everything by email in a morning digest instead of interruptions
+  const digestRole = role === 'manager' || role === 'admin';
+  const types = Object.fromEntries(NOTIFICATION_TYPES.map(type => [type, {
+    in_app: true,
+    socket: true,
+    email: digestRole,
+    push: !digestRole,
+  }])) as NotificationPreferences['types'];
+
+  return {
+    types,
+    emailDelivery: digestRole ? 'digest' : 'immediate',
+    digestHour: 7,
+    quietHours: { enabled: false, start: '22:00', end: '06:00', allowUrgent: true },
+  };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+class NotificationPreferencesService {
+  private static instance: NotificationPreferencesService;
+
+  private constructor() {}
+
+  public static getInstance(): NotificationPreferencesService {
+    if (!NotificationPreferencesService.instance) {
+      NotificationPreferencesService.instance = new NotificationPreferencesService();
+    }
+    return NotificationPreferencesService.instance;
+  }
+
+  public getDefaults(role?: Profile['role']): NotificationPreferences {
+    return buildDefaults(role);
+  }
+
+  /**
+   * The user's saved preferences layered over the defaults for their role
+   */
+  public async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const profile = await storage.getProfile(userId);
+    return this.resolve(profile);
+  }
+
+  public async updatePreferences(userId: string, updates: unknown): Promise<NotificationPreferences> {
+    const profile = await storage.getProfile(userId);
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+    const merged = this.merge(this.resolve(profile), updates as NotificationPreferencesUpdate);
+    const preferences = notificationPreferencesSchema.parse(merged);
+
+    const existing = (profile.preferences as Record<string, unknown>) || {};
+    await storage.updateProfile(userId, { preferences: { ...existing, notifications: preferences } });
+    return preferences;
+  }
+
+  /**
+   * Which channels a notification of this type should go out on for the user right now.
+   * Quiet hours (in the user's warehouse timezone) hold back push and immediate email;
+   * urgent notifications break through when the user allows it.
+   */
+  public async resolveDelivery(
+    userId: string,
+    type: NotificationType,
+    options: { urgent?: boolean; now?: Date } = {},
+  ): Promise<NotificationDelivery> {
+    const profile = await storage.getProfile(userId);
+    const preferences = this.resolve(profile);
+    const channels = preferences.types[type] || buildDefaults(profile?.role).types[type];
+
+    const quiet = preferences.quietHours.enabled &&
+      !(options.urgent && preferences.quietHours.allowUrgent) &&
+      this.isWithinQuietHours(preferences, await this.getTimezone(profile), options.now || new Date());
+
+    let email: NotificationDelivery['email'] = null;
+    if (channels?.email && profile?.email) {
+      // Held-back immediate email is folded into the digest rather than lost
+      email = preferences.emailDelivery === 'digest' || quiet ? 'digest' : 'immediate';
+    }
+
+    return {
+      inApp: channels?.in_app ?? true,
+      socket: channels?.socket ?? true,
+      push: (channels?.push ?? true) && !quiet,
+      email,
+      quietHours: quiet,
+    };
+  }
+
+  public isWithinQuietHours(preferences: NotificationPreferences, timezone: string, now: Date): boolean {
+    const start = toMinutes(preferences.quietHours.start);
+    const end = toMinutes(preferences.quietHours.end);
+    const current = this.localMinutes(now, timezone);
+    if (start === end) {
+      return false;
+    }
+    // Windows like 22:00-06:00 wrap past midnight
+    return start < end ? current >= start && current < end : current >= start || current < end;
+  }
+
+  /** Local hour of day in the user's warehouse timezone, for scheduling digests */
+  public async getLocalHour(profile: Profile | undefined, now: Date = new Date()): Promise<number> {
+    return Math.floor(this.localMinutes(now, await this.getTimezone(profile)) / 60);
+  }
+
+  public resolve(profile: Profile | undefined): NotificationPreferences {
+    const defaults = buildDefaults(profile?.role);
+    const saved = (profile?.preferences as { notifications?: NotificationPreferencesUpdate } | null)?.notifications;
+    if (!saved) {
+      return defaults;
+    }
+    const parsed = notificationPreferencesSchema.safeParse(this.merge(defaults, saved));
+    return parsed.success ? parsed.data : defaults;
+  }
+
+  private merge(base: NotificationPreferences, updates: NotificationPreferencesUpdate): NotificationPreferences {
+    const types = { ...base.types };
+    const defaults = buildDefaults();
+    for (const type of Object.keys(updates?.types || {}) as NotificationType[]) {
+      const current: ChannelSettings = base.types[type] ?? defaults.types[type]!;
+      types[type] = { ...current, ...updates.types![type] };
+    }
+    return {
+      ...base,
+      ...updates,
+      types,
+      quietHours: { ...base.quietHours, ...(updates?.quietHours || {}) },
+    };
+  }
+
+  private async getTimezone(profile: Profile | undefined): Promise<string> {
+    if (!profile?.warehouseId) {
+      return DEFAULT_TIMEZONE;
+    }
+    const warehouse = await storage.getWarehouse(profile.warehouseId);
+    return warehouse?.timezone || DEFAULT_TIMEZONE;
+  }
+
+  private localMinutes(date: Date, timezone: string): number {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+    } catch {
+      parts = new Intl.DateTimeFormat('en-US', { timeZone: DEFAULT_TIMEZONE, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(date);
+    }
+    const hour = parseInt(parts.find(p => p.type === 'hour')!.value, 10);
+    const minute = parseInt(parts.find(p => p.type === 'minute')!.value, 10);
+    return hour * 60 + minute;
+  }
+}
+
+export const notificationPreferencesService = NotificationPreferencesService.getInstance();
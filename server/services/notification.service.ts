@@ -1,11 +1,20 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import crypto from 'crypto';
 import type { InsertNotification, Notification } from '../../shared/schema';
 import { storage } from '../storage';
+import { webPushService } from './web-push.service';
+import { emailService } from './email.service';
+import { notificationPreferencesService } from './notification-preferences.service';
+import { getAppBaseUrl } from './app-url';
+
+export interface SendNotificationOptions {
+  urgent?: boolean; // may break through the recipient's quiet hours
+}
 
 export interface NotificationService {
   initialize(httpServer: HTTPServer): void;
-  sendNotification(notification: InsertNotification): Promise<void>;
+  sendNotification(notification: InsertNotification, options?: SendNotificationOptions): Promise<void>;
   sendRealTimeUpdate(userId: string, data: any): Promise<void>;
   broadcastToWarehouse(warehouseId: string, data: any): Promise<void>;
   broadcastSystemAlert(data: any): Promise<void>;
@@ -111,18 +120,27 @@ class NotificationServiceImpl implements NotificationService {
     }
   }
 
-  async sendNotification(notificationData: any): Promise<void> {
-    if (!this.io) {
-      console.warn('Socket.IO not initialized, cannot send notification');
-      return;
-    }
-
+  async sendNotification(notificationData: any, options: SendNotificationOptions = {}): Promise<void> {
     try {
-      // Store notification in database
-      const notification = await storage.createNotification(notificationData as InsertNotification);
+      const delivery = notificationData.userId
+        ? await notificationPreferencesService.resolveDelivery(notificationData.userId, notificationData.type, options)
+        : { inApp: true, socket: true, push: true, email: null, quietHours: false };
+
+      // Store notification in database; muted in-app notifications are only kept when a digest needs them
+      let notification: Notification;
+      if (delivery.inApp || delivery.email === 'digest') {
+        notification = await storage.createNotification({
+          ...notificationData,
+          // Kept for the digest only, so it should not show as unread in the app
+          read: delivery.inApp ? notificationData.read : true,
+          emailDigestPending: delivery.email === 'digest',
+        } as InsertNotification);
+      } else {
+        notification = { ...notificationData, id: crypto.randomUUID(), read: false, createdAt: new Date() } as Notification;
+      }
 
       // Send real-time notification to user (userId is required in notifications table)
-      if (notificationData.userId) {
+      if (notificationData.userId && delivery.socket && this.io) {
         this.io.to(`user:${notificationData.userId}`).emit('notification', {
           type: 'notification',
           data: notification
@@ -136,6 +154,18 @@ class NotificationServiceImpl implements NotificationService {
             data: notification
           });
         }
+      } else if (!this.io) {
+        console.warn('Socket.IO not initialized, notification stored without real-time delivery');
+      }
+
+      // Users without a live socket get a Web Push on their subscribed devices instead. It isn't awaited,
+      // so a slow push service can't hold up the request or job that raised the notification
+      if (notification.userId && delivery.push && !this.isUserOnline(notification.userId)) {
+        void this.sendPushNotification(notification);
+      }
+
+      if (delivery.email === 'immediate') {
+        await this.sendEmailNotification(notification);
       }
 
       console.log('Notification sent:', notification.id);
@@ -145,6 +175,89 @@ class NotificationServiceImpl implements NotificationService {
     }
   }
 
+  private async sendEmailNotification(notification: Notification): Promise<void> {
+    try {
+      const profile = await storage.getProfile(notification.userId);
+      if (!profile?.email) return;
+      await emailService.send({
+        to: profile.email,
+        subject: notification.title,
+        text: `${notification.message}\n\n${this.getEmailUrl(notification)}`,
+      });
+    } catch (error) {
+      // Email is best effort, like push
+      console.error('Failed to send notification email:', error);
+    }
+  }
+
+  /**
+   * Email each user whose digest hour it is (in their warehouse timezone) the notifications
+   * held for their digest; run hourly by the background job scheduler
+   */
+  async sendEmailDigests(now: Date = new Date()): Promise<number> {
+    let sent = 0;
+    for (const profile of await storage.getProfiles()) {
+      if (!profile.email || profile.active === false) continue;
+
+      const preferences = notificationPreferencesService.resolve(profile);
+      if (await notificationPreferencesService.getLocalHour(profile, now) !== preferences.digestHour) continue;
+
+      const pending = (await storage.getNotifications(profile.id)).filter(n => n.emailDigestPending);
+      if (pending.length === 0) continue;
+
+      const lines = pending
+        .sort((a, b) => new Date(a.createdAt!).getTime() - new Date(b.createdAt!).getTime())
+        .map(n => `- ${n.title}: ${n.message}\n  ${this.getEmailUrl(n)}`);
+      await emailService.send({
+        to: profile.email,
+        subject: `Daily maintenance digest (${pending.length} notification${pending.length === 1 ? '' : 's'})`,
+        text: `Hello ${profile.firstName},\n\nHere is what happened since your last digest:\n\n${lines.join('\n')}\n`,
+      });
+      for (const notification of pending) {
+        await storage.updateNotification(notification.id, { emailDigestPending: false });
+      }
+      sent++;
+    }
+    return sent;
+  }
+
+  private async sendPushNotification(notification: Notification): Promise<void> {
+    try {
+      await webPushService.sendToUser(notification.userId, {
+        title: notification.title,
+        body: notification.message,
+        tag: notification.id,
+        data: {
+          url: this.getNotificationUrl(notification),
+          notificationId: notification.id,
+          type: notification.type,
+        },
+      });
+    } catch (error) {
+      // Push is best effort; the notification is already stored for the in-app list
+      console.error('Failed to send push notification:', error);
+    }
+  }
+
+  // Deep link opened by the service worker when the push is clicked
+  private getNotificationUrl(notification: Notification): string {
+    if (notification.workOrderId) {
+      return `/work-orders?workOrderId=${notification.workOrderId}`;
+    }
+    if (notification.equipmentId) {
+      return '/equipment';
+    }
+    if (notification.partId) {
+      return '/inventory';
+    }
+    return '/';
+  }
+
+  // Email clients have no page to resolve a relative link against, so emails link to the configured app URL
+  private getEmailUrl(notification: Notification): string {
+    return new URL(this.getNotificationUrl(notification), getAppBaseUrl()).toString();
+  }
+
   async sendRealTimeUpdate(userId: string, data: any): Promise<void> {
     if (!this.io) return;
 
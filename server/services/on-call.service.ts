@@ -0,0 +1,376 @@
+import crypto from "crypto";
+import {
+  onCallRotationSchema,
+  onCallOverrideSchema,
+  onCallSwapSchema,
+  type OnCallOverride,
+  type OnCallRole,
+  type OnCallRotation,
+  type Profile,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { getSigningSecret } from "./auth/signing-secret";
+import { localDay, zonedTime, type LocalDay } from "./sla.service";
+
+export class OnCallError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'OnCallError';
+  }
+}
+
+export interface OnCallShift {
+  rotationId: string;
+  role: OnCallRole;
+  userId: string;
+  startsAt: Date;
+  endsAt: Date;
+  source: 'rotation' | 'override' | 'swap';
+  overrideId: string | null;
+}
+
+export interface OnCallSchedule {
+  from: Date;
+  to: Date;
+  rotations: OnCallRotation[];
+  shifts: (OnCallShift & { userName: string })[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SCHEDULE_DAYS = 92;
+const FEED_PAST_DAYS = 14;
+const FEED_FUTURE_DAYS = 90;
+const SWAP_ROLES = ['supervisor', 'manager', 'admin'];
+
+// Feed links are opened by calendar apps that cannot send our auth headers, so they carry a signed token instead
+const FEED_SECRET = getSigningSecret('ON_CALL_FEED_SECRET');
+
+// Days since the epoch, so handoffs can be counted with plain arithmetic
+const dayNumber = (day: LocalDay) => Math.round(Date.UTC(day.year, day.month - 1, day.day) / DAY_MS);
+
+const fromDayNumber = (n: number): LocalDay => {
+  const date = new Date(n * DAY_MS);
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+const parseDay = (key: string): LocalDay => {
+  const [year, month, day] = key.split('-').map(Number);
+  return { year, month, day };
+};
+
+/**
+ * The scheduled (pre-override) shift a rotation has running at an instant
+ */
+export const scheduledShiftAt = (rotation: OnCallRotation, instant: Date): OnCallShift => {
+  const timezone = rotation.timezone || 'UTC';
+  const handoffAt = (day: number) => zonedTime(fromDayNumber(day), rotation.handoffTime, timezone);
+
+  // The latest handoff at or before the instant
+  let day = dayNumber(localDay(instant, timezone));
+  if (handoffAt(day) > instant.getTime()) {
+    day -= 1;
+  }
+  const period = rotation.handoffFrequency === 'weekly' ? 7 : 1;
+  if (period === 7) {
+    const dayOfWeek = (((day + 4) % 7) + 7) % 7; // the epoch was a Thursday
+    day -= (dayOfWeek - (rotation.handoffDayOfWeek ?? 1) + 7) % 7;
+  }
+
+  const turn = Math.floor((day - dayNumber(parseDay(rotation.anchorDate))) / period);
+  const participants = rotation.participants;
+  return {
+    rotationId: rotation.id,
+    role: rotation.role,
+    userId: participants[((turn % participants.length) + participants.length) % participants.length],
+    startsAt: new Date(handoffAt(day)),
+    endsAt: new Date(handoffAt(day + period)),
+    source: 'rotation',
+    overrideId: null,
+  };
+};
+
+/**
+ * Shifts overlapping [from, to) with overrides and swaps applied; the most recent override wins where they overlap
+ */
+export const buildShifts = (rotation: OnCallRotation, overrides: OnCallOverride[], from: Date, to: Date): OnCallShift[] => {
+  const shifts: OnCallShift[] = [];
+  let cursor = from;
+  while (cursor < to && shifts.length < MAX_SCHEDULE_DAYS * 2) {
+    const scheduled = scheduledShiftAt(rotation, cursor);
+    const start = scheduled.startsAt.getTime();
+    const end = scheduled.endsAt.getTime();
+
+    const relevant = overrides.filter(o => o.startsAt.getTime() < end && o.endsAt.getTime() > start);
+    const cuts = new Set<number>([start, end]);
+    for (const override of relevant) {
+      [override.startsAt.getTime(), override.endsAt.getTime()].filter(t => t > start && t < end).forEach(t => cuts.add(t));
+    }
+    const points = Array.from(cuts).sort((a, b) => a - b);
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const [segmentStart, segmentEnd] = [points[i], points[i + 1]];
+      const covering = relevant
+        .filter(o => o.startsAt.getTime() <= segmentStart && o.endsAt.getTime() >= segmentEnd)
+        .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+      const segment: OnCallShift = covering
+        ? { ...scheduled, userId: covering.userId, source: covering.kind, overrideId: covering.id, startsAt: new Date(segmentStart), endsAt: new Date(segmentEnd) }
+        : { ...scheduled, startsAt: new Date(segmentStart), endsAt: new Date(segmentEnd) };
+
+      const previous = shifts[shifts.length - 1];
+      if (previous && i > 0 && previous.userId === segment.userId && previous.overrideId === segment.overrideId) {
+        previous.endsAt = segment.endsAt;
+      } else {
+        shifts.push(segment);
+      }
+    }
+    cursor = scheduled.endsAt;
+  }
+  return shifts;
+};
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+const foldLine = (line: string) => line.length <= 75 ? line : line.match(/.{1,74}/g)!.join('\r\n ');
+
+/**
+ * On-call rotations per warehouse and role, and who is on call at any moment
+ */
+class OnCallService {
+  private static instance: OnCallService;
+
+  private constructor() {}
+
+  public static getInstance(): OnCallService {
+    if (!OnCallService.instance) {
+      OnCallService.instance = new OnCallService();
+    }
+    return OnCallService.instance;
+  }
+
+  public async getRotations(warehouseId: string): Promise<OnCallRotation[]> {
+    return storage.getOnCallRotations(warehouseId);
+  }
+
+  /**
+   * Create or replace the rotation for a role in a warehouse; everyone on it must be an active member of that warehouse
+   */
+  public async saveRotation(warehouseId: string, input: unknown, updatedBy?: string): Promise<OnCallRotation> {
+    const rotation = onCallRotationSchema.parse(input);
+    for (const userId of rotation.participants) {
+      if (!(await this.isActiveMember(userId, warehouseId))) {
+        throw new OnCallError(`Participant ${userId} not found, inactive or in another warehouse`);
+      }
+    }
+    return storage.upsertOnCallRotation(warehouseId, rotation, updatedBy);
+  }
+
+  private async isActiveMember(userId: string, warehouseId: string): Promise<boolean> {
+    const profile = await storage.getProfile(userId);
+    return !!profile && !!profile.active && profile.warehouseId === warehouseId;
+  }
+
+  private async getRotation(rotationId: string): Promise<OnCallRotation> {
+    const rotation = await storage.getOnCallRotation(rotationId);
+    if (!rotation) {
+      throw new OnCallError('On-call rotation not found', 404);
+    }
+    return rotation;
+  }
+
+  /**
+   * Who is on call for a role right now, with overrides and swaps applied
+   */
+  public async getCurrentOnCall(warehouseId: string, role: OnCallRole, now: Date = new Date()): Promise<OnCallShift | null> {
+    const rotation = (await storage.getOnCallRotations(warehouseId)).find(r => r.role === role && r.active);
+    if (!rotation || rotation.participants.length === 0) {
+      return null;
+    }
+    const overrides = await storage.getOnCallOverrides(rotation.id);
+    return buildShifts(rotation, overrides, now, new Date(now.getTime() + 1))
+      .find(shift => shift.startsAt <= now && shift.endsAt > now) ?? null;
+  }
+
+  /**
+   * The active profile currently on call for a role, if the warehouse has a rotation for it
+   */
+  public async findOnCallProfile(warehouseId: string, role: OnCallRole, now: Date = new Date()): Promise<Profile | null> {
+    const shift = await this.getCurrentOnCall(warehouseId, role, now);
+    if (!shift) {
+      return null;
+    }
+    const profile = await storage.getProfile(shift.userId);
+    return profile && profile.active ? profile : null;
+  }
+
+  /**
+   * Every shift in a window, for the calendar view
+   */
+  public async getSchedule(warehouseId: string, from: Date, to: Date, role?: OnCallRole): Promise<OnCallSchedule> {
+    if (to <= from) {
+      throw new OnCallError('The schedule must end after it starts');
+    }
+    if (to.getTime() - from.getTime() > MAX_SCHEDULE_DAYS * DAY_MS) {
+      throw new OnCallError(`The schedule can cover at most ${MAX_SCHEDULE_DAYS} days`);
+    }
+
+    const rotations = (await storage.getOnCallRotations(warehouseId))
+      .filter(r => r.active && r.participants.length > 0 && (!role || r.role === role));
+    const shifts: OnCallShift[] = [];
+    for (const rotation of rotations) {
+      shifts.push(...buildShifts(rotation, await storage.getOnCallOverrides(rotation.id), from, to));
+    }
+
+    const names = new Map<string, string>();
+    for (const userId of new Set(shifts.map(s => s.userId))) {
+      const profile = await storage.getProfile(userId);
+      names.set(userId, profile ? `${profile.firstName} ${profile.lastName}` : 'Unknown');
+    }
+
+    return {
+      from,
+      to,
+      rotations,
+      shifts: shifts
+        .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime())
+        .map(shift => ({ ...shift, userName: names.get(shift.userId)! })),
+    };
+  }
+
+  /**
+   * Put someone else on call for part of the rotation
+   */
+  public async addOverride(rotationId: string, input: unknown, createdBy?: string): Promise<OnCallOverride> {
+    const rotation = await this.getRotation(rotationId);
+    const override = onCallOverrideSchema.parse(input);
+    if (!(await this.isActiveMember(override.userId, rotation.warehouseId))) {
+      throw new OnCallError('Covering user not found, inactive or in another warehouse');
+    }
+
+    const covered = scheduledShiftAt(rotation, override.startsAt);
+    return storage.createOnCallOverride({
+      rotationId,
+      userId: override.userId,
+      originalUserId: covered.userId,
+      kind: 'override',
+      swapGroupId: null,
+      startsAt: override.startsAt,
+      endsAt: override.endsAt,
+      reason: override.reason || null,
+      createdBy: createdBy || null,
+    });
+  }
+
+  /**
+   * Remove an override; removing either half of a swap undoes the whole swap
+   */
+  public async removeOverride(rotationId: string, overrideId: string): Promise<void> {
+    const overrides = await storage.getOnCallOverrides(rotationId);
+    const override = overrides.find(o => o.id === overrideId);
+    if (!override) {
+      throw new OnCallError('On-call override not found', 404);
+    }
+    const toRemove = override.swapGroupId ? overrides.filter(o => o.swapGroupId === override.swapGroupId) : [override];
+    for (const entry of toRemove) {
+      await storage.deleteOnCallOverride(entry.id);
+    }
+  }
+
+  /**
+   * Trade two shifts between the people on call for them
+   */
+  public async swap(rotationId: string, input: unknown, requestedBy: string): Promise<OnCallOverride[]> {
+    const rotation = await this.getRotation(rotationId);
+    const { firstShiftAt, secondShiftAt, reason } = onCallSwapSchema.parse(input);
+    const overrides = await storage.getOnCallOverrides(rotationId);
+
+    const first = scheduledShiftAt(rotation, firstShiftAt);
+    const second = scheduledShiftAt(rotation, secondShiftAt);
+    if (first.startsAt.getTime() === second.startsAt.getTime()) {
+      throw new OnCallError('Pick two different shifts to swap');
+    }
+
+    const onCallAt = (instant: Date) => buildShifts(rotation, overrides, instant, new Date(instant.getTime() + 1))
+      .find(shift => shift.startsAt <= instant && shift.endsAt > instant)!.userId;
+    const firstUser = onCallAt(firstShiftAt);
+    const secondUser = onCallAt(secondShiftAt);
+    if (firstUser === secondUser) {
+      throw new OnCallError('Both shifts belong to the same person');
+    }
+
+    const requester = await storage.getProfile(requestedBy);
+    if (![firstUser, secondUser].includes(requestedBy) && !(requester && SWAP_ROLES.includes(requester.role))) {
+      throw new OnCallError('Only the people on call for these shifts or a supervisor can swap them', 403);
+    }
+
+    const swapGroupId = crypto.randomUUID();
+    const record = (shift: OnCallShift, userId: string, originalUserId: string) => storage.createOnCallOverride({
+      rotationId,
+      userId,
+      originalUserId,
+      kind: 'swap',
+      swapGroupId,
+      startsAt: shift.startsAt,
+      endsAt: shift.endsAt,
+      reason: reason || null,
+      createdBy: requestedBy,
+    });
+    return [await record(first, secondUser, firstUser), await record(second, firstUser, secondUser)];
+  }
+
+  public feedToken(userId: string): string {
+    return crypto.createHmac('sha256', FEED_SECRET).update(`on-call-feed:${userId}`).digest('hex');
+  }
+
+  public verifyFeedToken(userId: string, token: string): boolean {
+    const expected = Buffer.from(this.feedToken(userId));
+    const given = Buffer.from(token || '');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+
+  /**
+   * A user's upcoming (and recent) shifts as an iCalendar feed
+   */
+  public async buildICalFeed(userId: string, now: Date = new Date()): Promise<string> {
+    const profile = await storage.getProfile(userId);
+    if (!profile) {
+      throw new OnCallError('User not found', 404);
+    }
+
+    const from = new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS);
+    const to = new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS);
+    const rotations = (await storage.getOnCallRotations(profile.warehouseId))
+      .filter(r => r.active && r.participants.length > 0);
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//MaintainPro//On-Call//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${icsText(`On call - ${profile.firstName} ${profile.lastName}`)}`,
+    ];
+    for (const rotation of rotations) {
+      const shifts = buildShifts(rotation, await storage.getOnCallOverrides(rotation.id), from, to)
+        .filter(shift => shift.userId === userId);
+      for (const shift of shifts) {
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${rotation.id}-${shift.startsAt.getTime()}@on-call`,
+          `DTSTAMP:${icsDate(now)}`,
+          `DTSTART:${icsDate(shift.startsAt)}`,
+          `DTEND:${icsDate(shift.endsAt)}`,
+          `SUMMARY:${icsText(`On call: ${rotation.name}`)}`,
+          `DESCRIPTION:${icsText(shift.source === 'rotation' ? 'Scheduled rotation shift' : `Covering via ${shift.source}`)}`,
+          'END:VEVENT',
+        );
+      }
+    }
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+  }
+}
+
+export const onCallService = OnCallService.getInstance();
@@ -0,0 +1,176 @@
+export type PdfFont = 'regular' | 'bold' | 'mono';
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+export interface PdfShapeOptions {
+  width?: number;
+  color?: PdfColor;
+  fill?: boolean;
+}
+
+export interface PdfInfo {
+  title?: string;
+  subject?: string;
+  keywords?: string;
+}
+
+// The three standard fonts every PDF reader has, so nothing needs embedding
+const FONTS: Record<PdfFont, { name: string; resource: string; avgWidth: number }> = {
+  regular: { name: 'Helvetica', resource: 'F1', avgWidth: 0.52 },
+  bold: { name: 'Helvetica-Bold', resource: 'F2', avgWidth: 0.56 },
+  mono: { name: 'Courier', resource: 'F3', avgWidth: 0.6 },
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for
+const WIN_ANSI: Record<string, string> = {
+  '–': '\x96', '—': '\x97', '•': '\x95', '‘': '\x91', '’': '\x92', '“': '\x93', '”': '\x94', '…': '\x85', '€': '\x80',
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+const colorOp = (color: PdfColor, op: 'rg' | 'RG') => `${color.map(num).join(' ')} ${op}`;
+
+const escapeText = (text: string) => Array.from(text)
+  .map(ch => WIN_ANSI[ch] ?? (ch.charCodeAt(0) > 255 ? '?' : ch))
+  .join('')
+  .replace(/[\\()]/g, m => `\\${m}`)
+  .replace(/[\r\n\t]/g, ' ');
+
+/**
+ * Minimal PDF writer for certificates and label sheets: text in the standard fonts, lines and rectangles.
+ * Coordinates are in points from the top-left corner of the page.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(public readonly width = 612, public readonly height = 792) {
+    this.addPage();
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): this {
+    this.pages.push([]);
+    return this;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Approximate width of a line of text; good enough for wrapping and centring
+   */
+  textWidth(text: string, size = 10, font: PdfFont = 'regular'): number {
+    return text.length * size * FONTS[font].avgWidth;
+  }
+
+  /**
+   * Split text into lines that fit the given width
+   */
+  wrapText(text: string, maxWidth: number, size = 10, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, font) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): this {
+    const { size = 10, font = 'regular', color = [0, 0, 0] } = options;
+    this.current.push(
+      `BT ${colorOp(color, 'rg')} /${FONTS[font].resource} ${num(size)} Tf ${num(x)} ${num(this.height - y)} Td (${escapeText(text)}) Tj ET`
+    );
+    return this;
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}): this {
+    return this.polyline([[x1, y1], [x2, y2]], options);
+  }
+
+  /**
+   * Connected line segments, e.g. one pen stroke of a drawn signature
+   */
+  polyline(points: Array<[number, number]>, options: PdfShapeOptions = {}): this {
+    if (points.length === 0) return this;
+    const { width = 1, color = [0, 0, 0] } = options;
+    // A single point is a dot; draw it as a zero-length segment so the round cap shows it
+    const path = (points.length === 1 ? [points[0], points[0]] : points)
+      .map(([x, y], i) => `${num(x)} ${num(this.height - y)} ${i === 0 ? 'm' : 'l'}`)
+      .join(' ');
+    this.current.push(`q ${colorOp(color, 'RG')} ${num(width)} w 1 J 1 j ${path} S Q`);
+    return this;
+  }
+
+  rect(x: number, y: number, w: number, h: number, options: PdfShapeOptions = {}): this {
+    const { width = 1, color = [0, 0, 0], fill = false } = options;
+    const shape = `${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re`;
+    this.current.push(fill
+      ? `q ${colorOp(color, 'rg')} ${shape} f Q`
+      : `q ${colorOp(color, 'RG')} ${num(width)} w ${shape} S Q`);
+    return this;
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(info: PdfInfo = {}): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    // 1: catalog, 2: page tree, 3-5: fonts, 6: info, then a page and its content stream per page
+    const fontIds = { F1: 3, F2: 4, F3: 5 };
+    const pageIds = this.pages.map((_, i) => 7 + i * 2);
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    for (const font of Object.values(FONTS)) {
+      add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.name} /Encoding /WinAnsiEncoding >>`);
+    }
+    const infoEntries = Object.entries({ Title: info.title, Subject: info.subject, Keywords: info.keywords })
+      .filter(([, value]) => value)
+      .map(([key, value]) => `/${key} (${escapeText(value!)})`);
+    add(`<< /Producer (MaintainPro CMMS) ${infoEntries.join(' ')} >>`);
+
+    const fontResources = Object.entries(fontIds).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+    this.pages.forEach((operations, i) => {
+      const stream = operations.join('\n');
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+      add(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    });
+
+    // Every character is one byte in latin1, so string lengths are byte offsets
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
@@ -1,5 +1,8 @@
 import { PmTemplate, Equipment, WorkOrder, InsertWorkOrder, WorkOrderChecklistItem } from "@shared/schema";
 import { storage } from "../storage";
+import { meterReadingService } from "./meter-reading.service";
+import { checklistService } from "./checklist.service";
+import { notificationService } from "./notification.service";
 
 export interface PMSchedule {
   equipmentId: string;
@@ -9,6 +12,16 @@ export interface PMSchedule {
   frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually';
   isOverdue: boolean;
   complianceStatus: 'compliant' | 'due' | 'overdue';
+  triggeredBy?: 'time' | 'usage';
+  usage?: UsageStatus;
+}
+
+export interface UsageStatus {
+  meterType: 'hours' | 'cycles' | 'odometer';
+  interval: number;
+  sinceLastPM: number;
+  remaining: number;
+  complianceStatus: 'compliant' | 'due' | 'overdue';
 }
 
 export interface ComplianceStatus {
@@ -20,6 +33,9 @@ export interface ComplianceStatus {
   nextPMDate?: Date;
 }
 
+// A PM is done once its work is completed; verification and closing come after and don't reopen it
+const DONE_STATUSES: WorkOrder['status'][] = ['completed', 'verified', 'closed'];
+
 export class PMEngine {
   private static instance: PMEngine;
   
@@ -88,12 +104,11 @@ export class PMEngine {
             const hasExistingPM = existingWorkOrders.some(wo => 
               wo.type === 'preventive' && 
               wo.equipmentId === equip.id &&
-              wo.status !== 'completed' &&
-              wo.status !== 'closed'
+              !DONE_STATUSES.includes(wo.status)
             );
             
             if (!hasExistingPM) {
-              const workOrder = await this.createPMWorkOrder(equip, template, warehouseId);
+              const workOrder = await this.createPMWorkOrder(equip, template, warehouseId, schedule);
               generatedWorkOrders.push(workOrder);
             }
           }
@@ -110,8 +125,15 @@ export class PMEngine {
   /**
    * Create a PM work order for specific equipment and template
    */
-  private async createPMWorkOrder(equipment: Equipment, template: PmTemplate, warehouseId: string): Promise<WorkOrder> {
+  private async createPMWorkOrder(
+    equipment: Equipment,
+    template: PmTemplate,
+    warehouseId: string,
+    schedule?: PMSchedule,
+    overrides: Partial<InsertWorkOrder> = {}
+  ): Promise<WorkOrder> {
     const foNumber = `PM-${Date.now()}-${equipment.assetTag}`;
+    const usageTriggered = schedule?.triggeredBy === 'usage' && schedule.usage;
     
     const workOrderData: InsertWorkOrder = {
       foNumber,
@@ -122,10 +144,13 @@ export class PMEngine {
       status: 'new',
       priority: 'medium',
       equipmentId: equipment.id,
-      dueDate: this.calculateNextDueDate(template.frequency),
+      dueDate: usageTriggered ? new Date() : this.calculateNextDueDate(template.frequency),
       estimatedHours: '2.00', // Default estimate
       warehouseId,
-      notes: `Auto-generated PM based on ${template.frequency} maintenance schedule`,
+      notes: usageTriggered
+        ? `Auto-generated PM after ${schedule.usage.sinceLastPM} ${schedule.usage.meterType} of usage (interval ${schedule.usage.interval})`
+        : `Auto-generated PM based on ${template.frequency} maintenance schedule`,
+      ...overrides,
     };
     
     const workOrder = await storage.createWorkOrder(workOrderData);
@@ -139,20 +164,27 @@ export class PMEngine {
     return workOrder;
   }
 
+  /**
+   * Create a PM work order at a slot chosen by the PM planner
+   */
+  public async createScheduledPMWorkOrder(
+    equipment: Equipment,
+    template: PmTemplate,
+    warehouseId: string,
+    slot: Pick<InsertWorkOrder, 'dueDate' | 'assignedTo' | 'priority' | 'estimatedHours'>
+  ): Promise<WorkOrder> {
+    return this.createPMWorkOrder(equipment, template, warehouseId, undefined, {
+      ...slot,
+      status: slot.assignedTo ? 'assigned' : 'new',
+      notes: `Scheduled by PM planner (${template.frequency} maintenance schedule)`,
+    });
+  }
+
   /**
    * Create checklist items for PM work order
    */
   private async createPMChecklistItems(workOrderId: string, template: PmTemplate): Promise<void> {
-    const checklistItem = {
-      workOrderId,
-      component: template.component,
-      action: template.action,
-      status: 'pending' as const,
-      notes: '',
-      sortOrder: 0,
-    };
-    
-    await storage.createWorkOrderChecklistItem(checklistItem);
+    await checklistService.createItemsFromTemplate(workOrderId, template);
   }
 
   /**
@@ -172,7 +204,7 @@ export class PMEngine {
     );
     
     for (const supervisor of supervisors) {
-      await storage.createNotification({
+      await notificationService.sendNotification({
         userId: supervisor.id,
         type: 'pm_due',
         title: 'Preventive Maintenance Due',
@@ -192,12 +224,12 @@ export class PMEngine {
       throw new Error(`PM template ${templateId} not found`);
     }
     
-    // Get completed PM work orders for this equipment
+    // Get completed PM work orders for this equipment, including ones since verified or closed
     const workOrders = await storage.getWorkOrders(template.warehouseId);
     const completedPMOrders = workOrders.filter(wo => 
       wo.type === 'preventive' &&
       wo.equipmentId === equipmentId &&
-      wo.status === 'completed'
+      DONE_STATUSES.includes(wo.status)
     ).sort((a, b) => new Date(b.completedAt || b.createdAt).getTime() - new Date(a.completedAt || a.createdAt).getTime());
     
     const lastCompletedDate = completedPMOrders.length > 0 
@@ -217,7 +249,7 @@ export class PMEngine {
       complianceStatus = 'due';
     }
     
-    return {
+    const schedule: PMSchedule = {
       equipmentId,
       templateId,
       nextDueDate,
@@ -226,6 +258,55 @@ export class PMEngine {
       isOverdue,
       complianceStatus,
     };
+    if (complianceStatus !== 'compliant') {
+      schedule.triggeredBy = 'time';
+    }
+    
+    // Usage-based templates trigger on whichever comes first: calendar or meter
+    const usage = await this.getUsageStatus(equipmentId, template, lastCompletedDate);
+    if (usage) {
+      schedule.usage = usage;
+      const severity = { compliant: 0, due: 1, overdue: 2 };
+      if (severity[usage.complianceStatus] > severity[schedule.complianceStatus]) {
+        schedule.complianceStatus = usage.complianceStatus;
+        schedule.isOverdue = usage.complianceStatus === 'overdue';
+        schedule.triggeredBy = 'usage';
+      }
+    }
+    
+    return schedule;
+  }
+
+  /**
+   * Usage accumulated on the template's meter since the last completed PM
+   */
+  private async getUsageStatus(equipmentId: string, template: PmTemplate, lastCompletedDate?: Date): Promise<UsageStatus | undefined> {
+    const interval = template.usageInterval ? parseFloat(template.usageInterval) : 0;
+    if (!template.meterType || !(interval > 0)) {
+      return undefined;
+    }
+    
+    const currentUsage = await meterReadingService.getUsageAt(equipmentId, template.meterType);
+    const usageAtLastPM = lastCompletedDate
+      ? await meterReadingService.getUsageAt(equipmentId, template.meterType, lastCompletedDate)
+      : 0;
+    const sinceLastPM = Math.max(0, currentUsage - usageAtLastPM);
+    
+    // Due once the interval is crossed, overdue once it is exceeded by more than 10%
+    let complianceStatus: UsageStatus['complianceStatus'] = 'compliant';
+    if (sinceLastPM > interval * 1.1) {
+      complianceStatus = 'overdue';
+    } else if (sinceLastPM >= interval) {
+      complianceStatus = 'due';
+    }
+    
+    return {
+      meterType: template.meterType,
+      interval,
+      sinceLastPM,
+      remaining: Math.max(0, interval - sinceLastPM),
+      complianceStatus,
+    };
   }
 
   /**
@@ -0,0 +1,402 @@
+import { Part, Profile, TechnicianShift, WorkOrder } from '@shared/schema';
+import { dayKey, localDay, nextDay, zonedTime, type LocalDay } from './sla.service';
+
+type Priority = 'low' | 'medium' | 'high' | 'critical';
+
+export type PlanConflictType = 'technician_unavailable' | 'parts_unavailable' | 'equipment_occupied' | 'capacity_exceeded';
+
+export interface PlanCandidate {
+  ruleId: string;
+  templateId: string;
+  equipmentId: string;
+  equipmentModel: string;
+  dueDate: Date;
+  priority: Priority;
+  estimatedDuration: number;
+  leadTimeDays: number;
+  assignedTechnicians: string[];
+  requiredParts: string[]; // part ids or numbers, one entry per unit
+}
+
+// A part as the planner sees it: what is free to use once other work orders' reservations are held back
+export interface PlanPart {
+  id: Part['id'];
+  partNumber: Part['partNumber'];
+  available: number;
+}
+
+export interface PlanInput {
+  startDate: Date;
+  endDate: Date;
+  candidates: PlanCandidate[];
+  technicians: Profile[];
+  shifts: TechnicianShift[];
+  operatingHours: { start: string; end: string };
+  timezone: string; // the warehouse's; days, shifts and operating hours are on its wall clock
+  workingDays: number[];
+  maxConcurrentPMs: number;
+  priorityWeights: Record<Priority, number>;
+  existingWorkOrders: WorkOrder[];
+  parts: PlanPart[];
+}
+
+export interface PlannedPM {
+  ruleId: string;
+  templateId: string;
+  equipmentId: string;
+  scheduledDate: Date;
+  dueDate: Date;
+  assignedTo?: string;
+  priority: Priority;
+  estimatedDuration: number;
+  score: number;
+  rescheduled: boolean;
+}
+
+export interface PlanConflict {
+  equipmentId: string;
+  templateId?: string;
+  conflictType: PlanConflictType;
+  message: string;
+  resolution: string;
+}
+
+export interface PlanAdjustment {
+  equipmentId: string;
+  templateId: string;
+  fromDate: Date;
+  toDate: Date;
+  reason: PlanConflictType;
+  message: string;
+}
+
+export interface TechnicianDayCapacity {
+  date: string;
+  technicianId: string;
+  availableHours: number;
+  bookedHours: number;
+  plannedHours: number;
+}
+
+export interface PlanResult {
+  scheduled: PlannedPM[];
+  conflicts: PlanConflict[];
+  adjustments: PlanAdjustment[];
+  capacity: TechnicianDayCapacity[];
+  utilizationRate: number;
+}
+
+interface DaySlot {
+  day: LocalDay;
+  date: Date; // local midnight
+  key: string;
+  pmCount: number;
+  technicians: Map<string, { start: number; available: number; booked: number; planned: number }>;
+}
+
+const OPEN_STATUSES = ['new', 'assigned', 'in_progress'];
+const DEFAULT_WORK_ORDER_HOURS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Capacity-aware PM planner. Places due PMs into technician shifts in
+ * priority order so lower-priority work is the first to move when a day fills up.
+ */
+class PMScheduleOptimizer {
+  private static instance: PMScheduleOptimizer;
+
+  private constructor() {}
+
+  public static getInstance(): PMScheduleOptimizer {
+    if (!PMScheduleOptimizer.instance) {
+      PMScheduleOptimizer.instance = new PMScheduleOptimizer();
+    }
+    return PMScheduleOptimizer.instance;
+  }
+
+  /**
+   * Build a balanced plan across the window without touching storage
+   */
+  public optimize(input: PlanInput): PlanResult {
+    const days = this.buildDaySlots(input);
+    const result: PlanResult = { scheduled: [], conflicts: [], adjustments: [], capacity: [], utilizationRate: 0 };
+    const stock = new Map(input.parts.map(part => [part.id, part.available]));
+
+    const ranked = input.candidates
+      .map(candidate => ({ candidate, score: this.scoreCandidate(candidate, input) }))
+      .sort((a, b) => b.score - a.score || a.candidate.dueDate.getTime() - b.candidate.dueDate.getTime());
+
+    for (const { candidate, score } of ranked) {
+      const missingParts = this.findMissingParts(candidate, input.parts, stock);
+      if (missingParts.length > 0) {
+        result.conflicts.push({
+          equipmentId: candidate.equipmentId,
+          templateId: candidate.templateId,
+          conflictType: 'parts_unavailable',
+          message: `Insufficient stock for ${missingParts.join(', ')}`,
+          resolution: 'Reorder parts or schedule after the next receipt',
+        });
+        continue;
+      }
+
+      const placement = this.placeCandidate(candidate, days, input);
+      if (!placement.slot) {
+        result.conflicts.push({
+          equipmentId: candidate.equipmentId,
+          templateId: candidate.templateId,
+          conflictType: placement.blockedBy || 'technician_unavailable',
+          message: `No capacity for a ${candidate.estimatedDuration}h PM by ${dayKey(localDay(input.endDate, input.timezone))}`,
+          resolution: 'Extend the planning window, add shifts or assign another technician',
+        });
+        continue;
+      }
+
+      const { day, technicianId } = placement.slot;
+      const tech = day.technicians.get(technicianId)!;
+      // Wall-clock time on the day, so a daylight saving change does not shift the start by an hour
+      const startMinutes = Math.round((tech.start + tech.booked + tech.planned) * 60);
+      const scheduledDate = new Date(zonedTime(day.day, `${Math.floor(startMinutes / 60)}:${startMinutes % 60}`, input.timezone));
+      tech.planned += candidate.estimatedDuration;
+      day.pmCount++;
+      this.reserveParts(candidate, input.parts, stock);
+
+      const dueDay = this.startOfDay(candidate.dueDate, input.timezone);
+      const rescheduled = !!placement.blockedBy &&
+        day.date.getTime() > Math.max(dueDay.getTime(), this.startOfDay(input.startDate, input.timezone).getTime());
+      result.scheduled.push({
+        ruleId: candidate.ruleId,
+        templateId: candidate.templateId,
+        equipmentId: candidate.equipmentId,
+        scheduledDate,
+        dueDate: candidate.dueDate,
+        assignedTo: technicianId,
+        priority: candidate.priority,
+        estimatedDuration: candidate.estimatedDuration,
+        score,
+        rescheduled,
+      });
+
+      if (rescheduled) {
+        result.adjustments.push({
+          equipmentId: candidate.equipmentId,
+          templateId: candidate.templateId,
+          fromDate: candidate.dueDate,
+          toDate: scheduledDate,
+          reason: placement.blockedBy || 'technician_unavailable',
+          message: 'Moved after its due date to make room for higher-priority work',
+        });
+      }
+    }
+
+    let available = 0;
+    let used = 0;
+    for (const day of days) {
+      day.technicians.forEach((tech, technicianId) => {
+        available += tech.available;
+        used += Math.min(tech.booked + tech.planned, tech.available);
+        result.capacity.push({
+          date: day.key,
+          technicianId,
+          availableHours: tech.available,
+          bookedHours: tech.booked,
+          plannedHours: tech.planned,
+        });
+      });
+    }
+    result.utilizationRate = available > 0 ? Math.round((used / available) * 1000) / 10 : 0;
+
+    result.scheduled.sort((a, b) => a.scheduledDate.getTime() - b.scheduledDate.getTime());
+    return result;
+  }
+
+  /**
+   * Weight by configured priority, boosted for each week the PM is already overdue
+   */
+  private scoreCandidate(candidate: PlanCandidate, input: PlanInput): number {
+    const weight = input.priorityWeights[candidate.priority] ?? 1;
+    const overdueDays = Math.max(0, (input.startDate.getTime() - candidate.dueDate.getTime()) / DAY_MS);
+    return weight * (1 + overdueDays / 7);
+  }
+
+  /**
+   * Find the least-loaded slot inside the lead-time window, otherwise the first later day with room
+   */
+  private placeCandidate(
+    candidate: PlanCandidate,
+    days: DaySlot[],
+    input: PlanInput
+  ): { slot?: { day: DaySlot; technicianId: string }; blockedBy?: PlanConflictType } {
+    const due = localDay(candidate.dueDate, input.timezone);
+    const dueDay = zonedTime(due, '00:00', input.timezone);
+    const earliest = zonedTime(this.addDays(due, -candidate.leadTimeDays), '00:00', input.timezone);
+    const window = days.filter(day => day.date.getTime() >= earliest && day.date.getTime() <= dueDay);
+    const later = days.filter(day => day.date.getTime() > dueDay);
+    // Overdue PMs have an empty window and simply take the earliest day that fits
+    const ordered = [
+      ...window.sort((a, b) => this.dayLoad(a) - this.dayLoad(b) || a.date.getTime() - b.date.getTime()),
+      ...later,
+    ];
+
+    let blockedBy: PlanConflictType | undefined;
+    for (const day of ordered) {
+      const reason = this.blockingReason(candidate, day, input);
+      if (reason) {
+        blockedBy = blockedBy || reason;
+        continue;
+      }
+      const technicianId = this.pickTechnician(candidate, day);
+      if (!technicianId) {
+        blockedBy = blockedBy || 'technician_unavailable';
+        continue;
+      }
+      return { slot: { day, technicianId }, blockedBy };
+    }
+    return { blockedBy };
+  }
+
+  private blockingReason(candidate: PlanCandidate, day: DaySlot, input: PlanInput): PlanConflictType | undefined {
+    if (input.maxConcurrentPMs > 0 && day.pmCount >= input.maxConcurrentPMs) {
+      return 'capacity_exceeded';
+    }
+    const occupied = input.existingWorkOrders.some(wo =>
+      wo.equipmentId === candidate.equipmentId &&
+      OPEN_STATUSES.includes(wo.status) &&
+      wo.dueDate &&
+      dayKey(localDay(new Date(wo.dueDate), input.timezone)) === day.key
+    );
+    return occupied ? 'equipment_occupied' : undefined;
+  }
+
+  private pickTechnician(candidate: PlanCandidate, day: DaySlot): string | undefined {
+    let best: string | undefined;
+    let bestRemaining = 0;
+    day.technicians.forEach((tech, technicianId) => {
+      if (candidate.assignedTechnicians.length > 0 && !candidate.assignedTechnicians.includes(technicianId)) {
+        return;
+      }
+      const remaining = tech.available - tech.booked - tech.planned;
+      if (remaining >= candidate.estimatedDuration && remaining > bestRemaining) {
+        best = technicianId;
+        bestRemaining = remaining;
+      }
+    });
+    return best;
+  }
+
+  private dayLoad(day: DaySlot): number {
+    let available = 0;
+    let used = 0;
+    day.technicians.forEach(tech => {
+      available += tech.available;
+      used += tech.booked + tech.planned;
+    });
+    return available > 0 ? used / available : 1;
+  }
+
+  /**
+   * Technician hours per working day: their shifts if any are defined, otherwise warehouse operating hours,
+   * less the estimated hours of open work orders already assigned to them that day
+   */
+  private buildDaySlots(input: PlanInput): DaySlot[] {
+    const days: DaySlot[] = [];
+    const last = dayKey(localDay(input.endDate, input.timezone));
+
+    // Step by calendar day; days are 23 or 25 hours long when daylight saving changes
+    for (let day = localDay(input.startDate, input.timezone); dayKey(day) <= last; day = nextDay(day)) {
+      const key = dayKey(day);
+      const date = new Date(zonedTime(day, '00:00', input.timezone));
+      const technicians = new Map<string, { start: number; available: number; booked: number; planned: number }>();
+
+      for (const technician of input.technicians) {
+        const window = this.shiftWindow(technician.id, day, date, input);
+        if (!window) continue;
+
+        const booked = input.existingWorkOrders
+          .filter(wo =>
+            wo.assignedTo === technician.id &&
+            OPEN_STATUSES.includes(wo.status) &&
+            wo.dueDate &&
+            dayKey(localDay(new Date(wo.dueDate), input.timezone)) === key
+          )
+          .reduce((sum, wo) => sum + (wo.estimatedHours ? parseFloat(wo.estimatedHours) : DEFAULT_WORK_ORDER_HOURS), 0);
+
+        technicians.set(technician.id, { start: window.start, available: window.hours, booked, planned: 0 });
+      }
+
+      if (technicians.size > 0) {
+        days.push({ day, date, key, pmCount: 0, technicians });
+      }
+    }
+    return days;
+  }
+
+  private shiftWindow(technicianId: string, day: LocalDay, date: Date, input: PlanInput): { start: number; hours: number } | undefined {
+    const technicianShifts = input.shifts.filter(shift => shift.technicianId === technicianId && shift.active !== false);
+    const dayOfWeek = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+
+    if (technicianShifts.length === 0) {
+      if (!input.workingDays.includes(dayOfWeek)) return undefined;
+      return this.hoursBetween(input.operatingHours.start, input.operatingHours.end);
+    }
+
+    const todays = technicianShifts.filter(shift =>
+      shift.dayOfWeek === dayOfWeek &&
+      (!shift.effectiveFrom || new Date(shift.effectiveFrom) <= date) &&
+      (!shift.effectiveTo || new Date(shift.effectiveTo) >= date)
+    );
+    if (todays.length === 0) return undefined;
+
+    const windows = todays.map(shift => this.hoursBetween(shift.startTime, shift.endTime));
+    return {
+      start: Math.min(...windows.map(w => w.start)),
+      hours: windows.reduce((sum, w) => sum + w.hours, 0),
+    };
+  }
+
+  private hoursBetween(start: string, end: string): { start: number; hours: number } {
+    const toHours = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours + (minutes || 0) / 60;
+    };
+    const from = toHours(start);
+    let to = toHours(end);
+    if (to <= from) to += 24; // overnight shift
+    return { start: from, hours: to - from };
+  }
+
+  private findMissingParts(candidate: PlanCandidate, parts: PlanPart[], stock: Map<string, number>): string[] {
+    return Array.from(this.requiredQuantities(candidate)).filter(([ref, quantity]) => {
+      const part = parts.find(p => p.id === ref || p.partNumber === ref);
+      return !part || (stock.get(part.id) ?? 0) < quantity;
+    }).map(([ref]) => ref);
+  }
+
+  private reserveParts(candidate: PlanCandidate, parts: PlanPart[], stock: Map<string, number>): void {
+    this.requiredQuantities(candidate).forEach((quantity, ref) => {
+      const part = parts.find(p => p.id === ref || p.partNumber === ref);
+      if (part) {
+        stock.set(part.id, (stock.get(part.id) ?? 0) - quantity);
+      }
+    });
+  }
+
+  private requiredQuantities(candidate: PlanCandidate): Map<string, number> {
+    const quantities = new Map<string, number>();
+    for (const ref of candidate.requiredParts) {
+      quantities.set(ref, (quantities.get(ref) ?? 0) + 1);
+    }
+    return quantities;
+  }
+
+  // Midnight of the date's day in the timezone
+  private startOfDay(date: Date, timezone: string): Date {
+    return new Date(zonedTime(localDay(date, timezone), '00:00', timezone));
+  }
+
+  private addDays(day: LocalDay, days: number): LocalDay {
+    const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days));
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+}
+
+export const pmScheduleOptimizer = PMScheduleOptimizer.getInstance();
@@ -1,10 +1,22 @@
 import { pmEngine } from './pm-engine';
+import {
+  pmScheduleOptimizer,
+  PlanCandidate,
+  PlannedPM,
+  PlanConflict,
+  PlanAdjustment,
+  TechnicianDayCapacity,
+} from './pm-schedule-optimizer';
 import { storage } from '../storage';
+import { notificationService } from './notification.service';
+import { inventoryLedgerService } from './inventory-ledger.service';
+import { PmSchedulingRule, PmSchedulingConfig } from '@shared/schema';
 
 export interface PMSchedulingRule {
   id: string;
   name: string;
   warehouseId: string;
+  templateId?: string;
   equipmentModels: string[];
   frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually' | 'custom';
   customFrequencyDays?: number;
@@ -59,24 +71,17 @@ export interface PMSchedulingConfig {
 }
 
 export interface PMSchedulingResult {
-  scheduledPMs: {
-    workOrderId: string;
-    equipmentId: string;
-    templateId: string;
-    scheduledDate: Date;
-    priority: string;
-    estimatedDuration: number;
-  }[];
-  conflicts: {
-    equipmentId: string;
-    conflictType: 'technician_unavailable' | 'parts_unavailable' | 'equipment_occupied';
-    message: string;
-    resolution: string;
-  }[];
+  dryRun: boolean;
+  scheduledPMs: (PlannedPM & { workOrderId: string; assetTag: string; technicianName?: string })[];
+  conflicts: PlanConflict[];
+  adjustments: PlanAdjustment[];
+  capacity: TechnicianDayCapacity[];
   statistics: {
     totalScheduled: number;
     byPriority: Record<string, number>;
     byModel: Record<string, number>;
+    byWeek: Record<string, number>;
+    byTechnician: Record<string, number>;
     utilizationRate: number;
   };
 }
@@ -98,37 +103,16 @@ class PMSchedulerEnhanced {
   }
 
   /**
-   * Load scheduling rules for a warehouse
+   * Load scheduling rules for a warehouse, seeding them from PM templates on first use
    */
   public async loadSchedulingRules(warehouseId: string): Promise<PMSchedulingRule[]> {
     try {
-      // In a real implementation, this would come from database
-      // For now, we'll create default rules based on PM templates
-      const templates = await storage.getPmTemplates(warehouseId);
-      const rules: PMSchedulingRule[] = [];
-
-      for (const template of templates) {
-        const rule: PMSchedulingRule = {
-          id: `rule_${template.id}`,
-          name: `${template.model} - ${template.component}`,
-          warehouseId,
-          equipmentModels: [template.model],
-          frequency: template.frequency,
-          conditions: {},
-          triggerType: 'time_based',
-          autoGenerate: true,
-          leadTimeDays: 1,
-          priority: 'medium',
-          assignedTechnicians: [],
-          requiredParts: [],
-          estimatedDuration: 2,
-          isActive: true,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-        rules.push(rule);
+      let rows = await storage.getPmSchedulingRules(warehouseId);
+      if (rows.length === 0) {
+        rows = await this.seedRulesFromTemplates(warehouseId);
       }
 
+      const rules = rows.map(row => this.toSchedulingRule(row));
       this.schedulingRules.set(warehouseId, rules);
       return rules;
     } catch (error) {
@@ -137,57 +121,130 @@ class PMSchedulerEnhanced {
     }
   }
 
+  /**
+   * Persist one default rule per PM template so supervisors can edit them
+   */
+  private async seedRulesFromTemplates(warehouseId: string): Promise<PmSchedulingRule[]> {
+    const templates = await storage.getPmTemplates(warehouseId);
+    const rows: PmSchedulingRule[] = [];
+
+    for (const template of templates) {
+      rows.push(await storage.createPmSchedulingRule({
+        name: `${template.model} - ${template.component}`,
+        warehouseId,
+        templateId: template.id,
+        equipmentModels: [template.model],
+        frequency: template.frequency,
+        conditions: {},
+        triggerType: template.meterType ? 'usage_based' : 'time_based',
+        autoGenerate: true,
+        leadTimeDays: 1,
+        priority: 'medium',
+        assignedTechnicians: [],
+        requiredParts: [],
+        estimatedDuration: '2.00',
+        isActive: true,
+      }));
+    }
+
+    return rows;
+  }
+
+  /**
+   * Map a stored rule row to the scheduler's rule shape
+   */
+  private toSchedulingRule(row: PmSchedulingRule): PMSchedulingRule {
+    const conditions = row.conditions || {};
+    return {
+      id: row.id,
+      name: row.name,
+      warehouseId: row.warehouseId,
+      templateId: row.templateId || undefined,
+      equipmentModels: row.equipmentModels || [],
+      frequency: row.frequency,
+      customFrequencyDays: row.customFrequencyDays || undefined,
+      conditions: {
+        ...conditions,
+        lastMaintenanceDate: conditions.lastMaintenanceDate ? new Date(conditions.lastMaintenanceDate) : undefined,
+      },
+      triggerType: row.triggerType,
+      autoGenerate: row.autoGenerate ?? true,
+      leadTimeDays: row.leadTimeDays ?? 1,
+      priority: row.priority,
+      assignedTechnicians: row.assignedTechnicians || [],
+      requiredParts: row.requiredParts || [],
+      estimatedDuration: row.estimatedDuration ? parseFloat(row.estimatedDuration) : 2,
+      isActive: row.isActive ?? true,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  /**
+   * Default configuration used until a warehouse saves its own
+   */
+  public getDefaultSchedulingConfig(warehouseId: string): PMSchedulingConfig {
+    return {
+      warehouseId,
+      globalSettings: {
+        autoSchedulingEnabled: true,
+        defaultLeadTime: 2,
+        workingDays: [1, 2, 3, 4, 5], // Monday to Friday
+        workingHours: { start: '08:00', end: '17:00' },
+        maxConcurrentPMs: 10,
+        priorityWeights: {
+          critical: 4,
+          high: 3,
+          medium: 2,
+          low: 1,
+        },
+      },
+      escalationRules: {
+        overduePMHours: 24,
+        missedPMHours: 48,
+        escalationLevels: [
+          {
+            level: 1,
+            delayHours: 4,
+            recipients: ['supervisor'],
+            actions: ['notify'],
+          },
+          {
+            level: 2,
+            delayHours: 8,
+            recipients: ['manager'],
+            actions: ['notify', 'reassign'],
+          },
+          {
+            level: 3,
+            delayHours: 24,
+            recipients: ['director'],
+            actions: ['escalate'],
+          },
+        ],
+      },
+      complianceTargets: {
+        overallComplianceRate: 95,
+        criticalEquipmentRate: 100,
+        maxOverdueDays: 3,
+      },
+    };
+  }
+
   /**
    * Load scheduling configuration for a warehouse
    */
   public async loadSchedulingConfig(warehouseId: string): Promise<PMSchedulingConfig> {
     try {
-      // Default configuration
-      const config: PMSchedulingConfig = {
-        warehouseId,
-        globalSettings: {
-          autoSchedulingEnabled: true,
-          defaultLeadTime: 2,
-          workingDays: [1, 2, 3, 4, 5], // Monday to Friday
-          workingHours: { start: '08:00', end: '17:00' },
-          maxConcurrentPMs: 10,
-          priorityWeights: {
-            critical: 4,
-            high: 3,
-            medium: 2,
-            low: 1,
-          },
-        },
-        escalationRules: {
-          overduePMHours: 24,
-          missedPMHours: 48,
-          escalationLevels: [
-            {
-              level: 1,
-              delayHours: 4,
-              recipients: ['supervisor'],
-              actions: ['notify'],
-            },
-            {
-              level: 2,
-              delayHours: 8,
-              recipients: ['manager'],
-              actions: ['notify', 'reassign'],
-            },
-            {
-              level: 3,
-              delayHours: 24,
-              recipients: ['director'],
-              actions: ['escalate'],
-            },
-          ],
-        },
-        complianceTargets: {
-          overallComplianceRate: 95,
-          criticalEquipmentRate: 100,
-          maxOverdueDays: 3,
-        },
-      };
+      const stored: PmSchedulingConfig | undefined = await storage.getPmSchedulingConfig(warehouseId);
+      const config: PMSchedulingConfig = stored
+        ? {
+            warehouseId,
+            globalSettings: stored.globalSettings,
+            escalationRules: stored.escalationRules,
+            complianceTargets: stored.complianceTargets,
+          }
+        : this.getDefaultSchedulingConfig(warehouseId);
 
       this.schedulingConfigs.set(warehouseId, config);
       return config;
@@ -198,75 +255,148 @@ class PMSchedulerEnhanced {
   }
 
   /**
-   * Generate optimized PM schedule for a warehouse
+   * Generate a capacity-aware PM plan for a warehouse.
+   * Dry runs (the default) only return the plan; otherwise the planned work orders are created.
    */
-  public async generateOptimizedSchedule(warehouseId: string, startDate: Date, endDate: Date): Promise<PMSchedulingResult> {
+  public async generateOptimizedSchedule(
+    warehouseId: string,
+    startDate: Date,
+    endDate: Date,
+    options: { dryRun?: boolean } = {}
+  ): Promise<PMSchedulingResult> {
+    const dryRun = options.dryRun ?? true;
+
     try {
       const rules = await this.loadSchedulingRules(warehouseId);
       const config = await this.loadSchedulingConfig(warehouseId);
       const equipment = await storage.getEquipment(warehouseId);
       const existingWorkOrders = await storage.getWorkOrders(warehouseId);
+      const warehouse = await storage.getWarehouse(warehouseId);
+      const profiles = await storage.getProfiles();
+      const shifts = await storage.getTechnicianShifts(warehouseId);
+      const parts = await storage.getParts(warehouseId);
 
-      const result: PMSchedulingResult = {
-        scheduledPMs: [],
-        conflicts: [],
-        statistics: {
-          totalScheduled: 0,
-          byPriority: {},
-          byModel: {},
-          utilizationRate: 0,
-        },
-      };
-
-      // Process each active rule
-      for (const rule of rules.filter(r => r.isActive)) {
+      // Equipment only ever has one open PM, so when several rules cover it only the most urgent is planned
+      const weights = config.globalSettings.priorityWeights;
+      const candidates = new Map<string, PlanCandidate>();
+      for (const rule of rules.filter(r => r.isActive && r.templateId)) {
         const relevantEquipment = equipment.filter(eq => 
           rule.equipmentModels.includes(eq.model) && 
           eq.status === 'active'
         );
 
         for (const equip of relevantEquipment) {
-          const schedule = await pmEngine.getPMSchedule(equip.id, rule.id);
-          
-          // Check if PM is due within the scheduling window
-          if (schedule.nextDueDate >= startDate && schedule.nextDueDate <= endDate) {
-            // Check for conflicts
-            const conflicts = await this.checkSchedulingConflicts(equip.id, schedule.nextDueDate, rule, existingWorkOrders);
-            
-            if (conflicts.length === 0) {
-              // Create optimized schedule entry
-              const scheduledPM = {
-                workOrderId: `pending_${equip.id}_${rule.id}`,
-                equipmentId: equip.id,
-                templateId: rule.id,
-                scheduledDate: schedule.nextDueDate,
-                priority: rule.priority,
-                estimatedDuration: rule.estimatedDuration,
-              };
-
-              result.scheduledPMs.push(scheduledPM);
-              
-              // Update statistics
-              result.statistics.byPriority[rule.priority] = (result.statistics.byPriority[rule.priority] || 0) + 1;
-              result.statistics.byModel[equip.model] = (result.statistics.byModel[equip.model] || 0) + 1;
-            } else {
-              result.conflicts.push(...conflicts);
-            }
+          const hasExistingPM = existingWorkOrders.some(wo =>
+            wo.type === 'preventive' &&
+            wo.equipmentId === equip.id &&
+            !['completed', 'verified', 'closed'].includes(wo.status)
+          );
+          if (hasExistingPM) continue;
+
+          const schedule = await pmEngine.getPMSchedule(equip.id, rule.templateId);
+          if (schedule.nextDueDate > endDate) continue;
+
+          const candidate: PlanCandidate = {
+            ruleId: rule.id,
+            templateId: rule.templateId,
+            equipmentId: equip.id,
+            equipmentModel: equip.model,
+            dueDate: schedule.nextDueDate,
+            priority: rule.priority,
+            estimatedDuration: rule.estimatedDuration,
+            leadTimeDays: rule.leadTimeDays,
+            assignedTechnicians: rule.assignedTechnicians,
+            requiredParts: rule.requiredParts,
+          };
+          const current = candidates.get(equip.id);
+          const moreUrgent = !current ||
+            candidate.dueDate.getTime() < current.dueDate.getTime() ||
+            (candidate.dueDate.getTime() === current.dueDate.getTime() &&
+              (weights[candidate.priority] ?? 1) > (weights[current.priority] ?? 1));
+          if (moreUrgent) {
+            candidates.set(equip.id, candidate);
           }
         }
       }
 
-      // Sort by priority and date
-      result.scheduledPMs.sort((a, b) => {
-        const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-        const priorityDiff = priorityOrder[b.priority as keyof typeof priorityOrder] - priorityOrder[a.priority as keyof typeof priorityOrder];
-        
-        if (priorityDiff !== 0) return priorityDiff;
-        return new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime();
+      // Stock reserved for other work orders isn't free for new PMs
+      const referenced = new Set(Array.from(candidates.values()).flatMap(c => c.requiredParts));
+      const planParts = await Promise.all(parts
+        .filter(part => referenced.has(part.id) || referenced.has(part.partNumber))
+        .map(async part => ({
+          id: part.id,
+          partNumber: part.partNumber,
+          available: (await inventoryLedgerService.getAvailability(part.id)).available,
+        })));
+
+      const plan = pmScheduleOptimizer.optimize({
+        startDate,
+        endDate,
+        candidates: Array.from(candidates.values()),
+        technicians: profiles.filter(p => p.role === 'technician' && p.active !== false && p.warehouseId === warehouseId),
+        shifts,
+        operatingHours: {
+          start: warehouse?.operatingHoursStart || config.globalSettings.workingHours.start,
+          end: warehouse?.operatingHoursEnd || config.globalSettings.workingHours.end,
+        },
+        timezone: warehouse?.timezone || 'UTC',
+        workingDays: config.globalSettings.workingDays,
+        maxConcurrentPMs: config.globalSettings.maxConcurrentPMs,
+        priorityWeights: config.globalSettings.priorityWeights,
+        existingWorkOrders,
+        parts: planParts,
       });
 
-      result.statistics.totalScheduled = result.scheduledPMs.length;
-      result.statistics.utilizationRate = this.calculateUtilizationRate(result.scheduledPMs, config);
+      const result: PMSchedulingResult = {
+        dryRun,
+        scheduledPMs: [],
+        conflicts: plan.conflicts,
+        adjustments: plan.adjustments,
+        capacity: plan.capacity,
+        statistics: {
+          totalScheduled: plan.scheduled.length,
+          byPriority: {},
+          byModel: {},
+          byWeek: {},
+          byTechnician: {},
+          utilizationRate: plan.utilizationRate,
+        },
+      };
+
+      for (const planned of plan.scheduled) {
+        const equip = equipment.find(eq => eq.id === planned.equipmentId)!;
+        let workOrderId = `pending_${equip.id}_${planned.ruleId}`;
+
+        if (!dryRun) {
+          const template = await storage.getPmTemplate(planned.templateId);
+          if (template) {
+            const workOrder = await pmEngine.createScheduledPMWorkOrder(equip, template, warehouseId, {
+              dueDate: planned.scheduledDate,
+              assignedTo: planned.assignedTo,
+              priority: planned.priority,
+              estimatedHours: planned.estimatedDuration.toFixed(2),
+            });
+            workOrderId = workOrder.id;
+          }
+        }
+
+        const technician = profiles.find(p => p.id === planned.assignedTo);
+        result.scheduledPMs.push({
+          ...planned,
+          workOrderId,
+          assetTag: equip.assetTag,
+          technicianName: technician ? `${technician.firstName} ${technician.lastName}` : undefined,
+        });
+
+        const week = this.weekKey(planned.scheduledDate);
+        result.statistics.byPriority[planned.priority] = (result.statistics.byPriority[planned.priority] || 0) + 1;
+        result.statistics.byModel[equip.model] = (result.statistics.byModel[equip.model] || 0) + 1;
+        result.statistics.byWeek[week] = (result.statistics.byWeek[week] || 0) + 1;
+        if (planned.assignedTo) {
+          result.statistics.byTechnician[planned.assignedTo] =
+            (result.statistics.byTechnician[planned.assignedTo] || 0) + planned.estimatedDuration;
+        }
+      }
 
       return result;
     } catch (error) {
@@ -276,65 +406,13 @@ class PMSchedulerEnhanced {
   }
 
   /**
-   * Check for scheduling conflicts
-   */
-  private async checkSchedulingConflicts(
-    equipmentId: string,
-    scheduledDate: Date,
-    rule: PMSchedulingRule,
-    existingWorkOrders: any[]
-  ): Promise<any[]> {
-    const conflicts: any[] = [];
-
-    // Check for existing work orders on the same equipment
-    const conflictingWOs = existingWorkOrders.filter(wo => 
-      wo.equipmentId === equipmentId && 
-      wo.status !== 'completed' && 
-      wo.status !== 'closed' &&
-      Math.abs(new Date(wo.dueDate).getTime() - scheduledDate.getTime()) < 24 * 60 * 60 * 1000
-    );
-
-    if (conflictingWOs.length > 0) {
-      conflicts.push({
-        equipmentId,
-        conflictType: 'equipment_occupied',
-        message: `Equipment has existing work order scheduled for ${scheduledDate.toLocaleDateString()}`,
-        resolution: 'Reschedule or combine with existing work order',
-      });
-    }
-
-    // Check technician availability (simplified)
-    if (rule.assignedTechnicians.length > 0) {
-      const techWorkOrders = existingWorkOrders.filter(wo => 
-        rule.assignedTechnicians.includes(wo.assignedTo || '') &&
-        wo.status !== 'completed' &&
-        wo.status !== 'closed' &&
-        Math.abs(new Date(wo.dueDate).getTime() - scheduledDate.getTime()) < 4 * 60 * 60 * 1000
-      );
-
-      if (techWorkOrders.length > 0) {
-        conflicts.push({
-          equipmentId,
-          conflictType: 'technician_unavailable',
-          message: `Assigned technician unavailable at ${scheduledDate.toLocaleString()}`,
-          resolution: 'Assign different technician or reschedule',
-        });
-      }
-    }
-
-    return conflicts;
-  }
-
-  /**
-   * Calculate utilization rate
+   * Monday of the week containing the date, as YYYY-MM-DD
    */
-  private calculateUtilizationRate(scheduledPMs: any[], config: PMSchedulingConfig): number {
-    const totalDuration = scheduledPMs.reduce((sum, pm) => sum + pm.estimatedDuration, 0);
-    const workingHours = 8; // 8 hours per day
-    const workingDays = config.globalSettings.workingDays.length;
-    const maxCapacity = workingHours * workingDays * 7; // Weekly capacity
-    
-    return Math.min((totalDuration / maxCapacity) * 100, 100);
+  private weekKey(date: Date): string {
+    const monday = new Date(date);
+    monday.setHours(0, 0, 0, 0);
+    monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+    return `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
   }
 
   /**
@@ -395,17 +473,14 @@ class PMSchedulerEnhanced {
         );
 
         for (const recipient of recipients) {
-          // Create notification record (notification engine removed)
-          await storage.createNotification({
+          // Missed PMs are urgent, so they may break through quiet hours
+          await notificationService.sendNotification({
             userId: recipient.id,
-            type: 'pm_escalation',
+            type: 'pm_due',
             title: `PM Escalation - Level ${level}`,
             message: `Equipment ${equipment?.assetTag} has ${complianceStatus.missedPMCount} missed PM(s). Compliance: ${complianceStatus.compliancePercentage}%`,
-            relatedEntityId: equipmentId,
-            relatedEntityType: 'equipment',
-            priority: 'high',
-            warehouseId: config.warehouseId,
-          });
+            equipmentId,
+          }, { urgent: true });
         }
       }
     }
@@ -1,10 +1,13 @@
-import { pmEngine } from "./pm-engine";
-import { storage } from "../storage";
+import { backgroundJobScheduler } from "./background-jobs";
 
+const PM_GENERATION_JOB = 'pm-generation';
+
+/**
+ * Controls for PM automation. PMs are generated only by the queued pm_generation job, which runs
+ * under a cluster lock, so these turn that job on and off rather than running a timer of their own.
+ */
 export class PMScheduler {
   private static instance: PMScheduler;
-  private intervalId: NodeJS.Timeout | null = null;
-  private isRunning = false;
 
   private constructor() {}
 
@@ -16,96 +19,40 @@ export class PMScheduler {
   }
 
   /**
-   * Start the PM automation scheduler
-   * Runs every hour to check for due PMs
+   * Enable the PM generation job on every replica
    */
-  public start(): void {
-    if (this.isRunning) {
-      console.log('PM Scheduler is already running');
-      return;
-    }
-
-    console.log('Starting PM Scheduler...');
-    this.isRunning = true;
-
-    // Run immediately on start
-    this.runScheduledCheck();
-
-    // Then run every hour
-    this.intervalId = setInterval(() => {
-      this.runScheduledCheck();
-    }, 60 * 60 * 1000); // 1 hour
+  public async start(): Promise<void> {
+    await backgroundJobScheduler.setJobEnabled(PM_GENERATION_JOB, true);
   }
 
   /**
-   * Stop the PM automation scheduler
+   * Disable the PM generation job on every replica
    */
-  public stop(): void {
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
-    this.isRunning = false;
-    console.log('PM Scheduler stopped');
-  }
-
-  /**
-   * Run the scheduled PM check for all warehouses
-   */
-  private async runScheduledCheck(): Promise<void> {
-    try {
-      console.log('Running scheduled PM check...');
-      
-      const warehouses = await storage.getWarehouses();
-      
-      for (const warehouse of warehouses) {
-        if (warehouse.active) {
-          console.log(`Running PM automation for warehouse: ${warehouse.name}`);
-          const result = await pmEngine.runPMAutomation(warehouse.id);
-          
-          if (result.generated > 0) {
-            console.log(`Generated ${result.generated} PM work orders for warehouse ${warehouse.name}`);
-          }
-          
-          if (result.errors.length > 0) {
-            console.error(`PM automation errors for warehouse ${warehouse.name}:`, result.errors);
-          }
-        }
-      }
-      
-      console.log('Scheduled PM check completed');
-    } catch (error) {
-      console.error('Error in scheduled PM check:', error);
-    }
+  public async stop(): Promise<void> {
+    await backgroundJobScheduler.setJobEnabled(PM_GENERATION_JOB, false);
   }
 
   /**
    * Run PM check for a specific warehouse
    */
-  public async runForWarehouse(warehouseId: string): Promise<void> {
-    try {
-      console.log(`Running PM check for warehouse: ${warehouseId}`);
-      const result = await pmEngine.runPMAutomation(warehouseId);
-      
-      if (result.generated > 0) {
-        console.log(`Generated ${result.generated} PM work orders`);
-      }
-      
-      if (result.errors.length > 0) {
-        console.error('PM automation errors:', result.errors);
-      }
-    } catch (error) {
-      console.error('Error in warehouse PM check:', error);
+  public async runForWarehouse(warehouseId: string): Promise<{ acquired: boolean; generated: number }> {
+    const { acquired, workOrders } = await backgroundJobScheduler.generatePMs(warehouseId);
+    if (!acquired) {
+      console.log('PM generation is already running on another instance, skipping');
+    } else if (workOrders.length > 0) {
+      console.log(`Generated ${workOrders.length} PM work orders`);
     }
+    return { acquired, generated: workOrders.length };
   }
 
   /**
    * Get scheduler status
    */
-  public getStatus(): { isRunning: boolean; nextRun?: Date } {
+  public async getStatus(): Promise<{ isRunning: boolean; nextRun?: Date }> {
+    const job = (await backgroundJobScheduler.getJobStatus()).find(j => j.id === PM_GENERATION_JOB);
     return {
-      isRunning: this.isRunning,
-      nextRun: this.isRunning ? new Date(Date.now() + 60 * 60 * 1000) : undefined
+      isRunning: !!job?.enabled,
+      nextRun: job?.enabled ? job.nextRun : undefined,
     };
   }
 }
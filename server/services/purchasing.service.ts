@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import { Part, PurchaseOrder, PurchaseOrderLine, PurchaseOrderReceipt, PurchaseRequisition } from "@shared/schema";
+import { storage } from "../storage";
+import { webhookService, WebhookEvents } from "./webhook.service";
+import { inventoryLedgerService } from "./inventory-ledger.service";
+import { notificationService } from "./notification.service";
+
+export type PurchaseOrderStatus = PurchaseOrder['status'];
+
+export class PurchasingError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'PurchasingError';
+  }
+}
+
+export interface PurchaseOrderDetail extends PurchaseOrder {
+  lines: (PurchaseOrderLine & { part?: Part })[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+export interface ReceiptLineInput {
+  lineId: string;
+  quantity: number;
+  rejectedQuantity?: number; // refused at receipt; stays outstanding on the line
+}
+
+// Statuses a PO may move to from each status
+const PO_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['pending_approval', 'cancelled'],
+  pending_approval: ['approved', 'rejected', 'cancelled'],
+  approved: ['ordered', 'cancelled'],
+  ordered: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['partially_received', 'received'],
+  received: [],
+  rejected: [],
+  cancelled: [],
+};
+
+// POs that still count towards stock on order
+const OPEN_PO_STATUSES: PurchaseOrderStatus[] = ['draft', 'pending_approval', 'approved', 'ordered', 'partially_received'];
+
+const LOW_STOCK_RECIPIENT_ROLES = ['inventory_clerk', 'manager'];
+
+class PurchasingService {
+  private static instance: PurchasingService;
+
+  private constructor() {}
+
+  public static getInstance(): PurchasingService {
+    if (!PurchasingService.instance) {
+      PurchasingService.instance = new PurchasingService();
+    }
+    return PurchasingService.instance;
+  }
+
+  /**
+   * Raise a requisition for a part at or below its reorder point and add it to the vendor's draft PO
+   */
+  public async handleLowStock(part: Part, requestedBy?: string): Promise<PurchaseRequisition | null> {
+    if ((part.stockLevel ?? 0) > (part.reorderPoint ?? 0)) {
+      return null;
+    }
+
+    await this.notifyLowStock(part);
+
+    const onOrder = await this.getQuantityOnOrder(part);
+    const quantity = this.getReorderQuantity(part) - onOrder;
+    if (quantity <= 0) {
+      return null;
+    }
+
+    const requisition = await storage.createPurchaseRequisition({
+      partId: part.id,
+      quantity,
+      reason: 'low_stock',
+      status: 'open',
+      purchaseOrderId: null,
+      requestedBy: requestedBy || null,
+      notes: `Stock ${part.stockLevel} at or below reorder point ${part.reorderPoint}`,
+      warehouseId: part.warehouseId,
+    });
+
+    await this.draftPurchaseOrders(part.warehouseId, requestedBy);
+    return (await storage.getPurchaseRequisition(requisition.id)) || requisition;
+  }
+
+  /**
+   * Quantity needed to bring a part back up to maxStock (twice the reorder point when no max is set)
+   */
+  public getReorderQuantity(part: Part): number {
+    const target = part.maxStock ?? Math.max((part.reorderPoint ?? 0) * 2, 1);
+    return Math.max(target - (part.stockLevel ?? 0), 0);
+  }
+
+  /**
+   * Outstanding quantity on open requisitions and open purchase orders for a part
+   */
+  public async getQuantityOnOrder(part: Part): Promise<number> {
+    const openRequisitions = await storage.getPurchaseRequisitions(part.warehouseId, { partId: part.id, status: 'open' });
+    let onOrder = openRequisitions.reduce((sum, r) => sum + r.quantity, 0);
+
+    const orders = await storage.getPurchaseOrders(part.warehouseId);
+    for (const order of orders.filter(po => OPEN_PO_STATUSES.includes(po.status))) {
+      const lines = await storage.getPurchaseOrderLines(order.id);
+      onOrder += lines
+        .filter(line => line.partId === part.id)
+        .reduce((sum, line) => sum + line.quantityOrdered - (line.quantityReceived ?? 0), 0);
+    }
+    return onOrder;
+  }
+
+  /**
+   * Group open requisitions by vendor onto draft purchase orders, creating a PO per vendor when needed
+   */
+  public async draftPurchaseOrders(warehouseId: string, createdBy?: string): Promise<PurchaseOrder[]> {
+    const requisitions = await storage.getPurchaseRequisitions(warehouseId, { status: 'open' });
+    if (requisitions.length === 0) {
+      return [];
+    }
+
+    const vendors = await storage.getVendors(warehouseId);
+    const drafts = await storage.getPurchaseOrders(warehouseId, 'draft');
+    const touched = new Map<string, PurchaseOrder>();
+    const created: PurchaseOrder[] = [];
+
+    for (const requisition of requisitions) {
+      const part = await storage.getPart(requisition.partId);
+      if (!part) continue;
+
+      const vendorName = part.vendor || 'Unassigned vendor';
+      const vendor = vendors.find(v => v.name.toLowerCase() === vendorName.toLowerCase());
+      let order = Array.from(touched.values()).concat(drafts).find(po =>
+        vendor ? po.vendorId === vendor.id : !po.vendorId && po.vendorName === vendorName
+      );
+
+      if (!order) {
+        order = await storage.createPurchaseOrder({
+          poNumber: this.generatePoNumber(),
+          vendorId: vendor?.id || null,
+          vendorName: vendor?.name || vendorName,
+          status: 'draft',
+          totalCost: '0',
+          notes: null,
+          createdBy: createdBy || null,
+          submittedAt: null,
+          approvedBy: null,
+          approvedAt: null,
+          rejectionReason: null,
+          orderedAt: null,
+          expectedDate: null,
+          receivedAt: null,
+          warehouseId,
+        });
+        created.push(order);
+      }
+
+      await storage.createPurchaseOrderLine({
+        purchaseOrderId: order.id,
+        partId: part.id,
+        requisitionId: requisition.id,
+        quantityOrdered: requisition.quantity,
+        quantityReceived: 0,
+        unitCost: part.unitCost,
+      });
+      await storage.updatePurchaseRequisition(requisition.id, { status: 'ordered', purchaseOrderId: order.id });
+      touched.set(order.id, order);
+    }
+
+    for (const order of touched.values()) {
+      touched.set(order.id, await this.recalculateTotal(order.id));
+    }
+
+    for (const order of created) {
+      await this.emitReorderEvent(touched.get(order.id) || order);
+    }
+
+    return Array.from(touched.values());
+  }
+
+  public async getPurchaseOrderDetail(id: string): Promise<PurchaseOrderDetail | undefined> {
+    const order = await storage.getPurchaseOrder(id);
+    if (!order) return undefined;
+
+    const lines = await storage.getPurchaseOrderLines(id);
+    const receipts = await storage.getPurchaseOrderReceipts(id);
+    const linesWithParts = await Promise.all(lines.map(async line => ({ ...line, part: await storage.getPart(line.partId) })));
+    return { ...order, lines: linesWithParts, receipts };
+  }
+
+  public async submitForApproval(id: string): Promise<PurchaseOrder> {
+    const order = await this.requireOrder(id);
+    const lines = await storage.getPurchaseOrderLines(id);
+    if (lines.length === 0) {
+      throw new PurchasingError('Cannot submit a purchase order without lines');
+    }
+    return this.moveTo(order, 'pending_approval', { submittedAt: new Date() });
+  }
+
+  public async approve(id: string, approvedBy: string): Promise<PurchaseOrder> {
+    const order = await this.requireOrder(id);
+    return this.moveTo(order, 'approved', { approvedBy, approvedAt: new Date() });
+  }
+
+  /**
+   * Reject a PO; its requisitions are reopened so they can be drafted again
+   */
+  public async reject(id: string, rejectedBy: string, reason: string): Promise<PurchaseOrder> {
+    const order = await this.requireOrder(id);
+    const rejected = await this.moveTo(order, 'rejected', { approvedBy: rejectedBy, rejectionReason: reason });
+    await this.releaseRequisitions(id, 'open');
+    return rejected;
+  }
+
+  public async markOrdered(id: string, expectedDate?: Date): Promise<PurchaseOrder> {
+    const order = await this.requireOrder(id);
+    return this.moveTo(order, 'ordered', { orderedAt: new Date(), expectedDate: expectedDate || null });
+  }
+
+  public async cancel(id: string): Promise<PurchaseOrder> {
+    const order = await this.requireOrder(id);
+    const cancelled = await this.moveTo(order, 'cancelled', {});
+    await this.releaseRequisitions(id, 'cancelled');
+    return cancelled;
+  }
+
+  /**
+   * Receive some or all of the outstanding quantity on PO lines and add it to stock. Rejected items are logged against the supplier but not stocked.
+   */
+  public async receive(id: string, receipts: ReceiptLineInput[], receivedBy?: string, notes?: string): Promise<PurchaseOrderDetail> {
+    const order = await this.requireOrder(id);
+    if (order.status !== 'ordered' && order.status !== 'partially_received') {
+      throw new PurchasingError(`Cannot receive against a purchase order that is ${order.status}`, 409);
+    }
+
+    const lines = await storage.getPurchaseOrderLines(id);
+    // A line may appear more than once (e.g. split across pallets), so check the total against what is outstanding
+    const receivingByLine = new Map<string, number>();
+    for (const receipt of receipts) {
+      const line = lines.find(l => l.id === receipt.lineId);
+      if (!line) {
+        throw new PurchasingError(`Line ${receipt.lineId} is not on this purchase order`);
+      }
+      if (receipt.quantity + (receipt.rejectedQuantity ?? 0) <= 0) {
+        throw new PurchasingError('Each receipt line needs a received or rejected quantity');
+      }
+      receivingByLine.set(line.id, (receivingByLine.get(line.id) ?? 0) + receipt.quantity);
+    }
+    for (const [lineId, quantity] of receivingByLine) {
+      const line = lines.find(l => l.id === lineId)!;
+      const outstanding = line.quantityOrdered - (line.quantityReceived ?? 0);
+      if (quantity > outstanding) {
+        throw new PurchasingError(`Cannot receive ${quantity} on a line with ${outstanding} outstanding`);
+      }
+    }
+
+    for (const receipt of receipts) {
+      const line = lines.find(l => l.id === receipt.lineId)!;
+      const part = await storage.getPart(line.partId);
+      if (!part) {
+        throw new PurchasingError(`Part ${line.partId} not found`, 404);
+      }
+
+      const created = await storage.createPurchaseOrderReceipt({
+        purchaseOrderId: id,
+        lineId: line.id,
+        partId: line.partId,
+        quantity: receipt.quantity,
+        rejectedQuantity: receipt.rejectedQuantity ?? 0,
+        receivedBy: receivedBy || null,
+        notes: notes || null,
+      });
+      line.quantityReceived = (line.quantityReceived ?? 0) + receipt.quantity;
+      await storage.updatePurchaseOrderLine(line.id, { quantityReceived: line.quantityReceived });
+      if (receipt.quantity > 0) {
+        await inventoryLedgerService.recordTransaction({
+          partId: part.id,
+          type: 'receipt',
+          quantity: receipt.quantity,
+          purchaseOrderId: id,
+          referenceId: created.id,
+          reason: `Received on ${order.poNumber}`,
+          performedBy: receivedBy,
+        });
+      }
+    }
+
+    const fullyReceived = lines.every(line => (line.quantityReceived ?? 0) >= line.quantityOrdered);
+    await this.moveTo(order, fullyReceived ? 'received' : 'partially_received', fullyReceived ? { receivedAt: new Date() } : {});
+    return (await this.getPurchaseOrderDetail(id))!;
+  }
+
+  private async requireOrder(id: string): Promise<PurchaseOrder> {
+    const order = await storage.getPurchaseOrder(id);
+    if (!order) {
+      throw new PurchasingError('Purchase order not found', 404);
+    }
+    return order;
+  }
+
+  private async moveTo(order: PurchaseOrder, status: PurchaseOrderStatus, changes: Partial<PurchaseOrder>): Promise<PurchaseOrder> {
+    if (!PO_TRANSITIONS[order.status].includes(status)) {
+      throw new PurchasingError(`Cannot move purchase order from ${order.status} to ${status}`, 409);
+    }
+    return storage.updatePurchaseOrder(order.id, { ...changes, status });
+  }
+
+  private async releaseRequisitions(purchaseOrderId: string, status: 'open' | 'cancelled'): Promise<void> {
+    const lines = await storage.getPurchaseOrderLines(purchaseOrderId);
+    for (const line of lines.filter(l => l.requisitionId)) {
+      await storage.updatePurchaseRequisition(line.requisitionId!, {
+        status,
+        purchaseOrderId: status === 'open' ? null : purchaseOrderId,
+      });
+    }
+  }
+
+  private async recalculateTotal(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const lines = await storage.getPurchaseOrderLines(purchaseOrderId);
+    const total = lines.reduce((sum, line) => sum + line.quantityOrdered * parseFloat(line.unitCost || '0'), 0);
+    return storage.updatePurchaseOrder(purchaseOrderId, { totalCost: total.toFixed(2) });
+  }
+
+  private async notifyLowStock(part: Part): Promise<void> {
+    const profiles = await storage.getProfiles();
+    const recipients = profiles.filter(p =>
+      p.warehouseId === part.warehouseId &&
+      p.active !== false &&
+      LOW_STOCK_RECIPIENT_ROLES.includes(p.role)
+    );
+
+    for (const recipient of recipients) {
+      await notificationService.sendNotification({
+        userId: recipient.id,
+        type: 'part_low_stock',
+        title: 'Low Stock Alert',
+        message: `Part ${part.partNumber} is below reorder point (${part.stockLevel}/${part.reorderPoint})`,
+        partId: part.id,
+        read: false,
+      });
+    }
+  }
+
+  private async emitReorderEvent(order: PurchaseOrder): Promise<void> {
+    const lines = await storage.getPurchaseOrderLines(order.id);
+    await webhookService.emitEvent({
+      id: crypto.randomUUID(),
+      event: WebhookEvents.INVENTORY_REORDER,
+      entity: 'purchase_order',
+      entityId: order.id,
+      data: {
+        purchaseOrder: order,
+        lines,
+        timestamp: new Date().toISOString()
+      },
+      timestamp: new Date(),
+      warehouseId: order.warehouseId
+    });
+  }
+
+  private generatePoNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `PO-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+}
+
+export const purchasingService = PurchasingService.getInstance();
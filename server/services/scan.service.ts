@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import type { Equipment, LaborTime, Location, Part, WorkOrder } from "@shared/schema";
+import { storage } from "../storage";
+import { getSigningSecret } from "./auth/signing-secret";
+
+export class ScanError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'ScanError';
+  }
+}
+
+export const LABEL_KINDS = ['asset', 'part', 'location'] as const;
+export type LabelKind = typeof LABEL_KINDS[number];
+
+// What a printed label says, beside the code itself
+export interface Label {
+  kind: LabelKind;
+  id: string;
+  payload: string; // the signed text to encode
+  title: string;
+  subtitle: string | null;
+}
+
+export type ScanResult =
+  | { kind: 'asset'; equipment: Equipment; openWorkOrders: WorkOrder[]; activeTimer: LaborTime | null }
+  | { kind: 'part'; part: Part; activeWorkOrder: WorkOrder | null }
+  | { kind: 'location'; location: Location };
+
+const LABEL_SECRET = getSigningSecret('LABEL_SECRET');
+
+// mnt:<kind>:<id>:<signature>
+const PAYLOAD_PREFIX = 'mnt';
+const SIGNATURE_LENGTH = 16; // hex characters; short enough to keep the QR code small
+
+const OPEN_STATUSES: WorkOrder['status'][] = ['new', 'assigned', 'in_progress'];
+
+export class ScanService {
+  private static instance: ScanService;
+
+  private constructor() {}
+
+  public static getInstance(): ScanService {
+    if (!ScanService.instance) {
+      ScanService.instance = new ScanService();
+    }
+    return ScanService.instance;
+  }
+
+  // Payloads
+
+  private sign(kind: LabelKind, id: string): string {
+    return crypto.createHmac('sha256', LABEL_SECRET).update(`${kind}:${id}`).digest('hex').slice(0, SIGNATURE_LENGTH);
+  }
+
+  public encode(kind: LabelKind, id: string): string {
+    return `${PAYLOAD_PREFIX}:${kind}:${id}:${this.sign(kind, id)}`;
+  }
+
+  /**
+   * Asset and location labels carry a request portal link so a phone camera can open it; the payload is its code
+   */
+  public portalLink(origin: string, payload: string): string {
+    return `${origin.replace(/\/$/, '')}/request?code=${payload}`;
+  }
+
+  private unwrapPortalLink(text: string): string {
+    if (!/^https?:\/\//i.test(text)) return text;
+    try {
+      return new URL(text).searchParams.get('code') ?? text;
+    } catch {
+      return text;
+    }
+  }
+
+  /**
+   * The kind and id a signed payload points at. Anything else is taken as a printed asset tag or part number.
+   */
+  public decode(raw: string): { kind: LabelKind; id: string } | { text: string } {
+    const text = this.unwrapPortalLink(raw.trim());
+    const [prefix, kind, id, signature, ...rest] = text.split(':');
+    if (prefix !== PAYLOAD_PREFIX || rest.length > 0) return { text };
+
+    if (!LABEL_KINDS.includes(kind as LabelKind) || !id || !signature) {
+      throw new ScanError('Unrecognised label');
+    }
+    const expected = Buffer.from(this.sign(kind as LabelKind, id));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      throw new ScanError('This label was not issued by this system');
+    }
+    return { kind: kind as LabelKind, id };
+  }
+
+  public async getLabel(kind: LabelKind, id: string, warehouseId: string): Promise<Label> {
+    const payload = this.encode(kind, id);
+    if (kind === 'asset') {
+      const asset = await storage.getEquipmentById(id);
+      if (!asset || asset.warehouseId !== warehouseId) throw new ScanError('Equipment not found', 404);
+      return { kind, id, payload, title: asset.assetTag, subtitle: asset.description || asset.model };
+    }
+    if (kind === 'part') {
+      const part = await storage.getPart(id);
+      if (!part || part.warehouseId !== warehouseId) throw new ScanError('Part not found', 404);
+      return { kind, id, payload, title: part.partNumber, subtitle: [part.description, part.location].filter(Boolean).join(' · ') };
+    }
+    const location = await storage.getLocation(id);
+    if (!location || location.warehouseId !== warehouseId) throw new ScanError('Location not found', 404);
+    return { kind, id, payload, title: location.code ?? location.name, subtitle: location.name };
+  }
+
+  // Scanning
+
+  /**
+   * The work order the technician is on right now: the one their running timer is booked to
+   */
+  private async activeWork(userId?: string): Promise<{ timer: LaborTime | null; workOrder: WorkOrder | null }> {
+    const timer = userId ? await storage.getActiveLaborTime(userId) : undefined;
+    const workOrder = timer ? await storage.getWorkOrder(timer.workOrderId) : undefined;
+    return { timer: timer ?? null, workOrder: workOrder ?? null };
+  }
+
+  private async resolveAsset(asset: Equipment | undefined, warehouseId: string, userId?: string): Promise<ScanResult> {
+    if (!asset || asset.warehouseId !== warehouseId) throw new ScanError('Equipment not found', 404);
+    const openWorkOrders = (await storage.getWorkOrders(warehouseId))
+      .filter(wo => wo.equipmentId === asset.id && OPEN_STATUSES.includes(wo.status));
+    const { timer } = await this.activeWork(userId);
+    return { kind: 'asset', equipment: asset, openWorkOrders, activeTimer: timer };
+  }
+
+  private async resolvePart(part: Part | undefined, warehouseId: string, userId?: string): Promise<ScanResult> {
+    if (!part || part.warehouseId !== warehouseId) throw new ScanError('Part not found', 404);
+    const { workOrder } = await this.activeWork(userId);
+    return { kind: 'part', part, activeWorkOrder: workOrder && OPEN_STATUSES.includes(workOrder.status) ? workOrder : null };
+  }
+
+  public async resolve(raw: string, warehouseId: string, userId?: string): Promise<ScanResult> {
+    const decoded = this.decode(raw);
+
+    if ('text' in decoded) {
+      // Labels printed before signing: asset tags first, then part numbers
+      const asset = await storage.getEquipmentByAssetTag(decoded.text);
+      if (asset && asset.warehouseId === warehouseId) return this.resolveAsset(asset, warehouseId, userId);
+      const part = await storage.getPartByNumber(decoded.text, warehouseId);
+      if (part) return this.resolvePart(part, warehouseId, userId);
+      throw new ScanError(`Nothing found for ${decoded.text}`, 404);
+    }
+
+    if (decoded.kind === 'asset') {
+      return this.resolveAsset(await storage.getEquipmentById(decoded.id), warehouseId, userId);
+    }
+    if (decoded.kind === 'part') {
+      return this.resolvePart(await storage.getPart(decoded.id), warehouseId, userId);
+    }
+    const location = await storage.getLocation(decoded.id);
+    if (!location || location.warehouseId !== warehouseId) throw new ScanError('Location not found', 404);
+    return { kind: 'location', location };
+  }
+}
+
+export const scanService = ScanService.getInstance();
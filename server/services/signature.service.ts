@@ -0,0 +1,374 @@
+import crypto from "crypto";
+import {
+  signOffSchema,
+  type SignatureKind,
+  type SignatureStroke,
+  type SignOffRequest,
+  type WorkOrder,
+  type WorkOrderSignature,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { AuthService } from "./auth/auth.service";
+import { getSigningSecret } from "./auth/signing-secret";
+import { workOrderLifecycle, type TransitionActor, type WorkOrderStatus } from "./work-order-lifecycle";
+import { PdfDocument } from "./pdf-document";
+
+export class SignatureError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+export interface SignatureContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SignatureCheck extends WorkOrderSignature {
+  modifiedAfterSigning: boolean; // the work order has changed since this signature was given
+  sealValid: boolean; // false if the signature record itself was altered
+}
+
+export interface WorkOrderSignatures {
+  currentHash: string;
+  modifiedAfterSigning: boolean;
+  signatures: SignatureCheck[];
+}
+
+export interface SignOffResult {
+  signature: SignatureCheck;
+  workOrder: WorkOrder;
+  transitioned: boolean;
+}
+
+const SIGNATURE_SECRET = getSigningSecret('SIGNATURE_SECRET');
+
+const STATEMENTS: Record<SignatureKind, string> = {
+  completion: 'I confirm that the work described in this work order has been carried out as recorded.',
+  verification: 'I have inspected the completed work and verify that it meets the required standard.',
+};
+
+// Signing moves the work order on from `from`; once it has moved on, further signatures are countersignatures
+const SIGN_OFF_FLOW: Record<SignatureKind, { from: WorkOrderStatus; to: WorkOrderStatus }> = {
+  completion: { from: 'in_progress', to: 'completed' },
+  verification: { from: 'completed', to: 'verified' },
+};
+
+const iso = (value: Date | string | null | undefined) => value ? new Date(value).toISOString() : null;
+const decimal = (value: string | number | null | undefined) => value === null || value === undefined ? null : Number(value);
+
+// JSON with sorted keys, so the same contents always hash the same
+const canonicalJson = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+const byId = <T extends { id: string }>(a: T, b: T) => a.id.localeCompare(b.id);
+
+export class SignatureService {
+  private static instance: SignatureService;
+
+  private constructor() {}
+
+  public static getInstance(): SignatureService {
+    if (!SignatureService.instance) {
+      SignatureService.instance = new SignatureService();
+    }
+    return SignatureService.instance;
+  }
+
+  /**
+   * What a signature attests to: the recorded work, checklist results, parts and labour, but not
+   * bookkeeping such as status, SLA clocks or row versions that change without anyone editing the job
+   */
+  public async getSignedContent(workOrder: WorkOrder): Promise<Record<string, unknown>> {
+    const [checklist, parts, labor] = await Promise.all([
+      storage.getChecklistItems(workOrder.id),
+      storage.getPartsUsage(workOrder.id),
+      storage.getLaborTime(workOrder.id),
+    ]);
+
+    return {
+      workOrder: {
+        id: workOrder.id,
+        foNumber: workOrder.foNumber,
+        type: workOrder.type,
+        description: workOrder.description,
+        area: workOrder.area ?? null,
+        assetModel: workOrder.assetModel ?? null,
+        priority: workOrder.priority,
+        requestedBy: workOrder.requestedBy,
+        assignedTo: workOrder.assignedTo ?? null,
+        equipmentId: workOrder.equipmentId ?? null,
+        dueDate: iso(workOrder.dueDate),
+        completedAt: iso(workOrder.completedAt),
+        estimatedHours: decimal(workOrder.estimatedHours),
+        actualHours: decimal(workOrder.actualHours),
+        notes: workOrder.notes ?? null,
+        vendorId: workOrder.vendorId ?? null,
+        vendorInvoicedCost: decimal(workOrder.vendorInvoicedCost),
+      },
+      checklist: [...checklist].sort(byId).map(item => ({
+        id: item.id,
+        component: item.component,
+        action: item.action,
+        status: item.status ?? null,
+        value: item.value ?? null,
+        notes: item.notes ?? null,
+      })),
+      parts: [...parts].sort(byId).map(usage => ({
+        id: usage.id,
+        partId: usage.partId,
+        quantityUsed: usage.quantityUsed,
+        unitCost: decimal(usage.unitCost),
+      })),
+      labor: [...labor].sort(byId).map(entry => ({
+        id: entry.id,
+        userId: entry.userId,
+        startTime: iso(entry.startTime),
+        endTime: iso(entry.endTime),
+        duration: entry.duration ?? null,
+        description: entry.description,
+      })),
+    };
+  }
+
+  /**
+   * SHA-256 of the signed content
+   */
+  public async hashContents(workOrder: WorkOrder): Promise<string> {
+    return sha256(canonicalJson(await this.getSignedContent(workOrder)));
+  }
+
+  private seal(signature: Omit<WorkOrderSignature, 'id' | 'seal'>): string {
+    // Every stored column, so a column added to the table without being sealed fails to compile
+    const sealed: Record<keyof Omit<WorkOrderSignature, 'id' | 'seal'>, unknown> = {
+      workOrderId: signature.workOrderId,
+      kind: signature.kind,
+      method: signature.method,
+      signerId: signature.signerId,
+      signerName: signature.signerName,
+      signerRole: signature.signerRole ?? null,
+      strokes: signature.strokes ?? null,
+      statement: signature.statement,
+      contentHash: signature.contentHash,
+      ipAddress: signature.ipAddress ?? null,
+      userAgent: signature.userAgent ?? null,
+      signedAt: iso(signature.signedAt),
+      warehouseId: signature.warehouseId,
+    };
+    return crypto.createHmac('sha256', SIGNATURE_SECRET).update(canonicalJson(sealed)).digest('hex');
+  }
+
+  private check(signature: WorkOrderSignature, currentHash: string): SignatureCheck {
+    const expected = Buffer.from(this.seal(signature));
+    const actual = Buffer.from(signature.seal);
+    return {
+      ...signature,
+      modifiedAfterSigning: signature.contentHash !== currentHash,
+      sealValid: expected.length === actual.length && crypto.timingSafeEqual(expected, actual),
+    };
+  }
+
+  /**
+   * Record a completion or verification sign-off. Signing an in-progress job completes it and signing
+   * a completed one verifies it, under the usual lifecycle rules; password and MFA sign-offs re-check
+   * the signer's identity first.
+   */
+  public async sign(
+    workOrderId: string,
+    request: SignOffRequest,
+    actor: TransitionActor,
+    context: SignatureContext = {},
+  ): Promise<SignOffResult> {
+    const input = signOffSchema.parse(request);
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new SignatureError('Work order not found', 404);
+    }
+
+    const flow = SIGN_OFF_FLOW[input.kind];
+    if (workOrder.status !== flow.from && workOrder.status !== flow.to) {
+      throw new SignatureError(
+        `A ${input.kind} sign-off can only be given while the work order is ${flow.from.replace('_', ' ')} or ${flow.to}`,
+        409,
+      );
+    }
+    if (workOrder.status === flow.to && !(await workOrderLifecycle.isAllowed(workOrder, actor, flow.from, flow.to))) {
+      throw new SignatureError(`Your role is not allowed to give a ${input.kind} sign-off`, 403);
+    }
+
+    if (input.kind === 'verification') {
+      const existing = await storage.getWorkOrderSignatures(workOrderId);
+      const completedBy = existing.filter(s => s.kind === 'completion').map(s => s.signerId);
+      if (actor.id === workOrder.assignedTo || completedBy.includes(actor.id)) {
+        throw new SignatureError('Verification must be signed by someone other than the technician who did the work', 409);
+      }
+    }
+
+    if (input.method !== 'drawn') {
+      const identity = await AuthService.confirmIdentity(actor.id, {
+        password: input.method === 'password' ? input.password : undefined,
+        mfaToken: input.method === 'mfa' ? input.mfaToken : undefined,
+      }, { ipAddress: context.ipAddress || '', userAgent: context.userAgent || '' });
+      if (!identity.success) {
+        throw new SignatureError(identity.error || 'Identity could not be confirmed', identity.accountLocked ? 429 : 401);
+      }
+    }
+
+    let signed = workOrder;
+    const transitioned = workOrder.status === flow.from;
+    if (transitioned) {
+      ({ workOrder: signed } = await workOrderLifecycle.transition(workOrderId, flow.to, actor, {
+        reason: input.notes || `Signed off (${input.kind})`,
+      }));
+    }
+
+    const profile = await storage.getProfile(actor.id);
+    const record: Omit<WorkOrderSignature, 'id' | 'seal'> = {
+      workOrderId,
+      kind: input.kind,
+      method: input.method,
+      signerId: actor.id,
+      signerName: profile ? `${profile.firstName} ${profile.lastName}`.trim() : actor.id,
+      signerRole: profile?.role ?? actor.role ?? null,
+      strokes: input.method === 'drawn' ? input.strokes as SignatureStroke[] : null,
+      statement: STATEMENTS[input.kind],
+      contentHash: await this.hashContents(signed),
+      ipAddress: context.ipAddress || null,
+      userAgent: context.userAgent || null,
+      signedAt: new Date(),
+      warehouseId: signed.warehouseId,
+    };
+    const signature = await storage.createWorkOrderSignature({ ...record, seal: this.seal(record) });
+
+    return { signature: this.check(signature, signature.contentHash), workOrder: signed, transitioned };
+  }
+
+  /**
+   * Signatures on a work order, each checked against the work order as it is now
+   */
+  public async getSignatures(workOrderId: string): Promise<WorkOrderSignatures> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new SignatureError('Work order not found', 404);
+    }
+    const currentHash = await this.hashContents(workOrder);
+    const signatures = (await storage.getWorkOrderSignatures(workOrderId)).map(s => this.check(s, currentHash));
+    return {
+      currentHash,
+      modifiedAfterSigning: signatures.some(s => s.modifiedAfterSigning),
+      signatures,
+    };
+  }
+
+  /**
+   * One-page PDF certificate for a signature, carrying the hashes needed to check it later
+   */
+  public async buildCertificate(workOrderId: string, signatureId: string): Promise<Buffer> {
+    const { currentHash, signatures } = await this.getSignatures(workOrderId);
+    const signature = signatures.find(s => s.id === signatureId);
+    if (!signature) {
+      throw new SignatureError('Signature not found', 404);
+    }
+    const workOrder = (await storage.getWorkOrder(workOrderId))!;
+    const equipment = workOrder.equipmentId ? await storage.getEquipmentById(workOrder.equipmentId) : undefined;
+
+    const pdf = new PdfDocument();
+    const left = 54;
+    const right = pdf.width - 54;
+    let y = 72;
+
+    pdf.text(left, y, 'Work Order Sign-off Certificate', { size: 20, font: 'bold' });
+    y += 18;
+    pdf.text(left, y, `${signature.kind === 'completion' ? 'Completion' : 'Verification'} signature`, { size: 11, color: [0.4, 0.4, 0.4] });
+    y += 14;
+    pdf.line(left, y, right, y, { width: 1.5 });
+    y += 24;
+
+    const field = (label: string, value: string) => {
+      pdf.text(left, y, label, { size: 9, font: 'bold', color: [0.4, 0.4, 0.4] });
+      for (const line of pdf.wrapText(value, right - left - 130, 10)) {
+        pdf.text(left + 130, y, line, { size: 10 });
+        y += 14;
+      }
+      y += 2;
+    };
+
+    field('Work order', workOrder.foNumber);
+    field('Description', workOrder.description);
+    if (equipment) field('Equipment', `${equipment.assetTag}${equipment.model ? ` (${equipment.model})` : ''}`);
+    if (workOrder.completedAt) field('Completed', new Date(workOrder.completedAt).toISOString());
+    y += 8;
+    field('Signed by', `${signature.signerName}${signature.signerRole ? `, ${signature.signerRole}` : ''}`);
+    field('Signed at', new Date(signature.signedAt).toISOString());
+    field('Method', {
+      drawn: 'Handwritten signature',
+      password: 'Password re-entered at signing',
+      mfa: 'Authenticator code entered at signing',
+    }[signature.method]);
+    if (signature.ipAddress) field('From', signature.ipAddress);
+    field('Statement', signature.statement);
+    y += 8;
+
+    // Signature box; drawn strokes are scaled into it, other methods get a typed attestation
+    const boxHeight = 90;
+    pdf.rect(left, y, right - left, boxHeight, { width: 0.75, color: [0.6, 0.6, 0.6] });
+    if (signature.strokes?.length) {
+      const boxWidth = right - left - 20;
+      for (const stroke of signature.strokes) {
+        pdf.polyline(stroke.map(([x, py]) => [left + 10 + x * boxWidth, y + 10 + py * (boxHeight - 20)] as [number, number]), { width: 1.5, color: [0.05, 0.1, 0.4] });
+      }
+    } else {
+      pdf.text(left + 12, y + boxHeight / 2 + 5, `Electronically signed by ${signature.signerName}`, { size: 14, font: 'bold', color: [0.05, 0.1, 0.4] });
+    }
+    y += boxHeight + 28;
+
+    pdf.text(left, y, 'Integrity', { size: 12, font: 'bold' });
+    y += 18;
+    const hash = (label: string, value: string) => {
+      pdf.text(left, y, label, { size: 9, font: 'bold', color: [0.4, 0.4, 0.4] });
+      pdf.text(left + 130, y, value.slice(0, 32), { size: 9, font: 'mono' });
+      pdf.text(left + 130, y + 11, value.slice(32), { size: 9, font: 'mono' });
+      y += 28;
+    };
+    hash('Contents at signing', signature.contentHash);
+    hash('Contents now', currentHash);
+    hash('Signature seal', signature.seal);
+
+    const [verdict, color]: [string, [number, number, number]] = !signature.sealValid
+      ? ['SIGNATURE RECORD ALTERED - the seal does not match the stored signature', [0.75, 0.1, 0.1]]
+      : signature.modifiedAfterSigning
+        ? ['MODIFIED AFTER SIGNING - the work order has changed since it was signed', [0.75, 0.1, 0.1]]
+        : ['Unchanged since signing', [0.1, 0.5, 0.2]];
+    pdf.rect(left, y - 4, right - left, 26, { fill: true, color: signature.sealValid && !signature.modifiedAfterSigning ? [0.9, 0.97, 0.9] : [0.99, 0.9, 0.9] });
+    pdf.text(left + 10, y + 13, verdict, { size: 11, font: 'bold', color });
+    y += 44;
+
+    for (const line of pdf.wrapText(
+      'Contents are hashed with SHA-256 over the work order details, checklist results, parts used and labour recorded. ' +
+      'Any later edit changes the hash. The seal is an HMAC over the signature record held by the issuing system.',
+      right - left, 8,
+    )) {
+      pdf.text(left, y, line, { size: 8, color: [0.4, 0.4, 0.4] });
+      y += 11;
+    }
+    pdf.text(left, pdf.height - 40, `Certificate generated ${new Date().toISOString()} - signature ${signature.id}`, { size: 8, color: [0.5, 0.5, 0.5] });
+
+    return pdf.toBuffer({
+      title: `Sign-off certificate ${workOrder.foNumber}`,
+      subject: `${signature.kind} signature by ${signature.signerName}`,
+      keywords: `content-sha256:${signature.contentHash} seal:${signature.seal}`,
+    });
+  }
+}
+
+export const signatureService = SignatureService.getInstance();
@@ -0,0 +1,637 @@
+import { z } from "zod";
+import {
+  SLA_HOLD_REASONS,
+  slaCalendarSchema,
+  insertSlaPolicySchema,
+  type InsertSlaCalendar,
+  type SlaHoldReason,
+  type SlaPolicy,
+  type WorkOrder,
+  type WorkOrderHold,
+} from "@shared/schema";
+import { storage } from "../storage";
+
+export class SlaError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SlaError';
+  }
+}
+
+type WorkOrderType = WorkOrder['type'];
+type Priority = WorkOrder['priority'];
+
+export interface ResolvedSlaCalendar extends InsertSlaCalendar {
+  isDefault: boolean; // derived from the warehouse's operating hours, nothing saved yet
+}
+
+export interface ResolvedSlaPolicy {
+  workOrderType: WorkOrderType;
+  priority: Priority;
+  responseMinutes: number;
+  resolutionMinutes: number;
+  businessHoursOnly: boolean;
+  atRiskPercent: number;
+  isDefault: boolean;
+}
+
+export type SlaClockState = 'on_track' | 'at_risk' | 'paused' | 'breached' | 'met';
+
+export interface SlaClock {
+  targetMinutes: number;
+  elapsedMinutes: number; // SLA clock time used so far, excluding time on hold
+  dueAt: Date | null; // null while paused
+  stoppedAt: Date | null;
+  breachedAt: Date | null;
+  state: SlaClockState;
+}
+
+export interface WorkOrderSla {
+  workOrderId: string;
+  policy: ResolvedSlaPolicy;
+  holdReason: SlaHoldReason | null;
+  response: SlaClock;
+  resolution: SlaClock;
+}
+
+export interface SlaBreach {
+  workOrder: WorkOrder;
+  clock: 'response' | 'resolution';
+  breachedAt: Date;
+}
+
+export interface SlaReportEntry {
+  workOrder: Pick<WorkOrder, 'id' | 'foNumber' | 'description' | 'type' | 'priority' | 'status' | 'assignedTo' | 'holdReason' | 'createdAt'>;
+  sla: WorkOrderSla;
+}
+
+export interface SlaReport {
+  warehouseId: string;
+  generatedAt: Date;
+  periodDays: number;
+  summary: {
+    open: number;
+    atRisk: number;
+    breached: number;
+    responseCompliance: number | null; // % of stopped response clocks that met their target
+    resolutionCompliance: number | null;
+  };
+  atRisk: SlaReportEntry[];
+  breached: SlaReportEntry[];
+}
+
+interface SlaContext {
+  calendar: ResolvedSlaCalendar;
+  policies: SlaPolicy[];
+}
+
+interface ClockTime {
+  between(from: Date, to: Date): number;
+  add(from: Date, minutes: number): Date;
+}
+
+export interface LocalDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_CALENDAR_DAYS = 3 * 366; // give up looking for working time after this
+const CLOSED_STATUSES: WorkOrder['status'][] = ['completed', 'verified', 'closed'];
+const WORK_ORDER_TYPES: WorkOrderType[] = ['corrective', 'preventive', 'emergency'];
+const PRIORITIES: Priority[] = ['critical', 'high', 'medium', 'low'];
+
+// Clock minutes; business minutes unless the policy runs around the clock
+const DEFAULT_TARGETS: Record<Priority, { responseMinutes: number; resolutionMinutes: number }> = {
+  critical: { responseMinutes: 60, resolutionMinutes: 8 * 60 },
+  high: { responseMinutes: 4 * 60, resolutionMinutes: 24 * 60 },
+  medium: { responseMinutes: 8 * 60, resolutionMinutes: 48 * 60 },
+  low: { responseMinutes: 24 * 60, resolutionMinutes: 120 * 60 },
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const localParts = (date: Date, timezone: string) => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// How far the timezone's wall clock is ahead of UTC at an instant
+const timezoneOffset = (instant: number, timezone: string) => {
+  const p = localParts(new Date(instant), timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+};
+
+export const localDay = (date: Date, timezone: string): LocalDay => {
+  const { year, month, day } = localParts(date, timezone);
+  return { year, month, day };
+};
+
+export const nextDay = (day: LocalDay): LocalDay => {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + 1));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+};
+
+export const dayKey = (day: LocalDay) =>
+  `${day.year}-${String(day.month).padStart(2, '0')}-${String(day.day).padStart(2, '0')}`;
+
+/**
+ * The instant a wall-clock time on a local day happens in the timezone
+ */
+export const zonedTime = (day: LocalDay, time: string, timezone: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(day.year, day.month - 1, day.day, hours, minutes);
+  const guess = wallClock - timezoneOffset(wallClock, timezone);
+  // Second pass puts times near a DST change on the right side of it
+  return wallClock - timezoneOffset(guess, timezone);
+};
+
+const workingWindows = (calendar: InsertSlaCalendar, day: LocalDay): [number, number][] => {
+  const key = dayKey(day);
+  if (calendar.holidays.some(h => h.date === key)) {
+    return [];
+  }
+  const dayOfWeek = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay();
+  return calendar.weeklySchedule
+    .filter(w => w.dayOfWeek === dayOfWeek)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map(w => [zonedTime(day, w.start, calendar.timezone), zonedTime(day, w.end, calendar.timezone)]);
+};
+
+/**
+ * Working minutes between two instants in the calendar
+ */
+export const businessMinutesBetween = (calendar: InsertSlaCalendar, from: Date, to: Date): number => {
+  const end = to.getTime();
+  if (end <= from.getTime()) {
+    return 0;
+  }
+  let total = 0;
+  let day = localDay(from, calendar.timezone);
+  for (let i = 0; i <= MAX_CALENDAR_DAYS; i++) {
+    if (zonedTime(day, '00:00', calendar.timezone) >= end) {
+      break;
+    }
+    for (const [windowStart, windowEnd] of workingWindows(calendar, day)) {
+      const start = Math.max(windowStart, from.getTime());
+      const stop = Math.min(windowEnd, end);
+      if (stop > start) {
+        total += stop - start;
+      }
+    }
+    day = nextDay(day);
+  }
+  return total / MINUTE_MS;
+};
+
+/**
+ * The instant a clock started at `from` has used up `minutes` of working time
+ */
+export const addBusinessMinutes = (calendar: InsertSlaCalendar, from: Date, minutes: number): Date => {
+  let remaining = minutes * MINUTE_MS;
+  let day = localDay(from, calendar.timezone);
+  for (let i = 0; i <= MAX_CALENDAR_DAYS; i++) {
+    for (const [windowStart, windowEnd] of workingWindows(calendar, day)) {
+      const start = Math.max(windowStart, from.getTime());
+      if (windowEnd <= start) {
+        continue;
+      }
+      if (remaining <= windowEnd - start) {
+        return new Date(start + remaining);
+      }
+      remaining -= windowEnd - start;
+    }
+    day = nextDay(day);
+  }
+  throw new SlaError('The SLA calendar has no working time in the next three years', 422);
+};
+
+const wallClock: ClockTime = {
+  between: (from, to) => Math.max(0, to.getTime() - from.getTime()) / MINUTE_MS,
+  add: (from, minutes) => new Date(from.getTime() + minutes * MINUTE_MS),
+};
+
+const businessClock = (calendar: InsertSlaCalendar): ClockTime => ({
+  between: (from, to) => businessMinutesBetween(calendar, from, to),
+  add: (from, minutes) => addBusinessMinutes(calendar, from, minutes),
+});
+
+/**
+ * Run a clock from `start` with the given pauses taken out, stopping at `stoppedAt` if set
+ */
+const measureClock = (
+  clock: ClockTime,
+  start: Date,
+  targetMinutes: number,
+  atRiskPercent: number,
+  stoppedAt: Date | null,
+  pauses: { start: Date; end: Date | null }[],
+  now: Date
+): SlaClock => {
+  // Running segments between the pauses; the last one is open-ended unless the clock is paused now
+  const segments: { from: Date; to: Date | null }[] = [];
+  let cursor: Date | null = start;
+  for (const pause of pauses) {
+    const pauseStart = pause.start > start ? pause.start : start;
+    if (pause.end && pause.end <= cursor) {
+      continue;
+    }
+    if (pauseStart > cursor) {
+      segments.push({ from: cursor, to: pauseStart });
+    }
+    if (!pause.end) {
+      cursor = null;
+      break;
+    }
+    cursor = pause.end;
+  }
+  if (cursor) {
+    segments.push({ from: cursor, to: null });
+  }
+
+  const until = stoppedAt ?? now;
+  let elapsedMinutes = 0;
+  let dueAt: Date | null = null;
+  let remaining = targetMinutes;
+  for (const segment of segments) {
+    if (segment.from < until) {
+      const segmentEnd = segment.to && segment.to < until ? segment.to : until;
+      elapsedMinutes += clock.between(segment.from, segmentEnd);
+    }
+    if (!dueAt) {
+      const available = segment.to ? clock.between(segment.from, segment.to) : Infinity;
+      if (remaining <= available) {
+        dueAt = clock.add(segment.from, remaining);
+      } else {
+        remaining -= available;
+      }
+    }
+  }
+
+  const paused = !stoppedAt && !cursor;
+  let state: SlaClockState;
+  if (dueAt && until > dueAt) {
+    state = 'breached';
+  } else if (stoppedAt) {
+    state = 'met';
+  } else if (paused) {
+    state = 'paused';
+  } else {
+    state = elapsedMinutes >= targetMinutes * atRiskPercent / 100 ? 'at_risk' : 'on_track';
+  }
+
+  return {
+    targetMinutes,
+    elapsedMinutes: Math.round(elapsedMinutes),
+    dueAt,
+    stoppedAt,
+    breachedAt: state === 'breached' ? dueAt : null,
+    state,
+  };
+};
+
+const sameInstant = (a: Date | null | undefined, b: Date | null) =>
+  (a ? new Date(a).getTime() : null) === (b ? b.getTime() : null);
+
+const compliance = (clocks: SlaClock[]): number | null => {
+  const stopped = clocks.filter(c => c.stoppedAt);
+  if (stopped.length === 0) {
+    return null;
+  }
+  const met = stopped.filter(c => c.state === 'met').length;
+  return Math.round((met / stopped.length) * 1000) / 10;
+};
+
+/**
+ * Response and resolution SLA clocks measured in each warehouse's business hours
+ */
+class SlaService {
+  private static instance: SlaService;
+
+  private constructor() {}
+
+  public static getInstance(): SlaService {
+    if (!SlaService.instance) {
+      SlaService.instance = new SlaService();
+    }
+    return SlaService.instance;
+  }
+
+  /**
+   * The warehouse's SLA calendar, or one built from its operating hours (Monday to Friday)
+   */
+  public async getCalendar(warehouseId: string): Promise<ResolvedSlaCalendar> {
+    const saved = await storage.getSlaCalendar(warehouseId);
+    if (saved) {
+      return {
+        timezone: saved.timezone,
+        weeklySchedule: saved.weeklySchedule,
+        holidays: saved.holidays || [],
+        pauseReasons: saved.pauseReasons || [],
+        isDefault: false,
+      };
+    }
+    const warehouse = await storage.getWarehouse(warehouseId);
+    const start = warehouse?.operatingHoursStart || '08:00';
+    const end = warehouse?.operatingHoursEnd || '17:00';
+    return {
+      timezone: warehouse?.timezone || 'UTC',
+      weeklySchedule: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, start, end })),
+      holidays: [],
+      pauseReasons: [...SLA_HOLD_REASONS],
+      isDefault: true,
+    };
+  }
+
+  public async updateCalendar(warehouseId: string, input: unknown, updatedBy?: string): Promise<ResolvedSlaCalendar> {
+    const calendar = slaCalendarSchema.parse(input);
+    await storage.upsertSlaCalendar(warehouseId, calendar, updatedBy);
+    return this.getCalendar(warehouseId);
+  }
+
+  /**
+   * Targets for every type and priority, with the built-in defaults filling any gaps
+   */
+  public async getPolicies(warehouseId: string): Promise<ResolvedSlaPolicy[]> {
+    const saved = await storage.getSlaPolicies(warehouseId);
+    return WORK_ORDER_TYPES.flatMap(type => PRIORITIES.map(priority => this.resolvePolicy(saved, type, priority)));
+  }
+
+  public async updatePolicies(warehouseId: string, input: unknown): Promise<ResolvedSlaPolicy[]> {
+    const policies = z.array(insertSlaPolicySchema).min(1).parse(input);
+    for (const policy of policies) {
+      await storage.upsertSlaPolicy(warehouseId, policy);
+    }
+    return this.getPolicies(warehouseId);
+  }
+
+  private resolvePolicy(saved: SlaPolicy[], workOrderType: WorkOrderType, priority: Priority): ResolvedSlaPolicy {
+    const policy = saved.find(p => p.workOrderType === workOrderType && p.priority === priority);
+    if (policy) {
+      return {
+        workOrderType,
+        priority,
+        responseMinutes: policy.responseMinutes,
+        resolutionMinutes: policy.resolutionMinutes,
+        businessHoursOnly: policy.businessHoursOnly ?? true,
+        atRiskPercent: policy.atRiskPercent ?? 75,
+        isDefault: false,
+      };
+    }
+    return {
+      workOrderType,
+      priority,
+      ...DEFAULT_TARGETS[priority],
+      // Emergencies are worked around the clock
+      businessHoursOnly: workOrderType !== 'emergency',
+      atRiskPercent: 75,
+      isDefault: true,
+    };
+  }
+
+  private async loadContext(warehouseId: string): Promise<SlaContext> {
+    const [calendar, policies] = await Promise.all([
+      this.getCalendar(warehouseId),
+      storage.getSlaPolicies(warehouseId),
+    ]);
+    return { calendar, policies };
+  }
+
+  /**
+   * Where a work order stands against its response and resolution targets
+   */
+  public async evaluate(workOrder: WorkOrder, now: Date = new Date(), context?: SlaContext): Promise<WorkOrderSla> {
+    const { calendar, policies } = context ?? await this.loadContext(workOrder.warehouseId);
+    const holds = await storage.getWorkOrderHolds(workOrder.id);
+    return this.measure(workOrder, calendar, this.resolvePolicy(policies, workOrder.type, workOrder.priority), holds, now);
+  }
+
+  /**
+   * Resolution-clock minutes since `from` (e.g. a missed due date), on the work order's own SLA clock
+   */
+  public async clockMinutesSince(
+    workOrder: WorkOrder,
+    from: Date,
+    now: Date = new Date(),
+    context?: SlaContext
+  ): Promise<{ minutes: number; paused: boolean }> {
+    const { calendar, policies } = context ?? await this.loadContext(workOrder.warehouseId);
+    const holds = await storage.getWorkOrderHolds(workOrder.id);
+    const policy = this.resolvePolicy(policies, workOrder.type, workOrder.priority);
+    const { resolution } = this.measure(workOrder, calendar, policy, holds, now, from);
+    return { minutes: from < now ? resolution.elapsedMinutes : 0, paused: resolution.state === 'paused' };
+  }
+
+  private measure(
+    workOrder: WorkOrder,
+    calendar: InsertSlaCalendar,
+    policy: ResolvedSlaPolicy,
+    holds: WorkOrderHold[],
+    now: Date,
+    resolutionStart?: Date
+  ): WorkOrderSla {
+    const clock = policy.businessHoursOnly ? businessClock(calendar) : wallClock;
+    const createdAt = new Date(workOrder.createdAt);
+    const closed = CLOSED_STATUSES.includes(workOrder.status);
+    const completedAt = workOrder.completedAt ? new Date(workOrder.completedAt) : closed ? new Date(workOrder.updatedAt) : null;
+    const respondedAt = workOrder.respondedAt ? new Date(workOrder.respondedAt) : completedAt;
+
+    // Only hold reasons the calendar lists stop the resolution clock
+    const pauses = holds
+      .filter(hold => calendar.pauseReasons.includes(hold.reason))
+      .map(hold => ({ start: new Date(hold.startedAt), end: hold.endedAt ? new Date(hold.endedAt) : null }))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return {
+      workOrderId: workOrder.id,
+      policy,
+      holdReason: workOrder.holdReason ?? null,
+      response: measureClock(clock, createdAt, policy.responseMinutes, policy.atRiskPercent, respondedAt, [], now),
+      resolution: measureClock(clock, resolutionStart ?? createdAt, policy.resolutionMinutes, policy.atRiskPercent, completedAt, pauses, now),
+    };
+  }
+
+  /**
+   * Store the current due times on the work order and stamp any breach the first time it happens
+   */
+  public async refresh(workOrder: WorkOrder, now: Date = new Date(), context?: SlaContext): Promise<{
+    workOrder: WorkOrder;
+    sla: WorkOrderSla;
+    breaches: SlaBreach[];
+  }> {
+    const sla = await this.evaluate(workOrder, now, context);
+    const updates: Partial<WorkOrder> = {};
+    const breaches: SlaBreach[] = [];
+
+    if (!sameInstant(workOrder.slaResponseDueAt, sla.response.dueAt)) {
+      updates.slaResponseDueAt = sla.response.dueAt;
+    }
+    if (!sameInstant(workOrder.slaResolutionDueAt, sla.resolution.dueAt)) {
+      updates.slaResolutionDueAt = sla.resolution.dueAt;
+    }
+    if (sla.response.breachedAt && !workOrder.slaResponseBreachedAt) {
+      updates.slaResponseBreachedAt = sla.response.breachedAt;
+      breaches.push({ workOrder, clock: 'response', breachedAt: sla.response.breachedAt });
+    }
+    if (sla.resolution.breachedAt && !workOrder.slaResolutionBreachedAt) {
+      updates.slaResolutionBreachedAt = sla.resolution.breachedAt;
+      breaches.push({ workOrder, clock: 'resolution', breachedAt: sla.resolution.breachedAt });
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return { workOrder, sla, breaches };
+    }
+    const updated = await storage.updateWorkOrder(workOrder.id, updates as any);
+    return { workOrder: updated, sla, breaches: breaches.map(b => ({ ...b, workOrder: updated })) };
+  }
+
+  /**
+   * Put a work order on hold, e.g. while it waits for parts
+   */
+  public async hold(workOrderId: string, reason: SlaHoldReason, userId?: string, notes?: string, now: Date = new Date()): Promise<WorkOrderSla> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new SlaError('Work order not found', 404);
+    }
+    if (!['assigned', 'in_progress'].includes(workOrder.status)) {
+      throw new SlaError('Only assigned or in-progress work orders can be put on hold', 409);
+    }
+    if (workOrder.holdReason) {
+      throw new SlaError('Work order is already on hold', 409);
+    }
+
+    await storage.createWorkOrderHold({
+      workOrderId,
+      reason,
+      notes: notes || null,
+      startedAt: now,
+      endedAt: null,
+      startedBy: userId || null,
+      endedBy: null,
+    });
+    const updated = await storage.updateWorkOrder(workOrderId, { holdReason: reason } as any);
+    return (await this.refresh(updated, now)).sla;
+  }
+
+  public async resume(workOrderId: string, userId?: string, now: Date = new Date()): Promise<WorkOrderSla> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new SlaError('Work order not found', 404);
+    }
+    if (!workOrder.holdReason) {
+      throw new SlaError('Work order is not on hold', 409);
+    }
+
+    await this.endOpenHolds(workOrderId, userId, now);
+    const updated = await storage.updateWorkOrder(workOrderId, { holdReason: null } as any);
+    return (await this.refresh(updated, now)).sla;
+  }
+
+  /**
+   * Called after a lifecycle transition: ends a hold the transition cleared and restamps the clocks
+   */
+  public async onTransition(workOrder: WorkOrder, userId?: string, now: Date = new Date()): Promise<WorkOrder> {
+    if (!workOrder.holdReason) {
+      await this.endOpenHolds(workOrder.id, userId, now);
+    }
+    return (await this.refresh(workOrder, now)).workOrder;
+  }
+
+  private async endOpenHolds(workOrderId: string, userId: string | undefined, now: Date): Promise<void> {
+    const holds = await storage.getWorkOrderHolds(workOrderId);
+    for (const hold of holds.filter(h => !h.endedAt)) {
+      await storage.updateWorkOrderHold(hold.id, { endedAt: now, endedBy: userId || null });
+    }
+  }
+
+  /**
+   * Restamp every open work order and return the clocks that breached since the last check
+   */
+  public async checkBreaches(now: Date = new Date()): Promise<SlaBreach[]> {
+    const breaches: SlaBreach[] = [];
+    for (const warehouse of await storage.getWarehouses()) {
+      const context = await this.loadContext(warehouse.id);
+      const workOrders = await storage.getWorkOrders(warehouse.id);
+      for (const workOrder of workOrders.filter(wo => !CLOSED_STATUSES.includes(wo.status))) {
+        const result = await this.refresh(workOrder, now, context);
+        breaches.push(...result.breaches);
+      }
+    }
+    return breaches;
+  }
+
+  /**
+   * Open work orders close to a target, and work orders that missed one during the period
+   */
+  public async getReport(warehouseId: string, periodDays: number = 30, now: Date = new Date()): Promise<SlaReport> {
+    const context = await this.loadContext(warehouseId);
+    const since = now.getTime() - periodDays * 24 * 60 * MINUTE_MS;
+    const workOrders = (await storage.getWorkOrders(warehouseId)).filter(wo =>
+      !CLOSED_STATUSES.includes(wo.status) ||
+      new Date(wo.completedAt ?? wo.updatedAt).getTime() >= since
+    );
+
+    const entries: SlaReportEntry[] = [];
+    for (const wo of workOrders) {
+      entries.push({
+        workOrder: {
+          id: wo.id,
+          foNumber: wo.foNumber,
+          description: wo.description,
+          type: wo.type,
+          priority: wo.priority,
+          status: wo.status,
+          assignedTo: wo.assignedTo,
+          holdReason: wo.holdReason,
+          createdAt: wo.createdAt,
+        },
+        sla: await this.evaluate(wo, now, context),
+      });
+    }
+
+    const isBreached = (e: SlaReportEntry) => e.sla.response.state === 'breached' || e.sla.resolution.state === 'breached';
+    const breached = entries
+      .filter(isBreached)
+      .sort((a, b) => this.firstBreach(a) - this.firstBreach(b));
+    const atRisk = entries
+      .filter(e => !isBreached(e) && (e.sla.response.state === 'at_risk' || e.sla.resolution.state === 'at_risk'))
+      .sort((a, b) => this.nextDue(a) - this.nextDue(b));
+
+    return {
+      warehouseId,
+      generatedAt: now,
+      periodDays,
+      summary: {
+        open: entries.filter(e => !CLOSED_STATUSES.includes(e.workOrder.status)).length,
+        atRisk: atRisk.length,
+        breached: breached.length,
+        responseCompliance: compliance(entries.map(e => e.sla.response)),
+        resolutionCompliance: compliance(entries.map(e => e.sla.resolution)),
+      },
+      atRisk,
+      breached,
+    };
+  }
+
+  private firstBreach(entry: SlaReportEntry): number {
+    const times = [entry.sla.response.breachedAt, entry.sla.resolution.breachedAt].filter(Boolean) as Date[];
+    return Math.min(...times.map(t => t.getTime()));
+  }
+
+  private nextDue(entry: SlaReportEntry): number {
+    const clocks = [entry.sla.response, entry.sla.resolution].filter(c => c.state === 'at_risk' && c.dueAt);
+    return Math.min(...clocks.map(c => c.dueAt!.getTime()));
+  }
+}
+
+export const slaService = SlaService.getInstance();
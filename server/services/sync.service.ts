@@ -0,0 +1,487 @@
+import { z } from "zod";
+import { insertLaborTimeSchema, type InsertLaborTime, type SyncMutation, type WorkOrder, type WorkOrderChecklistItem } from "@shared/schema";
+import { storage, StaleVersionError } from "../storage";
+import { inventoryLedgerService, InventoryError } from "./inventory-ledger.service";
+import { workOrderLifecycle, WorkOrderTransitionError } from "./work-order-lifecycle";
+import { checklistService, ChecklistError } from "./checklist.service";
+
+export const SYNC_ENTITIES = ['work_orders', 'work_order_checklist_items', 'parts_usage', 'labor_time'] as const;
+export type SyncEntity = typeof SYNC_ENTITIES[number];
+
+export class SyncError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+export const syncMutationSchema = z.object({
+  idempotencyKey: z.string().min(8).max(128),
+  entity: z.enum(SYNC_ENTITIES),
+  op: z.enum(['create', 'update', 'delete']),
+  entityId: z.string().min(1).optional(), // a temporary client id for creates
+  baseVersion: z.number().int().optional(),
+  base: z.record(z.any()).optional(), // field values the client saw when it made the change
+  changes: z.record(z.any()).default({}),
+  clientTimestamp: z.number().optional(),
+});
+
+export const syncBatchSchema = z.object({
+  mutations: z.array(syncMutationSchema).max(100),
+});
+
+export type SyncMutationInput = z.infer<typeof syncMutationSchema>;
+
+/**
+ * How a field is resolved when both the client and the server changed it since the client's base revision:
+ * client/server - that side wins; append - both texts are kept; max - the larger number wins;
+ * manual - the technician has to choose
+ */
+export type MergeRule = 'client' | 'server' | 'append' | 'max' | 'manual';
+
+interface FieldSpec {
+  rule: MergeRule;
+  type?: 'date' | 'number';
+}
+
+export interface SyncConflict {
+  field: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+}
+
+export interface SyncResult {
+  idempotencyKey: string;
+  status: SyncMutation['status'];
+  entity: SyncEntity;
+  entityId?: string;
+  clientEntityId?: string;
+  version?: number;
+  record?: Record<string, unknown>;
+  conflicts?: SyncConflict[];
+  error?: string;
+  replayed?: boolean;
+}
+
+export interface SyncContext {
+  userId: string;
+  warehouseId?: string;
+}
+
+// Only these fields can be changed from a device; anything else is rejected
+const FIELDS: Record<SyncEntity, Record<string, FieldSpec>> = {
+  work_orders: {
+    status: { rule: 'manual' },
+    description: { rule: 'manual' },
+    notes: { rule: 'append' },
+    actualHours: { rule: 'max', type: 'number' },
+    followUp: { rule: 'client' },
+    priority: { rule: 'server' },
+    assignedTo: { rule: 'server' },
+    dueDate: { rule: 'server', type: 'date' },
+  },
+  work_order_checklist_items: {
+    status: { rule: 'manual' },
+    notes: { rule: 'append' },
+    value: { rule: 'manual' }, // a typed reading; two different readings need a human to pick
+  },
+  parts_usage: {
+    notes: { rule: 'append' },
+  },
+  labor_time: {
+    endTime: { rule: 'manual', type: 'date' },
+    duration: { rule: 'max', type: 'number' },
+    description: { rule: 'append' },
+    isActive: { rule: 'server' },
+  },
+};
+
+const createSchemas = {
+  work_order_checklist_items: z.object({
+    workOrderId: z.string().min(1),
+    component: z.string().min(1),
+    action: z.string().min(1),
+    status: z.enum(['pending', 'done', 'skipped', 'issue']).default('pending'),
+    notes: z.string().nullable().optional(),
+    sortOrder: z.number().int().default(0),
+  }),
+  parts_usage: z.object({
+    workOrderId: z.string().min(1),
+    partId: z.string().min(1),
+    quantityUsed: z.number().int().positive(),
+    unitCost: z.union([z.string(), z.number()]).nullable().optional(),
+    notes: z.string().nullable().optional(),
+  }),
+};
+
+// Merges recomputed against a fresh copy when another write lands between the read and the save
+const MAX_MERGE_ATTEMPTS = 3;
+
+const normalize = (value: unknown, spec?: FieldSpec): unknown => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (spec?.type === 'date') {
+    const date = value instanceof Date ? value : new Date(value as string);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  if (spec?.type === 'number') {
+    const number = typeof value === 'number' ? value : parseFloat(String(value));
+    return isNaN(number) ? null : number;
+  }
+  return value;
+};
+
+const sameValue = (a: unknown, b: unknown, spec?: FieldSpec) => normalize(a, spec) === normalize(b, spec);
+
+/** Client text with the part it started from removed, so appending does not duplicate it */
+const addedText = (mine: string, base: string) => {
+  return base && mine.startsWith(base) ? mine.slice(base.length).trim() : mine.trim();
+};
+
+class SyncService {
+  private static instance: SyncService;
+
+  private constructor() {}
+
+  public static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  /**
+   * Apply a batch of queued device mutations in the order the device made them.
+   * Each mutation is applied at most once per idempotency key; a retried key gets its first result back.
+   * Temporary ids from creates earlier in the batch are swapped for the server ids.
+   */
+  public async processBatch(mutations: SyncMutationInput[], context: SyncContext): Promise<SyncResult[]> {
+    const idMap = new Map<string, string>();
+    const results: SyncResult[] = [];
+
+    for (const input of mutations) {
+      const mutation: SyncMutationInput = {
+        ...input,
+        entityId: input.entityId && idMap.has(input.entityId) ? idMap.get(input.entityId) : input.entityId,
+        changes: this.remapIds(input.changes || {}, idMap),
+      };
+      const result = await this.processMutation(mutation, context);
+      if (input.op === 'create' && input.entityId && result.entityId) {
+        idMap.set(input.entityId, result.entityId);
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  public async processMutation(mutation: SyncMutationInput, context: SyncContext): Promise<SyncResult> {
+    const previous = await storage.getSyncMutation(mutation.idempotencyKey);
+    if (previous) {
+      if (previous.userId !== context.userId) {
+        throw new SyncError('Idempotency key belongs to another user', 409);
+      }
+      return { ...(previous.result as SyncResult), replayed: true };
+    }
+
+    let result: SyncResult;
+    try {
+      switch (mutation.op) {
+        case 'create':
+          result = await this.applyCreate(mutation, context);
+          break;
+        case 'update':
+          result = await this.applyUpdate(mutation, context);
+          break;
+        default:
+          result = await this.applyDelete(mutation, context);
+      }
+    } catch (error) {
+      if (!(error instanceof SyncError || error instanceof WorkOrderTransitionError || error instanceof InventoryError || error instanceof ChecklistError || error instanceof z.ZodError)) {
+        throw error;
+      }
+      result = {
+        idempotencyKey: mutation.idempotencyKey,
+        status: 'rejected',
+        entity: mutation.entity,
+        entityId: mutation.entityId,
+        error: error instanceof z.ZodError ? error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ') : error.message,
+      };
+    }
+
+    try {
+      await storage.createSyncMutation({
+        idempotencyKey: mutation.idempotencyKey,
+        userId: context.userId,
+        entity: mutation.entity,
+        entityId: result.status === 'rejected' ? null : result.entityId ?? null,
+        op: mutation.op,
+        status: result.status,
+        result,
+      });
+    } catch (error) {
+      // A retry sent while the first attempt was still running recorded the key first; answer with its result
+      const winner = await storage.getSyncMutation(mutation.idempotencyKey);
+      if (!winner) {
+        throw error;
+      }
+      if (winner.userId !== context.userId) {
+        throw new SyncError('Idempotency key belongs to another user', 409);
+      }
+      return { ...(winner.result as SyncResult), replayed: true };
+    }
+    return result;
+  }
+
+  private async applyCreate(mutation: SyncMutationInput, context: SyncContext): Promise<SyncResult> {
+    const changes = mutation.changes || {};
+    let record: { id: string; version: number | null } & Record<string, any>;
+
+    switch (mutation.entity) {
+      case 'work_order_checklist_items': {
+        const data = createSchemas.work_order_checklist_items.parse(changes);
+        await this.getWorkOrder(data.workOrderId, context);
+        record = await storage.createWorkOrderChecklistItem({ ...data, notes: data.notes ?? null } as Omit<WorkOrderChecklistItem, 'id' | 'createdAt' | 'version'>);
+        break;
+      }
+      case 'parts_usage': {
+        const data = createSchemas.parts_usage.parse(changes);
+        await this.getWorkOrder(data.workOrderId, context);
+        const part = await storage.getPart(data.partId);
+        if (!part) {
+          throw new SyncError('Part not found', 404);
+        }
+        // Stock may have gone to someone else while the device was offline
+        const { available } = await inventoryLedgerService.getAvailability(part.id, data.workOrderId);
+        if (available < data.quantityUsed) {
+          throw new SyncError(`Only ${available} ${part.unitOfMeasure} of ${part.partNumber} available`, 409);
+        }
+        record = await storage.createPartsUsage({
+          workOrderId: data.workOrderId,
+          partId: data.partId,
+          quantityUsed: data.quantityUsed,
+          unitCost: data.unitCost != null ? String(data.unitCost) : part.unitCost,
+          usedBy: context.userId,
+          notes: data.notes ?? null,
+        });
+        await inventoryLedgerService.issueToWorkOrder(part.id, data.workOrderId, data.quantityUsed, context.userId);
+        break;
+      }
+      case 'labor_time': {
+        await this.getWorkOrder(String(changes.workOrderId ?? ''), context);
+        const data = insertLaborTimeSchema.parse({
+          ...this.coerce('labor_time', changes),
+          userId: context.userId,
+          startTime: changes.startTime ? new Date(changes.startTime) : undefined,
+        }) as InsertLaborTime;
+        record = await storage.createLaborTime(data);
+        break;
+      }
+      default:
+        throw new SyncError('Work orders must be created online');
+    }
+
+    return {
+      idempotencyKey: mutation.idempotencyKey,
+      status: 'applied',
+      entity: mutation.entity,
+      entityId: record.id,
+      clientEntityId: mutation.entityId,
+      version: record.version ?? 1,
+      record,
+    };
+  }
+
+  /**
+   * Field-by-field three-way merge against the client's base revision.
+   * Fields the server has not touched since then take the client's value; fields changed on both
+   * sides follow the field's merge rule. Mergeable fields are saved even when others conflict.
+   * The save only applies to the version the merge was made against; if the record moved on, it is merged again.
+   */
+  private async applyUpdate(mutation: SyncMutationInput, context: SyncContext, attempt = 1): Promise<SyncResult> {
+    const current = await this.getRecord(mutation.entity, mutation.entityId, context);
+    const fields = FIELDS[mutation.entity];
+    const changes = mutation.changes || {};
+    const base = mutation.base || {};
+
+    const unknown = Object.keys(changes).filter(field => !fields[field]);
+    if (unknown.length > 0) {
+      throw new SyncError(`Cannot sync ${unknown.join(', ')} on ${mutation.entity}`);
+    }
+
+    const stale = mutation.baseVersion === undefined || mutation.baseVersion !== (current.version ?? 1);
+    const updates: Record<string, unknown> = {};
+    const conflicts: SyncConflict[] = [];
+
+    for (const [field, mine] of Object.entries(changes)) {
+      const spec = fields[field];
+      const theirs = current[field];
+      if (sameValue(mine, theirs, spec)) {
+        continue;
+      }
+      if (!stale || (field in base && sameValue(base[field], theirs, spec))) {
+        updates[field] = mine;
+        continue;
+      }
+
+      switch (spec.rule) {
+        case 'client':
+          updates[field] = mine;
+          break;
+        case 'server':
+          break;
+        case 'append': {
+          const addition = addedText(String(mine ?? ''), String(base[field] ?? ''));
+          if (addition) {
+            updates[field] = theirs ? `${theirs}\n${addition}` : addition;
+          }
+          break;
+        }
+        case 'max': {
+          const mineNumber = normalize(mine, spec) as number | null;
+          const theirsNumber = normalize(theirs, spec) as number | null;
+          if (mineNumber !== null && (theirsNumber === null || mineNumber > theirsNumber)) {
+            updates[field] = mine;
+          }
+          break;
+        }
+        default:
+          conflicts.push({ field, base: base[field] ?? null, mine, theirs: theirs ?? null });
+      }
+    }
+
+    let record = current;
+    if (Object.keys(updates).length > 0) {
+      try {
+        record = await this.saveUpdate(mutation.entity, current, this.coerce(mutation.entity, updates), context);
+      } catch (error) {
+        if (!(error instanceof StaleVersionError)) {
+          throw error;
+        }
+        if (attempt >= MAX_MERGE_ATTEMPTS) {
+          throw new SyncError(`${mutation.entity} ${current.id} keeps changing on the server, try again`, 409);
+        }
+        return this.applyUpdate(mutation, context, attempt + 1);
+      }
+    }
+
+    return {
+      idempotencyKey: mutation.idempotencyKey,
+      status: conflicts.length > 0 ? 'conflict' : stale ? 'merged' : 'applied',
+      entity: mutation.entity,
+      entityId: record.id,
+      version: record.version ?? 1,
+      record,
+      ...(conflicts.length > 0 ? { conflicts } : {}),
+    };
+  }
+
+  private async applyDelete(mutation: SyncMutationInput, context: SyncContext): Promise<SyncResult> {
+    if (mutation.entity !== 'labor_time') {
+      throw new SyncError(`Cannot delete ${mutation.entity} from a device`);
+    }
+    const existing = mutation.entityId ? await storage.getLaborTimeById(mutation.entityId) : undefined;
+    const result: SyncResult = {
+      idempotencyKey: mutation.idempotencyKey,
+      status: 'applied',
+      entity: mutation.entity,
+      entityId: mutation.entityId,
+    };
+    if (!existing) {
+      return result; // already gone
+    }
+    await this.getWorkOrder(existing.workOrderId, context);
+    if (mutation.baseVersion !== undefined && mutation.baseVersion !== (existing.version ?? 1)) {
+      // Someone edited the entry since the device saw it; deleting would silently drop their change
+      return { ...result, status: 'conflict', version: existing.version ?? 1, record: existing, conflicts: [] };
+    }
+    await storage.deleteLaborTime(existing.id);
+    return result;
+  }
+
+  private async saveUpdate(
+    entity: SyncEntity,
+    current: Record<string, any>,
+    updates: Record<string, any>,
+    context: SyncContext,
+  ): Promise<Record<string, any>> {
+    const expectedVersion = current.version ?? 1;
+    switch (entity) {
+      case 'work_orders': {
+        // Status changes still go through the lifecycle guards
+        if (updates.status && updates.status !== current.status) {
+          const { status, ...changes } = updates;
+          const { workOrder } = await workOrderLifecycle.transition(current.id, status, {
+            id: context.userId,
+            warehouseId: context.warehouseId,
+          }, { reason: 'Synced from offline device', changes, expectedVersion });
+          return workOrder;
+        }
+        return storage.updateWorkOrder(current.id, updates, expectedVersion);
+      }
+      case 'work_order_checklist_items':
+        // Readings and failures go through the same limit checks and follow-up handling as online updates
+        if ('value' in updates || 'status' in updates) {
+          return checklistService.recordReading(current.id, updates, context.userId, new Date(), expectedVersion);
+        }
+        return storage.updateChecklistItem(current.id, updates, expectedVersion);
+      case 'parts_usage':
+        return storage.updatePartsUsage(current.id, updates, expectedVersion);
+      default:
+        return storage.updateLaborTime(current.id, updates, expectedVersion);
+    }
+  }
+
+  private async getRecord(entity: SyncEntity, id: string | undefined, context: SyncContext): Promise<Record<string, any>> {
+    if (!id) {
+      throw new SyncError('entityId is required');
+    }
+    let record: Record<string, any> | undefined;
+    switch (entity) {
+      case 'work_orders':
+        return this.getWorkOrder(id, context);
+      case 'work_order_checklist_items':
+        record = await storage.getChecklistItem(id);
+        break;
+      case 'parts_usage':
+        record = await storage.getPartsUsageById(id);
+        break;
+      default:
+        record = await storage.getLaborTimeById(id);
+    }
+    if (!record) {
+      throw new SyncError(`${entity} ${id} not found`, 404);
+    }
+    await this.getWorkOrder(record.workOrderId, context);
+    return record;
+  }
+
+  private async getWorkOrder(id: string, context: SyncContext): Promise<WorkOrder> {
+    const workOrder = await storage.getWorkOrder(id);
+    if (!workOrder || (context.warehouseId && workOrder.warehouseId !== context.warehouseId)) {
+      throw new SyncError('Work order not found', 404);
+    }
+    return workOrder;
+  }
+
+  /** JSON carries dates as strings; turn them back into Dates for storage */
+  private coerce(entity: SyncEntity, values: Record<string, any>): Record<string, any> {
+    const coerced = { ...values };
+    for (const [field, spec] of Object.entries(FIELDS[entity])) {
+      if (spec.type === 'date' && typeof coerced[field] === 'string') {
+        coerced[field] = new Date(coerced[field]);
+      }
+    }
+    return coerced;
+  }
+
+  private remapIds(changes: Record<string, any>, idMap: Map<string, string>): Record<string, any> {
+    if (changes.workOrderId && idMap.has(changes.workOrderId)) {
+      return { ...changes, workOrderId: idMap.get(changes.workOrderId) };
+    }
+    return changes;
+  }
+}
+
+export const syncService = SyncService.getInstance();
@@ -0,0 +1,206 @@
+import { Attachment, Vendor } from "@shared/schema";
+import { storage } from "../storage";
+import { notificationService } from "./notification.service";
+
+export type VendorDocumentType = NonNullable<Attachment['documentType']>;
+export type VendorDocumentStatus = 'active' | 'pending_renewal' | 'expired';
+export type VendorStatus = NonNullable<Vendor['status']>;
+
+export interface VendorDocument {
+  id: string;
+  vendorId: string;
+  vendorName?: string;
+  name: string;
+  type: VendorDocumentType;
+  fileUrl: string;
+  uploadedAt: Date | null;
+  expiryDate: Date | null;
+  daysUntilExpiry: number | null;
+  status: VendorDocumentStatus;
+}
+
+export interface VendorComplianceResult {
+  vendorId: string;
+  vendorName: string;
+  previousStatus: VendorStatus;
+  status: VendorStatus;
+  reasons: string[];
+}
+
+// Documents a vendor must keep current to stay active
+const REQUIRED_DOCUMENTS: Record<Vendor['type'], VendorDocumentType[]> = {
+  contractor: ['insurance', 'w9', 'contract'],
+  supplier: ['w9'],
+};
+
+const DOCUMENT_LABELS: Record<VendorDocumentType, string> = {
+  insurance: 'Insurance certificate',
+  w9: 'W-9',
+  contract: 'Contract',
+  certification: 'Certification',
+  sds: 'Safety data sheet',
+  other: 'Document',
+};
+
+const EXPIRY_WARNING_DAYS = 30;
+const ALERT_RECIPIENT_ROLES = ['manager', 'supervisor'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_RANK: Record<VendorStatus, number> = { active: 0, pending: 1, inactive: 2 };
+
+class VendorComplianceService {
+  private static instance: VendorComplianceService;
+
+  private constructor() {}
+
+  public static getInstance(): VendorComplianceService {
+    if (!VendorComplianceService.instance) {
+      VendorComplianceService.instance = new VendorComplianceService();
+    }
+    return VendorComplianceService.instance;
+  }
+
+  /**
+   * Vendor documents in the warehouse with their expiry status
+   */
+  public async getDocuments(
+    warehouseId: string,
+    filters: { vendorId?: string; type?: VendorDocumentType; status?: VendorDocumentStatus } = {},
+    now: Date = new Date(),
+  ): Promise<VendorDocument[]> {
+    const vendors = (await storage.getVendors(warehouseId)).filter(v => !filters.vendorId || v.id === filters.vendorId);
+    const documents: VendorDocument[] = [];
+    for (const vendor of vendors) {
+      const attachments = await storage.getAttachments(undefined, undefined, undefined, vendor.id);
+      documents.push(...attachments.map(a => this.toDocument(a, vendor, now)));
+    }
+    return documents
+      .filter(d => (!filters.type || d.type === filters.type) && (!filters.status || d.status === filters.status))
+      .sort((a, b) => (a.daysUntilExpiry ?? Infinity) - (b.daysUntilExpiry ?? Infinity));
+  }
+
+  public getDocumentStatus(expiryDate: Date | null, now: Date = new Date()): VendorDocumentStatus {
+    if (!expiryDate) {
+      return 'active';
+    }
+    const remaining = new Date(expiryDate).getTime() - now.getTime();
+    if (remaining < 0) {
+      return 'expired';
+    }
+    return remaining <= EXPIRY_WARNING_DAYS * DAY_MS ? 'pending_renewal' : 'active';
+  }
+
+  /**
+   * Work out a vendor's status from its required documents: an expired one makes it inactive,
+   * a missing or soon-expiring one makes it pending. Managers are alerted when the status changes.
+   * Vendors a manager has put on hold keep that status until a manager lifts it.
+   */
+  public async evaluateVendor(vendorId: string, now: Date = new Date()): Promise<VendorComplianceResult | null> {
+    const vendor = await storage.getVendor(vendorId);
+    if (!vendor || vendor.active === false || vendor.statusSource === 'manual') {
+      return null;
+    }
+
+    const attachments = await storage.getAttachments(undefined, undefined, undefined, vendor.id);
+    const reasons: string[] = [];
+    let status: VendorStatus = 'active';
+
+    for (const type of REQUIRED_DOCUMENTS[vendor.type] || []) {
+      // The latest-expiring copy of each document type is the one that counts
+      const current = attachments
+        .filter(a => a.documentType === type)
+        .sort((a, b) => this.expiryTime(b) - this.expiryTime(a))[0];
+      const label = DOCUMENT_LABELS[type];
+
+      let documentStatus: VendorStatus = 'active';
+      if (!current) {
+        documentStatus = 'pending';
+        reasons.push(`${label} missing`);
+      } else {
+        const expiry = this.getDocumentStatus(current.expiryDate, now);
+        if (expiry === 'expired') {
+          documentStatus = 'inactive';
+          reasons.push(`${label} expired ${this.formatDate(current.expiryDate!)}`);
+        } else if (expiry === 'pending_renewal') {
+          documentStatus = 'pending';
+          reasons.push(`${label} expires ${this.formatDate(current.expiryDate!)}`);
+        }
+      }
+      if (STATUS_RANK[documentStatus] > STATUS_RANK[status]) {
+        status = documentStatus;
+      }
+    }
+
+    const previousStatus: VendorStatus = vendor.status || 'active';
+    const statusReason = reasons.length > 0 ? reasons.join('; ') : null;
+    if (status !== previousStatus || statusReason !== (vendor.statusReason ?? null)) {
+      await storage.updateVendor(vendor.id, { status, statusReason, statusSource: 'compliance' });
+    }
+    if (status !== previousStatus && status !== 'active') {
+      await this.notifyStatusChange(vendor, status, reasons);
+    }
+
+    return { vendorId: vendor.id, vendorName: vendor.name, previousStatus, status, reasons };
+  }
+
+  /**
+   * Re-check every vendor's documents; run daily by the background job scheduler
+   */
+  public async checkDocumentExpiry(warehouseId?: string, now: Date = new Date()): Promise<VendorComplianceResult[]> {
+    const warehouseIds = warehouseId ? [warehouseId] : (await storage.getWarehouses()).map(w => w.id);
+    const results: VendorComplianceResult[] = [];
+    for (const id of warehouseIds) {
+      for (const vendor of await storage.getVendors(id)) {
+        const result = await this.evaluateVendor(vendor.id, now);
+        if (result) {
+          results.push(result);
+        }
+      }
+    }
+    return results;
+  }
+
+  private toDocument(attachment: Attachment, vendor: Vendor, now: Date): VendorDocument {
+    const expiryDate = attachment.expiryDate ? new Date(attachment.expiryDate) : null;
+    return {
+      id: attachment.id,
+      vendorId: vendor.id,
+      vendorName: vendor.name,
+      name: attachment.fileName,
+      type: attachment.documentType || 'other',
+      fileUrl: attachment.fileUrl,
+      uploadedAt: attachment.createdAt,
+      expiryDate,
+      daysUntilExpiry: expiryDate ? Math.ceil((expiryDate.getTime() - now.getTime()) / DAY_MS) : null,
+      status: this.getDocumentStatus(expiryDate, now),
+    };
+  }
+
+  private expiryTime(attachment: Attachment): number {
+    return attachment.expiryDate ? new Date(attachment.expiryDate).getTime() : Infinity;
+  }
+
+  private formatDate(date: Date): string {
+    return new Date(date).toISOString().slice(0, 10);
+  }
+
+  private async notifyStatusChange(vendor: Vendor, status: VendorStatus, reasons: string[]): Promise<void> {
+    const profiles = await storage.getProfiles();
+    const recipients = profiles.filter(p =>
+      p.warehouseId === vendor.warehouseId &&
+      p.active !== false &&
+      ALERT_RECIPIENT_ROLES.includes(p.role)
+    );
+
+    for (const recipient of recipients) {
+      await notificationService.sendNotification({
+        userId: recipient.id,
+        type: 'vendor_document_expiring',
+        title: status === 'inactive' ? 'Vendor Deactivated' : 'Vendor Documents Need Attention',
+        message: `${vendor.name} is now ${status}: ${reasons.join('; ')}`,
+      });
+    }
+  }
+}
+
+export const vendorComplianceService = VendorComplianceService.getInstance();
@@ -0,0 +1,184 @@
+import { PurchaseOrder, Vendor, WorkOrder } from "@shared/schema";
+import { storage } from "../storage";
+
+export interface VendorScorecard {
+  vendorId: string;
+  vendorName: string;
+  vendorType: Vendor['type'];
+  period: { from: Date; to: Date };
+  // Contractor work
+  workOrdersAssigned: number;
+  workOrdersCompleted: number;
+  averageCompletionTime: number | null; // hours from creation to completion
+  // Supplier deliveries
+  purchaseOrders: number;
+  deliveries: number;
+  unitsReceived: number;
+  unitsRejected: number;
+  // Scores; null when there is nothing to measure in the period
+  onTimeDelivery: number | null; // % of completions/deliveries by their due or expected date
+  qualityIssues: number;
+  qualityRating: number | null; // % of work or units without a quality issue
+  costVariance: number | null; // % over (+) or under (-) quoted/standard cost
+  overallScore: number | null;
+}
+
+// Supplier POs that never reached the vendor are not held against them
+const SCORED_PO_STATUSES: PurchaseOrder['status'][] = ['ordered', 'partially_received', 'received'];
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100) : null);
+
+class VendorPerformanceService {
+  private static instance: VendorPerformanceService;
+
+  private constructor() {}
+
+  public static getInstance(): VendorPerformanceService {
+    if (!VendorPerformanceService.instance) {
+      VendorPerformanceService.instance = new VendorPerformanceService();
+    }
+    return VendorPerformanceService.instance;
+  }
+
+  /**
+   * Scorecards for every vendor in the warehouse over the period (default: last 90 days)
+   */
+  public async getScorecards(warehouseId: string, from?: Date, to?: Date): Promise<VendorScorecard[]> {
+    const period = this.resolvePeriod(from, to);
+    const [vendors, workOrders, purchaseOrders] = await Promise.all([
+      storage.getVendors(warehouseId),
+      storage.getWorkOrders(warehouseId),
+      storage.getPurchaseOrders(warehouseId),
+    ]);
+
+    const inPeriod = (date: Date | null) => !!date && new Date(date) >= period.from && new Date(date) <= period.to;
+    const scorecards: VendorScorecard[] = [];
+    for (const vendor of vendors) {
+      scorecards.push(await this.buildScorecard(
+        vendor,
+        period,
+        workOrders.filter(wo => wo.vendorId === vendor.id && inPeriod(wo.createdAt)),
+        purchaseOrders.filter(po => po.vendorId === vendor.id && inPeriod(po.orderedAt) && SCORED_PO_STATUSES.includes(po.status)),
+      ));
+    }
+    return scorecards.sort((a, b) => (b.overallScore ?? -1) - (a.overallScore ?? -1));
+  }
+
+  private async buildScorecard(
+    vendor: Vendor,
+    period: { from: Date; to: Date },
+    workOrders: WorkOrder[],
+    purchaseOrders: PurchaseOrder[],
+  ): Promise<VendorScorecard> {
+    // Contractor work orders: on time against dueDate, reopened or flagged for follow-up counts as a quality issue
+    const completed = workOrders.filter(wo => wo.completedAt);
+    const withDueDate = completed.filter(wo => wo.dueDate);
+    const completedOnTime = withDueDate.filter(wo => new Date(wo.completedAt!) <= new Date(wo.dueDate!)).length;
+
+    let reworkedWorkOrders = 0;
+    for (const wo of completed) {
+      const history = await storage.getWorkOrderStatusHistory(wo.id);
+      const reopened = history.some(h => h.fromStatus === 'completed' && h.toStatus === 'in_progress');
+      if (reopened || wo.followUp) {
+        reworkedWorkOrders++;
+      }
+    }
+
+    const completionHours = completed.map(wo => (new Date(wo.completedAt!).getTime() - new Date(wo.createdAt!).getTime()) / 3600000);
+    const averageCompletionTime = completionHours.length > 0
+      ? round(completionHours.reduce((sum, h) => sum + h, 0) / completionHours.length)
+      : null;
+
+    const invoiced = workOrders.filter(wo => wo.vendorQuotedCost && wo.vendorInvoicedCost);
+    let quotedTotal = invoiced.reduce((sum, wo) => sum + parseFloat(wo.vendorQuotedCost!), 0);
+    let actualTotal = invoiced.reduce((sum, wo) => sum + parseFloat(wo.vendorInvoicedCost!), 0);
+
+    // Supplier deliveries: each receipt is on time against the PO's expected date; rejected units are quality issues
+    let deliveries = 0;
+    let deliveriesWithExpectedDate = 0;
+    let deliveredOnTime = 0;
+    let unitsReceived = 0;
+    let unitsRejected = 0;
+    let rejectedDeliveries = 0;
+    for (const order of purchaseOrders) {
+      const receipts = await storage.getPurchaseOrderReceipts(order.id);
+      for (const receipt of receipts) {
+        deliveries++;
+        unitsReceived += receipt.quantity;
+        unitsRejected += receipt.rejectedQuantity ?? 0;
+        if ((receipt.rejectedQuantity ?? 0) > 0) {
+          rejectedDeliveries++;
+        }
+        if (order.expectedDate) {
+          deliveriesWithExpectedDate++;
+          if (new Date(receipt.receivedAt!) <= new Date(order.expectedDate)) {
+            deliveredOnTime++;
+          }
+        }
+      }
+
+      // Purchase price variance against the parts' standard cost
+      const lines = await storage.getPurchaseOrderLines(order.id);
+      for (const line of lines) {
+        const part = await storage.getPart(line.partId);
+        const standardCost = parseFloat(part?.unitCost || '0');
+        if (standardCost > 0) {
+          quotedTotal += standardCost * line.quantityOrdered;
+          actualTotal += parseFloat(line.unitCost || '0') * line.quantityOrdered;
+        }
+      }
+    }
+
+    const onTimeDelivery = percent(completedOnTime + deliveredOnTime, withDueDate.length + deliveriesWithExpectedDate);
+    const qualityBase = completed.length + unitsReceived + unitsRejected;
+    const qualityRating = percent(completed.length - reworkedWorkOrders + unitsReceived, qualityBase);
+    const costVariance = quotedTotal > 0 ? round(((actualTotal - quotedTotal) / quotedTotal) * 100) : null;
+
+    return {
+      vendorId: vendor.id,
+      vendorName: vendor.name,
+      vendorType: vendor.type,
+      period,
+      workOrdersAssigned: workOrders.length,
+      workOrdersCompleted: completed.length,
+      averageCompletionTime,
+      purchaseOrders: purchaseOrders.length,
+      deliveries,
+      unitsReceived,
+      unitsRejected,
+      onTimeDelivery,
+      qualityIssues: reworkedWorkOrders + rejectedDeliveries,
+      qualityRating,
+      costVariance,
+      overallScore: this.calculateOverallScore(onTimeDelivery, qualityRating, costVariance),
+    };
+  }
+
+  /**
+   * 40% on-time, 40% quality, 20% cost; overruns cost points, savings do not earn extra.
+   * Missing measures are left out and the remaining weights rescaled.
+   */
+  private calculateOverallScore(onTime: number | null, quality: number | null, costVariance: number | null): number | null {
+    const measures: [number | null, number][] = [
+      [onTime, 0.4],
+      [quality, 0.4],
+      [costVariance === null ? null : Math.max(0, 100 - Math.max(0, costVariance)), 0.2],
+    ];
+    const present = measures.filter(([value]) => value !== null) as [number, number][];
+    if (present.length === 0) {
+      return null;
+    }
+    const weight = present.reduce((sum, [, w]) => sum + w, 0);
+    return round(present.reduce((sum, [value, w]) => sum + value * w, 0) / weight);
+  }
+
+  private resolvePeriod(from?: Date, to?: Date): { from: Date; to: Date } {
+    const end = to || new Date();
+    const start = from || new Date(end.getTime() - 90 * 24 * 60 * 60 * 1000);
+    return { from: start, to: end };
+  }
+}
+
+export const vendorPerformanceService = VendorPerformanceService.getInstance();
@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import { InsertPart, InventoryTransaction, Part, TransferOrder } from "@shared/schema";
+import { storage } from "../storage";
+import { inventoryLedgerService } from "./inventory-ledger.service";
+
+export type TransferOrderStatus = TransferOrder['status'];
+
+export class TransferError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export interface WarehouseAvailability {
+  warehouseId: string;
+  warehouseName: string;
+  partId: string;
+  location: string | null;
+  onHand: number;
+  reserved: number;
+  available: number;
+  inboundInTransit: number;
+}
+
+export interface TransferOrderDetail extends TransferOrder {
+  fromWarehouseName?: string;
+  toWarehouseName?: string;
+  transactions: InventoryTransaction[];
+}
+
+export interface TransferRequest {
+  partNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  workOrderId?: string;
+  notes?: string;
+}
+
+class WarehouseTransferService {
+  private static instance: WarehouseTransferService;
+
+  private constructor() {}
+
+  public static getInstance(): WarehouseTransferService {
+    if (!WarehouseTransferService.instance) {
+      WarehouseTransferService.instance = new WarehouseTransferService();
+    }
+    return WarehouseTransferService.instance;
+  }
+
+  /**
+   * Stock of a part number at every warehouse that carries it, most available first
+   */
+  public async findAvailability(partNumber: string, excludeWarehouseId?: string): Promise<WarehouseAvailability[]> {
+    const parts = (await storage.getPartsByNumber(partNumber)).filter(p => p.warehouseId !== excludeWarehouseId);
+    const warehouses = await storage.getWarehouses();
+
+    const results = await Promise.all(parts.map(async part => {
+      const availability = await inventoryLedgerService.getAvailability(part.id);
+      const inbound = await storage.getTransferOrders(part.warehouseId, { direction: 'inbound', status: 'in_transit' });
+      return {
+        warehouseId: part.warehouseId,
+        warehouseName: warehouses.find(w => w.id === part.warehouseId)?.name || part.warehouseId,
+        partId: part.id,
+        location: part.location,
+        onHand: availability.onHand,
+        reserved: availability.reserved,
+        available: availability.available,
+        inboundInTransit: inbound
+          .filter(order => order.partNumber === part.partNumber)
+          .reduce((sum, order) => sum + order.quantity, 0),
+      };
+    }));
+
+    return results.sort((a, b) => b.available - a.available);
+  }
+
+  /**
+   * Request stock from a sister warehouse. Nothing moves until the source ships it.
+   */
+  public async request(input: TransferRequest, requestedBy?: string): Promise<TransferOrder> {
+    if (input.fromWarehouseId === input.toWarehouseId) {
+      throw new TransferError('Source and destination warehouses must differ');
+    }
+    const [from, to] = await Promise.all([
+      storage.getWarehouse(input.fromWarehouseId),
+      storage.getWarehouse(input.toWarehouseId),
+    ]);
+    if (!from || !to) {
+      throw new TransferError('Warehouse not found', 404);
+    }
+
+    const source = await this.requireSourcePart(input.partNumber, input.fromWarehouseId);
+    const { available } = await inventoryLedgerService.getAvailability(source.id);
+    if (input.quantity > available) {
+      throw new TransferError(`${from.name} has only ${available} of ${input.partNumber} available`, 409);
+    }
+
+    return storage.createTransferOrder({
+      transferNumber: this.generateTransferNumber(),
+      partNumber: input.partNumber,
+      fromWarehouseId: input.fromWarehouseId,
+      toWarehouseId: input.toWarehouseId,
+      fromPartId: source.id,
+      toPartId: null,
+      quantity: input.quantity,
+      quantityReceived: 0,
+      status: 'requested',
+      workOrderId: input.workOrderId || null,
+      notes: input.notes || null,
+      requestedBy: requestedBy || null,
+      shippedBy: null,
+      shippedAt: null,
+      receivedBy: null,
+      receivedAt: null,
+    });
+  }
+
+  /**
+   * Take the stock out of the source warehouse; it stays in transit until received
+   */
+  public async ship(id: string, warehouseId: string, shippedBy?: string): Promise<TransferOrderDetail> {
+    const order = await this.requireOrder(id, warehouseId, 'from');
+    this.assertStatus(order, ['requested'], 'ship');
+
+    const { available } = await inventoryLedgerService.getAvailability(order.fromPartId);
+    if (order.quantity > available) {
+      throw new TransferError(`Only ${available} of ${order.partNumber} available to ship`, 409);
+    }
+
+    await this.claim(order, ['requested'], 'ship', { status: 'in_transit', shippedBy: shippedBy || null, shippedAt: new Date() });
+    try {
+      await inventoryLedgerService.recordTransaction({
+        partId: order.fromPartId,
+        type: 'transfer',
+        quantity: -order.quantity,
+        referenceId: order.id,
+        reason: `Shipped on ${order.transferNumber}`,
+        performedBy: shippedBy,
+      });
+    } catch (error) {
+      await storage.updateTransferOrder(order.id, { status: 'requested', shippedBy: null, shippedAt: null });
+      throw error;
+    }
+    return (await this.getTransferOrderDetail(order.id))!;
+  }
+
+  /**
+   * Confirm arrival at the destination. A short receipt is recorded as such; the shortfall is not restocked.
+   */
+  public async receive(id: string, warehouseId: string, quantityReceived?: number, receivedBy?: string, notes?: string): Promise<TransferOrderDetail> {
+    const order = await this.requireOrder(id, warehouseId, 'to');
+    this.assertStatus(order, ['in_transit'], 'receive');
+
+    const quantity = quantityReceived ?? order.quantity;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > order.quantity) {
+      throw new TransferError(`Received quantity must be between 0 and ${order.quantity}`);
+    }
+
+    const destination = await this.getOrCreateDestinationPart(order);
+    const shortfall = order.quantity - quantity;
+    const receiptNote = shortfall > 0 ? `Received ${quantity} of ${order.quantity}; ${shortfall} short` : null;
+    await this.claim(order, ['in_transit'], 'receive', {
+      status: 'received',
+      toPartId: destination.id,
+      quantityReceived: quantity,
+      receivedBy: receivedBy || null,
+      receivedAt: new Date(),
+      notes: [order.notes, receiptNote, notes].filter(Boolean).join('\n') || null,
+    });
+
+    if (quantity > 0) {
+      try {
+        await inventoryLedgerService.recordTransaction({
+          partId: destination.id,
+          type: 'transfer',
+          quantity,
+          referenceId: order.id,
+          reason: `Received on ${order.transferNumber}`,
+          performedBy: receivedBy,
+        });
+      } catch (error) {
+        await storage.updateTransferOrder(order.id, {
+          status: 'in_transit', toPartId: order.toPartId, quantityReceived: order.quantityReceived, receivedBy: null, receivedAt: null, notes: order.notes,
+        });
+        throw error;
+      }
+    }
+    return (await this.getTransferOrderDetail(order.id))!;
+  }
+
+  /**
+   * Cancel a transfer. Stock already in transit is returned to the source warehouse.
+   */
+  public async cancel(id: string, warehouseId: string, cancelledBy?: string): Promise<TransferOrderDetail> {
+    const order = await this.requireOrder(id, warehouseId, 'from');
+    this.assertStatus(order, ['requested', 'in_transit'], 'cancel');
+
+    // Claimed from the status just read, so stock in transit is only returned once
+    await this.claim(order, [order.status], 'cancel', { status: 'cancelled' });
+    if (order.status === 'in_transit') {
+      try {
+        await inventoryLedgerService.recordTransaction({
+          partId: order.fromPartId,
+          type: 'transfer',
+          quantity: order.quantity,
+          referenceId: order.id,
+          reason: `Returned on cancelled ${order.transferNumber}`,
+          performedBy: cancelledBy,
+        });
+      } catch (error) {
+        await storage.updateTransferOrder(order.id, { status: order.status });
+        throw error;
+      }
+    }
+    return (await this.getTransferOrderDetail(order.id))!;
+  }
+
+  public async getTransferOrderDetail(id: string): Promise<TransferOrderDetail | undefined> {
+    const order = await storage.getTransferOrder(id);
+    if (!order) {
+      return undefined;
+    }
+    const [from, to, transactions] = await Promise.all([
+      storage.getWarehouse(order.fromWarehouseId),
+      storage.getWarehouse(order.toWarehouseId),
+      storage.getInventoryTransactions({ referenceId: order.id }),
+    ]);
+    return { ...order, fromWarehouseName: from?.name, toWarehouseName: to?.name, transactions };
+  }
+
+  /**
+   * The order as seen from the caller's warehouse: shipping and cancelling happen at the source,
+   * receiving at the destination
+   */
+  private async requireOrder(id: string, warehouseId: string, side: 'from' | 'to'): Promise<TransferOrder> {
+    const order = await storage.getTransferOrder(id);
+    if (!order || (order.fromWarehouseId !== warehouseId && order.toWarehouseId !== warehouseId)) {
+      throw new TransferError('Transfer order not found', 404);
+    }
+    if ((side === 'from' ? order.fromWarehouseId : order.toWarehouseId) !== warehouseId) {
+      throw new TransferError(side === 'from'
+        ? 'Only the source warehouse can ship or cancel this transfer'
+        : 'Only the destination warehouse can receive this transfer', 403);
+    }
+    return order;
+  }
+
+  // Move the order on only if nobody else has since the status was checked
+  private async claim(order: TransferOrder, fromStatuses: TransferOrderStatus[], action: string, updates: Partial<TransferOrder>): Promise<TransferOrder> {
+    const claimed = await storage.claimTransferOrder(order.id, fromStatuses, updates);
+    if (!claimed) {
+      const current = await storage.getTransferOrder(order.id);
+      throw new TransferError(`Cannot ${action} a transfer order that is ${current?.status ?? order.status}`, 409);
+    }
+    return claimed;
+  }
+
+  private async requireSourcePart(partNumber: string, warehouseId: string): Promise<Part> {
+    const part = await storage.getPartByNumber(partNumber, warehouseId);
+    if (!part) {
+      throw new TransferError(`Part ${partNumber} is not stocked at the source warehouse`, 404);
+    }
+    return part;
+  }
+
+  private assertStatus(order: TransferOrder, allowed: TransferOrderStatus[], action: string): void {
+    if (!allowed.includes(order.status)) {
+      throw new TransferError(`Cannot ${action} a transfer order that is ${order.status}`, 409);
+    }
+  }
+
+  /**
+   * The destination's own part record, copied from the source's master data if the site has never stocked it
+   */
+  private async getOrCreateDestinationPart(order: TransferOrder): Promise<Part> {
+    const existing = await storage.getPartByNumber(order.partNumber, order.toWarehouseId);
+    if (existing) {
+      return existing;
+    }
+    const source = await storage.getPart(order.fromPartId);
+    if (!source) {
+      throw new TransferError(`Part ${order.fromPartId} not found`, 404);
+    }
+    const part: InsertPart = {
+      partNumber: source.partNumber,
+      name: source.name,
+      description: source.description,
+      category: source.category,
+      unitOfMeasure: source.unitOfMeasure,
+      unitCost: source.unitCost,
+      stockLevel: 0,
+      reorderPoint: 0,
+      maxStock: source.maxStock,
+      location: null,
+      vendor: source.vendor,
+      active: true,
+      warehouseId: order.toWarehouseId,
+    };
+    return storage.createPart(part);
+  }
+
+  private generateTransferNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+    return `TO-${date}-${crypto.randomBytes(3).toString('hex').toUpperCase()}`;
+  }
+}
+
+export const warehouseTransferService = WarehouseTransferService.getInstance();
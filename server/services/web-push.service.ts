@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import type { PushSubscription } from '@shared/schema';
+import { storage } from '../storage';
+
+export class PushError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PushError';
+  }
+}
+
+/** The browser's PushSubscription.toJSON() shape posted by the client */
+export interface PushSubscriptionInput {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag?: string;
+  data?: { url?: string; [key: string]: unknown };
+}
+
+export interface PushDeliveryResult {
+  sent: number;
+  removed: number;
+  failed: number;
+}
+
+// Push services answer 404/410 once a subscription has been revoked or has expired
+const GONE_STATUSES = [404, 410];
+const MAX_FAILURES = 5;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Browser vendors' push services. Endpoints come from the client, so anything else is refused
+// rather than letting a subscription point the server at internal addresses.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com',
+  'push.services.mozilla.com',
+  'notify.windows.com',
+  'push.apple.com',
+];
+
+const base64url = (buffer: Buffer) => buffer.toString('base64url');
+
+interface VapidKeys {
+  publicKey: Buffer; // uncompressed P-256 point, 65 bytes
+  privateKey: crypto.KeyObject;
+  subject: string;
+}
+
+class WebPushService {
+  private static instance: WebPushService;
+  private vapid: VapidKeys | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): WebPushService {
+    if (!WebPushService.instance) {
+      WebPushService.instance = new WebPushService();
+    }
+    return WebPushService.instance;
+  }
+
+  /**
+   * The application server key browsers need to subscribe (base64url)
+   */
+  public getPublicKey(): string {
+    return base64url(this.getVapidKeys().publicKey);
+  }
+
+  /**
+   * Store a device subscription for the user; re-subscribing an endpoint moves it to the new user
+   */
+  public async subscribe(userId: string, input: PushSubscriptionInput, userAgent?: string): Promise<PushSubscription> {
+    if (!input?.endpoint || !input.keys?.p256dh || !input.keys?.auth) {
+      throw new PushError('Subscription endpoint and keys are required');
+    }
+    if (!this.isPushServiceEndpoint(input.endpoint)) {
+      throw new PushError('Subscription endpoint is not a known push service');
+    }
+    const fields = {
+      userId,
+      endpoint: input.endpoint,
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent: userAgent || null,
+      expirationTime: input.expirationTime ? new Date(input.expirationTime) : null,
+      failureCount: 0,
+    };
+
+    const existing = await storage.getPushSubscriptionByEndpoint(input.endpoint);
+    if (existing) {
+      return storage.updatePushSubscription(existing.id, fields);
+    }
+    return storage.createPushSubscription({ ...fields, lastSuccessAt: null });
+  }
+
+  public async unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+    const existing = await storage.getPushSubscriptionByEndpoint(endpoint);
+    if (!existing || existing.userId !== userId) {
+      return false;
+    }
+    await storage.deletePushSubscription(existing.id);
+    return true;
+  }
+
+  /**
+   * Push a payload to every device the user has subscribed. Gone and expired subscriptions
+   * are removed; ones that keep failing are dropped after MAX_FAILURES attempts.
+   */
+  public async sendToUser(userId: string, payload: PushPayload, now: Date = new Date()): Promise<PushDeliveryResult> {
+    const result: PushDeliveryResult = { sent: 0, removed: 0, failed: 0 };
+    const subscriptions = await storage.getPushSubscriptions(userId);
+
+    for (const subscription of subscriptions) {
+      if (this.isExpired(subscription, now) || !this.isPushServiceEndpoint(subscription.endpoint)) {
+        await storage.deletePushSubscription(subscription.id);
+        result.removed++;
+        continue;
+      }
+
+      try {
+        const status = await this.deliver(subscription, payload);
+        if (status >= 200 && status < 300) {
+          await storage.updatePushSubscription(subscription.id, { failureCount: 0, lastSuccessAt: now });
+          result.sent++;
+        } else if (GONE_STATUSES.includes(status)) {
+          await storage.deletePushSubscription(subscription.id);
+          result.removed++;
+        } else {
+          result.failed++;
+          await this.recordFailure(subscription, `push service responded ${status}`);
+        }
+      } catch (error) {
+        result.failed++;
+        await this.recordFailure(subscription, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop subscriptions past their expiration time; run daily by the background job scheduler
+   */
+  public async cleanupExpired(now: Date = new Date()): Promise<number> {
+    let removed = 0;
+    for (const subscription of await storage.getPushSubscriptions()) {
+      if (this.isExpired(subscription, now)) {
+        await storage.deletePushSubscription(subscription.id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * POST an encrypted message to the subscription's push service and return the HTTP status
+   */
+  private async deliver(subscription: PushSubscription, payload: PushPayload): Promise<number> {
+    const body = this.encrypt(subscription, Buffer.from(JSON.stringify(payload)));
+    const response = await fetch(subscription.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': this.createVapidAuthorization(subscription.endpoint),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        'TTL': String(DEFAULT_TTL_SECONDS),
+        'Urgency': 'high',
+      },
+      body,
+      redirect: 'error',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    return response.status;
+  }
+
+  private async recordFailure(subscription: PushSubscription, reason: string): Promise<void> {
+    const failureCount = (subscription.failureCount ?? 0) + 1;
+    console.warn(`Push delivery to subscription ${subscription.id} failed (${failureCount}/${MAX_FAILURES}): ${reason}`);
+    if (failureCount >= MAX_FAILURES) {
+      await storage.deletePushSubscription(subscription.id);
+    } else {
+      await storage.updatePushSubscription(subscription.id, { failureCount });
+    }
+  }
+
+  /**
+   * HTTPS endpoints on a browser vendor's push service, plus any origins listed in
+   * PUSH_SERVICE_ORIGINS (comma separated, e.g. a self-hosted push service)
+   */
+  private isPushServiceEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(endpoint);
+    } catch {
+      return false;
+    }
+    const extraOrigins = (process.env.PUSH_SERVICE_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+    if (extraOrigins.includes(url.origin)) {
+      return true;
+    }
+    return url.protocol === 'https:' && !url.port &&
+      PUSH_SERVICE_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  }
+
+  private isExpired(subscription: PushSubscription, now: Date): boolean {
+    return !!subscription.expirationTime && new Date(subscription.expirationTime) <= now;
+  }
+
+  /**
+   * Message encryption for Web Push (RFC 8291) using the aes128gcm content coding (RFC 8188)
+   */
+  private encrypt(subscription: PushSubscription, plaintext: Buffer): Buffer {
+    const userAgentPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+    const authSecret = Buffer.from(subscription.auth, 'base64url');
+
+    const serverKeys = crypto.createECDH('prime256v1');
+    const serverPublicKey = serverKeys.generateKeys();
+    const sharedSecret = serverKeys.computeSecret(userAgentPublicKey);
+
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+    const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+    const salt = crypto.randomBytes(16);
+    const contentKey = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    // A single record: the payload followed by the last-record delimiter
+    const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+    const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+    const header = Buffer.alloc(21);
+    salt.copy(header, 0);
+    header.writeUInt32BE(RECORD_SIZE, 16);
+    header.writeUInt8(serverPublicKey.length, 20);
+    return Buffer.concat([header, serverPublicKey, ciphertext]);
+  }
+
+  /**
+   * VAPID (RFC 8292) authorization header: an ES256 JWT scoped to the push service's origin
+   */
+  private createVapidAuthorization(endpoint: string): string {
+    const keys = this.getVapidKeys();
+    const header = base64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+    const claims = base64url(Buffer.from(JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(Date.now() / 1000) + 12 * 60 * 60,
+      sub: keys.subject,
+    })));
+    const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+      key: keys.privateKey,
+      dsaEncoding: 'ieee-p1363',
+    });
+    return `vapid t=${header}.${claims}.${base64url(signature)}, k=${base64url(keys.publicKey)}`;
+  }
+
+  /**
+   * VAPID keys come from VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY. Without them a key pair is generated
+   * for this process, so browser subscriptions stop working after a restart.
+   */
+  private getVapidKeys(): VapidKeys {
+    if (this.vapid) {
+      return this.vapid;
+    }
+
+    const subject = process.env.VAPID_SUBJECT || 'mailto:maintenance@example.com';
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY } = process.env;
+
+    if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+      const publicKey = Buffer.from(VAPID_PUBLIC_KEY, 'base64url');
+      const privateKey = crypto.createPrivateKey({
+        key: {
+          kty: 'EC',
+          crv: 'P-256',
+          d: VAPID_PRIVATE_KEY,
+          x: base64url(publicKey.subarray(1, 33)),
+          y: base64url(publicKey.subarray(33, 65)),
+        },
+        format: 'jwk',
+      });
+      this.vapid = { publicKey, privateKey, subject };
+    } else {
+      console.warn('VAPID keys not configured, generating a temporary key pair for push notifications');
+      const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+      const jwk = publicKey.export({ format: 'jwk' });
+      this.vapid = {
+        publicKey: Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]),
+        privateKey,
+        subject,
+      };
+    }
+    return this.vapid;
+  }
+}
+
+export const webPushService = WebPushService.getInstance();
@@ -0,0 +1,285 @@
+import { WorkOrder, InsertWorkOrder, WorkOrderStatusHistory } from "@shared/schema";
+import { storage } from "../storage";
+import { RBACService, Action, UserRole } from "./auth/rbac.service";
+import { inventoryLedgerService } from "./inventory-ledger.service";
+import { slaService } from "./sla.service";
+import { downtimeService } from "./downtime.service";
+import { failureCodeService } from "./failure-code.service";
+
+export type WorkOrderStatus = WorkOrder['status'];
+
+export interface TransitionActor {
+  id: string;
+  role?: UserRole;
+  warehouseId?: string;
+  sessionId?: string;
+}
+
+// Fields a transition may set alongside the status
+export type TransitionChanges = Partial<InsertWorkOrder> & {
+  completedAt?: Date | null;
+  verifiedBy?: string | null; // always the verifying actor; anything passed in is dropped
+  respondedAt?: Date | null;
+  holdReason?: WorkOrder['holdReason'];
+};
+
+export interface TransitionOptions {
+  reason?: string;
+  changes?: TransitionChanges;
+  expectedVersion?: number; // apply only if the work order is still at this version (offline sync)
+}
+
+export interface TransitionViolation {
+  code: string;
+  message: string;
+}
+
+interface TransitionRule {
+  from: WorkOrderStatus;
+  to: WorkOrderStatus;
+  action: Action;
+  checks: Array<(workOrder: WorkOrder, actor: TransitionActor, changes: TransitionChanges) => Promise<TransitionViolation | null>>;
+}
+
+export interface TransitionResult {
+  workOrder: WorkOrder;
+  history: WorkOrderStatusHistory;
+}
+
+export class WorkOrderTransitionError extends Error {
+  public readonly statusCode = 409;
+
+  constructor(
+    public readonly code: 'ILLEGAL_TRANSITION' | 'FORBIDDEN_TRANSITION' | 'PRECONDITION_FAILED',
+    public readonly from: WorkOrderStatus,
+    public readonly to: WorkOrderStatus,
+    public readonly violations: TransitionViolation[] = []
+  ) {
+    super(violations[0]?.message || `Cannot move work order from ${from} to ${to}`);
+    this.name = 'WorkOrderTransitionError';
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      code: this.code,
+      from: this.from,
+      to: this.to,
+      violations: this.violations,
+    };
+  }
+}
+
+const requireAssignee = async (workOrder: WorkOrder, _actor: TransitionActor, changes: TransitionChanges) => {
+  const assignee = changes.assignedTo ?? workOrder.assignedTo;
+  return assignee ? null : { code: 'ASSIGNEE_REQUIRED', message: 'Work order must have an assignee' };
+};
+
+const requireChecklistResolved = async (workOrder: WorkOrder) => {
+  const items = await storage.getChecklistItems(workOrder.id);
+  const pending = items.filter(item => !item.status || item.status === 'pending');
+  return pending.length === 0 ? null : {
+    code: 'CHECKLIST_INCOMPLETE',
+    message: `${pending.length} checklist item(s) are still pending`,
+  };
+};
+
+const requireNoActiveTimer = async (workOrder: WorkOrder) => {
+  const entries = await storage.getLaborTime(workOrder.id);
+  const active = entries.filter(entry => entry.isActive);
+  return active.length === 0 ? null : {
+    code: 'ACTIVE_LABOR_TIMER',
+    message: 'Stop all running labor timers before completing the work order',
+  };
+};
+
+const requireFailureCodes = async (workOrder: WorkOrder, _actor: TransitionActor, changes: TransitionChanges) => {
+  return failureCodeService.checkCompletion(workOrder, changes);
+};
+
+// Whoever makes the transition is the verifier; it is never taken from the request
+const requireIndependentVerifier = async (workOrder: WorkOrder, actor: TransitionActor) => {
+  return actor.id !== workOrder.assignedTo ? null : {
+    code: 'VERIFIER_IS_ASSIGNEE',
+    message: 'Work order must be verified by someone other than the assignee',
+  };
+};
+
+const TRANSITIONS: TransitionRule[] = [
+  { from: 'new', to: 'assigned', action: 'assign', checks: [requireAssignee] },
+  { from: 'assigned', to: 'new', action: 'assign', checks: [] },
+  { from: 'assigned', to: 'in_progress', action: 'update', checks: [requireAssignee] },
+  { from: 'in_progress', to: 'assigned', action: 'update', checks: [] },
+  { from: 'in_progress', to: 'completed', action: 'update', checks: [requireChecklistResolved, requireNoActiveTimer, requireFailureCodes] },
+  { from: 'completed', to: 'in_progress', action: 'approve', checks: [] },
+  { from: 'completed', to: 'verified', action: 'approve', checks: [requireIndependentVerifier] },
+  { from: 'verified', to: 'closed', action: 'close', checks: [] },
+];
+
+export class WorkOrderLifecycle {
+  private static instance: WorkOrderLifecycle;
+
+  private constructor() {}
+
+  public static getInstance(): WorkOrderLifecycle {
+    if (!WorkOrderLifecycle.instance) {
+      WorkOrderLifecycle.instance = new WorkOrderLifecycle();
+    }
+    return WorkOrderLifecycle.instance;
+  }
+
+  /**
+   * Look up the rule for a from/to pair
+   */
+  private findRule(from: WorkOrderStatus, to: WorkOrderStatus): TransitionRule | undefined {
+    return TRANSITIONS.find(rule => rule.from === from && rule.to === to);
+  }
+
+  /**
+   * Resolve the actor's role, falling back to the stored profile and then least privilege
+   */
+  private async resolveRole(actor: TransitionActor): Promise<UserRole> {
+    if (actor.role) {
+      return actor.role;
+    }
+    const profile = await storage.getProfile(actor.id);
+    return (profile?.role as UserRole) || 'requester';
+  }
+
+  /**
+   * Check whether the actor holds the permission the rule requires
+   */
+  private async isPermitted(rule: TransitionRule, workOrder: WorkOrder, actor: TransitionActor): Promise<boolean> {
+    const role = await this.resolveRole(actor);
+    return RBACService.hasPermission({
+      userId: actor.id,
+      role,
+      warehouseId: actor.warehouseId || workOrder.warehouseId,
+      sessionId: actor.sessionId || '',
+      resourceId: workOrder.id,
+      resourceOwnerId: workOrder.assignedTo || undefined,
+    }, 'work_orders', rule.action);
+  }
+
+  /**
+   * Statuses the actor could move the work order to, ignoring preconditions
+   */
+  async getAvailableTransitions(workOrder: WorkOrder, actor: TransitionActor): Promise<WorkOrderStatus[]> {
+    const available: WorkOrderStatus[] = [];
+    for (const rule of TRANSITIONS.filter(r => r.from === workOrder.status)) {
+      if (await this.isPermitted(rule, workOrder, actor)) {
+        available.push(rule.to);
+      }
+    }
+    return available;
+  }
+
+  /**
+   * Whether the actor's role allows a given move, e.g. to countersign a completion that already happened
+   */
+  async isAllowed(workOrder: WorkOrder, actor: TransitionActor, from: WorkOrderStatus, to: WorkOrderStatus): Promise<boolean> {
+    const rule = this.findRule(from, to);
+    return !!rule && this.isPermitted(rule, workOrder, actor);
+  }
+
+  /**
+   * Validate and apply a status change, recording it in the status history
+   */
+  async transition(
+    workOrderId: string,
+    toStatus: WorkOrderStatus,
+    actor: TransitionActor,
+    options: TransitionOptions = {}
+  ): Promise<TransitionResult> {
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder) {
+      throw new Error('Work order not found');
+    }
+
+    const fromStatus = workOrder.status;
+    const changes: TransitionChanges = { ...(options.changes || {}) };
+    delete changes.status;
+    delete changes.verifiedBy;
+
+    const rule = this.findRule(fromStatus, toStatus);
+    if (!rule) {
+      throw new WorkOrderTransitionError('ILLEGAL_TRANSITION', fromStatus, toStatus, [{
+        code: 'ILLEGAL_TRANSITION',
+        message: `Cannot move work order from ${fromStatus} to ${toStatus}`,
+      }]);
+    }
+
+    if (!(await this.isPermitted(rule, workOrder, actor))) {
+      throw new WorkOrderTransitionError('FORBIDDEN_TRANSITION', fromStatus, toStatus, [{
+        code: 'INSUFFICIENT_ROLE',
+        message: `Your role is not allowed to move work orders from ${fromStatus} to ${toStatus}`,
+      }]);
+    }
+
+    const violations: TransitionViolation[] = [];
+    for (const check of rule.checks) {
+      const violation = await check(workOrder, actor, changes);
+      if (violation) {
+        violations.push(violation);
+      }
+    }
+    if (violations.length > 0) {
+      throw new WorkOrderTransitionError('PRECONDITION_FAILED', fromStatus, toStatus, violations);
+    }
+
+    const updates: TransitionChanges = { ...changes, status: toStatus };
+    if (toStatus === 'completed') {
+      updates.completedAt = new Date();
+      updates.holdReason = null;
+    }
+    // The response clock stops the first time work starts
+    if (toStatus === 'in_progress' && !workOrder.respondedAt) {
+      updates.respondedAt = new Date();
+    }
+    if (fromStatus === 'completed' && toStatus === 'in_progress') {
+      updates.completedAt = null;
+    }
+    if (toStatus === 'verified') {
+      updates.verifiedBy = actor.id;
+    }
+
+    let updated = await storage.updateWorkOrder(workOrderId, updates, options.expectedVersion);
+    const history = await storage.createWorkOrderStatusHistory({
+      workOrderId,
+      fromStatus,
+      toStatus,
+      changedBy: actor.id,
+      reason: options.reason || null,
+      metadata: Object.keys(changes).length > 0 ? { changes } : null,
+    });
+
+    // SLA bookkeeping must never undo a transition that has already been applied
+    try {
+      updated = await slaService.onTransition(updated, actor.id);
+    } catch (error) {
+      console.error(`Failed to update SLA clocks for work order ${workOrderId}:`, error);
+    }
+
+    // The equipment is back up once the repair is done
+    if (toStatus === 'completed') {
+      try {
+        await downtimeService.onWorkOrderCompleted(updated, actor.id);
+      } catch (error) {
+        console.error(`Failed to close downtime for work order ${workOrderId}:`, error);
+      }
+    }
+
+    // Parts still held for a closed work order go back to available stock
+    if (toStatus === 'closed') {
+      try {
+        await inventoryLedgerService.releaseForWorkOrder(workOrderId);
+      } catch (error) {
+        console.error(`Failed to release reservations for work order ${workOrderId}:`, error);
+      }
+    }
+
+    return { workOrder: updated, history };
+  }
+}
+
+export const workOrderLifecycle = WorkOrderLifecycle.getInstance();
@@ -0,0 +1,621 @@
+import crypto from "crypto";
+import { z } from "zod";
+import {
+  APPROVER_ROLES,
+  approvalThresholdSchema,
+  workRequestApprovalSchema,
+  workRequestRejectionSchema,
+  workRequestSchema,
+  workRequestSubmissionSchema,
+  type ApproverRole,
+  type Equipment,
+  type InsertWorkOrder,
+  type InsertWorkRequest,
+  type Location,
+  type WorkOrder,
+  type WorkRequest,
+  type WorkRequestAction,
+  type WorkRequestApproval,
+  type WorkRequestDecision,
+  type WorkRequestPhoto,
+  type WorkRequestSource,
+  type WorkRequestStatus,
+  type WorkRequestSubmission,
+} from "@shared/schema";
+import { storage } from "../storage";
+import { getSigningSecret } from "./auth/signing-secret";
+import { scanService } from "./scan.service";
+import { slaService } from "./sla.service";
+import { downtimeService } from "./downtime.service";
+import { fileManagementService } from "./file-management.service";
+import { assetHierarchyService } from "./asset-hierarchy.service";
+
+export class WorkRequestError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WorkRequestError';
+  }
+}
+
+// Where a portal link points: the asset or location on a label, or just a warehouse for a kiosk
+export interface PortalContext {
+  source: WorkRequestSource;
+  warehouseId: string;
+  warehouseName: string;
+  equipment: { id: string; assetTag: string; description: string | null; area: string | null } | null;
+  location: { id: string; name: string; path: string } | null;
+}
+
+export interface PhotoUpload {
+  buffer: Buffer;
+  originalName: string;
+}
+
+// What the holder of a status link may see
+export interface WorkRequestStatusView {
+  reference: string;
+  status: WorkRequestStatus;
+  description: string;
+  assetTag: string | null;
+  area: string | null;
+  submittedAt: Date | null;
+  decidedAt: Date | null;
+  decisionReason: string | null;
+  workOrder: { foNumber: string; status: WorkOrder['status'] } | null;
+}
+
+export interface SubmissionResult {
+  request: WorkRequestStatusView;
+  statusToken: string; // shown once; only its hash is stored
+  alreadyReported: boolean; // the asset already has open work, so the requester knows it is in hand
+}
+
+export type TriageEntry = Omit<WorkRequest, 'tokenHash'> & {
+  equipment: Pick<Equipment, 'id' | 'assetTag' | 'description' | 'model'> | null;
+  workOrder: Pick<WorkOrder, 'id' | 'foNumber' | 'status'> | null;
+  duplicates: WorkOrder[]; // open work orders on the same asset
+  decisions: WorkRequestDecision[];
+};
+
+// The largest estimate a role may approve on its own; null means no limit
+export interface ResolvedApprovalThreshold {
+  role: ApproverRole;
+  maxCost: number | null;
+  maxHours: number | null;
+  isDefault: boolean;
+}
+
+// Who is deciding; the role comes from the session, or the profile when the session has none
+export interface TriageActor {
+  userId: string;
+  role?: string;
+}
+
+export interface ApprovalResult {
+  request: TriageEntry;
+  workOrder: WorkOrder | null; // null when the estimate was escalated to a more senior approver
+}
+
+export const MAX_REQUEST_PHOTOS = 4;
+
+const PORTAL_SECRET = getSigningSecret('REQUEST_PORTAL_SECRET');
+
+// kiosk:<warehouseId>:<signature>
+const KIOSK_PREFIX = 'kiosk';
+
+const OPEN_STATUSES: WorkOrder['status'][] = ['new', 'assigned', 'in_progress'];
+
+// Requests a supervisor can still act on
+const UNDECIDED_STATUSES: WorkRequestStatus[] = ['pending', 'awaiting_approval'];
+
+const DEFAULT_THRESHOLDS: Record<ApproverRole, { maxCost: number | null; maxHours: number | null }> = {
+  supervisor: { maxCost: 1000, maxHours: 8 },
+  manager: { maxCost: 5000, maxHours: 40 },
+  admin: { maxCost: null, maxHours: null },
+};
+
+const toNumber = (value: string | null): number | null => value === null ? null : Number(value);
+const toDecimal = (value: number | null): string | null => value === null ? null : value.toFixed(2);
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export class WorkRequestService {
+  private static instance: WorkRequestService;
+
+  private constructor() {}
+
+  public static getInstance(): WorkRequestService {
+    if (!WorkRequestService.instance) {
+      WorkRequestService.instance = new WorkRequestService();
+    }
+    return WorkRequestService.instance;
+  }
+
+  // Portal links
+
+  private signKiosk(warehouseId: string): string {
+    return crypto.createHmac('sha256', PORTAL_SECRET).update(`${KIOSK_PREFIX}:${warehouseId}`).digest('hex').slice(0, 16);
+  }
+
+  public kioskCode(warehouseId: string): string {
+    return `${KIOSK_PREFIX}:${warehouseId}:${this.signKiosk(warehouseId)}`;
+  }
+
+  /**
+   * What a portal code points at. Only signed asset and location labels and kiosk codes are accepted,
+   * so the public form can't be used to look up arbitrary asset tags.
+   */
+  public async portalContext(code: string): Promise<PortalContext> {
+    const text = code.trim();
+    let warehouseId: string;
+    let source: WorkRequestSource;
+    let asset: Equipment | undefined;
+    let location: Location | undefined;
+
+    if (text.startsWith(`${KIOSK_PREFIX}:`)) {
+      const [, id, signature] = text.split(':');
+      const expected = Buffer.from(this.signKiosk(id ?? ''));
+      const actual = Buffer.from(signature ?? '');
+      if (!id || expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new WorkRequestError('This kiosk link is not valid', 404);
+      }
+      warehouseId = id;
+      source = 'kiosk';
+    } else {
+      let decoded: ReturnType<typeof scanService.decode>;
+      try {
+        decoded = scanService.decode(text);
+      } catch {
+        throw new WorkRequestError('This label was not issued by this site', 404);
+      }
+      if ('text' in decoded || decoded.kind === 'part') {
+        throw new WorkRequestError('Scan an equipment or location label to report a problem', 404);
+      }
+      if (decoded.kind === 'asset') {
+        asset = await storage.getEquipmentById(decoded.id);
+        if (!asset) throw new WorkRequestError('Equipment not found', 404);
+        warehouseId = asset.warehouseId;
+        source = 'asset_label';
+      } else {
+        location = await storage.getLocation(decoded.id);
+        if (!location) throw new WorkRequestError('Location not found', 404);
+        warehouseId = location.warehouseId;
+        source = 'location_label';
+      }
+    }
+
+    const warehouse = await storage.getWarehouse(warehouseId);
+    if (!warehouse) throw new WorkRequestError('This link is no longer in use', 404);
+
+    return {
+      source,
+      warehouseId,
+      warehouseName: warehouse.name,
+      equipment: asset ? { id: asset.id, assetTag: asset.assetTag, description: asset.description, area: asset.area } : null,
+      location: location ? {
+        id: location.id,
+        name: location.name,
+        path: assetHierarchyService.formatPath(assetHierarchyService.getLocationPath(location.id, await storage.getLocations(warehouseId))),
+      } : null,
+    };
+  }
+
+  // Submission and status
+
+  private async statusView(request: WorkRequest): Promise<WorkRequestStatusView> {
+    const asset = request.equipmentId ? await storage.getEquipmentById(request.equipmentId) : undefined;
+    const workOrder = request.workOrderId ? await storage.getWorkOrder(request.workOrderId) : undefined;
+    return {
+      reference: request.reference,
+      status: request.status,
+      description: request.description,
+      assetTag: asset?.assetTag ?? null,
+      area: request.area,
+      submittedAt: request.createdAt,
+      decidedAt: request.decidedAt,
+      decisionReason: request.decisionReason,
+      workOrder: workOrder ? { foNumber: workOrder.foNumber, status: workOrder.status } : null,
+    };
+  }
+
+  private async openWorkOrdersOn(equipmentId: string | null, warehouseId: string): Promise<WorkOrder[]> {
+    if (!equipmentId) return [];
+    return (await storage.getWorkOrders(warehouseId))
+      .filter(wo => wo.equipmentId === equipmentId && OPEN_STATUSES.includes(wo.status));
+  }
+
+  public async submit(input: WorkRequestSubmission, photos: PhotoUpload[] = []): Promise<SubmissionResult> {
+    const data = workRequestSubmissionSchema.parse(input);
+    if (photos.length > MAX_REQUEST_PHOTOS) {
+      throw new WorkRequestError(`Attach at most ${MAX_REQUEST_PHOTOS} photos`);
+    }
+    const context = await this.portalContext(data.code);
+    if (context.source === 'kiosk' && !data.area) {
+      throw new WorkRequestError('Say where the problem is');
+    }
+
+    const stored: WorkRequestPhoto[] = [];
+    for (const photo of photos) {
+      try {
+        const saved = await fileManagementService.saveImage(photo.buffer);
+        stored.push({ fileName: saved.fileName, originalName: photo.originalName, size: saved.size });
+      } catch {
+        throw new WorkRequestError(`${photo.originalName} could not be read as an image`);
+      }
+    }
+
+    const statusToken = crypto.randomBytes(24).toString('base64url');
+    const request = await storage.createWorkRequest({
+      reference: `REQ-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      status: 'pending',
+      source: context.source,
+      description: data.description,
+      urgency: data.urgency,
+      equipmentId: context.equipment?.id ?? null,
+      locationId: context.location?.id ?? null,
+      area: context.location
+        ? [context.location.path, data.area].filter(Boolean).join(' - ')
+        : data.area ?? context.equipment?.area ?? null,
+      requesterName: data.requesterName,
+      requesterEmail: data.requesterEmail,
+      requesterPhone: data.requesterPhone,
+      photos: stored,
+      tokenHash: hashToken(statusToken),
+      workOrderId: null,
+      decisionReason: null,
+      decidedBy: null,
+      decidedAt: null,
+      requesterId: null,
+      estimatedCost: null,
+      estimatedHours: null,
+      approvalRole: null,
+      warehouseId: context.warehouseId,
+    });
+    await this.record(request, 'submitted', null, { userId: null, role: null });
+
+    const open = await this.openWorkOrdersOn(request.equipmentId, request.warehouseId);
+    return { request: await this.statusView(request), statusToken, alreadyReported: open.length > 0 };
+  }
+
+  public async getStatus(token: string): Promise<WorkRequestStatusView> {
+    const request = await storage.getWorkRequestByTokenHash(hashToken(token));
+    if (!request) throw new WorkRequestError('Request not found', 404);
+    return this.statusView(request);
+  }
+
+  /**
+   * A request raised by signed-in staff. It goes through the same triage as portal requests,
+   * and the requester is linked to the work order through requestedBy once it is approved.
+   */
+  public async submitInternal(input: InsertWorkRequest, userId: string, warehouseId: string): Promise<TriageEntry> {
+    const data = workRequestSchema.parse(input);
+    const asset = data.equipmentId ? await storage.getEquipmentById(data.equipmentId) : undefined;
+    if (data.equipmentId && (!asset || asset.warehouseId !== warehouseId)) {
+      throw new WorkRequestError('Equipment not found', 404);
+    }
+    if (!asset && !data.area) {
+      throw new WorkRequestError('Say where the problem is');
+    }
+    const requester = await storage.getProfile(userId);
+
+    const request = await storage.createWorkRequest({
+      reference: `REQ-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      status: 'pending',
+      source: 'internal',
+      description: data.description,
+      urgency: data.urgency,
+      equipmentId: asset?.id ?? null,
+      locationId: null,
+      area: data.area ?? asset?.area ?? null,
+      requesterName: requester ? `${requester.firstName} ${requester.lastName}`.trim() : 'Staff member',
+      requesterEmail: requester?.email ?? null,
+      requesterPhone: requester?.phoneNumber ?? null,
+      photos: [],
+      // Staff follow their requests in the triage tab, so nobody is given this token
+      tokenHash: hashToken(crypto.randomBytes(24).toString('base64url')),
+      workOrderId: null,
+      decisionReason: null,
+      decidedBy: null,
+      decidedAt: null,
+      requesterId: userId,
+      estimatedCost: toDecimal(data.estimatedCost ?? null),
+      estimatedHours: toDecimal(data.estimatedHours ?? null),
+      approvalRole: null,
+      warehouseId,
+    });
+    await this.record(request, 'submitted', null, { userId, role: requester?.role ?? null });
+    return this.toEntry(request);
+  }
+
+  // Approval thresholds
+
+  public async getThresholds(warehouseId: string): Promise<ResolvedApprovalThreshold[]> {
+    const saved = await storage.getApprovalThresholds(warehouseId);
+    return APPROVER_ROLES.map(role => {
+      const threshold = saved.find(t => t.role === role);
+      return threshold
+        ? { role, maxCost: toNumber(threshold.maxCost), maxHours: toNumber(threshold.maxHours), isDefault: false }
+        : { role, ...DEFAULT_THRESHOLDS[role], isDefault: true };
+    });
+  }
+
+  public async updateThresholds(warehouseId: string, input: unknown): Promise<ResolvedApprovalThreshold[]> {
+    const thresholds = z.array(approvalThresholdSchema).min(1).parse(input);
+    for (const threshold of thresholds) {
+      await storage.upsertApprovalThreshold(warehouseId, threshold);
+    }
+    return this.getThresholds(warehouseId);
+  }
+
+  /**
+   * The most junior role allowed to approve an estimate. A missing figure is unknown, so only
+   * a role with no limit on it can approve; a request with no estimate needs the most senior role.
+   */
+  private requiredRole(thresholds: ResolvedApprovalThreshold[], cost: number | null, hours: number | null): ApproverRole {
+    const covering = thresholds.find(t =>
+      (t.maxCost === null || (cost !== null && cost <= t.maxCost)) &&
+      (t.maxHours === null || (hours !== null && hours <= t.maxHours))
+    );
+    return covering?.role ?? APPROVER_ROLES[APPROVER_ROLES.length - 1];
+  }
+
+  private highestRole(roles: ApproverRole[]): ApproverRole {
+    return roles.reduce((highest, r) => APPROVER_ROLES.indexOf(r) > APPROVER_ROLES.indexOf(highest) ? r : highest);
+  }
+
+  /**
+   * Once a request is waiting on a senior approver, only that role or above may decide it, whichever way
+   */
+  private assertMayDecide(request: WorkRequest, role: ApproverRole, required: ApproverRole): void {
+    if (request.status === 'awaiting_approval' && APPROVER_ROLES.indexOf(role) < APPROVER_ROLES.indexOf(required)) {
+      throw new WorkRequestError(`This request needs ${required} approval`, 403);
+    }
+  }
+
+  // The role the request's own estimate and any escalation call for
+  private async storedRequiredRole(request: WorkRequest): Promise<ApproverRole> {
+    const thresholds = await this.getThresholds(request.warehouseId);
+    return this.highestRole([
+      this.requiredRole(thresholds, toNumber(request.estimatedCost), toNumber(request.estimatedHours)),
+      request.approvalRole ?? APPROVER_ROLES[0],
+    ]);
+  }
+
+  // Triage
+
+  private async toEntry(request: WorkRequest): Promise<TriageEntry> {
+    const { tokenHash, ...rest } = request;
+    const asset = request.equipmentId ? await storage.getEquipmentById(request.equipmentId) : undefined;
+    const workOrder = request.workOrderId ? await storage.getWorkOrder(request.workOrderId) : undefined;
+    return {
+      ...rest,
+      equipment: asset ? { id: asset.id, assetTag: asset.assetTag, description: asset.description, model: asset.model } : null,
+      workOrder: workOrder ? { id: workOrder.id, foNumber: workOrder.foNumber, status: workOrder.status } : null,
+      duplicates: UNDECIDED_STATUSES.includes(request.status) ? await this.openWorkOrdersOn(request.equipmentId, request.warehouseId) : [],
+      decisions: await storage.getWorkRequestDecisions(request.id),
+    };
+  }
+
+  /**
+   * The triage queue: requests still waiting on a decision oldest first, one status, or everything for 'all'
+   */
+  public async listQueue(warehouseId: string, status: WorkRequestStatus | 'open' | 'all' = 'open'): Promise<TriageEntry[]> {
+    const requests = (await storage.getWorkRequests(warehouseId)).filter(r =>
+      status === 'all' || (status === 'open' ? UNDECIDED_STATUSES.includes(r.status) : r.status === status)
+    );
+    return Promise.all(requests.map(r => this.toEntry(r)));
+  }
+
+  public async getDecisions(id: string, warehouseId: string): Promise<WorkRequestDecision[]> {
+    const request = await storage.getWorkRequest(id);
+    if (!request || request.warehouseId !== warehouseId) {
+      throw new WorkRequestError('Work request not found', 404);
+    }
+    return storage.getWorkRequestDecisions(id);
+  }
+
+  private async getUndecided(id: string, warehouseId: string): Promise<WorkRequest> {
+    const request = await storage.getWorkRequest(id);
+    if (!request || request.warehouseId !== warehouseId) {
+      throw new WorkRequestError('Work request not found', 404);
+    }
+    if (!UNDECIDED_STATUSES.includes(request.status)) {
+      throw new WorkRequestError(`This request has already been ${request.status}`, 409);
+    }
+    return request;
+  }
+
+  /**
+   * Take the decision on a request at the version it was read, so a second approver acting on the
+   * same request gets a 409 instead of repeating the work
+   */
+  private async claim(request: WorkRequest, changes: Partial<WorkRequest>): Promise<WorkRequest> {
+    const claimed = await storage.claimWorkRequest(request.id, request.version ?? 1, UNDECIDED_STATUSES, changes);
+    if (!claimed) {
+      throw new WorkRequestError('This request has already been decided', 409);
+    }
+    return claimed;
+  }
+
+  // The session role is trusted when present; otherwise the profile decides
+  private async approverRole(actor: TriageActor): Promise<ApproverRole> {
+    const role = actor.role ?? (await storage.getProfile(actor.userId))?.role;
+    if (!APPROVER_ROLES.includes(role as ApproverRole)) {
+      throw new WorkRequestError('Only supervisors, managers and admins can decide on requests', 403);
+    }
+    return role as ApproverRole;
+  }
+
+  private async record(
+    request: WorkRequest,
+    action: WorkRequestAction,
+    fromStatus: WorkRequestStatus | null,
+    actor: { userId: string | null; role: string | null },
+    details: { workOrderId?: string; reason?: string } = {},
+  ): Promise<WorkRequestDecision> {
+    return storage.createWorkRequestDecision({
+      requestId: request.id,
+      action,
+      fromStatus,
+      toStatus: request.status,
+      actorId: actor.userId,
+      actorRole: actor.role,
+      estimatedCost: request.estimatedCost,
+      estimatedHours: request.estimatedHours,
+      workOrderId: details.workOrderId ?? null,
+      reason: details.reason ?? null,
+    });
+  }
+
+  /**
+   * The requester's photos become attachments on the work order that handles the request
+   */
+  private async attachPhotos(request: WorkRequest, workOrderId: string, userId: string): Promise<void> {
+    for (const photo of request.photos ?? []) {
+      await storage.createAttachment({
+        fileName: photo.originalName,
+        fileUrl: `/api/files/${photo.fileName}`,
+        fileSize: photo.size,
+        fileType: 'image/jpeg',
+        mimeType: 'image/jpeg',
+        filePath: fileManagementService.getFilePath(photo.fileName),
+        thumbnailPath: fileManagementService.getThumbnailPath(`thumb_${photo.fileName}`),
+        workOrderId,
+        equipmentId: request.equipmentId,
+        uploadedBy: userId,
+      });
+    }
+  }
+
+  private requesterNote(request: WorkRequest): string {
+    const contact = [request.requesterEmail, request.requesterPhone].filter(Boolean).join(', ');
+    const channel = request.source === 'internal' ? 'as a work request' : 'through the request portal';
+    return `Reported by ${request.requesterName}${contact ? ` (${contact})` : ''} ${channel}, ${request.reference}`;
+  }
+
+  /**
+   * Approve a request into a work order. When the estimate is over the approver's limit the request
+   * waits for the most junior role whose limit covers it instead.
+   */
+  public async approve(id: string, input: WorkRequestApproval, actor: TriageActor, warehouseId: string): Promise<ApprovalResult> {
+    const changes = workRequestApprovalSchema.parse(input);
+    const request = await this.getUndecided(id, warehouseId);
+    const role = await this.approverRole(actor);
+
+    const estimatedCost = changes.estimatedCost !== undefined ? changes.estimatedCost : toNumber(request.estimatedCost);
+    const estimatedHours = changes.estimatedHours !== undefined ? changes.estimatedHours : toNumber(request.estimatedHours);
+    const thresholds = await this.getThresholds(warehouseId);
+    // Revising an estimate never lowers who must approve it: the figures already on the request and
+    // any escalation still count, so a lower or cleared estimate can't skip a senior approver
+    const required = this.highestRole([
+      this.requiredRole(thresholds, estimatedCost, estimatedHours),
+      this.requiredRole(thresholds, toNumber(request.estimatedCost) ?? estimatedCost, toNumber(request.estimatedHours) ?? estimatedHours),
+      request.approvalRole ?? APPROVER_ROLES[0],
+    ]);
+    const estimate = { estimatedCost: toDecimal(estimatedCost), estimatedHours: toDecimal(estimatedHours) };
+
+    this.assertMayDecide(request, role, required);
+    if (APPROVER_ROLES.indexOf(role) < APPROVER_ROLES.indexOf(required)) {
+      const escalated = await this.claim(request, { ...estimate, status: 'awaiting_approval', approvalRole: required });
+      await this.record(escalated, 'escalated', request.status, { userId: actor.userId, role }, {
+        reason: `Estimate is over the ${role} approval limit`,
+      });
+      return { request: await this.toEntry(escalated), workOrder: null };
+    }
+
+    const claimed = await this.claim(request, {
+      ...estimate,
+      status: 'converted',
+      decidedBy: actor.userId,
+      decidedAt: new Date(),
+    });
+
+    const asset = request.equipmentId ? await storage.getEquipmentById(request.equipmentId) : undefined;
+    const data: InsertWorkOrder = {
+      foNumber: `CM-${Date.now()}-${asset?.assetTag ?? request.reference}`,
+      type: changes.type,
+      status: changes.assignedTo ? 'assigned' : 'new',
+      priority: changes.priority ?? request.urgency,
+      description: changes.description ?? request.description,
+      notes: this.requesterNote(request),
+      area: request.area ?? undefined,
+      assetModel: asset?.model,
+      equipmentId: request.equipmentId ?? undefined,
+      assignedTo: changes.assignedTo,
+      dueDate: changes.dueDate,
+      estimatedHours: estimate.estimatedHours ?? undefined,
+      requestedBy: request.requesterId ?? actor.userId,
+      warehouseId: request.warehouseId,
+    };
+
+    let workOrder: WorkOrder;
+    try {
+      workOrder = await storage.createWorkOrder(data);
+    } catch (error) {
+      // Hand the request back so it can be approved again
+      await storage.updateWorkRequest(claimed.id, { status: request.status, decidedBy: null, decidedAt: null });
+      throw error;
+    }
+    try {
+      workOrder = (await slaService.refresh(workOrder)).workOrder;
+    } catch (error) {
+      console.error('Failed to set SLA due times:', error);
+    }
+    try {
+      await downtimeService.onWorkOrderCreated(workOrder, actor.userId);
+    } catch (error) {
+      console.error('Failed to open downtime for work order:', error);
+    }
+    await this.attachPhotos(request, workOrder.id, actor.userId);
+
+    const updated = await storage.updateWorkRequest(claimed.id, { workOrderId: workOrder.id });
+    await this.record(updated, 'approved', request.status, { userId: actor.userId, role }, { workOrderId: workOrder.id });
+    return { request: await this.toEntry(updated), workOrder };
+  }
+
+  /**
+   * Fold a request into work already open, e.g. a second report of the same fault
+   */
+  public async merge(id: string, workOrderId: string, actor: TriageActor, warehouseId: string): Promise<TriageEntry> {
+    const request = await this.getUndecided(id, warehouseId);
+    const role = await this.approverRole(actor);
+    this.assertMayDecide(request, role, await this.storedRequiredRole(request));
+    const workOrder = await storage.getWorkOrder(workOrderId);
+    if (!workOrder || workOrder.warehouseId !== warehouseId) {
+      throw new WorkRequestError('Work order not found', 404);
+    }
+    if (!OPEN_STATUSES.includes(workOrder.status)) {
+      throw new WorkRequestError('Requests can only be merged into open work orders', 409);
+    }
+
+    const updated = await this.claim(request, {
+      status: 'merged',
+      workOrderId: workOrder.id,
+      decidedBy: actor.userId,
+      decidedAt: new Date(),
+    });
+    const note = `${this.requesterNote(request)}: ${request.description}`;
+    const target = await storage.getWorkOrder(workOrder.id) ?? workOrder;
+    await storage.updateWorkOrder(workOrder.id, { notes: target.notes ? `${target.notes}\n\n${note}` : note });
+    await this.attachPhotos(request, workOrder.id, actor.userId);
+    await this.record(updated, 'merged', request.status, { userId: actor.userId, role }, { workOrderId: workOrder.id });
+    return this.toEntry(updated);
+  }
+
+  public async reject(id: string, reason: string, actor: TriageActor, warehouseId: string): Promise<TriageEntry> {
+    const data = workRequestRejectionSchema.parse({ reason });
+    const request = await this.getUndecided(id, warehouseId);
+    const role = await this.approverRole(actor);
+    this.assertMayDecide(request, role, await this.storedRequiredRole(request));
+    const updated = await this.claim(request, {
+      status: 'rejected',
+      decisionReason: data.reason,
+      decidedBy: actor.userId,
+      decidedAt: new Date(),
+    });
+    await this.record(updated, 'rejected', request.status, { userId: actor.userId, role }, { reason: data.reason });
+    return this.toEntry(updated);
+  }
+}
+
+export const workRequestService = WorkRequestService.getInstance();
@@ -2,13 +2,31 @@ import {
   profiles, 
   warehouses, 
   equipment, 
+  locations,
+  equipmentInstallations,
   workOrders, 
   workOrderChecklistItems,
+  checklistReadings,
+  workOrderStatusHistory,
+  workOrderSignatures,
   parts, 
   partsUsage,
   laborTime,
+  meterReadings,
   vendors,
   pmTemplates,
+  pmSchedulingRules,
+  pmSchedulingConfigs,
+  technicianShifts,
+  purchaseRequisitions,
+  purchaseOrders,
+  purchaseOrderLines,
+  purchaseOrderReceipts,
+  inventoryTransactions,
+  inventoryReservations,
+  cycleCounts,
+  cycleCountLines,
+  transferOrders,
   notifications,
   attachments,
   systemLogs,
@@ -18,18 +36,65 @@ import {
   type InsertWarehouse,
   type Equipment,
   type InsertEquipment,
+  type Location,
+  type InsertLocation,
+  type EquipmentInstallation,
+  type DowntimeEvent,
+  type FailureCode,
+  type WorkRequest,
+  type WorkRequestStatus,
+  type WorkRequestDecision,
+  type ApprovalThreshold,
+  type InsertApprovalThreshold,
   type WorkOrder,
   type InsertWorkOrder,
   type WorkOrderChecklistItem,
+  type InsertWorkOrderChecklistItem,
+  type ChecklistReading,
+  type WorkOrderStatusHistory,
+  type WorkOrderSignature,
   type Part,
   type InsertPart,
   type PartsUsage,
   type LaborTime,
   type InsertLaborTime,
+  type MeterReading,
   type Vendor,
   type InsertVendor,
   type PmTemplate,
   type InsertPmTemplate,
+  type PmSchedulingRule,
+  type InsertPmSchedulingRule,
+  type PmSchedulingConfig,
+  type InsertPmSchedulingConfig,
+  type TechnicianShift,
+  type PurchaseRequisition,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+  type PurchaseOrderReceipt,
+  type InventoryTransaction,
+  type InventoryPosting,
+  type InventoryReservation,
+  type CycleCount,
+  type CycleCountLine,
+  type TransferOrder,
+  type PushSubscription,
+  type SyncMutation,
+  type JobQueue,
+  type JobSchedule,
+  type JobLock,
+  type JobType,
+  type SlaCalendar,
+  type InsertSlaCalendar,
+  type SlaPolicy,
+  type InsertSlaPolicy,
+  type WorkOrderHold,
+  type EscalationRule,
+  type EscalationHistory,
+  type OnCallRotation,
+  type InsertOnCallRotation,
+  type OnCallOverride,
+  type InsertTechnicianShift,
   type Notification,
   type InsertNotification,
   type Attachment,
@@ -37,6 +102,26 @@ import {
   type SystemLog
 } from "@shared/schema";
 
+/**
+ * Thrown by versioned updates given an expectedVersion when the row has been changed since that version
+ */
+export class StaleVersionError extends Error {
+  constructor(public readonly entity: string, public readonly id: string) {
+    super(`${entity} ${id} was changed by someone else`);
+    this.name = 'StaleVersionError';
+  }
+}
+
+/**
+ * Thrown by postInventoryTransaction when an entry would take a part's stock below zero
+ */
+export class InsufficientStockError extends Error {
+  constructor(public readonly partId: string, public readonly onHand: number) {
+    super(`Part ${partId} has only ${onHand} on hand`);
+    this.name = 'InsufficientStockError';
+  }
+}
+
 export interface IStorage {
   // Initialize database with sample data
   initializeData(): Promise<void>;
@@ -56,42 +141,94 @@ export interface IStorage {
   // Equipment
   getEquipment(warehouseId: string): Promise<Equipment[]>;
   getEquipmentById(id: string): Promise<Equipment | undefined>;
-  getEquipmentByAssetTag(assetTag: string): Promise<Equipment | undefined>;
+  getEquipmentByAssetTag(assetTag: string, warehouseId?: string): Promise<Equipment | undefined>;
   createEquipment(equipment: InsertEquipment): Promise<Equipment>;
   updateEquipment(id: string, equipment: Partial<InsertEquipment>): Promise<Equipment>;
+
+  // Locations
+  getLocations(warehouseId: string): Promise<Location[]>;
+  getLocation(id: string): Promise<Location | undefined>;
+  createLocation(location: InsertLocation & { warehouseId: string }): Promise<Location>;
+  updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location>;
+
+  // Equipment Installations
+  getEquipmentInstallations(equipmentId: string): Promise<EquipmentInstallation[]>;
+  createEquipmentInstallation(installation: Omit<EquipmentInstallation, 'id'>): Promise<EquipmentInstallation>;
+  updateEquipmentInstallation(id: string, installation: Partial<EquipmentInstallation>): Promise<EquipmentInstallation>;
+
+  // Downtime Events
+  getDowntimeEvents(filters: { warehouseId?: string; equipmentId?: string; workOrderId?: string; open?: boolean }): Promise<DowntimeEvent[]>;
+  getDowntimeEvent(id: string): Promise<DowntimeEvent | undefined>;
+  createDowntimeEvent(event: Omit<DowntimeEvent, 'id' | 'createdAt'>): Promise<DowntimeEvent>;
+  updateDowntimeEvent(id: string, event: Partial<DowntimeEvent>): Promise<DowntimeEvent>;
+
+  // Failure Codes
+  getFailureCodes(warehouseId: string): Promise<FailureCode[]>;
+  getFailureCode(id: string): Promise<FailureCode | undefined>;
+  createFailureCode(code: Omit<FailureCode, 'id' | 'createdAt'>): Promise<FailureCode>;
+  updateFailureCode(id: string, code: Partial<FailureCode>): Promise<FailureCode>;
+
+  // Work Requests
+  getWorkRequests(warehouseId: string): Promise<WorkRequest[]>;
+  getWorkRequest(id: string): Promise<WorkRequest | undefined>;
+  getWorkRequestByTokenHash(tokenHash: string): Promise<WorkRequest | undefined>;
+  createWorkRequest(request: Omit<WorkRequest, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<WorkRequest>;
+  updateWorkRequest(id: string, request: Partial<WorkRequest>): Promise<WorkRequest>;
+  /** Applies the changes only while the request is still at expectedVersion in one of fromStatuses; undefined when it is not */
+  claimWorkRequest(id: string, expectedVersion: number, fromStatuses: readonly WorkRequestStatus[], changes: Partial<WorkRequest>): Promise<WorkRequest | undefined>;
+  getWorkRequestDecisions(requestId: string): Promise<WorkRequestDecision[]>;
+  createWorkRequestDecision(decision: Omit<WorkRequestDecision, 'id' | 'createdAt'>): Promise<WorkRequestDecision>;
+  getApprovalThresholds(warehouseId: string): Promise<ApprovalThreshold[]>;
+  upsertApprovalThreshold(warehouseId: string, threshold: InsertApprovalThreshold): Promise<ApprovalThreshold>;
   
   // Work Orders
   getWorkOrders(warehouseId: string, filters?: any): Promise<WorkOrder[]>;
   getWorkOrder(id: string): Promise<WorkOrder | undefined>;
   createWorkOrder(workOrder: InsertWorkOrder): Promise<WorkOrder>;
-  updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>): Promise<WorkOrder>;
+  updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>, expectedVersion?: number): Promise<WorkOrder>;
   deleteWorkOrder(id: string): Promise<void>;
   getWorkOrdersByAssignee(userId: string): Promise<WorkOrder[]>;
+  getChildWorkOrders(parentWorkOrderId: string): Promise<WorkOrder[]>;
+  
+  // Work Order Status History
+  getWorkOrderStatusHistory(workOrderId: string): Promise<WorkOrderStatusHistory[]>;
+  createWorkOrderStatusHistory(entry: Omit<WorkOrderStatusHistory, 'id' | 'createdAt'>): Promise<WorkOrderStatusHistory>;
+
+  // Work Order Signatures
+  getWorkOrderSignatures(workOrderId: string): Promise<WorkOrderSignature[]>;
+  getWorkOrderSignature(id: string): Promise<WorkOrderSignature | undefined>;
+  createWorkOrderSignature(signature: Omit<WorkOrderSignature, 'id'>): Promise<WorkOrderSignature>;
   
   // Work Order Checklist Items
   getChecklistItems(workOrderId: string): Promise<WorkOrderChecklistItem[]>;
-  createChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem>;
-  createWorkOrderChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem>;
-  updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>): Promise<WorkOrderChecklistItem>;
+  getChecklistItem(id: string): Promise<WorkOrderChecklistItem | undefined>;
+  createChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem>;
+  createWorkOrderChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem>;
+  updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>, expectedVersion?: number): Promise<WorkOrderChecklistItem>;
+
+  // Checklist Readings
+  getChecklistReadings(equipmentId: string, definitionKey?: string): Promise<ChecklistReading[]>;
+  createChecklistReading(reading: Omit<ChecklistReading, 'id'>): Promise<ChecklistReading>;
   
   // Parts
   getParts(warehouseId: string): Promise<Part[]>;
   getPart(id: string): Promise<Part | undefined>;
-  getPartByNumber(partNumber: string): Promise<Part | undefined>;
+  getPartByNumber(partNumber: string, warehouseId?: string): Promise<Part | undefined>;
+  getPartsByNumber(partNumber: string): Promise<Part[]>;
   createPart(part: InsertPart): Promise<Part>;
   updatePart(id: string, part: Partial<InsertPart>): Promise<Part>;
   getPartsUsage(workOrderId: string): Promise<PartsUsage[]>;
   getPartsUsageById(id: string): Promise<PartsUsage | undefined>;
   getPartsUsageByWorkOrder(workOrderId: string): Promise<PartsUsage[]>;
-  createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt'>): Promise<PartsUsage>;
-  updatePartsUsage(id: string, usage: Partial<PartsUsage>): Promise<PartsUsage>;
+  createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt' | 'version'>): Promise<PartsUsage>;
+  updatePartsUsage(id: string, usage: Partial<PartsUsage>, expectedVersion?: number): Promise<PartsUsage>;
   getPartsUsageAnalytics(filters: { startDate?: Date; equipmentId?: string }): Promise<(PartsUsage & { part?: Part })[]>;
   
   // Labor Time Tracking
   getLaborTime(workOrderId: string): Promise<LaborTime[]>;
   getLaborTimeById(id: string): Promise<LaborTime | undefined>;
   createLaborTime(laborTime: InsertLaborTime): Promise<LaborTime>;
-  updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>): Promise<LaborTime>;
+  updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>, expectedVersion?: number): Promise<LaborTime>;
   deleteLaborTime(id: string): Promise<void>;
   getActiveLaborTime(userId: string): Promise<LaborTime | undefined>;
   
@@ -99,7 +236,7 @@ export interface IStorage {
   getVendors(warehouseId: string): Promise<Vendor[]>;
   getVendor(id: string): Promise<Vendor | undefined>;
   createVendor(vendor: InsertVendor): Promise<Vendor>;
-  updateVendor(id: string, vendor: Partial<InsertVendor>): Promise<Vendor>;
+  updateVendor(id: string, vendor: Partial<Vendor>): Promise<Vendor>;
   deleteVendor(id: string): Promise<void>;
   
   // PM Templates
@@ -109,15 +246,125 @@ export interface IStorage {
   updatePmTemplate(id: string, updates: Partial<InsertPmTemplate>): Promise<PmTemplate | null>;
   deletePmTemplate(id: string): Promise<void>;
   
+  // PM Scheduling Rules and Config
+  getPmSchedulingRules(warehouseId: string): Promise<PmSchedulingRule[]>;
+  getPmSchedulingRule(id: string): Promise<PmSchedulingRule | undefined>;
+  createPmSchedulingRule(rule: InsertPmSchedulingRule): Promise<PmSchedulingRule>;
+  updatePmSchedulingRule(id: string, updates: Partial<InsertPmSchedulingRule>): Promise<PmSchedulingRule>;
+  deletePmSchedulingRule(id: string): Promise<void>;
+  getPmSchedulingConfig(warehouseId: string): Promise<PmSchedulingConfig | undefined>;
+  upsertPmSchedulingConfig(warehouseId: string, config: InsertPmSchedulingConfig, updatedBy?: string): Promise<PmSchedulingConfig>;
+
+  // Technician shift methods
+  getTechnicianShifts(warehouseId: string, technicianId?: string): Promise<TechnicianShift[]>;
+  createTechnicianShift(shift: InsertTechnicianShift): Promise<TechnicianShift>;
+  deleteTechnicianShift(warehouseId: string, id: string): Promise<boolean>; // false when the warehouse has no such shift
+
+  // Purchasing methods
+  getPurchaseRequisitions(warehouseId: string, filters?: { status?: PurchaseRequisition['status']; partId?: string }): Promise<PurchaseRequisition[]>;
+  getPurchaseRequisition(id: string): Promise<PurchaseRequisition | undefined>;
+  createPurchaseRequisition(requisition: Omit<PurchaseRequisition, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseRequisition>;
+  updatePurchaseRequisition(id: string, updates: Partial<PurchaseRequisition>): Promise<PurchaseRequisition>;
+  getPurchaseOrders(warehouseId: string, status?: PurchaseOrder['status']): Promise<PurchaseOrder[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  createPurchaseOrder(order: Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder>;
+  updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder>;
+  getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]>;
+  createPurchaseOrderLine(line: Omit<PurchaseOrderLine, 'id' | 'createdAt'>): Promise<PurchaseOrderLine>;
+  updatePurchaseOrderLine(id: string, updates: Partial<PurchaseOrderLine>): Promise<PurchaseOrderLine>;
+  getPurchaseOrderReceipts(purchaseOrderId: string): Promise<PurchaseOrderReceipt[]>;
+  createPurchaseOrderReceipt(receipt: Omit<PurchaseOrderReceipt, 'id' | 'receivedAt'>): Promise<PurchaseOrderReceipt>;
+
+  // Inventory ledger methods (transactions are append-only)
+  getInventoryTransactions(filters: { partId?: string; workOrderId?: string; warehouseId?: string; type?: InventoryTransaction['type']; referenceId?: string }): Promise<InventoryTransaction[]>;
+  createInventoryTransaction(transaction: Omit<InventoryTransaction, 'id' | 'createdAt'>): Promise<InventoryTransaction>;
+  /**
+   * Append an entry with its balance worked out while the part is locked, and set the part's cached stock
+   * level to match. A part with no ledger yet is first given an opening balance from its stock level.
+   */
+  postInventoryTransaction(transaction: InventoryPosting): Promise<InventoryTransaction>;
+  getInventoryReservations(filters: { partId?: string; workOrderId?: string; status?: InventoryReservation['status'] }): Promise<InventoryReservation[]>;
+  getInventoryReservation(id: string): Promise<InventoryReservation | undefined>;
+  createInventoryReservation(reservation: Omit<InventoryReservation, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryReservation>;
+  updateInventoryReservation(id: string, updates: Partial<InventoryReservation>): Promise<InventoryReservation>;
+  getCycleCounts(warehouseId: string, status?: CycleCount['status']): Promise<CycleCount[]>;
+  getCycleCount(id: string): Promise<CycleCount | undefined>;
+  createCycleCount(count: Omit<CycleCount, 'id' | 'createdAt'>): Promise<CycleCount>;
+  updateCycleCount(id: string, updates: Partial<CycleCount>): Promise<CycleCount>;
+  getCycleCountLines(cycleCountId: string): Promise<CycleCountLine[]>;
+  createCycleCountLine(line: Omit<CycleCountLine, 'id'>): Promise<CycleCountLine>;
+  updateCycleCountLine(id: string, updates: Partial<CycleCountLine>): Promise<CycleCountLine>;
+
+  // Transfer order methods
+  getTransferOrders(warehouseId: string, filters?: { direction?: 'inbound' | 'outbound'; status?: TransferOrder['status'] }): Promise<TransferOrder[]>;
+  getTransferOrder(id: string): Promise<TransferOrder | undefined>;
+  createTransferOrder(order: Omit<TransferOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<TransferOrder>;
+  updateTransferOrder(id: string, updates: Partial<TransferOrder>): Promise<TransferOrder>;
+  /** Applies the updates only while the order is in one of fromStatuses; undefined when it has moved on */
+  claimTransferOrder(id: string, fromStatuses: readonly TransferOrder['status'][], updates: Partial<TransferOrder>): Promise<TransferOrder | undefined>;
+  
   // Notifications
   getNotifications(userId: string): Promise<Notification[]>;
   createNotification(notification: InsertNotification): Promise<Notification>;
   markNotificationRead(id: string): Promise<void>;
+  updateNotification(id: string, updates: Partial<Notification>): Promise<Notification>;
+
+  // Web Push subscriptions
+  getPushSubscriptions(userId?: string): Promise<PushSubscription[]>;
+  getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined>;
+  createPushSubscription(subscription: Omit<PushSubscription, 'id' | 'createdAt'>): Promise<PushSubscription>;
+  updatePushSubscription(id: string, updates: Partial<PushSubscription>): Promise<PushSubscription>;
+  deletePushSubscription(id: string): Promise<void>;
+
+  // Offline sync idempotency log
+  getSyncMutation(idempotencyKey: string): Promise<SyncMutation | undefined>;
+  createSyncMutation(mutation: Omit<SyncMutation, 'id' | 'createdAt'>): Promise<SyncMutation>;
+
+  // Durable job queue
+  createJob(job: Omit<JobQueue, 'id' | 'createdAt'>): Promise<JobQueue | undefined>; // undefined when the dedupe key is taken
+  getJob(id: string): Promise<JobQueue | undefined>;
+  getJobs(filters: { status?: JobQueue['status']; jobType?: JobType; limit?: number }): Promise<JobQueue[]>;
+  updateJob(id: string, updates: Partial<JobQueue>): Promise<JobQueue>;
+  claimJobs(workerId: string, limit: number, leaseMs: number, now: Date): Promise<JobQueue[]>;
+  getJobQueueCounts(): Promise<{ jobType: JobType; status: JobQueue['status']; count: number }[]>;
+  getJobSchedules(): Promise<JobSchedule[]>;
+  getJobSchedule(name: string): Promise<JobSchedule | undefined>;
+  createJobSchedule(schedule: Omit<JobSchedule, 'updatedAt'>): Promise<JobSchedule>;
+  updateJobSchedule(name: string, updates: Partial<JobSchedule>): Promise<JobSchedule>;
+  advanceJobSchedule(name: string, expectedNextRunAt: Date, nextRunAt: Date, now: Date): Promise<boolean>; // false when another replica got there first
+  acquireJobLock(name: string, owner: string, ttlMs: number, now: Date): Promise<boolean>;
+  releaseJobLock(name: string, owner: string): Promise<void>;
+
+  // SLA calendars, policies and work order holds
+  getSlaCalendar(warehouseId: string): Promise<SlaCalendar | undefined>;
+  upsertSlaCalendar(warehouseId: string, calendar: InsertSlaCalendar, updatedBy?: string): Promise<SlaCalendar>;
+  getSlaPolicies(warehouseId: string): Promise<SlaPolicy[]>;
+  upsertSlaPolicy(warehouseId: string, policy: InsertSlaPolicy): Promise<SlaPolicy>;
+  getWorkOrderHolds(workOrderId: string): Promise<WorkOrderHold[]>;
+  createWorkOrderHold(hold: Omit<WorkOrderHold, 'id'>): Promise<WorkOrderHold>;
+  updateWorkOrderHold(id: string, updates: Partial<WorkOrderHold>): Promise<WorkOrderHold>;
+
+  // Escalation chains
+  getEscalationRules(warehouseId: string): Promise<EscalationRule[]>;
+  createEscalationRule(rule: Omit<EscalationRule, 'id' | 'createdAt'>): Promise<EscalationRule>;
+  updateEscalationRule(id: string, updates: Partial<EscalationRule>): Promise<EscalationRule>;
+  getEscalationHistory(workOrderId: string): Promise<EscalationHistory[]>;
+  createEscalationHistory(entry: Omit<EscalationHistory, 'id'>): Promise<EscalationHistory>;
+  updateEscalationHistory(id: string, updates: Partial<EscalationHistory>): Promise<EscalationHistory>;
+
+  // On-call rotations
+  getOnCallRotations(warehouseId: string): Promise<OnCallRotation[]>;
+  getOnCallRotation(id: string): Promise<OnCallRotation | undefined>;
+  upsertOnCallRotation(warehouseId: string, rotation: InsertOnCallRotation, updatedBy?: string): Promise<OnCallRotation>;
+  getOnCallOverrides(rotationId: string): Promise<OnCallOverride[]>;
+  createOnCallOverride(override: Omit<OnCallOverride, 'id' | 'createdAt'>): Promise<OnCallOverride>;
+  deleteOnCallOverride(id: string): Promise<void>;
   
   // Attachments
   getAttachments(workOrderId?: string, equipmentId?: string, pmTemplateId?: string, vendorId?: string): Promise<Attachment[]>;
   getAttachmentById(id: string): Promise<Attachment | undefined>;
   createAttachment(attachment: InsertAttachment): Promise<Attachment>;
+  updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment>;
   deleteAttachment(id: string): Promise<void>;
   getFileUploadStatistics(): Promise<{
     totalFiles: number;
@@ -130,10 +377,15 @@ export interface IStorage {
   getLaborTime(workOrderId: string): Promise<LaborTime[]>;
   getLaborTimeById(id: string): Promise<LaborTime | undefined>;
   createLaborTime(laborTime: InsertLaborTime): Promise<LaborTime>;
-  updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>): Promise<LaborTime>;
+  updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>, expectedVersion?: number): Promise<LaborTime>;
   deleteLaborTime(id: string): Promise<void>;
   getActiveLaborTime(userId: string): Promise<LaborTime | undefined>;
   
+  // Meter Readings
+  getMeterReadings(equipmentId: string, meterType?: MeterReading['meterType']): Promise<MeterReading[]>;
+  getLatestMeterReading(equipmentId: string, meterType: MeterReading['meterType']): Promise<MeterReading | undefined>;
+  createMeterReading(reading: Omit<MeterReading, 'id' | 'createdAt'>): Promise<MeterReading>;
+  
   // System Logs
   createSystemLog(log: Omit<SystemLog, 'id' | 'createdAt'>): Promise<SystemLog>;
 }
@@ -142,14 +394,49 @@ export class MemStorage implements IStorage {
   private profiles: Map<string, Profile>;
   private warehouses: Map<string, Warehouse>;
   private equipment: Map<string, Equipment>;
+  private locations: Map<string, Location>;
+  private equipmentInstallations: Map<string, EquipmentInstallation>;
+  private downtimeEvents: Map<string, DowntimeEvent>;
+  private failureCodes: Map<string, FailureCode>;
+  private workRequests: Map<string, WorkRequest>;
+  private workRequestDecisions: Map<string, WorkRequestDecision>;
+  private approvalThresholds: Map<string, ApprovalThreshold>;
   private laborTime: Map<string, LaborTime>;
+  private meterReadings: Map<string, MeterReading>;
   private workOrders: Map<string, WorkOrder>;
   private checklistItems: Map<string, WorkOrderChecklistItem>;
+  private checklistReadings: Map<string, ChecklistReading>;
+  private statusHistory: Map<string, WorkOrderStatusHistory>;
+  private signatures: Map<string, WorkOrderSignature>;
   private parts: Map<string, Part>;
   private partsUsage: Map<string, PartsUsage>;
   private vendors: Map<string, Vendor>;
   private pmTemplates: Map<string, PmTemplate>;
+  private pmSchedulingRules: Map<string, PmSchedulingRule>;
+  private pmSchedulingConfigs: Map<string, PmSchedulingConfig>;
+  private technicianShifts: Map<string, TechnicianShift>;
+  private purchaseRequisitions: Map<string, PurchaseRequisition>;
+  private purchaseOrders: Map<string, PurchaseOrder>;
+  private purchaseOrderLines: Map<string, PurchaseOrderLine>;
+  private purchaseOrderReceipts: Map<string, PurchaseOrderReceipt>;
+  private inventoryTransactions: InventoryTransaction[];
+  private inventoryReservations: Map<string, InventoryReservation>;
+  private cycleCounts: Map<string, CycleCount>;
+  private cycleCountLines: Map<string, CycleCountLine>;
+  private transferOrders: Map<string, TransferOrder>;
   private notifications: Map<string, Notification>;
+  private pushSubscriptions: Map<string, PushSubscription>;
+  private syncMutations: Map<string, SyncMutation>;
+  private jobQueue: Map<string, JobQueue>;
+  private jobSchedules: Map<string, JobSchedule>;
+  private jobLocks: Map<string, JobLock>;
+  private slaCalendars: Map<string, SlaCalendar>;
+  private slaPolicies: Map<string, SlaPolicy>;
+  private workOrderHolds: Map<string, WorkOrderHold>;
+  private escalationRules: Map<string, EscalationRule>;
+  private escalationHistory: Map<string, EscalationHistory>;
+  private onCallRotations: Map<string, OnCallRotation>;
+  private onCallOverrides: Map<string, OnCallOverride>;
   private attachments: Map<string, Attachment>;
   private systemLogs: Map<string, SystemLog>;
 
@@ -157,13 +444,48 @@ export class MemStorage implements IStorage {
     this.profiles = new Map();
     this.warehouses = new Map();
     this.equipment = new Map();
+    this.locations = new Map();
+    this.equipmentInstallations = new Map();
+    this.downtimeEvents = new Map();
+    this.failureCodes = new Map();
+    this.workRequests = new Map();
+    this.workRequestDecisions = new Map();
+    this.approvalThresholds = new Map();
     this.workOrders = new Map();
     this.checklistItems = new Map();
+    this.checklistReadings = new Map();
+    this.statusHistory = new Map();
+    this.signatures = new Map();
     this.parts = new Map();
     this.partsUsage = new Map();
     this.laborTime = new Map();
+    this.meterReadings = new Map();
     this.vendors = new Map();
     this.pmTemplates = new Map();
+    this.pmSchedulingRules = new Map();
+    this.pmSchedulingConfigs = new Map();
+    this.technicianShifts = new Map();
+    this.purchaseRequisitions = new Map();
+    this.purchaseOrders = new Map();
+    this.purchaseOrderLines = new Map();
+    this.purchaseOrderReceipts = new Map();
+    this.inventoryTransactions = [];
+    this.inventoryReservations = new Map();
+    this.cycleCounts = new Map();
+    this.cycleCountLines = new Map();
+    this.transferOrders = new Map();
+    this.pushSubscriptions = new Map();
+    this.syncMutations = new Map();
+    this.jobQueue = new Map();
+    this.jobSchedules = new Map();
+    this.jobLocks = new Map();
+    this.slaCalendars = new Map();
+    this.slaPolicies = new Map();
+    this.workOrderHolds = new Map();
+    this.escalationRules = new Map();
+    this.escalationHistory = new Map();
+    this.onCallRotations = new Map();
+    this.onCallOverrides = new Map();
     this.notifications = new Map();
     this.attachments = new Map();
     this.systemLogs = new Map();
@@ -263,6 +585,19 @@ export class MemStorage implements IStorage {
     this.profiles.set(technicianId, technician);
     this.profiles.set(managerId, manager);
 
+    // Create sample location tree
+    const siteId = this.generateId();
+    const buildingId = this.generateId();
+    const sampleLocation = (id: string, name: string, type: Location['type'], parentId: string | null): Location => ({
+      id, name, code: null, type, parentId, description: null, active: true, warehouseId, createdAt: new Date(),
+    });
+    const areaIds = { 'Warehouse A': this.generateId(), 'Main Floor': this.generateId(), 'Loading Dock': this.generateId() };
+    this.locations.set(siteId, sampleLocation(siteId, 'Main Site', 'site', null));
+    this.locations.set(buildingId, sampleLocation(buildingId, 'Distribution Center', 'building', siteId));
+    for (const [name, id] of Object.entries(areaIds)) {
+      this.locations.set(id, sampleLocation(id, name, 'area', buildingId));
+    }
+
     // Create sample equipment
     const equipmentId1 = this.generateId();
     const equipmentId2 = this.generateId();
@@ -272,8 +607,11 @@ export class MemStorage implements IStorage {
       id: equipmentId1,
       assetTag: "UAS-001",
       model: "CB-2000X",
+      equipmentClass: "conveyor",
       description: "Conveyor Belt System",
       area: "Warehouse A",
+      locationId: areaIds['Warehouse A'],
+      parentEquipmentId: null,
       status: "active",
       criticality: "high",
       installDate: new Date("2020-01-15"),
@@ -289,8 +627,11 @@ export class MemStorage implements IStorage {
       id: equipmentId2,
       assetTag: "HVAC-205",
       model: "HVAC-PRO-500",
+      equipmentClass: "hvac",
       description: "HVAC System - Main Floor",
       area: "Main Floor",
+      locationId: areaIds['Main Floor'],
+      parentEquipmentId: null,
       status: "active",
       criticality: "medium",
       installDate: new Date("2019-06-20"),
@@ -306,8 +647,11 @@ export class MemStorage implements IStorage {
       id: equipmentId3,
       assetTag: "FLT-001",
       model: "Forklift-3000",
+      equipmentClass: "forklift",
       description: "Electric Forklift",
       area: "Loading Dock",
+      locationId: areaIds['Loading Dock'],
+      parentEquipmentId: null,
       status: "active",
       criticality: "medium",
       installDate: new Date("2021-03-10"),
@@ -323,6 +667,36 @@ export class MemStorage implements IStorage {
     this.equipment.set(equipmentId2, equipment2);
     this.equipment.set(equipmentId3, equipment3);
 
+    // Sample failure codes: general ones plus a few for conveyors
+    const sampleCodes: Array<[FailureCode['kind'], string, string, string | null]> = [
+      ['problem', 'NOISE', 'Abnormal noise', null],
+      ['problem', 'NO-START', 'Will not start', null],
+      ['problem', 'LEAK', 'Leaking', null],
+      ['problem', 'BELT-TRACK', 'Belt tracking off', 'conveyor'],
+      ['cause', 'WEAR', 'Normal wear', null],
+      ['cause', 'LUBE', 'Lack of lubrication', null],
+      ['cause', 'ELEC', 'Electrical fault', null],
+      ['cause', 'MISALIGN', 'Misalignment', null],
+      ['remedy', 'REPLACE', 'Replaced component', null],
+      ['remedy', 'ADJUST', 'Adjusted / realigned', null],
+      ['remedy', 'REPAIR', 'Repaired in place', null],
+    ];
+    for (const [kind, code, name, equipmentClass] of sampleCodes) {
+      const id = this.generateId();
+      this.failureCodes.set(id, {
+        id,
+        kind,
+        code,
+        name,
+        description: null,
+        equipmentModel: null,
+        equipmentClass,
+        active: true,
+        warehouseId,
+        createdAt: new Date(),
+      });
+    }
+
     // Create sample work orders
     const workOrderId1 = this.generateId();
     const workOrderId2 = this.generateId();
@@ -346,9 +720,23 @@ export class MemStorage implements IStorage {
       dueDate: new Date(),
       estimatedHours: "4.00",
       notes: "Belt showing signs of misalignment. Customer reported unusual noise.",
+      problemCodeId: null,
+      causeCodeId: null,
+      remedyCodeId: null,
       followUp: false,
+      parentWorkOrderId: null,
       escalated: false,
       escalationLevel: 0,
+      holdReason: null,
+      respondedAt: null,
+      slaResponseDueAt: null,
+      slaResolutionDueAt: null,
+      slaResponseBreachedAt: null,
+      slaResolutionBreachedAt: null,
+      vendorId: null,
+      vendorQuotedCost: null,
+      vendorInvoicedCost: null,
+      version: 1,
       warehouseId,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -372,9 +760,23 @@ export class MemStorage implements IStorage {
       dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000), // Tomorrow
       estimatedHours: "2.00",
       notes: "Monthly PM check - filters, coils, and system performance",
+      problemCodeId: null,
+      causeCodeId: null,
+      remedyCodeId: null,
       followUp: false,
+      parentWorkOrderId: null,
       escalated: false,
       escalationLevel: 0,
+      holdReason: null,
+      respondedAt: null,
+      slaResponseDueAt: null,
+      slaResolutionDueAt: null,
+      slaResponseBreachedAt: null,
+      slaResolutionBreachedAt: null,
+      vendorId: null,
+      vendorQuotedCost: null,
+      vendorInvoicedCost: null,
+      version: 1,
       warehouseId,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -398,9 +800,23 @@ export class MemStorage implements IStorage {
       estimatedHours: "1.50",
       actualHours: "1.25",
       notes: "Completed monthly inspection. All systems operational.",
+      problemCodeId: null,
+      causeCodeId: null,
+      remedyCodeId: null,
       followUp: false,
+      parentWorkOrderId: null,
       escalated: false,
       escalationLevel: 0,
+      holdReason: null,
+      respondedAt: null,
+      slaResponseDueAt: null,
+      slaResolutionDueAt: null,
+      slaResponseBreachedAt: null,
+      slaResolutionBreachedAt: null,
+      vendorId: null,
+      vendorQuotedCost: null,
+      vendorInvoicedCost: null,
+      version: 1,
       warehouseId,
       createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
       updatedAt: new Date(Date.now() - 12 * 60 * 60 * 1000),
@@ -488,6 +904,7 @@ export class MemStorage implements IStorage {
       workOrderId: workOrderId1,
       equipmentId: equipmentId1,
       partId: null,
+      emailDigestPending: false,
       createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
     };
     
@@ -501,6 +918,7 @@ export class MemStorage implements IStorage {
       partId: partId1,
       equipmentId: null,
       workOrderId: null,
+      emailDigestPending: false,
       createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000), // 4 hours ago
     };
     
@@ -514,6 +932,7 @@ export class MemStorage implements IStorage {
       workOrderId: workOrderId1,
       equipmentId: equipmentId1,
       partId: null,
+      emailDigestPending: false,
       createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000), // 6 hours ago
     };
 
@@ -531,6 +950,8 @@ export class MemStorage implements IStorage {
       description: "Monthly oil filter replacement for Pump Model A",
       estimatedDuration: 45,
       frequency: "monthly",
+      meterType: null,
+      usageInterval: null,
       customFields: { oilType: "10W-30", filterSize: "Standard" },
       active: true,
       warehouseId,
@@ -546,7 +967,28 @@ export class MemStorage implements IStorage {
       description: "Weekly belt inspection for Pump Model A",
       estimatedDuration: 30,
       frequency: "weekly",
-      customFields: { beltType: "V-Belt", tension: "Medium" },
+      meterType: null,
+      usageInterval: null,
+      customFields: {
+        beltType: "V-Belt",
+        tension: "Medium",
+        checklistItems: [
+          { key: "belt_tension", component: "Belt", action: "Measure belt tension", type: "numeric", unit: "N", min: 350, max: 450 },
+          { key: "motor_temperature", component: "Motor", action: "Record motor housing temperature", type: "numeric", unit: "°C", max: 80 },
+          { key: "guard_in_place", component: "Belt guard", action: "Guard fitted and secure?", type: "boolean", expected: true },
+          {
+            key: "belt_condition",
+            component: "Belt",
+            action: "Belt surface condition",
+            type: "choice",
+            options: [
+              { value: "Good", acceptable: true },
+              { value: "Glazed", acceptable: true },
+              { value: "Cracked", acceptable: false },
+            ],
+          },
+        ],
+      },
       active: true,
       warehouseId,
       createdAt: new Date(),
@@ -561,6 +1003,8 @@ export class MemStorage implements IStorage {
       description: "Monthly bearing maintenance for Conveyor System",
       estimatedDuration: 60,
       frequency: "monthly",
+      meterType: "hours",
+      usageInterval: "500.00",
       customFields: { lubricant: "Multi-purpose grease" },
       active: true,
       warehouseId,
@@ -637,15 +1081,18 @@ export class MemStorage implements IStorage {
     return this.equipment.get(id);
   }
 
-  async getEquipmentByAssetTag(assetTag: string): Promise<Equipment | undefined> {
-    return Array.from(this.equipment.values()).find(e => e.assetTag === assetTag);
+  async getEquipmentByAssetTag(assetTag: string, warehouseId?: string): Promise<Equipment | undefined> {
+    return Array.from(this.equipment.values()).find(e => e.assetTag === assetTag && (!warehouseId || e.warehouseId === warehouseId));
   }
 
   async createEquipment(insertEquipment: any): Promise<Equipment> {
     const id = this.generateId();
     const equipment: Equipment = {
-      id,
+      equipmentClass: null,
+      locationId: null,
+      parentEquipmentId: null,
       ...insertEquipment,
+      id,
       createdAt: new Date(),
     };
     this.equipment.set(id, equipment);
@@ -661,6 +1108,189 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Location methods
+  async getLocations(warehouseId: string): Promise<Location[]> {
+    return Array.from(this.locations.values())
+      .filter(l => l.warehouseId === warehouseId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    return this.locations.get(id);
+  }
+
+  async createLocation(location: InsertLocation & { warehouseId: string }): Promise<Location> {
+    const id = this.generateId();
+    const created: Location = {
+      code: null,
+      parentId: null,
+      description: null,
+      active: true,
+      ...location,
+      id,
+      createdAt: new Date(),
+    } as Location;
+    this.locations.set(id, created);
+    return created;
+  }
+
+  async updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location> {
+    const existing = this.locations.get(id);
+    if (!existing) throw new Error('Location not found');
+    const updated: Location = { ...existing, ...location };
+    this.locations.set(id, updated);
+    return updated;
+  }
+
+  // Equipment installation methods
+  async getEquipmentInstallations(equipmentId: string): Promise<EquipmentInstallation[]> {
+    return Array.from(this.equipmentInstallations.values())
+      .filter(i => i.equipmentId === equipmentId)
+      .sort((a, b) => new Date(a.installedAt).getTime() - new Date(b.installedAt).getTime());
+  }
+
+  async createEquipmentInstallation(installation: Omit<EquipmentInstallation, 'id'>): Promise<EquipmentInstallation> {
+    const id = this.generateId();
+    const created: EquipmentInstallation = { ...installation, id };
+    this.equipmentInstallations.set(id, created);
+    return created;
+  }
+
+  async updateEquipmentInstallation(id: string, installation: Partial<EquipmentInstallation>): Promise<EquipmentInstallation> {
+    const existing = this.equipmentInstallations.get(id);
+    if (!existing) throw new Error('Installation not found');
+    const updated: EquipmentInstallation = { ...existing, ...installation };
+    this.equipmentInstallations.set(id, updated);
+    return updated;
+  }
+
+  // Downtime event methods
+  async getDowntimeEvents(filters: { warehouseId?: string; equipmentId?: string; workOrderId?: string; open?: boolean }): Promise<DowntimeEvent[]> {
+    return Array.from(this.downtimeEvents.values())
+      .filter(e => !filters.warehouseId || e.warehouseId === filters.warehouseId)
+      .filter(e => !filters.equipmentId || e.equipmentId === filters.equipmentId)
+      .filter(e => !filters.workOrderId || e.workOrderId === filters.workOrderId)
+      .filter(e => filters.open === undefined || (e.endedAt === null) === filters.open)
+      .sort((a, b) => new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime());
+  }
+
+  async getDowntimeEvent(id: string): Promise<DowntimeEvent | undefined> {
+    return this.downtimeEvents.get(id);
+  }
+
+  async createDowntimeEvent(event: Omit<DowntimeEvent, 'id' | 'createdAt'>): Promise<DowntimeEvent> {
+    const id = this.generateId();
+    const created: DowntimeEvent = { ...event, id, createdAt: new Date() };
+    this.downtimeEvents.set(id, created);
+    return created;
+  }
+
+  async updateDowntimeEvent(id: string, event: Partial<DowntimeEvent>): Promise<DowntimeEvent> {
+    const existing = this.downtimeEvents.get(id);
+    if (!existing) throw new Error('Downtime event not found');
+    const updated: DowntimeEvent = { ...existing, ...event };
+    this.downtimeEvents.set(id, updated);
+    return updated;
+  }
+
+  // Failure code methods
+  async getFailureCodes(warehouseId: string): Promise<FailureCode[]> {
+    return Array.from(this.failureCodes.values())
+      .filter(c => c.warehouseId === warehouseId)
+      .sort((a, b) => a.kind.localeCompare(b.kind) || a.code.localeCompare(b.code));
+  }
+
+  async getFailureCode(id: string): Promise<FailureCode | undefined> {
+    return this.failureCodes.get(id);
+  }
+
+  async createFailureCode(code: Omit<FailureCode, 'id' | 'createdAt'>): Promise<FailureCode> {
+    const id = this.generateId();
+    const created: FailureCode = { ...code, id, createdAt: new Date() };
+    this.failureCodes.set(id, created);
+    return created;
+  }
+
+  async updateFailureCode(id: string, code: Partial<FailureCode>): Promise<FailureCode> {
+    const existing = this.failureCodes.get(id);
+    if (!existing) throw new Error('Failure code not found');
+    const updated: FailureCode = { ...existing, ...code };
+    this.failureCodes.set(id, updated);
+    return updated;
+  }
+
+  // Work request methods
+  async getWorkRequests(warehouseId: string): Promise<WorkRequest[]> {
+    return Array.from(this.workRequests.values())
+      .filter(r => r.warehouseId === warehouseId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async getWorkRequest(id: string): Promise<WorkRequest | undefined> {
+    return this.workRequests.get(id);
+  }
+
+  async getWorkRequestByTokenHash(tokenHash: string): Promise<WorkRequest | undefined> {
+    return Array.from(this.workRequests.values()).find(r => r.tokenHash === tokenHash);
+  }
+
+  async createWorkRequest(request: Omit<WorkRequest, 'id' | 'createdAt' | 'updatedAt' | 'version'>): Promise<WorkRequest> {
+    const id = this.generateId();
+    const now = new Date();
+    const created: WorkRequest = { ...request, id, version: 1, createdAt: now, updatedAt: now };
+    this.workRequests.set(id, created);
+    return created;
+  }
+
+  async updateWorkRequest(id: string, request: Partial<WorkRequest>): Promise<WorkRequest> {
+    const existing = this.workRequests.get(id);
+    if (!existing) throw new Error('Work request not found');
+    const updated: WorkRequest = { ...existing, ...request, version: (existing.version ?? 1) + 1, updatedAt: new Date() };
+    this.workRequests.set(id, updated);
+    return updated;
+  }
+
+  async claimWorkRequest(id: string, expectedVersion: number, fromStatuses: readonly WorkRequestStatus[], changes: Partial<WorkRequest>): Promise<WorkRequest | undefined> {
+    const existing = this.workRequests.get(id);
+    if (!existing || (existing.version ?? 1) !== expectedVersion || !fromStatuses.includes(existing.status)) {
+      return undefined;
+    }
+    return this.updateWorkRequest(id, changes);
+  }
+
+  async getWorkRequestDecisions(requestId: string): Promise<WorkRequestDecision[]> {
+    return Array.from(this.workRequestDecisions.values())
+      .filter(d => d.requestId === requestId)
+      .sort((a, b) => (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+  }
+
+  async createWorkRequestDecision(decision: Omit<WorkRequestDecision, 'id' | 'createdAt'>): Promise<WorkRequestDecision> {
+    const id = this.generateId();
+    const created: WorkRequestDecision = { ...decision, id, createdAt: new Date() };
+    this.workRequestDecisions.set(id, created);
+    return created;
+  }
+
+  async getApprovalThresholds(warehouseId: string): Promise<ApprovalThreshold[]> {
+    return Array.from(this.approvalThresholds.values()).filter(t => t.warehouseId === warehouseId);
+  }
+
+  async upsertApprovalThreshold(warehouseId: string, threshold: InsertApprovalThreshold): Promise<ApprovalThreshold> {
+    const existing = Array.from(this.approvalThresholds.values()).find(t =>
+      t.warehouseId === warehouseId && t.role === threshold.role
+    );
+    const saved: ApprovalThreshold = {
+      id: existing?.id || this.generateId(),
+      warehouseId,
+      role: threshold.role,
+      maxCost: threshold.maxCost === null ? null : String(threshold.maxCost),
+      maxHours: threshold.maxHours === null ? null : String(threshold.maxHours),
+      updatedAt: new Date(),
+    };
+    this.approvalThresholds.set(saved.id, saved);
+    return saved;
+  }
+
   // Work Order methods
   async getWorkOrders(warehouseId: string, filters?: any): Promise<WorkOrder[]> {
     let workOrders = Array.from(this.workOrders.values()).filter(wo => wo.warehouseId === warehouseId);
@@ -689,6 +1319,7 @@ export class MemStorage implements IStorage {
       id,
       foNumber,
       ...(insertWorkOrder as any),
+      version: 1,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -696,9 +1327,12 @@ export class MemStorage implements IStorage {
     return workOrder;
   }
 
-  async updateWorkOrder(id: string, updateWorkOrder: Partial<InsertWorkOrder>): Promise<WorkOrder> {
+  async updateWorkOrder(id: string, updateWorkOrder: Partial<InsertWorkOrder>, expectedVersion?: number): Promise<WorkOrder> {
     const existing = this.workOrders.get(id);
     if (!existing) throw new Error('Work order not found');
+    if (expectedVersion !== undefined && (existing.version ?? 1) !== expectedVersion) {
+      throw new StaleVersionError('work_orders', id);
+    }
     
     // Convert dueDate string to Date if needed
     const processedUpdates: any = { ...updateWorkOrder };
@@ -709,6 +1343,7 @@ export class MemStorage implements IStorage {
     const updated: WorkOrder = { 
       ...existing, 
       ...processedUpdates,
+      version: (existing.version ?? 1) + 1,
       updatedAt: new Date(),
     };
     this.workOrders.set(id, updated);
@@ -727,6 +1362,50 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
+  async getChildWorkOrders(parentWorkOrderId: string): Promise<WorkOrder[]> {
+    return Array.from(this.workOrders.values())
+      .filter(wo => wo.parentWorkOrderId === parentWorkOrderId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  // Work order status history
+  async getWorkOrderStatusHistory(workOrderId: string): Promise<WorkOrderStatusHistory[]> {
+    return Array.from(this.statusHistory.values())
+      .filter(entry => entry.workOrderId === workOrderId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createWorkOrderStatusHistory(entry: Omit<WorkOrderStatusHistory, 'id' | 'createdAt'>): Promise<WorkOrderStatusHistory> {
+    const id = this.generateId();
+    const historyEntry: WorkOrderStatusHistory = {
+      reason: null,
+      metadata: null,
+      ...(entry as any),
+      id,
+      createdAt: new Date(),
+    };
+    this.statusHistory.set(id, historyEntry);
+    return historyEntry;
+  }
+
+  // Work order signatures
+  async getWorkOrderSignatures(workOrderId: string): Promise<WorkOrderSignature[]> {
+    return Array.from(this.signatures.values())
+      .filter(s => s.workOrderId === workOrderId)
+      .sort((a, b) => new Date(a.signedAt).getTime() - new Date(b.signedAt).getTime());
+  }
+
+  async getWorkOrderSignature(id: string): Promise<WorkOrderSignature | undefined> {
+    return this.signatures.get(id);
+  }
+
+  async createWorkOrderSignature(signature: Omit<WorkOrderSignature, 'id'>): Promise<WorkOrderSignature> {
+    const id = this.generateId();
+    const created: WorkOrderSignature = { ...signature, id };
+    this.signatures.set(id, created);
+    return created;
+  }
+
   // Checklist items
   async getChecklistItems(workOrderId: string): Promise<WorkOrderChecklistItem[]> {
     return Array.from(this.checklistItems.values())
@@ -734,30 +1413,65 @@ export class MemStorage implements IStorage {
       .sort((a, b) => a.sortOrder - b.sortOrder);
   }
 
-  async createChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem> {
+  async getChecklistItem(id: string): Promise<WorkOrderChecklistItem | undefined> {
+    return this.checklistItems.get(id);
+  }
+
+  async createChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem> {
     const id = this.generateId();
     const checklistItem: WorkOrderChecklistItem = {
+      itemType: 'check',
+      definitionKey: null,
+      unit: null,
+      minValue: null,
+      maxValue: null,
+      expectedBoolean: null,
+      options: null,
+      followUpMode: null,
+      followUpWorkOrderId: null,
+      value: null,
+      withinLimits: null,
+      recordedBy: null,
+      recordedAt: null,
       ...item,
       id,
+      version: 1,
       createdAt: new Date(),
     };
     this.checklistItems.set(id, checklistItem);
     return checklistItem;
   }
 
-  async createWorkOrderChecklistItem(item: Omit<WorkOrderChecklistItem, 'id' | 'createdAt'>): Promise<WorkOrderChecklistItem> {
+  async createWorkOrderChecklistItem(item: InsertWorkOrderChecklistItem): Promise<WorkOrderChecklistItem> {
     return this.createChecklistItem(item);
   }
 
-  async updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>): Promise<WorkOrderChecklistItem> {
+  async updateChecklistItem(id: string, item: Partial<WorkOrderChecklistItem>, expectedVersion?: number): Promise<WorkOrderChecklistItem> {
     const existing = this.checklistItems.get(id);
     if (!existing) throw new Error('Checklist item not found');
+    if (expectedVersion !== undefined && (existing.version ?? 1) !== expectedVersion) {
+      throw new StaleVersionError('work_order_checklist_items', id);
+    }
     
-    const updated: WorkOrderChecklistItem = { ...existing, ...item };
+    const updated: WorkOrderChecklistItem = { ...existing, ...item, version: (existing.version ?? 1) + 1 };
     this.checklistItems.set(id, updated);
     return updated;
   }
 
+  // Checklist readings
+  async getChecklistReadings(equipmentId: string, definitionKey?: string): Promise<ChecklistReading[]> {
+    return Array.from(this.checklistReadings.values())
+      .filter(r => r.equipmentId === equipmentId && (!definitionKey || r.definitionKey === definitionKey))
+      .sort((a, b) => new Date(a.recordedAt).getTime() - new Date(b.recordedAt).getTime());
+  }
+
+  async createChecklistReading(reading: Omit<ChecklistReading, 'id'>): Promise<ChecklistReading> {
+    const id = this.generateId();
+    const checklistReading: ChecklistReading = { ...reading, id };
+    this.checklistReadings.set(id, checklistReading);
+    return checklistReading;
+  }
+
   // Parts methods
   async getParts(warehouseId: string): Promise<Part[]> {
     return Array.from(this.parts.values()).filter(p => p.warehouseId === warehouseId && p.active);
@@ -767,8 +1481,12 @@ export class MemStorage implements IStorage {
     return this.parts.get(id);
   }
 
-  async getPartByNumber(partNumber: string): Promise<Part | undefined> {
-    return Array.from(this.parts.values()).find(p => p.partNumber === partNumber);
+  async getPartByNumber(partNumber: string, warehouseId?: string): Promise<Part | undefined> {
+    return Array.from(this.parts.values()).find(p => p.partNumber === partNumber && (!warehouseId || p.warehouseId === warehouseId));
+  }
+
+  async getPartsByNumber(partNumber: string): Promise<Part[]> {
+    return Array.from(this.parts.values()).filter(p => p.partNumber === partNumber && p.active);
   }
 
   async createPart(insertPart: InsertPart): Promise<Part> {
@@ -795,11 +1513,12 @@ export class MemStorage implements IStorage {
     return Array.from(this.partsUsage.values()).filter(pu => pu.workOrderId === workOrderId);
   }
 
-  async createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt'>): Promise<PartsUsage> {
+  async createPartsUsage(usage: Omit<PartsUsage, 'id' | 'createdAt' | 'version'>): Promise<PartsUsage> {
     const id = this.generateId();
     const partsUsage: PartsUsage = {
       ...usage,
       id,
+      version: 1,
       createdAt: new Date(),
     };
     this.partsUsage.set(id, partsUsage);
@@ -814,11 +1533,14 @@ export class MemStorage implements IStorage {
     return Array.from(this.partsUsage.values()).filter(pu => pu.workOrderId === workOrderId);
   }
 
-  async updatePartsUsage(id: string, usage: Partial<PartsUsage>): Promise<PartsUsage> {
+  async updatePartsUsage(id: string, usage: Partial<PartsUsage>, expectedVersion?: number): Promise<PartsUsage> {
     const existing = this.partsUsage.get(id);
     if (!existing) throw new Error('Parts usage not found');
+    if (expectedVersion !== undefined && (existing.version ?? 1) !== expectedVersion) {
+      throw new StaleVersionError('parts_usage', id);
+    }
     
-    const updated: PartsUsage = { ...existing, ...usage };
+    const updated: PartsUsage = { ...existing, ...usage, version: (existing.version ?? 1) + 1 };
     this.partsUsage.set(id, updated);
     return updated;
   }
@@ -868,7 +1590,7 @@ export class MemStorage implements IStorage {
     return vendor;
   }
 
-  async updateVendor(id: string, updateVendor: Partial<InsertVendor>): Promise<Vendor> {
+  async updateVendor(id: string, updateVendor: Partial<Vendor>): Promise<Vendor> {
     const existing = this.vendors.get(id);
     if (!existing) throw new Error('Vendor not found');
     
@@ -920,6 +1642,352 @@ export class MemStorage implements IStorage {
     this.pmTemplates.delete(id);
   }
 
+  // PM scheduling rule methods
+  async getPmSchedulingRules(warehouseId: string): Promise<PmSchedulingRule[]> {
+    return Array.from(this.pmSchedulingRules.values()).filter(r => r.warehouseId === warehouseId);
+  }
+
+  async getPmSchedulingRule(id: string): Promise<PmSchedulingRule | undefined> {
+    return this.pmSchedulingRules.get(id);
+  }
+
+  async createPmSchedulingRule(insertRule: InsertPmSchedulingRule): Promise<PmSchedulingRule> {
+    const id = this.generateId();
+    const rule: PmSchedulingRule = {
+      templateId: null,
+      customFrequencyDays: null,
+      conditions: {},
+      autoGenerate: true,
+      leadTimeDays: 1,
+      assignedTechnicians: [],
+      requiredParts: [],
+      estimatedDuration: null,
+      isActive: true,
+      ...(insertRule as any),
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.pmSchedulingRules.set(id, rule);
+    return rule;
+  }
+
+  async updatePmSchedulingRule(id: string, updates: Partial<InsertPmSchedulingRule>): Promise<PmSchedulingRule> {
+    const existing = this.pmSchedulingRules.get(id);
+    if (!existing) {
+      throw new Error('PM scheduling rule not found');
+    }
+    const updated: PmSchedulingRule = { ...existing, ...(updates as any), id, updatedAt: new Date() };
+    this.pmSchedulingRules.set(id, updated);
+    return updated;
+  }
+
+  async deletePmSchedulingRule(id: string): Promise<void> {
+    this.pmSchedulingRules.delete(id);
+  }
+
+  async getPmSchedulingConfig(warehouseId: string): Promise<PmSchedulingConfig | undefined> {
+    return this.pmSchedulingConfigs.get(warehouseId);
+  }
+
+  async upsertPmSchedulingConfig(warehouseId: string, config: InsertPmSchedulingConfig, updatedBy?: string): Promise<PmSchedulingConfig> {
+    const existing = this.pmSchedulingConfigs.get(warehouseId);
+    const saved: PmSchedulingConfig = {
+      id: existing?.id || this.generateId(),
+      warehouseId,
+      globalSettings: config.globalSettings as PmSchedulingConfig['globalSettings'],
+      escalationRules: config.escalationRules as PmSchedulingConfig['escalationRules'],
+      complianceTargets: config.complianceTargets as PmSchedulingConfig['complianceTargets'],
+      updatedBy: updatedBy || null,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    };
+    this.pmSchedulingConfigs.set(warehouseId, saved);
+    return saved;
+  }
+
+  // Technician shift methods
+  async getTechnicianShifts(warehouseId: string, technicianId?: string): Promise<TechnicianShift[]> {
+    return Array.from(this.technicianShifts.values())
+      .filter(shift => shift.warehouseId === warehouseId && (!technicianId || shift.technicianId === technicianId))
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  }
+
+  async createTechnicianShift(insertShift: InsertTechnicianShift): Promise<TechnicianShift> {
+    const id = this.generateId();
+    const shift: TechnicianShift = {
+      effectiveFrom: null,
+      effectiveTo: null,
+      active: true,
+      ...(insertShift as any),
+      id,
+      createdAt: new Date(),
+    };
+    this.technicianShifts.set(id, shift);
+    return shift;
+  }
+
+  async deleteTechnicianShift(warehouseId: string, id: string): Promise<boolean> {
+    if (this.technicianShifts.get(id)?.warehouseId !== warehouseId) {
+      return false;
+    }
+    return this.technicianShifts.delete(id);
+  }
+
+  // Purchasing methods
+  async getPurchaseRequisitions(warehouseId: string, filters?: { status?: PurchaseRequisition['status']; partId?: string }): Promise<PurchaseRequisition[]> {
+    return Array.from(this.purchaseRequisitions.values())
+      .filter(r =>
+        r.warehouseId === warehouseId &&
+        (!filters?.status || r.status === filters.status) &&
+        (!filters?.partId || r.partId === filters.partId)
+      )
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getPurchaseRequisition(id: string): Promise<PurchaseRequisition | undefined> {
+    return this.purchaseRequisitions.get(id);
+  }
+
+  async createPurchaseRequisition(requisition: Omit<PurchaseRequisition, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseRequisition> {
+    const id = this.generateId();
+    const created: PurchaseRequisition = { ...requisition, id, createdAt: new Date(), updatedAt: new Date() };
+    this.purchaseRequisitions.set(id, created);
+    return created;
+  }
+
+  async updatePurchaseRequisition(id: string, updates: Partial<PurchaseRequisition>): Promise<PurchaseRequisition> {
+    const existing = this.purchaseRequisitions.get(id);
+    if (!existing) {
+      throw new Error('Purchase requisition not found');
+    }
+    const updated: PurchaseRequisition = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.purchaseRequisitions.set(id, updated);
+    return updated;
+  }
+
+  async getPurchaseOrders(warehouseId: string, status?: PurchaseOrder['status']): Promise<PurchaseOrder[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter(po => po.warehouseId === warehouseId && (!status || po.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    return this.purchaseOrders.get(id);
+  }
+
+  async createPurchaseOrder(order: Omit<PurchaseOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<PurchaseOrder> {
+    const id = this.generateId();
+    const created: PurchaseOrder = { ...order, id, createdAt: new Date(), updatedAt: new Date() };
+    this.purchaseOrders.set(id, created);
+    return created;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrder> {
+    const existing = this.purchaseOrders.get(id);
+    if (!existing) {
+      throw new Error('Purchase order not found');
+    }
+    const updated: PurchaseOrder = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.purchaseOrders.set(id, updated);
+    return updated;
+  }
+
+  async getPurchaseOrderLines(purchaseOrderId: string): Promise<PurchaseOrderLine[]> {
+    return Array.from(this.purchaseOrderLines.values())
+      .filter(line => line.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async createPurchaseOrderLine(line: Omit<PurchaseOrderLine, 'id' | 'createdAt'>): Promise<PurchaseOrderLine> {
+    const id = this.generateId();
+    const created: PurchaseOrderLine = { ...line, id, createdAt: new Date() };
+    this.purchaseOrderLines.set(id, created);
+    return created;
+  }
+
+  async updatePurchaseOrderLine(id: string, updates: Partial<PurchaseOrderLine>): Promise<PurchaseOrderLine> {
+    const existing = this.purchaseOrderLines.get(id);
+    if (!existing) {
+      throw new Error('Purchase order line not found');
+    }
+    const updated: PurchaseOrderLine = { ...existing, ...updates, id };
+    this.purchaseOrderLines.set(id, updated);
+    return updated;
+  }
+
+  async getPurchaseOrderReceipts(purchaseOrderId: string): Promise<PurchaseOrderReceipt[]> {
+    return Array.from(this.purchaseOrderReceipts.values())
+      .filter(receipt => receipt.purchaseOrderId === purchaseOrderId)
+      .sort((a, b) => new Date(a.receivedAt).getTime() - new Date(b.receivedAt).getTime());
+  }
+
+  async createPurchaseOrderReceipt(receipt: Omit<PurchaseOrderReceipt, 'id' | 'receivedAt'>): Promise<PurchaseOrderReceipt> {
+    const id = this.generateId();
+    const created: PurchaseOrderReceipt = { ...receipt, id, receivedAt: new Date() };
+    this.purchaseOrderReceipts.set(id, created);
+    return created;
+  }
+
+  // Inventory ledger methods
+  async getInventoryTransactions(filters: { partId?: string; workOrderId?: string; warehouseId?: string; type?: InventoryTransaction['type']; referenceId?: string }): Promise<InventoryTransaction[]> {
+    return this.inventoryTransactions.filter(t =>
+      (!filters.partId || t.partId === filters.partId) &&
+      (!filters.workOrderId || t.workOrderId === filters.workOrderId) &&
+      (!filters.warehouseId || t.warehouseId === filters.warehouseId) &&
+      (!filters.type || t.type === filters.type) &&
+      (!filters.referenceId || t.referenceId === filters.referenceId)
+    );
+  }
+
+  async createInventoryTransaction(transaction: Omit<InventoryTransaction, 'id' | 'createdAt'>): Promise<InventoryTransaction> {
+    const created: InventoryTransaction = { ...transaction, id: this.generateId(), createdAt: new Date() };
+    this.inventoryTransactions.push(created);
+    return created;
+  }
+
+  // No awaits between reading the balance and writing it, so concurrent postings can't interleave
+  async postInventoryTransaction(transaction: InventoryPosting): Promise<InventoryTransaction> {
+    const part = this.parts.get(transaction.partId);
+    if (!part) {
+      throw new Error('Part not found');
+    }
+    const ledger = this.inventoryTransactions.filter(t => t.partId === part.id);
+    const onHand = ledger.length > 0 ? ledger[ledger.length - 1].balanceAfter : part.stockLevel ?? 0;
+    const balanceAfter = onHand + transaction.quantity;
+    if (balanceAfter < 0) {
+      throw new InsufficientStockError(part.id, onHand);
+    }
+    const entry = { location: part.location, warehouseId: part.warehouseId };
+    if (ledger.length === 0 && onHand !== 0) {
+      this.inventoryTransactions.push({
+        ...entry, id: this.generateId(), partId: part.id, type: 'adjustment', quantity: onHand, balanceAfter: onHand,
+        workOrderId: null, purchaseOrderId: null, referenceId: null, reason: 'Opening balance', performedBy: transaction.performedBy, createdAt: new Date(),
+      });
+    }
+    const created: InventoryTransaction = { ...transaction, ...entry, balanceAfter, id: this.generateId(), createdAt: new Date() };
+    this.inventoryTransactions.push(created);
+    this.parts.set(part.id, { ...part, stockLevel: balanceAfter });
+    return created;
+  }
+
+  async getInventoryReservations(filters: { partId?: string; workOrderId?: string; status?: InventoryReservation['status'] }): Promise<InventoryReservation[]> {
+    return Array.from(this.inventoryReservations.values()).filter(r =>
+      (!filters.partId || r.partId === filters.partId) &&
+      (!filters.workOrderId || r.workOrderId === filters.workOrderId) &&
+      (!filters.status || r.status === filters.status)
+    );
+  }
+
+  async getInventoryReservation(id: string): Promise<InventoryReservation | undefined> {
+    return this.inventoryReservations.get(id);
+  }
+
+  async createInventoryReservation(reservation: Omit<InventoryReservation, 'id' | 'createdAt' | 'updatedAt'>): Promise<InventoryReservation> {
+    const id = this.generateId();
+    const created: InventoryReservation = { ...reservation, id, createdAt: new Date(), updatedAt: new Date() };
+    this.inventoryReservations.set(id, created);
+    return created;
+  }
+
+  async updateInventoryReservation(id: string, updates: Partial<InventoryReservation>): Promise<InventoryReservation> {
+    const existing = this.inventoryReservations.get(id);
+    if (!existing) {
+      throw new Error('Inventory reservation not found');
+    }
+    const updated: InventoryReservation = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.inventoryReservations.set(id, updated);
+    return updated;
+  }
+
+  async getCycleCounts(warehouseId: string, status?: CycleCount['status']): Promise<CycleCount[]> {
+    return Array.from(this.cycleCounts.values())
+      .filter(c => c.warehouseId === warehouseId && (!status || c.status === status))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getCycleCount(id: string): Promise<CycleCount | undefined> {
+    return this.cycleCounts.get(id);
+  }
+
+  async createCycleCount(count: Omit<CycleCount, 'id' | 'createdAt'>): Promise<CycleCount> {
+    const id = this.generateId();
+    const created: CycleCount = { ...count, id, createdAt: new Date() };
+    this.cycleCounts.set(id, created);
+    return created;
+  }
+
+  async updateCycleCount(id: string, updates: Partial<CycleCount>): Promise<CycleCount> {
+    const existing = this.cycleCounts.get(id);
+    if (!existing) {
+      throw new Error('Cycle count not found');
+    }
+    const updated: CycleCount = { ...existing, ...updates, id };
+    this.cycleCounts.set(id, updated);
+    return updated;
+  }
+
+  async getCycleCountLines(cycleCountId: string): Promise<CycleCountLine[]> {
+    return Array.from(this.cycleCountLines.values()).filter(line => line.cycleCountId === cycleCountId);
+  }
+
+  async createCycleCountLine(line: Omit<CycleCountLine, 'id'>): Promise<CycleCountLine> {
+    const created: CycleCountLine = { ...line, id: this.generateId() };
+    this.cycleCountLines.set(created.id, created);
+    return created;
+  }
+
+  async updateCycleCountLine(id: string, updates: Partial<CycleCountLine>): Promise<CycleCountLine> {
+    const existing = this.cycleCountLines.get(id);
+    if (!existing) {
+      throw new Error('Cycle count line not found');
+    }
+    const updated: CycleCountLine = { ...existing, ...updates, id };
+    this.cycleCountLines.set(id, updated);
+    return updated;
+  }
+
+  // Transfer order methods
+  async getTransferOrders(warehouseId: string, filters: { direction?: 'inbound' | 'outbound'; status?: TransferOrder['status'] } = {}): Promise<TransferOrder[]> {
+    return Array.from(this.transferOrders.values())
+      .filter(order => {
+        const inbound = order.toWarehouseId === warehouseId;
+        const outbound = order.fromWarehouseId === warehouseId;
+        const matchesDirection = filters.direction === 'inbound' ? inbound : filters.direction === 'outbound' ? outbound : inbound || outbound;
+        return matchesDirection && (!filters.status || order.status === filters.status);
+      })
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getTransferOrder(id: string): Promise<TransferOrder | undefined> {
+    return this.transferOrders.get(id);
+  }
+
+  async createTransferOrder(order: Omit<TransferOrder, 'id' | 'createdAt' | 'updatedAt'>): Promise<TransferOrder> {
+    const id = this.generateId();
+    const created: TransferOrder = { ...order, id, createdAt: new Date(), updatedAt: new Date() };
+    this.transferOrders.set(id, created);
+    return created;
+  }
+
+  async updateTransferOrder(id: string, updates: Partial<TransferOrder>): Promise<TransferOrder> {
+    const existing = this.transferOrders.get(id);
+    if (!existing) {
+      throw new Error('Transfer order not found');
+    }
+    const updated: TransferOrder = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.transferOrders.set(id, updated);
+    return updated;
+  }
+
+  async claimTransferOrder(id: string, fromStatuses: readonly TransferOrder['status'][], updates: Partial<TransferOrder>): Promise<TransferOrder | undefined> {
+    const existing = this.transferOrders.get(id);
+    if (!existing || !fromStatuses.includes(existing.status)) {
+      return undefined;
+    }
+    return this.updateTransferOrder(id, updates);
+  }
+
   // Notification methods
   async getNotifications(userId: string): Promise<Notification[]> {
     return Array.from(this.notifications.values())
@@ -946,6 +2014,338 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateNotification(id: string, updates: Partial<Notification>): Promise<Notification> {
+    const existing = this.notifications.get(id);
+    if (!existing) {
+      throw new Error('Notification not found');
+    }
+    const updated: Notification = { ...existing, ...updates, id };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  // Web Push subscription methods
+  async getPushSubscriptions(userId?: string): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values()).filter(s => !userId || s.userId === userId);
+  }
+
+  async getPushSubscriptionByEndpoint(endpoint: string): Promise<PushSubscription | undefined> {
+    return Array.from(this.pushSubscriptions.values()).find(s => s.endpoint === endpoint);
+  }
+
+  async createPushSubscription(subscription: Omit<PushSubscription, 'id' | 'createdAt'>): Promise<PushSubscription> {
+    const id = this.generateId();
+    const created: PushSubscription = { ...subscription, id, createdAt: new Date() };
+    this.pushSubscriptions.set(id, created);
+    return created;
+  }
+
+  async updatePushSubscription(id: string, updates: Partial<PushSubscription>): Promise<PushSubscription> {
+    const existing = this.pushSubscriptions.get(id);
+    if (!existing) {
+      throw new Error('Push subscription not found');
+    }
+    const updated: PushSubscription = { ...existing, ...updates, id };
+    this.pushSubscriptions.set(id, updated);
+    return updated;
+  }
+
+  async deletePushSubscription(id: string): Promise<void> {
+    this.pushSubscriptions.delete(id);
+  }
+
+  // Offline sync methods
+  async getSyncMutation(idempotencyKey: string): Promise<SyncMutation | undefined> {
+    return Array.from(this.syncMutations.values()).find(m => m.idempotencyKey === idempotencyKey);
+  }
+
+  async createSyncMutation(mutation: Omit<SyncMutation, 'id' | 'createdAt'>): Promise<SyncMutation> {
+    // Same unique constraint on the key as the database table
+    if (await this.getSyncMutation(mutation.idempotencyKey)) {
+      throw new Error(`Duplicate idempotency key ${mutation.idempotencyKey}`);
+    }
+    const id = this.generateId();
+    const created: SyncMutation = { ...mutation, id, createdAt: new Date() };
+    this.syncMutations.set(id, created);
+    return created;
+  }
+
+  // Durable job queue methods (single process, so each method is atomic on its own)
+  async createJob(job: Omit<JobQueue, 'id' | 'createdAt'>): Promise<JobQueue | undefined> {
+    if (job.dedupeKey && Array.from(this.jobQueue.values()).some(j => j.dedupeKey === job.dedupeKey)) {
+      return undefined;
+    }
+    const id = this.generateId();
+    const created: JobQueue = { ...job, id, createdAt: new Date() };
+    this.jobQueue.set(id, created);
+    return created;
+  }
+
+  async getJob(id: string): Promise<JobQueue | undefined> {
+    return this.jobQueue.get(id);
+  }
+
+  async getJobs(filters: { status?: JobQueue['status']; jobType?: JobType; limit?: number }): Promise<JobQueue[]> {
+    const jobs = Array.from(this.jobQueue.values())
+      .filter(j => (!filters.status || j.status === filters.status) && (!filters.jobType || j.jobType === filters.jobType))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return filters.limit ? jobs.slice(0, filters.limit) : jobs;
+  }
+
+  async updateJob(id: string, updates: Partial<JobQueue>): Promise<JobQueue> {
+    const existing = this.jobQueue.get(id);
+    if (!existing) {
+      throw new Error('Job not found');
+    }
+    const updated: JobQueue = { ...existing, ...updates, id };
+    this.jobQueue.set(id, updated);
+    return updated;
+  }
+
+  async claimJobs(workerId: string, limit: number, leaseMs: number, now: Date): Promise<JobQueue[]> {
+    const claimable = Array.from(this.jobQueue.values())
+      .filter(j =>
+        ((j.status === 'pending' || j.status === 'failed') && (!j.scheduledAt || j.scheduledAt <= now)) ||
+        (j.status === 'processing' && j.lockedUntil && j.lockedUntil < now)
+      )
+      .sort((a, b) => (a.scheduledAt || a.createdAt).getTime() - (b.scheduledAt || b.createdAt).getTime())
+      .slice(0, limit);
+    return claimable.map(job => {
+      const claimed: JobQueue = {
+        ...job,
+        status: 'processing',
+        attempts: (job.attempts ?? 0) + 1,
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+      };
+      this.jobQueue.set(job.id, claimed);
+      return claimed;
+    });
+  }
+
+  async getJobQueueCounts(): Promise<{ jobType: JobType; status: JobQueue['status']; count: number }[]> {
+    const counts = new Map<string, { jobType: JobType; status: JobQueue['status']; count: number }>();
+    for (const job of this.jobQueue.values()) {
+      const key = `${job.jobType}:${job.status}`;
+      const entry = counts.get(key) || { jobType: job.jobType, status: job.status, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+    return Array.from(counts.values());
+  }
+
+  async getJobSchedules(): Promise<JobSchedule[]> {
+    return Array.from(this.jobSchedules.values());
+  }
+
+  async getJobSchedule(name: string): Promise<JobSchedule | undefined> {
+    return this.jobSchedules.get(name);
+  }
+
+  async createJobSchedule(schedule: Omit<JobSchedule, 'updatedAt'>): Promise<JobSchedule> {
+    const existing = this.jobSchedules.get(schedule.name);
+    if (existing) {
+      return existing;
+    }
+    const created: JobSchedule = { ...schedule, updatedAt: new Date() };
+    this.jobSchedules.set(schedule.name, created);
+    return created;
+  }
+
+  async updateJobSchedule(name: string, updates: Partial<JobSchedule>): Promise<JobSchedule> {
+    const existing = this.jobSchedules.get(name);
+    if (!existing) {
+      throw new Error('Job schedule not found');
+    }
+    const updated: JobSchedule = { ...existing, ...updates, name, updatedAt: new Date() };
+    this.jobSchedules.set(name, updated);
+    return updated;
+  }
+
+  async advanceJobSchedule(name: string, expectedNextRunAt: Date, nextRunAt: Date, now: Date): Promise<boolean> {
+    const existing = this.jobSchedules.get(name);
+    if (!existing || existing.nextRunAt.getTime() !== expectedNextRunAt.getTime()) {
+      return false;
+    }
+    this.jobSchedules.set(name, { ...existing, nextRunAt, lastRunAt: now, updatedAt: now });
+    return true;
+  }
+
+  async acquireJobLock(name: string, owner: string, ttlMs: number, now: Date): Promise<boolean> {
+    const existing = this.jobLocks.get(name);
+    if (existing && existing.owner !== owner && existing.expiresAt > now) {
+      return false;
+    }
+    this.jobLocks.set(name, { name, owner, acquiredAt: now, expiresAt: new Date(now.getTime() + ttlMs) });
+    return true;
+  }
+
+  async releaseJobLock(name: string, owner: string): Promise<void> {
+    if (this.jobLocks.get(name)?.owner === owner) {
+      this.jobLocks.delete(name);
+    }
+  }
+
+  // SLA methods
+  async getSlaCalendar(warehouseId: string): Promise<SlaCalendar | undefined> {
+    return this.slaCalendars.get(warehouseId);
+  }
+
+  async upsertSlaCalendar(warehouseId: string, calendar: InsertSlaCalendar, updatedBy?: string): Promise<SlaCalendar> {
+    const existing = this.slaCalendars.get(warehouseId);
+    const saved: SlaCalendar = {
+      id: existing?.id || this.generateId(),
+      warehouseId,
+      timezone: calendar.timezone,
+      weeklySchedule: calendar.weeklySchedule as SlaCalendar['weeklySchedule'],
+      holidays: calendar.holidays as SlaCalendar['holidays'],
+      pauseReasons: calendar.pauseReasons,
+      updatedBy: updatedBy || null,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    };
+    this.slaCalendars.set(warehouseId, saved);
+    return saved;
+  }
+
+  async getSlaPolicies(warehouseId: string): Promise<SlaPolicy[]> {
+    return Array.from(this.slaPolicies.values()).filter(p => p.warehouseId === warehouseId);
+  }
+
+  async upsertSlaPolicy(warehouseId: string, policy: InsertSlaPolicy): Promise<SlaPolicy> {
+    const existing = Array.from(this.slaPolicies.values()).find(p =>
+      p.warehouseId === warehouseId && p.workOrderType === policy.workOrderType && p.priority === policy.priority
+    );
+    const saved: SlaPolicy = {
+      id: existing?.id || this.generateId(),
+      warehouseId,
+      workOrderType: policy.workOrderType,
+      priority: policy.priority,
+      responseMinutes: policy.responseMinutes,
+      resolutionMinutes: policy.resolutionMinutes,
+      businessHoursOnly: policy.businessHoursOnly ?? true,
+      atRiskPercent: policy.atRiskPercent ?? 75,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    };
+    this.slaPolicies.set(saved.id, saved);
+    return saved;
+  }
+
+  async getWorkOrderHolds(workOrderId: string): Promise<WorkOrderHold[]> {
+    return Array.from(this.workOrderHolds.values())
+      .filter(h => h.workOrderId === workOrderId)
+      .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+  }
+
+  async createWorkOrderHold(hold: Omit<WorkOrderHold, 'id'>): Promise<WorkOrderHold> {
+    const created: WorkOrderHold = { ...hold, id: this.generateId() };
+    this.workOrderHolds.set(created.id, created);
+    return created;
+  }
+
+  async updateWorkOrderHold(id: string, updates: Partial<WorkOrderHold>): Promise<WorkOrderHold> {
+    const existing = this.workOrderHolds.get(id);
+    if (!existing) {
+      throw new Error('Work order hold not found');
+    }
+    const updated: WorkOrderHold = { ...existing, ...updates, id };
+    this.workOrderHolds.set(id, updated);
+    return updated;
+  }
+
+  // Escalation methods
+  async getEscalationRules(warehouseId: string): Promise<EscalationRule[]> {
+    return Array.from(this.escalationRules.values()).filter(r => r.warehouseId === warehouseId);
+  }
+
+  async createEscalationRule(rule: Omit<EscalationRule, 'id' | 'createdAt'>): Promise<EscalationRule> {
+    const created: EscalationRule = { ...rule, id: this.generateId(), createdAt: new Date() };
+    this.escalationRules.set(created.id, created);
+    return created;
+  }
+
+  async updateEscalationRule(id: string, updates: Partial<EscalationRule>): Promise<EscalationRule> {
+    const existing = this.escalationRules.get(id);
+    if (!existing) {
+      throw new Error('Escalation rule not found');
+    }
+    const updated: EscalationRule = { ...existing, ...updates, id };
+    this.escalationRules.set(id, updated);
+    return updated;
+  }
+
+  async getEscalationHistory(workOrderId: string): Promise<EscalationHistory[]> {
+    return Array.from(this.escalationHistory.values())
+      .filter(h => h.workOrderId === workOrderId)
+      .sort((a, b) => (a.escalatedAt?.getTime() ?? 0) - (b.escalatedAt?.getTime() ?? 0));
+  }
+
+  async createEscalationHistory(entry: Omit<EscalationHistory, 'id'>): Promise<EscalationHistory> {
+    const created: EscalationHistory = { ...entry, id: this.generateId() };
+    this.escalationHistory.set(created.id, created);
+    return created;
+  }
+
+  async updateEscalationHistory(id: string, updates: Partial<EscalationHistory>): Promise<EscalationHistory> {
+    const existing = this.escalationHistory.get(id);
+    if (!existing) {
+      throw new Error('Escalation history entry not found');
+    }
+    const updated: EscalationHistory = { ...existing, ...updates, id };
+    this.escalationHistory.set(id, updated);
+    return updated;
+  }
+
+  // On-call methods
+  async getOnCallRotations(warehouseId: string): Promise<OnCallRotation[]> {
+    return Array.from(this.onCallRotations.values()).filter(r => r.warehouseId === warehouseId);
+  }
+
+  async getOnCallRotation(id: string): Promise<OnCallRotation | undefined> {
+    return this.onCallRotations.get(id);
+  }
+
+  async upsertOnCallRotation(warehouseId: string, rotation: InsertOnCallRotation, updatedBy?: string): Promise<OnCallRotation> {
+    const existing = Array.from(this.onCallRotations.values()).find(r => r.warehouseId === warehouseId && r.role === rotation.role);
+    const saved: OnCallRotation = {
+      id: existing?.id || this.generateId(),
+      warehouseId,
+      role: rotation.role,
+      name: rotation.name,
+      handoffFrequency: rotation.handoffFrequency,
+      handoffTime: rotation.handoffTime,
+      handoffDayOfWeek: rotation.handoffDayOfWeek ?? 1,
+      timezone: rotation.timezone ?? 'UTC',
+      anchorDate: rotation.anchorDate,
+      participants: rotation.participants,
+      active: rotation.active ?? true,
+      updatedBy: updatedBy || null,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    };
+    this.onCallRotations.set(saved.id, saved);
+    return saved;
+  }
+
+  async getOnCallOverrides(rotationId: string): Promise<OnCallOverride[]> {
+    return Array.from(this.onCallOverrides.values())
+      .filter(o => o.rotationId === rotationId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async createOnCallOverride(override: Omit<OnCallOverride, 'id' | 'createdAt'>): Promise<OnCallOverride> {
+    const created: OnCallOverride = { ...override, id: this.generateId(), createdAt: new Date() };
+    this.onCallOverrides.set(created.id, created);
+    return created;
+  }
+
+  async deleteOnCallOverride(id: string): Promise<void> {
+    if (!this.onCallOverrides.delete(id)) {
+      throw new Error('On-call override not found');
+    }
+  }
+
   // Attachment methods
   async getAttachments(workOrderId?: string, equipmentId?: string, pmTemplateId?: string, vendorId?: string): Promise<Attachment[]> {
     return Array.from(this.attachments.values()).filter(a => 
@@ -971,6 +2371,16 @@ export class MemStorage implements IStorage {
     return attachment;
   }
 
+  async updateAttachment(id: string, updates: Partial<Attachment>): Promise<Attachment> {
+    const existing = this.attachments.get(id);
+    if (!existing) {
+      throw new Error('Attachment not found');
+    }
+    const updated: Attachment = { ...existing, ...updates, id };
+    this.attachments.set(id, updated);
+    return updated;
+  }
+
   async deleteAttachment(id: string): Promise<void> {
     this.attachments.delete(id);
   }
@@ -1009,18 +2419,22 @@ export class MemStorage implements IStorage {
     const newLaborTime: LaborTime = {
       id,
       ...(laborTime as any),
+      version: 1,
       createdAt: new Date(),
     };
     this.laborTime.set(id, newLaborTime);
     return newLaborTime;
   }
 
-  async updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>): Promise<LaborTime> {
+  async updateLaborTime(id: string, laborTime: Partial<InsertLaborTime>, expectedVersion?: number): Promise<LaborTime> {
     const existing = this.laborTime.get(id);
     if (!existing) {
       throw new Error('Labor time entry not found');
     }
-    const updated: LaborTime = { ...existing, ...laborTime as any };
+    if (expectedVersion !== undefined && (existing.version ?? 1) !== expectedVersion) {
+      throw new StaleVersionError('labor_time', id);
+    }
+    const updated: LaborTime = { ...existing, ...laborTime as any, version: (existing.version ?? 1) + 1 };
     this.laborTime.set(id, updated);
     return updated;
   }
@@ -1035,6 +2449,29 @@ export class MemStorage implements IStorage {
     );
   }
 
+  // Meter reading methods
+  async getMeterReadings(equipmentId: string, meterType?: MeterReading['meterType']): Promise<MeterReading[]> {
+    return Array.from(this.meterReadings.values())
+      .filter(r => r.equipmentId === equipmentId && (!meterType || r.meterType === meterType))
+      .sort((a, b) => new Date(a.readingAt).getTime() - new Date(b.readingAt).getTime());
+  }
+
+  async getLatestMeterReading(equipmentId: string, meterType: MeterReading['meterType']): Promise<MeterReading | undefined> {
+    const readings = await this.getMeterReadings(equipmentId, meterType);
+    return readings[readings.length - 1];
+  }
+
+  async createMeterReading(reading: Omit<MeterReading, 'id' | 'createdAt'>): Promise<MeterReading> {
+    const id = this.generateId();
+    const meterReading: MeterReading = {
+      ...reading,
+      id,
+      createdAt: new Date(),
+    };
+    this.meterReadings.set(id, meterReading);
+    return meterReading;
+  }
+
   // System log methods
   async createSystemLog(log: Omit<SystemLog, 'id' | 'createdAt'>): Promise<SystemLog> {
     const id = this.generateId();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, uuid, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, uuid, decimal, jsonb, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -125,13 +125,31 @@ export const warehouses = pgTable("warehouses", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Locations (site → building → area → position); each level sits under one of a higher level
+export const LOCATION_TYPES = ['site', 'building', 'area', 'position'] as const;
+
+export const locations = pgTable("locations", {
+  id: uuid("id").primaryKey(),
+  name: text("name").notNull(),
+  code: text("code"), // short label printed on location tags, e.g. "B2-L3-P04"
+  type: text("type").notNull().$type<typeof LOCATION_TYPES[number]>(),
+  parentId: uuid("parent_id").references((): AnyPgColumn => locations.id),
+  description: text("description"),
+  active: boolean("active").default(true),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Equipment
 export const equipment = pgTable("equipment", {
   id: uuid("id").primaryKey(),
   assetTag: text("asset_tag").notNull().unique(),
   model: text("model").notNull(),
+  equipmentClass: text("equipment_class"), // e.g. pump, conveyor; failure codes can be scoped to a class across models
   description: text("description"),
-  area: text("area"),
+  area: text("area"), // free-text area; kept in step with the location's area when the asset is placed
+  locationId: uuid("location_id").references(() => locations.id),
+  parentEquipmentId: uuid("parent_equipment_id").references((): AnyPgColumn => equipment.id), // e.g. a gearbox inside a drive unit
   status: text("status").notNull().$type<'active' | 'inactive' | 'maintenance' | 'retired'>(),
   criticality: text("criticality").notNull().$type<'low' | 'medium' | 'high' | 'critical'>(),
   installDate: timestamp("install_date"),
@@ -143,6 +161,23 @@ export const equipment = pgTable("equipment", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Equipment Installations (where an asset was fitted and when; the open row has no removedAt)
+export const equipmentInstallations = pgTable("equipment_installations", {
+  id: uuid("id").primaryKey(),
+  equipmentId: uuid("equipment_id").references(() => equipment.id).notNull(),
+  locationId: uuid("location_id").references(() => locations.id),
+  parentEquipmentId: uuid("parent_equipment_id").references(() => equipment.id),
+  installedAt: timestamp("installed_at").notNull(),
+  removedAt: timestamp("removed_at"),
+  installedBy: uuid("installed_by").references(() => profiles.id),
+  removedBy: uuid("removed_by").references(() => profiles.id),
+  notes: text("notes"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+});
+
+// Reasons a work order can be put on hold; the SLA calendar decides which ones stop the resolution clock
+export const SLA_HOLD_REASONS = ['waiting_parts', 'waiting_vendor', 'waiting_requester', 'waiting_access'] as const;
+
 // Work Orders
 export const workOrders = pgTable("work_orders", {
   id: uuid("id").primaryKey(),
@@ -162,15 +197,202 @@ export const workOrders = pgTable("work_orders", {
   estimatedHours: decimal("estimated_hours", { precision: 5, scale: 2 }),
   actualHours: decimal("actual_hours", { precision: 5, scale: 2 }),
   notes: text("notes"),
-  followUp: boolean("follow_up").default(false),
+  problemCodeId: uuid("problem_code_id").references(() => failureCodes.id), // failure codes, required to complete corrective and emergency work
+  causeCodeId: uuid("cause_code_id").references(() => failureCodes.id),
+  remedyCodeId: uuid("remedy_code_id").references(() => failureCodes.id),
+  followUp: boolean("follow_up").default(false), // set once a follow-up work order has been raised from this one
+  parentWorkOrderId: uuid("parent_work_order_id").references((): AnyPgColumn => workOrders.id), // the work order that found this defect
   escalated: boolean("escalated").default(false),
   escalationLevel: integer("escalation_level").default(0),
+  holdReason: text("hold_reason").$type<typeof SLA_HOLD_REASONS[number]>(), // set while the work is blocked, e.g. waiting on parts
+  respondedAt: timestamp("responded_at"), // first move to in_progress; stops the response clock
+  slaResponseDueAt: timestamp("sla_response_due_at"),
+  slaResolutionDueAt: timestamp("sla_resolution_due_at"), // null while the resolution clock is paused
+  slaResponseBreachedAt: timestamp("sla_response_breached_at"),
+  slaResolutionBreachedAt: timestamp("sla_resolution_breached_at"),
+  vendorId: uuid("vendor_id").references(() => vendors.id), // contractor performing the work
+  vendorQuotedCost: decimal("vendor_quoted_cost", { precision: 10, scale: 2 }),
+  vendorInvoicedCost: decimal("vendor_invoiced_cost", { precision: 10, scale: 2 }),
   warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  version: integer("version").default(1), // row version for offline sync; bumped on every update
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Work Order Status History (one entry per accepted lifecycle transition)
+export const workOrderStatusHistory = pgTable("work_order_status_history", {
+  id: uuid("id").primaryKey(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
+  fromStatus: text("from_status").notNull().$type<'new' | 'assigned' | 'in_progress' | 'completed' | 'verified' | 'closed'>(),
+  toStatus: text("to_status").notNull().$type<'new' | 'assigned' | 'in_progress' | 'completed' | 'verified' | 'closed'>(),
+  changedBy: uuid("changed_by").references(() => profiles.id).notNull(),
+  reason: text("reason"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Work Order Signatures (completion and verification sign-offs)
+export const SIGNATURE_KINDS = ['completion', 'verification'] as const;
+export const SIGNATURE_METHODS = ['drawn', 'password', 'mfa'] as const;
+
+// A drawn signature is kept as pen strokes, each a list of [x, y] points scaled to a 0–1 pad
+export type SignatureStroke = Array<[number, number]>;
+
+export const workOrderSignatures = pgTable("work_order_signatures", {
+  id: uuid("id").primaryKey(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
+  kind: text("kind").notNull().$type<typeof SIGNATURE_KINDS[number]>(),
+  method: text("method").notNull().$type<typeof SIGNATURE_METHODS[number]>(),
+  signerId: uuid("signer_id").references(() => profiles.id).notNull(),
+  signerName: text("signer_name").notNull(), // as shown on the certificate, in case the profile is renamed later
+  signerRole: text("signer_role"),
+  strokes: jsonb("strokes").$type<SignatureStroke[]>(), // drawn signatures only
+  statement: text("statement").notNull(), // what the signer attested to
+  contentHash: text("content_hash").notNull(), // SHA-256 of the work order contents at signing
+  seal: text("seal").notNull(), // HMAC over the signature record, so edits to the row itself show up too
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at").notNull(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+});
+
+// Failure Codes (problem / cause / remedy library; a code with no model or class applies to all equipment)
+export const FAILURE_CODE_KINDS = ['problem', 'cause', 'remedy'] as const;
+
+export const failureCodes = pgTable("failure_codes", {
+  id: uuid("id").primaryKey(),
+  kind: text("kind").notNull().$type<typeof FAILURE_CODE_KINDS[number]>(),
+  code: text("code").notNull(), // short code shown on reports, e.g. BRG-WEAR
+  name: text("name").notNull(),
+  description: text("description"),
+  equipmentModel: text("equipment_model"),
+  equipmentClass: text("equipment_class"),
+  active: boolean("active").default(true),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Work Requests (problems reported through the portal or by staff; they wait in triage until a supervisor approves, merges or rejects them)
+export const WORK_REQUEST_STATUSES = ['pending', 'awaiting_approval', 'converted', 'merged', 'rejected'] as const;
+export const WORK_REQUEST_SOURCES = ['asset_label', 'location_label', 'kiosk', 'internal'] as const;
+export const WORK_REQUEST_URGENCIES = ['low', 'medium', 'high'] as const;
+export const APPROVER_ROLES = ['supervisor', 'manager', 'admin'] as const; // lowest to highest approval authority
+
+// A photo sent with a request, stored under the upload directory
+export interface WorkRequestPhoto {
+  fileName: string;
+  originalName: string;
+  size: number;
+}
+
+export const workRequests = pgTable("work_requests", {
+  id: uuid("id").primaryKey(),
+  reference: text("reference").notNull().unique(), // quoted to the requester, e.g. REQ-3F9A1C07
+  status: text("status").notNull().$type<typeof WORK_REQUEST_STATUSES[number]>(),
+  source: text("source").notNull().$type<typeof WORK_REQUEST_SOURCES[number]>(),
+  description: text("description").notNull(),
+  urgency: text("urgency").notNull().$type<typeof WORK_REQUEST_URGENCIES[number]>(),
+  equipmentId: uuid("equipment_id").references(() => equipment.id),
+  locationId: uuid("location_id").references(() => locations.id),
+  area: text("area"),
+  requesterName: text("requester_name").notNull(),
+  requesterEmail: text("requester_email"),
+  requesterPhone: text("requester_phone"),
+  requesterId: uuid("requester_id").references(() => profiles.id), // staff requests; becomes the work order's requestedBy
+  estimatedCost: decimal("estimated_cost", { precision: 10, scale: 2 }),
+  estimatedHours: decimal("estimated_hours", { precision: 5, scale: 2 }),
+  approvalRole: text("approval_role").$type<typeof APPROVER_ROLES[number]>(), // who must approve once the estimate is over a supervisor's limit
+  photos: jsonb("photos").$type<WorkRequestPhoto[]>().default([]),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the status link token; the token itself is only shown once
+  workOrderId: uuid("work_order_id").references(() => workOrders.id), // the work order it became or was merged into
+  decisionReason: text("decision_reason"),
+  decidedBy: uuid("decided_by").references(() => profiles.id),
+  decidedAt: timestamp("decided_at"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  version: integer("version").default(1), // bumped on every update; a decision claims the request at the version it read
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Work Request Approval Thresholds (the largest estimate each role may approve; null means no limit)
+export const approvalThresholds = pgTable("approval_thresholds", {
+  id: uuid("id").primaryKey(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  role: text("role").notNull().$type<typeof APPROVER_ROLES[number]>(),
+  maxCost: decimal("max_cost", { precision: 10, scale: 2 }),
+  maxHours: decimal("max_hours", { precision: 5, scale: 2 }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  thresholdPerRole: unique("approval_thresholds_warehouse_role_unique").on(table.warehouseId, table.role),
+}));
+
+// Work Request Decisions (audit of every triage step, from submission to the final decision)
+export const WORK_REQUEST_ACTIONS = ['submitted', 'escalated', 'approved', 'merged', 'rejected'] as const;
+
+export const workRequestDecisions = pgTable("work_request_decisions", {
+  id: uuid("id").primaryKey(),
+  requestId: uuid("request_id").references(() => workRequests.id).notNull(),
+  action: text("action").notNull().$type<typeof WORK_REQUEST_ACTIONS[number]>(),
+  fromStatus: text("from_status").$type<typeof WORK_REQUEST_STATUSES[number]>(),
+  toStatus: text("to_status").notNull().$type<typeof WORK_REQUEST_STATUSES[number]>(),
+  actorId: uuid("actor_id").references(() => profiles.id), // null for portal submissions
+  actorRole: text("actor_role"),
+  estimatedCost: decimal("estimated_cost", { precision: 10, scale: 2 }), // the estimate the decision was made on
+  estimatedHours: decimal("estimated_hours", { precision: 5, scale: 2 }),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Equipment Downtime Events (when a machine was actually down; the open event has no endedAt)
+export const DOWNTIME_TYPES = ['planned', 'unplanned'] as const;
+export const DOWNTIME_REASON_CODES = [
+  'breakdown', 'electrical', 'mechanical', 'hydraulic', 'controls', 'preventive_maintenance',
+  'inspection', 'changeover', 'utility_outage', 'material_shortage', 'operator', 'other',
+] as const;
+// What opened the event: someone logging it, an emergency work order, or the equipment going into maintenance
+export const DOWNTIME_SOURCES = ['manual', 'work_order', 'equipment_status'] as const;
+
+export const downtimeEvents = pgTable("downtime_events", {
+  id: uuid("id").primaryKey(),
+  equipmentId: uuid("equipment_id").references(() => equipment.id).notNull(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id),
+  type: text("type").notNull().$type<typeof DOWNTIME_TYPES[number]>(),
+  reasonCode: text("reason_code").notNull().$type<typeof DOWNTIME_REASON_CODES[number]>(),
+  source: text("source").notNull().$type<typeof DOWNTIME_SOURCES[number]>(),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"),
+  notes: text("notes"),
+  openedBy: uuid("opened_by").references(() => profiles.id),
+  closedBy: uuid("closed_by").references(() => profiles.id),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Work Order Checklist Items
+export const CHECKLIST_ITEM_TYPES = ['check', 'numeric', 'boolean', 'choice'] as const;
+// What happens when an item fails: create a corrective work order, offer one to the technician, or nothing
+export const FOLLOW_UP_MODES = ['auto', 'propose', 'none'] as const;
+
+export type ChecklistChoiceOption = {
+  value: string;
+  acceptable: boolean; // picking an unacceptable option flags the item as an issue
+};
+
+// One typed item in pmTemplates.customFields.checklistItems
+export type ChecklistItemDefinition = {
+  key: string; // stable across template edits; readings are charted per key
+  component: string;
+  action: string;
+  type: typeof CHECKLIST_ITEM_TYPES[number];
+  unit?: string; // numeric items, e.g. 'N' or '°C'
+  min?: number;
+  max?: number;
+  expected?: boolean; // boolean items: the passing answer
+  options?: ChecklistChoiceOption[]; // choice items
+  followUp?: typeof FOLLOW_UP_MODES[number]; // defaults to auto for out-of-limit readings, propose for items flagged by hand
+};
+
 export const workOrderChecklistItems = pgTable("work_order_checklist_items", {
   id: uuid("id").primaryKey(),
   workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
@@ -179,13 +401,47 @@ export const workOrderChecklistItems = pgTable("work_order_checklist_items", {
   status: text("status").$type<'pending' | 'done' | 'skipped' | 'issue'>().default('pending'),
   notes: text("notes"),
   sortOrder: integer("sort_order").default(0),
+  itemType: text("item_type").$type<typeof CHECKLIST_ITEM_TYPES[number]>().default('check'),
+  definitionKey: text("definition_key"), // ChecklistItemDefinition.key on the source template
+  unit: text("unit"),
+  minValue: decimal("min_value", { precision: 12, scale: 3 }), // limits copied from the template when the item is created
+  maxValue: decimal("max_value", { precision: 12, scale: 3 }),
+  expectedBoolean: boolean("expected_boolean"),
+  options: jsonb("options").$type<ChecklistChoiceOption[]>(),
+  followUpMode: text("follow_up_mode").$type<typeof FOLLOW_UP_MODES[number]>(),
+  followUpWorkOrderId: uuid("follow_up_work_order_id").references(() => workOrders.id), // corrective work order raised for this failure
+  value: text("value"), // last recorded reading: a number, 'true'/'false' or the chosen option
+  withinLimits: boolean("within_limits"), // null until a typed reading is recorded
+  recordedBy: uuid("recorded_by").references(() => profiles.id),
+  recordedAt: timestamp("recorded_at"),
+  version: integer("version").default(1),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Checklist Readings (time series of typed checklist values, per equipment)
+export const checklistReadings = pgTable("checklist_readings", {
+  id: uuid("id").primaryKey(),
+  checklistItemId: uuid("checklist_item_id").references(() => workOrderChecklistItems.id).notNull(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
+  equipmentId: uuid("equipment_id").references(() => equipment.id),
+  definitionKey: text("definition_key").notNull(),
+  label: text("label").notNull(), // "component – action" at the time of the reading
+  itemType: text("item_type").notNull().$type<typeof CHECKLIST_ITEM_TYPES[number]>(),
+  unit: text("unit"),
+  numericValue: decimal("numeric_value", { precision: 12, scale: 3 }), // numeric items only
+  value: text("value").notNull(),
+  minValue: decimal("min_value", { precision: 12, scale: 3 }),
+  maxValue: decimal("max_value", { precision: 12, scale: 3 }),
+  withinLimits: boolean("within_limits").notNull(),
+  recordedBy: uuid("recorded_by").references(() => profiles.id),
+  recordedAt: timestamp("recorded_at").notNull(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+});
+
 // Parts Inventory
 export const parts = pgTable("parts", {
   id: uuid("id").primaryKey(),
-  partNumber: text("part_number").notNull().unique(),
+  partNumber: text("part_number").notNull(), // unique per warehouse; the same part may be stocked at several sites
   name: text("name").notNull(),
   description: text("description").notNull(),
   category: text("category"),
@@ -199,7 +455,9 @@ export const parts = pgTable("parts", {
   active: boolean("active").default(true),
   warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  partNumberPerWarehouse: unique("parts_part_number_warehouse_unique").on(table.partNumber, table.warehouseId),
+}));
 
 // Parts Usage (for work orders)
 export const partsUsage = pgTable("parts_usage", {
@@ -210,6 +468,7 @@ export const partsUsage = pgTable("parts_usage", {
   unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
   usedBy: uuid("used_by").references(() => profiles.id).notNull(),
   notes: text("notes"),
+  version: integer("version").default(1),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -224,6 +483,24 @@ export const laborTime = pgTable("labor_time", {
   description: text("description").notNull(),
   isActive: boolean("is_active").default(false),
   isManual: boolean("is_manual").default(false),
+  version: integer("version").default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Equipment Meter Readings (hours, cycles, odometer)
+export const meterReadings = pgTable("meter_readings", {
+  id: uuid("id").primaryKey(),
+  equipmentId: uuid("equipment_id").references(() => equipment.id).notNull(),
+  meterType: text("meter_type").notNull().$type<'hours' | 'cycles' | 'odometer'>(),
+  value: decimal("value", { precision: 12, scale: 2 }).notNull(), // raw value shown on the meter
+  delta: decimal("delta", { precision: 12, scale: 2 }).notNull(), // usage since the previous reading
+  cumulativeValue: decimal("cumulative_value", { precision: 14, scale: 2 }).notNull(), // lifetime usage across rollovers/resets
+  readingType: text("reading_type").$type<'reading' | 'rollover' | 'reset'>().default('reading'),
+  source: text("source").$type<'manual' | 'csv' | 'api'>().default('manual'),
+  readingAt: timestamp("reading_at").notNull(),
+  recordedBy: uuid("recorded_by").references(() => profiles.id),
+  notes: text("notes"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -237,8 +514,151 @@ export const vendors = pgTable("vendors", {
   address: text("address"),
   contactPerson: text("contact_person"),
   active: boolean("active").default(true),
+  status: text("status").$type<'active' | 'pending' | 'inactive'>().default('active'), // document compliance
+  statusReason: text("status_reason"),
+  statusSource: text("status_source").$type<'compliance' | 'manual'>().default('compliance'), // a manual hold is left alone by the document check
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Purchase Requisitions (a part that needs replenishing, before it is on a PO)
+export const purchaseRequisitions = pgTable("purchase_requisitions", {
+  id: uuid("id").primaryKey(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  reason: text("reason").notNull().$type<'low_stock' | 'manual'>(),
+  status: text("status").notNull().$type<'open' | 'ordered' | 'cancelled'>().default('open'),
+  purchaseOrderId: uuid("purchase_order_id").references(() => purchaseOrders.id),
+  requestedBy: uuid("requested_by").references(() => profiles.id),
+  notes: text("notes"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase Orders (one per vendor)
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: uuid("id").primaryKey(),
+  poNumber: text("po_number").notNull().unique(),
+  vendorId: uuid("vendor_id").references(() => vendors.id),
+  vendorName: text("vendor_name").notNull(),
+  status: text("status").notNull().$type<'draft' | 'pending_approval' | 'approved' | 'ordered' | 'partially_received' | 'received' | 'rejected' | 'cancelled'>(),
+  totalCost: decimal("total_cost", { precision: 12, scale: 2 }).default('0'),
+  notes: text("notes"),
+  createdBy: uuid("created_by").references(() => profiles.id),
+  submittedAt: timestamp("submitted_at"),
+  approvedBy: uuid("approved_by").references(() => profiles.id),
+  approvedAt: timestamp("approved_at"),
+  rejectionReason: text("rejection_reason"),
+  orderedAt: timestamp("ordered_at"),
+  expectedDate: timestamp("expected_date"),
+  receivedAt: timestamp("received_at"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase Order Lines
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: uuid("id").primaryKey(),
+  purchaseOrderId: uuid("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  requisitionId: uuid("requisition_id").references(() => purchaseRequisitions.id),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Purchase Order Receipts (one row per receiving event, partial receipts allowed)
+export const purchaseOrderReceipts = pgTable("purchase_order_receipts", {
+  id: uuid("id").primaryKey(),
+  purchaseOrderId: uuid("purchase_order_id").references(() => purchaseOrders.id).notNull(),
+  lineId: uuid("line_id").references(() => purchaseOrderLines.id).notNull(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  quantity: integer("quantity").notNull(),
+  rejectedQuantity: integer("rejected_quantity").default(0), // damaged or wrong items refused at the dock
+  receivedBy: uuid("received_by").references(() => profiles.id),
+  notes: text("notes"),
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Inventory Transactions (append-only ledger; parts.stockLevel is the reconciled balance)
+export const inventoryTransactions = pgTable("inventory_transactions", {
+  id: uuid("id").primaryKey(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  type: text("type").notNull().$type<'receipt' | 'issue' | 'return' | 'adjustment' | 'transfer' | 'cycle_count'>(),
+  quantity: integer("quantity").notNull(), // signed: positive adds stock, negative removes it
+  balanceAfter: integer("balance_after").notNull(),
+  location: text("location"),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id),
+  purchaseOrderId: uuid("purchase_order_id").references(() => purchaseOrders.id),
+  referenceId: uuid("reference_id"), // transfer pair, cycle count line, receipt, etc.
+  reason: text("reason"),
+  performedBy: uuid("performed_by").references(() => profiles.id),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Inventory Reservations (parts held against open work orders)
+export const inventoryReservations = pgTable("inventory_reservations", {
+  id: uuid("id").primaryKey(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
+  quantity: integer("quantity").notNull(), // quantity still held
+  status: text("status").notNull().$type<'active' | 'fulfilled' | 'released'>().default('active'),
+  reservedBy: uuid("reserved_by").references(() => profiles.id),
   warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cycle Counts
+export const cycleCounts = pgTable("cycle_counts", {
+  id: uuid("id").primaryKey(),
+  location: text("location"), // null counts every location
+  status: text("status").notNull().$type<'open' | 'completed' | 'cancelled'>().default('open'),
+  createdBy: uuid("created_by").references(() => profiles.id),
+  completedBy: uuid("completed_by").references(() => profiles.id),
+  completedAt: timestamp("completed_at"),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Cycle Count Lines
+export const cycleCountLines = pgTable("cycle_count_lines", {
+  id: uuid("id").primaryKey(),
+  cycleCountId: uuid("cycle_count_id").references(() => cycleCounts.id).notNull(),
+  partId: uuid("part_id").references(() => parts.id).notNull(),
+  location: text("location"),
+  expectedQuantity: integer("expected_quantity").notNull(),
+  countedQuantity: integer("counted_quantity"),
+  variance: integer("variance"),
+  countedBy: uuid("counted_by").references(() => profiles.id),
+  countedAt: timestamp("counted_at"),
+});
+
+// Transfer Orders (stock moved between warehouses; shipped stock is in transit until received)
+export const transferOrders = pgTable("transfer_orders", {
+  id: uuid("id").primaryKey(),
+  transferNumber: text("transfer_number").notNull().unique(),
+  partNumber: text("part_number").notNull(),
+  fromWarehouseId: uuid("from_warehouse_id").references(() => warehouses.id).notNull(),
+  toWarehouseId: uuid("to_warehouse_id").references(() => warehouses.id).notNull(),
+  fromPartId: uuid("from_part_id").references(() => parts.id).notNull(),
+  toPartId: uuid("to_part_id").references(() => parts.id), // set on receipt; created at the destination if needed
+  quantity: integer("quantity").notNull(),
+  quantityReceived: integer("quantity_received").default(0),
+  status: text("status").notNull().$type<'requested' | 'in_transit' | 'received' | 'cancelled'>().default('requested'),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id), // destination work order waiting on the stock
+  notes: text("notes"),
+  requestedBy: uuid("requested_by").references(() => profiles.id),
+  shippedBy: uuid("shipped_by").references(() => profiles.id),
+  shippedAt: timestamp("shipped_at"),
+  receivedBy: uuid("received_by").references(() => profiles.id),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // PM Templates
@@ -250,23 +670,102 @@ export const pmTemplates = pgTable("pm_templates", {
   description: text("description"),
   estimatedDuration: integer("estimated_duration").default(60),
   frequency: text("frequency").notNull().$type<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually'>(),
+  meterType: text("meter_type").$type<'hours' | 'cycles' | 'odometer'>(), // usage trigger, combined with frequency (whichever comes first)
+  usageInterval: decimal("usage_interval", { precision: 12, scale: 2 }),
   customFields: jsonb("custom_fields"),
   active: boolean("active").default(true),
   warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// PM Scheduling Rules (supervisor-editable overrides on top of PM templates)
+export const pmSchedulingRules = pgTable("pm_scheduling_rules", {
+  id: uuid("id").primaryKey(),
+  name: text("name").notNull(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  templateId: uuid("template_id").references(() => pmTemplates.id),
+  equipmentModels: jsonb("equipment_models").$type<string[]>().notNull(),
+  frequency: text("frequency").notNull().$type<'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annually' | 'custom'>(),
+  customFrequencyDays: integer("custom_frequency_days"),
+  conditions: jsonb("conditions").$type<{
+    operatingHours?: number;
+    cycleCount?: number;
+    lastMaintenanceDate?: string;
+    criticalityLevel?: 'low' | 'medium' | 'high' | 'critical';
+  }>(),
+  triggerType: text("trigger_type").notNull().$type<'time_based' | 'usage_based' | 'condition_based'>(),
+  autoGenerate: boolean("auto_generate").default(true),
+  leadTimeDays: integer("lead_time_days").default(1),
+  priority: text("priority").notNull().$type<'low' | 'medium' | 'high' | 'critical'>(),
+  assignedTechnicians: jsonb("assigned_technicians").$type<string[]>(),
+  requiredParts: jsonb("required_parts").$type<string[]>(),
+  estimatedDuration: decimal("estimated_duration", { precision: 5, scale: 2 }), // hours
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// PM Scheduling Config (one per warehouse)
+export const pmSchedulingConfigs = pgTable("pm_scheduling_configs", {
+  id: uuid("id").primaryKey(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull().unique(),
+  globalSettings: jsonb("global_settings").$type<{
+    autoSchedulingEnabled: boolean;
+    defaultLeadTime: number;
+    workingDays: number[];
+    workingHours: { start: string; end: string };
+    maxConcurrentPMs: number;
+    priorityWeights: { critical: number; high: number; medium: number; low: number };
+  }>().notNull(),
+  escalationRules: jsonb("escalation_rules").$type<{
+    overduePMHours: number;
+    missedPMHours: number;
+    escalationLevels: {
+      level: number;
+      delayHours: number;
+      recipients: string[];
+      actions: ('notify' | 'reassign' | 'escalate')[];
+    }[];
+  }>().notNull(),
+  complianceTargets: jsonb("compliance_targets").$type<{
+    overallComplianceRate: number;
+    criticalEquipmentRate: number;
+    maxOverdueDays: number;
+  }>().notNull(),
+  updatedBy: uuid("updated_by").references(() => profiles.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Technician Shifts (weekly recurring availability used by the PM planner)
+export const technicianShifts = pgTable("technician_shifts", {
+  id: uuid("id").primaryKey(),
+  technicianId: uuid("technician_id").references(() => profiles.id).notNull(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday
+  startTime: text("start_time").notNull(), // HH:MM
+  endTime: text("end_time").notNull(), // HH:MM
+  effectiveFrom: timestamp("effective_from"),
+  effectiveTo: timestamp("effective_to"),
+  active: boolean("active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Notifications
+export const NOTIFICATION_TYPES = ['wo_assigned', 'wo_overdue', 'part_low_stock', 'pm_due', 'equipment_alert', 'vendor_document_expiring'] as const;
+export const NOTIFICATION_CHANNELS = ['in_app', 'socket', 'email', 'push'] as const;
+
 export const notifications = pgTable("notifications", {
   id: uuid("id").primaryKey(),
   userId: uuid("user_id").references(() => profiles.id).notNull(),
-  type: text("type").notNull().$type<'wo_assigned' | 'wo_overdue' | 'part_low_stock' | 'pm_due' | 'equipment_alert'>(),
+  type: text("type").notNull().$type<typeof NOTIFICATION_TYPES[number]>(),
   title: text("title").notNull(),
   message: text("message").notNull(),
   read: boolean("read").default(false),
   workOrderId: uuid("work_order_id").references(() => workOrders.id),
   equipmentId: uuid("equipment_id").references(() => equipment.id),
   partId: uuid("part_id").references(() => parts.id),
+  emailDigestPending: boolean("email_digest_pending").default(false), // waiting for the user's daily email digest
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -284,10 +783,39 @@ export const attachments = pgTable("attachments", {
   equipmentId: uuid("equipment_id").references(() => equipment.id),
   pmTemplateId: uuid("pm_template_id").references(() => pmTemplates.id),
   vendorId: uuid("vendor_id").references(() => vendors.id),
+  documentType: text("document_type").$type<'insurance' | 'w9' | 'contract' | 'certification' | 'sds' | 'other'>(), // vendor documents
+  expiryDate: timestamp("expiry_date"),
   uploadedBy: uuid("uploaded_by").references(() => profiles.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Web Push Subscriptions (one per browser/device)
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: uuid("id").primaryKey(),
+  userId: uuid("user_id").references(() => profiles.id).notNull(),
+  endpoint: text("endpoint").notNull().unique(),
+  p256dh: text("p256dh").notNull(),
+  auth: text("auth").notNull(),
+  userAgent: text("user_agent"),
+  expirationTime: timestamp("expiration_time"),
+  failureCount: integer("failure_count").default(0),
+  lastSuccessAt: timestamp("last_success_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Offline Sync Mutations (idempotency log: one row per client action the server has processed)
+export const syncMutations = pgTable("sync_mutations", {
+  id: uuid("id").primaryKey(),
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  userId: uuid("user_id").references(() => profiles.id).notNull(),
+  entity: text("entity").notNull().$type<'work_orders' | 'work_order_checklist_items' | 'parts_usage' | 'labor_time'>(),
+  entityId: uuid("entity_id"),
+  op: text("op").notNull().$type<'create' | 'update' | 'delete'>(),
+  status: text("status").notNull().$type<'applied' | 'merged' | 'conflict' | 'rejected'>(),
+  result: jsonb("result"), // response returned to the client, replayed on retries
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // System Logs (Audit Trail)
 export const systemLogs = pgTable("system_logs", {
   id: uuid("id").primaryKey(),
@@ -303,19 +831,32 @@ export const systemLogs = pgTable("system_logs", {
 });
 
 // Escalation Rules
+export const ESCALATION_TARGETS = ['supervisor', 'manager', 'admin', 'user'] as const;
+export const ESCALATION_TRIGGERS = ['unstarted', 'past_due', 'manual'] as const;
+
+export type EscalationLevel = {
+  level: number;
+  delayHours: number; // SLA-clock hours after the chain starts
+  target: typeof ESCALATION_TARGETS[number];
+  userId?: string | null; // when target is 'user'
+  action: 'notify' | 'reassign';
+  repeatMinutes: number; // re-notify until someone acknowledges; 0 = notify once
+};
+
 export const escalationRules = pgTable("escalation_rules", {
   id: uuid("id").primaryKey(),
   workOrderType: text("work_order_type").notNull().$type<'corrective' | 'preventive' | 'emergency'>(),
   priority: text("priority").notNull().$type<'low' | 'medium' | 'high' | 'critical'>(),
-  timeoutHours: integer("timeout_hours").notNull(),
+  timeoutHours: integer("timeout_hours").notNull(), // first level's delay, kept for older readers
   escalationAction: text("escalation_action").notNull().$type<'notify_supervisor' | 'notify_manager' | 'auto_reassign'>(),
   escalateTo: uuid("escalate_to").references(() => profiles.id),
+  levels: jsonb("levels").$type<EscalationLevel[]>(), // ordered chain; null on rules saved before chains existed
   warehouseId: uuid("warehouse_id").references(() => warehouses.id),
   active: boolean("active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Escalation History
+// Escalation History (one row per level reached; acknowledging stops the chain)
 export const escalationHistory = pgTable("escalation_history", {
   id: uuid("id").primaryKey(),
   workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
@@ -325,24 +866,146 @@ export const escalationHistory = pgTable("escalation_history", {
   escalatedTo: uuid("escalated_to").references(() => profiles.id),
   action: text("action").notNull(),
   reason: text("reason"),
+  trigger: text("trigger").$type<typeof ESCALATION_TRIGGERS[number]>().default('unstarted'),
+  notificationCount: integer("notification_count").default(1),
+  lastNotifiedAt: timestamp("last_notified_at"),
+  acknowledgedBy: uuid("acknowledged_by").references(() => profiles.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgementNote: text("acknowledgement_note"),
   escalatedAt: timestamp("escalated_at").defaultNow(),
 });
 
+// SLA Calendars (one per warehouse; the business hours SLA clocks run in)
+export const slaCalendars = pgTable("sla_calendars", {
+  id: uuid("id").primaryKey(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull().unique(),
+  timezone: text("timezone").notNull().default("UTC"),
+  // Working windows in the calendar's timezone; 0 = Sunday, several windows per day allowed
+  weeklySchedule: jsonb("weekly_schedule").$type<{ dayOfWeek: number; start: string; end: string }[]>().notNull(),
+  holidays: jsonb("holidays").$type<{ date: string; name: string }[]>().default([]), // date is YYYY-MM-DD
+  pauseReasons: jsonb("pause_reasons").$type<typeof SLA_HOLD_REASONS[number][]>().default([]),
+  updatedBy: uuid("updated_by").references(() => profiles.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// SLA Policies (response and resolution targets per work order type and priority)
+export const slaPolicies = pgTable("sla_policies", {
+  id: uuid("id").primaryKey(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  workOrderType: text("work_order_type").notNull().$type<'corrective' | 'preventive' | 'emergency'>(),
+  priority: text("priority").notNull().$type<'low' | 'medium' | 'high' | 'critical'>(),
+  responseMinutes: integer("response_minutes").notNull(),
+  resolutionMinutes: integer("resolution_minutes").notNull(),
+  businessHoursOnly: boolean("business_hours_only").default(true), // false = the clocks run around the clock
+  atRiskPercent: integer("at_risk_percent").default(75), // share of the target used up before a work order counts as at risk
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  policyPerTypeAndPriority: unique("sla_policies_warehouse_type_priority_unique").on(table.warehouseId, table.workOrderType, table.priority),
+}));
+
+// Work Order Holds (each interval a work order spent on hold)
+export const workOrderHolds = pgTable("work_order_holds", {
+  id: uuid("id").primaryKey(),
+  workOrderId: uuid("work_order_id").references(() => workOrders.id).notNull(),
+  reason: text("reason").notNull().$type<typeof SLA_HOLD_REASONS[number]>(),
+  notes: text("notes"),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at"), // null while the hold is in effect
+  startedBy: uuid("started_by").references(() => profiles.id),
+  endedBy: uuid("ended_by").references(() => profiles.id),
+});
+
+// On-Call Rotations (one per warehouse and role; participants take turns at each handoff)
+export const ON_CALL_ROLES = ['technician', 'supervisor', 'manager', 'admin'] as const;
+
+export const onCallRotations = pgTable("on_call_rotations", {
+  id: uuid("id").primaryKey(),
+  warehouseId: uuid("warehouse_id").references(() => warehouses.id).notNull(),
+  role: text("role").notNull().$type<typeof ON_CALL_ROLES[number]>(),
+  name: text("name").notNull(),
+  handoffFrequency: text("handoff_frequency").notNull().$type<'daily' | 'weekly'>(),
+  handoffTime: text("handoff_time").notNull(), // HH:MM local time
+  handoffDayOfWeek: integer("handoff_day_of_week").default(1), // weekly handoffs only; 0 = Sunday
+  timezone: text("timezone").notNull().default('UTC'),
+  anchorDate: text("anchor_date").notNull(), // YYYY-MM-DD the first participant's turn starts
+  participants: jsonb("participants").$type<string[]>().notNull(), // profile ids in rotation order
+  active: boolean("active").default(true),
+  updatedBy: uuid("updated_by").references(() => profiles.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  rotationPerRole: unique("on_call_rotations_warehouse_role_unique").on(table.warehouseId, table.role),
+}));
+
+// On-Call Overrides (someone covers part of the rotation; swaps are recorded as a pair)
+export const onCallOverrides = pgTable("on_call_overrides", {
+  id: uuid("id").primaryKey(),
+  rotationId: uuid("rotation_id").references(() => onCallRotations.id).notNull(),
+  userId: uuid("user_id").references(() => profiles.id).notNull(), // who is on call instead
+  originalUserId: uuid("original_user_id").references(() => profiles.id),
+  kind: text("kind").notNull().$type<'override' | 'swap'>(),
+  swapGroupId: uuid("swap_group_id"), // shared by both halves of a swap
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdBy: uuid("created_by").references(() => profiles.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const JOB_TYPES = [
+  'escalation_check',
+  'pm_generation',
+  'notification_send',
+  'notification_cleanup',
+  'vendor_document_expiry',
+  'notification_digest',
+  'push_subscription_cleanup',
+  'sla_check',
+] as const;
+
 // Job Queue for background processing
 export const jobQueue = pgTable("job_queue", {
   id: uuid("id").primaryKey(),
-  jobType: text("job_type").notNull().$type<'escalation_check' | 'pm_generation' | 'notification_send'>(),
+  jobType: text("job_type").notNull().$type<typeof JOB_TYPES[number]>(),
   payload: jsonb("payload"),
-  status: text("status").notNull().$type<'pending' | 'processing' | 'completed' | 'failed'>().default('pending'),
+  // failed = last attempt failed and a retry is scheduled; dead = out of attempts (dead letter)
+  status: text("status").notNull().$type<'pending' | 'processing' | 'completed' | 'failed' | 'dead'>().default('pending'),
   attempts: integer("attempts").default(0),
   maxAttempts: integer("max_attempts").default(3),
   scheduledAt: timestamp("scheduled_at"),
   processedAt: timestamp("processed_at"),
   failedAt: timestamp("failed_at"),
   error: text("error"),
+  lockedBy: text("locked_by"), // worker currently holding the job
+  lockedUntil: timestamp("locked_until"), // lease; an expired lease means the worker died and the job can be reclaimed
+  dedupeKey: text("dedupe_key").unique(), // e.g. schedule name + slot, so replicas enqueue a recurring run once
+  scheduleName: text("schedule_name"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Recurring job schedules (cron expressions, evaluated in UTC)
+export const jobSchedules = pgTable("job_schedules", {
+  name: text("name").primaryKey(),
+  jobType: text("job_type").notNull().$type<typeof JOB_TYPES[number]>(),
+  cronExpression: text("cron_expression").notNull(),
+  payload: jsonb("payload"),
+  enabled: boolean("enabled").default(true),
+  maxAttempts: integer("max_attempts").default(3),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cluster-wide locks so singleton jobs run on one replica at a time
+export const jobLocks = pgTable("job_locks", {
+  name: text("name").primaryKey(),
+  owner: text("owner").notNull(),
+  acquiredAt: timestamp("acquired_at").defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
 // Schema exports for forms
 export const insertProfileSchema = createInsertSchema(profiles);
 export const insertUserCredentialsSchema = createInsertSchema(userCredentials);
@@ -355,7 +1018,26 @@ export const insertRateLimitSchema = createInsertSchema(rateLimits);
 
 export const insertWarehouseSchema = createInsertSchema(warehouses);
 
-export const insertEquipmentSchema = createInsertSchema(equipment);
+// Fields are spelled out because the parentEquipmentId self-reference stops drizzle-zod inferring their types
+export const insertEquipmentSchema = createInsertSchema(equipment).extend({
+  id: z.string().uuid(),
+  assetTag: z.string(),
+  model: z.string(),
+  equipmentClass: z.string().optional().nullable(),
+  description: z.string().optional().nullable(),
+  area: z.string().optional().nullable(),
+  locationId: z.string().uuid().optional().nullable(),
+  parentEquipmentId: z.string().uuid().optional().nullable(),
+  status: z.enum(['active', 'inactive', 'maintenance', 'retired']),
+  criticality: z.enum(['low', 'medium', 'high', 'critical']),
+  installDate: z.date().optional().nullable(),
+  warrantyExpiry: z.date().optional().nullable(),
+  manufacturer: z.string().optional().nullable(),
+  serialNumber: z.string().optional().nullable(),
+  specifications: z.unknown().optional(),
+  warehouseId: z.string().uuid(),
+  createdAt: z.date().optional().nullable(),
+});
 
 // Enhanced work order schema with proper validation
 export const insertWorkOrderSchema = createInsertSchema(workOrders, {
@@ -378,23 +1060,146 @@ export const insertWorkOrderSchema = createInsertSchema(workOrders, {
   escalated: z.boolean().optional(),
   escalationLevel: z.number().optional(),
   followUp: z.boolean().optional(),
+  parentWorkOrderId: z.string().uuid().optional().nullable(),
+  vendorId: z.string().uuid().optional().nullable(),
+  vendorQuotedCost: z.string().optional().nullable(),
+  vendorInvoicedCost: z.string().optional().nullable(),
+  problemCodeId: z.string().uuid().optional().nullable(),
+  causeCodeId: z.string().uuid().optional().nullable(),
+  remedyCodeId: z.string().uuid().optional().nullable(),
   updatedAt: z.date().optional(),
 });
 
+export const insertWorkOrderStatusHistorySchema = createInsertSchema(workOrderStatusHistory, {
+  fromStatus: z.enum(['new', 'assigned', 'in_progress', 'completed', 'verified', 'closed']),
+  toStatus: z.enum(['new', 'assigned', 'in_progress', 'completed', 'verified', 'closed']),
+});
+
 export const insertPartSchema = createInsertSchema(parts);
 
 export const insertNotificationSchema = createInsertSchema(notifications);
 
+export const insertMeterReadingSchema = createInsertSchema(meterReadings, {
+  meterType: z.enum(['hours', 'cycles', 'odometer']),
+}).extend({
+  readingType: z.enum(['reading', 'rollover', 'reset']).optional(),
+  source: z.enum(['manual', 'csv', 'api']).optional(),
+});
+
 // Enhanced vendor schema with proper validation
 export const insertVendorSchema = createInsertSchema(vendors, {
   type: z.enum(['supplier', 'contractor']),
   name: z.string().min(1, 'Name is required'),
+}).extend({
+  status: z.enum(['active', 'pending', 'inactive']).optional(),
+});
+
+// Purchasing schemas
+export const insertPurchaseRequisitionSchema = createInsertSchema(purchaseRequisitions, {
+  quantity: z.number().int().positive(),
+}).extend({
+  reason: z.enum(['low_stock', 'manual']).optional(),
+  status: z.enum(['open', 'ordered', 'cancelled']).optional(),
+  warehouseId: z.string().min(1),
 });
 
 export const insertPmTemplateSchema = createInsertSchema(pmTemplates);
 
 export const insertAttachmentSchema = createInsertSchema(attachments);
 
+// PM scheduling rule schema
+export const insertPmSchedulingRuleSchema = createInsertSchema(pmSchedulingRules, {
+  name: z.string().min(1, 'Name is required'),
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'quarterly', 'annually', 'custom']),
+  triggerType: z.enum(['time_based', 'usage_based', 'condition_based']),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+}).extend({
+  equipmentModels: z.array(z.string().min(1)).min(1, 'At least one equipment model is required'),
+  customFrequencyDays: z.number().int().positive().optional().nullable(),
+  conditions: z.object({
+    operatingHours: z.number().positive().optional(),
+    cycleCount: z.number().int().positive().optional(),
+    lastMaintenanceDate: z.string().optional(),
+    criticalityLevel: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  }).optional(),
+  leadTimeDays: z.number().int().min(0).max(365).optional(),
+  autoGenerate: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  assignedTechnicians: z.array(z.string().uuid()).optional(),
+  requiredParts: z.array(z.string()).optional(),
+  estimatedDuration: z.union([z.string(), z.number()]).transform(v => String(v)).optional(),
+  warehouseId: z.string().min(1).optional(),
+  templateId: z.string().uuid().optional().nullable(),
+});
+
+// PM scheduling config schema
+// Notification preferences, stored under profiles.preferences.notifications
+const notificationChannelSettingsSchema = z.object({
+  in_app: z.boolean(),
+  socket: z.boolean(),
+  email: z.boolean(),
+  push: z.boolean(),
+});
+
+export const notificationPreferencesSchema = z.object({
+  types: z.record(z.enum(NOTIFICATION_TYPES), notificationChannelSettingsSchema),
+  emailDelivery: z.enum(['immediate', 'digest']),
+  digestHour: z.number().int().min(0).max(23),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+    end: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+    allowUrgent: z.boolean(),
+  }),
+});
+
+export const pmSchedulingConfigSchema = z.object({
+  globalSettings: z.object({
+    autoSchedulingEnabled: z.boolean(),
+    defaultLeadTime: z.number().int().min(0).max(365),
+    workingDays: z.array(z.number().int().min(0).max(6)).min(1, 'At least one working day is required'),
+    workingHours: z.object({
+      start: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+      end: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+    }),
+    maxConcurrentPMs: z.number().int().positive(),
+    priorityWeights: z.object({
+      critical: z.number().min(0),
+      high: z.number().min(0),
+      medium: z.number().min(0),
+      low: z.number().min(0),
+    }),
+  }),
+  escalationRules: z.object({
+    overduePMHours: z.number().min(0),
+    missedPMHours: z.number().min(0),
+    escalationLevels: z.array(z.object({
+      level: z.number().int().positive(),
+      delayHours: z.number().min(0),
+      recipients: z.array(z.string()).min(1),
+      actions: z.array(z.enum(['notify', 'reassign', 'escalate'])).min(1),
+    })),
+  }),
+  complianceTargets: z.object({
+    overallComplianceRate: z.number().min(0).max(100),
+    criticalEquipmentRate: z.number().min(0).max(100),
+    maxOverdueDays: z.number().int().min(0),
+  }),
+});
+
+// Technician shift schema
+export const insertTechnicianShiftSchema = createInsertSchema(technicianShifts, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Use HH:MM'),
+}).extend({
+  technicianId: z.string().min(1),
+  warehouseId: z.string().min(1).optional(),
+  effectiveFrom: z.coerce.date().optional().nullable(),
+  effectiveTo: z.coerce.date().optional().nullable(),
+  active: z.boolean().optional(),
+});
+
 // Escalation rule schema
 export const insertEscalationRuleSchema = createInsertSchema(escalationRules, {
   workOrderType: z.enum(['corrective', 'preventive', 'emergency']),
@@ -403,10 +1208,248 @@ export const insertEscalationRuleSchema = createInsertSchema(escalationRules, {
   timeoutHours: z.number().min(1, 'Timeout must be at least 1 hour'),
 });
 
+export const escalationLevelSchema = z.object({
+  delayHours: z.number().positive('Delay must be greater than zero'),
+  target: z.enum(ESCALATION_TARGETS),
+  userId: z.string().min(1).optional().nullable(),
+  action: z.enum(['notify', 'reassign']).default('notify'),
+  repeatMinutes: z.number().int().min(0).default(0),
+}).refine(l => l.target !== 'user' || !!l.userId, 'A user level needs a userId');
+
+export const escalationPolicySchema = z.object({
+  ruleId: z.string().optional(),
+  workOrderType: z.enum(['corrective', 'preventive', 'emergency']),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  active: z.boolean().default(true),
+  levels: z.array(escalationLevelSchema).min(1, 'At least one level is required')
+    .refine(levels => levels.every((l, i) => i === 0 || l.delayHours > levels[i - 1].delayHours),
+      'Each level must fire later than the one before it'),
+});
+
+// Typed checklist schemas
+export const checklistItemDefinitionSchema = z.object({
+  key: z.string().min(1).regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores'),
+  component: z.string().min(1),
+  action: z.string().min(1),
+  type: z.enum(CHECKLIST_ITEM_TYPES).default('check'),
+  unit: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  expected: z.boolean().optional(),
+  options: z.array(z.object({ value: z.string().min(1), acceptable: z.boolean().default(true) })).optional(),
+  followUp: z.enum(FOLLOW_UP_MODES).optional(),
+}).refine(d => d.min === undefined || d.max === undefined || d.min <= d.max, 'Minimum cannot exceed maximum')
+  .refine(d => d.type !== 'choice' || (d.options?.length ?? 0) >= 2, 'Choice items need at least two options');
+
+export const checklistReadingSchema = z.object({
+  value: z.union([z.number(), z.boolean(), z.string()]).optional().nullable(),
+  status: z.enum(['pending', 'done', 'skipped', 'issue']).optional(),
+  notes: z.string().optional().nullable(),
+});
+
+export const followUpRequestSchema = z.object({
+  description: z.string().min(1).optional(),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  assignedTo: z.string().min(1).optional(),
+  dueDate: z.coerce.date().optional(),
+});
+
+export const signOffSchema = z.object({
+  kind: z.enum(SIGNATURE_KINDS),
+  method: z.enum(SIGNATURE_METHODS),
+  strokes: z.array(z.array(z.tuple([z.number().min(0).max(1), z.number().min(0).max(1)])).min(1)).max(500).optional(),
+  password: z.string().min(1).optional(),
+  mfaToken: z.string().min(1).optional(),
+  notes: z.string().optional(),
+}).refine(d => d.method !== 'drawn' || (d.strokes?.length ?? 0) > 0, 'Draw a signature before signing')
+  .refine(d => d.method !== 'password' || !!d.password, 'Re-enter your password to sign')
+  .refine(d => d.method !== 'mfa' || !!d.mfaToken, 'Enter your authentication code to sign');
+
+// Asset hierarchy schemas
+export const locationSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  code: z.string().optional().nullable(),
+  type: z.enum(LOCATION_TYPES),
+  parentId: z.string().min(1).optional().nullable(),
+  description: z.string().optional().nullable(),
+  active: z.boolean().default(true),
+});
+
+export const equipmentMoveSchema = z.object({
+  locationId: z.string().min(1).optional().nullable(),
+  parentEquipmentId: z.string().min(1).optional().nullable(),
+  movedAt: z.coerce.date().optional(),
+  notes: z.string().optional(),
+}).refine(m => m.locationId !== undefined || m.parentEquipmentId !== undefined, 'Choose a location or a parent asset');
+
+export const failureCodeSchema = z.object({
+  kind: z.enum(FAILURE_CODE_KINDS),
+  code: z.string().trim().min(1).max(32).transform(c => c.toUpperCase()),
+  name: z.string().trim().min(1),
+  description: z.string().optional().nullable(),
+  equipmentModel: z.string().trim().min(1).optional().nullable(),
+  equipmentClass: z.string().trim().min(1).optional().nullable(),
+  active: z.boolean().default(true),
+});
+
+// Kind is fixed once a code exists; active is not defaulted so an edit never reactivates a retired code
+export const failureCodeUpdateSchema = failureCodeSchema.omit({ kind: true, active: true }).partial().extend({
+  active: z.boolean().optional(),
+});
+
+export const downtimeEventSchema = z.object({
+  equipmentId: z.string().min(1),
+  workOrderId: z.string().min(1).optional().nullable(),
+  type: z.enum(DOWNTIME_TYPES),
+  reasonCode: z.enum(DOWNTIME_REASON_CODES),
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+}).refine(e => !e.endedAt || !e.startedAt || e.endedAt > e.startedAt, {
+  message: 'Downtime must end after it starts',
+  path: ['endedAt'],
+});
+
+export const downtimeUpdateSchema = z.object({
+  workOrderId: z.string().min(1).optional().nullable(),
+  type: z.enum(DOWNTIME_TYPES).optional(),
+  reasonCode: z.enum(DOWNTIME_REASON_CODES).optional(),
+  startedAt: z.coerce.date().optional(),
+  endedAt: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+// Label sheets: Avery-style letter grids and single 2x1" thermal labels
+export const LABEL_STOCKS = ['avery_5160', 'avery_5163', 'thermal_2x1'] as const;
+export const LABEL_SYMBOLOGIES = ['qr', 'code128'] as const;
+
+export const labelSheetSchema = z.object({
+  stock: z.enum(LABEL_STOCKS).default('avery_5160'),
+  symbology: z.enum(LABEL_SYMBOLOGIES).default('qr'),
+  ids: z.array(z.string().min(1)).optional(), // print just these; otherwise everything matching the filter
+  filter: z.object({
+    search: z.string().optional(),
+    status: z.string().optional(),
+    criticality: z.string().optional(),
+    locationId: z.string().optional(),
+    category: z.string().optional(),
+  }).default({}),
+  startPosition: z.number().int().min(1).default(1), // skip labels already used on a part-used sheet
+});
+
+// Request portal: form fields arrive as strings, so blanks mean "not given"
+const optionalText = (max: number) => z.string().trim().max(max).optional().nullable().transform(v => v || null);
+
+export const workRequestSubmissionSchema = z.object({
+  code: z.string().trim().min(1, 'Scan an asset label or open the kiosk link to report a problem'),
+  description: z.string().trim().min(5, 'Describe the problem').max(2000),
+  area: optionalText(200),
+  urgency: z.enum(WORK_REQUEST_URGENCIES).default('medium'),
+  requesterName: z.string().trim().min(1, 'Enter your name').max(120),
+  requesterEmail: z.union([z.literal(''), z.string().trim().email()]).optional().nullable().transform(v => v || null),
+  requesterPhone: optionalText(40),
+});
+
+// Raised by signed-in staff instead of creating a work order directly
+export const workRequestSchema = z.object({
+  description: z.string().trim().min(5, 'Describe the problem').max(2000),
+  equipmentId: z.string().min(1).optional().nullable(),
+  area: optionalText(200),
+  urgency: z.enum(WORK_REQUEST_URGENCIES).default('medium'),
+  estimatedCost: z.coerce.number().nonnegative().optional().nullable(),
+  estimatedHours: z.coerce.number().nonnegative().optional().nullable(),
+});
+
+export const workRequestApprovalSchema = z.object({
+  type: z.enum(['corrective', 'emergency']).default('corrective'),
+  priority: z.enum(['low', 'medium', 'high', 'critical']).optional(), // defaults from the requester's urgency
+  description: z.string().trim().min(1).optional(),
+  assignedTo: z.string().uuid().optional(),
+  dueDate: z.coerce.date().optional(),
+  estimatedCost: z.coerce.number().nonnegative().optional().nullable(), // the approver's estimate replaces the requester's
+  estimatedHours: z.coerce.number().nonnegative().optional().nullable(),
+});
+
+export const workRequestMergeSchema = z.object({
+  workOrderId: z.string().min(1),
+});
+
+export const workRequestRejectionSchema = z.object({
+  reason: z.string().trim().min(3, 'Give the requester a reason'),
+});
+
+export const approvalThresholdSchema = z.object({
+  role: z.enum(APPROVER_ROLES),
+  maxCost: z.number().nonnegative().nullable(),
+  maxHours: z.number().nonnegative().nullable(),
+});
+
+// SLA calendar and policy schemas
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Use HH:MM');
+
+const timezoneName = z.string().refine(tz => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Unknown timezone');
+
+export const slaCalendarSchema = z.object({
+  timezone: timezoneName,
+  weeklySchedule: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    start: timeOfDay,
+    end: timeOfDay,
+  }).refine(w => w.start < w.end, 'Window must end after it starts')).min(1, 'At least one working window is required'),
+  holidays: z.array(z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+    name: z.string().min(1),
+  })).default([]),
+  pauseReasons: z.array(z.enum(SLA_HOLD_REASONS)).default([]),
+});
+
+export const insertSlaPolicySchema = z.object({
+  workOrderType: z.enum(['corrective', 'preventive', 'emergency']),
+  priority: z.enum(['low', 'medium', 'high', 'critical']),
+  responseMinutes: z.number().int().positive(),
+  resolutionMinutes: z.number().int().positive(),
+  businessHoursOnly: z.boolean().default(true),
+  atRiskPercent: z.number().int().min(1).max(99).default(75),
+}).refine(p => p.resolutionMinutes >= p.responseMinutes, 'Resolution target cannot be shorter than the response target');
+
+// On-call rotation schemas
+export const onCallRotationSchema = z.object({
+  role: z.enum(ON_CALL_ROLES),
+  name: z.string().min(1),
+  handoffFrequency: z.enum(['daily', 'weekly']),
+  handoffTime: timeOfDay,
+  handoffDayOfWeek: z.number().int().min(0).max(6).default(1),
+  timezone: timezoneName.default('UTC'),
+  anchorDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  participants: z.array(z.string().min(1)).min(1, 'At least one participant is required')
+    .refine(ids => new Set(ids).size === ids.length, 'Participants must be unique'),
+  active: z.boolean().default(true),
+});
+
+export const onCallOverrideSchema = z.object({
+  userId: z.string().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().optional(),
+}).refine(o => o.endsAt > o.startsAt, 'Override must end after it starts');
+
+export const onCallSwapSchema = z.object({
+  firstShiftAt: z.coerce.date(), // any instant inside each of the two shifts
+  secondShiftAt: z.coerce.date(),
+  reason: z.string().optional(),
+});
+
 export const insertEscalationHistorySchema = createInsertSchema(escalationHistory);
 
 export const insertJobQueueSchema = createInsertSchema(jobQueue, {
-  jobType: z.enum(['escalation_check', 'pm_generation', 'notification_send']),
+  jobType: z.enum(JOB_TYPES),
 });
 
 export const insertLaborTimeSchema = createInsertSchema(laborTime).extend({
@@ -423,11 +1466,60 @@ export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
 
 export type Equipment = typeof equipment.$inferSelect;
 export type InsertEquipment = z.infer<typeof insertEquipmentSchema>;
+export type LocationType = typeof LOCATION_TYPES[number];
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof locationSchema>;
+export type EquipmentInstallation = typeof equipmentInstallations.$inferSelect;
+export type EquipmentMove = z.infer<typeof equipmentMoveSchema>;
 
 export type WorkOrder = typeof workOrders.$inferSelect;
 export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
 
+export type WorkOrderStatusHistory = typeof workOrderStatusHistory.$inferSelect;
+export type InsertWorkOrderStatusHistory = z.infer<typeof insertWorkOrderStatusHistorySchema>;
+
+export type FailureCode = typeof failureCodes.$inferSelect;
+export type FailureCodeKind = typeof FAILURE_CODE_KINDS[number];
+export type InsertFailureCode = z.infer<typeof failureCodeSchema>;
+export type FailureCodeUpdate = z.infer<typeof failureCodeUpdateSchema>;
+export type LabelStock = typeof LABEL_STOCKS[number];
+export type LabelSymbology = typeof LABEL_SYMBOLOGIES[number];
+export type LabelSheetRequest = z.infer<typeof labelSheetSchema>;
+
+export type WorkRequest = typeof workRequests.$inferSelect;
+export type WorkRequestStatus = typeof WORK_REQUEST_STATUSES[number];
+export type WorkRequestSource = typeof WORK_REQUEST_SOURCES[number];
+export type WorkRequestUrgency = typeof WORK_REQUEST_URGENCIES[number];
+export type WorkRequestSubmission = z.infer<typeof workRequestSubmissionSchema>;
+export type InsertWorkRequest = z.infer<typeof workRequestSchema>;
+export type WorkRequestApproval = z.infer<typeof workRequestApprovalSchema>;
+export type ApproverRole = typeof APPROVER_ROLES[number];
+export type ApprovalThreshold = typeof approvalThresholds.$inferSelect;
+export type InsertApprovalThreshold = z.infer<typeof approvalThresholdSchema>;
+export type WorkRequestDecision = typeof workRequestDecisions.$inferSelect;
+export type WorkRequestAction = typeof WORK_REQUEST_ACTIONS[number];
+
+export type DowntimeEvent = typeof downtimeEvents.$inferSelect;
+export type DowntimeType = typeof DOWNTIME_TYPES[number];
+export type DowntimeReasonCode = typeof DOWNTIME_REASON_CODES[number];
+export type DowntimeSource = typeof DOWNTIME_SOURCES[number];
+export type InsertDowntimeEvent = z.infer<typeof downtimeEventSchema>;
+export type DowntimeUpdate = z.infer<typeof downtimeUpdateSchema>;
+
+export type WorkOrderSignature = typeof workOrderSignatures.$inferSelect;
+export type SignatureKind = typeof SIGNATURE_KINDS[number];
+export type SignatureMethod = typeof SIGNATURE_METHODS[number];
+export type SignOffRequest = z.infer<typeof signOffSchema>;
+
 export type WorkOrderChecklistItem = typeof workOrderChecklistItems.$inferSelect;
+// Typed-item columns are optional so plain component/action items can still be created as before
+export type InsertWorkOrderChecklistItem = Pick<WorkOrderChecklistItem, 'workOrderId' | 'component' | 'action' | 'status' | 'notes' | 'sortOrder'>
+  & Partial<Omit<WorkOrderChecklistItem, 'id' | 'createdAt' | 'version'>>;
+export type ChecklistItemType = typeof CHECKLIST_ITEM_TYPES[number];
+export type ChecklistReading = typeof checklistReadings.$inferSelect;
+export type ChecklistReadingInput = z.infer<typeof checklistReadingSchema>;
+export type FollowUpMode = typeof FOLLOW_UP_MODES[number];
+export type FollowUpRequest = z.infer<typeof followUpRequestSchema>;
 
 export type Part = typeof parts.$inferSelect;
 export type InsertPart = z.infer<typeof insertPartSchema>;
@@ -437,18 +1529,59 @@ export type PartsUsage = typeof partsUsage.$inferSelect;
 export type LaborTime = typeof laborTime.$inferSelect;
 export type InsertLaborTime = z.infer<typeof insertLaborTimeSchema>;
 
+export type MeterReading = typeof meterReadings.$inferSelect;
+export type InsertMeterReading = z.infer<typeof insertMeterReadingSchema>;
+
 export type Vendor = typeof vendors.$inferSelect;
 export type InsertVendor = z.infer<typeof insertVendorSchema>;
 
+export type PurchaseRequisition = typeof purchaseRequisitions.$inferSelect;
+export type InsertPurchaseRequisition = z.infer<typeof insertPurchaseRequisitionSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+
+export type PurchaseOrderReceipt = typeof purchaseOrderReceipts.$inferSelect;
+
+export type InventoryTransaction = typeof inventoryTransactions.$inferSelect;
+// A ledger entry as posted; its balance, location and warehouse are taken from the part
+export type InventoryPosting = Omit<InventoryTransaction, 'id' | 'createdAt' | 'balanceAfter' | 'location' | 'warehouseId'>;
+
+export type InventoryReservation = typeof inventoryReservations.$inferSelect;
+
+export type CycleCount = typeof cycleCounts.$inferSelect;
+
+export type CycleCountLine = typeof cycleCountLines.$inferSelect;
+
+export type TransferOrder = typeof transferOrders.$inferSelect;
+
 export type PmTemplate = typeof pmTemplates.$inferSelect;
 export type InsertPmTemplate = z.infer<typeof insertPmTemplateSchema>;
 
+export type PmSchedulingRule = typeof pmSchedulingRules.$inferSelect;
+export type InsertPmSchedulingRule = z.infer<typeof insertPmSchedulingRuleSchema>;
+
+export type PmSchedulingConfig = typeof pmSchedulingConfigs.$inferSelect;
+export type InsertPmSchedulingConfig = z.infer<typeof pmSchedulingConfigSchema>;
+
+export type TechnicianShift = typeof technicianShifts.$inferSelect;
+export type InsertTechnicianShift = z.infer<typeof insertTechnicianShiftSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
+
 export type Attachment = typeof attachments.$inferSelect;
 export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
 
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+
+export type SyncMutation = typeof syncMutations.$inferSelect;
+
 export type SystemLog = typeof systemLogs.$inferSelect;
 
 export type EscalationRule = typeof escalationRules.$inferSelect;
@@ -456,6 +1589,22 @@ export type InsertEscalationRule = z.infer<typeof insertEscalationRuleSchema>;
 
 export type EscalationHistory = typeof escalationHistory.$inferSelect;
 export type InsertEscalationHistory = z.infer<typeof insertEscalationHistorySchema>;
+export type EscalationTrigger = typeof ESCALATION_TRIGGERS[number];
+export type EscalationPolicy = z.infer<typeof escalationPolicySchema>;
+
+export type SlaHoldReason = typeof SLA_HOLD_REASONS[number];
+export type SlaCalendar = typeof slaCalendars.$inferSelect;
+export type InsertSlaCalendar = z.infer<typeof slaCalendarSchema>;
+export type SlaPolicy = typeof slaPolicies.$inferSelect;
+export type InsertSlaPolicy = z.infer<typeof insertSlaPolicySchema>;
+export type WorkOrderHold = typeof workOrderHolds.$inferSelect;
+export type OnCallRole = typeof ON_CALL_ROLES[number];
+export type OnCallRotation = typeof onCallRotations.$inferSelect;
+export type InsertOnCallRotation = z.infer<typeof onCallRotationSchema>;
+export type OnCallOverride = typeof onCallOverrides.$inferSelect;
 
 export type JobQueue = typeof jobQueue.$inferSelect;
 export type InsertJobQueue = z.infer<typeof insertJobQueueSchema>;
+export type JobType = typeof JOB_TYPES[number];
+export type JobSchedule = typeof jobSchedules.$inferSelect;
+export type JobLock = typeof jobLocks.$inferSelect;
@@ -0,0 +1,86 @@
+import type {
+  Equipment,
+  InsertPart,
+  InsertProfile,
+  InsertWorkOrder,
+  Part,
+  Profile,
+  Vendor,
+  Warehouse,
+  WorkOrder,
+} from '../../shared/schema';
+import { storage } from '../../server/storage';
+
+// Counts up rather than being random, so values are unique within a test file and the same on every run
+let sequence = 0;
+
+export const nextId = (): string => String(++sequence).padStart(4, '0');
+
+export function createTestWarehouse(fields: Partial<Warehouse> = {}): Promise<Warehouse> {
+  return storage.createWarehouse({ name: `Warehouse ${nextId()}`, timezone: 'UTC', active: true, ...fields });
+}
+
+export function createTestProfile(warehouseId: string, fields: Partial<InsertProfile> = {}): Promise<Profile> {
+  const n = nextId();
+  return storage.createProfile({
+    email: `user-${n}@example.com`,
+    firstName: 'Test',
+    lastName: `User ${n}`,
+    role: 'technician',
+    active: true,
+    warehouseId,
+    ...fields,
+  });
+}
+
+export function createTestEquipment(warehouseId: string, fields: Partial<Equipment> = {}): Promise<Equipment> {
+  return storage.createEquipment({
+    assetTag: `EQ-${nextId()}`,
+    model: 'Conveyor System',
+    status: 'active',
+    criticality: 'medium',
+    warehouseId,
+    ...fields,
+  });
+}
+
+export function createTestWorkOrder(warehouseId: string, fields: Partial<InsertWorkOrder> = {}): Promise<WorkOrder> {
+  return storage.createWorkOrder({
+    foNumber: `WO-${nextId()}`,
+    type: 'corrective',
+    status: 'new',
+    priority: 'medium',
+    description: 'Test work order',
+    requestedBy: 'requester-id',
+    warehouseId,
+    ...fields,
+  });
+}
+
+export function createTestPart(warehouseId: string, fields: Partial<InsertPart> = {}): Promise<Part> {
+  const n = nextId();
+  return storage.createPart({
+    partNumber: `P-${n}`,
+    name: `Part ${n}`,
+    description: 'Test part',
+    unitOfMeasure: 'each',
+    stockLevel: 0,
+    reorderPoint: 0,
+    active: true,
+    warehouseId,
+    ...fields,
+  });
+}
+
+export function createTestVendor(warehouseId: string, fields: Partial<Vendor> = {}): Promise<Vendor> {
+  // InsertVendor only describes the validated fields, so the full row is built as a Vendor
+  const vendor: Partial<Vendor> = {
+    name: `Vendor ${nextId()}`,
+    type: 'supplier',
+    active: true,
+    status: 'active',
+    warehouseId,
+    ...fields,
+  };
+  return storage.createVendor(vendor);
+}
@@ -0,0 +1,14 @@
+import { vi } from 'vitest';
+
+type StorageModule = typeof import('../../server/storage');
+
+/**
+ * Factory for mocking the storage module with a fresh in-memory store, keeping its other exports
+ * (MemStorage, StaleVersionError, InsufficientStockError) real:
+ *
+ *   vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+ */
+export async function memStorageModule(): Promise<StorageModule> {
+  const actual = await vi.importActual<StorageModule>('../../server/storage');
+  return { ...actual, storage: new actual.MemStorage() };
+}
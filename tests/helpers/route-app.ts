@@ -0,0 +1,40 @@
+import express, { type Express } from 'express';
+
+export interface TestUser {
+  id: string;
+  role: string;
+  warehouseId?: string;
+}
+
+type RegisterRoutes = (app: Express, authenticateRequest: any, requireRole: any) => void;
+
+const USER_HEADER = 'x-test-user';
+
+/**
+ * Express app with one group of routes registered behind stand-ins for the session middleware:
+ * authenticateRequest reads the user from the header set by asUser, and requireRole checks its role.
+ */
+export function createRouteApp(register: RegisterRoutes): Express {
+  const app = express();
+  app.use(express.json());
+
+  const authenticateRequest = (req: any, res: any, next: any) => {
+    const user = req.header(USER_HEADER);
+    if (!user) {
+      return res.status(401).json({ message: 'Authentication required' });
+    }
+    req.user = JSON.parse(user);
+    next();
+  };
+  const requireRole = (...allowedRoles: string[]) => (req: any, res: any, next: any) => {
+    if (!allowedRoles.includes(req.user?.role)) {
+      return res.status(403).json({ message: 'Insufficient permissions' });
+    }
+    next();
+  };
+
+  register(app, authenticateRequest, requireRole);
+  return app;
+}
+
+export const asUser = (user: TestUser): Record<string, string> => ({ [USER_HEADER]: JSON.stringify(user) });
@@ -12,8 +12,9 @@ vi.mock('../../server/storage', () => ({
     getWorkOrders: vi.fn(),
     createWorkOrder: vi.fn(),
     createWorkOrderChecklistItem: vi.fn(),
-    createNotification: vi.fn(),
+    createNotification: vi.fn(async (data) => ({ id: 'notification-1', ...data })),
     getProfiles: vi.fn(),
+    getProfile: vi.fn(),
     getWorkOrder: vi.fn(),
   },
 }));
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerChecklistRoutes } from '../../../server/routes/checklists';
+import { storage } from '../../../server/storage';
+import type { Warehouse, WorkOrder, WorkOrderChecklistItem } from '../../../shared/schema';
+import { createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerChecklistRoutes);
+
+let warehouse: Warehouse;
+let workOrder: WorkOrder;
+let item: WorkOrderChecklistItem;
+
+describe('Checklist routes', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse();
+    workOrder = await createTestWorkOrder(warehouse.id, { status: 'in_progress', assignedTo: 'assignee-id' });
+    item = await storage.createChecklistItem({ workOrderId: workOrder.id, component: 'Drive belt', action: 'Check tension', status: 'pending', notes: null, sortOrder: 0 });
+  });
+
+  it('lets technicians record only on work orders assigned to them', async () => {
+    const assignee = { id: 'assignee-id', role: 'technician', warehouseId: warehouse.id };
+    const colleague = { id: 'colleague-id', role: 'technician', warehouseId: warehouse.id };
+
+    await request(app).patch(`/api/checklist-items/${item.id}`).set(asUser(colleague)).send({ status: 'done' }).expect(403);
+    await request(app).patch(`/api/work-orders/${workOrder.id}/checklist/${item.id}`).set(asUser(colleague)).send({ status: 'done' }).expect(403);
+    expect((await storage.getChecklistItem(item.id))?.status).toBe('pending');
+
+    await request(app).patch(`/api/work-orders/${workOrder.id}/checklist/${item.id}`).set(asUser(assignee)).send({ status: 'done' }).expect(200);
+    expect((await storage.getChecklistItem(item.id))?.status).toBe('done');
+  });
+
+  it('needs permission to create work orders to raise a follow-up', async () => {
+    await request(app).post(`/api/checklist-items/${item.id}/follow-up`).set(asUser({ id: 'assignee-id', role: 'technician', warehouseId: warehouse.id })).send({}).expect(403);
+    await request(app).post(`/api/checklist-items/${item.id}/follow-up`).set(asUser({ id: 'clerk-id', role: 'inventory_clerk', warehouseId: warehouse.id })).send({}).expect(403);
+  });
+
+  it('treats another warehouse\'s checklist items as missing', async () => {
+    const outsider = { id: 'sup-id', role: 'supervisor', warehouseId: (await createTestWarehouse()).id };
+
+    await request(app).patch(`/api/checklist-items/${item.id}`).set(asUser(outsider)).send({ status: 'done' }).expect(404);
+    await request(app).patch(`/api/work-orders/${workOrder.id}/checklist/${item.id}`).set(asUser(outsider)).send({ status: 'done' }).expect(404);
+    await request(app).post(`/api/checklist-items/${item.id}/follow-up`).set(asUser(outsider)).send({}).expect(404);
+    expect((await storage.getChecklistItem(item.id))?.status).toBe('pending');
+  });
+});
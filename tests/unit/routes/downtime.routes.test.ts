@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerDowntimeRoutes } from '../../../server/routes/downtime';
+import { downtimeService } from '../../../server/services/downtime.service';
+import { storage } from '../../../server/storage';
+import type { DowntimeEvent, Equipment, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerDowntimeRoutes);
+
+let warehouse: Warehouse;
+let press: Equipment;
+let event: DowntimeEvent;
+
+describe('Downtime routes', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse();
+    press = await createTestEquipment(warehouse.id, { model: 'Hydraulic press' });
+    event = await downtimeService.openEvent({ equipmentId: press.id, type: 'planned', reasonCode: 'changeover' }, warehouse.id);
+  });
+
+  it('needs permission to update equipment to record downtime', async () => {
+    const requester = { id: 'requester-id', role: 'requester', warehouseId: warehouse.id };
+
+    await request(app).get('/api/downtime').set(asUser(requester)).expect(200);
+    await request(app).post(`/api/downtime/${event.id}/close`).set(asUser(requester)).send({}).expect(403);
+    await request(app).patch(`/api/downtime/${event.id}`).set(asUser(requester)).send({ notes: 'Die change' }).expect(403);
+    expect((await storage.getDowntimeEvent(event.id))?.endedAt).toBeNull();
+
+    await request(app).post(`/api/downtime/${event.id}/close`).set(asUser({ ...requester, role: 'technician' })).send({}).expect(200);
+  });
+
+  it('treats another warehouse\'s downtime and equipment as missing', async () => {
+    const outsider = { id: 'sup-id', role: 'supervisor', warehouseId: (await createTestWarehouse()).id };
+
+    await request(app).patch(`/api/downtime/${event.id}`).set(asUser(outsider)).send({ notes: 'Die change' }).expect(404);
+    await request(app).post(`/api/downtime/${event.id}/close`).set(asUser(outsider)).send({}).expect(404);
+    await request(app).get(`/api/equipment/${press.id}/reliability`).set(asUser(outsider)).expect(404);
+    await request(app).post('/api/downtime').set(asUser(outsider)).send({ equipmentId: press.id, type: 'unplanned', reasonCode: 'changeover' }).expect(404);
+    expect((await request(app).get('/api/downtime').set(asUser(outsider)).expect(200)).body).toEqual([]);
+
+    expect(await storage.getDowntimeEvent(event.id)).toMatchObject({ endedAt: null, notes: null });
+  });
+});
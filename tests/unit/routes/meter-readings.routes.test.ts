@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerMeterReadingRoutes } from '../../../server/routes/meter-readings';
+import { storage } from '../../../server/storage';
+import type { Equipment, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerMeterReadingRoutes);
+
+let warehouse: Warehouse;
+let press: Equipment;
+
+describe('Meter reading routes', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse();
+    press = await createTestEquipment(warehouse.id, { model: 'Hydraulic press' });
+  });
+
+  it('needs permission to update equipment to record readings', async () => {
+    const requester = { id: 'requester-id', role: 'requester', warehouseId: warehouse.id };
+    const technician = { id: 'tech-id', role: 'technician', warehouseId: warehouse.id };
+    const reading = { meterType: 'hours', value: 120 };
+
+    await request(app).post(`/api/equipment/${press.id}/meter-readings`).send(reading).expect(401);
+    await request(app).post(`/api/equipment/${press.id}/meter-readings`).set(asUser(requester)).send(reading).expect(403);
+    await request(app).post('/api/meter-readings/bulk').set(asUser(requester)).send({ readings: [{ ...reading, equipmentId: press.id }] }).expect(403);
+    await request(app).post('/api/meter-readings/import').set(asUser(technician)).send({ csv: `assetTag,meterType,value\n${press.assetTag},hours,120` }).expect(403);
+    expect(await storage.getMeterReadings(press.id)).toHaveLength(0);
+
+    await request(app).post(`/api/equipment/${press.id}/meter-readings`).set(asUser(technician)).send(reading).expect(201);
+    expect(await storage.getMeterReadings(press.id)).toHaveLength(1);
+  });
+
+  it('treats another warehouse\'s equipment as missing', async () => {
+    const outsider = { id: 'sup-id', role: 'supervisor', warehouseId: (await createTestWarehouse()).id };
+    const reading = { meterType: 'hours', value: 120 };
+
+    await request(app).get(`/api/equipment/${press.id}/meter-readings`).set(asUser(outsider)).expect(404);
+    await request(app).post(`/api/equipment/${press.id}/meter-readings`).set(asUser(outsider)).send(reading).expect(404);
+    const bulk = await request(app).post('/api/meter-readings/bulk').set(asUser(outsider)).send({ readings: [{ ...reading, equipmentId: press.id }] }).expect(400);
+    expect(bulk.body).toMatchObject({ imported: 0, errors: [{ index: 0, message: 'Equipment not found' }] });
+    const imported = await request(app).post('/api/meter-readings/import').set(asUser(outsider)).send({ csv: `assetTag,meterType,value\n${press.assetTag},hours,120` }).expect(400);
+    expect(imported.body.imported).toBe(0);
+
+    expect(await storage.getMeterReadings(press.id)).toHaveLength(0);
+  });
+});
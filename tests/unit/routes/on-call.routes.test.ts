@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerOnCallRoutes } from '../../../server/routes/on-call';
+import { onCallService } from '../../../server/services/on-call.service';
+import { storage } from '../../../server/storage';
+import type { OnCallRotation, Profile, Warehouse } from '../../../shared/schema';
+import { createTestProfile, createTestWarehouse } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerOnCallRoutes);
+
+let warehouse: Warehouse;
+let alex: Profile;
+let blair: Profile;
+let rotation: OnCallRotation;
+
+const rotationInput = () => ({
+  role: 'technician',
+  name: 'Line technicians',
+  handoffFrequency: 'weekly',
+  handoffTime: '09:00',
+  handoffDayOfWeek: 1,
+  timezone: 'UTC',
+  anchorDate: '2025-03-03',
+  participants: [alex.id, blair.id],
+});
+
+const override = () => ({ userId: blair.id, startsAt: '2025-03-04T09:00:00Z', endsAt: '2025-03-05T09:00:00Z' });
+
+describe('On-call routes', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse();
+    [alex, blair] = [await createTestProfile(warehouse.id), await createTestProfile(warehouse.id)];
+    rotation = await onCallService.saveRotation(warehouse.id, rotationInput());
+  });
+
+  it('leaves rotations to managers and overrides to those who assign work', async () => {
+    const technician = { id: alex.id, role: 'technician', warehouseId: warehouse.id };
+    const supervisor = { id: 'sup-id', role: 'supervisor', warehouseId: warehouse.id };
+
+    await request(app).put(`/api/on-call/rotations/${warehouse.id}`).set(asUser(supervisor)).send(rotationInput()).expect(403);
+    await request(app).put(`/api/on-call/rotations/${warehouse.id}`).set(asUser({ ...supervisor, role: 'manager' })).send(rotationInput()).expect(200);
+
+    await request(app).post(`/api/on-call/rotations/${rotation.id}/overrides`).set(asUser(technician)).send(override()).expect(403);
+    await request(app).post(`/api/on-call/rotations/${rotation.id}/overrides`).set(asUser(supervisor)).send(override()).expect(201);
+  });
+
+  it('treats another warehouse\'s rotations as missing', async () => {
+    const outsider = { id: 'mgr-id', role: 'manager', warehouseId: (await createTestWarehouse()).id };
+
+    await request(app).get(`/api/on-call/rotations/${warehouse.id}`).set(asUser(outsider)).expect(404);
+    await request(app).put(`/api/on-call/rotations/${warehouse.id}`).set(asUser(outsider)).send(rotationInput()).expect(404);
+    await request(app).get(`/api/on-call/schedule/${warehouse.id}`).set(asUser(outsider)).expect(404);
+    await request(app).get(`/api/on-call/current/${warehouse.id}`).set(asUser(outsider)).expect(404);
+    await request(app).post(`/api/on-call/rotations/${rotation.id}/overrides`).set(asUser(outsider)).send(override()).expect(404);
+    await request(app).post(`/api/on-call/rotations/${rotation.id}/swaps`).set(asUser(outsider)).send({}).expect(404);
+
+    expect(await storage.getOnCallOverrides(rotation.id)).toHaveLength(0);
+  });
+
+  it('serves a calendar feed only with the user\'s own signed token', async () => {
+    const { body } = await request(app).get('/api/on-call/feed-url').set(asUser({ id: alex.id, role: 'technician', warehouseId: warehouse.id })).expect(200);
+    const token = new URL(body.url, 'http://localhost').searchParams.get('token');
+
+    await request(app).get(`/api/on-call/feed/${alex.id}.ics?token=${token}`).expect(200);
+    await request(app).get(`/api/on-call/feed/${blair.id}.ics?token=${token}`).expect(403);
+    await request(app).get(`/api/on-call/feed/${alex.id}.ics`).expect(403);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerPMSchedulerRoutes } from '../../../server/routes/pm-scheduler';
+import { storage } from '../../../server/storage';
+import type { InsertPmSchedulingRule, PmSchedulingRule, Warehouse } from '../../../shared/schema';
+import { createTestProfile, createTestWarehouse } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerPMSchedulerRoutes);
+
+const weeklyRule: Omit<InsertPmSchedulingRule, 'warehouseId'> = {
+  name: 'Weekly conveyor inspection',
+  equipmentModels: ['Conveyor System'],
+  frequency: 'weekly',
+  triggerType: 'time_based',
+  priority: 'medium',
+};
+
+let east: Warehouse;
+let west: Warehouse;
+let rule: PmSchedulingRule;
+
+describe('PM scheduler routes', () => {
+  beforeEach(async () => {
+    east = await createTestWarehouse({ name: 'East' });
+    west = await createTestWarehouse({ name: 'West' });
+    rule = await storage.createPmSchedulingRule({ ...weeklyRule, warehouseId: east.id });
+  });
+
+  it('only lets planners change scheduling rules', async () => {
+    const technician = { id: 'tech-id', role: 'technician', warehouseId: east.id };
+    const supervisor = { id: 'sup-id', role: 'supervisor', warehouseId: east.id };
+
+    await request(app).post('/api/pm-scheduler/rules').send(weeklyRule).expect(401);
+    await request(app).post('/api/pm-scheduler/rules').set(asUser(technician)).send(weeklyRule).expect(403);
+    await request(app).delete(`/api/pm-scheduler/rules/${rule.id}`).set(asUser(technician)).expect(403);
+
+    const created = await request(app).post('/api/pm-scheduler/rules').set(asUser(supervisor)).send({ ...weeklyRule, warehouseId: west.id }).expect(201);
+    expect(created.body.warehouseId).toBe(east.id);
+  });
+
+  it('only lets planners schedule shifts, within their own warehouse', async () => {
+    const technician = await createTestProfile(east.id, { role: 'technician' });
+    const shift = { technicianId: technician.id, dayOfWeek: 1, startTime: '06:00', endTime: '14:00' };
+    const supervisor = { id: 'sup-id', role: 'supervisor', warehouseId: east.id };
+
+    await request(app).post('/api/pm-scheduler/shifts').set(asUser({ id: technician.id, role: 'technician', warehouseId: east.id })).send(shift).expect(403);
+    const created = await request(app).post('/api/pm-scheduler/shifts').set(asUser(supervisor)).send(shift).expect(201);
+
+    await request(app).delete(`/api/pm-scheduler/shifts/${created.body.id}`).set(asUser({ ...supervisor, warehouseId: west.id })).expect(404);
+    await request(app).delete(`/api/pm-scheduler/shifts/${created.body.id}`).set(asUser(supervisor)).expect(204);
+  });
+
+  it('treats another warehouse\'s rules and config as missing', async () => {
+    const outsider = { id: 'sup-id', role: 'supervisor', warehouseId: west.id };
+
+    await request(app).get(`/api/pm-scheduler/rules/${rule.id}`).set(asUser(outsider)).expect(404);
+    await request(app).put(`/api/pm-scheduler/rules/${rule.id}`).set(asUser(outsider)).send({ priority: 'high' }).expect(404);
+    await request(app).delete(`/api/pm-scheduler/rules/${rule.id}`).set(asUser(outsider)).expect(404);
+    await request(app).get(`/api/pm-scheduler/config/${east.id}`).set(asUser(outsider)).expect(404);
+    await request(app).put(`/api/pm-scheduler/config/${east.id}`).set(asUser(outsider)).send({}).expect(404);
+    expect((await request(app).get('/api/pm-scheduler/rules').set(asUser(outsider)).expect(200)).body).toEqual([]);
+
+    expect(await storage.getPmSchedulingRule(rule.id)).toMatchObject({ priority: 'medium' });
+    await request(app).get(`/api/pm-scheduler/rules/${rule.id}`).set(asUser({ ...outsider, warehouseId: east.id })).expect(200);
+  });
+});
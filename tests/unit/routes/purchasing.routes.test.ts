@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerPurchasingRoutes } from '../../../server/routes/purchasing';
+import { purchasingService } from '../../../server/services/purchasing.service';
+import { storage } from '../../../server/storage';
+import type { Part, PurchaseOrder, Warehouse } from '../../../shared/schema';
+import { createTestPart, createTestVendor, createTestWarehouse } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+vi.mock('../../../server/services/webhook.service', () => ({
+  webhookService: { emitEvent: vi.fn() },
+  WebhookEvents: { INVENTORY_REORDER: 'inventory.reorder' },
+}));
+
+const app: Express = createRouteApp(registerPurchasingRoutes);
+
+let warehouse: Warehouse;
+let bearing: Part;
+let order: PurchaseOrder;
+
+describe('Purchasing routes', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse();
+    await createTestVendor(warehouse.id, { name: 'Acme Supply' });
+    bearing = await createTestPart(warehouse.id, { unitCost: '12.50', stockLevel: 2, reorderPoint: 5, maxStock: 20, vendor: 'Acme Supply' });
+    const requisition = await purchasingService.handleLowStock(bearing);
+    order = (await storage.getPurchaseOrder(requisition!.purchaseOrderId!))!;
+  });
+
+  it('leaves approval to managers', async () => {
+    const clerk = { id: 'clerk-id', role: 'inventory_clerk', warehouseId: warehouse.id };
+
+    await request(app).get(`/api/purchase-orders/${order.id}`).set(asUser({ ...clerk, role: 'technician' })).expect(403);
+    await request(app).post(`/api/purchase-orders/${order.id}/submit`).set(asUser(clerk)).expect(200);
+    await request(app).post(`/api/purchase-orders/${order.id}/approve`).set(asUser(clerk)).expect(403);
+    await request(app).post(`/api/purchase-orders/${order.id}/approve`).set(asUser({ ...clerk, id: 'mgr-id', role: 'manager' })).expect(200);
+  });
+
+  it('treats another warehouse\'s purchase orders and parts as missing, whatever warehouse header is sent', async () => {
+    const outsider = { id: 'mgr-id', role: 'manager', warehouseId: (await createTestWarehouse()).id };
+    const spoofed = { ...asUser(outsider), 'x-warehouse-id': warehouse.id };
+
+    for (const headers of [asUser(outsider), spoofed]) {
+      await request(app).get(`/api/purchase-orders/${order.id}`).set(headers).expect(404);
+      await request(app).post(`/api/purchase-orders/${order.id}/submit`).set(headers).expect(404);
+      await request(app).post(`/api/purchase-orders/${order.id}/cancel`).set(headers).expect(404);
+      await request(app).post('/api/purchase-requisitions').set(headers).send({ partId: bearing.id, quantity: 5 }).expect(404);
+      expect((await request(app).get('/api/purchase-orders').set(headers).expect(200)).body).toEqual([]);
+    }
+
+    expect((await storage.getPurchaseOrder(order.id))?.status).toBe('draft');
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import type { Express } from 'express';
+import { registerWarehouseTransferRoutes } from '../../../server/routes/warehouse-transfers';
+import { warehouseTransferService } from '../../../server/services/warehouse-transfer.service';
+import { storage } from '../../../server/storage';
+import type { TransferOrder, Warehouse } from '../../../shared/schema';
+import { createTestPart, createTestWarehouse, nextId } from '../../helpers/fixtures';
+import { asUser, createRouteApp } from '../../helpers/route-app';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const app: Express = createRouteApp(registerWarehouseTransferRoutes);
+
+let north: Warehouse;
+let south: Warehouse;
+let east: Warehouse;
+let order: TransferOrder;
+
+const clerk = (warehouse: Warehouse) => ({ id: 'clerk-id', role: 'inventory_clerk', warehouseId: warehouse.id });
+
+describe('Warehouse transfer routes', () => {
+  beforeEach(async () => {
+    [north, south, east] = [await createTestWarehouse({ name: 'North' }), await createTestWarehouse({ name: 'South' }), await createTestWarehouse({ name: 'East' })];
+    const partNumber = `BRG-${nextId()}`;
+    await createTestPart(south.id, { partNumber, stockLevel: 8 });
+    order = await warehouseTransferService.request({ partNumber, fromWarehouseId: south.id, toWarehouseId: north.id, quantity: 2 });
+  });
+
+  it('needs parts permissions to see or move stock between warehouses', async () => {
+    const requester = { id: 'requester-id', role: 'requester', warehouseId: north.id };
+
+    await request(app).get('/api/transfer-orders').expect(401);
+    await request(app).get('/api/transfer-orders').set(asUser(requester)).expect(403);
+    await request(app).get(`/api/transfer-orders/${order.id}`).set(asUser(requester)).expect(403);
+    await request(app).post('/api/transfer-orders').set(asUser(requester)).send({ partNumber: order.partNumber, fromWarehouseId: south.id, quantity: 1 }).expect(403);
+    await request(app).post(`/api/transfer-orders/${order.id}/cancel`).set(asUser({ ...requester, warehouseId: south.id })).expect(403);
+
+    expect((await storage.getTransferOrder(order.id))?.status).toBe('requested');
+  });
+
+  it('keeps each side of a transfer to its own steps and hides it from other warehouses', async () => {
+    await request(app).get(`/api/transfer-orders/${order.id}`).set(asUser(clerk(east))).expect(404);
+    await request(app).post(`/api/transfer-orders/${order.id}/ship`).set(asUser(clerk(east))).expect(404);
+    await request(app).post(`/api/transfer-orders/${order.id}/cancel`).set(asUser(clerk(east))).expect(404);
+    expect((await request(app).get('/api/transfer-orders').set(asUser(clerk(east))).expect(200)).body).toEqual([]);
+
+    await request(app).post(`/api/transfer-orders/${order.id}/ship`).set(asUser(clerk(north))).expect(403);
+    await request(app).post(`/api/transfer-orders/${order.id}/ship`).set(asUser(clerk(south))).expect(200);
+    await request(app).post(`/api/transfer-orders/${order.id}/receive`).set(asUser(clerk(south))).send({}).expect(403);
+    const received = await request(app).post(`/api/transfer-orders/${order.id}/receive`).set(asUser(clerk(north))).send({}).expect(200);
+    expect(received.body.status).toBe('received');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { assetHierarchyService } from '../../../server/services/asset-hierarchy.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, InsertWorkOrder, Location, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let site: Location;
+let building: Location;
+let line3: Location;
+let position1: Location;
+let position2: Location;
+
+const createAsset = (model: string, fields: Partial<Equipment> = {}) => createTestEquipment(warehouse.id, { model, ...fields });
+
+describe('AssetHierarchyService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Plant' });
+    site = await assetHierarchyService.createLocation({ name: 'Plant 1', type: 'site' } as any, warehouse.id);
+    building = await assetHierarchyService.createLocation({ name: 'Building B', type: 'building', parentId: site.id } as any, warehouse.id);
+    line3 = await assetHierarchyService.createLocation({ name: 'Conveyor Line 3', type: 'area', parentId: building.id } as any, warehouse.id);
+    position1 = await assetHierarchyService.createLocation({ name: 'P01', type: 'position', parentId: line3.id } as any, warehouse.id);
+    position2 = await assetHierarchyService.createLocation({ name: 'P02', type: 'position', parentId: line3.id } as any, warehouse.id);
+  });
+
+  it('keeps locations in site → building → area → position order', async () => {
+    await expect(assetHierarchyService.createLocation({ name: 'Loose', type: 'building' } as any, warehouse.id))
+      .rejects.toThrow('A building must sit inside another location');
+    await expect(assetHierarchyService.createLocation({ name: 'Nested', type: 'area', parentId: position1.id } as any, warehouse.id))
+      .rejects.toThrow('An area cannot sit inside a position');
+    await expect(assetHierarchyService.updateLocation(building.id, { parentId: line3.id }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(assetHierarchyService.updateLocation(line3.id, { type: 'position' }))
+      .rejects.toThrow('P01 (position) cannot sit inside a position');
+
+    const [tree] = (await assetHierarchyService.getLocationTree(warehouse.id)).filter(l => l.id === site.id);
+    expect(tree.children[0].children[0]).toMatchObject({ path: 'Plant 1 / Building B / Conveyor Line 3', children: [{ name: 'P01' }, { name: 'P02' }] });
+  });
+
+  it('moves assets between positions and keeps their installation history', async () => {
+    const drive = await createAsset('DRIVE', { locationId: position1.id, installDate: new Date('2024-01-01') });
+    await assetHierarchyService.recordInitialPlacement(drive, 'installer-id');
+    const gearbox = await createAsset('GEARBOX', { parentEquipmentId: drive.id });
+
+    await expect(assetHierarchyService.moveEquipment(drive.id, { parentEquipmentId: gearbox.id }))
+      .rejects.toThrow('is fitted to this asset');
+
+    const moved = await assetHierarchyService.moveEquipment(drive.id, { locationId: position2.id, movedAt: new Date('2025-03-01'), notes: 'Line rebalanced' }, 'tech-id');
+    expect(moved).toMatchObject({ locationId: position2.id, area: 'Conveyor Line 3' });
+
+    const history = await assetHierarchyService.getInstallationHistory(drive.id);
+    expect(history.map(h => [h.locationPath, h.removedAt?.toISOString() ?? null])).toEqual([
+      ['Plant 1 / Building B / Conveyor Line 3 / P01', '2025-03-01T00:00:00.000Z'],
+      ['Plant 1 / Building B / Conveyor Line 3 / P02', null],
+    ]);
+
+    // The gearbox travels with its parent
+    const atLine = await assetHierarchyService.queryEquipment(warehouse.id, { locationId: line3.id, subtree: true });
+    expect(atLine.map(e => e.id).sort()).toEqual([drive.id, gearbox.id].sort());
+    expect(await assetHierarchyService.queryEquipment(warehouse.id, { locationId: position1.id, subtree: true })).toEqual([]);
+  });
+
+  it('rolls cost, labour and downtime up from child assets to their parents', async () => {
+    const line = await createAsset('LINE', { locationId: line3.id });
+    const drive = await createAsset('DRIVE', { parentEquipmentId: line.id });
+    const gearbox = await createAsset('GEARBOX', { parentEquipmentId: drive.id });
+
+    const workOrder = (equipmentId: string, fields: Partial<InsertWorkOrder>) => createTestWorkOrder(warehouse.id, {
+      priority: 'high',
+      status: 'completed',
+      description: 'Repair',
+      equipmentId,
+      ...fields,
+    });
+
+    const gearboxRepair = await workOrder(gearbox.id, { vendorInvoicedCost: '250.00' });
+    await storage.createDowntimeEvent({
+      equipmentId: gearbox.id,
+      workOrderId: gearboxRepair.id,
+      type: 'unplanned',
+      reasonCode: 'mechanical',
+      source: 'work_order',
+      startedAt: new Date('2025-02-01T08:00:00Z'),
+      endedAt: new Date('2025-02-01T14:00:00Z'),
+      notes: null,
+      openedBy: null,
+      closedBy: null,
+      warehouseId: warehouse.id,
+    });
+    await storage.createPartsUsage({ workOrderId: gearboxRepair.id, partId: 'bearing', quantityUsed: 2, unitCost: '40.00', usedBy: 'tech-id', notes: null });
+    await workOrder(drive.id, { type: 'preventive', status: 'new' });
+
+    const rollup = await assetHierarchyService.getRollup(line.id);
+    expect(rollup.own.workOrders).toBe(0);
+    expect(rollup.total).toMatchObject({ workOrders: 2, openWorkOrders: 1, partsCost: 80, vendorCost: 250, totalCost: 330, downtimeHours: 6 });
+    expect(rollup.children[0]).toMatchObject({ equipmentId: drive.id, own: { workOrders: 1, totalCost: 0 }, total: { totalCost: 330 } });
+  });
+});
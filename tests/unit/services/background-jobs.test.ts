@@ -0,0 +1,47 @@
+import { describe, it, expect, vi } from 'vitest';
+import { backgroundJobScheduler } from '../../../server/services/background-jobs';
+import { jobQueueService } from '../../../server/services/job-queue.service';
+import { storage } from '../../../server/storage';
+import { createTestEquipment, createTestWarehouse, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+describe('BackgroundJobScheduler', () => {
+  it('generates each due PM once when several replicas run PM generation together', async () => {
+    const warehouse = await createTestWarehouse({ name: 'PM Plant' });
+    const model = `CONV-${nextId()}`;
+    for (const tag of ['A', 'B']) {
+      await createTestEquipment(warehouse.id, { assetTag: `${model}-${tag}`, model });
+    }
+    await storage.createPmTemplate({ model, component: 'Belt', action: 'Inspect', frequency: 'daily', active: true, warehouseId: warehouse.id } as any);
+
+    const replicas = await Promise.all([
+      backgroundJobScheduler.generatePMs(warehouse.id),
+      backgroundJobScheduler.generatePMs(warehouse.id),
+    ]);
+    expect(replicas.map(r => r.acquired).sort()).toEqual([false, true]);
+    expect(replicas.flatMap(r => r.workOrders)).toHaveLength(2);
+
+    // The next run sees the open PMs and creates nothing
+    expect((await backgroundJobScheduler.generatePMs(warehouse.id)).workOrders).toHaveLength(0);
+    const pms = (await storage.getWorkOrders(warehouse.id)).filter(wo => wo.type === 'preventive');
+    expect(pms.map(wo => wo.assetModel)).toEqual([model, model]);
+    expect(new Set(pms.map(wo => wo.equipmentId)).size).toBe(2);
+  });
+
+  it('refuses to commit a PM plan while PM generation holds the lock', async () => {
+    const warehouse = await createTestWarehouse({ name: 'Plan Plant' });
+    const start = new Date();
+    const end = new Date(start.getTime() + 7 * 24 * 60 * 60 * 1000);
+
+    let release!: () => void;
+    const held = jobQueueService.withLock('pm-generation', 60_000, () => new Promise<void>(resolve => { release = resolve; }));
+    await vi.waitFor(() => expect(release).toBeDefined());
+    expect(await backgroundJobScheduler.commitPMPlan(warehouse.id, start, end)).toEqual({ acquired: false, plan: undefined });
+    release();
+    await held;
+
+    const committed = await backgroundJobScheduler.commitPMPlan(warehouse.id, start, end);
+    expect(committed).toMatchObject({ acquired: true, plan: { dryRun: false } });
+  });
+});
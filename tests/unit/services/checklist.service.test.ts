@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { checklistService, evaluateReading } from '../../../server/services/checklist.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, PmTemplate, Warehouse, WorkOrder } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let pump: Equipment;
+let workOrder: WorkOrder;
+
+const template = (customFields: unknown) => ({
+  id: 'template-id',
+  model: 'Pump Model A',
+  component: 'Belt',
+  action: 'Inspect belt',
+  customFields,
+}) as PmTemplate;
+
+const beltTemplate = template({
+  checklistItems: [
+    { key: 'belt_tension', component: 'Belt', action: 'Measure tension', type: 'numeric', unit: 'N', min: 350, max: 450 },
+    { key: 'guard_in_place', component: 'Guard', action: 'Guard fitted?', type: 'boolean', expected: true },
+    {
+      key: 'belt_condition', component: 'Belt', action: 'Surface condition', type: 'choice',
+      options: [{ value: 'Good', acceptable: true }, { value: 'Cracked', acceptable: false }],
+    },
+  ],
+});
+
+describe('ChecklistService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'North' });
+    pump = await createTestEquipment(warehouse.id, { model: 'Pump Model A' });
+    workOrder = await createTestWorkOrder(warehouse.id, {
+      type: 'preventive',
+      description: 'Weekly belt inspection',
+      equipmentId: pump.id,
+    });
+  });
+
+  it('evaluates numeric, yes/no and choice readings against their limits', () => {
+    const numeric = { itemType: 'numeric', minValue: '350.000', maxValue: '450.000', expectedBoolean: null, options: null } as const;
+    expect(evaluateReading(numeric, '400')).toEqual({ value: '400', numericValue: 400, withinLimits: true });
+    expect(evaluateReading(numeric, 451).withinLimits).toBe(false);
+    expect(() => evaluateReading(numeric, 'tight')).toThrow('Reading must be a number');
+
+    const boolean = { itemType: 'boolean', minValue: null, maxValue: null, expectedBoolean: true, options: null } as const;
+    expect(evaluateReading(boolean, 'false')).toMatchObject({ value: 'false', withinLimits: false });
+    expect(() => evaluateReading(boolean, 'maybe')).toThrow();
+  });
+
+  it('creates typed items from the template and flags out-of-limit readings as issues', async () => {
+    const [tension, guard, condition] = await checklistService.createItemsFromTemplate(workOrder.id, beltTemplate);
+    expect(tension).toMatchObject({ itemType: 'numeric', definitionKey: 'belt_tension', unit: 'N', minValue: '350', maxValue: '450', sortOrder: 0 });
+
+    await expect(checklistService.recordReading(tension.id, { status: 'done' })).rejects.toMatchObject({ statusCode: 400 });
+
+    const at = new Date('2025-04-01T10:00:00Z');
+    expect(await checklistService.recordReading(tension.id, { value: 480 }, 'tech-id', at))
+      .toMatchObject({ status: 'issue', value: '480', withinLimits: false, recordedAt: at });
+    expect(await checklistService.recordReading(guard.id, { value: true }, 'tech-id', at)).toMatchObject({ status: 'done', withinLimits: true });
+    expect((await checklistService.recordReading(condition.id, { value: 'Cracked' })).status).toBe('issue');
+    await expect(checklistService.recordReading(condition.id, { value: 'Frayed' })).rejects.toThrow('Choose one of');
+
+    // Clearing a reading resets the item
+    expect(await checklistService.recordReading(tension.id, { value: null })).toMatchObject({ status: 'pending', value: null });
+  });
+
+  it('keeps a per-equipment time series of readings', async () => {
+    const [tension] = await checklistService.createItemsFromTemplate(workOrder.id, beltTemplate);
+    await checklistService.recordReading(tension.id, { value: 400 }, undefined, new Date('2025-04-01T10:00:00Z'));
+    await checklistService.recordReading(tension.id, { value: 460 }, undefined, new Date('2025-04-08T10:00:00Z'));
+
+    const [series] = await checklistService.getReadingSeries(pump.id, 'belt_tension');
+    expect(series).toMatchObject({ definitionKey: 'belt_tension', unit: 'N', min: 350, max: 450, label: 'Belt – Measure tension' });
+    expect(series.points.map(p => [p.numericValue, p.withinLimits])).toEqual([[400, true], [460, false]]);
+  });
+
+  it('rejects readings once the work order is completed', async () => {
+    const [tension] = await checklistService.createItemsFromTemplate(workOrder.id, beltTemplate);
+    await storage.updateWorkOrder(workOrder.id, { status: 'completed' });
+
+    await expect(checklistService.recordReading(tension.id, { value: 400 })).rejects.toMatchObject({ statusCode: 409 });
+    expect(await storage.getChecklistItem(tension.id)).toMatchObject({ value: null, status: 'pending' });
+  });
+
+  it('falls back to the template component and action when no typed items are defined', async () => {
+    expect(checklistService.definitionsFor(template({ oilType: '10W-30' }))).toEqual([
+      { key: '', component: 'Belt', action: 'Inspect belt', type: 'check' },
+    ]);
+    expect(() => checklistService.validateDefinitions({ checklistItems: [{ key: 'x', component: 'A', action: 'B', type: 'numeric', min: 5, max: 1 }] }))
+      .toThrow('Minimum cannot exceed maximum');
+  });
+});
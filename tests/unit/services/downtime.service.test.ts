@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { downtimeService } from '../../../server/services/downtime.service';
+import { storage } from '../../../server/storage';
+import type { DowntimeEvent, Equipment, InsertWorkOrder, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse, createTestWorkOrder, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let press: Equipment;
+
+const createWorkOrder = (fields: Partial<InsertWorkOrder>) => createTestWorkOrder(warehouse.id, {
+  priority: 'high',
+  description: 'Press down',
+  equipmentId: press.id,
+  ...fields,
+});
+
+const event = (fields: Partial<DowntimeEvent>): DowntimeEvent => ({
+  id: `event-${nextId()}`,
+  equipmentId: press.id,
+  workOrderId: null,
+  type: 'unplanned',
+  reasonCode: 'mechanical',
+  source: 'manual',
+  startedAt: new Date(),
+  endedAt: null,
+  notes: null,
+  openedBy: null,
+  closedBy: null,
+  warehouseId: warehouse.id,
+  createdAt: new Date(),
+  ...fields,
+});
+
+describe('DowntimeService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Plant' });
+    press = await createTestEquipment(warehouse.id, { model: 'Press', criticality: 'high' });
+  });
+
+  it('opens downtime for an emergency work order and closes it when the repair is completed', async () => {
+    const emergency = await createWorkOrder({ type: 'emergency', priority: 'critical' });
+    const opened = await downtimeService.onWorkOrderCreated(emergency, 'tech-id');
+    expect(opened).toMatchObject({ workOrderId: emergency.id, type: 'unplanned', source: 'work_order', endedAt: null });
+
+    // A second emergency on the same asset joins the existing event, and nothing else can be opened meanwhile
+    await downtimeService.onWorkOrderCreated(await createWorkOrder({ type: 'emergency' }), 'tech-id');
+    expect(await storage.getDowntimeEvents({ equipmentId: press.id })).toHaveLength(1);
+    await expect(downtimeService.openEvent({ equipmentId: press.id, type: 'planned', reasonCode: 'changeover' }, warehouse.id))
+      .rejects.toMatchObject({ statusCode: 409 });
+
+    expect(await downtimeService.onWorkOrderCreated(await createWorkOrder({ type: 'corrective' }))).toBeNull();
+
+    const completed = await storage.updateWorkOrder(emergency.id, { status: 'completed', completedAt: new Date() } as any);
+    const [closed] = await downtimeService.onWorkOrderCompleted(completed, 'tech-id');
+    expect(closed).toMatchObject({ id: opened!.id, closedBy: 'tech-id' });
+    expect(closed.endedAt).not.toBeNull();
+  });
+
+  it('follows the equipment in and out of maintenance', async () => {
+    const pm = await createWorkOrder({ type: 'preventive' });
+    const inMaintenance = await storage.updateEquipment(press.id, { status: 'maintenance' });
+    const opened = await downtimeService.onEquipmentStatusChange(press, inMaintenance, 'supervisor-id');
+    expect(opened).toMatchObject({ type: 'planned', reasonCode: 'preventive_maintenance', workOrderId: pm.id, source: 'equipment_status' });
+
+    // Completing the PM while the asset is still held in maintenance leaves it down
+    expect(await downtimeService.onWorkOrderCompleted({ ...pm, status: 'completed' })).toEqual([]);
+
+    const active = await storage.updateEquipment(press.id, { status: 'active' });
+    const closed = await downtimeService.onEquipmentStatusChange(inMaintenance, active, 'supervisor-id');
+    expect(closed).toMatchObject({ id: opened!.id, closedBy: 'supervisor-id' });
+    expect(await storage.getDowntimeEvents({ equipmentId: press.id, open: true })).toEqual([]);
+  });
+
+  it('computes MTTR, MTBF and availability from the events in the period', () => {
+    const from = new Date('2025-03-01T00:00:00Z');
+    const to = new Date('2025-03-11T00:00:00Z'); // 240 hours
+    const events = [
+      // Started before the period: only the 2 hours inside it count, and it is not a failure in this period
+      event({ startedAt: new Date('2025-02-28T22:00:00Z'), endedAt: new Date('2025-03-01T02:00:00Z') }),
+      event({ startedAt: new Date('2025-03-03T08:00:00Z'), endedAt: new Date('2025-03-03T14:00:00Z'), reasonCode: 'electrical' }),
+      event({ startedAt: new Date('2025-03-06T08:00:00Z'), endedAt: new Date('2025-03-06T12:00:00Z') }),
+      // Planned work overlapping the second failure is only counted once in total downtime
+      event({ type: 'planned', reasonCode: 'preventive_maintenance', startedAt: new Date('2025-03-06T10:00:00Z'), endedAt: new Date('2025-03-06T16:00:00Z') }),
+    ];
+
+    const metrics = downtimeService.summarize(press.id, events, { from, to });
+    expect(metrics).toMatchObject({
+      periodHours: 240,
+      downtimeHours: 16,
+      plannedDowntimeHours: 6,
+      unplannedDowntimeHours: 12,
+      failures: 2,
+      mttr: 5, // the 6 and 4 hour repairs of the two failures, not the carried-over 2 hours
+      mtbf: 112,
+      availability: 93.3,
+      lastFailureAt: new Date('2025-03-06T08:00:00Z'),
+    });
+    expect(metrics.downtimeReasons[0]).toMatchObject({ reason: 'mechanical', occurrences: 2, totalHours: 6 });
+
+    expect(downtimeService.summarize(press.id, [], { from, to })).toMatchObject({ availability: 100, mttr: null, mtbf: null });
+  });
+});
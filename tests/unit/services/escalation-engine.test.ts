@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { escalationEngine } from '../../../server/services/escalation-engine';
+import { notificationService } from '../../../server/services/notification.service';
+import { storage } from '../../../server/storage';
+import type { InsertWorkOrder, Profile, Warehouse } from '../../../shared/schema';
+import { createTestProfile, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+vi.mock('../../../server/services/notification.service', () => ({
+  notificationService: { sendNotification: vi.fn(async () => undefined) },
+}));
+
+const MINUTE = 60 * 1000;
+
+let warehouse: Warehouse;
+
+const createProfile = (role: Profile['role']) => createTestProfile(warehouse.id, { firstName: 'Sam', lastName: role, role });
+
+const createWorkOrder = (values: Partial<InsertWorkOrder>) => createTestWorkOrder(warehouse.id, {
+  description: 'Dock door stuck open',
+  ...values,
+});
+
+const actionsFor = async (workOrderId: string, now: Date) =>
+  (await escalationEngine.checkForEscalations(now)).filter(a => a.workOrderId === workOrderId);
+
+describe('EscalationEngine', () => {
+  beforeEach(async () => {
+    vi.mocked(notificationService.sendNotification).mockClear();
+    warehouse = await createTestWarehouse();
+    // Around the clock, so SLA hours are wall-clock hours
+    await storage.upsertSlaCalendar(warehouse.id, {
+      timezone: 'UTC',
+      weeklySchedule: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, start: '00:00', end: '24:00' })),
+      holidays: [],
+      pauseReasons: [],
+    });
+  });
+
+  it('walks the chain level by level, repeating reminders until someone acknowledges', async () => {
+    const supervisor = await createProfile('supervisor');
+    const manager = await createProfile('manager');
+    const technician = await createProfile('technician');
+    const workOrder = await createWorkOrder({ type: 'emergency', priority: 'critical', status: 'new' });
+    const at = (minutes: number) => new Date(new Date(workOrder.createdAt).getTime() + minutes * MINUTE);
+
+    expect(await actionsFor(workOrder.id, at(30))).toHaveLength(0);
+
+    // Default emergency chain: supervisor after 1h, manager after 2h, reminders every 15 minutes
+    expect(await actionsFor(workOrder.id, at(61))).toMatchObject([{ escalationLevel: 1, escalatedToUserId: supervisor.id, trigger: 'unstarted' }]);
+    expect(await actionsFor(workOrder.id, at(70))).toHaveLength(0);
+    expect(await actionsFor(workOrder.id, at(77))).toMatchObject([{ escalationLevel: 1, repeat: true }]);
+    expect(await actionsFor(workOrder.id, at(121))).toMatchObject([{ escalationLevel: 2, escalatedToUserId: manager.id }]);
+
+    const escalated = (await storage.getWorkOrder(workOrder.id))!;
+    expect(escalated).toMatchObject({ escalated: true, escalationLevel: 2 });
+    expect(escalated.assignedTo).toBeFalsy(); // notify levels leave the assignment alone
+    expect(notificationService.sendNotification).toHaveBeenCalledTimes(3);
+
+    await expect(escalationEngine.acknowledge(workOrder.id, technician.id)).rejects.toMatchObject({ statusCode: 403 });
+    const acknowledged = await escalationEngine.acknowledge(workOrder.id, manager.id, 'On my way', at(125));
+    expect(acknowledged).toHaveLength(2);
+    expect(acknowledged[1]).toMatchObject({ acknowledgedBy: manager.id, acknowledgedAt: at(125), acknowledgementNote: 'On my way' });
+    expect((await escalationEngine.getEscalationHistory(workOrder.id))[0].notificationCount).toBe(2);
+
+    // The chain stops: no admin level and no more reminders
+    expect(await actionsFor(workOrder.id, at(300))).toHaveLength(0);
+    await expect(escalationEngine.acknowledge(workOrder.id, manager.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('does not let the assignee acknowledge an escalation over their own work order', async () => {
+    const supervisor = await createProfile('supervisor');
+    const technician = await createProfile('technician');
+    const workOrder = await createWorkOrder({ type: 'emergency', priority: 'critical', status: 'assigned', assignedTo: technician.id });
+    const at = (minutes: number) => new Date(new Date(workOrder.createdAt).getTime() + minutes * MINUTE);
+
+    expect(await actionsFor(workOrder.id, at(61))).toMatchObject([{ escalationLevel: 1, escalatedToUserId: supervisor.id }]);
+
+    await expect(escalationEngine.acknowledge(workOrder.id, technician.id)).rejects.toMatchObject({ statusCode: 403 });
+    expect((await escalationEngine.getEscalationHistory(workOrder.id))[0].acknowledgedAt).toBeNull();
+    expect(await escalationEngine.acknowledge(workOrder.id, supervisor.id, undefined, at(65)))
+      .toMatchObject([{ acknowledgedBy: supervisor.id }]);
+  });
+
+  it('escalates in-progress work orders stuck past their due date using the saved policy', async () => {
+    const lead = await createProfile('supervisor');
+    const technician = await createProfile('technician');
+    await escalationEngine.initializeDefaultRules(warehouse.id);
+    const rule = await escalationEngine.saveEscalationPolicy(warehouse.id, {
+      workOrderType: 'corrective',
+      priority: 'high',
+      active: true,
+      levels: [{ delayHours: 1, target: 'user', userId: lead.id, action: 'reassign', repeatMinutes: 0 }],
+    });
+    expect(rule).toMatchObject({ timeoutHours: 1, escalationAction: 'auto_reassign', escalateTo: lead.id });
+    expect((await escalationEngine.getEscalationRules(warehouse.id)).filter(r => r.workOrderType === 'corrective' && r.priority === 'high')).toHaveLength(1);
+
+    const workOrder = await createWorkOrder({ type: 'corrective', priority: 'high', status: 'in_progress', assignedTo: technician.id });
+    const at = (minutes: number) => new Date(new Date(workOrder.createdAt).getTime() + minutes * MINUTE);
+    await storage.updateWorkOrder(workOrder.id, { dueDate: at(60) });
+
+    expect(await actionsFor(workOrder.id, at(100))).toHaveLength(0);
+    expect(await actionsFor(workOrder.id, at(121))).toMatchObject([{ trigger: 'past_due', escalatedToUserId: lead.id, previousAssignee: technician.id }]);
+    expect((await storage.getWorkOrder(workOrder.id))!.assignedTo).toBe(lead.id);
+
+    const [entry] = await escalationEngine.getEscalationHistory(workOrder.id);
+    expect(entry).toMatchObject({ trigger: 'past_due', action: 'reassign', escalatedFrom: technician.id, acknowledgedAt: null });
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { failureCodeService } from '../../../server/services/failure-code.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, FailureCode, InsertWorkOrder, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let conveyor: Equipment;
+let fan: Equipment;
+let codes: Record<string, FailureCode>;
+
+const createCode = (kind: FailureCode['kind'], code: string, scope: Partial<FailureCode> = {}) =>
+  failureCodeService.createCode({ kind, code, name: code.toLowerCase(), ...scope } as any, warehouse.id);
+
+const createWorkOrder = (asset: Equipment, fields: Partial<InsertWorkOrder>) => createTestWorkOrder(warehouse.id, {
+  priority: 'high',
+  status: 'completed',
+  description: 'Repair',
+  equipmentId: asset.id,
+  assetModel: asset.model,
+  area: asset.area,
+  ...fields,
+});
+
+describe('FailureCodeService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Plant' });
+    conveyor = await createTestEquipment(warehouse.id, { model: 'CV-200', equipmentClass: 'Conveyor', area: 'Line 1', criticality: 'high' });
+    fan = await createTestEquipment(warehouse.id, { model: 'EF-10', equipmentClass: 'hvac', area: 'Roof', criticality: 'low' });
+    codes = {
+      noise: await createCode('problem', 'noise'),
+      track: await createCode('problem', 'belt-track', { equipmentClass: 'conveyor' }),
+      wear: await createCode('cause', 'wear'),
+      lube: await createCode('cause', 'lube'),
+      replace: await createCode('remedy', 'replace'),
+    };
+  });
+
+  it('offers codes for the equipment class or model, plus the unscoped ones', async () => {
+    expect(codes.track.code).toBe('BELT-TRACK');
+    const forConveyor = await failureCodeService.listCodes(warehouse.id, { kind: 'problem', equipmentId: conveyor.id });
+    expect(forConveyor.map(c => c.code)).toEqual(['BELT-TRACK', 'NOISE']);
+    const forFan = await failureCodeService.listCodes(warehouse.id, { kind: 'problem', equipmentId: fan.id });
+    expect(forFan.map(c => c.code)).toEqual(['NOISE']);
+
+    await expect(createCode('problem', 'Noise')).rejects.toMatchObject({ statusCode: 409 });
+    await failureCodeService.updateCode(codes.noise.id, { active: false }, warehouse.id);
+    expect(await failureCodeService.listCodes(warehouse.id, { kind: 'problem' })).toHaveLength(1);
+  });
+
+  it('requires a problem, cause and remedy that fit the asset before corrective work is completed', async () => {
+    const workOrder = await createWorkOrder(fan, { status: 'in_progress' });
+
+    expect(await failureCodeService.checkCompletion(workOrder, { problemCodeId: codes.noise.id }))
+      .toMatchObject({ code: 'FAILURE_CODES_REQUIRED', message: expect.stringContaining('cause, remedy') });
+    expect(await failureCodeService.checkCompletion(workOrder, {
+      problemCodeId: codes.track.id, causeCodeId: codes.wear.id, remedyCodeId: codes.replace.id,
+    })).toMatchObject({ code: 'FAILURE_CODE_INVALID' });
+    expect(await failureCodeService.checkCompletion(workOrder, {
+      problemCodeId: codes.noise.id, causeCodeId: codes.replace.id, remedyCodeId: codes.replace.id,
+    })).toMatchObject({ code: 'FAILURE_CODE_INVALID' });
+    expect(await failureCodeService.checkCompletion(workOrder, {
+      problemCodeId: codes.noise.id, causeCodeId: codes.wear.id, remedyCodeId: codes.replace.id,
+    })).toBeNull();
+
+    expect(await failureCodeService.checkCompletion({ ...workOrder, type: 'preventive' })).toBeNull();
+  });
+
+  it('ranks causes on finished corrective work overall and by model', async () => {
+    await createWorkOrder(conveyor, { causeCodeId: codes.wear.id });
+    await createWorkOrder(conveyor, { causeCodeId: codes.wear.id, type: 'emergency' });
+    await createWorkOrder(conveyor, { causeCodeId: codes.lube.id });
+    await createWorkOrder(fan, { causeCodeId: codes.lube.id, status: 'closed' });
+    await createWorkOrder(fan, { causeCodeId: codes.lube.id });
+    // Not counted: still open, or preventive
+    await createWorkOrder(fan, { causeCodeId: codes.wear.id, status: 'in_progress' });
+    await createWorkOrder(fan, { causeCodeId: codes.wear.id, type: 'preventive' });
+
+    const report = await failureCodeService.getPareto(warehouse.id, { kind: 'cause', groupBy: 'model' });
+    expect(report.total).toBe(5);
+    expect(report.overall).toEqual([
+      expect.objectContaining({ code: 'LUBE', count: 3, percentage: 60, cumulativePercentage: 60 }),
+      expect.objectContaining({ code: 'WEAR', count: 2, percentage: 40, cumulativePercentage: 100 }),
+    ]);
+    expect(report.groups.map(g => [g.key, g.total, g.entries[0].code])).toEqual([['CV-200', 3, 'WEAR'], ['EF-10', 2, 'LUBE']]);
+
+    const byArea = await failureCodeService.getPareto(warehouse.id, { kind: 'cause', groupBy: 'area' });
+    expect(byArea.groups.map(g => g.key)).toEqual(['Line 1', 'Roof']);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { followUpService } from '../../../server/services/follow-up.service';
+import { checklistService } from '../../../server/services/checklist.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, PmTemplate, Warehouse, WorkOrder } from '../../../shared/schema';
+import { createTestEquipment, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let conveyor: Equipment;
+let pm: WorkOrder;
+
+const template = {
+  id: 'template-id',
+  component: 'Drive',
+  action: 'Inspect drive',
+  customFields: {
+    checklistItems: [
+      { key: 'motor_temperature', component: 'Motor', action: 'Housing temperature', type: 'numeric', unit: '°C', max: 80 },
+      { key: 'guard_in_place', component: 'Guard', action: 'Guard fitted?', type: 'boolean', expected: true },
+      { key: 'noise', component: 'Gearbox', action: 'Listen for noise', type: 'check', followUp: 'none' },
+    ],
+  },
+} as unknown as PmTemplate;
+
+describe('FollowUpService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'South' });
+    conveyor = await createTestEquipment(warehouse.id, { area: 'Line 2', criticality: 'high' });
+    pm = await createTestWorkOrder(warehouse.id, {
+      type: 'preventive',
+      priority: 'low',
+      status: 'in_progress',
+      description: 'Monthly drive inspection',
+      requestedBy: 'planner-id',
+      assignedTo: 'technician-id',
+      equipmentId: conveyor.id,
+    });
+  });
+
+  it('raises a linked corrective work order when a reading is out of limits', async () => {
+    const [temperature] = await checklistService.createItemsFromTemplate(pm.id, template);
+    const result = await checklistService.recordReading(temperature.id, { value: 92, notes: 'Smell of burning' }, 'technician-id');
+
+    expect(result.followUp?.mode).toBe('auto');
+    const child = (result.followUp as { workOrder: WorkOrder }).workOrder;
+    expect(child).toMatchObject({
+      type: 'corrective',
+      status: 'new',
+      priority: 'high', // from the conveyor's criticality, not the PM's priority
+      equipmentId: conveyor.id,
+      area: 'Line 2',
+      parentWorkOrderId: pm.id,
+      requestedBy: 'technician-id',
+    });
+    expect(child.notes).toContain('Reading: 92 °C (limits – to 80 °C)');
+    expect(child.notes).toContain('Technician notes: Smell of burning');
+
+    expect(result.followUpWorkOrderId).toBe(child.id);
+    expect((await storage.getWorkOrder(pm.id))!.followUp).toBe(true);
+    expect(await followUpService.getRelated(pm.id)).toMatchObject({ parent: null, children: [{ id: child.id }] });
+    expect((await followUpService.getRelated(child.id)).parent!.id).toBe(pm.id);
+
+    // One follow-up per failure
+    await expect(followUpService.createFromItem(temperature.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('proposes a follow-up for items flagged by hand and honours templates that opt out', async () => {
+    const [, guard, noise] = await checklistService.createItemsFromTemplate(pm.id, template);
+
+    const flagged = await checklistService.recordReading(guard.id, { value: 'false' });
+    // Boolean answers are readings too, so the default is to raise automatically
+    expect(flagged.followUp?.mode).toBe('auto');
+
+    await storage.updateChecklistItem(noise.id, { followUpMode: null });
+    const proposed = await checklistService.recordReading(noise.id, { status: 'issue' });
+    expect(proposed.followUp).toMatchObject({ mode: 'propose', proposal: { priority: 'high', parentWorkOrderId: pm.id } });
+    expect(proposed.followUpWorkOrderId).toBeNull();
+
+    const accepted = await followUpService.createFromItem(noise.id, { priority: 'critical', description: 'Gearbox grinding' });
+    expect(accepted).toMatchObject({ priority: 'critical', description: 'Gearbox grinding', requestedBy: 'technician-id' });
+
+    const [, , optedOut] = await checklistService.createItemsFromTemplate(pm.id, template);
+    expect((await checklistService.recordReading(optedOut.id, { status: 'issue' })).followUp).toBeNull();
+  });
+
+  it('raises one follow-up when the same item is accepted twice at once', async () => {
+    const [, , noise] = await checklistService.createItemsFromTemplate(pm.id, template);
+    await checklistService.recordReading(noise.id, { status: 'issue' });
+
+    const results = await Promise.allSettled([
+      followUpService.createFromItem(noise.id, {}, 'technician-id'),
+      followUpService.createFromItem(noise.id, {}, 'supervisor-id'),
+    ]);
+
+    expect(results.filter(r => r.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+    expect((await followUpService.getRelated(pm.id)).children).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { inventoryLedgerService, InventoryError } from '../../../server/services/inventory-ledger.service';
+import { storage } from '../../../server/storage';
+import type { InsertPart } from '../../../shared/schema';
+import { createTestPart, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouseId: string;
+
+const createPart = (overrides: Partial<InsertPart>) => createTestPart(warehouseId, {
+  name: 'Bearing',
+  description: 'Bearing',
+  unitCost: '10.00',
+  stockLevel: 10,
+  reorderPoint: 2,
+  location: 'A-01',
+  ...overrides,
+});
+
+const createWorkOrder = () => createTestWorkOrder(warehouseId, { description: 'Replace bearing', status: 'in_progress' });
+
+describe('InventoryLedgerService', () => {
+  beforeEach(() => {
+    warehouseId = crypto.randomUUID();
+  });
+
+  it('posts an opening balance and rejects issues that would take stock negative', async () => {
+    const part = await createPart({ stockLevel: 5 });
+    const workOrder = await createWorkOrder();
+
+    const issue = await inventoryLedgerService.issueToWorkOrder(part.id, workOrder.id, 3, 'tech-id');
+    expect(issue).toMatchObject({ type: 'issue', quantity: -3, balanceAfter: 2, workOrderId: workOrder.id });
+
+    await expect(inventoryLedgerService.recordTransaction({ partId: part.id, type: 'adjustment', quantity: -3 }))
+      .rejects.toMatchObject({ statusCode: 409 });
+
+    const ledger = await storage.getInventoryTransactions({ partId: part.id });
+    expect(ledger.map(t => [t.type, t.quantity])).toEqual([['adjustment', 5], ['issue', -3]]);
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(2);
+  });
+
+  it('keeps each balance following on from the last when postings overlap', async () => {
+    const part = await createPart({ stockLevel: 4 });
+
+    const results = await Promise.allSettled([1, 2, 3].map(() =>
+      inventoryLedgerService.recordTransaction({ partId: part.id, type: 'issue', quantity: -2 })
+    ));
+
+    expect(results.filter(r => r.status === 'rejected')).toHaveLength(1);
+    const ledger = await storage.getInventoryTransactions({ partId: part.id });
+    expect(ledger.map(t => t.balanceAfter)).toEqual([4, 2, 0]);
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(0);
+  });
+
+  it('holds reserved stock for its work order only', async () => {
+    const part = await createPart({ stockLevel: 5 });
+    const reserving = await createWorkOrder();
+    const other = await createWorkOrder();
+
+    await inventoryLedgerService.reserve(part.id, reserving.id, 4);
+    expect(await inventoryLedgerService.getAvailability(part.id)).toMatchObject({ onHand: 5, reserved: 4, available: 1 });
+
+    await expect(inventoryLedgerService.issueToWorkOrder(part.id, other.id, 2)).rejects.toBeInstanceOf(InventoryError);
+
+    await inventoryLedgerService.issueToWorkOrder(part.id, reserving.id, 4);
+    const [reservation] = await storage.getInventoryReservations({ workOrderId: reserving.id });
+    expect(reservation).toMatchObject({ status: 'fulfilled', quantity: 0 });
+    expect(await inventoryLedgerService.getAvailability(part.id)).toMatchObject({ onHand: 1, reserved: 0, available: 1 });
+  });
+
+  it('links both legs of a transfer and reports cached balance drift', async () => {
+    const from = await createPart({ stockLevel: 6 });
+    const to = await createPart({ stockLevel: 0, location: 'B-02' });
+
+    const [outbound, inbound] = await inventoryLedgerService.transfer(from.id, to.id, 4);
+    expect(outbound.referenceId).toBe(inbound.referenceId);
+    expect([outbound.balanceAfter, inbound.balanceAfter]).toEqual([2, 4]);
+
+    await storage.updatePart(to.id, { stockLevel: 9 });
+    const drift = await inventoryLedgerService.reconcile(warehouseId, true);
+    expect(drift).toEqual([expect.objectContaining({ partId: to.id, cachedStockLevel: 9, ledgerBalance: 4, drift: 5 })]);
+    expect((await storage.getPart(to.id))?.stockLevel).toBe(4);
+  });
+
+  it('posts cycle count corrections and reports variance by location', async () => {
+    const shelfA = await createPart({ stockLevel: 10, unitCost: '2.50' });
+    const shelfA2 = await createPart({ stockLevel: 4 });
+    await createPart({ stockLevel: 7, location: 'B-02' });
+
+    const count = await inventoryLedgerService.startCycleCount(warehouseId, 'A-01', 'clerk-id');
+    expect(count.lines).toHaveLength(2);
+
+    const lineFor = (partId: string) => count.lines.find(l => l.partId === partId)!.id;
+    await inventoryLedgerService.recordCounts(count.id, [
+      { lineId: lineFor(shelfA.id), countedQuantity: 8 },
+      { lineId: lineFor(shelfA2.id), countedQuantity: 4 },
+    ]);
+    const completed = await inventoryLedgerService.completeCycleCount(count.id, 'clerk-id');
+
+    expect(completed.status).toBe('completed');
+    expect((await storage.getPart(shelfA.id))?.stockLevel).toBe(8);
+    expect((await storage.getInventoryTransactions({ partId: shelfA.id, type: 'cycle_count' }))[0].quantity).toBe(-2);
+
+    const report = await inventoryLedgerService.getVarianceReport(warehouseId);
+    expect(report).toEqual([{
+      location: 'A-01',
+      linesCounted: 2,
+      linesWithVariance: 1,
+      netVarianceQuantity: -2,
+      absoluteVarianceQuantity: 2,
+      netVarianceValue: -5,
+      absoluteVarianceValue: 5,
+      accuracy: 50,
+    }]);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { jobQueueService, nextCronRun } from '../../../server/services/job-queue.service';
+import { storage } from '../../../server/storage';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+describe('JobQueueService', () => {
+  it('computes the next run of a cron expression in UTC', () => {
+    expect(nextCronRun('*/30 * * * *', new Date('2025-03-10T10:07:00Z'))).toEqual(new Date('2025-03-10T10:30:00Z'));
+    expect(nextCronRun('15 3 * * *', new Date('2025-03-10T04:00:00Z'))).toEqual(new Date('2025-03-11T03:15:00Z'));
+    // 2025-03-10 is a Monday; the next Monday 09:00 after its 09:00 run is a week later
+    expect(nextCronRun('0 9 * * 1', new Date('2025-03-10T09:00:00Z'))).toEqual(new Date('2025-03-17T09:00:00Z'));
+    expect(() => nextCronRun('61 * * * *', new Date())).toThrow('Invalid cron minute');
+  });
+
+  it('retries failures with exponential backoff, dead-letters them, and can retry by hand', async () => {
+    let shouldFail = true;
+    jobQueueService.registerHandler('notification_send', async () => {
+      if (shouldFail) throw new Error('SMTP unavailable');
+    });
+    const now = new Date('2025-03-10T10:00:00Z');
+    const job = await jobQueueService.enqueue('notification_send', { userId: 'u-1' }, { maxAttempts: 2, runAt: now });
+
+    expect(await jobQueueService.processDueJobs(now)).toMatchObject({ claimed: 1, failed: 1 });
+    expect(await storage.getJob(job!.id)).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      error: 'SMTP unavailable',
+      scheduledAt: new Date(now.getTime() + 30 * 1000),
+    });
+
+    // Not due again until the backoff has passed
+    expect((await jobQueueService.processDueJobs(new Date(now.getTime() + 10 * 1000))).claimed).toBe(0);
+    expect(await jobQueueService.processDueJobs(new Date(now.getTime() + 31 * 1000))).toMatchObject({ claimed: 1, dead: 1 });
+
+    const stats = await jobQueueService.getStats();
+    expect(stats.depth.dead).toBe(1);
+    expect(stats.failures.map(f => f.id)).toContain(job!.id);
+
+    shouldFail = false;
+    await jobQueueService.retry(job!.id, new Date(now.getTime() + 60 * 1000));
+    expect(await jobQueueService.processDueJobs(new Date(now.getTime() + 60 * 1000))).toMatchObject({ completed: 1 });
+    expect(await storage.getJob(job!.id)).toMatchObject({ status: 'completed', attempts: 1 });
+    await expect(jobQueueService.retry(job!.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('enqueues each scheduled slot once even when several replicas see it due', async () => {
+    await jobQueueService.defineSchedule({ name: 'cleanup-test', jobType: 'notification_cleanup', cron: '*/5 * * * *' }, new Date('2025-03-10T10:02:00Z'));
+
+    expect(await jobQueueService.enqueueDueSchedules(new Date('2025-03-10T10:04:00Z'))).toBe(0);
+    const replicas = await Promise.all([
+      jobQueueService.enqueueDueSchedules(new Date('2025-03-10T10:06:00Z')),
+      jobQueueService.enqueueDueSchedules(new Date('2025-03-10T10:06:00Z')),
+    ]);
+    expect(replicas[0] + replicas[1]).toBe(1);
+
+    const jobs = await storage.getJobs({ jobType: 'notification_cleanup' });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({ scheduleName: 'cleanup-test', dedupeKey: 'cleanup-test@2025-03-10T10:05:00.000Z' });
+    expect((await storage.getJobSchedule('cleanup-test'))?.nextRunAt).toEqual(new Date('2025-03-10T10:10:00Z'));
+
+    // A worker that dies mid-job loses its lease and another worker picks the job up
+    const claimedAt = new Date('2025-03-10T10:06:00Z');
+    const [claimed] = await storage.claimJobs('worker-a', 5, 1000, claimedAt);
+    expect(claimed.id).toBe(jobs[0].id);
+    expect(await storage.claimJobs('worker-b', 5, 1000, new Date(claimedAt.getTime() + 500))).toHaveLength(0);
+    const [reclaimed] = await storage.claimJobs('worker-b', 5, 1000, new Date(claimedAt.getTime() + 2000));
+    expect(reclaimed).toMatchObject({ id: jobs[0].id, lockedBy: 'worker-b', attempts: 2 });
+  });
+
+  it('runs a singleton section on one holder at a time', async () => {
+    let release!: () => void;
+    const first = jobQueueService.withLock('pm-generation-test', 60000, () => new Promise<string>(resolve => {
+      release = () => resolve('generated');
+    }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(await jobQueueService.withLock('pm-generation-test', 60000, async () => 'duplicate')).toEqual({ acquired: false });
+    expect(await storage.acquireJobLock('pm-generation-test', 'other-replica', 60000, new Date())).toBe(false);
+
+    release();
+    expect(await first).toEqual({ acquired: true, result: 'generated' });
+    expect(await storage.acquireJobLock('pm-generation-test', 'other-replica', 60000, new Date())).toBe(true);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { code128Widths, labelSheetService } from '../../../server/services/label-sheet.service';
+import { storage } from '../../../server/storage';
+import type { Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestPart, createTestWarehouse, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+
+const pageCount = (pdf: Buffer) => Number(pdf.toString('latin1').match(/\/Type \/Pages .* \/Count (\d+)/)![1]);
+
+describe('LabelSheetService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'North DC' });
+  });
+
+  it('encodes Code 128 set B with its checksum and stop pattern', () => {
+    // Start B (104), "A" (33), checksum (104 + 33) % 103 = 34, stop
+    expect(code128Widths('A').join('')).toBe(['211214', '111323', '131123', '2331112'].join(''));
+    expect(code128Widths('PUMP-001').reduce((sum, w) => sum + w, 0)).toBe(11 * (8 + 2) + 13);
+    expect(() => code128Widths('PUMP–001')).toThrow('cannot carry');
+  });
+
+  it('prints the filtered equipment across as many sheets as it needs', async () => {
+    // The letter keeps the run prefix from matching the '-0' search below
+    const run = `L${nextId()}`;
+    for (let i = 1; i <= 32; i++) {
+      await createTestEquipment(warehouse.id, {
+        assetTag: `CNV-${run}-${String(i).padStart(2, '0')}`,
+        model: 'CV-200',
+        status: i <= 31 ? 'active' : 'retired',
+      });
+    }
+
+    const { pdf, count } = await labelSheetService.renderEquipmentLabels(warehouse.id, { filter: { status: 'active' } });
+    expect(count).toBe(31);
+    expect(pageCount(pdf)).toBe(2); // 30 per Avery 5160 sheet
+    const text = pdf.toString('latin1');
+    expect(text).toContain(`(CNV-${run}-01)`);
+    expect(text).toContain('(North DC)');
+
+    // Two labels left on a used sheet: the third spills onto a new one
+    const partUsed = await labelSheetService.renderEquipmentLabels(warehouse.id, { filter: { search: '-0' }, startPosition: 29, symbology: 'code128' });
+    expect(partUsed.count).toBe(9);
+    expect(pageCount(partUsed.pdf)).toBe(2);
+
+    await expect(labelSheetService.renderEquipmentLabels(warehouse.id, { filter: { search: 'no such asset' } }))
+      .rejects.toThrow('Nothing matches');
+  });
+
+  it('prints one part bin label per page on 2x1 thermal stock', async () => {
+    const bearing = await createTestPart(warehouse.id, { partNumber: 'BRG-6204', description: 'Bearing', category: 'bearings', location: 'A1', unitOfMeasure: 'ea' });
+    await createTestPart(warehouse.id, { partNumber: 'BRG-6205', description: 'Bearing', category: 'bearings', location: 'A2', unitOfMeasure: 'ea' });
+    await createTestPart(warehouse.id, { partNumber: 'FLT-10', description: 'Filter', category: 'filters', unitOfMeasure: 'ea' });
+
+    const { pdf, count } = await labelSheetService.renderPartLabels(warehouse.id, { stock: 'thermal_2x1', filter: { category: 'bearings' } });
+    expect(count).toBe(2);
+    expect(pageCount(pdf)).toBe(2);
+    expect(pdf.toString('latin1')).toContain('/MediaBox [0 0 144 72]');
+
+    const chosen = await labelSheetService.renderPartLabels(warehouse.id, { ids: [bearing.id] });
+    expect(chosen.count).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { meterReadingService, MeterReadingError } from '../../../server/services/meter-reading.service';
+import { pmEngine } from '../../../server/services/pm-engine';
+import { storage } from '../../../server/storage';
+import { Equipment, MeterReading, PmTemplate, WorkOrder } from '../../../shared/schema';
+
+vi.mock('../../../server/storage', () => ({
+  storage: {
+    getEquipmentById: vi.fn(),
+    getEquipmentByAssetTag: vi.fn(),
+    getMeterReadings: vi.fn(),
+    getLatestMeterReading: vi.fn(),
+    createMeterReading: vi.fn(),
+    getPmTemplate: vi.fn(),
+    getWorkOrders: vi.fn(),
+  },
+}));
+
+const equipment: Equipment = {
+  id: 'equipment-id',
+  assetTag: 'CONV-001',
+  model: 'Conveyor System',
+  description: null,
+  area: null,
+  status: 'active',
+  criticality: 'high',
+  installDate: null,
+  warrantyExpiry: null,
+  manufacturer: null,
+  serialNumber: null,
+  specifications: { meterRollover: { hours: 9999 } },
+  warehouseId: 'warehouse-id',
+  createdAt: new Date(),
+};
+
+describe('MeterReadingService', () => {
+  let readings: MeterReading[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    readings = [];
+    vi.mocked(storage.getEquipmentById).mockResolvedValue(equipment);
+    vi.mocked(storage.getEquipmentByAssetTag).mockImplementation(async (tag, warehouseId) =>
+      tag === equipment.assetTag && warehouseId === equipment.warehouseId ? equipment : undefined);
+    vi.mocked(storage.getMeterReadings).mockImplementation(async (_id, type) => readings.filter(r => !type || r.meterType === type));
+    vi.mocked(storage.getLatestMeterReading).mockImplementation(async (_id, type) => readings.filter(r => r.meterType === type).pop());
+    vi.mocked(storage.createMeterReading).mockImplementation(async reading => {
+      const created = { ...reading, id: `reading-${readings.length + 1}`, createdAt: new Date() };
+      readings.push(created);
+      return created;
+    });
+  });
+
+  it('derives usage from consecutive readings', async () => {
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 100, readingAt: new Date('2024-01-01') });
+    const second = await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 160, readingAt: new Date('2024-01-02') });
+
+    expect(second.delta).toBe('60.00');
+    expect(second.cumulativeValue).toBe('160.00');
+    expect(second.readingType).toBe('reading');
+  });
+
+  it('handles meter rollover using the configured rollover point', async () => {
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 9990, readingAt: new Date('2024-01-01') });
+    const rolled = await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 5, readingAt: new Date('2024-01-02') });
+
+    expect(rolled.readingType).toBe('rollover');
+    expect(rolled.delta).toBe('14.00');
+    expect(rolled.cumulativeValue).toBe('10004.00');
+  });
+
+  it('treats an explicit reset as usage counted from zero', async () => {
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'cycles', value: 500, readingAt: new Date('2024-01-01') });
+    const reset = await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'cycles', value: 20, readingAt: new Date('2024-01-02'), reset: true });
+
+    expect(reset.readingType).toBe('reset');
+    expect(reset.cumulativeValue).toBe('520.00');
+  });
+
+  it('rejects a lower reading when no rollover point is known', async () => {
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'odometer', value: 500, readingAt: new Date('2024-01-01') });
+
+    await expect(meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'odometer', value: 100, readingAt: new Date('2024-01-02') }))
+      .rejects.toBeInstanceOf(MeterReadingError);
+  });
+
+  it('imports CSV rows and reports per-line errors', async () => {
+    const csv = [
+      'assetTag,meterType,value,readingAt',
+      'CONV-001,hours,100,2024-01-01',
+      'CONV-001,hours,150,2024-01-02',
+      'UNKNOWN,hours,10,2024-01-02',
+    ].join('\n');
+
+    const result = await meterReadingService.importCsv(csv, 'warehouse-id', 'user-id');
+
+    expect(result.imported).toBe(2);
+    expect(result.errors).toEqual([{ line: 4, message: 'Unknown asset tag: UNKNOWN' }]);
+    expect(result.readings[1].source).toBe('csv');
+  });
+
+  it('reads quoted cells and only resolves asset tags in the importing warehouse', async () => {
+    const csv = [
+      'assetTag,meterType,value,readingAt,notes',
+      'CONV-001,hours,100,2024-01-01,"Read at shift change, line stopped"',
+      '"CONV-001",hours,120,2024-01-02,"Gauge says ""approx"""',
+    ].join('\n');
+
+    const result = await meterReadingService.importCsv(csv, 'warehouse-id');
+    expect(result.errors).toEqual([]);
+    expect(result.readings.map(r => r.notes)).toEqual(['Read at shift change, line stopped', 'Gauge says "approx"']);
+
+    const elsewhere = await meterReadingService.importCsv(csv, 'other-warehouse-id');
+    expect(elsewhere.imported).toBe(0);
+    expect(elsewhere.errors[0]).toEqual({ line: 2, message: 'Unknown asset tag: CONV-001' });
+  });
+
+  it('reports equipment in another warehouse as not found', async () => {
+    await expect(meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 10, warehouseId: 'other-warehouse-id' }))
+      .rejects.toMatchObject({ message: 'Equipment not found', statusCode: 404 });
+  });
+
+  it('flags a usage-based PM as due once the interval is crossed before the calendar date', async () => {
+    const template: PmTemplate = {
+      id: 'template-id',
+      model: 'Conveyor System',
+      component: 'Bearings',
+      action: 'Lubricate',
+      description: null,
+      estimatedDuration: 60,
+      frequency: 'annually',
+      meterType: 'hours',
+      usageInterval: '500.00',
+      customFields: null,
+      active: true,
+      warehouseId: 'warehouse-id',
+      createdAt: new Date(),
+    };
+    const lastPM = { id: 'wo-1', type: 'preventive', equipmentId: 'equipment-id', status: 'completed', completedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), createdAt: new Date() } as WorkOrder;
+    vi.mocked(storage.getPmTemplate).mockResolvedValue(template);
+    vi.mocked(storage.getWorkOrders).mockResolvedValue([lastPM]);
+
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 1000, readingAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000) });
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 1520, readingAt: new Date() });
+
+    const schedule = await pmEngine.getPMSchedule('equipment-id', 'template-id');
+
+    expect(schedule.triggeredBy).toBe('usage');
+    expect(schedule.complianceStatus).toBe('due');
+    expect(schedule.usage?.sinceLastPM).toBe(520);
+  });
+
+  it('measures usage from a PM that has since been verified', async () => {
+    const template = { id: 'template-id', model: 'Conveyor System', frequency: 'annually', meterType: 'hours', usageInterval: '500.00', warehouseId: 'warehouse-id' } as PmTemplate;
+    const completedAt = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const verifiedPM = { id: 'wo-1', type: 'preventive', equipmentId: 'equipment-id', status: 'verified', completedAt, createdAt: new Date(completedAt.getTime() - 60 * 60 * 1000) } as WorkOrder;
+    vi.mocked(storage.getPmTemplate).mockResolvedValue(template);
+    vi.mocked(storage.getWorkOrders).mockResolvedValue([verifiedPM]);
+
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 1000, readingAt: new Date(Date.now() - 40 * 24 * 60 * 60 * 1000) });
+    await meterReadingService.recordReading({ equipmentId: 'equipment-id', meterType: 'hours', value: 1100, readingAt: new Date() });
+
+    const schedule = await pmEngine.getPMSchedule('equipment-id', 'template-id');
+
+    expect(schedule.lastCompletedDate).toEqual(completedAt);
+    expect(schedule.usage?.sinceLastPM).toBe(100);
+    expect(schedule.complianceStatus).toBe('compliant');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { notificationPreferencesService } from '../../../server/services/notification-preferences.service';
+import { notificationService } from '../../../server/services/notification.service';
+import { pmEngine } from '../../../server/services/pm-engine';
+import { emailService, type EmailTransport } from '../../../server/services/email.service';
+import { storage } from '../../../server/storage';
+import { Profile, Warehouse } from '../../../shared/schema';
+import { createTestEquipment, createTestProfile, createTestWarehouse, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let sentEmails: { to: string; subject: string; text: string }[];
+
+const createProfile = (role: Profile['role']) => createTestProfile(warehouse.id, { firstName: 'Sam', lastName: 'Tester', role });
+
+describe('NotificationPreferencesService', () => {
+  beforeEach(async () => {
+    // 9pm in New York is 01:00 or 02:00 UTC depending on daylight saving
+    warehouse = await createTestWarehouse({ name: 'East', timezone: 'America/New_York' });
+    sentEmails = [];
+    const transport: EmailTransport = { send: async (message) => { sentEmails.push(message); } };
+    emailService.setTransport(transport);
+  });
+
+  it('lets a technician mute pm_due while keeping wo_assigned', async () => {
+    const technician = await createProfile('technician');
+    await notificationPreferencesService.updatePreferences(technician.id, {
+      types: { pm_due: { in_app: false, socket: false, email: false, push: false } },
+    });
+
+    await notificationService.sendNotification({ userId: technician.id, type: 'pm_due', title: 'PM Due', message: 'Lube pump' });
+    await notificationService.sendNotification({ userId: technician.id, type: 'wo_assigned', title: 'Assigned', message: 'WO-1' });
+
+    const notifications = await storage.getNotifications(technician.id);
+    expect(notifications.map(n => n.type)).toEqual(['wo_assigned']);
+    expect((await notificationPreferencesService.getPreferences(technician.id)).types.wo_assigned).toMatchObject({ push: true });
+  });
+
+  it('holds push during quiet hours in the warehouse timezone unless the notification is urgent', async () => {
+    const technician = await createProfile('technician');
+    await notificationPreferencesService.updatePreferences(technician.id, {
+      quietHours: { enabled: true, start: '22:00', end: '06:00', allowUrgent: true },
+    });
+
+    const lateNight = new Date('2025-01-15T04:30:00Z'); // 23:30 in New York
+    const afternoon = new Date('2025-01-15T19:00:00Z'); // 14:00 in New York
+
+    expect(await notificationPreferencesService.resolveDelivery(technician.id, 'wo_assigned', { now: lateNight }))
+      .toMatchObject({ push: false, quietHours: true, inApp: true });
+    expect(await notificationPreferencesService.resolveDelivery(technician.id, 'wo_assigned', { now: lateNight, urgent: true }))
+      .toMatchObject({ push: true, quietHours: false });
+    expect(await notificationPreferencesService.resolveDelivery(technician.id, 'wo_assigned', { now: afternoon }))
+      .toMatchObject({ push: true, quietHours: false });
+  });
+
+  it('collects a manager\'s notifications into a daily digest email', async () => {
+    const manager = await createProfile('manager');
+    expect((await notificationPreferencesService.getPreferences(manager.id)).emailDelivery).toBe('digest');
+
+    await notificationService.sendNotification({ userId: manager.id, type: 'wo_overdue', title: 'Overdue', message: 'WO-7 is late' });
+    await notificationService.sendNotification({ userId: manager.id, type: 'part_low_stock', title: 'Low stock', message: 'Bearings below reorder point' });
+    expect(sentEmails).toHaveLength(0);
+
+    // 07:00 in New York, the default digest hour
+    const digestsSent = await notificationService.sendEmailDigests(new Date('2025-01-15T12:00:00Z'));
+
+    expect(digestsSent).toBe(1);
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0]).toMatchObject({ to: manager.email, subject: 'Daily maintenance digest (2 notifications)' });
+    expect(sentEmails[0].text).toContain('Overdue: WO-7 is late');
+    expect((await storage.getNotifications(manager.id)).every(n => !n.emailDigestPending)).toBe(true);
+
+    await notificationService.sendEmailDigests(new Date('2025-01-15T12:30:00Z'));
+    expect(sentEmails).toHaveLength(1);
+  });
+
+  it('keeps muted pm_due notifications out when PMs are generated', async () => {
+    const muted = await createProfile('supervisor');
+    const subscribed = await createProfile('supervisor');
+    await notificationPreferencesService.updatePreferences(muted.id, {
+      types: { pm_due: { in_app: false, socket: false, email: false, push: false } },
+    });
+    const model = `PUMP-${nextId()}`;
+    await createTestEquipment(warehouse.id, { model });
+    await storage.createPmTemplate({ model, component: 'Seal', action: 'Inspect', frequency: 'daily', active: true, warehouseId: warehouse.id } as any);
+
+    const [workOrder] = await pmEngine.generatePMWorkOrders(warehouse.id);
+
+    expect(await storage.getNotifications(muted.id)).toEqual([]);
+    expect(await storage.getNotifications(subscribed.id)).toEqual([
+      expect.objectContaining({ type: 'pm_due', workOrderId: workOrder.id }),
+    ]);
+  });
+
+  it('links notification emails to the configured app URL', async () => {
+    const technician = await createProfile('technician');
+    await notificationPreferencesService.updatePreferences(technician.id, {
+      types: { wo_assigned: { in_app: true, socket: true, email: true, push: false } },
+    });
+    const workOrderId = crypto.randomUUID();
+
+    vi.stubEnv('APP_BASE_URL', 'https://cmms.example.com');
+    try {
+      await notificationService.sendNotification({ userId: technician.id, type: 'wo_assigned', title: 'Assigned', message: 'WO-9', workOrderId });
+    } finally {
+      vi.unstubAllEnvs();
+    }
+
+    expect(sentEmails).toHaveLength(1);
+    expect(sentEmails[0].text).toContain(`https://cmms.example.com/work-orders?workOrderId=${workOrderId}`);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { onCallService } from '../../../server/services/on-call.service';
+import { storage } from '../../../server/storage';
+import type { OnCallRotation, Profile, Warehouse } from '../../../shared/schema';
+import { createTestProfile, createTestWarehouse } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let alex: Profile;
+let blair: Profile;
+let casey: Profile;
+let rotation: OnCallRotation;
+
+const createProfile = (firstName: string, role: Profile['role'] = 'technician') =>
+  createTestProfile(warehouse.id, { firstName, lastName: 'Tester', role });
+
+const onCallAt = async (iso: string) => (await onCallService.getCurrentOnCall(warehouse.id, 'technician', new Date(iso)))!;
+
+describe('OnCallService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'East' });
+    [alex, blair, casey] = [await createProfile('Alex'), await createProfile('Blair'), await createProfile('Casey')];
+    // Weekly handoff at 09:00 on Mondays in New York, starting Monday 3 March 2025
+    rotation = await onCallService.saveRotation(warehouse.id, {
+      role: 'technician',
+      name: 'Line technicians',
+      handoffFrequency: 'weekly',
+      handoffTime: '09:00',
+      handoffDayOfWeek: 1,
+      timezone: 'America/New_York',
+      anchorDate: '2025-03-03',
+      participants: [alex.id, blair.id, casey.id],
+    });
+  });
+
+  it('hands off weekly at local time across a daylight saving change', async () => {
+    expect(await onCallAt('2025-03-05T12:00:00Z')).toMatchObject({
+      userId: alex.id,
+      source: 'rotation',
+      startsAt: new Date('2025-03-03T14:00:00Z'), // 09:00 EST
+      endsAt: new Date('2025-03-10T13:00:00Z'), // 09:00 EDT
+    });
+    expect((await onCallAt('2025-03-10T12:59:00Z')).userId).toBe(alex.id);
+    expect((await onCallAt('2025-03-10T13:00:00Z')).userId).toBe(blair.id);
+    expect((await onCallAt('2025-03-24T13:00:00Z')).userId).toBe(alex.id);
+    expect(await onCallService.getCurrentOnCall(warehouse.id, 'supervisor')).toBeNull();
+  });
+
+  it('applies overrides and swaps, and undoes both halves of a swap together', async () => {
+    await onCallService.addOverride(rotation.id, {
+      userId: casey.id,
+      startsAt: '2025-03-05T22:00:00Z',
+      endsAt: '2025-03-06T10:00:00Z',
+      reason: 'Alex at a family event',
+    });
+    expect(await onCallAt('2025-03-06T00:00:00Z')).toMatchObject({ userId: casey.id, source: 'override' });
+    expect((await onCallService.findOnCallProfile(warehouse.id, 'technician', new Date('2025-03-06T00:00:00Z')))!.id).toBe(casey.id);
+    expect((await onCallAt('2025-03-06T11:00:00Z')).userId).toBe(alex.id);
+
+    const outsider = await createProfile('Drew');
+    await expect(onCallService.swap(rotation.id, { firstShiftAt: '2025-03-12T12:00:00Z', secondShiftAt: '2025-03-19T12:00:00Z' }, outsider.id))
+      .rejects.toMatchObject({ statusCode: 403 });
+
+    const [first] = await onCallService.swap(rotation.id, {
+      firstShiftAt: '2025-03-12T12:00:00Z',
+      secondShiftAt: '2025-03-19T12:00:00Z',
+    }, blair.id);
+    expect(await onCallAt('2025-03-12T12:00:00Z')).toMatchObject({ userId: casey.id, source: 'swap' });
+    expect(await onCallAt('2025-03-19T12:00:00Z')).toMatchObject({ userId: blair.id, source: 'swap' });
+
+    await onCallService.removeOverride(rotation.id, first.id);
+    expect((await onCallAt('2025-03-12T12:00:00Z')).userId).toBe(blair.id);
+    expect((await onCallAt('2025-03-19T12:00:00Z')).userId).toBe(casey.id);
+  });
+
+  it('exports a signed iCal feed of a technician\'s shifts', async () => {
+    const feed = await onCallService.buildICalFeed(alex.id, new Date('2025-03-05T12:00:00Z'));
+
+    expect(feed.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(feed).toContain('DTSTART:20250303T140000Z\r\nDTEND:20250310T130000Z');
+    expect(feed).toContain('SUMMARY:On call: Line technicians');
+    // Every third week over the 104-day window
+    expect(feed.match(/BEGIN:VEVENT/g)).toHaveLength(5);
+
+    const token = onCallService.feedToken(alex.id);
+    expect(onCallService.verifyFeedToken(alex.id, token)).toBe(true);
+    expect(onCallService.verifyFeedToken(blair.id, token)).toBe(false);
+  });
+
+  it('only puts active members of the warehouse on call', async () => {
+    const other = await createTestWarehouse({ name: 'West' });
+    const visitor = await createTestProfile(other.id, { firstName: 'Visitor' });
+    const leaver = await createProfile('Eden');
+    await storage.updateProfile(leaver.id, { active: false });
+
+    for (const participant of [visitor.id, leaver.id]) {
+      await expect(onCallService.saveRotation(warehouse.id, {
+        role: 'supervisor',
+        name: 'Supervisors',
+        handoffFrequency: 'weekly',
+        handoffTime: '09:00',
+        handoffDayOfWeek: 1,
+        timezone: 'America/New_York',
+        anchorDate: '2025-03-03',
+        participants: [alex.id, participant],
+      })).rejects.toThrow('inactive or in another warehouse');
+      await expect(onCallService.addOverride(rotation.id, {
+        userId: participant,
+        startsAt: '2025-03-05T22:00:00Z',
+        endsAt: '2025-03-06T10:00:00Z',
+      })).rejects.toThrow('inactive or in another warehouse');
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { pmScheduleOptimizer, PlanCandidate, PlanInput } from '../../../server/services/pm-schedule-optimizer';
+import { Profile, TechnicianShift, WorkOrder } from '../../../shared/schema';
+
+// 2024-01-01 is a Monday
+const monday = new Date(Date.UTC(2024, 0, 1));
+const nextMonday = new Date(Date.UTC(2024, 0, 8));
+
+const technician = { id: 'tech-1', firstName: 'Tina', lastName: 'Tech', role: 'technician', active: true, warehouseId: 'warehouse-id' } as Profile;
+
+const mondayShift = {
+  id: 'shift-1',
+  technicianId: 'tech-1',
+  warehouseId: 'warehouse-id',
+  dayOfWeek: 1,
+  startTime: '07:00',
+  endTime: '15:00',
+  effectiveFrom: null,
+  effectiveTo: null,
+  active: true,
+  createdAt: new Date(),
+} as TechnicianShift;
+
+const candidate = (overrides: Partial<PlanCandidate>): PlanCandidate => ({
+  ruleId: 'rule-1',
+  templateId: 'template-1',
+  equipmentId: 'equipment-1',
+  equipmentModel: 'Conveyor System',
+  dueDate: monday,
+  priority: 'medium',
+  estimatedDuration: 2,
+  leadTimeDays: 0,
+  assignedTechnicians: [],
+  requiredParts: [],
+  ...overrides,
+});
+
+const baseInput = (overrides: Partial<PlanInput>): PlanInput => ({
+  startDate: monday,
+  endDate: new Date(Date.UTC(2024, 0, 14)),
+  candidates: [],
+  technicians: [technician],
+  shifts: [mondayShift],
+  operatingHours: { start: '08:00', end: '17:00' },
+  timezone: 'UTC',
+  workingDays: [1, 2, 3, 4, 5],
+  maxConcurrentPMs: 10,
+  priorityWeights: { critical: 4, high: 3, medium: 2, low: 1 },
+  existingWorkOrders: [],
+  parts: [],
+  ...overrides,
+});
+
+describe('PMScheduleOptimizer', () => {
+  it('moves the lower-priority PM when a shift is full', () => {
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      candidates: [
+        candidate({ ruleId: 'low', equipmentId: 'equipment-low', priority: 'low', estimatedDuration: 6 }),
+        candidate({ ruleId: 'critical', equipmentId: 'equipment-critical', priority: 'critical', estimatedDuration: 6 }),
+      ],
+    }));
+
+    const critical = plan.scheduled.find(pm => pm.ruleId === 'critical')!;
+    const low = plan.scheduled.find(pm => pm.ruleId === 'low')!;
+
+    expect(critical.scheduledDate).toEqual(new Date(Date.UTC(2024, 0, 1, 7)));
+    expect(critical.rescheduled).toBe(false);
+    expect(low.scheduledDate).toEqual(new Date(Date.UTC(2024, 0, 8, 7)));
+    expect(low.rescheduled).toBe(true);
+    expect(plan.adjustments).toHaveLength(1);
+    expect(plan.adjustments[0]).toMatchObject({ equipmentId: 'equipment-low', reason: 'technician_unavailable' });
+    expect(plan.conflicts).toHaveLength(0);
+  });
+
+  it('counts hours of open work orders already assigned to the technician', () => {
+    const existing = {
+      id: 'wo-1',
+      assignedTo: 'tech-1',
+      status: 'assigned',
+      dueDate: new Date(Date.UTC(2024, 0, 1, 9)),
+      estimatedHours: '7.00',
+    } as WorkOrder;
+
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      candidates: [candidate({ estimatedDuration: 2 })],
+      existingWorkOrders: [existing],
+    }));
+
+    expect(plan.scheduled[0].scheduledDate).toEqual(new Date(Date.UTC(2024, 0, 8, 7)));
+    expect(plan.capacity.find(c => c.date === '2024-01-01')).toMatchObject({ availableHours: 8, bookedHours: 7, plannedHours: 0 });
+  });
+
+  it('reserves scarce parts for the higher-priority PM', () => {
+    const part = { id: 'part-1', partNumber: 'BRG-001', available: 1 };
+
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      candidates: [
+        candidate({ ruleId: 'medium', equipmentId: 'equipment-a', requiredParts: ['BRG-001'] }),
+        candidate({ ruleId: 'high', equipmentId: 'equipment-b', priority: 'high', requiredParts: ['part-1'] }),
+      ],
+      parts: [part],
+    }));
+
+    expect(plan.scheduled.map(pm => pm.ruleId)).toEqual(['high']);
+    expect(plan.conflicts).toEqual([expect.objectContaining({ equipmentId: 'equipment-a', conflictType: 'parts_unavailable' })]);
+  });
+
+  it('needs a unit of stock for each time a part is listed', () => {
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      candidates: [
+        candidate({ ruleId: 'pair', equipmentId: 'equipment-a', requiredParts: ['BRG-001', 'BRG-001'] }),
+        candidate({ ruleId: 'single', equipmentId: 'equipment-b', priority: 'low', requiredParts: ['BRG-001'] }),
+      ],
+      parts: [{ id: 'part-1', partNumber: 'BRG-001', available: 2 }],
+    }));
+
+    expect(plan.scheduled.map(pm => pm.ruleId)).toEqual(['pair']);
+    expect(plan.conflicts).toEqual([expect.objectContaining({ equipmentId: 'equipment-b', conflictType: 'parts_unavailable' })]);
+  });
+
+  it('falls back to warehouse operating hours on working days when no shifts are defined', () => {
+    const saturday = new Date(Date.UTC(2024, 0, 6));
+
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      shifts: [],
+      startDate: saturday,
+      endDate: nextMonday,
+      candidates: [candidate({ dueDate: saturday })],
+    }));
+
+    expect(plan.scheduled[0].scheduledDate).toEqual(new Date(Date.UTC(2024, 0, 8, 8)));
+    expect(plan.capacity.map(c => c.date)).toEqual(['2024-01-08']);
+    expect(plan.capacity[0].availableHours).toBe(9);
+  });
+
+  it('plans on the warehouse\'s wall clock, across a daylight saving change', () => {
+    // New York moved its clocks forward on Sunday 2024-03-10
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      timezone: 'America/New_York',
+      startDate: new Date('2024-03-09T05:00:00Z'),
+      endDate: new Date('2024-03-12T04:00:00Z'),
+      shifts: [],
+      workingDays: [0, 1, 2, 3, 4, 5, 6],
+      candidates: [candidate({ dueDate: new Date('2024-03-11T12:00:00Z') })],
+    }));
+
+    expect(plan.scheduled[0].scheduledDate).toEqual(new Date('2024-03-11T12:00:00Z')); // 08:00 EDT
+    expect(plan.scheduled[0].rescheduled).toBe(false);
+    expect(plan.capacity.map(slot => slot.date)).toEqual(['2024-03-09', '2024-03-10', '2024-03-11', '2024-03-12']);
+  });
+
+  it('reads shift days and times in the warehouse timezone', () => {
+    // Monday 07:00 in Sydney is Sunday evening in UTC
+    const plan = pmScheduleOptimizer.optimize(baseInput({
+      timezone: 'Australia/Sydney',
+      startDate: new Date('2023-12-31T13:00:00Z'),
+      endDate: new Date('2024-01-07T12:00:00Z'),
+      candidates: [candidate({ dueDate: new Date('2024-01-01T01:00:00Z') })],
+    }));
+
+    expect(plan.scheduled[0].scheduledDate).toEqual(new Date('2023-12-31T20:00:00Z'));
+    expect(plan.capacity.map(slot => slot.date)).toEqual(['2024-01-01']);
+  });
+});
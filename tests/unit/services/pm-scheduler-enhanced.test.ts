@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { pmSchedulerEnhanced } from '../../../server/services/pm-scheduler-enhanced';
+import { pmEngine } from '../../../server/services/pm-engine';
+import { inventoryLedgerService } from '../../../server/services/inventory-ledger.service';
+import { storage } from '../../../server/storage';
+import { PmSchedulingRule, PmSchedulingConfig, PmTemplate } from '../../../shared/schema';
+
+vi.mock('../../../server/storage', () => ({
+  storage: {
+    getPmSchedulingRules: vi.fn(),
+    createPmSchedulingRule: vi.fn(),
+    getPmSchedulingConfig: vi.fn(),
+    getPmTemplates: vi.fn(),
+    getEquipment: vi.fn(),
+    getWorkOrders: vi.fn(),
+    getWarehouse: vi.fn(),
+    getProfiles: vi.fn(),
+    getTechnicianShifts: vi.fn(),
+    getParts: vi.fn(),
+  },
+}));
+
+const template: PmTemplate = {
+  id: 'template-id',
+  model: 'Conveyor System',
+  component: 'Bearings',
+  action: 'Lubricate',
+  description: null,
+  estimatedDuration: 60,
+  frequency: 'monthly',
+  meterType: 'hours',
+  usageInterval: '500.00',
+  customFields: null,
+  active: true,
+  warehouseId: 'warehouse-id',
+  createdAt: new Date(),
+};
+
+const rule = (id: string, priority: string, overrides: Partial<PmSchedulingRule> = {}) => ({
+  id,
+  name: id,
+  warehouseId: 'warehouse-id',
+  templateId: `template-${id}`,
+  equipmentModels: ['Conveyor System'],
+  frequency: 'monthly',
+  customFrequencyDays: null,
+  conditions: {},
+  triggerType: 'time_based',
+  autoGenerate: true,
+  leadTimeDays: 0,
+  priority,
+  assignedTechnicians: [],
+  requiredParts: [],
+  estimatedDuration: '2.00',
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+} as PmSchedulingRule);
+
+describe('PMSchedulerEnhanced rule and config persistence', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.createPmSchedulingRule).mockImplementation(async rule => ({
+      ...(rule as any),
+      id: 'rule-id',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }));
+  });
+
+  it('seeds one rule per PM template when none are stored', async () => {
+    vi.mocked(storage.getPmSchedulingRules).mockResolvedValue([]);
+    vi.mocked(storage.getPmTemplates).mockResolvedValue([template]);
+
+    const rules = await pmSchedulerEnhanced.loadSchedulingRules('warehouse-id');
+
+    expect(storage.createPmSchedulingRule).toHaveBeenCalledTimes(1);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({
+      name: 'Conveyor System - Bearings',
+      templateId: 'template-id',
+      equipmentModels: ['Conveyor System'],
+      triggerType: 'usage_based',
+      estimatedDuration: 2,
+    });
+  });
+
+  it('loads stored rules without re-seeding', async () => {
+    const stored = {
+      id: 'stored-rule',
+      name: 'Custom bearing check',
+      warehouseId: 'warehouse-id',
+      templateId: 'template-id',
+      equipmentModels: ['Conveyor System'],
+      frequency: 'custom',
+      customFrequencyDays: 10,
+      conditions: { lastMaintenanceDate: '2024-01-01T00:00:00.000Z' },
+      triggerType: 'time_based',
+      autoGenerate: false,
+      leadTimeDays: 3,
+      priority: 'high',
+      assignedTechnicians: [],
+      requiredParts: [],
+      estimatedDuration: '1.50',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as PmSchedulingRule;
+    vi.mocked(storage.getPmSchedulingRules).mockResolvedValue([stored]);
+
+    const rules = await pmSchedulerEnhanced.loadSchedulingRules('warehouse-id');
+
+    expect(storage.getPmTemplates).not.toHaveBeenCalled();
+    expect(rules[0].customFrequencyDays).toBe(10);
+    expect(rules[0].estimatedDuration).toBe(1.5);
+    expect(rules[0].autoGenerate).toBe(false);
+    expect(rules[0].conditions.lastMaintenanceDate).toBeInstanceOf(Date);
+  });
+
+  it('uses the stored config and falls back to defaults', async () => {
+    const defaults = pmSchedulerEnhanced.getDefaultSchedulingConfig('warehouse-id');
+    const stored = {
+      id: 'config-id',
+      warehouseId: 'warehouse-id',
+      globalSettings: { ...defaults.globalSettings, maxConcurrentPMs: 3 },
+      escalationRules: defaults.escalationRules,
+      complianceTargets: { ...defaults.complianceTargets, overallComplianceRate: 90 },
+      updatedBy: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    } as PmSchedulingConfig;
+
+    vi.mocked(storage.getPmSchedulingConfig).mockResolvedValueOnce(stored);
+    const config = await pmSchedulerEnhanced.loadSchedulingConfig('warehouse-id');
+    expect(config.globalSettings.maxConcurrentPMs).toBe(3);
+    expect(config.complianceTargets.overallComplianceRate).toBe(90);
+
+    vi.mocked(storage.getPmSchedulingConfig).mockResolvedValueOnce(undefined);
+    const fallback = await pmSchedulerEnhanced.loadSchedulingConfig('other-warehouse');
+    expect(fallback).toEqual(pmSchedulerEnhanced.getDefaultSchedulingConfig('other-warehouse'));
+  });
+
+  it('plans one PM per equipment when several rules cover it', async () => {
+    // 2024-01-01 is a Monday
+    const monday = new Date(2024, 0, 1);
+    vi.mocked(storage.getPmSchedulingRules).mockResolvedValue([rule('lube', 'low'), rule('inspect', 'high')]);
+    vi.mocked(storage.getPmSchedulingConfig).mockResolvedValue(undefined);
+    vi.mocked(storage.getEquipment).mockResolvedValue([
+      { id: 'equipment-id', assetTag: 'CV-1', model: 'Conveyor System', status: 'active', warehouseId: 'warehouse-id' } as any,
+    ]);
+    vi.mocked(storage.getWorkOrders).mockResolvedValue([]);
+    vi.mocked(storage.getWarehouse).mockResolvedValue(undefined);
+    vi.mocked(storage.getProfiles).mockResolvedValue([
+      { id: 'tech-id', firstName: 'Tina', lastName: 'Tech', role: 'technician', active: true, warehouseId: 'warehouse-id' } as any,
+    ]);
+    vi.mocked(storage.getTechnicianShifts).mockResolvedValue([]);
+    vi.mocked(storage.getParts).mockResolvedValue([]);
+    vi.spyOn(pmEngine, 'getPMSchedule').mockResolvedValue({ nextDueDate: monday } as any);
+
+    const plan = await pmSchedulerEnhanced.generateOptimizedSchedule('warehouse-id', monday, new Date(2024, 0, 7));
+
+    expect(plan.scheduledPMs).toHaveLength(1);
+    expect(plan.scheduledPMs[0]).toMatchObject({ ruleId: 'inspect', equipmentId: 'equipment-id', priority: 'high' });
+  });
+
+  it('plans against stock left after other work orders\' reservations', async () => {
+    const monday = new Date(2024, 0, 1);
+    vi.mocked(storage.getPmSchedulingRules).mockResolvedValue([rule('bearing', 'high', { requiredParts: ['BRG-1'] })]);
+    vi.mocked(storage.getPmSchedulingConfig).mockResolvedValue(undefined);
+    vi.mocked(storage.getEquipment).mockResolvedValue([
+      { id: 'equipment-id', assetTag: 'CV-1', model: 'Conveyor System', status: 'active', warehouseId: 'warehouse-id' } as any,
+    ]);
+    vi.mocked(storage.getWorkOrders).mockResolvedValue([]);
+    vi.mocked(storage.getWarehouse).mockResolvedValue(undefined);
+    vi.mocked(storage.getProfiles).mockResolvedValue([
+      { id: 'tech-id', firstName: 'Tina', lastName: 'Tech', role: 'technician', active: true, warehouseId: 'warehouse-id' } as any,
+    ]);
+    vi.mocked(storage.getTechnicianShifts).mockResolvedValue([]);
+    vi.mocked(storage.getParts).mockResolvedValue([{ id: 'part-id', partNumber: 'BRG-1', stockLevel: 3 } as any]);
+    vi.spyOn(pmEngine, 'getPMSchedule').mockResolvedValue({ nextDueDate: monday } as any);
+    // All three on hand are held for open work orders
+    vi.spyOn(inventoryLedgerService, 'getAvailability').mockResolvedValue({ partId: 'part-id', onHand: 3, reserved: 3, available: 0 });
+
+    const plan = await pmSchedulerEnhanced.generateOptimizedSchedule('warehouse-id', monday, new Date(2024, 0, 7));
+
+    expect(plan.scheduledPMs).toHaveLength(0);
+    expect(plan.conflicts).toEqual([expect.objectContaining({ conflictType: 'parts_unavailable', message: 'Insufficient stock for BRG-1' })]);
+  });
+});
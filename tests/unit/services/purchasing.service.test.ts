@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { purchasingService, PurchasingError } from '../../../server/services/purchasing.service';
+import { webhookService } from '../../../server/services/webhook.service';
+import { storage } from '../../../server/storage';
+import type { InsertPart } from '../../../shared/schema';
+import { createTestPart, createTestVendor } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+vi.mock('../../../server/services/webhook.service', () => ({
+  webhookService: { emitEvent: vi.fn() },
+  WebhookEvents: { INVENTORY_REORDER: 'inventory.reorder' },
+}));
+
+const createPart = (overrides: Partial<InsertPart>) => createTestPart(warehouseId, {
+  name: 'Bearing',
+  description: 'Bearing',
+  unitCost: '12.50',
+  stockLevel: 2,
+  reorderPoint: 5,
+  maxStock: 20,
+  vendor: 'Acme Supply',
+  ...overrides,
+});
+
+let warehouseId: string;
+
+describe('PurchasingService', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    warehouseId = crypto.randomUUID();
+    await createTestVendor(warehouseId, { name: 'Acme Supply' });
+  });
+
+  it('drafts reorder quantities up to maxStock grouped onto one PO per vendor', async () => {
+    const bearing = await createPart({ stockLevel: 2, maxStock: 20 });
+    const belt = await createPart({ name: 'Belt', stockLevel: 0, maxStock: 6, unitCost: '40.00' });
+
+    const first = await purchasingService.handleLowStock(bearing);
+    const second = await purchasingService.handleLowStock(belt);
+
+    expect(first?.quantity).toBe(18);
+    expect(second?.quantity).toBe(6);
+    expect(first?.purchaseOrderId).toBe(second?.purchaseOrderId);
+
+    const order = await purchasingService.getPurchaseOrderDetail(first!.purchaseOrderId!);
+    expect(order?.status).toBe('draft');
+    expect(order?.vendorName).toBe('Acme Supply');
+    expect(order?.vendorId).toBeTruthy();
+    expect(order?.lines.map(l => l.quantityOrdered)).toEqual([18, 6]);
+    expect(order?.totalCost).toBe('465.00');
+    expect(webhookService.emitEvent).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(webhookService.emitEvent).mock.calls[0][0]).toMatchObject({ event: 'inventory.reorder', entityId: order!.id });
+  });
+
+  it('does not reorder quantity that is already on order', async () => {
+    const part = await createPart({ stockLevel: 4, maxStock: 10 });
+
+    await purchasingService.handleLowStock(part);
+    const again = await purchasingService.handleLowStock({ ...part, stockLevel: 3 });
+
+    expect(again?.quantity).toBe(1);
+  });
+
+  it('requires approval before ordering and tracks partial receipts into stock', async () => {
+    const part = await createPart({ stockLevel: 0, maxStock: 10 });
+    const requisition = await purchasingService.handleLowStock(part);
+    const poId = requisition!.purchaseOrderId!;
+
+    await expect(purchasingService.markOrdered(poId)).rejects.toBeInstanceOf(PurchasingError);
+
+    await purchasingService.submitForApproval(poId);
+    await purchasingService.approve(poId, 'manager-id');
+    await purchasingService.markOrdered(poId);
+
+    const [line] = (await purchasingService.getPurchaseOrderDetail(poId))!.lines;
+    const partial = await purchasingService.receive(poId, [{ lineId: line.id, quantity: 4 }], 'clerk-id');
+    expect(partial.status).toBe('partially_received');
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(4);
+
+    await expect(purchasingService.receive(poId, [{ lineId: line.id, quantity: 7 }])).rejects.toThrow('6 outstanding');
+
+    const complete = await purchasingService.receive(poId, [{ lineId: line.id, quantity: 6 }]);
+    expect(complete.status).toBe('received');
+    expect(complete.receipts).toHaveLength(2);
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(10);
+  });
+
+  it('checks a line repeated in one receipt against its total outstanding quantity', async () => {
+    const part = await createPart({ stockLevel: 0, maxStock: 10 });
+    const poId = (await purchasingService.handleLowStock(part))!.purchaseOrderId!;
+    await purchasingService.submitForApproval(poId);
+    await purchasingService.approve(poId, 'manager-id');
+    await purchasingService.markOrdered(poId);
+    const [line] = (await purchasingService.getPurchaseOrderDetail(poId))!.lines;
+
+    await expect(purchasingService.receive(poId, [
+      { lineId: line.id, quantity: 6 },
+      { lineId: line.id, quantity: 6 },
+    ])).rejects.toThrow('Cannot receive 12 on a line with 10 outstanding');
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(0);
+
+    const received = await purchasingService.receive(poId, [
+      { lineId: line.id, quantity: 6 },
+      { lineId: line.id, quantity: 4 },
+    ]);
+    expect(received.status).toBe('received');
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(10);
+  });
+
+  it('reopens requisitions when a PO is rejected', async () => {
+    const part = await createPart({ stockLevel: 1 });
+    const requisition = await purchasingService.handleLowStock(part);
+    const poId = requisition!.purchaseOrderId!;
+
+    await purchasingService.submitForApproval(poId);
+    const rejected = await purchasingService.reject(poId, 'manager-id', 'Over budget');
+
+    expect(rejected.status).toBe('rejected');
+    expect(rejected.rejectionReason).toBe('Over budget');
+    expect((await storage.getPurchaseRequisition(requisition!.id))?.status).toBe('open');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { scanService } from '../../../server/services/scan.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, Part, Warehouse, WorkOrder } from '../../../shared/schema';
+import { createTestEquipment, createTestPart, createTestWarehouse, createTestWorkOrder, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let pump: Equipment;
+let seal: Part;
+let repair: WorkOrder;
+let technicianId: string;
+
+describe('ScanService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Plant' });
+    technicianId = `tech-${nextId()}`;
+    pump = await createTestEquipment(warehouse.id, { model: 'P-100', description: 'Coolant pump', criticality: 'high' });
+    seal = await createTestPart(warehouse.id, {
+      description: 'Mechanical seal',
+      unitOfMeasure: 'ea',
+      stockLevel: 4,
+      reorderPoint: 1,
+      location: 'B2-04',
+    });
+    repair = await createTestWorkOrder(warehouse.id, {
+      priority: 'high',
+      status: 'in_progress',
+      description: 'Pump leaking',
+      equipmentId: pump.id,
+    });
+  });
+
+  it('signs label payloads and rejects altered ones', async () => {
+    const label = await scanService.getLabel('part', seal.id, warehouse.id);
+    expect(label).toMatchObject({ title: seal.partNumber, subtitle: 'Mechanical seal · B2-04' });
+    expect(scanService.decode(label.payload)).toEqual({ kind: 'part', id: seal.id });
+    expect(scanService.decode(scanService.portalLink('https://cmms.example.com/', label.payload))).toEqual({ kind: 'part', id: seal.id });
+
+    // Pointing a part label at another record, or at another kind, breaks the signature
+    expect(() => scanService.decode(label.payload.replace(seal.id, pump.id))).toThrow('not issued by this system');
+    expect(() => scanService.decode(label.payload.replace(':part:', ':asset:'))).toThrow('not issued by this system');
+    expect(scanService.decode(pump.assetTag)).toEqual({ text: pump.assetTag });
+
+    await expect(scanService.getLabel('asset', pump.id, 'another-warehouse')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('shows open work orders and the running timer when an asset is scanned', async () => {
+    await createTestWorkOrder(warehouse.id, { equipmentId: pump.id, status: 'closed' });
+    const timer = await storage.createLaborTime({ workOrderId: repair.id, userId: technicianId, startTime: new Date(), isActive: true } as any);
+
+    const result = await scanService.resolve(scanService.encode('asset', pump.id), warehouse.id, technicianId);
+    expect(result.kind).toBe('asset');
+    if (result.kind !== 'asset') return;
+    expect(result.openWorkOrders.map(wo => wo.id)).toEqual([repair.id]);
+    expect(result.activeTimer?.id).toBe(timer.id);
+
+    // Labels printed before signing still resolve by asset tag
+    expect((await scanService.resolve(pump.assetTag, warehouse.id)).kind).toBe('asset');
+  });
+
+  it('offers to issue a scanned part to the work order the technician is timing', async () => {
+    const before = await scanService.resolve(scanService.encode('part', seal.id), warehouse.id, technicianId);
+    expect(before).toMatchObject({ kind: 'part', activeWorkOrder: null });
+
+    await storage.createLaborTime({ workOrderId: repair.id, userId: technicianId, startTime: new Date(), isActive: true } as any);
+    const after = await scanService.resolve(seal.partNumber, warehouse.id, technicianId);
+    expect(after).toMatchObject({ kind: 'part', part: { id: seal.id }, activeWorkOrder: { id: repair.id } });
+
+    await expect(scanService.resolve('NOTHING-HERE', warehouse.id)).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { signatureService } from '../../../server/services/signature.service';
+import { AuthService } from '../../../server/services/auth/auth.service';
+import { storage } from '../../../server/storage';
+import type { Profile, Warehouse, WorkOrder } from '../../../shared/schema';
+import { createTestProfile, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouse: Warehouse;
+let technician: Profile;
+let supervisor: Profile;
+let workOrder: WorkOrder;
+
+const strokes = [[[0.1, 0.5], [0.3, 0.2], [0.5, 0.6]], [[0.6, 0.4], [0.9, 0.4]]];
+
+describe('SignatureService', () => {
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    warehouse = await createTestWarehouse({ name: 'East' });
+    technician = await createTestProfile(warehouse.id, { firstName: 'Sarah', lastName: 'Wilson', role: 'technician' });
+    supervisor = await createTestProfile(warehouse.id, { firstName: 'John', lastName: 'Smith', role: 'supervisor' });
+    workOrder = await createTestWorkOrder(warehouse.id, {
+      status: 'in_progress',
+      description: 'Replace conveyor belt',
+      requestedBy: supervisor.id,
+      assignedTo: technician.id,
+    });
+    // Corrective work can only be completed once it says what failed, why, and what was done
+    const [problem, cause, remedy] = await Promise.all((['problem', 'cause', 'remedy'] as const).map(kind =>
+      storage.createFailureCode({ kind, code: kind.toUpperCase(), name: kind, warehouseId: warehouse.id } as any)));
+    workOrder = await storage.updateWorkOrder(workOrder.id, {
+      problemCodeId: problem.id,
+      causeCodeId: cause.id,
+      remedyCodeId: remedy.id,
+    });
+  });
+
+  it('completes the work order with a drawn signature and flags later edits', async () => {
+    const result = await signatureService.sign(
+      workOrder.id,
+      { kind: 'completion', method: 'drawn', strokes } as any,
+      { id: technician.id, role: 'technician' },
+      { ipAddress: '10.0.0.5' },
+    );
+
+    expect(result.transitioned).toBe(true);
+    expect(result.workOrder.status).toBe('completed');
+    expect(result.signature).toMatchObject({ kind: 'completion', signerName: 'Sarah Wilson', modifiedAfterSigning: false, sealValid: true });
+    expect(result.signature.contentHash).toMatch(/^[0-9a-f]{64}$/);
+
+    expect((await signatureService.getSignatures(workOrder.id)).modifiedAfterSigning).toBe(false);
+
+    await storage.updateWorkOrder(workOrder.id, { notes: 'Also adjusted tension' });
+    const after = await signatureService.getSignatures(workOrder.id);
+    expect(after.modifiedAfterSigning).toBe(true);
+    expect(after.signatures[0]).toMatchObject({ modifiedAfterSigning: true, sealValid: true });
+
+    const pdf = (await signatureService.buildCertificate(workOrder.id, result.signature.id)).toString('latin1');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('MODIFIED AFTER SIGNING');
+    expect(pdf).toContain(`content-sha256:${result.signature.contentHash}`);
+  });
+
+  it('breaks the seal when any stored field of the signature is edited', async () => {
+    const { signature } = await signatureService.sign(
+      workOrder.id,
+      { kind: 'completion', method: 'drawn', strokes } as any,
+      { id: technician.id, role: 'technician' },
+      { ipAddress: '10.0.0.5', userAgent: 'Tablet' },
+    );
+    const stored = await storage.getWorkOrderSignatures(workOrder.id);
+
+    for (const edit of [{ signerRole: 'supervisor' }, { ipAddress: '10.0.0.9' }, { userAgent: 'Laptop' }, { warehouseId: 'other-warehouse' }]) {
+      vi.spyOn(storage, 'getWorkOrderSignatures').mockResolvedValueOnce(stored.map(s => ({ ...s, ...edit })));
+      const [check] = (await signatureService.getSignatures(workOrder.id)).signatures;
+      expect(check, JSON.stringify(edit)).toMatchObject({ id: signature.id, sealValid: false });
+    }
+    expect((await signatureService.getSignatures(workOrder.id)).signatures[0].sealValid).toBe(true);
+  });
+
+  it('requires an independent verifier who re-confirms their identity', async () => {
+    await signatureService.sign(workOrder.id, { kind: 'completion', method: 'drawn', strokes } as any, { id: technician.id, role: 'technician' });
+
+    await expect(signatureService.sign(workOrder.id, { kind: 'verification', method: 'drawn', strokes } as any, { id: technician.id, role: 'supervisor' }))
+      .rejects.toMatchObject({ statusCode: 409 });
+    await expect(signatureService.sign(workOrder.id, { kind: 'verification', method: 'password' } as any, { id: supervisor.id, role: 'supervisor' }))
+      .rejects.toThrow('Re-enter your password to sign');
+
+    const confirm = vi.spyOn(AuthService, 'confirmIdentity').mockResolvedValueOnce({ success: false, error: 'Identity could not be confirmed' });
+    await expect(signatureService.sign(workOrder.id, { kind: 'verification', method: 'password', password: 'wrong' }, { id: supervisor.id, role: 'supervisor' }))
+      .rejects.toMatchObject({ statusCode: 401 });
+    expect((await storage.getWorkOrder(workOrder.id))!.status).toBe('completed');
+
+    confirm.mockResolvedValueOnce({ success: true });
+    const verified = await signatureService.sign(workOrder.id, { kind: 'verification', method: 'password', password: 'demo123' }, { id: supervisor.id, role: 'supervisor' });
+    expect(verified.workOrder).toMatchObject({ status: 'verified', verifiedBy: supervisor.id });
+    expect(verified.signature).toMatchObject({ method: 'password', strokes: null });
+    expect(confirm).toHaveBeenLastCalledWith(supervisor.id, { password: 'demo123', mfaToken: undefined }, expect.anything());
+  });
+});
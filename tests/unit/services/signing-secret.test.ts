@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { assertSigningSecrets, getSigningSecret } from '../../../server/services/auth/signing-secret';
+
+describe('signing secrets', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('names every missing secret in a single production startup error', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('LABEL_SECRET', 'label-key');
+    vi.stubEnv('SIGNATURE_SECRET', '');
+    vi.stubEnv('ON_CALL_FEED_SECRET', '');
+    vi.stubEnv('REQUEST_PORTAL_SECRET', 'portal-key');
+
+    expect(() => assertSigningSecrets()).toThrow('Missing signing secrets: SIGNATURE_SECRET, ON_CALL_FEED_SECRET.');
+    expect(() => getSigningSecret('LABEL_SECRET')).toThrow('SIGNATURE_SECRET, ON_CALL_FEED_SECRET');
+  });
+
+  it('uses the configured key, and a temporary one outside production', () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('LABEL_SECRET', 'label-key');
+    vi.stubEnv('SIGNATURE_SECRET', '');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getSigningSecret('LABEL_SECRET')).toBe('label-key');
+    expect(getSigningSecret('SIGNATURE_SECRET')).toMatch(/^[0-9a-f]{64}$/);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('SIGNATURE_SECRET is not set'));
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { slaService, addBusinessMinutes, businessMinutesBetween } from '../../../server/services/sla.service';
+import { storage } from '../../../server/storage';
+import { createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const MINUTE = 60 * 1000;
+
+const officeHours = {
+  timezone: 'America/New_York',
+  weeklySchedule: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, start: '08:00', end: '17:00' })),
+  holidays: [{ date: '2025-03-10', name: 'Plant shutdown' }],
+  pauseReasons: ['waiting_parts' as const],
+};
+
+let warehouseId: string;
+
+const createWorkOrder = (priority: 'medium' | 'low' = 'medium') => createTestWorkOrder(warehouseId, {
+  description: 'Conveyor belt slipping',
+  priority,
+  status: 'in_progress',
+  assignedTo: 'technician-id',
+});
+
+describe('SlaService', () => {
+  beforeEach(() => {
+    warehouseId = crypto.randomUUID();
+  });
+
+  it('counts only working hours in the warehouse timezone, skipping weekends and holidays', () => {
+    // Friday 18:00 in New York, after closing
+    const fridayEvening = new Date('2025-03-07T23:00:00Z');
+
+    // Monday is a holiday, so two working hours run out at 10:00 on Tuesday (EDT from Sunday on)
+    expect(addBusinessMinutes(officeHours, fridayEvening, 120)).toEqual(new Date('2025-03-11T14:00:00Z'));
+    expect(businessMinutesBetween(officeHours, fridayEvening, new Date('2025-03-11T00:00:00Z'))).toBe(0);
+    expect(businessMinutesBetween(officeHours, fridayEvening, new Date('2025-03-11T14:00:00Z'))).toBe(120);
+  });
+
+  it('pauses the resolution clock while a work order waits on parts and stamps breaches', async () => {
+    await storage.upsertSlaPolicy(warehouseId, {
+      workOrderType: 'corrective', priority: 'medium',
+      responseMinutes: 60, resolutionMinutes: 240, businessHoursOnly: false, atRiskPercent: 75,
+    });
+    const workOrder = await createWorkOrder();
+    const createdAt = new Date(workOrder.createdAt).getTime();
+    const at = (minutes: number) => new Date(createdAt + minutes * MINUTE);
+
+    await slaService.hold(workOrder.id, 'waiting_parts', 'technician-id', 'Belt on back order', at(60));
+    const paused = await slaService.evaluate((await storage.getWorkOrder(workOrder.id))!, at(120));
+    expect(paused.resolution).toMatchObject({ state: 'paused', elapsedMinutes: 60, dueAt: null });
+    await expect(slaService.hold(workOrder.id, 'waiting_vendor', 'technician-id')).rejects.toMatchObject({ statusCode: 409 });
+
+    await slaService.resume(workOrder.id, 'technician-id', at(180));
+    const resumed = (await storage.getWorkOrder(workOrder.id))!;
+    expect(resumed.holdReason).toBeNull();
+    expect(resumed.slaResolutionDueAt).toEqual(at(360));
+    // Nobody started work within the hour, so the response clock was stamped on the way
+    expect(resumed.slaResponseBreachedAt).toEqual(at(60));
+
+    expect((await slaService.evaluate(resumed, at(200))).resolution).toMatchObject({ state: 'on_track', elapsedMinutes: 80 });
+    expect((await slaService.evaluate(resumed, at(340))).resolution.state).toBe('at_risk');
+
+    const { workOrder: stamped, breaches } = await slaService.refresh(resumed, at(361));
+    expect(breaches.map(b => b.clock)).toEqual(['resolution']);
+    expect(stamped.slaResolutionBreachedAt).toEqual(at(360));
+
+    // Already stamped, so a later check does not report them again
+    expect((await slaService.refresh(stamped, at(400))).breaches).toHaveLength(0);
+  });
+
+  it('reports at-risk and breached work orders for a warehouse', async () => {
+    await storage.upsertSlaCalendar(warehouseId, {
+      timezone: 'UTC',
+      weeklySchedule: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, start: '00:00', end: '24:00' })),
+      holidays: [],
+      pauseReasons: [],
+    });
+    await storage.upsertSlaPolicy(warehouseId, {
+      workOrderType: 'corrective', priority: 'low',
+      responseMinutes: 600, resolutionMinutes: 6000, businessHoursOnly: true, atRiskPercent: 50,
+    });
+    const breached = await createWorkOrder();
+    const atRisk = await createWorkOrder('low');
+    await storage.updateWorkOrder(atRisk.id, { respondedAt: new Date(atRisk.createdAt) } as any);
+    const now = new Date(new Date(breached.createdAt).getTime() + 3500 * MINUTE);
+
+    const report = await slaService.getReport(warehouseId, 30, now);
+    expect(report.breached.map(e => e.workOrder.id)).toEqual([breached.id]);
+    expect(report.atRisk.map(e => e.workOrder.id)).toEqual([atRisk.id]);
+    expect(report.summary).toMatchObject({ open: 2, atRisk: 1, breached: 1, responseCompliance: 100 });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { syncService } from '../../../server/services/sync.service';
+import { storage } from '../../../server/storage';
+import { createTestPart, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let warehouseId: string;
+let context: { userId: string; warehouseId: string };
+
+const key = () => `key-${crypto.randomUUID()}`;
+
+const createWorkOrder = () => createTestWorkOrder(warehouseId, {
+  description: 'Replace bearing',
+  status: 'in_progress',
+  notes: 'Noisy on start-up',
+});
+
+describe('SyncService', () => {
+  beforeEach(() => {
+    warehouseId = crypto.randomUUID();
+    context = { userId: crypto.randomUUID(), warehouseId };
+  });
+
+  it('merges an offline edit with changes made on the server since the device last synced', async () => {
+    const workOrder = await createWorkOrder();
+    expect(workOrder.version).toBe(1);
+
+    // A supervisor bumps the priority and adds a note while the technician is offline
+    await storage.updateWorkOrder(workOrder.id, { priority: 'high', notes: 'Noisy on start-up\nParts on order' });
+
+    const [result] = await syncService.processBatch([{
+      idempotencyKey: key(),
+      entity: 'work_orders',
+      op: 'update',
+      entityId: workOrder.id,
+      baseVersion: 1,
+      base: { notes: 'Noisy on start-up', actualHours: null, followUp: false },
+      changes: { notes: 'Noisy on start-up\nBearing replaced', actualHours: '2.5', followUp: true },
+    }], context);
+
+    expect(result).toMatchObject({ status: 'merged', version: 3 });
+    const saved = await storage.getWorkOrder(workOrder.id);
+    expect(saved).toMatchObject({ priority: 'high', actualHours: '2.5', followUp: true });
+    expect(saved?.notes).toBe('Noisy on start-up\nParts on order\nBearing replaced');
+  });
+
+  it('returns fields changed on both sides as conflicts and applies the rest', async () => {
+    const workOrder = await createWorkOrder();
+    const item = await storage.createWorkOrderChecklistItem({
+      workOrderId: workOrder.id, component: 'Pump', action: 'Check seals', status: 'pending', notes: null, sortOrder: 0,
+    });
+    await storage.updateChecklistItem(item.id, { status: 'skipped' });
+
+    const [result] = await syncService.processBatch([{
+      idempotencyKey: key(),
+      entity: 'work_order_checklist_items',
+      op: 'update',
+      entityId: item.id,
+      baseVersion: 1,
+      base: { status: 'pending', notes: null },
+      changes: { status: 'issue', notes: 'Seal weeping' },
+    }], context);
+
+    expect(result.status).toBe('conflict');
+    expect(result.conflicts).toEqual([{ field: 'status', base: 'pending', mine: 'issue', theirs: 'skipped' }]);
+    expect(await storage.getChecklistItem(item.id)).toMatchObject({ status: 'skipped', notes: 'Seal weeping', version: 3 });
+
+    // The technician keeps their value; re-sent against the current version it applies cleanly
+    const [resolved] = await syncService.processBatch([{
+      idempotencyKey: key(),
+      entity: 'work_order_checklist_items',
+      op: 'update',
+      entityId: item.id,
+      baseVersion: result.version,
+      base: { status: 'skipped' },
+      changes: { status: 'issue' },
+    }], context);
+    expect(resolved).toMatchObject({ status: 'applied', version: 4 });
+
+    const [rejected] = await syncService.processBatch([{
+      idempotencyKey: key(),
+      entity: 'work_order_checklist_items',
+      op: 'update',
+      entityId: item.id,
+      baseVersion: 4,
+      changes: { component: 'Motor' },
+    }], context);
+    expect(rejected).toMatchObject({ status: 'rejected', error: 'Cannot sync component on work_order_checklist_items' });
+  });
+
+  it('applies a retried action only once and maps temporary ids within a batch', async () => {
+    const workOrder = await createWorkOrder();
+    const part = await createTestPart(warehouseId, {
+      name: 'Seal kit',
+      description: 'Seal kit',
+      unitCost: '12.00',
+      stockLevel: 5,
+      reorderPoint: 1,
+    });
+
+    const issue = {
+      idempotencyKey: key(),
+      entity: 'parts_usage' as const,
+      op: 'create' as const,
+      entityId: 'tmp-usage-1',
+      changes: { workOrderId: workOrder.id, partId: part.id, quantityUsed: 2 },
+    };
+    const [first, note] = await syncService.processBatch([issue, {
+      idempotencyKey: key(),
+      entity: 'parts_usage',
+      op: 'update',
+      entityId: 'tmp-usage-1',
+      baseVersion: 1,
+      changes: { notes: 'Old seals cracked' },
+    }], context);
+    const [retry] = await syncService.processBatch([issue], context);
+
+    expect(first).toMatchObject({ status: 'applied', clientEntityId: 'tmp-usage-1' });
+    expect(note).toMatchObject({ status: 'applied', entityId: first.entityId });
+    expect(retry).toMatchObject({ status: 'applied', entityId: first.entityId, replayed: true });
+    expect(await storage.getPartsUsage(workOrder.id)).toHaveLength(1);
+    expect((await storage.getPart(part.id))?.stockLevel).toBe(3);
+
+    await expect(syncService.processBatch([issue], { ...context, userId: crypto.randomUUID() }))
+      .rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('merges again when the record changes between reading it and saving the merge', async () => {
+    const workOrder = await createWorkOrder();
+    const entry = await storage.createLaborTime({
+      workOrderId: workOrder.id, userId: context.userId, startTime: new Date(), description: 'Started', isActive: false,
+    } as any);
+    const seen = { ...entry };
+    await storage.updateLaborTime(entry.id, { description: 'Started\nServer note' });
+
+    // The first read returns the row as it was before the server edit landed
+    vi.spyOn(storage, 'getLaborTimeById').mockResolvedValueOnce(seen);
+    const [result] = await syncService.processBatch([{
+      idempotencyKey: key(),
+      entity: 'labor_time',
+      op: 'update',
+      entityId: entry.id,
+      baseVersion: 1,
+      base: { description: 'Started' },
+      changes: { description: 'Started\nDevice note' },
+    }], context);
+
+    expect(result).toMatchObject({ status: 'merged', version: 3 });
+    expect((await storage.getLaborTimeById(entry.id))?.description).toBe('Started\nServer note\nDevice note');
+  });
+
+  it('answers a retry that raced the first attempt with the result recorded first', async () => {
+    const workOrder = await createWorkOrder();
+    const mutation = {
+      idempotencyKey: key(),
+      entity: 'work_orders' as const,
+      op: 'update' as const,
+      entityId: workOrder.id,
+      baseVersion: 1,
+      changes: { actualHours: '1.5' },
+    };
+    const first = await syncService.processMutation(mutation, context);
+
+    // The retry looked up the key before the first attempt had recorded it
+    vi.spyOn(storage, 'getSyncMutation').mockResolvedValueOnce(undefined);
+    const retry = await syncService.processMutation(mutation, context);
+
+    expect(retry).toEqual({ ...first, replayed: true });
+    expect((await storage.getWorkOrder(workOrder.id))?.version).toBe(2);
+  });
+});
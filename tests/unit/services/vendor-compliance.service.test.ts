@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { vendorComplianceService } from '../../../server/services/vendor-compliance.service';
+import { storage } from '../../../server/storage';
+import { Profile, Vendor, Warehouse } from '../../../shared/schema';
+import { createTestProfile, createTestVendor, createTestWarehouse } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T12:00:00Z');
+
+let warehouse: Warehouse;
+let manager: Profile;
+let vendor: Vendor;
+
+const addDocument = (documentType: string, expiryDate: Date | null) => storage.createAttachment({
+  fileName: `${documentType}.pdf`,
+  fileUrl: `/uploads/${documentType}.pdf`,
+  vendorId: vendor.id,
+  documentType,
+  expiryDate,
+  uploadedBy: manager.id,
+} as any);
+
+describe('VendorComplianceService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Compliance' });
+    manager = await createTestProfile(warehouse.id, { firstName: 'Mia', lastName: 'Manager', role: 'manager' });
+    vendor = await createTestVendor(warehouse.id, { name: 'Acme HVAC', type: 'contractor' });
+  });
+
+  it('keeps a vendor active while every required document is current', async () => {
+    await addDocument('insurance', new Date(now.getTime() + 200 * DAY_MS));
+    await addDocument('w9', null);
+    await addDocument('contract', new Date(now.getTime() + 90 * DAY_MS));
+
+    const result = await vendorComplianceService.evaluateVendor(vendor.id, now);
+
+    expect(result).toMatchObject({ status: 'active', reasons: [] });
+    expect(await storage.getNotifications(manager.id)).toHaveLength(0);
+  });
+
+  it('moves a vendor to pending when a document is missing or about to expire', async () => {
+    await addDocument('insurance', new Date(now.getTime() + 10 * DAY_MS));
+    await addDocument('w9', null);
+
+    const result = await vendorComplianceService.evaluateVendor(vendor.id, now);
+
+    expect(result?.status).toBe('pending');
+    expect(result?.reasons).toEqual(['Insurance certificate expires 2025-06-11', 'Contract missing']);
+    expect(await storage.getVendor(vendor.id)).toMatchObject({ status: 'pending', statusReason: result?.reasons.join('; ') });
+
+    const documents = await vendorComplianceService.getDocuments(warehouse.id, { vendorId: vendor.id }, now);
+    expect(documents.map(d => [d.type, d.status, d.daysUntilExpiry])).toEqual([
+      ['insurance', 'pending_renewal', 10],
+      ['w9', 'active', null],
+    ]);
+  });
+
+  it('deactivates a vendor with an expired document and alerts managers once', async () => {
+    await addDocument('insurance', new Date(now.getTime() - DAY_MS));
+    await addDocument('w9', null);
+    await addDocument('contract', null);
+
+    const [result] = await vendorComplianceService.checkDocumentExpiry(warehouse.id, now);
+    await vendorComplianceService.evaluateVendor(vendor.id, now);
+
+    expect(result).toMatchObject({ vendorId: vendor.id, previousStatus: 'active', status: 'inactive' });
+    const notifications = await storage.getNotifications(manager.id);
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0]).toMatchObject({ type: 'vendor_document_expiring', title: 'Vendor Deactivated' });
+
+    // Uploading a renewed certificate restores the vendor
+    await addDocument('insurance', new Date(now.getTime() + 365 * DAY_MS));
+    expect((await vendorComplianceService.evaluateVendor(vendor.id, now))?.status).toBe('active');
+  });
+
+  it('leaves a vendor a manager has put on hold alone', async () => {
+    await addDocument('insurance', null);
+    await addDocument('w9', null);
+    await addDocument('contract', null);
+    await storage.updateVendor(vendor.id, { status: 'inactive', statusReason: 'Failed site audit', statusSource: 'manual' });
+
+    expect(await vendorComplianceService.checkDocumentExpiry(warehouse.id, now)).toEqual([]);
+    expect(await storage.getVendor(vendor.id)).toMatchObject({ status: 'inactive', statusReason: 'Failed site audit' });
+  });
+});
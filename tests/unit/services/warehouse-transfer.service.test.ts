@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { warehouseTransferService, TransferError } from '../../../server/services/warehouse-transfer.service';
+import { storage } from '../../../server/storage';
+import { InsertPart, Warehouse } from '../../../shared/schema';
+import { createTestPart, createTestWarehouse, nextId } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+let partNumber: string;
+let north: Warehouse;
+let south: Warehouse;
+
+const createPart = (warehouseId: string, overrides: Partial<InsertPart> = {}) => createTestPart(warehouseId, {
+  partNumber,
+  name: 'Bearing',
+  description: 'Bearing',
+  unitCost: '10.00',
+  reorderPoint: 2,
+  ...overrides,
+});
+
+describe('WarehouseTransferService', () => {
+  beforeEach(async () => {
+    partNumber = `BRG-${nextId()}`;
+    north = await createTestWarehouse({ name: 'North' });
+    south = await createTestWarehouse({ name: 'South' });
+  });
+
+  it('lists availability of a part number across warehouses', async () => {
+    await createPart(north.id, { stockLevel: 1 });
+    await createPart(south.id, { stockLevel: 8, location: 'S-04' });
+
+    const results = await warehouseTransferService.findAvailability(partNumber);
+
+    expect(results.map(r => [r.warehouseName, r.available])).toEqual([['South', 8], ['North', 1]]);
+    expect(results[0].location).toBe('S-04');
+    expect(await warehouseTransferService.findAvailability(partNumber, south.id)).toHaveLength(1);
+  });
+
+  it('holds shipped stock in transit until the destination receives it', async () => {
+    const source = await createPart(south.id, { stockLevel: 8 });
+
+    const order = await warehouseTransferService.request({ partNumber, fromWarehouseId: south.id, toWarehouseId: north.id, quantity: 5 });
+    expect(order.status).toBe('requested');
+    expect((await storage.getPart(source.id))?.stockLevel).toBe(8);
+
+    const shipped = await warehouseTransferService.ship(order.id, south.id, 'south-clerk');
+    expect(shipped.status).toBe('in_transit');
+    expect((await storage.getPart(source.id))?.stockLevel).toBe(3);
+    const [southSite] = (await warehouseTransferService.findAvailability(partNumber)).filter(r => r.warehouseId === south.id);
+    expect(southSite.available).toBe(3);
+
+    const received = await warehouseTransferService.receive(order.id, north.id, 4, 'north-clerk');
+    expect(received).toMatchObject({ status: 'received', quantityReceived: 4 });
+    expect(received.notes).toContain('1 short');
+
+    const destination = await storage.getPartByNumber(partNumber, north.id);
+    expect(destination).toMatchObject({ id: received.toPartId, stockLevel: 4, warehouseId: north.id });
+    expect(received.transactions.map(t => [t.warehouseId, t.quantity])).toEqual([[south.id, -5], [north.id, 4]]);
+  });
+
+  it('returns in-transit stock to the source when cancelled', async () => {
+    const source = await createPart(south.id, { stockLevel: 2 });
+    await expect(warehouseTransferService.request({ partNumber, fromWarehouseId: south.id, toWarehouseId: north.id, quantity: 3 }))
+      .rejects.toBeInstanceOf(TransferError);
+
+    const order = await warehouseTransferService.request({ partNumber, fromWarehouseId: south.id, toWarehouseId: north.id, quantity: 2 });
+    await warehouseTransferService.ship(order.id, south.id);
+    const cancelled = await warehouseTransferService.cancel(order.id, south.id);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect((await storage.getPart(source.id))?.stockLevel).toBe(2);
+    await expect(warehouseTransferService.receive(order.id, north.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+
+  it('lets only the source ship or cancel and only the destination receive, once each', async () => {
+    const source = await createPart(south.id, { stockLevel: 6 });
+    const order = await warehouseTransferService.request({ partNumber, fromWarehouseId: south.id, toWarehouseId: north.id, quantity: 2 });
+    const elsewhere = await createTestWarehouse({ name: 'East' });
+
+    await expect(warehouseTransferService.ship(order.id, north.id)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(warehouseTransferService.cancel(order.id, north.id)).rejects.toMatchObject({ statusCode: 403 });
+    await expect(warehouseTransferService.ship(order.id, elsewhere.id)).rejects.toMatchObject({ statusCode: 404 });
+
+    const shipments = await Promise.allSettled([
+      warehouseTransferService.ship(order.id, south.id),
+      warehouseTransferService.ship(order.id, south.id),
+    ]);
+    expect(shipments.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await storage.getPart(source.id))?.stockLevel).toBe(4);
+
+    await expect(warehouseTransferService.receive(order.id, south.id)).rejects.toMatchObject({ statusCode: 403 });
+    const cancellations = await Promise.allSettled([
+      warehouseTransferService.cancel(order.id, south.id),
+      warehouseTransferService.cancel(order.id, south.id),
+    ]);
+    expect(cancellations.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect((await storage.getPart(source.id))?.stockLevel).toBe(6);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { webPushService } from '../../../server/services/web-push.service';
+import { notificationService } from '../../../server/services/notification.service';
+import { storage } from '../../../server/storage';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+interface ReceivedPush {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+// A local stand-in for a browser push service; the path picks the response status
+let server: http.Server;
+let baseUrl: string;
+let received: ReceivedPush[];
+
+/** A browser-side subscription: its ECDH key pair and auth secret */
+const createDevice = () => {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  return {
+    ecdh,
+    auth,
+    keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth: auth.toString('base64url') },
+  };
+};
+
+/** Decrypt an aes128gcm Web Push body the way the browser does */
+const decrypt = (device: ReturnType<typeof createDevice>, body: Buffer) => {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const sharedSecret = device.ecdh.computeSecret(serverPublicKey);
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), device.ecdh.getPublicKey(), serverPublicKey]);
+  const inputKey = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, device.auth, keyInfo, 32));
+  const contentKey = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', inputKey, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(ciphertext.subarray(ciphertext.length - 16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, ciphertext.length - 16)), decipher.final()]);
+  return JSON.parse(plaintext.subarray(0, plaintext.lastIndexOf(2)).toString());
+};
+
+describe('WebPushService', () => {
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url!, headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = req.url!.startsWith('/gone') ? 410 : req.url!.startsWith('/error') ? 500 : 201;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.stubEnv('PUSH_SERVICE_ORIGINS', baseUrl);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('delivers an encrypted, VAPID-signed message the device can read', async () => {
+    const device = createDevice();
+    const userId = crypto.randomUUID();
+    await webPushService.subscribe(userId, { endpoint: `${baseUrl}/ok/${userId}`, keys: device.keys });
+
+    const result = await webPushService.sendToUser(userId, {
+      title: 'Work Order Assigned',
+      body: 'WO-1001 is yours',
+      data: { url: '/work-orders?workOrderId=wo-1' },
+    });
+
+    expect(result).toEqual({ sent: 1, removed: 0, failed: 0 });
+    const [push] = received;
+    expect(push.headers['content-encoding']).toBe('aes128gcm');
+    expect(push.headers.ttl).toBeDefined();
+
+    // The JWT is signed by the key advertised to browsers and scoped to the push service origin
+    const [, token, key] = push.headers.authorization!.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    expect(key).toBe(webPushService.getPublicKey());
+    const [header, claims, signature] = token.split('.');
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString()).aud).toBe(baseUrl);
+    const publicKey = Buffer.from(key, 'base64url');
+    const verifier = crypto.createPublicKey({
+      key: {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.subarray(1, 33).toString('base64url'),
+        y: publicKey.subarray(33, 65).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    expect(crypto.verify('sha256', Buffer.from(`${header}.${claims}`), { key: verifier, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))).toBe(true);
+
+    expect(decrypt(device, push.body)).toEqual({
+      title: 'Work Order Assigned',
+      body: 'WO-1001 is yours',
+      data: { url: '/work-orders?workOrderId=wo-1' },
+    });
+    expect((await storage.getPushSubscriptions(userId))[0].lastSuccessAt).toBeInstanceOf(Date);
+  });
+
+  it('removes subscriptions the push service reports gone and ones past their expiry', async () => {
+    const userId = crypto.randomUUID();
+    await webPushService.subscribe(userId, { endpoint: `${baseUrl}/gone/${userId}`, keys: createDevice().keys });
+    await webPushService.subscribe(userId, {
+      endpoint: `${baseUrl}/ok/expired-${userId}`,
+      expirationTime: Date.now() - 1000,
+      keys: createDevice().keys,
+    });
+    await webPushService.subscribe(userId, { endpoint: `${baseUrl}/error/${userId}`, keys: createDevice().keys });
+
+    const result = await webPushService.sendToUser(userId, { title: 'Overdue', body: 'WO-1002 is overdue' });
+
+    expect(result).toEqual({ sent: 0, removed: 2, failed: 1 });
+    expect(received.map(r => r.path)).not.toContain(`/ok/expired-${userId}`);
+    const [remaining] = await storage.getPushSubscriptions(userId);
+    expect(remaining).toMatchObject({ endpoint: `${baseUrl}/error/${userId}`, failureCount: 1 });
+
+    expect(await webPushService.unsubscribe('someone-else', remaining.endpoint)).toBe(false);
+    expect(await webPushService.unsubscribe(userId, remaining.endpoint)).toBe(true);
+    expect(await storage.getPushSubscriptions(userId)).toHaveLength(0);
+  });
+
+  it('pushes notifications to users without a live socket with a deep link to the work order', async () => {
+    const device = createDevice();
+    const userId = crypto.randomUUID();
+    await webPushService.subscribe(userId, { endpoint: `${baseUrl}/ok/${userId}`, keys: device.keys });
+
+    await notificationService.sendNotification({
+      userId,
+      type: 'wo_assigned',
+      title: 'Work Order Assigned',
+      message: 'You have been assigned WO-1003',
+      workOrderId: 'wo-1003',
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    expect(decrypt(device, received[0].body)).toMatchObject({
+      title: 'Work Order Assigned',
+      data: { url: '/work-orders?workOrderId=wo-1003', type: 'wo_assigned' },
+    });
+    expect(await storage.getNotifications(userId)).toHaveLength(1);
+  });
+
+  it('only accepts endpoints on a known push service', async () => {
+    const userId = crypto.randomUUID();
+    const keys = createDevice().keys;
+    for (const endpoint of ['http://169.254.169.254/latest/meta-data', 'https://intranet.example.com/push', 'http://fcm.googleapis.com/fcm/send/x', 'https://fcm.googleapis.com.evil.test/x']) {
+      await expect(webPushService.subscribe(userId, { endpoint, keys })).rejects.toThrow('not a known push service');
+    }
+    const saved = await webPushService.subscribe(userId, { endpoint: 'https://fcm.googleapis.com/fcm/send/device-token', keys });
+    expect(saved.endpoint).toBe('https://fcm.googleapis.com/fcm/send/device-token');
+
+    // Subscriptions stored before the check are dropped rather than posted to
+    await storage.createPushSubscription({
+      userId, endpoint: `http://10.0.0.5/${userId}`, ...keys, userAgent: null, expirationTime: null, failureCount: 0, lastSuccessAt: null,
+    });
+    await storage.deletePushSubscription(saved.id);
+    expect(await webPushService.sendToUser(userId, { title: 'Overdue', body: 'WO-1004 is overdue' })).toEqual({ sent: 0, removed: 1, failed: 0 });
+    expect(await storage.getPushSubscriptions(userId)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { workOrderLifecycle, WorkOrderTransitionError } from '../../../server/services/work-order-lifecycle';
+import { storage } from '../../../server/storage';
+import { WorkOrder } from '../../../shared/schema';
+
+vi.mock('../../../server/storage', () => ({
+  storage: {
+    getWorkOrder: vi.fn(),
+    updateWorkOrder: vi.fn(),
+    getChecklistItems: vi.fn(),
+    getLaborTime: vi.fn(),
+    getProfile: vi.fn(),
+    createWorkOrderStatusHistory: vi.fn(),
+  },
+}));
+
+vi.mock('../../../server/services/sla.service', () => ({
+  slaService: { onTransition: vi.fn(async (workOrder: unknown) => workOrder) },
+}));
+
+vi.mock('../../../server/services/failure-code.service', () => ({
+  failureCodeService: { checkCompletion: vi.fn(async () => null) },
+}));
+
+const baseWorkOrder: WorkOrder = {
+  id: 'wo-1',
+  foNumber: 'WO-001',
+  type: 'corrective',
+  description: 'Replace belt',
+  area: null,
+  assetModel: null,
+  status: 'in_progress',
+  priority: 'medium',
+  requestedBy: 'requester-id',
+  assignedTo: 'technician-id',
+  equipmentId: null,
+  dueDate: null,
+  completedAt: null,
+  verifiedBy: null,
+  estimatedHours: null,
+  actualHours: null,
+  notes: null,
+  followUp: false,
+  escalated: false,
+  escalationLevel: 0,
+  warehouseId: 'warehouse-id',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const technician = { id: 'technician-id', role: 'technician' as const, warehouseId: 'warehouse-id' };
+const supervisor = { id: 'supervisor-id', role: 'supervisor' as const, warehouseId: 'warehouse-id' };
+
+describe('WorkOrderLifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getChecklistItems).mockResolvedValue([]);
+    vi.mocked(storage.getLaborTime).mockResolvedValue([]);
+    vi.mocked(storage.updateWorkOrder).mockImplementation(async (id, updates) => ({ ...baseWorkOrder, ...(updates as any) }));
+    vi.mocked(storage.createWorkOrderStatusHistory).mockImplementation(async entry => ({
+      id: 'history-1',
+      ...entry,
+      createdAt: new Date(),
+    }));
+  });
+
+  it('completes a work order and records the transition', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue(baseWorkOrder);
+
+    const result = await workOrderLifecycle.transition('wo-1', 'completed', technician, { reason: 'Done' });
+
+    expect(result.workOrder.status).toBe('completed');
+    expect(result.workOrder.completedAt).toBeInstanceOf(Date);
+    expect(storage.createWorkOrderStatusHistory).toHaveBeenCalledWith(expect.objectContaining({
+      workOrderId: 'wo-1',
+      fromStatus: 'in_progress',
+      toStatus: 'completed',
+      changedBy: 'technician-id',
+      reason: 'Done',
+    }));
+  });
+
+  it('rejects transitions that are not in the lifecycle', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, status: 'new' });
+
+    await expect(workOrderLifecycle.transition('wo-1', 'closed', supervisor))
+      .rejects.toMatchObject({ statusCode: 409, code: 'ILLEGAL_TRANSITION', from: 'new', to: 'closed' });
+    expect(storage.updateWorkOrder).not.toHaveBeenCalled();
+  });
+
+  it('blocks completion while checklist items are pending or a timer is running', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue(baseWorkOrder);
+    vi.mocked(storage.getChecklistItems).mockResolvedValue([
+      { id: 'item-1', workOrderId: 'wo-1', component: 'Belt', action: 'Inspect', status: 'pending', notes: null, sortOrder: 0, createdAt: new Date() },
+    ]);
+    vi.mocked(storage.getLaborTime).mockResolvedValue([
+      { id: 'lt-1', workOrderId: 'wo-1', userId: 'technician-id', startTime: new Date(), endTime: null, duration: null, description: 'Work', isActive: true, isManual: false, createdAt: new Date() },
+    ]);
+
+    const error = await workOrderLifecycle.transition('wo-1', 'completed', technician).catch(e => e);
+
+    expect(error).toBeInstanceOf(WorkOrderTransitionError);
+    expect(error.code).toBe('PRECONDITION_FAILED');
+    expect(error.violations.map((v: any) => v.code)).toEqual(['CHECKLIST_INCOMPLETE', 'ACTIVE_LABOR_TIMER']);
+  });
+
+  it('prevents technicians from moving work orders they are not assigned to', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, assignedTo: 'other-technician-id' });
+
+    await expect(workOrderLifecycle.transition('wo-1', 'completed', technician))
+      .rejects.toMatchObject({ code: 'FORBIDDEN_TRANSITION' });
+  });
+
+  it('requires verification by someone other than the assignee', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, status: 'completed', assignedTo: 'supervisor-id' });
+
+    await expect(workOrderLifecycle.transition('wo-1', 'verified', supervisor))
+      .rejects.toMatchObject({ code: 'PRECONDITION_FAILED', violations: [expect.objectContaining({ code: 'VERIFIER_IS_ASSIGNEE' })] });
+  });
+
+  it('ignores a verifier named by the assignee', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, status: 'completed', assignedTo: 'supervisor-id' });
+
+    await expect(workOrderLifecycle.transition('wo-1', 'verified', supervisor, { changes: { verifiedBy: 'manager-id' } as any }))
+      .rejects.toMatchObject({ code: 'PRECONDITION_FAILED', violations: [expect.objectContaining({ code: 'VERIFIER_IS_ASSIGNEE' })] });
+  });
+
+  it('sets verifiedBy when a supervisor verifies', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, status: 'completed' });
+
+    const result = await workOrderLifecycle.transition('wo-1', 'verified', supervisor);
+
+    expect(result.workOrder.verifiedBy).toBe('supervisor-id');
+  });
+
+  it('stops the response clock the first time work starts', async () => {
+    vi.mocked(storage.getWorkOrder).mockResolvedValue({ ...baseWorkOrder, status: 'assigned', respondedAt: null });
+
+    const result = await workOrderLifecycle.transition('wo-1', 'in_progress', technician);
+
+    expect(result.workOrder.respondedAt).toBeInstanceOf(Date);
+  });
+
+  it('falls back to the stored profile role when the actor has none', async () => {
+    vi.mocked(storage.getProfile).mockResolvedValue(undefined);
+
+    const available = await workOrderLifecycle.getAvailableTransitions({ ...baseWorkOrder, status: 'verified' }, { id: 'unknown-id' });
+
+    expect(available).toEqual([]);
+  });
+});
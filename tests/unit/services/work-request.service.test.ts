@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { workRequestService } from '../../../server/services/work-request.service';
+import { scanService } from '../../../server/services/scan.service';
+import { storage } from '../../../server/storage';
+import type { Equipment, Warehouse, WorkOrder } from '../../../shared/schema';
+import { createTestEquipment, createTestProfile, createTestWarehouse, createTestWorkOrder } from '../../helpers/fixtures';
+
+vi.mock('../../../server/storage', async () => (await import('../../helpers/mem-storage')).memStorageModule());
+
+vi.mock('../../../server/services/file-management.service', () => ({
+  fileManagementService: {
+    saveImage: vi.fn(async () => ({ fileName: 'photo.jpg', filePath: 'uploads/photo.jpg', thumbnailPath: 'uploads/thumbnails/thumb_photo.jpg', size: 2048 })),
+    getFilePath: (name: string) => `uploads/${name}`,
+    getThumbnailPath: (name: string) => `uploads/thumbnails/${name}`,
+  },
+}));
+
+let warehouse: Warehouse;
+let pump: Equipment;
+let leak: WorkOrder;
+const supervisorId = 'supervisor-id';
+const supervisor = { userId: supervisorId, role: 'supervisor' };
+
+const submission = (overrides: Record<string, unknown> = {}) => ({
+  code: scanService.encode('asset', pump.id),
+  description: 'Dripping from the seal',
+  requesterName: 'Sam Porter',
+  requesterEmail: '',
+  ...overrides,
+});
+
+describe('WorkRequestService', () => {
+  beforeEach(async () => {
+    warehouse = await createTestWarehouse({ name: 'Plant' });
+    pump = await createTestEquipment(warehouse.id, { model: 'P-100', description: 'Coolant pump', area: 'Line 2', criticality: 'high' });
+    leak = await createTestWorkOrder(warehouse.id, {
+      priority: 'high',
+      status: 'assigned',
+      description: 'Pump leaking',
+      requestedBy: supervisorId,
+      equipmentId: pump.id,
+    });
+  });
+
+  it('accepts only signed label and kiosk codes, and tracks a submission by its status token', async () => {
+    await expect(workRequestService.portalContext(pump.assetTag)).rejects.toThrow('Scan an equipment or location label');
+    await expect(workRequestService.portalContext(`kiosk:${warehouse.id}:0000000000000000`)).rejects.toThrow('not valid');
+
+    const kiosk = await workRequestService.portalContext(workRequestService.kioskCode(warehouse.id));
+    expect(kiosk).toMatchObject({ source: 'kiosk', warehouseId: warehouse.id, equipment: null });
+    await expect(workRequestService.submit(submission({ code: workRequestService.kioskCode(warehouse.id) })))
+      .rejects.toThrow('Say where the problem is');
+
+    const result = await workRequestService.submit(submission(), [{ buffer: Buffer.from('jpeg'), originalName: 'leak.jpg' }]);
+    expect(result.alreadyReported).toBe(true);
+    expect(result.request).toMatchObject({ status: 'pending', assetTag: pump.assetTag, area: 'Line 2', workOrder: null });
+
+    const stored = (await storage.getWorkRequests(warehouse.id))[0];
+    expect(stored.tokenHash).not.toBe(result.statusToken);
+    expect(stored.photos).toEqual([{ fileName: 'photo.jpg', originalName: 'leak.jpg', size: 2048 }]);
+    expect(await workRequestService.getStatus(result.statusToken)).toEqual(result.request);
+    await expect(workRequestService.getStatus('not-a-token')).rejects.toThrow('Request not found');
+  });
+
+  it('flags open work on the same asset and merges the request into it with its photos', async () => {
+    await workRequestService.submit(submission(), [{ buffer: Buffer.from('jpeg'), originalName: 'leak.jpg' }]);
+    const [entry] = await workRequestService.listQueue(warehouse.id);
+    expect(entry.duplicates.map(wo => wo.id)).toEqual([leak.id]);
+    expect(entry).not.toHaveProperty('tokenHash');
+
+    const merged = await workRequestService.merge(entry.id, leak.id, supervisor, warehouse.id);
+    expect(merged).toMatchObject({ status: 'merged', workOrderId: leak.id, decidedBy: supervisorId });
+    expect((await storage.getWorkOrder(leak.id))?.notes).toContain('Dripping from the seal');
+    expect((await storage.getAttachments(leak.id)).map(a => a.fileName)).toContain('leak.jpg');
+    expect(await workRequestService.listQueue(warehouse.id)).toHaveLength(0);
+
+    await expect(workRequestService.reject(entry.id, 'Duplicate', supervisor, warehouse.id)).rejects.toThrow('already been merged');
+  });
+
+  it('approves a request into a work order or rejects it with a reason', async () => {
+    await storage.updateWorkOrder(leak.id, { status: 'completed' });
+    const first = await workRequestService.submit(submission({ urgency: 'high', requesterPhone: '555-0100' }));
+    expect(first.alreadyReported).toBe(false);
+    const second = await workRequestService.submit(submission({ description: 'Needs repainting' }));
+    const [convertEntry, rejectEntry] = await workRequestService.listQueue(warehouse.id);
+
+    const { request, workOrder } = await workRequestService.approve(convertEntry.id, { estimatedCost: 150, estimatedHours: 2 } as any, supervisor, warehouse.id);
+    expect(workOrder).toMatchObject({ type: 'corrective', status: 'new', priority: 'high', equipmentId: pump.id, requestedBy: supervisorId });
+    expect(workOrder!.notes).toContain('Sam Porter (555-0100)');
+    expect(request).toMatchObject({ status: 'converted', workOrderId: workOrder!.id });
+    expect(await workRequestService.getStatus(first.statusToken)).toMatchObject({ workOrder: { foNumber: workOrder!.foNumber, status: 'new' } });
+
+    await expect(workRequestService.reject(rejectEntry.id, '', supervisor, warehouse.id)).rejects.toThrow();
+    await workRequestService.reject(rejectEntry.id, 'Cosmetic; scheduled with the annual shutdown', supervisor, warehouse.id);
+    expect(await workRequestService.getStatus(second.statusToken)).toMatchObject({
+      status: 'rejected',
+      decisionReason: 'Cosmetic; scheduled with the annual shutdown',
+    });
+  });
+
+  it('lets only one of two simultaneous approvals create a work order', async () => {
+    await storage.updateWorkOrder(leak.id, { status: 'completed' });
+    await workRequestService.submit(submission());
+    const [entry] = await workRequestService.listQueue(warehouse.id);
+    const before = (await storage.getWorkOrders(warehouse.id)).length;
+
+    const results = await Promise.allSettled([
+      workRequestService.approve(entry.id, { estimatedCost: 150, estimatedHours: 2 } as any, supervisor, warehouse.id),
+      workRequestService.approve(entry.id, { estimatedCost: 150, estimatedHours: 2 } as any, { userId: 'manager-id', role: 'manager' }, warehouse.id),
+    ]);
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+    expect(await storage.getWorkOrders(warehouse.id)).toHaveLength(before + 1);
+    expect((await storage.getWorkRequest(entry.id))?.workOrderId).toBe(
+      (results.find(r => r.status === 'fulfilled') as PromiseFulfilledResult<{ workOrder: WorkOrder }>).value.workOrder.id,
+    );
+  });
+
+  it('keeps escalated requests for the senior approver and merges a request only once', async () => {
+    await workRequestService.submit(submission());
+    const [entry] = await workRequestService.listQueue(warehouse.id);
+    const escalated = await workRequestService.approve(entry.id, { estimatedCost: 2500, estimatedHours: 4 } as any, supervisor, warehouse.id);
+    expect(escalated.request).toMatchObject({ status: 'awaiting_approval', approvalRole: 'manager' });
+
+    await expect(workRequestService.reject(entry.id, 'Not needed', supervisor, warehouse.id)).rejects.toThrow('needs manager approval');
+    await expect(workRequestService.merge(entry.id, leak.id, supervisor, warehouse.id)).rejects.toThrow('needs manager approval');
+
+    const manager = { userId: 'manager-id', role: 'manager' };
+    const results = await Promise.allSettled([
+      workRequestService.merge(entry.id, leak.id, manager, warehouse.id),
+      workRequestService.merge(entry.id, leak.id, manager, warehouse.id),
+    ]);
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    const notes = (await storage.getWorkOrder(leak.id))?.notes ?? '';
+    expect(notes.split('Dripping from the seal')).toHaveLength(2);
+  });
+
+  it('escalates estimates over the approver\'s limit and links the staff requester to the approved work order', async () => {
+    const requester = await createTestProfile(warehouse.id, { firstName: 'Robin', lastName: 'Hale', role: 'requester' });
+    const thresholds = await workRequestService.getThresholds(warehouse.id);
+    expect(thresholds.find(t => t.role === 'supervisor')).toMatchObject({ maxCost: 1000, maxHours: 8, isDefault: true });
+    await workRequestService.updateThresholds(warehouse.id, [{ role: 'manager', maxCost: 4000, maxHours: null }]);
+
+    const entry = await workRequestService.submitInternal({ description: 'Replace the conveyor drive belt', equipmentId: pump.id, urgency: 'medium', estimatedCost: 2500 } as any, requester.id, warehouse.id);
+    expect(entry).toMatchObject({ source: 'internal', status: 'pending', requesterName: 'Robin Hale', requesterId: requester.id, estimatedCost: '2500.00' });
+    await expect(workRequestService.approve(entry.id, {}, { userId: requester.id }, warehouse.id)).rejects.toThrow('Only supervisors');
+
+    // Lowering the requester's estimate doesn't bring it within the supervisor's limit
+    const escalated = await workRequestService.approve(entry.id, { estimatedCost: 100, estimatedHours: 4 } as any, supervisor, warehouse.id);
+    expect(escalated.workOrder).toBeNull();
+    expect(escalated.request).toMatchObject({ status: 'awaiting_approval', approvalRole: 'manager' });
+    await expect(workRequestService.approve(entry.id, { estimatedCost: 50 } as any, supervisor, warehouse.id))
+      .rejects.toThrow('needs manager approval');
+    await expect(workRequestService.approve(entry.id, { estimatedCost: null, estimatedHours: null } as any, supervisor, warehouse.id))
+      .rejects.toThrow('needs admin approval');
+    expect((await workRequestService.listQueue(warehouse.id)).map(e => e.id)).toContain(entry.id);
+
+    const { request, workOrder } = await workRequestService.approve(entry.id, { estimatedHours: 12 } as any, { userId: 'manager-id', role: 'manager' }, warehouse.id);
+    expect(workOrder).toMatchObject({ requestedBy: requester.id, estimatedHours: '12.00', equipmentId: pump.id });
+    expect(request.decisions.map(d => [d.action, d.fromStatus, d.toStatus, d.actorRole])).toEqual([
+      ['submitted', null, 'pending', 'requester'],
+      ['escalated', 'pending', 'awaiting_approval', 'supervisor'],
+      ['approved', 'awaiting_approval', 'converted', 'manager'],
+    ]);
+    expect(request.decisions[2]).toMatchObject({ workOrderId: workOrder!.id, estimatedCost: '100.00', estimatedHours: '12.00' });
+
+    // Without an estimate nobody below the most senior role can approve
+    const unestimated = await workRequestService.submitInternal({ description: 'Noise from the gearbox', equipmentId: pump.id } as any, requester.id, warehouse.id);
+    const { request: pendingAdmin } = await workRequestService.approve(unestimated.id, {}, { userId: 'manager-id', role: 'manager' }, warehouse.id);
+    expect(pendingAdmin).toMatchObject({ status: 'awaiting_approval', approvalRole: 'admin' });
+  });
+});